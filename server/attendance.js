@@ -1,6 +1,13 @@
 // Attendance API Routes
 import { sendAttendanceNotification } from './telegram-notifications.js';
 import express from 'express';
+import { syncCompOffForAttendance } from './comp-off-routes.js';
+import { canViewUser } from './team-scope.js';
+import { manualCheckinProof, keepsCheckinProof } from './checkin-routes.js';
+import { getHolidaysByUser } from './holiday-routes.js';
+import { updateShiftMinutes } from './shift-routes.js';
+import { sendTelegramMessage } from './telegram-bot.js';
+import { toDateString } from './date-utils.js';
 
 // Permission middleware - employees can only mark today, admins can edit any date
 export function canMarkAttendance(req, res, next) {
@@ -18,7 +25,7 @@ export function canMarkAttendance(req, res, next) {
 
     if (requestedDate !== today) {
         return res.status(403).json({
-            error: 'Employees can only mark attendance for today. Please contact admin to edit past dates.'
+            error: 'Employees can only mark attendance for today. To change a past date, send a correction request.'
         });
     }
 
@@ -26,15 +33,15 @@ export function canMarkAttendance(req, res, next) {
 }
 
 // Get attendance records
-// Employees see their own, admins can see anyone's
+// Employees see their own, managers their team's, admins anyone's
 export async function getAttendance(req, res, pool) {
     try {
         const userId = req.query.userId || req.user.id;
         const month = req.query.month; // YYYY-MM format
         const year = req.query.year;
 
-        // Non-admins can only view their own attendance
-        if (req.user.role !== 'admin' && parseInt(userId) !== req.user.id) {
+        // Employees can only view their own attendance, managers their team's
+        if (!(await canViewUser(pool, req.user, userId))) {
             return res.status(403).json({ error: 'Unauthorized' });
         }
 
@@ -82,37 +89,66 @@ export async function markAttendance(req, res, pool) {
 
         // Check if attendance already exists
         const existing = await pool.query(
-            'SELECT id FROM attendance WHERE user_id = $1 AND date = $2',
+            'SELECT id, work_hours_start, checkin_method FROM attendance WHERE user_id = $1 AND date = $2',
             [targetUserId, attendance_date]
         );
 
+        // Typed-in times replace any location or QR proof unless the entry time is unchanged
+        const proof = await manualCheckinProof(pool, targetUserId, status, markedByAdmin);
+
         if (existing.rows.length > 0) {
+            const keepProof = keepsCheckinProof(existing.rows[0], check_in_time, status);
+
             // Update existing attendance
             const result = await pool.query(
                 `UPDATE attendance 
-                 SET status = $1, work_hours_start = $2, work_hours_end = $3, notes = $4
+                 SET status = $1, work_hours_start = $2, work_hours_end = $3, notes = $4,
+                     checkin_method = CASE WHEN $7 THEN checkin_method ELSE $8 END,
+                     checkin_verified = CASE WHEN $7 THEN checkin_verified ELSE $9 END,
+                     checkin_latitude = CASE WHEN $7 THEN checkin_latitude END,
+                     checkin_longitude = CASE WHEN $7 THEN checkin_longitude END,
+                     checkin_accuracy_m = CASE WHEN $7 THEN checkin_accuracy_m END,
+                     checkin_distance_m = CASE WHEN $7 THEN checkin_distance_m END,
+                     checkin_geofence_id = CASE WHEN $7 THEN checkin_geofence_id END,
+                     needs_review = false
                  WHERE user_id = $5 AND date = $6
                  RETURNING *`,
-                [status, check_in_time, check_out_time, notes, targetUserId, attendance_date]
+                [status, check_in_time, check_out_time, notes, targetUserId, attendance_date,
+                    keepProof, proof.method, proof.verified]
             );
 
+            // Late, early-leave and overtime minutes against the user's shift
+            const updated = await updateShiftMinutes(pool, result.rows[0].id);
+
+            // Earn or withdraw a comp-off for Sunday/holiday work
+            await syncCompOffForAttendance(pool, targetUserId, attendance_date, status)
+                .catch(error => console.error('❌ Error syncing comp-off:', error));
+
             // Log activity
             await pool.query(
                 'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
                 [req.user.id, 'update_attendance', `Updated attendance for ${attendance_date}`]
             );
 
-            return res.json(result.rows[0]);
+            return res.json(updated);
         } else {
             // Create new attendance record
             const result = await pool.query(
                 `INSERT INTO attendance 
-                 (user_id, date, status, work_hours_start, work_hours_end, notes, marked_at)
-                 VALUES ($1, $2, $3, $4, $5, $6, NOW())
+                 (user_id, date, status, work_hours_start, work_hours_end, notes, marked_at,
+                  checkin_method, checkin_verified)
+                 VALUES ($1, $2, $3, $4, $5, $6, NOW(), $7, $8)
                  RETURNING *`,
-                [targetUserId, attendance_date, status, check_in_time, check_out_time, notes]
+                [targetUserId, attendance_date, status, check_in_time, check_out_time, notes,
+                    proof.method, proof.verified]
             );
 
+            const created = await updateShiftMinutes(pool, result.rows[0].id);
+
+            // Earn a comp-off for Sunday/holiday work
+            await syncCompOffForAttendance(pool, targetUserId, attendance_date, status)
+                .catch(error => console.error('❌ Error syncing comp-off:', error));
+
             // Log activity
             await pool.query(
                 'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
@@ -141,7 +177,7 @@ export async function markAttendance(req, res, pool) {
                 ).catch(err => console.log('⚠️ Telegram notification failed:', err.message));
             }
 
-            res.status(201).json(result.rows[0]);
+            res.status(201).json(created);
         }
     } catch (error) {
         console.error('❌ Error marking attendance:', error);
@@ -180,8 +216,8 @@ export async function getAttendanceSummary(req, res, pool) {
         const userId = req.query.userId || req.user.id;
         const month = req.query.month; // YYYY-MM
 
-        // Non-admins can only view their own summary
-        if (req.user.role !== 'admin' && parseInt(userId) !== req.user.id) {
+        // Employees can only view their own summary, managers their team's
+        if (!(await canViewUser(pool, req.user, userId))) {
             return res.status(403).json({ error: 'Unauthorized' });
         }
 
@@ -197,3 +233,170 @@ export async function getAttendanceSummary(req, res, pool) {
         res.status(500).json({ error: 'Failed to fetch summary' });
     }
 }
+
+// ==================== NIGHTLY CLOSE ====================
+
+// 'cap' ends open check-ins at shift end; 'flag' leaves check-out empty for review
+const AUTO_CLOSE_POLICY = process.env.ATTENDANCE_AUTO_CLOSE_POLICY === 'flag' ? 'flag' : 'cap';
+
+/**
+ * Close one day's attendance: employees whose shift works that day and who
+ * have no record are marked absent, and check-ins without a check-out are
+ * capped at the shift end or flagged.
+ * Returns the names affected, for the admin digest.
+ */
+export async function closeAttendanceDay(pool, date, policy = AUTO_CLOSE_POLICY) {
+    const summary = { date, policy, absent: [], capped: [], flagged: [] };
+
+    // Only users whose shift works this weekday; holidays are checked per user below
+    const missing = await pool.query(
+        `SELECT u.id, u.full_name
+         FROM users u
+         JOIN shifts s ON s.id = user_shift_id(u.id)
+         WHERE u.role IS NOT NULL AND u.is_active = true
+           AND u.created_at::date <= $1
+           AND EXTRACT(DOW FROM $1::date)::smallint = ANY(s.working_days)
+           AND NOT EXISTS (
+               SELECT 1 FROM attendance a WHERE a.user_id = u.id AND a.date = $1
+           )
+           AND NOT EXISTS (
+               SELECT 1 FROM leave_requests l
+               WHERE l.user_id = u.id AND l.status = 'approved'
+                 AND $1 BETWEEN l.start_date AND l.end_date
+           )
+         ORDER BY u.full_name`,
+        [date]
+    );
+
+    const holidaysByUser = missing.rows.length > 0
+        ? await getHolidaysByUser(pool, missing.rows.map(u => u.id), date, date)
+        : new Map();
+
+    for (const user of missing.rows) {
+        if (holidaysByUser.get(user.id)?.has(date)) continue;
+
+        // marked_at stays NULL: that is how auto-marked rows are told apart
+        const inserted = await pool.query(
+            `INSERT INTO attendance (user_id, date, status, notes)
+             VALUES ($1, $2, 'absent', 'Auto-marked absent: no attendance recorded')
+             ON CONFLICT (user_id, date) DO NOTHING
+             RETURNING id`,
+            [user.id, date]
+        );
+
+        if (inserted.rows.length > 0) {
+            summary.absent.push(user.full_name);
+        }
+    }
+
+    const open = await pool.query(
+        `SELECT a.id, a.work_hours_start, u.full_name, s.end_time
+         FROM attendance a
+         JOIN users u ON a.user_id = u.id
+         LEFT JOIN shifts s ON s.id = user_shift_id(u.id)
+         WHERE a.date = $1
+           AND a.work_hours_start IS NOT NULL
+           AND a.work_hours_end IS NULL
+           AND a.auto_closed_at IS NULL
+         ORDER BY u.full_name`,
+        [date]
+    );
+
+    for (const row of open.rows) {
+        const start = row.work_hours_start.substring(0, 5);
+        const shiftEnd = row.end_time?.substring(0, 5);
+
+        // Someone who checked in after shift end cannot be capped, so they are flagged too
+        if (policy === 'cap' && shiftEnd && start < shiftEnd) {
+            await pool.query(
+                `UPDATE attendance SET work_hours_end = $1, auto_closed_at = NOW() WHERE id = $2`,
+                [shiftEnd, row.id]
+            );
+            await updateShiftMinutes(pool, row.id);
+            summary.capped.push(`${row.full_name} (${start}-${shiftEnd})`);
+        } else {
+            await pool.query(
+                `UPDATE attendance SET needs_review = true, auto_closed_at = NOW() WHERE id = $1`,
+                [row.id]
+            );
+            summary.flagged.push(`${row.full_name} (in ${start})`);
+        }
+    }
+
+    return summary;
+}
+
+function formatCloseDigest(summary) {
+    const day = new Date(`${summary.date}T00:00:00`).toLocaleDateString('en-US', {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric'
+    });
+
+    const section = (title, names) => names.length === 0
+        ? ''
+        : `\n<b>${title} (${names.length}):</b>\n${names.map(name => `• ${name}`).join('\n')}\n`;
+
+    let message = `🌙 <b>Attendance Closed - ${day}</b>\n`;
+
+    if (summary.absent.length + summary.capped.length + summary.flagged.length === 0) {
+        return message + `\n✅ Everyone accounted for, no open check-ins.`;
+    }
+
+    message += section('❌ Auto-marked absent', summary.absent);
+    message += section('⏹️ Checked out at shift end', summary.capped);
+    message += section('⚠️ No check-out - needs review', summary.flagged);
+
+    return message;
+}
+
+/**
+ * Nightly job: close yesterday and post the digest to the admin Telegram chat
+ */
+export async function processAttendanceClose(pool) {
+    try {
+        const yesterday = new Date();
+        yesterday.setDate(yesterday.getDate() - 1);
+
+        const summary = await closeAttendanceDay(pool, toDateString(yesterday));
+
+        console.log(`🌙 Attendance closed for ${summary.date}: ${summary.absent.length} absent, ${summary.capped.length} capped, ${summary.flagged.length} flagged`);
+
+        if (process.env.TELEGRAM_ENABLED === 'true') {
+            await sendTelegramMessage(formatCloseDigest(summary))
+                .catch(error => console.error('❌ Error sending attendance close digest:', error.message));
+        }
+    } catch (error) {
+        console.error('❌ Error closing attendance:', error);
+    }
+}
+
+/**
+ * Close a past day on demand, e.g. after the server was down overnight (Admin only)
+ * POST /api/admin/attendance/close-day { date }
+ */
+export async function runAttendanceClose(req, res, pool) {
+    try {
+        const { date } = req.body;
+
+        if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+            return res.status(400).json({ error: 'A valid date (YYYY-MM-DD) is required' });
+        }
+
+        if (date >= toDateString(new Date())) {
+            return res.status(400).json({ error: 'Only past days can be closed' });
+        }
+
+        const summary = await closeAttendanceDay(pool, date);
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'close_attendance_day', `Closed attendance for ${date}: ${summary.absent.length} absent, ${summary.capped.length} capped, ${summary.flagged.length} flagged`]
+        );
+
+        res.json(summary);
+    } catch (error) {
+        console.error('❌ Error closing attendance day:', error);
+        res.status(500).json({ error: 'Failed to close attendance day' });
+    }
+}
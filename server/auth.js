@@ -2,9 +2,10 @@
 import passport from 'passport';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
 import jwt from 'jsonwebtoken';
+import { acceptInviteWithGoogle } from './invite-routes.js';
 
-// Helper function to generate JWT token
-export function generateToken(user) {
+// Short-lived access token bound to a login session (see session-routes.js)
+export function generateToken(user, sessionId) {
   const JWT_SECRET = process.env.JWT_SECRET;
   if (!JWT_SECRET) {
     throw new Error('JWT_SECRET not configured');
@@ -15,10 +16,11 @@ export function generateToken(user) {
       id: user.id,
       username: user.username,
       email: user.email,
-      role: user.role
+      role: user.role,
+      sid: sessionId
     },
     JWT_SECRET,
-    { expiresIn: '7d' } // 7 days expiry
+    { expiresIn: process.env.ACCESS_TOKEN_TTL || '15m' }
   );
 }
 
@@ -46,9 +48,10 @@ export function initializePassport() {
     clientID: GOOGLE_CLIENT_ID,
     clientSecret: GOOGLE_CLIENT_SECRET,
     callbackURL: GOOGLE_CALLBACK_URL,
-    scope: ['profile', 'email']
+    scope: ['profile', 'email'],
+    passReqToCallback: true
   },
-    async (accessToken, refreshToken, profile, done) => {
+    async (req, accessToken, refreshToken, profile, done) => {
       try {
         const pool = global.pool; // Use global pool from index.js
 
@@ -63,6 +66,62 @@ export function initializePassport() {
           [googleId]
         );
 
+        // Invite link: the token comes back as the OAuth state
+        const inviteToken = req.query.state;
+
+        if (user.rows.length === 0 || inviteToken) {
+          const invitedUser = await acceptInviteWithGoogle(pool, inviteToken, profile);
+
+          if (invitedUser) {
+            await pool.query(
+              'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+              [invitedUser.id, 'login', `User ${invitedUser.full_name} logged in via Google OAuth`]
+            );
+            return done(null, invitedUser);
+          }
+
+          // A link that no longer works should not quietly create a pending account
+          if (inviteToken) {
+            return done(null, false);
+          }
+        }
+
+        if (user.rows.length === 0) {
+          // An account with this email already exists: attach the Google login to it
+          const sameEmail = await pool.query(
+            'SELECT * FROM users WHERE LOWER(email) = LOWER($1)',
+            [email]
+          );
+
+          if (sameEmail.rows.length > 0) {
+            const existing = sameEmail.rows[0];
+
+            if (existing.google_id || profile.emails[0].verified === false) {
+              console.warn(`⚠️ Google login for ${email} not linked: ${existing.google_id ? 'account has another Google login' : 'Google email not verified'}`);
+              return done(null, false);
+            }
+
+            // Google has proven the address; an unconfirmed sign-up's password
+            // may have been set by someone else, so it is dropped
+            user = await pool.query(
+              `UPDATE users
+               SET google_id = $1, google_email = $2, avatar_url = $3,
+                   password_hash = CASE WHEN email_verified_at IS NULL THEN NULL ELSE password_hash END,
+                   email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+               WHERE id = $4
+               RETURNING *`,
+              [googleId, email, avatarUrl, existing.id]
+            );
+
+            await pool.query(
+              'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+              [existing.id, 'google_linked', `Google account ${email} linked to ${existing.full_name}`]
+            );
+
+            console.log(`✅ Google login linked to existing account: ${email}`);
+          }
+        }
+
         if (user.rows.length === 0) {
           // Check if this is the first user (becomes admin automatically)
           const userCount = await pool.query('SELECT COUNT(*) FROM users');
@@ -2,6 +2,11 @@
 // Routes for Calibration department site visit expense tracking
 
 import { Router } from 'express';
+import { getTeamUserIds, isInTeam, canViewUser } from './team-scope.js';
+import { findCompanyId } from './customer-routes.js';
+import { storeFile, deleteFile, sendStoredFile, UploadError } from './file-storage.js';
+import { scanReceipt } from './receipt-ocr.js';
+import { loadExpensePolicies, normalizeExpense, getPolicyViolations, getExpenseWarnings } from './expense-policy-routes.js';
 
 /**
  * Middleware to check if user belongs to Calibration department
@@ -49,6 +54,17 @@ export const createSiteVisit = async (req, res, pool) => {
             });
         }
 
+        // Every item must be an allowed type before anything is saved
+        const { policies } = await loadExpensePolicies(client);
+        const items = [];
+        for (const [index, expense] of expenses.entries()) {
+            const checked = normalizeExpense(policies, expense);
+            if (checked.error) {
+                return res.status(400).json({ error: `Expense ${index + 1}: ${checked.error}` });
+            }
+            items.push({ ...expense, ...checked });
+        }
+
         await client.query('BEGIN');
 
         // Verify attendance belongs to user
@@ -79,26 +95,31 @@ export const createSiteVisit = async (req, res, pool) => {
         const siteVisitResult = await client.query(
             `INSERT INTO site_visit_details (
                 attendance_id, user_id, visit_date, location, company_name, 
-                num_gauges, visit_summary, conclusion, status
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'draft')
+                num_gauges, visit_summary, conclusion, status, company_id
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'draft', $9)
             RETURNING id`,
             [attendanceId, userId, date, location, companyName || null,
-                numGauges || 0, visitSummary || null, conclusion || null]
+                numGauges || 0, visitSummary || null, conclusion || null,
+                await findCompanyId(client, companyName)]
         );
 
         const siteVisitId = siteVisitResult.rows[0].id;
 
-        // Insert expenses
+        // Insert expenses (ids come back in the same order so receipts can follow)
         let totalExpenses = 0;
-        for (const expense of expenses) {
-            await client.query(
+        const expenseIds = [];
+        for (const expense of items) {
+            const expenseResult = await client.query(
                 `INSERT INTO site_visit_expenses (
-                    site_visit_id, expense_type, amount, description, notes
-                ) VALUES ($1, $2, $3, $4, $5)`,
-                [siteVisitId, expense.type, expense.amount,
-                    expense.description || null, expense.notes || null]
+                    site_visit_id, expense_type, amount, description, notes, vendor, distance_km
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+                RETURNING id`,
+                [siteVisitId, expense.expenseType, expense.amount,
+                    expense.description || null, expense.notes || null, expense.vendor || null,
+                    expense.distanceKm]
             );
-            totalExpenses += parseFloat(expense.amount);
+            expenseIds.push(expenseResult.rows[0].id);
+            totalExpenses += expense.amount;
         }
 
         // Update attendance record
@@ -119,9 +140,19 @@ export const createSiteVisit = async (req, res, pool) => {
             [userId, 'site_visit_created', `Created site visit for ${location} with ${expenses.length} expenses`]
         );
 
+        // The visit is committed; a failed policy lookup only loses the warnings
+        let violations = {};
+        try {
+            violations = await getPolicyViolations(pool, [siteVisitId]);
+        } catch (error) {
+            console.error('❌ Error checking expense policy:', error);
+        }
+
         res.status(201).json({
             success: true,
             siteVisitId,
+            expenseIds,
+            warnings: expenseIds.map(expenseId => violations[expenseId] || []),
             totalExpenses: totalExpenses.toFixed(2),
             message: 'Site visit details saved as draft'
         });
@@ -152,8 +183,13 @@ export const getSiteVisitByDate = async (req, res, pool) => {
                             'type', sve.expense_type,
                             'amount', sve.amount,
                             'description', sve.description,
-                            'notes', sve.notes
-                        )
+                            'notes', sve.notes,
+                            'vendor', sve.vendor,
+                            'distance_km', sve.distance_km,
+                            'has_receipt', sve.receipt_storage_key IS NOT NULL,
+                            'receipt_file_name', sve.receipt_file_name,
+                            'receipt_file_type', sve.receipt_file_type
+                        ) ORDER BY sve.id
                     ) FILTER (WHERE sve.id IS NOT NULL) as expenses
              FROM site_visit_details svd
              LEFT JOIN site_visit_expenses sve ON svd.id = sve.site_visit_id
@@ -210,9 +246,10 @@ export const updateSiteVisit = async (req, res, pool) => {
         await client.query(
             `UPDATE site_visit_details 
              SET location = $1, company_name = $2, num_gauges = $3, 
-                 visit_summary = $4, conclusion = $5
-             WHERE id = $6`,
-            [location, companyName, numGauges, visitSummary, conclusion, id]
+                 visit_summary = $4, conclusion = $5, company_id = $6
+             WHERE id = $7`,
+            [location, companyName, numGauges, visitSummary, conclusion,
+                await findCompanyId(client, companyName), id]
         );
 
         await client.query('COMMIT');
@@ -235,14 +272,20 @@ export const updateSiteVisit = async (req, res, pool) => {
 export const addExpense = async (req, res, pool) => {
     try {
         const { id } = req.params;
-        const { type, amount, description, notes } = req.body;
+        const { type, amount, description, notes, vendor, distanceKm } = req.body;
         const userId = req.user.id;
 
         // Validation
-        if (!type || !amount) {
+        if (!type || (!amount && !distanceKm)) {
             return res.status(400).json({ error: 'Expense type and amount are required' });
         }
 
+        const { policies } = await loadExpensePolicies(pool);
+        const checked = normalizeExpense(policies, { type, amount, distanceKm });
+        if (checked.error) {
+            return res.status(400).json({ error: checked.error });
+        }
+
         // Check ownership and status
         const visitCheck = await pool.query(
             'SELECT status FROM site_visit_details WHERE id = $1 AND user_id = $2',
@@ -262,15 +305,17 @@ export const addExpense = async (req, res, pool) => {
         // Insert expense
         const result = await pool.query(
             `INSERT INTO site_visit_expenses (
-                site_visit_id, expense_type, amount, description, notes
-            ) VALUES ($1, $2, $3, $4, $5)
+                site_visit_id, expense_type, amount, description, notes, vendor, distance_km
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7)
             RETURNING id`,
-            [id, type, amount, description || null, notes || null]
+            [id, checked.expenseType, checked.amount, description || null, notes || null,
+                vendor || null, checked.distanceKm]
         );
 
         res.status(201).json({
             success: true,
             expenseId: result.rows[0].id,
+            warnings: await getExpenseWarnings(pool, id, result.rows[0].id),
             message: 'Expense added successfully'
         });
 
@@ -287,12 +332,18 @@ export const addExpense = async (req, res, pool) => {
 export const updateExpense = async (req, res, pool) => {
     try {
         const { id } = req.params;
-        const { type, amount, description, notes } = req.body;
+        const { type, amount, description, notes, vendor, distanceKm } = req.body;
         const userId = req.user.id;
 
+        const { policies } = await loadExpensePolicies(pool);
+        const checked = normalizeExpense(policies, { type, amount, distanceKm });
+        if (checked.error) {
+            return res.status(400).json({ error: checked.error });
+        }
+
         // Check ownership through site visit
         const expenseCheck = await pool.query(
-            `SELECT sve.id 
+            `SELECT sve.id, sve.site_visit_id
              FROM site_visit_expenses sve
              JOIN site_visit_details svd ON sve.site_visit_id = svd.id
              WHERE sve.id = $1 AND svd.user_id = $2 AND svd.status = 'draft'`,
@@ -308,12 +359,16 @@ export const updateExpense = async (req, res, pool) => {
         // Update expense
         await pool.query(
             `UPDATE site_visit_expenses 
-             SET expense_type = $1, amount = $2, description = $3, notes = $4
-             WHERE id = $5`,
-            [type, amount, description, notes, id]
+             SET expense_type = $1, amount = $2, description = $3, notes = $4, vendor = $5, distance_km = $6
+             WHERE id = $7`,
+            [checked.expenseType, checked.amount, description, notes, vendor || null, checked.distanceKm, id]
         );
 
-        res.json({ success: true, message: 'Expense updated successfully' });
+        res.json({
+            success: true,
+            warnings: await getExpenseWarnings(pool, expenseCheck.rows[0].site_visit_id, id),
+            message: 'Expense updated successfully'
+        });
 
     } catch (error) {
         console.error('❌ Error updating expense:', error);
@@ -332,7 +387,7 @@ export const deleteExpense = async (req, res, pool) => {
 
         // Check ownership through site visit
         const expenseCheck = await pool.query(
-            `SELECT sve.id 
+            `SELECT sve.id, sve.receipt_storage_key
              FROM site_visit_expenses sve
              JOIN site_visit_details svd ON sve.site_visit_id = svd.id
              WHERE sve.id = $1 AND svd.user_id = $2 AND svd.status = 'draft'`,
@@ -348,6 +403,12 @@ export const deleteExpense = async (req, res, pool) => {
         // Delete expense
         await pool.query('DELETE FROM site_visit_expenses WHERE id = $1', [id]);
 
+        const { receipt_storage_key } = expenseCheck.rows[0];
+        if (receipt_storage_key) {
+            await deleteFile(receipt_storage_key)
+                .catch(error => console.error('❌ Error deleting receipt file:', error));
+        }
+
         res.json({ success: true, message: 'Expense deleted successfully' });
 
     } catch (error) {
@@ -356,6 +417,199 @@ export const deleteExpense = async (req, res, pool) => {
     }
 };
 
+/**
+ * Store a receipt for an expense, replacing any earlier one, and run OCR
+ * on it. Shared by the upload route and the Telegram photo handler.
+ * Returns { receipt, ocr } where ocr is null when OCR is off or failed.
+ */
+export async function saveExpenseReceipt(pool, expense, { buffer, fileName, contentType, ocrResult }) {
+    const stored = await storeFile({
+        buffer,
+        fileName,
+        contentType,
+        prefix: `receipts/${expense.site_visit_id}`
+    });
+
+    // Callers that already scanned the image pass the result along
+    const ocr = ocrResult !== undefined ? ocrResult : await scanReceipt(buffer, stored.contentType);
+
+    await pool.query(
+        `UPDATE site_visit_expenses
+         SET receipt_storage_key = $1, receipt_file_name = $2, receipt_file_type = $3,
+             receipt_file_size = $4, receipt_uploaded_at = CURRENT_TIMESTAMP, receipt_ocr_text = $5
+         WHERE id = $6`,
+        [stored.storageKey, stored.fileName, stored.contentType, stored.size, ocr ? ocr.text : null, expense.id]
+    );
+
+    if (expense.receipt_storage_key) {
+        await deleteFile(expense.receipt_storage_key)
+            .catch(error => console.error('❌ Error deleting old receipt file:', error));
+    }
+
+    return {
+        receipt: {
+            fileName: stored.fileName,
+            fileType: stored.contentType,
+            fileSize: stored.size
+        },
+        ocr: ocr ? { amount: ocr.amount, vendor: ocr.vendor } : null
+    };
+}
+
+/**
+ * Upload a receipt for an expense (multipart field "receipt")
+ * POST /api/calibration/expenses/:id/receipt
+ */
+export const uploadExpenseReceipt = async (req, res, pool) => {
+    try {
+        const { id } = req.params;
+        const userId = req.user.id;
+
+        if (!req.file) {
+            return res.status(400).json({ error: 'Receipt file is required' });
+        }
+
+        // Check ownership through site visit
+        const expenseCheck = await pool.query(
+            `SELECT sve.id, sve.site_visit_id, sve.receipt_storage_key
+             FROM site_visit_expenses sve
+             JOIN site_visit_details svd ON sve.site_visit_id = svd.id
+             WHERE sve.id = $1 AND svd.user_id = $2 AND svd.status = 'draft'`,
+            [id, userId]
+        );
+
+        if (expenseCheck.rows.length === 0) {
+            return res.status(404).json({
+                error: 'Expense not found or cannot be edited'
+            });
+        }
+
+        const result = await saveExpenseReceipt(pool, expenseCheck.rows[0], {
+            buffer: req.file.buffer,
+            // Multer decodes the multipart filename as latin1
+            fileName: Buffer.from(req.file.originalname, 'latin1').toString('utf8'),
+            contentType: req.file.mimetype
+        });
+
+        res.status(201).json({ success: true, ...result });
+
+    } catch (error) {
+        if (error instanceof UploadError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        console.error('❌ Error uploading receipt:', error);
+        res.status(500).json({ error: 'Failed to upload receipt' });
+    }
+};
+
+/**
+ * Remove the receipt from an expense
+ * DELETE /api/calibration/expenses/:id/receipt
+ */
+export const deleteExpenseReceipt = async (req, res, pool) => {
+    try {
+        const { id } = req.params;
+        const userId = req.user.id;
+
+        const expenseCheck = await pool.query(
+            `SELECT sve.id, sve.receipt_storage_key
+             FROM site_visit_expenses sve
+             JOIN site_visit_details svd ON sve.site_visit_id = svd.id
+             WHERE sve.id = $1 AND svd.user_id = $2 AND svd.status = 'draft'`,
+            [id, userId]
+        );
+
+        if (expenseCheck.rows.length === 0 || !expenseCheck.rows[0].receipt_storage_key) {
+            return res.status(404).json({ error: 'Receipt not found or cannot be removed' });
+        }
+
+        await pool.query(
+            `UPDATE site_visit_expenses
+             SET receipt_storage_key = NULL, receipt_file_name = NULL, receipt_file_type = NULL,
+                 receipt_file_size = NULL, receipt_uploaded_at = NULL, receipt_ocr_text = NULL
+             WHERE id = $1`,
+            [id]
+        );
+
+        await deleteFile(expenseCheck.rows[0].receipt_storage_key)
+            .catch(error => console.error('❌ Error deleting receipt file:', error));
+
+        res.json({ success: true, message: 'Receipt removed' });
+
+    } catch (error) {
+        console.error('❌ Error deleting receipt:', error);
+        res.status(500).json({ error: 'Failed to delete receipt' });
+    }
+};
+
+/**
+ * View or download an expense receipt (?inline=1 to view).
+ * The employee sees their own; admins and managers their team's.
+ * GET /api/calibration/expenses/:id/receipt
+ * GET /api/admin/calibration/expenses/:id/receipt
+ */
+export const getExpenseReceipt = async (req, res, pool) => {
+    try {
+        const { id } = req.params;
+
+        const result = await pool.query(
+            `SELECT sve.receipt_storage_key, sve.receipt_file_name, sve.receipt_file_type, svd.user_id
+             FROM site_visit_expenses sve
+             JOIN site_visit_details svd ON sve.site_visit_id = svd.id
+             WHERE sve.id = $1`,
+            [id]
+        );
+
+        const expense = result.rows[0];
+        if (!expense || !expense.receipt_storage_key) {
+            return res.status(404).json({ error: 'Receipt not found' });
+        }
+
+        if (!(await canViewUser(pool, req.user, expense.user_id))) {
+            return res.status(403).json({ error: 'Access denied' });
+        }
+
+        await sendStoredFile(res, {
+            storageKey: expense.receipt_storage_key,
+            fileName: expense.receipt_file_name,
+            contentType: expense.receipt_file_type,
+            inline: req.query.inline === '1'
+        });
+
+    } catch (error) {
+        console.error('❌ Error fetching receipt:', error);
+        if (!res.headersSent) {
+            res.status(error.code === 'ENOENT' || error.name === 'NoSuchKey' ? 404 : 500)
+                .json({ error: 'Failed to fetch receipt' });
+        }
+    }
+};
+
+/**
+ * Read amount and vendor from a receipt image without saving it, so the
+ * expense form can be pre-filled before the expense exists
+ * POST /api/calibration/receipts/scan
+ */
+export const scanExpenseReceipt = async (req, res) => {
+    try {
+        if (!req.file) {
+            return res.status(400).json({ error: 'Receipt file is required' });
+        }
+
+        const ocr = await scanReceipt(req.file.buffer, req.file.mimetype);
+
+        res.json({
+            available: !!ocr,
+            amount: ocr ? ocr.amount : null,
+            vendor: ocr ? ocr.vendor : null
+        });
+
+    } catch (error) {
+        console.error('❌ Error scanning receipt:', error);
+        res.status(500).json({ error: 'Failed to scan receipt' });
+    }
+};
+
 /**
  * Submit site visit for admin approval
  * POST /api/calibration/site-visit/:id/submit
@@ -406,10 +660,12 @@ export const submitForApproval = async (req, res, pool) => {
             ['submitted', id]
         );
 
-        // Create notification for admins
+        // Create notification for admins and the reporting manager
         const admins = await client.query(
-            'SELECT id FROM users WHERE role = $1 AND is_active = true',
-            ['admin']
+            `SELECT id FROM users
+             WHERE is_active = true
+               AND (role = $1 OR id = (SELECT manager_id FROM users WHERE id = $2))`,
+            ['admin', userId]
         );
 
         for (const admin of admins.rows) {
@@ -421,7 +677,7 @@ export const submitForApproval = async (req, res, pool) => {
                     'calibration_expense_submitted',
                     'New Site Visit Expense',
                     `${req.user.fullName || req.user.username} submitted expenses for ${visit.location} - Total: ₹${visit.total_amount}`,
-                    '/admin/calibration'
+                    '/admin?panel=calibration'
                 ]
             );
         }
@@ -481,16 +737,51 @@ export const getAutocompleteSuggestions = async (req, res, pool) => {
 };
 
 /**
- * Get pending expense approvals (Admin only)
+ * Get pending expense approvals (Admin, or a manager's team)
  * GET /api/admin/calibration/pending
  */
 export const getPendingApprovals = async (req, res, pool) => {
     try {
+        const teamIds = await getTeamUserIds(pool, req.user);
+
         const result = await pool.query(
-            'SELECT * FROM pending_calibration_approvals ORDER BY submitted_at ASC'
+            `SELECT * FROM pending_calibration_approvals
+             WHERE ($1::int[] IS NULL OR user_id = ANY($1))
+             ORDER BY submitted_at ASC`,
+            [teamIds]
         );
 
-        res.json(result.rows);
+        const siteVisitIds = result.rows.map(row => row.id);
+
+        // Itemised expenses so approvers can check each receipt and policy breach
+        const expenses = await pool.query(
+            `SELECT id, site_visit_id, expense_type, amount, description, vendor, distance_km,
+                    receipt_storage_key IS NOT NULL as has_receipt,
+                    receipt_file_name, receipt_file_type
+             FROM site_visit_expenses
+             WHERE site_visit_id = ANY($1)
+             ORDER BY id`,
+            [siteVisitIds]
+        );
+
+        const violations = await getPolicyViolations(pool, siteVisitIds);
+
+        res.json(result.rows.map(visit => {
+            const items = expenses.rows
+                .filter(expense => expense.site_visit_id === visit.id)
+                .map(expense => ({
+                    ...expense,
+                    violations: violations[expense.id] || []
+                }));
+
+            return {
+                ...visit,
+                expenses: items,
+                policy_violation_count: items.filter(expense => expense.violations.length > 0).length,
+                missing_required_receipts: items
+                    .filter(expense => expense.violations.some(v => v.code === 'receipt')).length
+            };
+        }));
 
     } catch (error) {
         console.error('❌ Error fetching pending approvals:', error);
@@ -499,7 +790,7 @@ export const getPendingApprovals = async (req, res, pool) => {
 };
 
 /**
- * Get calibration expense history (Admin only)
+ * Get calibration expense history (Admin, or a manager's team)
  * GET /api/admin/calibration/history
  */
 export const getExpenseHistory = async (req, res, pool) => {
@@ -534,6 +825,13 @@ export const getExpenseHistory = async (req, res, pool) => {
             paramCount++;
         }
 
+        const teamIds = await getTeamUserIds(pool, req.user);
+        if (teamIds) {
+            query += ` AND user_id = ANY($${paramCount})`;
+            params.push(teamIds);
+            paramCount++;
+        }
+
         query += ' ORDER BY visit_date DESC LIMIT 100';
 
         const result = await pool.query(query, params);
@@ -546,7 +844,7 @@ export const getExpenseHistory = async (req, res, pool) => {
 };
 
 /**
- * Approve site visit expense (Admin only)
+ * Approve site visit expense (Admin or manager)
  * PUT /api/admin/calibration/approve/:id
  */
 export const approveExpense = async (req, res, pool) => {
@@ -554,6 +852,7 @@ export const approveExpense = async (req, res, pool) => {
 
     try {
         const { id } = req.params;
+        const { acknowledgeViolations } = req.body || {};
         const adminId = req.user.id;
 
         await client.query('BEGIN');
@@ -575,6 +874,11 @@ export const approveExpense = async (req, res, pool) => {
 
         const visit = visitCheck.rows[0];
 
+        if (!(await isInTeam(client, req.user, visit.user_id))) {
+            await client.query('ROLLBACK');
+            return res.status(403).json({ error: 'Site visit is not from your team' });
+        }
+
         if (visit.status !== 'submitted') {
             await client.query('ROLLBACK');
             return res.status(400).json({
@@ -582,6 +886,28 @@ export const approveExpense = async (req, res, pool) => {
             });
         }
 
+        // Policy breaches (over caps, missing receipts) need an explicit OK
+        const violations = await getPolicyViolations(client, [visit.id]);
+        const flagged = await client.query(
+            `SELECT id, expense_type, amount
+             FROM site_visit_expenses
+             WHERE id = ANY($1)
+             ORDER BY id`,
+            [Object.keys(violations).map(Number)]
+        );
+
+        if (flagged.rows.length > 0 && !acknowledgeViolations) {
+            await client.query('ROLLBACK');
+            return res.status(409).json({
+                error: `${flagged.rows.length} expense(s) break the expense policy`,
+                requiresConfirmation: true,
+                violations: flagged.rows.map(expense => ({
+                    ...expense,
+                    messages: violations[expense.id].map(v => v.message)
+                }))
+            });
+        }
+
         // Update status to approved
         await client.query(
             `UPDATE site_visit_details 
@@ -608,10 +934,11 @@ export const approveExpense = async (req, res, pool) => {
         // Log activity
         await pool.query(
             'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
-            [adminId, 'expense_approved', `Approved ${visit.full_name}'s site visit expense for ${visit.location} - ₹${visit.total_amount}`]
+            [adminId, 'expense_approved', `Approved ${visit.full_name}'s site visit expense for ${visit.location} - ₹${visit.total_amount}` +
+                (flagged.rows.length > 0 ? ` (${flagged.rows.length} outside policy)` : '')]
         );
 
-        console.log(`✅ Admin ${req.user.username} approved expense for ${visit.full_name} - ₹${visit.total_amount}`);
+        console.log(`✅ ${req.user.role === 'admin' ? 'Admin' : 'Manager'} ${req.user.username} approved expense for ${visit.full_name} - ₹${visit.total_amount}`);
 
         res.json({
             success: true,
@@ -628,7 +955,7 @@ export const approveExpense = async (req, res, pool) => {
 };
 
 /**
- * Reject site visit expense (Admin only)
+ * Reject site visit expense (Admin or manager)
  * PUT /api/admin/calibration/reject/:id
  */
 export const rejectExpense = async (req, res, pool) => {
@@ -662,6 +989,11 @@ export const rejectExpense = async (req, res, pool) => {
 
         const visit = visitCheck.rows[0];
 
+        if (!(await isInTeam(client, req.user, visit.user_id))) {
+            await client.query('ROLLBACK');
+            return res.status(403).json({ error: 'Site visit is not from your team' });
+        }
+
         if (visit.status !== 'submitted') {
             await client.query('ROLLBACK');
             return res.status(400).json({
@@ -699,7 +1031,7 @@ export const rejectExpense = async (req, res, pool) => {
             [adminId, 'expense_rejected', `Rejected ${visit.full_name}'s site visit expense for ${visit.location} - Reason: ${reason}`]
         );
 
-        console.log(`⚠️ Admin ${req.user.username} rejected expense for ${visit.full_name} - Reason: ${reason}`);
+        console.log(`⚠️ ${req.user.role === 'admin' ? 'Admin' : 'Manager'} ${req.user.username} rejected expense for ${visit.full_name} - Reason: ${reason}`);
 
         res.json({
             success: true,
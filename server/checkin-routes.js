@@ -0,0 +1,603 @@
+// ==================== VERIFIED CHECK-IN ====================
+// Offices can define geofences. Employees covered by one have to prove they
+// are on site when checking in: a shared location inside the radius, or a scan
+// of the QR code on the office screen, which changes every few seconds.
+// Check-ins without proof are still accepted from the attendance form but are
+// flagged as unverified for admins and in exports.
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { syncCompOffForAttendance } from './comp-off-routes.js';
+import { getTeamUserIds } from './team-scope.js';
+import { updateShiftMinutes } from './shift-routes.js';
+import { toDateString } from './date-utils.js';
+
+const QR_ROTATION_SECONDS = 30;
+
+// A fix this vague cannot tell the office from the street outside
+const MAX_LOCATION_ACCURACY_M = 250;
+
+// Statuses that claim the employee was at the office
+const ON_SITE_STATUSES = ['present', 'half_day'];
+
+function newSecret() {
+    return crypto.randomBytes(32).toString('hex');
+}
+
+function frontendUrl() {
+    return process.env.FRONTEND_URL || 'http://localhost:3000';
+}
+
+// Great-circle distance in metres
+function distanceInMeters(lat1, lon1, lat2, lon2) {
+    const toRad = (deg) => deg * Math.PI / 180;
+    const dLat = toRad(lat2 - lat1);
+    const dLon = toRad(lon2 - lon1);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+
+    return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function qrSignature(geofence, window) {
+    return crypto.createHmac('sha256', geofence.qr_secret)
+        .update(`${geofence.id}:${window}`)
+        .digest('hex')
+        .substring(0, 24);
+}
+
+function currentQrWindow() {
+    return Math.floor(Date.now() / 1000 / QR_ROTATION_SECONDS);
+}
+
+function formatGeofence(geofence) {
+    return {
+        id: geofence.id,
+        name: geofence.name,
+        officeLocation: geofence.office_location,
+        latitude: parseFloat(geofence.latitude),
+        longitude: parseFloat(geofence.longitude),
+        radiusM: geofence.radius_m,
+        isActive: geofence.is_active,
+        screenUrl: `${frontendUrl()}/office-screen?fence=${geofence.id}&key=${geofence.screen_key}`,
+        updatedAt: geofence.updated_at
+    };
+}
+
+function validateGeofence({ name, latitude, longitude, radiusM }) {
+    if (!name?.trim()) return 'Geofence name is required';
+
+    const lat = parseFloat(latitude);
+    const lon = parseFloat(longitude);
+    const radius = parseInt(radiusM);
+
+    if (isNaN(lat) || lat < -90 || lat > 90) return 'Latitude must be between -90 and 90';
+    if (isNaN(lon) || lon < -180 || lon > 180) return 'Longitude must be between -180 and 180';
+    if (isNaN(radius) || radius < 10 || radius > 5000) return 'Radius must be between 10 and 5000 metres';
+
+    return null;
+}
+
+/**
+ * Active geofences covering a user: the ones for their office plus the
+ * company-wide ones. An empty list means check-in needs no proof.
+ */
+export async function getUserGeofences(db, userId) {
+    const result = await db.query(
+        `SELECT g.* FROM office_geofences g
+         JOIN users u ON u.id = $1
+         WHERE g.is_active = true
+           AND (g.office_location IS NULL OR g.office_location = u.office_location)
+         ORDER BY g.name`,
+        [userId]
+    );
+
+    return result.rows;
+}
+
+/**
+ * Nearest geofence to a captured location, with the distance to its centre
+ * and whether the location falls inside it
+ */
+export function matchLocation(geofences, latitude, longitude) {
+    let best = null;
+
+    for (const geofence of geofences) {
+        const distance = Math.round(distanceInMeters(
+            latitude, longitude, parseFloat(geofence.latitude), parseFloat(geofence.longitude)
+        ));
+
+        if (!best || distance - geofence.radius_m < best.distance - best.geofence.radius_m) {
+            best = { geofence, distance, inside: distance <= geofence.radius_m };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Check-in fields for times typed into the attendance form. They prove
+ * nothing, so they count as unverified wherever a geofence applies.
+ * Times an admin enters for someone else are taken at their word.
+ */
+export async function manualCheckinProof(db, userId, status, byAdmin) {
+    if (byAdmin) {
+        return { method: 'admin', verified: null };
+    }
+
+    if (!ON_SITE_STATUSES.includes(status)) {
+        return { method: 'web', verified: null };
+    }
+
+    const geofences = await getUserGeofences(db, userId);
+    return { method: 'web', verified: geofences.length > 0 ? false : null };
+}
+
+/**
+ * Whether editing an attendance row leaves its check-in proof standing:
+ * only when the entry time is unchanged and the day is still an office day
+ */
+export function keepsCheckinProof(existing, checkInTime, status) {
+    return Boolean(existing.checkin_method) &&
+        ON_SITE_STATUSES.includes(status) &&
+        (existing.work_hours_start || '').substring(0, 5) === (checkInTime || '').substring(0, 5);
+}
+
+/**
+ * Record today's check-in with how it was proven.
+ * Returns { alreadyCheckedIn, time } - time is the existing entry time when
+ * the user had already checked in - or { error } when today is a leave day.
+ */
+export async function recordCheckin(db, userId, proof) {
+    const today = toDateString(new Date());
+    const currentTime = new Date().toTimeString().split(' ')[0].substring(0, 5); // HH:MM
+
+    const existing = await db.query(
+        'SELECT id, status, work_hours_start FROM attendance WHERE user_id = $1 AND date = $2',
+        [userId, today]
+    );
+
+    if (existing.rows.length > 0 && existing.rows[0].work_hours_start) {
+        return { alreadyCheckedIn: true, time: existing.rows[0].work_hours_start };
+    }
+
+    // Leave and comp-off days have their own cancel flow; a check-in must not sit on top of them
+    if (['on_leave', 'leave'].includes(existing.rows[0]?.status)) {
+        return { error: 'You are on leave today. Cancel the leave or comp-off first if you are working.' };
+    }
+
+    const values = [
+        proof.method,
+        proof.latitude ?? null,
+        proof.longitude ?? null,
+        proof.accuracy != null ? Math.round(proof.accuracy) : null,
+        proof.distance ?? null,
+        proof.geofenceId ?? null,
+        proof.verified ?? null,
+        currentTime
+    ];
+
+    let attendanceId = existing.rows[0]?.id;
+
+    if (existing.rows.length > 0) {
+        await db.query(
+            `UPDATE attendance
+             SET checkin_method = $1, checkin_latitude = $2, checkin_longitude = $3,
+                 checkin_accuracy_m = $4, checkin_distance_m = $5, checkin_geofence_id = $6,
+                 checkin_verified = $7, work_hours_start = $8, marked_at = NOW()
+             WHERE id = $9`,
+            [...values, attendanceId]
+        );
+    } else {
+        const inserted = await db.query(
+            `INSERT INTO attendance
+             (checkin_method, checkin_latitude, checkin_longitude, checkin_accuracy_m, checkin_distance_m,
+              checkin_geofence_id, checkin_verified, work_hours_start, user_id, date, status, marked_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'present', NOW())
+             RETURNING id`,
+            [...values, userId, today]
+        );
+        attendanceId = inserted.rows[0].id;
+
+        // Earn a comp-off for Sunday/holiday work
+        await syncCompOffForAttendance(db, userId, today, 'present')
+            .catch(error => console.error('❌ Error syncing comp-off:', error));
+    }
+
+    const updated = await updateShiftMinutes(db, attendanceId);
+
+    return { alreadyCheckedIn: false, time: currentTime, lateMinutes: updated?.late_minutes || 0 };
+}
+
+/**
+ * Check in with a location shared from Telegram or the browser.
+ * Returns { error } when the location cannot be used, otherwise the
+ * recordCheckin result plus the matched geofence and distance.
+ */
+export async function checkinAtLocation(db, userId, method, { latitude, longitude, accuracy }) {
+    const geofences = await getUserGeofences(db, userId);
+
+    if (geofences.length === 0) {
+        return { error: 'No office geofence is set up for you, so location check-in is not needed.' };
+    }
+
+    if (accuracy != null && accuracy > MAX_LOCATION_ACCURACY_M) {
+        return { error: `Your location is only accurate to ${Math.round(accuracy)} m. Move near a window or turn on precise location and try again.` };
+    }
+
+    const match = matchLocation(geofences, latitude, longitude);
+
+    if (!match.inside) {
+        return {
+            error: `You are ${match.distance} m from ${match.geofence.name}; check-in is allowed within ${match.geofence.radius_m} m.`,
+            distance: match.distance
+        };
+    }
+
+    const result = await recordCheckin(db, userId, {
+        method,
+        latitude,
+        longitude,
+        accuracy,
+        distance: match.distance,
+        geofenceId: match.geofence.id,
+        verified: true
+    });
+
+    return { ...result, geofence: match.geofence, distance: match.distance };
+}
+
+/**
+ * Whether check-in needs proof, and today's check-in if there is one
+ * GET /api/checkin/status
+ */
+export const getCheckinStatus = async (req, res, pool) => {
+    try {
+        const geofences = await getUserGeofences(pool, req.user.id);
+        const today = new Date().toISOString().split('T')[0];
+
+        const attendance = await pool.query(
+            `SELECT a.work_hours_start, a.checkin_method, a.checkin_verified, a.checkin_distance_m, g.name as geofence_name
+             FROM attendance a
+             LEFT JOIN office_geofences g ON g.id = a.checkin_geofence_id
+             WHERE a.user_id = $1 AND a.date = $2`,
+            [req.user.id, today]
+        );
+
+        const row = attendance.rows[0];
+
+        res.json({
+            required: geofences.length > 0,
+            geofences: geofences.map(g => ({ id: g.id, name: g.name, radiusM: g.radius_m })),
+            today: row?.work_hours_start ? {
+                time: row.work_hours_start,
+                method: row.checkin_method,
+                verified: row.checkin_verified,
+                distanceM: row.checkin_distance_m,
+                geofenceName: row.geofence_name
+            } : null
+        });
+    } catch (error) {
+        console.error('❌ Error fetching check-in status:', error);
+        res.status(500).json({ error: 'Failed to fetch check-in status' });
+    }
+};
+
+/**
+ * Check in with browser geolocation
+ * POST /api/checkin/location { latitude, longitude, accuracy }
+ */
+export const checkinWithLocation = async (req, res, pool) => {
+    try {
+        const latitude = parseFloat(req.body.latitude);
+        const longitude = parseFloat(req.body.longitude);
+        const accuracy = req.body.accuracy != null ? parseFloat(req.body.accuracy) : null;
+
+        if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+            return res.status(400).json({ error: 'A valid latitude and longitude are required' });
+        }
+
+        const result = await checkinAtLocation(pool, req.user.id, 'browser_location', { latitude, longitude, accuracy });
+
+        if (result.error) {
+            return res.status(403).json({ error: result.error, distanceM: result.distance });
+        }
+
+        if (result.alreadyCheckedIn) {
+            return res.status(409).json({ error: `You already checked in at ${result.time.substring(0, 5)}` });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'location_checkin', `Checked in at ${result.geofence.name} (${result.distance} m) at ${result.time}`]
+        );
+
+        console.log(`📍 ${req.user.username} checked in at ${result.geofence.name} (${result.distance} m)`);
+
+        res.json({ success: true, time: result.time, geofenceName: result.geofence.name, distanceM: result.distance });
+    } catch (error) {
+        console.error('❌ Error checking in with location:', error);
+        res.status(500).json({ error: 'Failed to check in' });
+    }
+};
+
+/**
+ * Check in by scanning the office-screen QR code
+ * POST /api/checkin/qr { code }
+ */
+export const checkinWithQr = async (req, res, pool) => {
+    try {
+        const [fenceId, window, signature] = String(req.body.code || '').split('.');
+
+        const geofenceResult = await pool.query(
+            'SELECT * FROM office_geofences WHERE id = $1 AND is_active = true',
+            [parseInt(fenceId) || 0]
+        );
+
+        const geofence = geofenceResult.rows[0];
+        const age = currentQrWindow() - parseInt(window);
+
+        // Accept the code on screen and the one just before it, for slow scanners
+        let valid = false;
+        if (geofence && signature && age >= 0 && age <= 1) {
+            const given = Buffer.from(signature);
+            const expected = Buffer.from(qrSignature(geofence, parseInt(window)));
+            valid = given.length === expected.length && crypto.timingSafeEqual(given, expected);
+        }
+
+        if (!valid) {
+            return res.status(400).json({ error: 'This QR code has expired. Scan the code on the office screen again.' });
+        }
+
+        const geofences = await getUserGeofences(pool, req.user.id);
+
+        if (!geofences.some(g => g.id === geofence.id)) {
+            return res.status(403).json({ error: `This QR code belongs to ${geofence.name}, which is not your office` });
+        }
+
+        const result = await recordCheckin(pool, req.user.id, {
+            method: 'qr',
+            geofenceId: geofence.id,
+            verified: true
+        });
+
+        if (result.error) {
+            return res.status(409).json({ error: result.error });
+        }
+
+        if (result.alreadyCheckedIn) {
+            return res.status(409).json({ error: `You already checked in at ${result.time.substring(0, 5)}` });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'qr_checkin', `Checked in with the ${geofence.name} QR code at ${result.time}`]
+        );
+
+        console.log(`📷 ${req.user.username} checked in with the ${geofence.name} QR code`);
+
+        res.json({ success: true, time: result.time, geofenceName: geofence.name });
+    } catch (error) {
+        console.error('❌ Error checking in with QR code:', error);
+        res.status(500).json({ error: 'Failed to check in' });
+    }
+};
+
+/**
+ * Current QR code for an office screen. Public; the screen key stands in for a login.
+ * GET /api/checkin/screen/:id?key=
+ */
+export const getOfficeScreenCode = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            'SELECT * FROM office_geofences WHERE id = $1 AND screen_key = $2 AND is_active = true',
+            [parseInt(req.params.id) || 0, String(req.query.key || '')]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Office screen not found' });
+        }
+
+        const geofence = result.rows[0];
+        const window = currentQrWindow();
+        const code = `${geofence.id}.${window}.${qrSignature(geofence, window)}`;
+        const url = `${frontendUrl()}/checkin?code=${code}`;
+
+        res.json({
+            name: geofence.name,
+            url,
+            image: await QRCode.toDataURL(url, { width: 360, margin: 1 }),
+            expiresIn: (window + 1) * QR_ROTATION_SECONDS - Math.floor(Date.now() / 1000)
+        });
+    } catch (error) {
+        console.error('❌ Error generating office screen code:', error);
+        res.status(500).json({ error: 'Failed to generate QR code' });
+    }
+};
+
+/**
+ * All geofences
+ * GET /api/admin/geofences
+ */
+export const getGeofences = async (req, res, pool) => {
+    try {
+        const result = await pool.query('SELECT * FROM office_geofences ORDER BY name');
+        res.json(result.rows.map(formatGeofence));
+    } catch (error) {
+        console.error('❌ Error fetching geofences:', error);
+        res.status(500).json({ error: 'Failed to fetch geofences' });
+    }
+};
+
+/**
+ * Add a geofence
+ * POST /api/admin/geofences { name, officeLocation, latitude, longitude, radiusM }
+ */
+export const createGeofence = async (req, res, pool) => {
+    try {
+        const validationError = validateGeofence(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const { name, officeLocation, latitude, longitude, radiusM } = req.body;
+
+        const result = await pool.query(
+            `INSERT INTO office_geofences
+             (name, office_location, latitude, longitude, radius_m, qr_secret, screen_key, created_by)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+             RETURNING *`,
+            [name.trim(), officeLocation?.trim() || null, latitude, longitude, parseInt(radiusM),
+                newSecret(), newSecret(), req.user.id]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'create_geofence', `Created geofence: ${name.trim()} (${parseInt(radiusM)} m)`]
+        );
+
+        res.status(201).json(formatGeofence(result.rows[0]));
+    } catch (error) {
+        if (error.code === '23505') {
+            return res.status(409).json({ error: 'A geofence with this name already exists' });
+        }
+        console.error('❌ Error creating geofence:', error);
+        res.status(500).json({ error: 'Failed to create geofence' });
+    }
+};
+
+/**
+ * Move, resize or switch off a geofence
+ * PUT /api/admin/geofences/:id { name, officeLocation, latitude, longitude, radiusM, isActive }
+ */
+export const updateGeofence = async (req, res, pool) => {
+    try {
+        const validationError = validateGeofence(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const { name, officeLocation, latitude, longitude, radiusM, isActive } = req.body;
+
+        const result = await pool.query(
+            `UPDATE office_geofences
+             SET name = $1, office_location = $2, latitude = $3, longitude = $4, radius_m = $5,
+                 is_active = $6, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $7
+             RETURNING *`,
+            [name.trim(), officeLocation?.trim() || null, latitude, longitude, parseInt(radiusM),
+                isActive !== false, req.params.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Geofence not found' });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_geofence', `Updated geofence: ${name.trim()}${isActive === false ? ' (disabled)' : ''}`]
+        );
+
+        res.json(formatGeofence(result.rows[0]));
+    } catch (error) {
+        if (error.code === '23505') {
+            return res.status(409).json({ error: 'A geofence with this name already exists' });
+        }
+        console.error('❌ Error updating geofence:', error);
+        res.status(500).json({ error: 'Failed to update geofence' });
+    }
+};
+
+/**
+ * Give a geofence a new screen link and QR secret, e.g. after a screen URL leaked
+ * POST /api/admin/geofences/:id/rotate-key
+ */
+export const rotateGeofenceKey = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `UPDATE office_geofences
+             SET qr_secret = $1, screen_key = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $3
+             RETURNING *`,
+            [newSecret(), newSecret(), req.params.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Geofence not found' });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'rotate_geofence_key', `Reset the office screen link for ${result.rows[0].name}`]
+        );
+
+        res.json(formatGeofence(result.rows[0]));
+    } catch (error) {
+        console.error('❌ Error rotating geofence key:', error);
+        res.status(500).json({ error: 'Failed to reset screen link' });
+    }
+};
+
+/**
+ * Delete a geofence. Past check-ins keep their coordinates and flags.
+ * DELETE /api/admin/geofences/:id
+ */
+export const deleteGeofence = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            'DELETE FROM office_geofences WHERE id = $1 RETURNING name',
+            [req.params.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Geofence not found' });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'delete_geofence', `Deleted geofence: ${result.rows[0].name}`]
+        );
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('❌ Error deleting geofence:', error);
+        res.status(500).json({ error: 'Failed to delete geofence' });
+    }
+};
+
+/**
+ * Check-ins made without proof where a geofence applied, newest first.
+ * Managers see their team only.
+ * GET /api/admin/checkins/unverified?days=14
+ */
+export const getUnverifiedCheckins = async (req, res, pool) => {
+    try {
+        const days = Math.min(parseInt(req.query.days) || 14, 90);
+        const teamIds = await getTeamUserIds(pool, req.user);
+
+        const params = [days];
+        let teamFilter = '';
+
+        if (teamIds !== null) {
+            params.push(teamIds);
+            teamFilter = 'AND a.user_id = ANY($2)';
+        }
+
+        const result = await pool.query(
+            `SELECT a.id, a.date, a.status, a.work_hours_start, a.checkin_method,
+                    u.id as user_id, u.full_name, u.employee_id, u.office_location
+             FROM attendance a
+             JOIN users u ON u.id = a.user_id
+             WHERE a.checkin_verified = false
+               AND a.date >= CURRENT_DATE - ($1 || ' days')::interval
+               ${teamFilter}
+             ORDER BY a.date DESC, u.full_name`,
+            params
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error fetching unverified check-ins:', error);
+        res.status(500).json({ error: 'Failed to fetch unverified check-ins' });
+    }
+};
@@ -0,0 +1,339 @@
+// ==================== COMPENSATORY OFF MANAGEMENT ====================
+// Comp-offs are earned by working on a Sunday or holiday, or by banking
+// approved overtime, redeemed against a regular working day and expire after
+// COMP_OFF_EXPIRY_MONTHS
+
+import { toDateString } from './date-utils.js';
+
+const COMP_OFF_EXPIRY_MONTHS = parseInt(process.env.COMP_OFF_EXPIRY_MONTHS) || 3;
+
+// Sunday flag and holiday name from the user's own holiday calendars
+async function getDayInfo(db, userId, date) {
+    const result = await db.query(
+        `SELECT
+            EXTRACT(DOW FROM $2::date) as day_of_week,
+            (SELECT holiday_name FROM user_holidays($1, $2::date, $2::date) LIMIT 1) as holiday_name`,
+        [userId, date]
+    );
+
+    const { day_of_week, holiday_name } = result.rows[0];
+    const dayOfWeek = parseInt(day_of_week);
+
+    return {
+        isSunday: dayOfWeek === 0,
+        isWeekend: dayOfWeek === 0 || dayOfWeek === 6,
+        holidayName: holiday_name
+    };
+}
+
+/**
+ * Insert one credit for a date and tell the employee. Returns the credit, or
+ * null when that date already has a live one.
+ */
+export async function creditCompOff(db, userId, earnedForDate, reason) {
+    const result = await db.query(
+        `INSERT INTO compensatory_offs (user_id, earned_date, earned_reason, earned_for_date, expires_at)
+         VALUES ($1, CURRENT_DATE, $2, $3::date, ($3::date + ($4 || ' months')::interval)::date)
+         ON CONFLICT (user_id, earned_for_date) WHERE status <> 'cancelled' DO NOTHING
+         RETURNING *`,
+        [userId, reason, earnedForDate, COMP_OFF_EXPIRY_MONTHS]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    const compOff = result.rows[0];
+
+    await db.query(
+        `INSERT INTO notifications (user_id, type, title, message, link)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [
+            userId,
+            'comp_off_earned',
+            'Comp-off Earned',
+            `${reason} (${earnedForDate}). Use it before ${toDateString(compOff.expires_at)}.`,
+            '/calendar'
+        ]
+    );
+
+    console.log(`🎁 Comp-off earned: user ${userId} - ${earnedForDate} (${reason})`);
+
+    return compOff;
+}
+
+/**
+ * Award or withdraw the comp-off for a marked attendance day.
+ * Marking present on a Sunday/holiday earns one credit; changing that day to
+ * any other status cancels the credit if it has not been used yet.
+ */
+export async function syncCompOffForAttendance(pool, userId, date, status) {
+    const { isSunday, holidayName } = await getDayInfo(pool, userId, date);
+
+    if (status === 'present' && (isSunday || holidayName)) {
+        const reason = holidayName ? `Worked on ${holidayName}` : 'Worked on Sunday';
+
+        const compOff = await creditCompOff(pool, userId, date, reason);
+
+        await pool.query(
+            'UPDATE attendance SET compensatory_off_earned = true WHERE user_id = $1 AND date = $2',
+            [userId, date]
+        );
+
+        return compOff;
+    }
+
+    // Credits from approved overtime do not depend on the day's status
+    const cancelled = await pool.query(
+        `UPDATE compensatory_offs
+         SET status = 'cancelled', notes = $3, updated_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1 AND earned_for_date = $2 AND status = 'available'
+           AND NOT EXISTS (SELECT 1 FROM overtime_requests o WHERE o.comp_off_id = compensatory_offs.id)
+         RETURNING id`,
+        [userId, date, `Attendance changed to ${status}`]
+    );
+
+    await pool.query(
+        `UPDATE attendance SET compensatory_off_earned = false
+         WHERE user_id = $1 AND date = $2 AND compensatory_off_earned = true`,
+        [userId, date]
+    );
+
+    if (cancelled.rows.length > 0) {
+        console.log(`🚫 Comp-off cancelled: user ${userId} - ${date} (now ${status})`);
+    }
+
+    return null;
+}
+
+/**
+ * Spend the oldest available credit on a working day and mark that day on_leave.
+ * Returns { compOff } on success or { error } with a user-facing message.
+ */
+export async function redeemCompOff(pool, userId, date) {
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+        return { error: 'Invalid date format. Use YYYY-MM-DD.' };
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    if (date < today) {
+        return { error: 'Comp-off date cannot be in the past' };
+    }
+
+    const client = await pool.connect();
+
+    try {
+        const { isWeekend, holidayName } = await getDayInfo(client, userId, date);
+
+        if (isWeekend) {
+            return { error: 'Comp-off can only be used on a working day' };
+        }
+        if (holidayName) {
+            return { error: `${date} is already a holiday (${holidayName})` };
+        }
+
+        await client.query('BEGIN');
+
+        const attendance = await client.query(
+            'SELECT status FROM attendance WHERE user_id = $1 AND date = $2 FOR UPDATE',
+            [userId, date]
+        );
+
+        if (attendance.rows.length > 0 && attendance.rows[0].status !== 'absent') {
+            await client.query('ROLLBACK');
+            return { error: `Attendance for ${date} is already marked as ${attendance.rows[0].status}` };
+        }
+
+        const leave = await client.query(
+            `SELECT id FROM leave_requests
+             WHERE user_id = $1 AND status IN ('pending', 'approved')
+               AND start_date <= $2 AND end_date >= $2`,
+            [userId, date]
+        );
+
+        if (leave.rows.length > 0) {
+            await client.query('ROLLBACK');
+            return { error: 'You already have a leave request covering this date' };
+        }
+
+        const credit = await client.query(
+            `SELECT * FROM compensatory_offs
+             WHERE user_id = $1 AND status = 'available'
+               AND (expires_at IS NULL OR expires_at >= $2)
+             ORDER BY expires_at ASC NULLS LAST, earned_for_date ASC
+             LIMIT 1
+             FOR UPDATE`,
+            [userId, date]
+        );
+
+        if (credit.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return { error: 'No comp-off available for this date' };
+        }
+
+        // mark_comp_off_used trigger sets used_date
+        const result = await client.query(
+            `UPDATE compensatory_offs
+             SET status = 'used', used_on = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1
+             RETURNING *`,
+            [credit.rows[0].id, date]
+        );
+
+        const compOff = result.rows[0];
+        const note = `Comp-off (earned for ${toDateString(compOff.earned_for_date)})`;
+
+        await client.query(
+            `INSERT INTO attendance (user_id, date, status, notes, marked_at)
+             VALUES ($1, $2, 'on_leave', $3, NOW())
+             ON CONFLICT (user_id, date)
+             DO UPDATE SET status = 'on_leave', notes = EXCLUDED.notes, marked_at = NOW()`,
+            [userId, date, note]
+        );
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [userId, 'redeem_comp_off', `Used comp-off #${compOff.id} for ${date}`]
+        );
+
+        await client.query('COMMIT');
+
+        console.log(`🎟️ Comp-off used: user ${userId} - ${date}`);
+
+        return { compOff };
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Expire available credits past their expiry date and notify the owners
+ */
+export async function expireCompOffs(pool) {
+    try {
+        const result = await pool.query(
+            `UPDATE compensatory_offs
+             SET status = 'expired', updated_at = CURRENT_TIMESTAMP
+             WHERE status = 'available' AND expires_at < CURRENT_DATE
+             RETURNING user_id, earned_for_date`
+        );
+
+        for (const compOff of result.rows) {
+            await pool.query(
+                `INSERT INTO notifications (user_id, type, title, message, link)
+                 VALUES ($1, $2, $3, $4, $5)`,
+                [
+                    compOff.user_id,
+                    'comp_off_expired',
+                    'Comp-off Expired',
+                    `Your comp-off for ${toDateString(compOff.earned_for_date)} has expired unused.`,
+                    '/calendar'
+                ]
+            );
+        }
+
+        console.log(`⌛ Expired ${result.rows.length} comp-off credits`);
+    } catch (error) {
+        console.error('❌ Error expiring comp-offs:', error);
+    }
+}
+
+/**
+ * Get comp-off credits for the logged-in user
+ * GET /api/comp-offs
+ */
+export const getMyCompOffs = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT * FROM compensatory_offs
+             WHERE user_id = $1
+             ORDER BY earned_for_date DESC`,
+            [req.user.id]
+        );
+
+        const today = new Date().toISOString().split('T')[0];
+        const available = result.rows.filter(c =>
+            c.status === 'available' && (!c.expires_at || toDateString(c.expires_at) >= today)
+        );
+
+        res.json({
+            compOffs: result.rows,
+            available: available.length,
+            expiryMonths: COMP_OFF_EXPIRY_MONTHS
+        });
+    } catch (error) {
+        console.error('❌ Error fetching comp-offs:', error);
+        res.status(500).json({ error: 'Failed to fetch comp-offs' });
+    }
+};
+
+/**
+ * Use an available comp-off on a working day
+ * POST /api/comp-offs/redeem
+ */
+export const redeemMyCompOff = async (req, res, pool) => {
+    try {
+        const { date } = req.body;
+
+        const { error, compOff } = await redeemCompOff(pool, req.user.id, date);
+
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        res.json(compOff);
+    } catch (error) {
+        console.error('❌ Error redeeming comp-off:', error);
+        res.status(500).json({ error: 'Failed to redeem comp-off' });
+    }
+};
+
+/**
+ * Comp-off ledger across employees with per-status totals
+ * GET /api/admin/comp-offs?status=&userId=&year=
+ */
+export const getCompOffLedger = async (req, res, pool) => {
+    try {
+        const { status, userId, year } = req.query;
+
+        const conditions = [];
+        const params = [];
+
+        if (status) {
+            params.push(status);
+            conditions.push(`c.status = $${params.length}`);
+        }
+
+        if (userId) {
+            params.push(userId);
+            conditions.push(`c.user_id = $${params.length}`);
+        }
+
+        if (year) {
+            params.push(year);
+            conditions.push(`EXTRACT(YEAR FROM c.earned_for_date) = $${params.length}`);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const result = await pool.query(
+            `SELECT c.*, u.full_name, u.employee_id, u.department
+             FROM compensatory_offs c
+             JOIN users u ON c.user_id = u.id
+             ${where}
+             ORDER BY c.earned_for_date DESC, u.full_name ASC`,
+            params
+        );
+
+        const summary = { available: 0, used: 0, expired: 0, cancelled: 0 };
+        result.rows.forEach(c => {
+            summary[c.status] = (summary[c.status] || 0) + 1;
+        });
+
+        res.json({ compOffs: result.rows, summary });
+    } catch (error) {
+        console.error('❌ Error fetching comp-off ledger:', error);
+        res.status(500).json({ error: 'Failed to fetch comp-off ledger' });
+    }
+};
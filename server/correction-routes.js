@@ -0,0 +1,426 @@
+// ==================== ATTENDANCE CORRECTIONS ====================
+// Employees cannot edit past days themselves. Instead they propose a new
+// status and times with a reason; an admin or their manager approves or
+// rejects. Approval rewrites the attendance row and logs before and after.
+
+import { syncCompOffForAttendance } from './comp-off-routes.js';
+import { getTeamUserIds, isInTeam } from './team-scope.js';
+import { keepsCheckinProof } from './checkin-routes.js';
+import { updateShiftMinutes } from './shift-routes.js';
+import { sendCorrectionStatusNotification } from './telegram-scheduled-jobs.js';
+import { toDateString } from './date-utils.js';
+
+export const CORRECTION_STATUSES = ['present', 'absent', 'half_day', 'wfh', 'on_leave'];
+
+// Statuses that carry working hours
+const TIMED_STATUSES = ['present', 'half_day', 'wfh'];
+
+// How far back a correction can reach
+const CORRECTION_WINDOW_DAYS = 30;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// "PRESENT 09:30-18:00" style summary of an attendance state
+export function describeAttendance(status, start, end) {
+    if (!status) return 'NOT MARKED';
+
+    const label = status.toUpperCase().replace('_', ' ');
+    if (!start && !end) return label;
+
+    return `${label} ${start ? start.substring(0, 5) : '?'}-${end ? end.substring(0, 5) : '?'}`;
+}
+
+/**
+ * Validate and store a correction request, then notify admins and the
+ * reporting manager. Shared by the web form and the Telegram /correct command.
+ * Returns { correction } or { error } with a user-facing message.
+ */
+export async function createCorrectionRequest(db, userId, employeeName, input, source) {
+    const { date, status, checkIn, checkOut, reason } = input;
+
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+        return { error: 'A valid date (YYYY-MM-DD) is required' };
+    }
+
+    if (!CORRECTION_STATUSES.includes(status)) {
+        return { error: `Status must be one of: ${CORRECTION_STATUSES.join(', ')}` };
+    }
+
+    if (!reason?.trim()) {
+        return { error: 'Please give a reason for the correction' };
+    }
+
+    const now = new Date();
+    const today = toDateString(now);
+    const earliest = toDateString(new Date(now.getFullYear(), now.getMonth(), now.getDate() - CORRECTION_WINDOW_DAYS));
+
+    if (date > today) {
+        return { error: 'Corrections are for days that have already happened' };
+    }
+
+    if (date < earliest) {
+        return { error: `Corrections can only go back ${CORRECTION_WINDOW_DAYS} days. Please contact an admin.` };
+    }
+
+    const timed = TIMED_STATUSES.includes(status);
+    const start = timed && checkIn ? checkIn : null;
+    const end = timed && checkOut ? checkOut : null;
+
+    if ((start && !TIME_PATTERN.test(start)) || (end && !TIME_PATTERN.test(end))) {
+        return { error: 'Times must be in HH:MM format' };
+    }
+
+    if (start && end && end <= start) {
+        return { error: 'Check-out must be after check-in' };
+    }
+
+    const existing = await db.query(
+        `SELECT id FROM attendance_corrections
+         WHERE user_id = $1 AND attendance_date = $2 AND status = 'pending'`,
+        [userId, date]
+    );
+
+    if (existing.rows.length > 0) {
+        return { error: 'You already have a pending correction for this day' };
+    }
+
+    const result = await db.query(
+        `INSERT INTO attendance_corrections
+         (user_id, attendance_date, proposed_status, proposed_start, proposed_end, reason, source)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [userId, date, status, start, end, reason.trim(), source]
+    );
+
+    const summary = describeAttendance(status, start, end);
+
+    // Notify admins and the reporting manager
+    const reviewers = await db.query(
+        `SELECT id FROM users
+         WHERE is_active = true
+           AND (role = $1 OR id = (SELECT manager_id FROM users WHERE id = $2))`,
+        ['admin', userId]
+    );
+
+    for (const reviewer of reviewers.rows) {
+        await db.query(
+            `INSERT INTO notifications (user_id, type, title, message, link)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [
+                reviewer.id,
+                'attendance_correction',
+                'Attendance Correction Request',
+                `${employeeName} asked to change ${date} to ${summary}: ${reason.trim()}`,
+                '/admin?panel=corrections'
+            ]
+        );
+    }
+
+    await db.query(
+        'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+        [userId, 'attendance_correction_request', `Requested correction for ${date} to ${summary}${source === 'telegram' ? ' via Telegram' : ''}: ${reason.trim()}`]
+    );
+
+    console.log(`✏️ ${employeeName} requested an attendance correction for ${date}`);
+
+    return { correction: result.rows[0] };
+}
+
+/**
+ * Propose a change to one of your past days
+ * POST /api/attendance/corrections { date, status, checkIn, checkOut, reason }
+ */
+export const createAttendanceCorrection = async (req, res, pool) => {
+    try {
+        const result = await createCorrectionRequest(
+            pool, req.user.id, req.user.fullName || req.user.username, req.body, 'web'
+        );
+
+        if (result.error) {
+            return res.status(400).json({ error: result.error });
+        }
+
+        res.status(201).json(result.correction);
+    } catch (error) {
+        if (error.code === '23505') {
+            return res.status(400).json({ error: 'You already have a pending correction for this day' });
+        }
+        console.error('❌ Error creating attendance correction:', error);
+        res.status(500).json({ error: 'Failed to submit correction' });
+    }
+};
+
+/**
+ * Your correction requests, newest first
+ * GET /api/attendance/corrections
+ */
+export const getMyCorrections = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT c.*, reviewer.full_name as reviewed_by_name
+             FROM attendance_corrections c
+             LEFT JOIN users reviewer ON c.reviewed_by = reviewer.id
+             WHERE c.user_id = $1
+             ORDER BY c.created_at DESC
+             LIMIT 50`,
+            [req.user.id]
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error fetching attendance corrections:', error);
+        res.status(500).json({ error: 'Failed to fetch corrections' });
+    }
+};
+
+/**
+ * Withdraw a pending correction
+ * PUT /api/attendance/corrections/:id/cancel
+ */
+export const cancelCorrection = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `UPDATE attendance_corrections
+             SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1 AND user_id = $2 AND status = 'pending'
+             RETURNING attendance_date`,
+            [req.params.id, req.user.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Pending correction not found' });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'attendance_correction_cancelled', `Cancelled correction #${req.params.id}`]
+        );
+
+        res.json({ success: true, message: 'Correction cancelled' });
+    } catch (error) {
+        console.error('❌ Error cancelling attendance correction:', error);
+        res.status(500).json({ error: 'Failed to cancel correction' });
+    }
+};
+
+/**
+ * Pending corrections with the attendance they would replace (Admin, or a manager's team)
+ * GET /api/admin/attendance-corrections/pending
+ */
+export const getPendingCorrections = async (req, res, pool) => {
+    try {
+        const teamIds = await getTeamUserIds(pool, req.user);
+
+        const result = await pool.query(
+            `SELECT c.*, u.full_name, u.employee_id, u.department,
+                    a.status as current_status, a.work_hours_start as current_start,
+                    a.work_hours_end as current_end
+             FROM attendance_corrections c
+             JOIN users u ON c.user_id = u.id
+             LEFT JOIN attendance a ON a.user_id = c.user_id AND a.date = c.attendance_date
+             WHERE c.status = 'pending'
+               AND ($1::int[] IS NULL OR c.user_id = ANY($1))
+             ORDER BY c.attendance_date ASC, c.created_at ASC`,
+            [teamIds]
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error fetching pending corrections:', error);
+        res.status(500).json({ error: 'Failed to fetch pending corrections' });
+    }
+};
+
+/**
+ * Approve a correction and rewrite the attendance row (Admin or manager)
+ * PUT /api/admin/attendance-corrections/:id/approve
+ */
+export const approveCorrection = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const { id } = req.params;
+
+        await client.query('BEGIN');
+
+        const correctionCheck = await client.query(
+            `SELECT c.*, u.full_name
+             FROM attendance_corrections c
+             JOIN users u ON c.user_id = u.id
+             WHERE c.id = $1
+             FOR UPDATE OF c`,
+            [id]
+        );
+
+        if (correctionCheck.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Correction not found' });
+        }
+
+        const correction = correctionCheck.rows[0];
+
+        if (!(await isInTeam(client, req.user, correction.user_id))) {
+            await client.query('ROLLBACK');
+            return res.status(403).json({ error: 'Correction is not from your team' });
+        }
+
+        if (correction.status !== 'pending') {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ error: `Cannot approve. Current status: ${correction.status}` });
+        }
+
+        const beforeResult = await client.query(
+            `SELECT id, status, work_hours_start, work_hours_end, checkin_method
+             FROM attendance WHERE user_id = $1 AND date = $2
+             FOR UPDATE`,
+            [correction.user_id, correction.attendance_date]
+        );
+
+        const before = beforeResult.rows[0] || null;
+        const { proposed_status: status, proposed_start: start, proposed_end: end } = correction;
+
+        if (before) {
+            // A reviewer vouches for the new times, so earlier location or QR proof only
+            // survives when the entry time stays the same
+            const keepProof = keepsCheckinProof(before, start, status);
+
+            await client.query(
+                `UPDATE attendance
+                 SET status = $1, work_hours_start = $2, work_hours_end = $3,
+                     checkin_method = CASE WHEN $5 THEN checkin_method ELSE 'admin' END,
+                     checkin_verified = CASE WHEN $5 THEN checkin_verified END,
+                     checkin_latitude = CASE WHEN $5 THEN checkin_latitude END,
+                     checkin_longitude = CASE WHEN $5 THEN checkin_longitude END,
+                     checkin_accuracy_m = CASE WHEN $5 THEN checkin_accuracy_m END,
+                     checkin_distance_m = CASE WHEN $5 THEN checkin_distance_m END,
+                     checkin_geofence_id = CASE WHEN $5 THEN checkin_geofence_id END,
+                     needs_review = false
+                 WHERE id = $4`,
+                [status, start, end, before.id, keepProof]
+            );
+            await updateShiftMinutes(client, before.id);
+        } else {
+            const inserted = await client.query(
+                `INSERT INTO attendance (user_id, date, status, work_hours_start, work_hours_end, marked_at, checkin_method)
+                 VALUES ($1, $2, $3, $4, $5, NOW(), 'admin')
+                 RETURNING id`,
+                [correction.user_id, correction.attendance_date, status, start, end]
+            );
+            await updateShiftMinutes(client, inserted.rows[0].id);
+        }
+
+        await client.query(
+            `UPDATE attendance_corrections
+             SET status = 'approved', reviewed_by = $1, reviewed_at = CURRENT_TIMESTAMP,
+                 previous_status = $2, previous_start = $3, previous_end = $4,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $5`,
+            [req.user.id, before?.status || null, before?.work_hours_start || null, before?.work_hours_end || null, id]
+        );
+
+        const date = toDateString(correction.attendance_date);
+        const beforeText = describeAttendance(before?.status, before?.work_hours_start, before?.work_hours_end);
+        const afterText = describeAttendance(status, start, end);
+
+        // Notify employee
+        await client.query(
+            `INSERT INTO notifications (user_id, type, title, message, link)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [
+                correction.user_id,
+                'attendance_correction_approved',
+                'Attendance Corrected',
+                `Your correction for ${date} was approved: ${afterText}`,
+                '/calendar'
+            ]
+        );
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [
+                req.user.id,
+                'attendance_corrected',
+                `Approved correction #${id} for ${correction.full_name} on ${date}: ${beforeText} → ${afterText}. Reason: ${correction.reason}`
+            ]
+        );
+
+        await client.query('COMMIT');
+
+        // Earn or withdraw a comp-off for Sunday/holiday work
+        await syncCompOffForAttendance(pool, correction.user_id, date, status)
+            .catch(error => console.error('❌ Error syncing comp-off:', error));
+
+        await sendCorrectionStatusNotification(correction.user_id, 'approved', date, afterText);
+
+        console.log(`✅ ${req.user.role === 'admin' ? 'Admin' : 'Manager'} ${req.user.username} approved correction #${id} for ${correction.full_name}`);
+
+        res.json({ success: true, message: 'Correction approved', before: beforeText, after: afterText });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error approving attendance correction:', error);
+        res.status(500).json({ error: 'Failed to approve correction' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Reject a correction with a reason (Admin or manager)
+ * PUT /api/admin/attendance-corrections/:id/reject
+ */
+export const rejectCorrection = async (req, res, pool) => {
+    try {
+        const { id } = req.params;
+        const { reason } = req.body;
+
+        if (!reason || !reason.trim()) {
+            return res.status(400).json({ error: 'Rejection reason is required' });
+        }
+
+        const teamIds = await getTeamUserIds(pool, req.user);
+
+        const result = await pool.query(
+            `UPDATE attendance_corrections
+             SET status = 'rejected', reviewed_by = $1, reviewed_at = CURRENT_TIMESTAMP,
+                 rejection_reason = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $3 AND status = 'pending'
+               AND ($4::int[] IS NULL OR user_id = ANY($4))
+             RETURNING *`,
+            [req.user.id, reason.trim(), id, teamIds]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Pending correction not found' });
+        }
+
+        const correction = result.rows[0];
+        const date = toDateString(correction.attendance_date);
+
+        // Notify employee
+        await pool.query(
+            `INSERT INTO notifications (user_id, type, title, message, link)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [
+                correction.user_id,
+                'attendance_correction_rejected',
+                'Attendance Correction Rejected',
+                `Your correction for ${date} was rejected. Reason: ${reason.trim()}`,
+                '/calendar'
+            ]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'attendance_correction_rejected', `Rejected correction #${id} for ${date}: ${reason.trim()}`]
+        );
+
+        await sendCorrectionStatusNotification(correction.user_id, 'rejected', date, reason.trim());
+
+        console.log(`❌ ${req.user.role === 'admin' ? 'Admin' : 'Manager'} ${req.user.username} rejected correction #${id}`);
+
+        res.json({ success: true, message: 'Correction rejected' });
+    } catch (error) {
+        console.error('❌ Error rejecting attendance correction:', error);
+        res.status(500).json({ error: 'Failed to reject correction' });
+    }
+};
@@ -0,0 +1,679 @@
+// ==================== CUSTOMERS & COMPANIES ====================
+// Customers and companies are records of their own. Tasks link to a customer
+// and keep a copy of its name, email, phone and company for emails and
+// Telegram messages; editing or merging a customer refreshes those copies.
+// Site visits link to the company they were made for.
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function clean(value) {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Company id for a name, ignoring case and stray spaces (null if unknown)
+ */
+export async function findCompanyId(db, name) {
+    const companyName = clean(name);
+    if (!companyName) return null;
+
+    const result = await db.query(
+        'SELECT id FROM companies WHERE LOWER(TRIM(name)) = LOWER($1)',
+        [companyName]
+    );
+
+    return result.rows[0]?.id || null;
+}
+
+async function findOrCreateCompany(db, name, userId) {
+    const companyName = clean(name);
+    if (!companyName) return null;
+
+    const existing = await findCompanyId(db, companyName);
+    if (existing) return existing;
+
+    const result = await db.query(
+        `INSERT INTO companies (name, created_by) VALUES ($1, $2)
+         ON CONFLICT DO NOTHING
+         RETURNING id`,
+        [companyName, userId]
+    );
+
+    // Lost a race with another request creating the same company
+    return result.rows[0]?.id || findCompanyId(db, companyName);
+}
+
+/**
+ * Refresh the customer fields copied onto a customer's tasks
+ */
+export async function syncCustomerTasks(db, customerId) {
+    await db.query(
+        `UPDATE tasks t
+         SET customer_name = cu.name, customer_email = cu.email, customer_phone = cu.phone,
+             company_id = cu.company_id, company_name = co.name
+         FROM customers cu
+         LEFT JOIN companies co ON co.id = cu.company_id
+         WHERE cu.id = $1 AND t.customer_id = cu.id`,
+        [customerId]
+    );
+}
+
+/**
+ * Work out which customer a task form refers to. An explicit customer_id
+ * wins; otherwise the email, then the name within the company, finds an
+ * existing customer or creates one. Missing details are filled in on a
+ * match but never overwritten. Returns null when the form names nobody,
+ * { error } for an unknown customer_id, or the ids plus the fields to copy
+ * onto the task.
+ */
+export async function resolveTaskCustomer(db, input, userId) {
+    const { customer_id, customer_name, customer_email, customer_phone, company_name } = input;
+
+    let customerId = customer_id ? parseInt(customer_id) : null;
+
+    if (!customerId) {
+        const name = clean(customer_name);
+        const email = clean(customer_email);
+        const phone = clean(customer_phone);
+        const companyId = await findOrCreateCompany(db, company_name, userId);
+
+        if (!name && !email) {
+            if (!companyId) return null;
+            return {
+                customerId: null,
+                companyId,
+                customer_name: null,
+                customer_email: null,
+                customer_phone: phone,
+                company_name: clean(company_name)
+            };
+        }
+
+        const match = email
+            ? await db.query('SELECT id FROM customers WHERE LOWER(TRIM(email)) = LOWER($1)', [email])
+            : await db.query(
+                `SELECT id FROM customers
+                 WHERE email IS NULL AND LOWER(TRIM(name)) = LOWER($1)
+                   AND company_id IS NOT DISTINCT FROM $2
+                 ORDER BY id LIMIT 1`,
+                [name, companyId]
+            );
+
+        if (match.rows.length > 0) {
+            customerId = match.rows[0].id;
+            await db.query(
+                `UPDATE customers
+                 SET name = COALESCE(name, $1), phone = COALESCE(phone, $2),
+                     company_id = COALESCE(company_id, $3), updated_at = CURRENT_TIMESTAMP
+                 WHERE id = $4 AND (name IS NULL OR phone IS NULL OR company_id IS NULL)`,
+                [name, phone, companyId, customerId]
+            );
+        } else {
+            const created = await db.query(
+                `INSERT INTO customers (name, email, phone, company_id, created_by)
+                 VALUES ($1, $2, $3, $4, $5)
+                 RETURNING id`,
+                [name, email, phone, companyId, userId]
+            );
+            customerId = created.rows[0].id;
+        }
+    }
+
+    const result = await db.query(
+        `SELECT cu.*, co.name as company_name
+         FROM customers cu
+         LEFT JOIN companies co ON co.id = cu.company_id
+         WHERE cu.id = $1`,
+        [customerId]
+    );
+
+    if (result.rows.length === 0) {
+        return { error: 'Customer not found' };
+    }
+
+    const customer = result.rows[0];
+
+    return {
+        customerId: customer.id,
+        companyId: customer.company_id,
+        customer_name: customer.name,
+        customer_email: customer.email,
+        customer_phone: customer.phone,
+        company_name: customer.company_name
+    };
+}
+
+// Validate a customer form; returns { error } or the cleaned values
+function parseCustomer(body) {
+    const name = clean(body.name);
+    const email = clean(body.email);
+
+    if (!name && !email) {
+        return { error: 'A customer needs a name or an email' };
+    }
+
+    if (email && !EMAIL_PATTERN.test(email)) {
+        return { error: 'Invalid email address' };
+    }
+
+    return {
+        name,
+        email,
+        phone: clean(body.phone),
+        notes: clean(body.notes),
+        companyId: body.companyId ? parseInt(body.companyId) : null,
+        companyName: clean(body.companyName)
+    };
+}
+
+/**
+ * Customers with their company and task count
+ * GET /api/customers?search=&companyId=
+ */
+export const getCustomers = async (req, res, pool) => {
+    try {
+        const search = clean(req.query.search);
+        const companyId = req.query.companyId ? parseInt(req.query.companyId) : null;
+
+        const result = await pool.query(
+            `SELECT cu.*, co.name as company_name,
+                    (SELECT COUNT(*) FROM tasks t WHERE t.customer_id = cu.id)::int as task_count,
+                    (SELECT MAX(t.created_at) FROM tasks t WHERE t.customer_id = cu.id) as last_task_at
+             FROM customers cu
+             LEFT JOIN companies co ON co.id = cu.company_id
+             WHERE ($1::text IS NULL
+                    OR cu.name ILIKE '%' || $1 || '%'
+                    OR cu.email ILIKE '%' || $1 || '%'
+                    OR cu.phone ILIKE '%' || $1 || '%'
+                    OR co.name ILIKE '%' || $1 || '%')
+               AND ($2::int IS NULL OR cu.company_id = $2)
+             ORDER BY LOWER(COALESCE(cu.name, cu.email)) ASC`,
+            [search, companyId]
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error fetching customers:', error);
+        res.status(500).json({ error: 'Failed to fetch customers' });
+    }
+};
+
+/**
+ * One customer with every task, site visit and email sent to them.
+ * Non-admins only see the tasks assigned to them and their own site visits.
+ * GET /api/customers/:id
+ */
+export const getCustomer = async (req, res, pool) => {
+    try {
+        const customerResult = await pool.query(
+            `SELECT cu.*, co.name as company_name
+             FROM customers cu
+             LEFT JOIN companies co ON co.id = cu.company_id
+             WHERE cu.id = $1`,
+            [req.params.id]
+        );
+
+        if (customerResult.rows.length === 0) {
+            return res.status(404).json({ error: 'Customer not found' });
+        }
+
+        const customer = customerResult.rows[0];
+        const scopeUserId = req.user.role === 'admin' ? null : req.user.id;
+
+        const [tasksResult, visitsResult, emailsResult] = await Promise.all([
+            pool.query(
+                `SELECT t.id, t.title, t.status, t.priority, t.due_date, t.created_at, t.completed_at,
+                        u.full_name as assigned_to_name
+                 FROM tasks t
+                 LEFT JOIN users u ON t.assigned_to = u.id
+                 WHERE t.customer_id = $1
+                   AND ($2::int IS NULL OR t.assigned_to = $2)
+                 ORDER BY t.created_at DESC`,
+                [customer.id, scopeUserId]
+            ),
+            customer.company_id
+                ? pool.query(
+                    `SELECT svd.id, svd.visit_date, svd.location, svd.company_name, svd.num_gauges,
+                            svd.visit_summary, svd.status, u.full_name
+                     FROM site_visit_details svd
+                     JOIN users u ON svd.user_id = u.id
+                     WHERE svd.company_id = $1
+                       AND ($2::int IS NULL OR svd.user_id = $2)
+                     ORDER BY svd.visit_date DESC`,
+                    [customer.company_id, scopeUserId]
+                )
+                : { rows: [] },
+            customer.email
+                ? pool.query(
+                    `SELECT e.id, e.task_id, e.email_type, e.subject, e.status, e.scheduled_for, e.sent_at
+                     FROM email_queue e
+                     LEFT JOIN tasks t ON t.id = e.task_id
+                     WHERE LOWER(TRIM(e.recipient_email)) = LOWER(TRIM($1))
+                       AND ($2::int IS NULL OR t.assigned_to = $2)
+                     ORDER BY COALESCE(e.sent_at, e.scheduled_for) DESC`,
+                    [customer.email, scopeUserId]
+                )
+                : { rows: [] }
+        ]);
+
+        res.json({
+            ...customer,
+            tasks: tasksResult.rows,
+            siteVisits: visitsResult.rows,
+            emails: emailsResult.rows
+        });
+    } catch (error) {
+        console.error('❌ Error fetching customer:', error);
+        res.status(500).json({ error: 'Failed to fetch customer' });
+    }
+};
+
+/**
+ * Add a customer
+ * POST /api/customers { name, email, phone, notes, companyId | companyName }
+ */
+export const createCustomer = async (req, res, pool) => {
+    try {
+        const values = parseCustomer(req.body);
+        if (values.error) {
+            return res.status(400).json({ error: values.error });
+        }
+
+        const companyId = values.companyId || await findOrCreateCompany(pool, values.companyName, req.user.id);
+
+        const result = await pool.query(
+            `INSERT INTO customers (name, email, phone, company_id, notes, created_by)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING *`,
+            [values.name, values.email, values.phone, companyId, values.notes, req.user.id]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'create_customer', `Added customer ${values.name || values.email}`]
+        );
+
+        res.status(201).json(result.rows[0]);
+    } catch (error) {
+        if (error.code === '23505') {
+            return res.status(409).json({ error: 'A customer with this email already exists' });
+        }
+        console.error('❌ Error creating customer:', error);
+        res.status(500).json({ error: 'Failed to create customer' });
+    }
+};
+
+/**
+ * Edit a customer; their tasks pick up the new details
+ * PUT /api/customers/:id { name, email, phone, notes, companyId | companyName }
+ */
+export const updateCustomer = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const values = parseCustomer(req.body);
+        if (values.error) {
+            return res.status(400).json({ error: values.error });
+        }
+
+        await client.query('BEGIN');
+
+        const companyId = values.companyId || await findOrCreateCompany(client, values.companyName, req.user.id);
+
+        const result = await client.query(
+            `UPDATE customers
+             SET name = $1, email = $2, phone = $3, company_id = $4, notes = $5,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $6
+             RETURNING *`,
+            [values.name, values.email, values.phone, companyId, values.notes, req.params.id]
+        );
+
+        if (result.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Customer not found' });
+        }
+
+        await syncCustomerTasks(client, req.params.id);
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_customer', `Updated customer #${req.params.id} (${values.name || values.email})`]
+        );
+
+        await client.query('COMMIT');
+
+        res.json(result.rows[0]);
+    } catch (error) {
+        await client.query('ROLLBACK');
+        if (error.code === '23505') {
+            return res.status(409).json({ error: 'Another customer already has this email. Merge them instead.' });
+        }
+        console.error('❌ Error updating customer:', error);
+        res.status(500).json({ error: 'Failed to update customer' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Delete a customer; their tasks keep the copied details (Admin only)
+ * DELETE /api/admin/customers/:id
+ */
+export const deleteCustomer = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            'DELETE FROM customers WHERE id = $1 RETURNING name, email',
+            [req.params.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Customer not found' });
+        }
+
+        const { name, email } = result.rows[0];
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'delete_customer', `Deleted customer ${name || email}`]
+        );
+
+        res.json({ success: true, message: 'Customer deleted' });
+    } catch (error) {
+        console.error('❌ Error deleting customer:', error);
+        res.status(500).json({ error: 'Failed to delete customer' });
+    }
+};
+
+/**
+ * Customers that look like the same person: same name, or same phone number
+ * ignoring formatting and country code (Admin only)
+ * GET /api/admin/customers/duplicates
+ */
+export const getDuplicateCustomers = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `WITH listed AS (
+                SELECT cu.id, cu.name, cu.email, cu.phone, co.name as company_name,
+                       LOWER(TRIM(cu.name)) as name_key,
+                       RIGHT(regexp_replace(COALESCE(cu.phone, ''), '\\D', '', 'g'), 10) as phone_key,
+                       (SELECT COUNT(*) FROM tasks t WHERE t.customer_id = cu.id)::int as task_count
+                FROM customers cu
+                LEFT JOIN companies co ON co.id = cu.company_id
+            )
+            SELECT 'name' as reason, name_key as match, json_agg(listed ORDER BY task_count DESC, id) as customers
+            FROM listed
+            WHERE name_key IS NOT NULL AND name_key <> ''
+            GROUP BY name_key
+            HAVING COUNT(*) > 1
+            UNION ALL
+            SELECT 'phone', phone_key, json_agg(listed ORDER BY task_count DESC, id)
+            FROM listed
+            WHERE LENGTH(phone_key) >= 7
+            GROUP BY phone_key
+            HAVING COUNT(*) > 1`
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error finding duplicate customers:', error);
+        res.status(500).json({ error: 'Failed to find duplicate customers' });
+    }
+};
+
+/**
+ * Fold other customers into this one. Their tasks move over, details the
+ * target lacks are taken from them, and they are deleted (Admin only).
+ * POST /api/admin/customers/:id/merge { sourceIds }
+ */
+export const mergeCustomers = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const targetId = parseInt(req.params.id);
+        const sourceIds = [...new Set((req.body.sourceIds || []).map(Number))].filter(id => id && id !== targetId);
+
+        if (sourceIds.length === 0) {
+            return res.status(400).json({ error: 'Pick at least one other customer to merge' });
+        }
+
+        await client.query('BEGIN');
+
+        const rows = await client.query(
+            `SELECT * FROM customers WHERE id = ANY($1) ORDER BY updated_at DESC FOR UPDATE`,
+            [[targetId, ...sourceIds]]
+        );
+
+        const target = rows.rows.find(c => c.id === targetId);
+        const sources = rows.rows.filter(c => c.id !== targetId);
+
+        if (!target || sources.length !== sourceIds.length) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Customer not found' });
+        }
+
+        const pick = (field) => target[field] ?? sources.find(c => c[field] != null)?.[field] ?? null;
+        const notes = [target, ...sources].map(c => c.notes).filter(Boolean).join('\n') || null;
+
+        const moved = await client.query(
+            'UPDATE tasks SET customer_id = $1 WHERE customer_id = ANY($2)',
+            [targetId, sourceIds]
+        );
+
+        // The inbound email log follows the customer too
+        await client.query(
+            'UPDATE inbound_emails SET customer_id = $1 WHERE customer_id = ANY($2)',
+            [targetId, sourceIds]
+        );
+
+        // Delete first so the target can take over a source's email
+        await client.query('DELETE FROM customers WHERE id = ANY($1)', [sourceIds]);
+
+        const result = await client.query(
+            `UPDATE customers
+             SET name = $1, email = $2, phone = $3, company_id = $4, notes = $5,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $6
+             RETURNING *`,
+            [pick('name'), pick('email'), pick('phone'), pick('company_id'), notes, targetId]
+        );
+
+        await syncCustomerTasks(client, targetId);
+
+        const mergedNames = sources.map(c => c.name || c.email).join(', ');
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'merge_customers', `Merged ${mergedNames} into ${target.name || target.email} (${moved.rowCount} tasks moved)`]
+        );
+
+        await client.query('COMMIT');
+
+        console.log(`🔗 ${req.user.username} merged ${sources.length} customer(s) into #${targetId}`);
+
+        res.json({ success: true, customer: result.rows[0], tasksMoved: moved.rowCount });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error merging customers:', error);
+        res.status(500).json({ error: 'Failed to merge customers' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Companies with customer, task and site visit counts
+ * GET /api/companies?search=
+ */
+export const getCompanies = async (req, res, pool) => {
+    try {
+        const search = clean(req.query.search);
+
+        const result = await pool.query(
+            `SELECT co.*,
+                    (SELECT COUNT(*) FROM customers cu WHERE cu.company_id = co.id)::int as customer_count,
+                    (SELECT COUNT(*) FROM tasks t WHERE t.company_id = co.id)::int as task_count,
+                    (SELECT COUNT(*) FROM site_visit_details s WHERE s.company_id = co.id)::int as site_visit_count
+             FROM companies co
+             WHERE ($1::text IS NULL OR co.name ILIKE '%' || $1 || '%')
+             ORDER BY LOWER(co.name) ASC`,
+            [search]
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error fetching companies:', error);
+        res.status(500).json({ error: 'Failed to fetch companies' });
+    }
+};
+
+/**
+ * Add a company
+ * POST /api/companies { name, address, notes }
+ */
+export const createCompany = async (req, res, pool) => {
+    try {
+        const name = clean(req.body.name);
+        if (!name) {
+            return res.status(400).json({ error: 'Company name is required' });
+        }
+
+        const result = await pool.query(
+            `INSERT INTO companies (name, address, notes, created_by)
+             VALUES ($1, $2, $3, $4)
+             RETURNING *`,
+            [name, clean(req.body.address), clean(req.body.notes), req.user.id]
+        );
+
+        // Site visits already logged under this name
+        await pool.query(
+            `UPDATE site_visit_details SET company_id = $1
+             WHERE company_id IS NULL AND LOWER(TRIM(company_name)) = LOWER($2)`,
+            [result.rows[0].id, name]
+        );
+
+        res.status(201).json(result.rows[0]);
+    } catch (error) {
+        if (error.code === '23505') {
+            return res.status(409).json({ error: 'A company with this name already exists' });
+        }
+        console.error('❌ Error creating company:', error);
+        res.status(500).json({ error: 'Failed to create company' });
+    }
+};
+
+/**
+ * Edit a company; linked tasks pick up a new name
+ * PUT /api/companies/:id { name, address, notes }
+ */
+export const updateCompany = async (req, res, pool) => {
+    try {
+        const name = clean(req.body.name);
+        if (!name) {
+            return res.status(400).json({ error: 'Company name is required' });
+        }
+
+        const result = await pool.query(
+            `UPDATE companies
+             SET name = $1, address = $2, notes = $3, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $4
+             RETURNING *`,
+            [name, clean(req.body.address), clean(req.body.notes), req.params.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Company not found' });
+        }
+
+        await pool.query('UPDATE tasks SET company_name = $1 WHERE company_id = $2', [name, req.params.id]);
+
+        res.json(result.rows[0]);
+    } catch (error) {
+        if (error.code === '23505') {
+            return res.status(409).json({ error: 'Another company already has this name. Merge them instead.' });
+        }
+        console.error('❌ Error updating company:', error);
+        res.status(500).json({ error: 'Failed to update company' });
+    }
+};
+
+/**
+ * Delete a company; customers, tasks and site visits are unlinked (Admin only)
+ * DELETE /api/admin/companies/:id
+ */
+export const deleteCompany = async (req, res, pool) => {
+    try {
+        const result = await pool.query('DELETE FROM companies WHERE id = $1 RETURNING name', [req.params.id]);
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Company not found' });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'delete_company', `Deleted company ${result.rows[0].name}`]
+        );
+
+        res.json({ success: true, message: 'Company deleted' });
+    } catch (error) {
+        console.error('❌ Error deleting company:', error);
+        res.status(500).json({ error: 'Failed to delete company' });
+    }
+};
+
+/**
+ * Fold other companies into this one, moving their customers, tasks and
+ * site visits (Admin only)
+ * POST /api/admin/companies/:id/merge { sourceIds }
+ */
+export const mergeCompanies = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const targetId = parseInt(req.params.id);
+        const sourceIds = [...new Set((req.body.sourceIds || []).map(Number))].filter(id => id && id !== targetId);
+
+        if (sourceIds.length === 0) {
+            return res.status(400).json({ error: 'Pick at least one other company to merge' });
+        }
+
+        await client.query('BEGIN');
+
+        const rows = await client.query(
+            'SELECT id, name FROM companies WHERE id = ANY($1) FOR UPDATE',
+            [[targetId, ...sourceIds]]
+        );
+
+        const target = rows.rows.find(c => c.id === targetId);
+        const sources = rows.rows.filter(c => c.id !== targetId);
+
+        if (!target || sources.length !== sourceIds.length) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Company not found' });
+        }
+
+        await client.query('UPDATE customers SET company_id = $1 WHERE company_id = ANY($2)', [targetId, sourceIds]);
+        await client.query(
+            'UPDATE tasks SET company_id = $1, company_name = $2 WHERE company_id = ANY($3)',
+            [targetId, target.name, sourceIds]
+        );
+        await client.query('UPDATE site_visit_details SET company_id = $1 WHERE company_id = ANY($2)', [targetId, sourceIds]);
+        await client.query('DELETE FROM companies WHERE id = ANY($1)', [sourceIds]);
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'merge_companies', `Merged ${sources.map(c => c.name).join(', ')} into ${target.name}`]
+        );
+
+        await client.query('COMMIT');
+
+        console.log(`🔗 ${req.user.username} merged ${sources.length} company(s) into ${target.name}`);
+
+        res.json({ success: true, message: `Merged into ${target.name}` });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error merging companies:', error);
+        res.status(500).json({ error: 'Failed to merge companies' });
+    } finally {
+        client.release();
+    }
+};
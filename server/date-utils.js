@@ -0,0 +1,10 @@
+// ==================== DATES ====================
+// Calendar dates as YYYY-MM-DD strings in the server's local time zone
+
+/**
+ * YYYY-MM-DD from the local date parts. pg parses DATE columns as local
+ * midnight, so toISOString() would give the previous day east of UTC.
+ */
+export function toDateString(date) {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
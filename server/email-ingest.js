@@ -0,0 +1,511 @@
+// Inbound Email Worker
+// Reads the task mailbox (IMAP, or a folder of .eml files for offline
+// testing) and turns each email into a task, or into a comment on the task
+// it replies to. Threading follows Message-ID / In-Reply-To / References
+// against earlier inbound emails, tasks.source_email_id and the Message-IDs
+// of emails sent from email_queue. Senders are matched to directory customers.
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ImapFlow } from 'imapflow';
+import { simpleParser } from 'mailparser';
+import { resolveTaskCustomer } from './customer-routes.js';
+import { enqueueTaskAssignmentEmail } from './email-queue.js';
+import { storeFile, UploadError } from './file-storage.js';
+
+// 'imap' polls IMAP_HOST; 'directory' reads INBOUND_EMAIL_DIR/*.eml
+const INBOUND_MODE = process.env.INBOUND_EMAIL_MODE === 'directory' ? 'directory' : 'imap';
+
+const INBOUND_DIR = process.env.INBOUND_EMAIL_DIR || './inbound-mail';
+
+// Long emails are cut so a pasted thread doesn't swamp the task
+const MAX_BODY_LENGTH = 10000;
+
+export function isInboundEmailEnabled() {
+    return process.env.INBOUND_EMAIL_ENABLED === 'true';
+}
+
+// ============================================================
+// PARSING HELPERS
+// ============================================================
+
+function normalizeMessageId(value) {
+    if (!value) return null;
+    return value.trim().replace(/^<|>$/g, '').toLowerCase() || null;
+}
+
+// "Re: Fwd: Gauge calibration" -> "Gauge calibration"
+function cleanSubject(subject) {
+    return (subject || '').replace(/^(\s*(re|fwd?|aw|sv)\s*(\[\d+\])?\s*:\s*)+/i, '').trim();
+}
+
+/**
+ * Drop the quoted conversation below a reply so comments only hold the new text
+ */
+export function stripQuotedReply(text) {
+    const lines = (text || '').replace(/\r\n/g, '\n').split('\n');
+    const kept = [];
+
+    for (const line of lines) {
+        if (/^On .+ wrote:\s*$/.test(line.trim())) break;
+        if (/^-{2,}\s*(Original|Forwarded) Message\s*-{2,}$/i.test(line.trim())) break;
+        if (/^From:\s/.test(line) && kept.length > 0) break;
+        if (line.startsWith('>')) continue;
+        kept.push(line);
+    }
+
+    return kept.join('\n').trim();
+}
+
+function truncate(text, max) {
+    return text.length > max ? `${text.substring(0, max)}\n\n[… truncated]` : text;
+}
+
+function isAutoReply(parsed) {
+    const autoSubmitted = String(parsed.headers.get('auto-submitted') || 'no').toLowerCase();
+    return autoSubmitted !== 'no'
+        || parsed.headers.has('x-autoreply')
+        || parsed.headers.has('x-autorespond')
+        || /^(auto|out of office|automatic reply)/i.test(parsed.subject || '');
+}
+
+/**
+ * Save an email's attachments for a task. Inline images (signature logos)
+ * and files refused by the upload limits or virus scan are skipped.
+ * Returns the number saved.
+ */
+async function saveAttachments(db, taskId, attachments) {
+    let saved = 0;
+
+    for (const attachment of attachments) {
+        if (attachment.related || attachment.contentDisposition === 'inline') continue;
+
+        let stored;
+        try {
+            stored = await storeFile({
+                buffer: attachment.content,
+                fileName: attachment.filename || 'attachment',
+                contentType: attachment.contentType,
+                prefix: `tasks/${taskId}`
+            });
+        } catch (error) {
+            if (!(error instanceof UploadError)) throw error;
+            console.log(`⚠️ Skipped email attachment ${attachment.filename} for task #${taskId}: ${error.message}`);
+            continue;
+        }
+
+        await db.query(
+            `INSERT INTO task_attachments (task_id, file_name, file_type, file_size, storage_key)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [taskId, stored.fileName, stored.contentType, stored.size, stored.storageKey]
+        );
+        saved++;
+    }
+
+    return saved;
+}
+
+// ============================================================
+// INGEST
+// ============================================================
+
+async function findThreadTaskId(db, referencedIds) {
+    if (referencedIds.length === 0) return null;
+
+    const result = await db.query(
+        `SELECT m.task_id
+         FROM (
+             SELECT task_id, 1 as rank FROM inbound_emails WHERE message_id = ANY($1) AND task_id IS NOT NULL
+             UNION ALL
+             SELECT id, 2 FROM tasks WHERE LOWER(TRIM(BOTH '<>' FROM source_email_id)) = ANY($1)
+             UNION ALL
+             SELECT task_id, 3 FROM email_queue
+             WHERE LOWER(TRIM(BOTH '<>' FROM message_id)) = ANY($1) AND task_id IS NOT NULL
+         ) m
+         JOIN tasks t ON t.id = m.task_id
+         ORDER BY m.rank
+         LIMIT 1`,
+        [referencedIds]
+    );
+
+    return result.rows[0]?.task_id || null;
+}
+
+// Whoever handled this customer last, else INBOUND_EMAIL_DEFAULT_ASSIGNEE
+async function pickAssignee(db, customerId) {
+    if (customerId) {
+        const previous = await db.query(
+            `SELECT t.assigned_to
+             FROM tasks t
+             JOIN users u ON u.id = t.assigned_to
+             WHERE t.customer_id = $1 AND u.is_active = true
+             ORDER BY t.created_at DESC
+             LIMIT 1`,
+            [customerId]
+        );
+        if (previous.rows.length > 0) return previous.rows[0].assigned_to;
+    }
+
+    return parseInt(process.env.INBOUND_EMAIL_DEFAULT_ASSIGNEE) || null;
+}
+
+async function notifyUsers(db, userIds, title, message, link) {
+    for (const userId of userIds) {
+        await db.query(
+            `INSERT INTO notifications (user_id, type, title, message, link)
+             VALUES ($1, 'task_email', $2, $3, $4)`,
+            [userId, title, message, link]
+        );
+    }
+}
+
+async function getAdminIds(db) {
+    const result = await db.query("SELECT id FROM users WHERE role = 'admin' AND is_active = true");
+    return result.rows.map(r => r.id);
+}
+
+/**
+ * Parse one raw email and file it. Returns the inbound_emails row, or
+ * null if this Message-ID was already processed.
+ */
+export async function ingestEmail(pool, raw, source) {
+    const parsed = await simpleParser(raw);
+
+    const messageId = normalizeMessageId(parsed.messageId)
+        || `${createHash('sha256').update(raw).digest('hex')}@inbound.local`;
+
+    const existing = await pool.query('SELECT id FROM inbound_emails WHERE message_id = $1', [messageId]);
+    if (existing.rows.length > 0) return null;
+
+    const references = [].concat(parsed.references || []).map(normalizeMessageId).filter(Boolean);
+    const inReplyTo = normalizeMessageId(parsed.inReplyTo);
+    const referencedIds = [...new Set([inReplyTo, ...references].filter(Boolean))];
+
+    const sender = parsed.from?.value?.[0] || {};
+    const fromEmail = sender.address ? sender.address.toLowerCase() : null;
+    const fromName = sender.name || null;
+    const senderLabel = fromName ? `${fromName} <${fromEmail}>` : fromEmail;
+    const subject = (parsed.subject || '').substring(0, 500);
+    const bodyText = (parsed.text || '').trim();
+    const attachments = parsed.attachments || [];
+
+    const ownAddress = (process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER || '').toLowerCase();
+
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        let action = 'ignored';
+        let note = null;
+        let taskId = null;
+        let commentId = null;
+        let customerId = null;
+        let assignedTask = null;
+
+        // From: is not authenticated, so a staff address only steers routing;
+        // nothing is ever saved in a staff member's name
+        const staffResult = fromEmail
+            ? await client.query('SELECT id, full_name FROM users WHERE LOWER(email) = $1 AND is_active = true', [fromEmail])
+            : { rows: [] };
+        const staff = staffResult.rows[0] || null;
+
+        if (!fromEmail) {
+            note = 'No sender address';
+        } else if (ownAddress && fromEmail === ownAddress) {
+            note = 'Sent by this system';
+        } else if (isAutoReply(parsed)) {
+            note = 'Auto-reply';
+        } else {
+            taskId = await findThreadTaskId(client, referencedIds);
+
+            if (taskId) {
+                // Reply to an existing task: add it to the comment thread
+                const reply = truncate(stripQuotedReply(bodyText) || bodyText || '(no text)', MAX_BODY_LENGTH);
+
+                const commentResult = await client.query(
+                    `INSERT INTO task_comments (task_id, user_id, comment, is_system_message)
+                     VALUES ($1, NULL, $2, false)
+                     RETURNING id`,
+                    [taskId, `📧 ${senderLabel}: ${reply}`]
+                );
+                commentId = commentResult.rows[0].id;
+
+                const taskResult = await client.query('SELECT * FROM tasks WHERE id = $1', [taskId]);
+                const task = taskResult.rows[0];
+
+                // A customer writing back about a closed task reopens it
+                if (!staff && ['completed', 'cancelled'].includes(task.status)) {
+                    await client.query(
+                        `UPDATE tasks SET status = 'open', completed_at = NULL, completed_by = NULL
+                         WHERE id = $1`,
+                        [taskId]
+                    );
+                    await client.query(
+                        `INSERT INTO task_comments (task_id, user_id, comment, is_system_message)
+                         VALUES ($1, NULL, $2, true)`,
+                        [taskId, `Reopened: ${fromName || fromEmail} replied by email`]
+                    );
+                }
+
+                const saved = await saveAttachments(client, taskId, attachments);
+                if (saved > 0) note = `${saved} attachment(s) added`;
+
+                const recipients = task.assigned_to && task.assigned_to !== staff?.id
+                    ? [task.assigned_to]
+                    : task.assigned_to ? [] : await getAdminIds(client);
+                await notifyUsers(
+                    client, recipients, 'Email Reply on Task',
+                    `${fromName || fromEmail} replied to: ${task.title}`,
+                    '/calendar?panel=tasks'
+                );
+
+                customerId = task.customer_id;
+                action = 'threaded';
+            } else {
+                // New conversation: open a task for it
+                const customer = staff
+                    ? null
+                    : await resolveTaskCustomer(client, { customer_email: fromEmail, customer_name: fromName }, null);
+                customerId = customer?.customerId || null;
+
+                const assignedTo = await pickAssignee(client, customerId);
+                const title = (cleanSubject(subject) || `Email from ${fromName || fromEmail}`).substring(0, 255);
+
+                const taskResult = await client.query(
+                    `INSERT INTO tasks (
+                        title, description, assigned_to, created_by,
+                        customer_name, customer_email, customer_phone, company_name,
+                        customer_id, company_id, category,
+                        source_email_id, source_email_subject
+                    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'email', $11, $12)
+                    RETURNING *`,
+                    [
+                        title, truncate(bodyText, MAX_BODY_LENGTH), assignedTo, null,
+                        customer?.customer_name || null, customer?.customer_email || null,
+                        customer?.customer_phone || null, customer?.company_name || null,
+                        customerId, customer?.companyId || null,
+                        messageId.substring(0, 255), subject
+                    ]
+                );
+                const task = taskResult.rows[0];
+                taskId = task.id;
+
+                await client.query(
+                    `INSERT INTO task_comments (task_id, user_id, comment, is_system_message)
+                     VALUES ($1, NULL, $2, true)`,
+                    [taskId, `Task created from email by ${senderLabel}`]
+                );
+
+                const saved = await saveAttachments(client, taskId, attachments);
+                if (saved > 0) note = `${saved} attachment(s) added`;
+
+                await notifyUsers(
+                    client, assignedTo ? [assignedTo] : await getAdminIds(client),
+                    assignedTo ? 'New Task from Email' : 'Unassigned Task from Email',
+                    `${fromName || fromEmail}: ${title}`,
+                    '/calendar?panel=tasks'
+                );
+
+                if (assignedTo) assignedTask = task;
+
+                action = 'created';
+            }
+        }
+
+        const logResult = await client.query(
+            `INSERT INTO inbound_emails (
+                message_id, in_reply_to, thread_references, from_email, from_name, subject,
+                body_text, attachment_count, received_at, source,
+                action, task_id, comment_id, customer_id, note
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+            RETURNING *`,
+            [
+                messageId, inReplyTo, references, fromEmail, fromName, subject,
+                truncate(bodyText, MAX_BODY_LENGTH), attachments.length, parsed.date || null, source,
+                action, taskId, commentId, customerId, note
+            ]
+        );
+
+        await client.query('COMMIT');
+
+        if (assignedTask) {
+            await enqueueTaskAssignmentEmail(pool, assignedTask)
+                .catch(error => console.error('❌ Error queueing assignment email:', error));
+        }
+
+        return logResult.rows[0];
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+// ============================================================
+// SOURCES
+// ============================================================
+
+/**
+ * Ingest unread mail from the IMAP mailbox, marking each one read once filed.
+ * Messages that fail stay unread and are retried on the next run.
+ */
+async function pollImapMailbox(pool) {
+    const imap = new ImapFlow({
+        host: process.env.IMAP_HOST,
+        port: parseInt(process.env.IMAP_PORT) || 993,
+        secure: process.env.IMAP_SECURE !== 'false',
+        auth: {
+            user: process.env.IMAP_USER,
+            pass: process.env.IMAP_PASSWORD
+        },
+        logger: false
+    });
+
+    const counts = { processed: 0, failed: 0 };
+
+    await imap.connect();
+    const lock = await imap.getMailboxLock(process.env.IMAP_MAILBOX || 'INBOX');
+
+    try {
+        // Collect first: flags can't be changed while a fetch is streaming
+        const messages = [];
+        for await (const message of imap.fetch({ seen: false }, { uid: true, source: true })) {
+            messages.push({ uid: message.uid, source: message.source });
+        }
+
+        for (const message of messages) {
+            try {
+                await ingestEmail(pool, message.source, 'imap');
+                await imap.messageFlagsAdd({ uid: message.uid }, ['\\Seen'], { uid: true });
+                counts.processed++;
+            } catch (error) {
+                console.error(`❌ Error ingesting IMAP message ${message.uid}:`, error);
+                counts.failed++;
+            }
+        }
+    } finally {
+        lock.release();
+        await imap.logout();
+    }
+
+    return counts;
+}
+
+/**
+ * Ingest INBOUND_EMAIL_DIR/*.eml, moving each file into processed/ or failed/
+ */
+async function processInboundDirectory(pool) {
+    const counts = { processed: 0, failed: 0 };
+
+    await fs.mkdir(path.join(INBOUND_DIR, 'processed'), { recursive: true });
+    await fs.mkdir(path.join(INBOUND_DIR, 'failed'), { recursive: true });
+
+    const files = (await fs.readdir(INBOUND_DIR)).filter(name => name.toLowerCase().endsWith('.eml')).sort();
+
+    for (const file of files) {
+        const filePath = path.join(INBOUND_DIR, file);
+
+        try {
+            await ingestEmail(pool, await fs.readFile(filePath), 'directory');
+            await fs.rename(filePath, path.join(INBOUND_DIR, 'processed', file));
+            counts.processed++;
+        } catch (error) {
+            console.error(`❌ Error ingesting ${file}:`, error);
+            await fs.rename(filePath, path.join(INBOUND_DIR, 'failed', file));
+            counts.failed++;
+        }
+    }
+
+    return counts;
+}
+
+// A slow IMAP server must not let cron runs pile up
+let ingestRunning = false;
+
+/**
+ * Cron entry point: read the configured mailbox once
+ */
+export async function processInboundEmail(pool) {
+    if (ingestRunning) return { processed: 0, failed: 0, skipped: true };
+    ingestRunning = true;
+
+    try {
+        const counts = INBOUND_MODE === 'directory'
+            ? await processInboundDirectory(pool)
+            : await pollImapMailbox(pool);
+
+        if (counts.processed > 0 || counts.failed > 0) {
+            console.log(`📥 Inbound email: ${counts.processed} filed, ${counts.failed} failed`);
+        }
+
+        return counts;
+    } catch (error) {
+        console.error('❌ Error reading inbound email:', error);
+        return { processed: 0, failed: 0, error: error.message };
+    } finally {
+        ingestRunning = false;
+    }
+}
+
+// ============================================================
+// ADMIN ROUTES
+// ============================================================
+
+/**
+ * Recently processed inbound emails and what became of them (Admin only)
+ * GET /api/admin/inbound-email?action=
+ */
+export const getInboundEmails = async (req, res, pool) => {
+    try {
+        const action = req.query.action || null;
+
+        const result = await pool.query(
+            `SELECT ie.id, ie.from_email, ie.from_name, ie.subject, ie.source, ie.action, ie.note,
+                    ie.attachment_count, ie.received_at, ie.processed_at, ie.task_id, t.title as task_title,
+                    cu.name as customer_name
+             FROM inbound_emails ie
+             LEFT JOIN tasks t ON t.id = ie.task_id
+             LEFT JOIN customers cu ON cu.id = ie.customer_id
+             WHERE ($1::text IS NULL OR ie.action = $1)
+             ORDER BY ie.processed_at DESC
+             LIMIT 100`,
+            [action]
+        );
+
+        res.json({
+            enabled: isInboundEmailEnabled(),
+            mode: INBOUND_MODE,
+            emails: result.rows
+        });
+    } catch (error) {
+        console.error('❌ Error fetching inbound emails:', error);
+        res.status(500).json({ error: 'Failed to fetch inbound emails' });
+    }
+};
+
+/**
+ * Check the mailbox now instead of waiting for the next scheduled run (Admin only)
+ * POST /api/admin/inbound-email/run
+ */
+export const runInboundEmail = async (req, res, pool) => {
+    if (!isInboundEmailEnabled()) {
+        return res.status(400).json({ error: 'Inbound email is disabled (set INBOUND_EMAIL_ENABLED=true)' });
+    }
+
+    const counts = await processInboundEmail(pool);
+
+    if (counts.error) {
+        return res.status(502).json({ error: `Mailbox check failed: ${counts.error}` });
+    }
+
+    res.json({
+        success: true,
+        message: counts.skipped
+            ? 'A mailbox check is already running'
+            : `${counts.processed} email(s) filed, ${counts.failed} failed`,
+        ...counts
+    });
+};
@@ -0,0 +1,310 @@
+// Email Queue Worker
+// Renders email_templates into email_queue rows and drains the queue
+// through the SMTP transporter in email-service.js with retry/backoff
+
+import { sendEmail, isEmailServiceAvailable } from './email-service.js';
+
+const BATCH_SIZE = 20;
+
+// Retry delay doubles per attempt: 5, 10, 20... minutes
+const RETRY_BASE_MINUTES = parseInt(process.env.EMAIL_RETRY_BASE_MINUTES) || 5;
+
+// Rows left in 'processing' this long (e.g. crash mid-send) are picked up again
+const STALE_PROCESSING_MINUTES = 15;
+
+const COMPANY_NAME = process.env.COMPANY_NAME || 'Life In Pixels';
+
+// ============================================================
+// TEMPLATE RENDERING
+// ============================================================
+
+function escapeHtml(value) {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Replace {{placeholder}} tokens with values (missing values render empty)
+ */
+export function renderTemplate(template, variables, { html = false } = {}) {
+    if (!template) return '';
+
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => {
+        const value = variables[key];
+        if (value === null || value === undefined) return '';
+        return html ? escapeHtml(value) : String(value);
+    });
+}
+
+function formatDate(date) {
+    if (!date) return 'No due date';
+    return new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+/**
+ * Build the variable set shared by all task templates
+ */
+export async function buildTaskEmailVariables(pool, task) {
+    const userIds = [task.assigned_to, task.created_by, task.completed_by].filter(Boolean);
+    const usersResult = userIds.length > 0
+        ? await pool.query('SELECT id, full_name FROM users WHERE id = ANY($1)', [userIds])
+        : { rows: [] };
+    const names = new Map(usersResult.rows.map(u => [u.id, u.full_name]));
+
+    return {
+        task_title: task.title,
+        task_description: task.description || '',
+        customer_name: task.customer_name || 'Customer',
+        priority: task.priority,
+        due_date: formatDate(task.due_date),
+        assigned_to_name: names.get(task.assigned_to) || '',
+        created_by_name: names.get(task.created_by) || '',
+        completed_by: names.get(task.completed_by) || '',
+        completed_date: task.completed_at ? formatDate(task.completed_at) : '',
+        company_name: COMPANY_NAME
+    };
+}
+
+// ============================================================
+// ENQUEUE
+// ============================================================
+
+/**
+ * Render an active template and add it to email_queue.
+ * Returns the queued row, or null when the template is missing/inactive.
+ */
+export async function enqueueTemplateEmail(pool, {
+    templateKey,
+    emailType,
+    recipientEmail,
+    recipientName = null,
+    variables,
+    taskId = null,
+    scheduledFor = null
+}) {
+    const templateResult = await pool.query(
+        'SELECT * FROM email_templates WHERE template_key = $1 AND is_active = true',
+        [templateKey]
+    );
+
+    if (templateResult.rows.length === 0) {
+        console.log(`⚠️ Email template "${templateKey}" not found or inactive, skipping`);
+        return null;
+    }
+
+    const template = templateResult.rows[0];
+
+    const result = await pool.query(
+        `INSERT INTO email_queue (
+            task_id, email_type, recipient_email, recipient_name,
+            subject, body_html, body_text, scheduled_for
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, CURRENT_TIMESTAMP))
+         RETURNING *`,
+        [
+            taskId,
+            emailType,
+            recipientEmail,
+            recipientName,
+            renderTemplate(template.subject_template, variables),
+            renderTemplate(template.body_html_template, variables, { html: true }),
+            renderTemplate(template.body_text_template, variables) || null,
+            scheduledFor
+        ]
+    );
+
+    console.log(`📨 Queued ${emailType} email to ${recipientEmail}`);
+    return result.rows[0];
+}
+
+/**
+ * Queue the assignment email to a task's assignee
+ */
+export async function enqueueTaskAssignmentEmail(pool, task) {
+    if (!task.assigned_to) return null;
+
+    const assigneeResult = await pool.query(
+        'SELECT email, full_name FROM users WHERE id = $1',
+        [task.assigned_to]
+    );
+    const assignee = assigneeResult.rows[0];
+    if (!assignee?.email) return null;
+
+    return enqueueTemplateEmail(pool, {
+        templateKey: 'task_assignment',
+        emailType: 'assignment',
+        recipientEmail: assignee.email,
+        recipientName: assignee.full_name,
+        variables: await buildTaskEmailVariables(pool, task),
+        taskId: task.id
+    });
+}
+
+/**
+ * Queue the completion email to the task's customer, once per task
+ */
+export async function enqueueTaskCompletionEmail(pool, task) {
+    if (!task.send_completion_email || !task.customer_email || task.completion_email_sent) {
+        return null;
+    }
+
+    const existing = await pool.query(
+        `SELECT id FROM email_queue
+         WHERE task_id = $1 AND email_type = 'completion' AND status IN ('pending', 'processing', 'sent')`,
+        [task.id]
+    );
+    if (existing.rows.length > 0) return null;
+
+    return enqueueTemplateEmail(pool, {
+        templateKey: 'task_completion',
+        emailType: 'completion',
+        recipientEmail: task.customer_email,
+        recipientName: task.customer_name,
+        variables: await buildTaskEmailVariables(pool, task),
+        taskId: task.id
+    });
+}
+
+/**
+ * Queue due-soon reminders for open tasks due tomorrow (one per task)
+ */
+export async function enqueueDueSoonEmails(pool) {
+    try {
+        const result = await pool.query(
+            `SELECT t.*, u.email as assignee_email, u.full_name as assignee_name
+             FROM tasks t
+             JOIN users u ON t.assigned_to = u.id
+             WHERE t.status NOT IN ('completed', 'cancelled')
+               AND t.due_date = CURRENT_DATE + 1
+               AND u.email IS NOT NULL
+               AND NOT EXISTS (
+                   SELECT 1 FROM email_queue q
+                   WHERE q.task_id = t.id AND q.email_type = 'due_soon'
+               )`
+        );
+
+        for (const task of result.rows) {
+            await enqueueTemplateEmail(pool, {
+                templateKey: 'task_reminder',
+                emailType: 'due_soon',
+                recipientEmail: task.assignee_email,
+                recipientName: task.assignee_name,
+                variables: await buildTaskEmailVariables(pool, task),
+                taskId: task.id
+            });
+        }
+
+        console.log(`⏰ Queued ${result.rows.length} due-soon task emails`);
+    } catch (error) {
+        console.error('❌ Error queueing due-soon emails:', error);
+    }
+}
+
+// ============================================================
+// WORKER
+// ============================================================
+
+async function markSent(pool, email, messageId) {
+    await pool.query(
+        `UPDATE email_queue
+         SET status = 'sent', sent_at = CURRENT_TIMESTAMP, last_error = NULL, message_id = $2
+         WHERE id = $1`,
+        [email.id, messageId || null]
+    );
+
+    if (email.email_type === 'completion' && email.task_id) {
+        await pool.query(
+            `UPDATE tasks
+             SET completion_email_sent = true, completion_email_sent_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [email.task_id]
+        );
+    }
+}
+
+async function markFailedAttempt(pool, email, error) {
+    if (email.attempts >= email.max_attempts) {
+        await pool.query(
+            `UPDATE email_queue SET status = 'failed', last_error = $2 WHERE id = $1`,
+            [email.id, error.message]
+        );
+        console.error(`❌ Email ${email.id} to ${email.recipient_email} failed permanently: ${error.message}`);
+        return;
+    }
+
+    const delayMinutes = RETRY_BASE_MINUTES * Math.pow(2, email.attempts - 1);
+    await pool.query(
+        `UPDATE email_queue
+         SET status = 'pending',
+             last_error = $2,
+             scheduled_for = CURRENT_TIMESTAMP + ($3 || ' minutes')::interval
+         WHERE id = $1`,
+        [email.id, error.message, delayMinutes]
+    );
+    console.log(`⚠️ Email ${email.id} attempt ${email.attempts}/${email.max_attempts} failed, retrying in ${delayMinutes} min`);
+}
+
+/**
+ * Send due emails from email_queue. Safe to run concurrently:
+ * rows are claimed with FOR UPDATE SKIP LOCKED.
+ */
+export async function processEmailQueue(pool) {
+    // Leave rows pending (attempts untouched) until SMTP is reachable
+    if (!isEmailServiceAvailable()) {
+        return { sent: 0, failed: 0 };
+    }
+
+    let sent = 0;
+    let failed = 0;
+
+    try {
+        await pool.query(
+            `UPDATE email_queue SET status = 'pending'
+             WHERE status = 'processing'
+               AND updated_at < CURRENT_TIMESTAMP - ($1 || ' minutes')::interval`,
+            [STALE_PROCESSING_MINUTES]
+        );
+
+        const claimed = await pool.query(
+            `UPDATE email_queue SET status = 'processing', attempts = attempts + 1
+             WHERE id IN (
+                 SELECT id FROM email_queue
+                 WHERE status = 'pending' AND scheduled_for <= CURRENT_TIMESTAMP
+                 ORDER BY scheduled_for ASC
+                 LIMIT $1
+                 FOR UPDATE SKIP LOCKED
+             )
+             RETURNING *`,
+            [BATCH_SIZE]
+        );
+
+        for (const email of claimed.rows) {
+            try {
+                const info = await sendEmail({
+                    to: email.recipient_email,
+                    toName: email.recipient_name,
+                    subject: email.subject,
+                    html: email.body_html,
+                    text: email.body_text
+                });
+                // Kept so a customer's reply threads onto the task (email-ingest.js)
+                await markSent(pool, email, info?.messageId);
+                sent++;
+            } catch (error) {
+                await markFailedAttempt(pool, email, error);
+                failed++;
+            }
+        }
+
+        if (claimed.rows.length > 0) {
+            console.log(`📧 Email queue: ${sent} sent, ${failed} failed`);
+        }
+    } catch (error) {
+        console.error('❌ Error processing email queue:', error);
+    }
+
+    return { sent, failed };
+}
@@ -15,19 +15,21 @@ function initializeEmailService() {
     const user = process.env.SMTP_USER;
     const pass = process.env.SMTP_PASS;
 
-    if (!host || !user || !pass) {
-        console.log('⚠️ Email service not configured (missing SMTP credentials)');
+    if (!host) {
+        console.log('⚠️ Email service not configured (missing SMTP_HOST)');
         return false;
     }
 
+    // Local SMTP stand-ins (MailHog, smtp4dev, ...) accept mail without auth
+    if (!user || !pass) {
+        console.log(`⚠️ SMTP credentials not set, connecting to ${host}:${port} without auth`);
+    }
+
     transporter = nodemailer.createTransport({
         host,
         port,
-        secure: port === 465, // true for 465, false for other ports
-        auth: {
-            user,
-            pass
-        }
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        ...(user && pass && { auth: { user, pass } })
     });
 
     // Verify connection
@@ -96,6 +98,166 @@ export async function sendVerificationCodeEmail(email, code, employeeName) {
     }
 }
 
+/**
+ * Send an email, throwing on failure so callers can retry
+ */
+export async function sendEmail({ to, toName, subject, html, text }) {
+    if (!transporter) {
+        throw new Error('Email service not available');
+    }
+
+    const fromName = process.env.SMTP_FROM_NAME || 'Life In Pixels';
+    const fromEmail = process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER;
+
+    return transporter.sendMail({
+        from: `"${fromName}" <${fromEmail}>`,
+        to: toName ? `"${toName}" <${to}>` : to,
+        subject,
+        html,
+        text: text || undefined
+    });
+}
+
+// Pixel-styled email with a single call-to-action link
+function renderLinkEmail({ heading, name, intro, link, buttonLabel, expiresText }) {
+    return `
+            <div style="font-family: 'Courier New', monospace; max-width: 500px; margin: 0 auto; padding: 20px; background: #FAF9EE; border: 4px solid #2d2d2d;">
+                <h1 style="font-size: 16px; color: #2d2d2d; margin-bottom: 20px;">${heading}</h1>
+
+                <p style="color: #555; font-size: 14px;">Hello <strong>${name}</strong>,</p>
+
+                <p style="color: #555; font-size: 14px;">${intro}</p>
+
+                <div style="text-align: center; margin: 24px 0;">
+                    <a href="${link}" style="background: #2d2d2d; color: #FAF9EE; padding: 14px 24px; text-decoration: none; font-weight: bold; letter-spacing: 2px;">${buttonLabel}</a>
+                </div>
+
+                <p style="color: #888; font-size: 12px; word-break: break-all;">Or open: ${link}</p>
+
+                <hr style="border: 1px solid #c4c0b8; margin: 20px 0;">
+
+                <p style="color: #888; font-size: 11px;">
+                    ⏰ ${expiresText}<br>
+                    If you didn't request this, please ignore this email.
+                </p>
+
+                <p style="color: #aaa; font-size: 10px; margin-top: 20px; text-align: center;">
+                    Life In Pixels - Work Tracker
+                </p>
+            </div>
+        `;
+}
+
+/**
+ * Send a password reset link
+ */
+export async function sendPasswordResetEmail(email, link, name) {
+    try {
+        await sendEmail({
+            to: email,
+            toName: name,
+            subject: '🔑 Reset your Life In Pixels password',
+            html: renderLinkEmail({
+                heading: '🔑 PASSWORD RESET',
+                name,
+                intro: 'Someone asked to reset the password for your account. Click below to choose a new one:',
+                link,
+                buttonLabel: 'RESET PASSWORD',
+                expiresText: 'This link expires in 1 hour and works once.'
+            }),
+            text: `Reset your password: ${link}\n\nThis link expires in 1 hour and works once.`
+        });
+        console.log(`📧 Password reset email sent to ${email}`);
+        return true;
+    } catch (error) {
+        console.error('❌ Failed to send password reset email:', error.message);
+        return false;
+    }
+}
+
+/**
+ * Send a one-time login link
+ */
+export async function sendMagicLinkEmail(email, link, name) {
+    try {
+        await sendEmail({
+            to: email,
+            toName: name,
+            subject: '✨ Your Life In Pixels login link',
+            html: renderLinkEmail({
+                heading: '✨ LOGIN LINK',
+                name,
+                intro: 'Click below to log in. No password needed:',
+                link,
+                buttonLabel: 'LOG IN',
+                expiresText: 'This link expires in 15 minutes and works once.'
+            }),
+            text: `Log in to Life In Pixels: ${link}\n\nThis link expires in 15 minutes and works once.`
+        });
+        console.log(`📧 Login link sent to ${email}`);
+        return true;
+    } catch (error) {
+        console.error('❌ Failed to send login link:', error.message);
+        return false;
+    }
+}
+
+/**
+ * Send the link that confirms a self-registered email address
+ */
+export async function sendEmailVerificationEmail(email, link, name) {
+    try {
+        await sendEmail({
+            to: email,
+            toName: name,
+            subject: '📧 Confirm your Life In Pixels email',
+            html: renderLinkEmail({
+                heading: '📧 CONFIRM YOUR EMAIL',
+                name,
+                intro: 'Click below to confirm this is your email address. Your account then goes to an admin for approval:',
+                link,
+                buttonLabel: 'CONFIRM EMAIL',
+                expiresText: 'This link expires in 24 hours. If you did not sign up, you can ignore this email.'
+            }),
+            text: `Confirm your Life In Pixels email: ${link}\n\nThis link expires in 24 hours. If you did not sign up, you can ignore this email.`
+        });
+        console.log(`📧 Email verification link sent to ${email}`);
+        return true;
+    } catch (error) {
+        console.error('❌ Failed to send email verification link:', error.message);
+        return false;
+    }
+}
+
+/**
+ * Send an employee invite link
+ */
+export async function sendInviteEmail(email, link, name, inviterName, expiresAt) {
+    const expires = new Date(expiresAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+    try {
+        await sendEmail({
+            to: email,
+            toName: name,
+            subject: '🎮 You are invited to Life In Pixels',
+            html: renderLinkEmail({
+                heading: '🎮 YOU ARE INVITED',
+                name,
+                intro: `${inviterName} has set up your Life In Pixels account. Click below to sign in with Google or choose a password:`,
+                link,
+                buttonLabel: 'ACCEPT INVITE',
+                expiresText: `This invite expires on ${expires}.`
+            }),
+            text: `${inviterName} has invited you to Life In Pixels: ${link}\n\nThis invite expires on ${expires}.`
+        });
+        console.log(`📧 Invite email sent to ${email}`);
+        return true;
+    } catch (error) {
+        console.error('❌ Failed to send invite email:', error.message);
+        return false;
+    }
+}
+
 /**
  * Check if email service is available
  */
@@ -0,0 +1,402 @@
+// ==================== EMAIL TEMPLATE MANAGEMENT ====================
+// Admin CRUD for email_templates with preview, placeholder validation
+// and version history/rollback
+
+import { renderTemplate } from './email-queue.js';
+
+// Variables filled in by buildTaskEmailVariables in email-queue.js
+const TASK_VARIABLES = [
+    'task_title',
+    'task_description',
+    'customer_name',
+    'priority',
+    'due_date',
+    'assigned_to_name',
+    'created_by_name',
+    'completed_by',
+    'completed_date',
+    'company_name'
+];
+
+// Placeholders each template used by the app must keep
+const REQUIRED_VARIABLES = {
+    task_completion: ['task_title', 'customer_name'],
+    task_reminder: ['task_title', 'due_date'],
+    task_assignment: ['task_title', 'assigned_to_name']
+};
+
+const SAMPLE_TASK_VARIABLES = {
+    task_title: 'Calibrate pressure gauges - Unit 4',
+    task_description: 'Annual calibration of 12 pressure gauges at the customer site.',
+    customer_name: 'Priya Sharma',
+    priority: 'high',
+    due_date: '24 Oct 2026',
+    assigned_to_name: 'Rahul Verma',
+    created_by_name: 'Admin',
+    completed_by: 'Rahul Verma',
+    completed_date: '23 Oct 2026',
+    company_name: process.env.COMPANY_NAME || 'Life In Pixels'
+};
+
+function extractPlaceholders(...templates) {
+    const found = new Set();
+    templates.forEach(template => {
+        for (const match of (template || '').matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+            found.add(match[1]);
+        }
+    });
+    return [...found];
+}
+
+function describeVariables(templateKey) {
+    return {
+        variables: TASK_VARIABLES,
+        requiredVariables: REQUIRED_VARIABLES[templateKey] || []
+    };
+}
+
+// Returns an error message, or null when the template content is valid
+function validateTemplateContent(templateKey, { subject_template, body_html_template, body_text_template }) {
+    if (!subject_template || !subject_template.trim()) {
+        return 'Subject is required';
+    }
+    if (subject_template.length > 500) {
+        return 'Subject cannot exceed 500 characters';
+    }
+    if (!body_html_template || !body_html_template.trim()) {
+        return 'HTML body is required';
+    }
+
+    const unknown = extractPlaceholders(subject_template, body_html_template, body_text_template)
+        .filter(name => !TASK_VARIABLES.includes(name));
+    if (unknown.length > 0) {
+        return `Unknown placeholders: ${unknown.map(name => `{{${name}}}`).join(', ')}`;
+    }
+
+    const present = extractPlaceholders(subject_template, body_html_template);
+    const missing = (REQUIRED_VARIABLES[templateKey] || []).filter(name => !present.includes(name));
+    if (missing.length > 0) {
+        return `Missing required placeholders: ${missing.map(name => `{{${name}}}`).join(', ')}`;
+    }
+
+    return null;
+}
+
+// Snapshot the current row into email_template_versions
+async function saveVersionSnapshot(client, template) {
+    await client.query(
+        `INSERT INTO email_template_versions (
+            template_id, version, template_name, subject_template, body_html_template,
+            body_text_template, description, is_active, edited_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (template_id, version) DO NOTHING`,
+        [
+            template.id, template.version || 1, template.template_name, template.subject_template,
+            template.body_html_template, template.body_text_template, template.description,
+            template.is_active, template.updated_by
+        ]
+    );
+}
+
+/**
+ * List all email templates with their variables
+ * GET /api/admin/email-templates
+ */
+export const getEmailTemplates = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT et.*, u.full_name as updated_by_name
+             FROM email_templates et
+             LEFT JOIN users u ON et.updated_by = u.id
+             ORDER BY et.template_name ASC`
+        );
+
+        res.json({
+            templates: result.rows.map(template => ({
+                ...template,
+                ...describeVariables(template.template_key)
+            }))
+        });
+    } catch (error) {
+        console.error('❌ Error fetching email templates:', error);
+        res.status(500).json({ error: 'Failed to fetch email templates' });
+    }
+};
+
+/**
+ * Create a new email template
+ * POST /api/admin/email-templates
+ */
+export const createEmailTemplate = async (req, res, pool) => {
+    try {
+        const {
+            template_key, template_name, subject_template,
+            body_html_template, body_text_template, description
+        } = req.body;
+
+        if (!template_key || !/^[a-z][a-z0-9_]{2,99}$/.test(template_key)) {
+            return res.status(400).json({
+                error: 'Template key must be 3-100 lowercase letters, numbers or underscores'
+            });
+        }
+
+        if (!template_name || !template_name.trim()) {
+            return res.status(400).json({ error: 'Template name is required' });
+        }
+
+        const validationError = validateTemplateContent(template_key, req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const result = await pool.query(
+            `INSERT INTO email_templates (
+                template_key, template_name, subject_template, body_html_template,
+                body_text_template, description, updated_by
+             ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+             RETURNING *`,
+            [
+                template_key, template_name.trim(), subject_template, body_html_template,
+                body_text_template || null, description || null, req.user.id
+            ]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'create_email_template', `Created email template: ${template_key}`]
+        );
+
+        res.status(201).json({ ...result.rows[0], ...describeVariables(template_key) });
+    } catch (error) {
+        if (error.code === '23505') {
+            return res.status(400).json({ error: 'A template with this key already exists' });
+        }
+        console.error('❌ Error creating email template:', error);
+        res.status(500).json({ error: 'Failed to create email template' });
+    }
+};
+
+/**
+ * Update an email template, keeping the previous version
+ * PUT /api/admin/email-templates/:id
+ */
+export const updateEmailTemplate = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const { id } = req.params;
+        const {
+            template_name, subject_template, body_html_template,
+            body_text_template, description, is_active
+        } = req.body;
+
+        await client.query('BEGIN');
+
+        const existing = await client.query(
+            'SELECT * FROM email_templates WHERE id = $1 FOR UPDATE',
+            [id]
+        );
+
+        if (existing.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Email template not found' });
+        }
+
+        const current = existing.rows[0];
+
+        const validationError = validateTemplateContent(current.template_key, req.body);
+        if (validationError) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ error: validationError });
+        }
+
+        await saveVersionSnapshot(client, current);
+
+        const result = await client.query(
+            `UPDATE email_templates SET
+                template_name = COALESCE($1, template_name),
+                subject_template = $2,
+                body_html_template = $3,
+                body_text_template = $4,
+                description = COALESCE($5, description),
+                is_active = COALESCE($6, is_active),
+                version = COALESCE(version, 1) + 1,
+                updated_by = $7,
+                updated_at = CURRENT_TIMESTAMP
+             WHERE id = $8
+             RETURNING *`,
+            [
+                template_name?.trim() || null, subject_template, body_html_template,
+                body_text_template || null, description ?? null,
+                typeof is_active === 'boolean' ? is_active : null, req.user.id, id
+            ]
+        );
+
+        await client.query('COMMIT');
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_email_template', `Updated email template: ${current.template_key} (v${result.rows[0].version})`]
+        );
+
+        res.json({ ...result.rows[0], ...describeVariables(current.template_key) });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error updating email template:', error);
+        res.status(500).json({ error: 'Failed to update email template' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Delete a custom email template (templates used by the app can only be deactivated)
+ * DELETE /api/admin/email-templates/:id
+ */
+export const deleteEmailTemplate = async (req, res, pool) => {
+    try {
+        const { id } = req.params;
+
+        const existing = await pool.query('SELECT template_key FROM email_templates WHERE id = $1', [id]);
+
+        if (existing.rows.length === 0) {
+            return res.status(404).json({ error: 'Email template not found' });
+        }
+
+        const { template_key } = existing.rows[0];
+
+        if (REQUIRED_VARIABLES[template_key]) {
+            return res.status(400).json({ error: 'This template is used by the app. Deactivate it instead.' });
+        }
+
+        await pool.query('DELETE FROM email_templates WHERE id = $1', [id]);
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'delete_email_template', `Deleted email template: ${template_key}`]
+        );
+
+        res.json({ message: 'Email template deleted' });
+    } catch (error) {
+        console.error('❌ Error deleting email template:', error);
+        res.status(500).json({ error: 'Failed to delete email template' });
+    }
+};
+
+/**
+ * Render unsaved template content with sample task data
+ * POST /api/admin/email-templates/preview
+ */
+export const previewEmailTemplate = async (req, res) => {
+    try {
+        const { template_key, subject_template, body_html_template, body_text_template } = req.body;
+
+        res.json({
+            subject: renderTemplate(subject_template, SAMPLE_TASK_VARIABLES),
+            html: renderTemplate(body_html_template, SAMPLE_TASK_VARIABLES, { html: true }),
+            text: renderTemplate(body_text_template, SAMPLE_TASK_VARIABLES),
+            sampleData: SAMPLE_TASK_VARIABLES,
+            validationError: validateTemplateContent(template_key, req.body)
+        });
+    } catch (error) {
+        console.error('❌ Error previewing email template:', error);
+        res.status(500).json({ error: 'Failed to preview email template' });
+    }
+};
+
+/**
+ * Get previous versions of a template
+ * GET /api/admin/email-templates/:id/versions
+ */
+export const getEmailTemplateVersions = async (req, res, pool) => {
+    try {
+        const { id } = req.params;
+
+        const result = await pool.query(
+            `SELECT v.*, u.full_name as edited_by_name
+             FROM email_template_versions v
+             LEFT JOIN users u ON v.edited_by = u.id
+             WHERE v.template_id = $1
+             ORDER BY v.version DESC`,
+            [id]
+        );
+
+        res.json({ versions: result.rows });
+    } catch (error) {
+        console.error('❌ Error fetching template versions:', error);
+        res.status(500).json({ error: 'Failed to fetch template versions' });
+    }
+};
+
+/**
+ * Restore a previous version (the current content is kept as a new version)
+ * POST /api/admin/email-templates/:id/versions/:versionId/rollback
+ */
+export const rollbackEmailTemplate = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const { id, versionId } = req.params;
+
+        await client.query('BEGIN');
+
+        const existing = await client.query(
+            'SELECT * FROM email_templates WHERE id = $1 FOR UPDATE',
+            [id]
+        );
+
+        if (existing.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Email template not found' });
+        }
+
+        const versionResult = await client.query(
+            'SELECT * FROM email_template_versions WHERE id = $1 AND template_id = $2',
+            [versionId, id]
+        );
+
+        if (versionResult.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Template version not found' });
+        }
+
+        const current = existing.rows[0];
+        const target = versionResult.rows[0];
+
+        await saveVersionSnapshot(client, current);
+
+        const result = await client.query(
+            `UPDATE email_templates SET
+                template_name = $1,
+                subject_template = $2,
+                body_html_template = $3,
+                body_text_template = $4,
+                description = $5,
+                is_active = COALESCE($6, is_active),
+                version = COALESCE(version, 1) + 1,
+                updated_by = $7,
+                updated_at = CURRENT_TIMESTAMP
+             WHERE id = $8
+             RETURNING *`,
+            [
+                target.template_name, target.subject_template, target.body_html_template,
+                target.body_text_template, target.description, target.is_active, req.user.id, id
+            ]
+        );
+
+        await client.query('COMMIT');
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'rollback_email_template', `Rolled back email template ${current.template_key} to v${target.version}`]
+        );
+
+        res.json({ ...result.rows[0], ...describeVariables(current.template_key) });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error rolling back email template:', error);
+        res.status(500).json({ error: 'Failed to roll back email template' });
+    } finally {
+        client.release();
+    }
+};
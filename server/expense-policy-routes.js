@@ -0,0 +1,482 @@
+// ==================== EXPENSE POLICIES ====================
+// Finance rules for Calibration site visit expenses: allowed types, daily
+// caps, food per-diem by city tier, own-vehicle mileage rate and receipt
+// thresholds. Unknown types are refused; other breaches are saved but
+// flagged to the approver.
+
+const CITY_TIERS = ['tier1', 'tier2', 'tier3'];
+const CALCULATIONS = ['amount', 'per_diem', 'mileage'];
+
+// Expenses above this amount (₹) need a receipt unless their type sets its
+// own threshold; approving without one needs an extra confirmation
+export const RECEIPT_REQUIRED_ABOVE = parseFloat(process.env.RECEIPT_REQUIRED_ABOVE) || 500;
+
+// Per-diem tier for locations that don't name a known city
+const DEFAULT_CITY_TIER = CITY_TIERS.includes(process.env.EXPENSE_DEFAULT_CITY_TIER)
+    ? process.env.EXPENSE_DEFAULT_CITY_TIER
+    : 'tier3';
+
+const formatRupees = (value) => `₹${parseFloat(value).toFixed(2)}`;
+
+/**
+ * All policies, per-diem rates ({ tier1: 800, ... }) and the city tier list
+ */
+export async function loadExpensePolicies(db) {
+    const [policies, rates, cities] = await Promise.all([
+        db.query('SELECT * FROM expense_policies ORDER BY label ASC'),
+        db.query('SELECT city_tier, daily_allowance FROM expense_per_diem_rates ORDER BY city_tier ASC'),
+        db.query('SELECT city, city_tier FROM expense_city_tiers ORDER BY city ASC')
+    ]);
+
+    return {
+        policies: policies.rows,
+        perDiemRates: Object.fromEntries(rates.rows.map(row => [row.city_tier, parseFloat(row.daily_allowance)])),
+        cities: cities.rows
+    };
+}
+
+/**
+ * Active policy for what the employee typed: the type key, its label or
+ * one of its aliases, ignoring case
+ */
+export function findPolicy(policies, type) {
+    const text = (type || '').trim().toLowerCase();
+    if (!text) return null;
+
+    return policies.find(policy =>
+        policy.is_active && (
+            policy.expense_type === text ||
+            policy.label.toLowerCase() === text ||
+            policy.aliases.includes(text)
+        )
+    ) || null;
+}
+
+export function receiptThreshold(policy) {
+    return policy && policy.receipt_required_above !== null
+        ? parseFloat(policy.receipt_required_above)
+        : RECEIPT_REQUIRED_ABOVE;
+}
+
+function escapeRegExp(text) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Per-diem tier of a site visit location, from the first known city
+ * named in it (longest names first so "new delhi" beats "delhi")
+ */
+export function cityTierFor(cities, location) {
+    const text = (location || '').toLowerCase();
+
+    const match = [...cities]
+        .sort((a, b) => b.city.length - a.city.length)
+        .find(({ city }) => new RegExp(`\\b${escapeRegExp(city)}\\b`).test(text));
+
+    return match ? match.city_tier : DEFAULT_CITY_TIER;
+}
+
+/**
+ * Check a new or edited expense against the allowed types. Returns
+ * { error } when it can't be saved, otherwise the normalized
+ * { expenseType, label, amount, distanceKm }. Mileage without an amount is
+ * priced from the distance.
+ */
+export function normalizeExpense(policies, { type, amount, distanceKm }) {
+    const policy = findPolicy(policies, type);
+
+    if (!policy) {
+        const allowed = policies.filter(p => p.is_active).map(p => p.label).join(', ');
+        return { error: `"${(type || '').trim()}" is not an allowed expense type. Allowed: ${allowed}` };
+    }
+
+    const distance = parseFloat(distanceKm) || null;
+    let value = parseFloat(amount);
+
+    if (policy.calculation === 'mileage') {
+        if (!distance || distance <= 0) {
+            return { error: `Distance in km is required for ${policy.label}` };
+        }
+        if (!value) {
+            value = Math.round(distance * parseFloat(policy.rate_per_km) * 100) / 100;
+        }
+    }
+
+    if (!value || value <= 0) {
+        return { error: 'Amount must be greater than 0' };
+    }
+
+    return {
+        expenseType: policy.expense_type,
+        label: policy.label,
+        amount: value,
+        distanceKm: policy.calculation === 'mileage' ? distance : null
+    };
+}
+
+/**
+ * Policy breaches for the expenses of the given site visits, as
+ * { [expenseId]: [{ code, message }] }. Worked out against the current
+ * policies each time, so approvers always see today's rules.
+ */
+export async function getPolicyViolations(db, siteVisitIds) {
+    if (siteVisitIds.length === 0) {
+        return {};
+    }
+
+    const { policies, perDiemRates, cities } = await loadExpensePolicies(db);
+
+    const result = await db.query(
+        `SELECT sve.id, sve.site_visit_id, sve.expense_type, sve.amount, sve.distance_km,
+                sve.receipt_storage_key IS NOT NULL as has_receipt, svd.location
+         FROM site_visit_expenses sve
+         JOIN site_visit_details svd ON sve.site_visit_id = svd.id
+         WHERE sve.site_visit_id = ANY($1)
+         ORDER BY sve.id`,
+        [siteVisitIds]
+    );
+
+    // A site visit is one day, so per-visit totals are the daily totals
+    const dailyTotals = {};
+    for (const expense of result.rows) {
+        const policy = findPolicy(policies, expense.expense_type);
+        if (!policy) continue;
+        const key = `${expense.site_visit_id}:${policy.expense_type}`;
+        dailyTotals[key] = (dailyTotals[key] || 0) + parseFloat(expense.amount);
+    }
+
+    const violations = {};
+
+    for (const expense of result.rows) {
+        const policy = findPolicy(policies, expense.expense_type);
+        const amount = parseFloat(expense.amount);
+        const issues = [];
+
+        if (!policy) {
+            issues.push({ code: 'type', message: `${expense.expense_type} is not an allowed expense type` });
+        } else {
+            const total = dailyTotals[`${expense.site_visit_id}:${policy.expense_type}`];
+
+            let cap = null;
+            let capName = 'daily cap';
+            if (policy.calculation === 'per_diem') {
+                const tier = cityTierFor(cities, expense.location);
+                cap = perDiemRates[tier] || null;
+                capName = `${tier.replace('tier', 'tier ')} per-diem`;
+            } else if (policy.daily_cap !== null) {
+                cap = parseFloat(policy.daily_cap);
+            }
+
+            if (cap !== null && total > cap) {
+                issues.push({
+                    code: 'daily_cap',
+                    message: `${policy.label} total ${formatRupees(total)} is over the ${formatRupees(cap)} ${capName}`
+                });
+            }
+
+            if (policy.calculation === 'mileage') {
+                const distance = parseFloat(expense.distance_km);
+                const rate = parseFloat(policy.rate_per_km);
+
+                if (!distance) {
+                    issues.push({ code: 'mileage', message: 'No distance given for mileage' });
+                } else if (amount > distance * rate + 0.01) {
+                    issues.push({
+                        code: 'mileage',
+                        message: `${formatRupees(amount)} is more than ${distance} km × ${formatRupees(rate)} = ${formatRupees(distance * rate)}`
+                    });
+                }
+            }
+        }
+
+        const threshold = receiptThreshold(policy);
+        if (!expense.has_receipt && amount > threshold) {
+            issues.push({ code: 'receipt', message: `No receipt (required above ${formatRupees(threshold)})` });
+        }
+
+        if (issues.length > 0) {
+            violations[expense.id] = issues;
+        }
+    }
+
+    return violations;
+}
+
+/**
+ * Policy warnings for a single saved expense. Called after the expense is
+ * saved, so a failed lookup returns no warnings instead of throwing.
+ */
+export async function getExpenseWarnings(db, siteVisitId, expenseId) {
+    try {
+        const violations = await getPolicyViolations(db, [siteVisitId]);
+        return violations[expenseId] || [];
+    } catch (error) {
+        console.error('❌ Error checking expense policy:', error);
+        return [];
+    }
+}
+
+function validatePolicyInput(body) {
+    const { label, aliases, calculation, dailyCap, ratePerKm, receiptRequiredAbove } = body;
+
+    if (!label || !label.trim()) {
+        return { error: 'Label is required' };
+    }
+
+    if (!CALCULATIONS.includes(calculation)) {
+        return { error: `Calculation must be one of: ${CALCULATIONS.join(', ')}` };
+    }
+
+    const toAmount = (value) => (value === null || value === undefined || value === '' ? null : parseFloat(value));
+
+    const fields = {
+        label: label.trim(),
+        aliases: (Array.isArray(aliases) ? aliases : [])
+            .map(alias => String(alias).trim().toLowerCase())
+            .filter(Boolean),
+        calculation,
+        dailyCap: calculation === 'amount' ? toAmount(dailyCap) : null,
+        ratePerKm: calculation === 'mileage' ? toAmount(ratePerKm) : null,
+        receiptRequiredAbove: toAmount(receiptRequiredAbove)
+    };
+
+    if (fields.dailyCap !== null && !(fields.dailyCap > 0)) {
+        return { error: 'Daily cap must be greater than 0' };
+    }
+
+    if (calculation === 'mileage' && !(fields.ratePerKm > 0)) {
+        return { error: 'Rate per km is required for mileage' };
+    }
+
+    if (fields.receiptRequiredAbove !== null && !(fields.receiptRequiredAbove >= 0)) {
+        return { error: 'Receipt threshold cannot be negative' };
+    }
+
+    return { fields };
+}
+
+/**
+ * Allowed expense types and limits, for the expense form
+ * GET /api/calibration/expense-policies
+ */
+export const getActiveExpensePolicies = async (req, res, pool) => {
+    try {
+        const { policies, perDiemRates } = await loadExpensePolicies(pool);
+
+        res.json({
+            policies: policies
+                .filter(policy => policy.is_active)
+                .map(policy => ({
+                    expense_type: policy.expense_type,
+                    label: policy.label,
+                    aliases: policy.aliases,
+                    calculation: policy.calculation,
+                    daily_cap: policy.daily_cap,
+                    rate_per_km: policy.rate_per_km,
+                    receipt_required_above: receiptThreshold(policy)
+                })),
+            perDiemRates
+        });
+    } catch (error) {
+        console.error('❌ Error fetching expense policies:', error);
+        res.status(500).json({ error: 'Failed to fetch expense policies' });
+    }
+};
+
+/**
+ * All expense policies, per-diem rates and city tiers (Admin)
+ * GET /api/admin/expense-policies
+ */
+export const getExpensePolicies = async (req, res, pool) => {
+    try {
+        res.json({
+            ...(await loadExpensePolicies(pool)),
+            defaultCityTier: DEFAULT_CITY_TIER,
+            defaultReceiptThreshold: RECEIPT_REQUIRED_ABOVE
+        });
+    } catch (error) {
+        console.error('❌ Error fetching expense policies:', error);
+        res.status(500).json({ error: 'Failed to fetch expense policies' });
+    }
+};
+
+/**
+ * Add an allowed expense type (Admin)
+ * POST /api/admin/expense-policies
+ */
+export const createExpensePolicy = async (req, res, pool) => {
+    try {
+        const expenseType = (req.body.expenseType || '').trim().toLowerCase();
+
+        if (!/^[a-z0-9_ -]{2,100}$/.test(expenseType)) {
+            return res.status(400).json({ error: 'Type key must be 2-100 letters, numbers, spaces, - or _' });
+        }
+
+        const { error, fields } = validatePolicyInput(req.body);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        const result = await pool.query(
+            `INSERT INTO expense_policies (
+                expense_type, label, aliases, calculation, daily_cap, rate_per_km,
+                receipt_required_above, updated_by
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            ON CONFLICT (expense_type) DO NOTHING
+            RETURNING *`,
+            [expenseType, fields.label, fields.aliases, fields.calculation, fields.dailyCap,
+                fields.ratePerKm, fields.receiptRequiredAbove, req.user.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(409).json({ error: `Expense type ${expenseType} already exists` });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'expense_policy_created', `Added expense type ${fields.label}`]
+        );
+
+        res.status(201).json(result.rows[0]);
+    } catch (error) {
+        console.error('❌ Error creating expense policy:', error);
+        res.status(500).json({ error: 'Failed to create expense policy' });
+    }
+};
+
+/**
+ * Update an expense type's limits, or switch it off (Admin)
+ * PUT /api/admin/expense-policies/:type
+ */
+export const updateExpensePolicy = async (req, res, pool) => {
+    try {
+        const { type } = req.params;
+
+        const { error, fields } = validatePolicyInput(req.body);
+        if (error) {
+            return res.status(400).json({ error });
+        }
+
+        const result = await pool.query(
+            `UPDATE expense_policies
+             SET label = $1, aliases = $2, calculation = $3, daily_cap = $4, rate_per_km = $5,
+                 receipt_required_above = $6, is_active = COALESCE($7, is_active),
+                 updated_by = $8, updated_at = CURRENT_TIMESTAMP
+             WHERE expense_type = $9
+             RETURNING *`,
+            [fields.label, fields.aliases, fields.calculation, fields.dailyCap, fields.ratePerKm,
+                fields.receiptRequiredAbove, typeof req.body.isActive === 'boolean' ? req.body.isActive : null,
+                req.user.id, type]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Expense type not found' });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'expense_policy_updated', `Updated expense type ${fields.label}${result.rows[0].is_active ? '' : ' (inactive)'}`]
+        );
+
+        res.json(result.rows[0]);
+    } catch (error) {
+        console.error('❌ Error updating expense policy:', error);
+        res.status(500).json({ error: 'Failed to update expense policy' });
+    }
+};
+
+/**
+ * Set the daily food allowance per city tier (Admin)
+ * PUT /api/admin/expense-per-diem { rates: { tier1: 800, tier2: 600, tier3: 400 } }
+ */
+export const updatePerDiemRates = async (req, res, pool) => {
+    try {
+        const { rates } = req.body;
+
+        if (!rates || typeof rates !== 'object') {
+            return res.status(400).json({ error: 'Rates are required' });
+        }
+
+        for (const [tier, allowance] of Object.entries(rates)) {
+            if (!CITY_TIERS.includes(tier)) {
+                return res.status(400).json({ error: `City tier must be one of: ${CITY_TIERS.join(', ')}` });
+            }
+            if (!(parseFloat(allowance) > 0)) {
+                return res.status(400).json({ error: 'Daily allowance must be greater than 0' });
+            }
+        }
+
+        for (const [tier, allowance] of Object.entries(rates)) {
+            await pool.query(
+                `UPDATE expense_per_diem_rates
+                 SET daily_allowance = $1, updated_by = $2, updated_at = CURRENT_TIMESTAMP
+                 WHERE city_tier = $3`,
+                [parseFloat(allowance), req.user.id, tier]
+            );
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'expense_per_diem_updated', `Updated per-diem: ${Object.entries(rates).map(([t, a]) => `${t} ₹${a}`).join(', ')}`]
+        );
+
+        const { perDiemRates } = await loadExpensePolicies(pool);
+        res.json(perDiemRates);
+    } catch (error) {
+        console.error('❌ Error updating per-diem rates:', error);
+        res.status(500).json({ error: 'Failed to update per-diem rates' });
+    }
+};
+
+/**
+ * Replace the city tier list (Admin)
+ * PUT /api/admin/expense-cities { cities: [{ city, city_tier }] }
+ */
+export const updateCityTiers = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const { cities } = req.body;
+
+        if (!Array.isArray(cities)) {
+            return res.status(400).json({ error: 'Cities are required' });
+        }
+
+        const rows = new Map();
+        for (const entry of cities) {
+            const city = String(entry.city || '').trim().toLowerCase();
+            if (!city) continue;
+            if (!CITY_TIERS.includes(entry.city_tier)) {
+                return res.status(400).json({ error: `City tier must be one of: ${CITY_TIERS.join(', ')}` });
+            }
+            rows.set(city, entry.city_tier);
+        }
+
+        await client.query('BEGIN');
+
+        await client.query('DELETE FROM expense_city_tiers');
+
+        for (const [city, tier] of rows) {
+            await client.query(
+                'INSERT INTO expense_city_tiers (city, city_tier) VALUES ($1, $2)',
+                [city, tier]
+            );
+        }
+
+        await client.query('COMMIT');
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'expense_cities_updated', `Updated city tiers (${rows.size} cities)`]
+        );
+
+        const { cities: saved } = await loadExpensePolicies(pool);
+        res.json(saved);
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error updating city tiers:', error);
+        res.status(500).json({ error: 'Failed to update city tiers' });
+    } finally {
+        client.release();
+    }
+};
@@ -9,6 +9,9 @@ import {
     colorCellByStatus,
     addFooter,
     formatTime,
+    formatCheckinMethod,
+    flagUnverifiedCheckin,
+    formatShiftMinutes,
     calculateHours,
     calculateWorkingDays,
     isWeekend,
@@ -16,15 +19,18 @@ import {
     workbookToBuffer
 } from './excel-generator.js';
 
-export async function generateBulkReport(pool, dateRange) {
+// options.userIds limits the report to those employees (a manager's team)
+export async function generateBulkReport(pool, dateRange, options = {}) {
     const workbook = createWorkbook();
 
     // Get all employees
     const employeesResult = await pool.query(
         `SELECT id, full_name, employee_id, department, email, created_at
          FROM users
-         WHERE role = 'employee'
-         ORDER BY full_name ASC`
+         WHERE role IN ('employee', 'manager')
+           AND ($1::int[] IS NULL OR id = ANY($1))
+         ORDER BY full_name ASC`,
+        [options.userIds || null]
     );
 
     const employees = employeesResult.rows;
@@ -38,7 +44,7 @@ export async function generateBulkReport(pool, dateRange) {
     let summaryRow = 1;
 
     // Add header
-    const title = 'BULK ATTENDANCE REPORT - ALL EMPLOYEES';
+    const title = options.userIds ? 'BULK ATTENDANCE REPORT - TEAM' : 'BULK ATTENDANCE REPORT - ALL EMPLOYEES';
     const subtitle = `${dateRange.startDate} to ${dateRange.endDate}`;
     addCompanyHeader(summarySheet, title, subtitle);
     summaryRow = 5;
@@ -69,7 +75,7 @@ export async function generateBulkReport(pool, dateRange) {
     summaryRow += 2;
 
     // Employee overview table
-    summarySheet.mergeCells(summaryRow, 1, summaryRow, 8);
+    summarySheet.mergeCells(summaryRow, 1, summaryRow, 11);
     summarySheet.getCell(summaryRow, 1).value = 'EMPLOYEE OVERVIEW';
     summarySheet.getCell(summaryRow, 1).font = { bold: true, size: 12 };
     summarySheet.getCell(summaryRow, 1).fill = {
@@ -81,7 +87,7 @@ export async function generateBulkReport(pool, dateRange) {
 
     // Header row
     const headerRow = summarySheet.getRow(summaryRow);
-    const headers = ['Employee ID', 'Name', 'Department', 'Present', 'WFH', 'Half Day', 'Leave', 'Absent'];
+    const headers = ['Employee ID', 'Name', 'Department', 'Present', 'WFH', 'Half Day', 'Leave', 'Absent', 'Unverified', 'Late Days', 'Overtime (h)'];
     headers.forEach((header, index) => {
         headerRow.getCell(index + 1).value = header;
     });
@@ -94,7 +100,9 @@ export async function generateBulkReport(pool, dateRange) {
     for (const employee of employees) {
         // Get attendance data
         const attendanceResult = await pool.query(
-            `SELECT date, status, work_hours_start, work_hours_end, notes
+            `SELECT date, status, work_hours_start, work_hours_end, notes,
+                    checkin_method, checkin_verified, checkin_distance_m,
+                    late_minutes, early_leave_minutes, overtime_minutes
              FROM attendance
              WHERE user_id = $1 AND date BETWEEN $2 AND $3
              ORDER BY date ASC`,
@@ -102,9 +110,14 @@ export async function generateBulkReport(pool, dateRange) {
         );
 
         // Calculate stats
-        let present = 0, wfh = 0, halfDay = 0, onLeave = 0, absent = 0;
+        let present = 0, wfh = 0, halfDay = 0, onLeave = 0, absent = 0, unverified = 0;
+        let lateDays = 0, overtimeMinutes = 0;
 
         attendanceResult.rows.forEach(record => {
+            if (record.checkin_verified === false) unverified++;
+            if (record.late_minutes > 0) lateDays++;
+            overtimeMinutes += record.overtime_minutes || 0;
+
             switch (record.status?.toLowerCase()) {
                 case 'present': present++; break;
                 case 'wfh': wfh++; break;
@@ -126,9 +139,15 @@ export async function generateBulkReport(pool, dateRange) {
         row.getCell(6).value = halfDay;
         row.getCell(7).value = onLeave;
         row.getCell(8).value = absent;
+        row.getCell(9).value = unverified;
+        if (unverified > 0) {
+            row.getCell(9).font = { bold: true, color: { argb: 'FFFF9800' } };
+        }
+        row.getCell(10).value = lateDays;
+        row.getCell(11).value = parseFloat((overtimeMinutes / 60).toFixed(2));
 
         // Center align
-        for (let col = 1; col <= 8; col++) {
+        for (let col = 1; col <= 11; col++) {
             row.getCell(col).alignment = { vertical: 'middle', horizontal: 'center' };
         }
 
@@ -139,7 +158,7 @@ export async function generateBulkReport(pool, dateRange) {
     }
 
     // Apply borders to summary table
-    applyBorders(summarySheet, tableStartRow - 1, 1, summaryRow - 1, 8);
+    applyBorders(summarySheet, tableStartRow - 1, 1, summaryRow - 1, 11);
 
     // Set column widths
     summarySheet.columns = [
@@ -150,7 +169,10 @@ export async function generateBulkReport(pool, dateRange) {
         { key: 'wfh', width: 10 },
         { key: 'half', width: 10 },
         { key: 'leave', width: 10 },
-        { key: 'absent', width: 10 }
+        { key: 'absent', width: 10 },
+        { key: 'unverified', width: 12 },
+        { key: 'late_days', width: 12 },
+        { key: 'overtime', width: 14 }
     ];
 
     // Add footer
@@ -199,7 +221,8 @@ async function addEmployeeSheet(workbook, pool, employee, dateRange) {
 
     // Daily attendance table
     const headerRow = worksheet.getRow(currentRow);
-    const headers = ['Date', 'Day', 'Status', 'Check-in', 'Check-out', 'Hours', 'Notes'];
+    const headers = ['Date', 'Day', 'Status', 'Check-in', 'Check-out', 'Hours', 'Notes', 'Check-in Via',
+        'Late (min)', 'Early Out (min)', 'Overtime (min)'];
     headers.forEach((header, index) => {
         headerRow.getCell(index + 1).value = header;
     });
@@ -210,7 +233,9 @@ async function addEmployeeSheet(workbook, pool, employee, dateRange) {
 
     // Get attendance data
     const attendanceResult = await pool.query(
-        `SELECT date, status, work_hours_start, work_hours_end, notes
+        `SELECT date, status, work_hours_start, work_hours_end, notes,
+                checkin_method, checkin_verified, checkin_distance_m,
+                late_minutes, early_leave_minutes, overtime_minutes
          FROM attendance
          WHERE user_id = $1 AND date BETWEEN $2 AND $3
          ORDER BY date ASC`,
@@ -233,7 +258,13 @@ async function addEmployeeSheet(workbook, pool, employee, dateRange) {
             status: attendanceRecord?.status || null,
             work_hours_start: attendanceRecord?.work_hours_start || null,
             work_hours_end: attendanceRecord?.work_hours_end || null,
-            notes: attendanceRecord?.notes || null
+            notes: attendanceRecord?.notes || null,
+            checkin_method: attendanceRecord?.checkin_method || null,
+            checkin_verified: attendanceRecord?.checkin_verified ?? null,
+            checkin_distance_m: attendanceRecord?.checkin_distance_m ?? null,
+            late_minutes: attendanceRecord?.late_minutes ?? null,
+            early_leave_minutes: attendanceRecord?.early_leave_minutes ?? null,
+            overtime_minutes: attendanceRecord?.overtime_minutes ?? null
         });
 
         current.setDate(current.getDate() + 1);
@@ -257,6 +288,11 @@ async function addEmployeeSheet(workbook, pool, employee, dateRange) {
         row.getCell(5).value = record.work_hours_end ? formatTime(record.work_hours_end) : '-';
         row.getCell(6).value = hours > 0 ? hours.toFixed(2) : '-';
         row.getCell(7).value = record.notes || '';
+        row.getCell(8).value = formatCheckinMethod(record);
+        flagUnverifiedCheckin(row.getCell(8), record);
+        row.getCell(9).value = formatShiftMinutes(record.late_minutes);
+        row.getCell(10).value = formatShiftMinutes(record.early_leave_minutes);
+        row.getCell(11).value = formatShiftMinutes(record.overtime_minutes);
 
         // Color status cell
         if (record.status) {
@@ -265,7 +301,7 @@ async function addEmployeeSheet(workbook, pool, employee, dateRange) {
 
         // Highlight weekends
         if (isWeekend(date)) {
-            for (let col = 1; col <= 7; col++) {
+            for (let col = 1; col <= 11; col++) {
                 row.getCell(col).fill = {
                     type: 'pattern',
                     pattern: 'solid',
@@ -275,7 +311,7 @@ async function addEmployeeSheet(workbook, pool, employee, dateRange) {
         }
 
         // Center align
-        for (let col = 1; col <= 7; col++) {
+        for (let col = 1; col <= 11; col++) {
             row.getCell(col).alignment = {
                 vertical: 'middle',
                 horizontal: col === 7 ? 'left' : 'center',
@@ -287,7 +323,7 @@ async function addEmployeeSheet(workbook, pool, employee, dateRange) {
     });
 
     // Apply borders
-    applyBorders(worksheet, tableStartRow - 1, 1, currentRow - 1, 7);
+    applyBorders(worksheet, tableStartRow - 1, 1, currentRow - 1, 11);
 
     // Set column widths
     worksheet.columns = [
@@ -297,7 +333,11 @@ async function addEmployeeSheet(workbook, pool, employee, dateRange) {
         { key: 'checkin', width: 12 },
         { key: 'checkout', width: 12 },
         { key: 'hours', width: 10 },
-        { key: 'notes', width: 35 }
+        { key: 'notes', width: 35 },
+        { key: 'checkin_via', width: 24 },
+        { key: 'late', width: 12 },
+        { key: 'early_out', width: 15 },
+        { key: 'overtime', width: 15 }
     ];
 
     // Add footer
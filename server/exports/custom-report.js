@@ -0,0 +1,415 @@
+// Custom Report Generator
+// Builds a workbook from an admin-defined report: data source, columns,
+// filters and an optional group-by. Only whitelisted sources and columns
+// below ever reach the SQL.
+
+import {
+    createWorkbook,
+    addCompanyHeader,
+    styleHeaderRow,
+    applyBorders,
+    colorCellByStatus,
+    addFooter,
+    formatTime,
+    generateFilename,
+    workbookToBuffer
+} from './excel-generator.js';
+import { decryptAmount } from '../encryption.js';
+
+const CURRENCY_FORMAT = '₹#,##0.00';
+
+// Hard cap so a broad definition can't produce an unbounded workbook
+const MAX_ROWS = 20000;
+
+const EMPLOYEE_COLUMNS = {
+    employee_id: { label: 'Employee ID', sql: 'u.employee_id', type: 'text' },
+    full_name: { label: 'Name', sql: 'u.full_name', type: 'text' },
+    department: { label: 'Department', sql: 'u.department', type: 'text' }
+};
+
+export const REPORT_SOURCES = {
+    attendance: {
+        label: 'Attendance',
+        from: 'attendance a JOIN users u ON a.user_id = u.id',
+        dateColumn: 'a.date',
+        statusColumn: 'a.status',
+        statuses: ['present', 'wfh', 'half_day', 'on_leave', 'absent'],
+        columns: {
+            ...EMPLOYEE_COLUMNS,
+            date: { label: 'Date', sql: 'a.date', type: 'date' },
+            status: { label: 'Status', sql: 'a.status', type: 'status' },
+            work_hours_start: { label: 'Start Time', sql: 'a.work_hours_start', type: 'time' },
+            work_hours_end: { label: 'End Time', sql: 'a.work_hours_end', type: 'time' },
+            hours: {
+                label: 'Hours',
+                sql: 'ROUND((EXTRACT(EPOCH FROM (a.work_hours_end - a.work_hours_start)) / 3600)::numeric, 2)',
+                type: 'number'
+            },
+            notes: { label: 'Notes', sql: 'a.notes', type: 'text' },
+            checkin_method: { label: 'Check-in Method', sql: 'a.checkin_method', type: 'text' },
+            checkin_verification: {
+                label: 'Check-in Verification',
+                sql: "CASE a.checkin_verified WHEN true THEN 'Verified' WHEN false THEN 'Unverified' END",
+                type: 'text'
+            },
+            checkin_distance_m: { label: 'Distance from Office (m)', sql: 'a.checkin_distance_m', type: 'number' }
+        }
+    },
+    work_logs: {
+        label: 'Work Logs',
+        from: 'work_logs w JOIN users u ON w.user_id = u.id',
+        dateColumn: 'w.entry_date',
+        statusColumn: 'w.work_status',
+        statuses: ['productive', 'normal', 'challenging', 'blocked'],
+        columns: {
+            ...EMPLOYEE_COLUMNS,
+            entry_date: { label: 'Date', sql: 'w.entry_date', type: 'date' },
+            work_status: { label: 'Work Status', sql: 'w.work_status', type: 'text' },
+            task_summary: { label: 'Summary', sql: 'w.task_summary', type: 'text' },
+            work: { label: 'Work', sql: 'w.work', type: 'text' },
+            end_of_day: { label: 'End of Day', sql: 'w.end_of_day', type: 'text' }
+        }
+    },
+    tasks: {
+        label: 'Tasks',
+        from: 'tasks t LEFT JOIN users u ON t.assigned_to = u.id',
+        dateColumn: 't.created_at::date',
+        statusColumn: 't.status',
+        statuses: ['open', 'in_progress', 'pending', 'completed', 'cancelled'],
+        columns: {
+            ...EMPLOYEE_COLUMNS,
+            full_name: { label: 'Assigned To', sql: 'u.full_name', type: 'text' },
+            title: { label: 'Title', sql: 't.title', type: 'text' },
+            status: { label: 'Status', sql: 't.status', type: 'text' },
+            priority: { label: 'Priority', sql: 't.priority', type: 'text' },
+            category: { label: 'Category', sql: 't.category', type: 'text' },
+            customer_name: { label: 'Customer', sql: 't.customer_name', type: 'text' },
+            company_name: { label: 'Company', sql: 't.company_name', type: 'text' },
+            created_date: { label: 'Created', sql: 't.created_at::date', type: 'date' },
+            due_date: { label: 'Due Date', sql: 't.due_date', type: 'date' },
+            completed_date: { label: 'Completed', sql: 't.completed_at::date', type: 'date' }
+        }
+    },
+    site_visits: {
+        label: 'Site Visits',
+        from: `site_visit_details s
+               JOIN users u ON s.user_id = u.id
+               LEFT JOIN (
+                   SELECT site_visit_id, SUM(amount) as total, COUNT(*) as items
+                   FROM site_visit_expenses
+                   GROUP BY site_visit_id
+               ) e ON e.site_visit_id = s.id`,
+        dateColumn: 's.visit_date',
+        statusColumn: 's.status',
+        statuses: ['draft', 'submitted', 'approved', 'rejected'],
+        columns: {
+            ...EMPLOYEE_COLUMNS,
+            visit_date: { label: 'Visit Date', sql: 's.visit_date', type: 'date' },
+            location: { label: 'Location', sql: 's.location', type: 'text' },
+            company_name: { label: 'Company', sql: 's.company_name', type: 'text' },
+            num_gauges: { label: 'Gauges', sql: 's.num_gauges', type: 'number' },
+            status: { label: 'Status', sql: 's.status', type: 'text' },
+            expense_items: { label: 'Expense Items', sql: 'COALESCE(e.items, 0)', type: 'number' },
+            expense_total: { label: 'Expenses (₹)', sql: 'COALESCE(e.total, 0)', type: 'currency' }
+        }
+    },
+    salary: {
+        label: 'Salary',
+        from: 'salary_payments p JOIN users u ON p.user_id = u.id',
+        dateColumn: 'p.payment_date',
+        statusColumn: 'p.payment_type',
+        statuses: ['salary', 'bonus', 'reimbursement', 'advance', 'incentive', 'other'],
+        encrypted: true,
+        adminOnly: true,
+        columns: {
+            ...EMPLOYEE_COLUMNS,
+            payment_date: { label: 'Payment Date', sql: 'p.payment_date', type: 'date' },
+            payment_month: { label: 'Pay Month', sql: 'p.payment_month', type: 'text' },
+            payment_type: { label: 'Type', sql: 'p.payment_type', type: 'text' },
+            amount: { label: 'Amount (₹)', sql: 'p.encrypted_amount', type: 'encrypted' },
+            notes: { label: 'Notes', sql: 'p.notes', type: 'text' }
+        }
+    }
+};
+
+// Source/column metadata for the builder UI (no SQL)
+export function describeReportSources(includeAdminOnly = true) {
+    return Object.entries(REPORT_SOURCES)
+        .filter(([, source]) => includeAdminOnly || !source.adminOnly)
+        .map(([key, source]) => ({
+            key,
+            label: source.label,
+            statuses: source.statuses,
+            columns: Object.entries(source.columns).map(([columnKey, column]) => ({
+                key: columnKey,
+                label: column.label
+            }))
+        }));
+}
+
+// Returns an error message, or null when the definition can be run
+export function validateReportDefinition(definition) {
+    if (!definition || typeof definition !== 'object') {
+        return 'Report definition is required';
+    }
+
+    const source = REPORT_SOURCES[definition.source];
+    if (!source) {
+        return `Invalid data source. Must be one of: ${Object.keys(REPORT_SOURCES).join(', ')}`;
+    }
+
+    if (!Array.isArray(definition.columns) || definition.columns.length === 0) {
+        return 'Select at least one column';
+    }
+
+    const unknownColumn = definition.columns.find(column => !source.columns[column]);
+    if (unknownColumn) {
+        return `Unknown column for ${source.label}: ${unknownColumn}`;
+    }
+
+    if (definition.groupBy && !source.columns[definition.groupBy]) {
+        return `Unknown group-by column for ${source.label}: ${definition.groupBy}`;
+    }
+
+    const filters = definition.filters || {};
+
+    if (filters.status && !source.statuses.includes(filters.status)) {
+        return `Invalid status for ${source.label}: ${filters.status}`;
+    }
+
+    if (filters.employeeId && !Number.isInteger(Number(filters.employeeId))) {
+        return 'Invalid employee';
+    }
+
+    if (filters.startDate && filters.endDate) {
+        const daysDiff = (new Date(filters.endDate) - new Date(filters.startDate)) / (1000 * 60 * 60 * 24);
+        if (isNaN(daysDiff) || daysDiff < 0) {
+            return 'Invalid date range';
+        }
+        if (daysDiff > 365) {
+            return 'Date range cannot exceed 1 year';
+        }
+    }
+
+    return null;
+}
+
+function buildQuery(source, definition, userIds = null) {
+    const filters = definition.filters || {};
+    const keys = [...definition.columns];
+    if (definition.groupBy && !keys.includes(definition.groupBy)) {
+        keys.unshift(definition.groupBy);
+    }
+
+    const conditions = [];
+    const params = [];
+
+    if (filters.department) {
+        params.push(filters.department);
+        conditions.push(`u.department = $${params.length}`);
+    }
+    if (filters.employeeId) {
+        params.push(parseInt(filters.employeeId));
+        conditions.push(`u.id = $${params.length}`);
+    }
+    if (userIds) {
+        params.push(userIds);
+        conditions.push(`u.id = ANY($${params.length})`);
+    }
+    if (filters.status) {
+        params.push(filters.status);
+        conditions.push(`${source.statusColumn} = $${params.length}`);
+    }
+    if (filters.startDate) {
+        params.push(filters.startDate);
+        conditions.push(`${source.dateColumn} >= $${params.length}`);
+    }
+    if (filters.endDate) {
+        params.push(filters.endDate);
+        conditions.push(`${source.dateColumn} <= $${params.length}`);
+    }
+
+    const orderBy = [];
+    if (definition.groupBy) {
+        orderBy.push(`${source.columns[definition.groupBy].sql} NULLS LAST`);
+    }
+    orderBy.push(`${source.dateColumn} ASC`, 'u.full_name ASC');
+
+    const query = `SELECT ${keys.map(key => `${source.columns[key].sql} as "${key}"`).join(', ')}
+         FROM ${source.from}
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY ${orderBy.join(', ')}
+         LIMIT ${MAX_ROWS}`;
+
+    return { query, params };
+}
+
+// Converts a raw column value to what goes in the cell
+function cellValue(column, value) {
+    if (value === null || value === undefined) return '';
+
+    switch (column.type) {
+        case 'date':
+            return new Date(value).toLocaleDateString('en-IN');
+        case 'time':
+            return formatTime(value);
+        case 'number':
+        case 'currency':
+            return parseFloat(value);
+        case 'encrypted':
+            return decryptAmount(value);
+        default:
+            return value;
+    }
+}
+
+function isNumeric(column) {
+    return ['number', 'currency', 'encrypted'].includes(column.type);
+}
+
+function describeFilters(filters = {}) {
+    const parts = [];
+    if (filters.startDate || filters.endDate) {
+        parts.push(`${filters.startDate || '…'} to ${filters.endDate || '…'}`);
+    }
+    if (filters.department) parts.push(`Department: ${filters.department}`);
+    if (filters.status) parts.push(`Status: ${filters.status}`);
+    return parts.join(' | ');
+}
+
+// options.userIds limits the rows to those employees (a manager's team)
+export async function generateCustomReport(pool, definition, reportName = '', options = {}) {
+    const source = REPORT_SOURCES[definition.source];
+    const workbook = createWorkbook();
+
+    const { query, params } = buildQuery(source, definition, options.userIds);
+    const result = await pool.query(query, params);
+
+    const columns = definition.columns.map(key => ({ key, ...source.columns[key] }));
+    const title = (reportName || `${source.label} Report`).toUpperCase();
+    const subtitle = describeFilters(definition.filters);
+
+    // ==================== DATA SHEET ====================
+    const dataSheet = workbook.addWorksheet('Data');
+    addCompanyHeader(dataSheet, title, subtitle);
+
+    const headerRow = dataSheet.getRow(5);
+    columns.forEach((column, index) => {
+        headerRow.getCell(index + 1).value = column.label;
+    });
+    styleHeaderRow(headerRow, columns.length);
+
+    let currentRow = 6;
+    let currentGroup;
+    const groups = new Map();
+    const groupColumn = definition.groupBy ? source.columns[definition.groupBy] : null;
+
+    result.rows.forEach(record => {
+        if (groupColumn) {
+            const value = cellValue(groupColumn, record[definition.groupBy]);
+            const group = value === '' ? 'N/A' : value;
+
+            // Group heading row whenever the group changes
+            if (group !== currentGroup) {
+                currentGroup = group;
+                dataSheet.mergeCells(currentRow, 1, currentRow, columns.length);
+                const cell = dataSheet.getCell(currentRow, 1);
+                cell.value = `${groupColumn.label}: ${group}`;
+                cell.font = { bold: true };
+                cell.fill = {
+                    type: 'pattern',
+                    pattern: 'solid',
+                    fgColor: { argb: 'FFE0E0E0' }
+                };
+                currentRow++;
+            }
+
+            if (!groups.has(group)) {
+                groups.set(group, { count: 0, sums: columns.map(() => 0) });
+            }
+            const summary = groups.get(group);
+            summary.count++;
+            columns.forEach((column, index) => {
+                if (isNumeric(column)) {
+                    summary.sums[index] += Number(cellValue(column, record[column.key])) || 0;
+                }
+            });
+        }
+
+        const row = dataSheet.getRow(currentRow);
+        columns.forEach((column, index) => {
+            const cell = row.getCell(index + 1);
+            cell.value = cellValue(column, record[column.key]);
+            cell.alignment = { vertical: 'middle', horizontal: column.type === 'text' ? 'left' : 'center' };
+
+            if (column.type === 'status') colorCellByStatus(cell, record[column.key]);
+            if (column.type === 'currency' || column.type === 'encrypted') cell.numFmt = CURRENCY_FORMAT;
+        });
+        currentRow++;
+    });
+
+    if (result.rows.length === 0) {
+        dataSheet.getCell(currentRow, 1).value = 'No records match the selected filters';
+        dataSheet.getCell(currentRow, 1).font = { italic: true, color: { argb: 'FF666666' } };
+        currentRow++;
+    }
+
+    applyBorders(dataSheet, 5, 1, currentRow - 1, columns.length);
+
+    if (result.rows.length === MAX_ROWS) {
+        currentRow++;
+        dataSheet.getCell(currentRow, 1).value = `Output limited to ${MAX_ROWS} rows. Narrow the filters to see everything.`;
+        dataSheet.getCell(currentRow, 1).font = { italic: true, size: 9, color: { argb: 'FFD32F2F' } };
+    }
+
+    dataSheet.columns = columns.map(column => ({
+        width: column.type === 'text' ? 25 : 15
+    }));
+
+    addFooter(dataSheet, currentRow + 2);
+
+    // ==================== SUMMARY SHEET ====================
+    if (groupColumn) {
+        const summarySheet = workbook.addWorksheet('Summary');
+        addCompanyHeader(summarySheet, `${title} - BY ${groupColumn.label.toUpperCase()}`, subtitle);
+
+        const numericColumns = columns
+            .map((column, index) => ({ column, index }))
+            .filter(({ column }) => isNumeric(column));
+
+        const summaryHeaders = [groupColumn.label, 'Records', ...numericColumns.map(({ column }) => `Total ${column.label}`)];
+        const summaryHeaderRow = summarySheet.getRow(5);
+        summaryHeaders.forEach((header, index) => {
+            summaryHeaderRow.getCell(index + 1).value = header;
+        });
+        styleHeaderRow(summaryHeaderRow, summaryHeaders.length);
+
+        let summaryRow = 6;
+        groups.forEach((summary, group) => {
+            const row = summarySheet.getRow(summaryRow);
+            row.getCell(1).value = group;
+            row.getCell(2).value = summary.count;
+            numericColumns.forEach(({ column, index }, offset) => {
+                const cell = row.getCell(offset + 3);
+                cell.value = parseFloat(summary.sums[index].toFixed(2));
+                if (column.type !== 'number') cell.numFmt = CURRENCY_FORMAT;
+            });
+            summaryRow++;
+        });
+
+        applyBorders(summarySheet, 5, 1, summaryRow - 1, summaryHeaders.length);
+
+        summarySheet.columns = summaryHeaders.map((_, index) => ({ width: index === 0 ? 25 : 18 }));
+
+        addFooter(summarySheet, summaryRow + 1);
+    }
+
+    const buffer = await workbookToBuffer(workbook);
+    const filename = generateFilename(
+        'Custom_Report',
+        '',
+        (reportName || source.label).replace(/[^a-z0-9]/gi, '_')
+    );
+
+    return { buffer, filename };
+}
@@ -142,6 +142,39 @@ export function formatTime(timeString) {
     return `${displayHour}:${minutes} ${ampm}`;
 }
 
+const CHECKIN_METHOD_LABELS = {
+    web: 'Form',
+    telegram: 'Telegram',
+    telegram_location: 'Telegram location',
+    browser_location: 'Browser location',
+    qr: 'QR code',
+    admin: 'Admin'
+};
+
+// How a day was checked in, e.g. "QR code ✓" or "Form - UNVERIFIED"
+export function formatCheckinMethod(record) {
+    if (!record.checkin_method) return '-';
+
+    const label = CHECKIN_METHOD_LABELS[record.checkin_method] || record.checkin_method;
+
+    if (record.checkin_verified === false) return `${label} - UNVERIFIED`;
+    if (record.checkin_verified && record.checkin_distance_m != null) return `${label} ✓ (${record.checkin_distance_m} m)`;
+    if (record.checkin_verified) return `${label} ✓`;
+    return label;
+}
+
+// Highlight check-ins made without proof at a geofenced office
+export function flagUnverifiedCheckin(cell, record) {
+    if (record.checkin_verified === false) {
+        cell.font = { bold: true, color: { argb: 'FFFF9800' } };
+    }
+}
+
+// Late/early-leave/overtime cell: minutes, or '-' when none or not yet measured
+export function formatShiftMinutes(minutes) {
+    return minutes > 0 ? minutes : '-';
+}
+
 // Calculate hours between two times
 export function calculateHours(startTime, endTime) {
     if (!startTime || !endTime) return 0;
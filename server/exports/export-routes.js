@@ -2,6 +2,7 @@
 // Handles all export-related endpoints
 
 import { generateIndividualReport } from './individual-report.js';
+import { getTeamUserIds, isInTeam } from '../team-scope.js';
 
 // Export individual employee report
 export async function exportIndividualReport(req, res, pool) {
@@ -25,6 +26,11 @@ export async function exportIndividualReport(req, res, pool) {
             });
         }
 
+        // Managers can only export their own team
+        if (!(await isInTeam(pool, req.user, userId))) {
+            return res.status(403).json({ error: 'Employee is not in your team' });
+        }
+
         // Get employee details
         const employeeResult = await pool.query(
             `SELECT id, full_name, employee_id, department, email, created_at
@@ -41,7 +47,9 @@ export async function exportIndividualReport(req, res, pool) {
 
         // Get attendance data
         const attendanceResult = await pool.query(
-            `SELECT date, status, work_hours_start, work_hours_end, notes
+            `SELECT date, status, work_hours_start, work_hours_end, notes,
+                    checkin_method, checkin_verified, checkin_distance_m,
+                    late_minutes, early_leave_minutes, overtime_minutes
              FROM attendance
              WHERE user_id = $1 AND date BETWEEN $2 AND $3
              ORDER BY date ASC`,
@@ -64,7 +72,13 @@ export async function exportIndividualReport(req, res, pool) {
                 status: attendanceRecord?.status || null,
                 work_hours_start: attendanceRecord?.work_hours_start || null,
                 work_hours_end: attendanceRecord?.work_hours_end || null,
-                notes: attendanceRecord?.notes || null
+                notes: attendanceRecord?.notes || null,
+                checkin_method: attendanceRecord?.checkin_method || null,
+                checkin_verified: attendanceRecord?.checkin_verified ?? null,
+                checkin_distance_m: attendanceRecord?.checkin_distance_m ?? null,
+                late_minutes: attendanceRecord?.late_minutes ?? null,
+                early_leave_minutes: attendanceRecord?.early_leave_minutes ?? null,
+                overtime_minutes: attendanceRecord?.overtime_minutes ?? null
             });
 
             current.setDate(current.getDate() + 1);
@@ -120,13 +134,14 @@ export async function exportBulkReport(req, res, pool) {
             });
         }
 
-        // Generate bulk report
-        const { buffer, filename } = await generateBulkReport(pool, { startDate, endDate });
+        // Generate bulk report (managers get their team only)
+        const userIds = await getTeamUserIds(pool, req.user);
+        const { buffer, filename } = await generateBulkReport(pool, { startDate, endDate }, { userIds });
 
         // Log activity
         await pool.query(
             'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
-            [req.user.id, 'export_report', `Exported bulk report for all employees`]
+            [req.user.id, 'export_report', `Exported bulk report for ${userIds ? 'team' : 'all employees'}`]
         );
 
         // Send file
@@ -161,8 +176,9 @@ export async function exportMonthlySummary(req, res, pool) {
             });
         }
 
-        // Generate monthly summary
-        const { buffer, filename } = await generateMonthlySummary(pool, yearNum, monthNum);
+        // Generate monthly summary (managers get their team only)
+        const userIds = await getTeamUserIds(pool, req.user);
+        const { buffer, filename } = await generateMonthlySummary(pool, yearNum, monthNum, { userIds });
 
         // Log activity
         await pool.query(
@@ -181,18 +197,286 @@ export async function exportMonthlySummary(req, res, pool) {
     }
 }
 
-// TODO: Export statistics report
+import { generateStatisticsReport } from './statistics-report.js';
+
+// Export statistics report (attendance rates, late arrivals, average hours)
 export async function exportStatisticsReport(req, res, pool) {
-    res.status(501).json({ error: 'Not implemented yet' });
+    try {
+        const { startDate, endDate, lateAfter } = req.body;
+
+        if (!startDate || !endDate) {
+            return res.status(400).json({
+                error: 'Missing required fields: startDate, endDate'
+            });
+        }
+
+        if (lateAfter && !/^([01]\d|2[0-3]):[0-5]\d$/.test(lateAfter)) {
+            return res.status(400).json({
+                error: 'lateAfter must be in HH:MM format'
+            });
+        }
+
+        // Validate date range (max 1 year)
+        const start = new Date(startDate);
+        const end = new Date(endDate);
+        const daysDiff = (end - start) / (1000 * 60 * 60 * 24);
+
+        if (daysDiff > 365) {
+            return res.status(400).json({
+                error: 'Date range cannot exceed 1 year'
+            });
+        }
+
+        // Generate statistics report (managers get their team only)
+        const userIds = await getTeamUserIds(pool, req.user);
+        const { buffer, filename } = await generateStatisticsReport(pool, { startDate, endDate }, { lateAfter, userIds });
+
+        // Log activity
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'export_report', `Exported statistics report for ${startDate} to ${endDate}`]
+        );
+
+        // Send file
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.send(buffer);
+
+    } catch (error) {
+        console.error('❌ Error exporting statistics report:', error);
+        res.status(500).json({ error: 'Failed to generate statistics report' });
+    }
 }
 
-// TODO: Export payroll report
+import { generatePayrollReport } from './payroll-report.js';
+import { isEncryptionConfigured } from '../encryption.js';
+
+// Export payroll report (attendance, salary payments, reimbursements, LOP)
 export async function exportPayrollReport(req, res, pool) {
-    res.status(501).json({ error: 'Not implemented yet' });
+    try {
+        const { year, month } = req.body;
+
+        if (!year || !month) {
+            return res.status(400).json({
+                error: 'Missing required fields: year, month'
+            });
+        }
+
+        // Validate year and month
+        const yearNum = parseInt(year);
+        const monthNum = parseInt(month);
+
+        if (yearNum < 2020 || yearNum > 2100 || monthNum < 1 || monthNum > 12) {
+            return res.status(400).json({
+                error: 'Invalid year or month'
+            });
+        }
+
+        // Salary amounts are stored encrypted
+        if (!isEncryptionConfigured()) {
+            return res.status(500).json({
+                error: 'Encryption not configured. Set SALARY_ENCRYPTION_KEY in environment.'
+            });
+        }
+
+        // Generate payroll report
+        const { buffer, filename } = await generatePayrollReport(pool, yearNum, monthNum);
+
+        // Log activity
+        const payMonth = `${yearNum}-${String(monthNum).padStart(2, '0')}`;
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'export_report', `Exported payroll report for ${payMonth}`]
+        );
+
+        // Send file
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.send(buffer);
+
+    } catch (error) {
+        console.error('❌ Error exporting payroll report:', error);
+        res.status(500).json({ error: 'Failed to generate payroll report' });
+    }
 }
 
-// TODO: Export custom report
+import {
+    REPORT_SOURCES,
+    describeReportSources,
+    validateReportDefinition,
+    generateCustomReport
+} from './custom-report.js';
+
+// Get data sources and columns available to the custom report builder
+export async function getCustomReportSources(req, res) {
+    res.json({ sources: describeReportSources(req.user.role === 'admin') });
+}
+
+// Salary data stays with admins; managers only get the other sources
+function canUseSource(user, definition) {
+    return user.role === 'admin' || !REPORT_SOURCES[definition?.source]?.adminOnly;
+}
+
+// Export custom report from an inline definition or a saved report
 export async function exportCustomReport(req, res, pool) {
-    res.status(501).json({ error: 'Not implemented yet' });
+    try {
+        const { reportId } = req.body;
+        let { definition } = req.body;
+        let reportName = '';
+
+        if (reportId) {
+            const saved = await pool.query(
+                'SELECT name, definition FROM saved_reports WHERE id = $1',
+                [reportId]
+            );
+
+            if (saved.rows.length === 0) {
+                return res.status(404).json({ error: 'Saved report not found' });
+            }
+
+            definition = saved.rows[0].definition;
+            reportName = saved.rows[0].name;
+        }
+
+        const validationError = validateReportDefinition(definition);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        if (!canUseSource(req.user, definition)) {
+            return res.status(403).json({ error: 'Admin access required for this data source' });
+        }
+
+        // Salary amounts are stored encrypted
+        if (REPORT_SOURCES[definition.source].encrypted && !isEncryptionConfigured()) {
+            return res.status(500).json({
+                error: 'Encryption not configured. Set SALARY_ENCRYPTION_KEY in environment.'
+            });
+        }
+
+        // Generate custom report (managers get their team only)
+        const userIds = await getTeamUserIds(pool, req.user);
+        const { buffer, filename } = await generateCustomReport(pool, definition, reportName, { userIds });
+
+        if (reportId) {
+            await pool.query(
+                'UPDATE saved_reports SET last_run_at = CURRENT_TIMESTAMP WHERE id = $1',
+                [reportId]
+            );
+        }
+
+        // Log activity
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'export_report', `Exported custom report: ${reportName || definition.source}`]
+        );
+
+        // Send file
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.send(buffer);
+
+    } catch (error) {
+        console.error('❌ Error exporting custom report:', error);
+        res.status(500).json({ error: 'Failed to generate custom report' });
+    }
+}
+
+// Get saved custom report definitions
+export async function getSavedReports(req, res, pool) {
+    try {
+        const result = await pool.query(
+            `SELECT sr.id, sr.name, sr.description, sr.definition, sr.last_run_at,
+                    sr.created_at, sr.updated_at, u.full_name as created_by_name
+             FROM saved_reports sr
+             LEFT JOIN users u ON sr.created_by = u.id
+             ORDER BY sr.name ASC`
+        );
+
+        res.json({ reports: result.rows.filter(report => canUseSource(req.user, report.definition)) });
+    } catch (error) {
+        console.error('❌ Error fetching saved reports:', error);
+        res.status(500).json({ error: 'Failed to fetch saved reports' });
+    }
+}
+
+// Save a custom report definition (saving under an existing name overwrites it)
+export async function saveCustomReport(req, res, pool) {
+    try {
+        const { name, description, definition } = req.body;
+
+        if (!name || !name.trim()) {
+            return res.status(400).json({ error: 'Report name is required' });
+        }
+
+        if (name.trim().length > 100) {
+            return res.status(400).json({ error: 'Report name cannot exceed 100 characters' });
+        }
+
+        const validationError = validateReportDefinition(definition);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        if (!canUseSource(req.user, definition)) {
+            return res.status(403).json({ error: 'Admin access required for this data source' });
+        }
+
+        const result = await pool.query(
+            `INSERT INTO saved_reports (name, description, definition, created_by)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT (name) DO UPDATE SET
+                description = EXCLUDED.description,
+                definition = EXCLUDED.definition,
+                updated_at = CURRENT_TIMESTAMP
+             WHERE $5 OR saved_reports.created_by = $4
+             RETURNING *`,
+            [name.trim(), description || null, JSON.stringify(definition), req.user.id, req.user.role === 'admin']
+        );
+
+        // Managers cannot overwrite someone else's report
+        if (result.rows.length === 0) {
+            return res.status(403).json({ error: 'A report with this name already exists' });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'save_report', `Saved custom report: ${name.trim()}`]
+        );
+
+        res.json({ message: 'Report saved', report: result.rows[0] });
+    } catch (error) {
+        console.error('❌ Error saving custom report:', error);
+        res.status(500).json({ error: 'Failed to save report' });
+    }
+}
+
+// Delete a saved custom report definition
+export async function deleteSavedReport(req, res, pool) {
+    try {
+        const { id } = req.params;
+
+        // Managers can only delete reports they saved
+        const result = await pool.query(
+            `DELETE FROM saved_reports
+             WHERE id = $1 AND ($2 OR created_by = $3)
+             RETURNING name`,
+            [id, req.user.role === 'admin', req.user.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Saved report not found' });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'delete_report', `Deleted custom report: ${result.rows[0].name}`]
+        );
+
+        res.json({ message: 'Report deleted' });
+    } catch (error) {
+        console.error('❌ Error deleting saved report:', error);
+        res.status(500).json({ error: 'Failed to delete report' });
+    }
 }
 
@@ -10,6 +10,9 @@ import {
     autoFitColumns,
     addFooter,
     formatTime,
+    formatCheckinMethod,
+    flagUnverifiedCheckin,
+    formatShiftMinutes,
     calculateHours,
     calculateWorkingDays,
     isWeekend,
@@ -83,7 +86,10 @@ export async function generateIndividualReport(employeeData, attendanceData, dat
         ['Attendance Rate', `${stats.attendanceRate}%`],
         ['Average Hours/Day', stats.avgHours],
         ['Total Hours Worked', stats.totalHours],
-        ['On-Time Arrivals', `${stats.punctualityScore}%`]
+        ['On-Time Arrivals', `${stats.punctualityScore}%`],
+        ['Late Arrivals', stats.lateDays],
+        ['Overtime Hours', stats.overtimeHours],
+        ['Unverified Check-ins', stats.unverifiedCheckins]
     ];
 
     statsData.forEach(([label, value]) => {
@@ -104,7 +110,7 @@ export async function generateIndividualReport(employeeData, attendanceData, dat
     currentRow += 2; // Spacing
 
     // Daily Attendance Table
-    worksheet.mergeCells(currentRow, 1, currentRow, 8);
+    worksheet.mergeCells(currentRow, 1, currentRow, 12);
     worksheet.getCell(currentRow, 1).value = 'DAILY ATTENDANCE BREAKDOWN';
     worksheet.getCell(currentRow, 1).font = { bold: true, size: 12 };
     worksheet.getCell(currentRow, 1).fill = {
@@ -116,7 +122,8 @@ export async function generateIndividualReport(employeeData, attendanceData, dat
 
     // Table headers
     const headerRow = worksheet.getRow(currentRow);
-    const headers = ['Date', 'Day', 'Status', 'Check-in', 'Check-out', 'Hours', 'Notes', 'Remarks'];
+    const headers = ['Date', 'Day', 'Status', 'Check-in', 'Check-out', 'Hours', 'Notes', 'Remarks', 'Check-in Via',
+        'Late (min)', 'Early Out (min)', 'Overtime (min)'];
     headers.forEach((header, index) => {
         headerRow.getCell(index + 1).value = header;
     });
@@ -144,10 +151,12 @@ export async function generateIndividualReport(employeeData, attendanceData, dat
         row.getCell(6).value = hours > 0 ? hours.toFixed(2) : '-';
         row.getCell(7).value = record.notes || '';
 
-        // Remarks column
+        // Remarks column (days recorded before shifts fall back to a 9:30 start)
         let remarks = '';
         if (isWeekend(date)) {
             remarks = 'Weekend';
+        } else if (record.late_minutes != null) {
+            remarks = record.late_minutes > 0 ? 'Late' : '';
         } else if (record.work_hours_start) {
             const [hour] = record.work_hours_start.split(':').map(Number);
             if (hour > 9 || (hour === 9 && parseInt(record.work_hours_start.split(':')[1]) > 30)) {
@@ -155,6 +164,11 @@ export async function generateIndividualReport(employeeData, attendanceData, dat
             }
         }
         row.getCell(8).value = remarks;
+        row.getCell(9).value = formatCheckinMethod(record);
+        flagUnverifiedCheckin(row.getCell(9), record);
+        row.getCell(10).value = formatShiftMinutes(record.late_minutes);
+        row.getCell(11).value = formatShiftMinutes(record.early_leave_minutes);
+        row.getCell(12).value = formatShiftMinutes(record.overtime_minutes);
 
         // Color code status cell
         if (record.status) {
@@ -163,7 +177,7 @@ export async function generateIndividualReport(employeeData, attendanceData, dat
 
         // Highlight weekends
         if (isWeekend(date)) {
-            for (let col = 1; col <= 8; col++) {
+            for (let col = 1; col <= 12; col++) {
                 row.getCell(col).fill = {
                     type: 'pattern',
                     pattern: 'solid',
@@ -176,7 +190,7 @@ export async function generateIndividualReport(employeeData, attendanceData, dat
     });
 
     // Apply borders to table
-    applyBorders(worksheet, tableStartRow - 1, 1, currentRow - 1, 8);
+    applyBorders(worksheet, tableStartRow - 1, 1, currentRow - 1, 12);
 
     // Auto-fit columns with better widths
     worksheet.columns = [
@@ -187,12 +201,16 @@ export async function generateIndividualReport(employeeData, attendanceData, dat
         { key: 'checkout', width: 12 },
         { key: 'hours', width: 10 },
         { key: 'notes', width: 35 },
-        { key: 'remarks', width: 12 }
+        { key: 'remarks', width: 12 },
+        { key: 'checkin_via', width: 24 },
+        { key: 'late', width: 12 },
+        { key: 'early_out', width: 15 },
+        { key: 'overtime', width: 15 }
     ];
 
     // Apply text wrapping and alignment to all data cells
     for (let row = tableStartRow; row < currentRow; row++) {
-        for (let col = 1; col <= 8; col++) {
+        for (let col = 1; col <= 12; col++) {
             const cell = worksheet.getRow(row).getCell(col);
             cell.alignment = {
                 vertical: 'middle',
@@ -230,8 +248,18 @@ function calculateStatistics(attendanceData, dateRange) {
     let totalHours = 0;
     let onTimeArrival = 0;
     let daysWithData = 0;
+    let unverifiedCheckins = 0;
+    let lateDays = 0;
+    let overtimeMinutes = 0;
 
     attendanceData.forEach(record => {
+        if (record.checkin_verified === false) {
+            unverifiedCheckins++;
+        }
+
+        if (record.late_minutes > 0) lateDays++;
+        overtimeMinutes += record.overtime_minutes || 0;
+
         if (record.status) {
             daysWithData++;
             switch (record.status.toLowerCase()) {
@@ -247,9 +275,9 @@ function calculateStatistics(attendanceData, dateRange) {
                 const hours = calculateHours(record.work_hours_start, record.work_hours_end);
                 totalHours += hours;
 
-                // Check punctuality (on-time if started by 9:30 AM)
+                // Check punctuality against the shift, or a 9:30 AM start for older days
                 const [hour, minute] = record.work_hours_start.split(':').map(Number);
-                if (hour < 9 || (hour === 9 && minute <= 30)) {
+                if (record.late_minutes != null ? record.late_minutes === 0 : (hour < 9 || (hour === 9 && minute <= 30))) {
                     onTimeArrival++;
                 }
             }
@@ -279,6 +307,9 @@ function calculateStatistics(attendanceData, dateRange) {
         attendanceRate: parseFloat(attendanceRate),
         avgHours: parseFloat(avgHours),
         totalHours: totalHours.toFixed(2),
-        punctualityScore: parseFloat(punctualityScore)
+        punctualityScore: parseFloat(punctualityScore),
+        lateDays,
+        overtimeHours: (overtimeMinutes / 60).toFixed(2),
+        unverifiedCheckins
     };
 }
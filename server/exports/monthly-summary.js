@@ -14,7 +14,8 @@ import {
     workbookToBuffer
 } from './excel-generator.js';
 
-export async function generateMonthlySummary(pool, year, month) {
+// options.userIds limits the report to those employees (a manager's team)
+export async function generateMonthlySummary(pool, year, month, options = {}) {
     const workbook = createWorkbook();
     const worksheet = workbook.addWorksheet('Monthly Summary');
 
@@ -39,8 +40,10 @@ export async function generateMonthlySummary(pool, year, month) {
     const employeesResult = await pool.query(
         `SELECT id, full_name, employee_id, department
          FROM users
-         WHERE role = 'employee'
-         ORDER BY full_name ASC`
+         WHERE role IN ('employee', 'manager')
+           AND ($1::int[] IS NULL OR id = ANY($1))
+         ORDER BY full_name ASC`,
+        [options.userIds || null]
     );
 
     const employees = employeesResult.rows;
@@ -0,0 +1,396 @@
+// Payroll Report Generator
+// One workbook per pay period: attendance, approved payable overtime,
+// decrypted salary payments, approved site visit reimbursements and
+// loss-of-pay days
+
+import {
+    createWorkbook,
+    addCompanyHeader,
+    styleHeaderRow,
+    applyBorders,
+    addFooter,
+    calculateHours,
+    calculateWorkingDays,
+    generateFilename,
+    workbookToBuffer
+} from './excel-generator.js';
+import { decryptAmount } from '../encryption.js';
+import { getHolidaysByUser } from '../holiday-routes.js';
+import { toDateString } from '../date-utils.js';
+
+const CURRENCY_FORMAT = '₹#,##0.00';
+
+// Payment types grouped into payroll columns
+const PAYMENT_BUCKETS = {
+    salary: 'salary',
+    bonus: 'bonus',
+    incentive: 'bonus',
+    advance: 'advance',
+    reimbursement: 'recordedReimbursement',
+    other: 'other'
+};
+
+function round2(value) {
+    return parseFloat(value.toFixed(2));
+}
+
+export async function generatePayrollReport(pool, year, month) {
+    const workbook = createWorkbook();
+
+    const payMonth = `${year}-${String(month).padStart(2, '0')}`;
+    const startDate = `${payMonth}-01`;
+    const endDate = toDateString(new Date(year, month, 0));
+    const monthName = new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+    const employeesResult = await pool.query(
+        `SELECT u.id, u.full_name, u.employee_id, u.department,
+                COALESCE(us.annual_leave_quota, 0) as annual_leave_quota,
+                COALESCE(us.leaves_taken, 0) as leaves_taken
+         FROM users u
+         LEFT JOIN user_settings us ON us.user_id = u.id
+         WHERE u.role IS NOT NULL AND u.is_active = true
+         ORDER BY u.department NULLS LAST, u.full_name ASC`
+    );
+
+    const employees = employeesResult.rows;
+
+    if (employees.length === 0) {
+        throw new Error('No employees found');
+    }
+
+    const [attendanceResult, holidaysByUser, companyHolidaysResult, paymentsResult, expensesResult, overtimeResult] = await Promise.all([
+        pool.query(
+            `SELECT user_id, date, status, work_hours_start, work_hours_end
+             FROM attendance
+             WHERE date BETWEEN $1 AND $2`,
+            [startDate, endDate]
+        ),
+        getHolidaysByUser(pool, employees.map(emp => emp.id), startDate, endDate),
+        pool.query(
+            `SELECT DISTINCT e.holiday_date
+             FROM expand_holidays($1::date, $2::date) e
+             JOIN holiday_calendars c ON c.id = e.calendar_id AND c.is_default = true
+             WHERE EXTRACT(DOW FROM e.holiday_date) NOT IN (0, 6)`,
+            [startDate, endDate]
+        ),
+        pool.query(
+            `SELECT id, user_id, encrypted_amount, payment_date, payment_type, notes
+             FROM salary_payments
+             WHERE payment_month = $1
+             ORDER BY payment_date ASC`,
+            [payMonth]
+        ),
+        pool.query(
+            `SELECT svd.id, svd.user_id, svd.visit_date, svd.location, svd.company_name,
+                    COALESCE(SUM(sve.amount), 0) as total_amount
+             FROM site_visit_details svd
+             LEFT JOIN site_visit_expenses sve ON sve.site_visit_id = svd.id
+             WHERE svd.status = 'approved' AND svd.visit_date BETWEEN $1 AND $2
+             GROUP BY svd.id
+             ORDER BY svd.visit_date ASC`,
+            [startDate, endDate]
+        ),
+        pool.query(
+            `SELECT user_id, SUM(approved_minutes) as minutes
+             FROM overtime_requests
+             WHERE status = 'approved' AND compensation = 'payable'
+               AND attendance_date BETWEEN $1 AND $2
+             GROUP BY user_id`,
+            [startDate, endDate]
+        )
+    ]);
+
+    // Summary figures use the company calendar; each line uses the employee's own calendars
+    const weekdays = calculateWorkingDays(startDate, endDate);
+    const workingDays = weekdays - companyHolidaysResult.rows.length;
+
+    const weekdayHolidayCount = (userId) => [...holidaysByUser.get(userId).keys()]
+        .filter(date => ![0, 6].includes(new Date(`${date}T00:00:00`).getDay()))
+        .length;
+
+    // Build per-employee payroll lines
+    const lines = new Map(employees.map(emp => [emp.id, {
+        employee: emp,
+        workingDays: weekdays - weekdayHolidayCount(emp.id),
+        present: 0,
+        wfh: 0,
+        halfDay: 0,
+        onLeave: 0,
+        absent: 0,
+        markedDays: 0,
+        hours: 0,
+        overtimeHours: 0,
+        salary: 0,
+        bonus: 0,
+        advance: 0,
+        recordedReimbursement: 0,
+        other: 0,
+        expenseReimbursement: 0
+    }]));
+
+    attendanceResult.rows.forEach(record => {
+        const line = lines.get(record.user_id);
+        if (!line) return;
+
+        line.markedDays++;
+        switch (record.status?.toLowerCase()) {
+            case 'present': line.present++; break;
+            case 'wfh': line.wfh++; break;
+            case 'half_day': line.halfDay++; break;
+            case 'on_leave':
+            case 'leave': line.onLeave++; break;
+            case 'absent': line.absent++; break;
+        }
+
+        line.hours += calculateHours(record.work_hours_start, record.work_hours_end);
+    });
+
+    const paymentDetails = [];
+    paymentsResult.rows.forEach(payment => {
+        const line = lines.get(payment.user_id);
+        if (!line) return;
+
+        const amount = decryptAmount(payment.encrypted_amount);
+        const bucket = PAYMENT_BUCKETS[payment.payment_type] || 'other';
+        line[bucket] += amount;
+
+        paymentDetails.push({ employee: line.employee, payment, amount });
+    });
+
+    expensesResult.rows.forEach(visit => {
+        const line = lines.get(visit.user_id);
+        if (line) line.expenseReimbursement += parseFloat(visit.total_amount);
+    });
+
+    overtimeResult.rows.forEach(overtime => {
+        const line = lines.get(overtime.user_id);
+        if (line) line.overtimeHours = parseInt(overtime.minutes) / 60;
+    });
+
+    // Loss of pay: absences beyond the remaining annual leave balance
+    lines.forEach(line => {
+        const { annual_leave_quota, leaves_taken } = line.employee;
+        line.leaveBalance = Math.max(annual_leave_quota - leaves_taken, 0);
+        line.absenceDays = line.absent + line.halfDay * 0.5;
+        line.lopDays = Math.max(line.absenceDays - line.leaveBalance, 0);
+        line.lopDeduction = line.workingDays > 0 ? round2(line.salary / line.workingDays * line.lopDays) : 0;
+        line.netPayable = round2(
+            line.salary - line.lopDeduction + line.bonus + line.other +
+            line.expenseReimbursement + line.recordedReimbursement - line.advance
+        );
+    });
+
+    const subtitle = `Pay Period: ${monthName} (${startDate} to ${endDate})`;
+
+    // ==================== PAYROLL SHEET ====================
+    const payrollSheet = workbook.addWorksheet('Payroll');
+    addCompanyHeader(payrollSheet, 'PAYROLL REPORT', subtitle);
+    let currentRow = 5;
+
+    payrollSheet.getCell(currentRow, 1).value = 'Working Days (Company Calendar):';
+    payrollSheet.getCell(currentRow, 1).font = { bold: true };
+    payrollSheet.getCell(currentRow, 2).value = workingDays;
+    currentRow++;
+
+    payrollSheet.getCell(currentRow, 1).value = 'Holidays on Weekdays:';
+    payrollSheet.getCell(currentRow, 1).font = { bold: true };
+    payrollSheet.getCell(currentRow, 2).value = companyHolidaysResult.rows.length;
+    currentRow += 2;
+
+    const headers = [
+        'Employee ID', 'Name', 'Department', 'Present', 'WFH', 'Half Day', 'Leave', 'Absent',
+        'Unmarked', 'Hours Worked', 'OT Hours', 'Leave Balance', 'LOP Days', 'Salary (₹)', 'LOP Deduction (₹)',
+        'Bonus/Incentive (₹)', 'Other (₹)', 'Expense Reimbursement (₹)', 'Recorded Reimbursement (₹)',
+        'Advance (₹)', 'Net Payable (₹)'
+    ];
+    const currencyColumns = [14, 15, 16, 17, 18, 19, 20, 21];
+
+    const headerRow = payrollSheet.getRow(currentRow);
+    headers.forEach((header, index) => {
+        headerRow.getCell(index + 1).value = header;
+    });
+    styleHeaderRow(headerRow, headers.length);
+    currentRow++;
+
+    const tableStartRow = currentRow;
+    const totals = {
+        overtimeHours: 0, salary: 0, lopDeduction: 0, bonus: 0, other: 0,
+        expenseReimbursement: 0, recordedReimbursement: 0, advance: 0, netPayable: 0
+    };
+
+    lines.forEach(line => {
+        const emp = line.employee;
+        const row = payrollSheet.getRow(currentRow);
+        row.height = 20;
+
+        row.values = [
+            emp.employee_id,
+            emp.full_name,
+            emp.department || 'N/A',
+            line.present,
+            line.wfh,
+            line.halfDay,
+            line.onLeave,
+            line.absent,
+            Math.max(line.workingDays - line.markedDays, 0),
+            round2(line.hours),
+            round2(line.overtimeHours),
+            line.leaveBalance,
+            line.lopDays,
+            round2(line.salary),
+            line.lopDeduction,
+            round2(line.bonus),
+            round2(line.other),
+            round2(line.expenseReimbursement),
+            round2(line.recordedReimbursement),
+            round2(line.advance),
+            line.netPayable
+        ];
+
+        for (let col = 1; col <= headers.length; col++) {
+            row.getCell(col).alignment = { vertical: 'middle', horizontal: col <= 3 ? 'left' : 'center' };
+        }
+        currencyColumns.forEach(col => {
+            row.getCell(col).numFmt = CURRENCY_FORMAT;
+        });
+
+        if (line.lopDays > 0) {
+            row.getCell(13).font = { bold: true, color: { argb: 'FFD32F2F' } };
+        }
+
+        Object.keys(totals).forEach(key => {
+            totals[key] += line[key];
+        });
+
+        currentRow++;
+    });
+
+    // Totals row
+    const totalRow = payrollSheet.getRow(currentRow);
+    totalRow.getCell(1).value = 'TOTAL';
+    totalRow.getCell(11).value = round2(totals.overtimeHours);
+    totalRow.getCell(14).value = round2(totals.salary);
+    totalRow.getCell(15).value = round2(totals.lopDeduction);
+    totalRow.getCell(16).value = round2(totals.bonus);
+    totalRow.getCell(17).value = round2(totals.other);
+    totalRow.getCell(18).value = round2(totals.expenseReimbursement);
+    totalRow.getCell(19).value = round2(totals.recordedReimbursement);
+    totalRow.getCell(20).value = round2(totals.advance);
+    totalRow.getCell(21).value = round2(totals.netPayable);
+    totalRow.font = { bold: true };
+    totalRow.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFE0E0E0' }
+    };
+    currencyColumns.forEach(col => {
+        totalRow.getCell(col).numFmt = CURRENCY_FORMAT;
+    });
+
+    applyBorders(payrollSheet, tableStartRow - 1, 1, currentRow, headers.length);
+    currentRow += 2;
+
+    const notes = [
+        'OT Hours = approved overtime to be paid; overtime taken as comp-off is not included.',
+        'LOP Days = absences (half days count 0.5) beyond the remaining annual leave balance.',
+        'LOP Deduction = Salary ÷ Working Days × LOP Days.',
+        'Expense Reimbursement = approved site visit expenses; Recorded Reimbursement = salary payments entered with type "reimbursement".',
+        'Net Payable = Salary − LOP Deduction + Bonus/Incentive + Other + Expense Reimbursement + Recorded Reimbursement − Advance.'
+    ];
+    notes.forEach(note => {
+        payrollSheet.getCell(currentRow, 1).value = note;
+        payrollSheet.getCell(currentRow, 1).font = { italic: true, size: 9, color: { argb: 'FF666666' } };
+        currentRow++;
+    });
+
+    payrollSheet.columns = [
+        { key: 'emp_id', width: 15 },
+        { key: 'name', width: 25 },
+        { key: 'dept', width: 18 },
+        ...headers.slice(3, 13).map(() => ({ width: 11 })),
+        ...headers.slice(13).map(() => ({ width: 18 }))
+    ];
+
+    currentRow++;
+    addFooter(payrollSheet, currentRow);
+
+    // ==================== PAYMENTS SHEET ====================
+    const paymentsSheet = workbook.addWorksheet('Payments');
+    addCompanyHeader(paymentsSheet, 'SALARY PAYMENTS', subtitle);
+    currentRow = 5;
+
+    const paymentHeaders = ['Employee ID', 'Name', 'Payment Date', 'Type', 'Amount (₹)', 'Notes'];
+    const paymentHeaderRow = paymentsSheet.getRow(currentRow);
+    paymentHeaders.forEach((header, index) => {
+        paymentHeaderRow.getCell(index + 1).value = header;
+    });
+    styleHeaderRow(paymentHeaderRow, paymentHeaders.length);
+    currentRow++;
+
+    const paymentsStartRow = currentRow;
+    paymentDetails.forEach(({ employee, payment, amount }) => {
+        const row = paymentsSheet.getRow(currentRow);
+        row.values = [
+            employee.employee_id,
+            employee.full_name,
+            new Date(payment.payment_date).toLocaleDateString('en-IN'),
+            payment.payment_type,
+            amount,
+            payment.notes || ''
+        ];
+        row.getCell(5).numFmt = CURRENCY_FORMAT;
+        currentRow++;
+    });
+
+    applyBorders(paymentsSheet, paymentsStartRow - 1, 1, Math.max(currentRow - 1, paymentsStartRow - 1), paymentHeaders.length);
+
+    paymentsSheet.columns = [
+        { width: 15 }, { width: 25 }, { width: 14 }, { width: 15 }, { width: 15 }, { width: 35 }
+    ];
+
+    addFooter(paymentsSheet, currentRow + 1);
+
+    // ==================== REIMBURSEMENTS SHEET ====================
+    const reimbursementSheet = workbook.addWorksheet('Reimbursements');
+    addCompanyHeader(reimbursementSheet, 'APPROVED SITE VISIT EXPENSES', subtitle);
+    currentRow = 5;
+
+    const reimbursementHeaders = ['Employee ID', 'Name', 'Visit Date', 'Location', 'Company', 'Amount (₹)'];
+    const reimbursementHeaderRow = reimbursementSheet.getRow(currentRow);
+    reimbursementHeaders.forEach((header, index) => {
+        reimbursementHeaderRow.getCell(index + 1).value = header;
+    });
+    styleHeaderRow(reimbursementHeaderRow, reimbursementHeaders.length);
+    currentRow++;
+
+    const reimbursementStartRow = currentRow;
+    expensesResult.rows.forEach(visit => {
+        const line = lines.get(visit.user_id);
+        if (!line) return;
+
+        const row = reimbursementSheet.getRow(currentRow);
+        row.values = [
+            line.employee.employee_id,
+            line.employee.full_name,
+            new Date(visit.visit_date).toLocaleDateString('en-IN'),
+            visit.location,
+            visit.company_name || '',
+            parseFloat(visit.total_amount)
+        ];
+        row.getCell(6).numFmt = CURRENCY_FORMAT;
+        currentRow++;
+    });
+
+    applyBorders(reimbursementSheet, reimbursementStartRow - 1, 1, Math.max(currentRow - 1, reimbursementStartRow - 1), reimbursementHeaders.length);
+
+    reimbursementSheet.columns = [
+        { width: 15 }, { width: 25 }, { width: 14 }, { width: 30 }, { width: 25 }, { width: 15 }
+    ];
+
+    addFooter(reimbursementSheet, currentRow + 1);
+
+    const buffer = await workbookToBuffer(workbook);
+    const filename = generateFilename('Payroll_Report', '', payMonth);
+
+    return { buffer, filename };
+}
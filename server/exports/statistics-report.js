@@ -0,0 +1,325 @@
+// Statistics Report Generator
+// Attendance rates per employee and department, late arrivals, average hours,
+// plus plain chart-ready tables
+
+import {
+    createWorkbook,
+    addCompanyHeader,
+    styleHeaderRow,
+    applyBorders,
+    addFooter,
+    calculateHours,
+    calculateWorkingDays,
+    generateFilename,
+    workbookToBuffer
+} from './excel-generator.js';
+
+// Check-ins after this time (HH:MM) count as late arrivals
+const DEFAULT_LATE_AFTER = process.env.LATE_ARRIVAL_TIME || '09:30';
+
+const WORKED_STATUSES = ['present', 'wfh', 'half_day'];
+
+// Fresh counters for one employee or department
+function emptyStats() {
+    return {
+        present: 0,
+        wfh: 0,
+        halfDay: 0,
+        onLeave: 0,
+        absent: 0,
+        markedDays: 0,
+        lateArrivals: 0,
+        totalHours: 0,
+        daysWithHours: 0
+    };
+}
+
+// Attendance rate counts WFH as attended and half days as 0.5
+function attendanceRate(stats) {
+    if (stats.markedDays === 0) return 0;
+    const attended = stats.present + stats.wfh + stats.halfDay * 0.5;
+    return parseFloat((100 * attended / stats.markedDays).toFixed(2));
+}
+
+function averageHours(stats) {
+    if (stats.daysWithHours === 0) return 0;
+    return parseFloat((stats.totalHours / stats.daysWithHours).toFixed(2));
+}
+
+function addRecord(stats, record, lateAfter) {
+    stats.markedDays++;
+
+    switch (record.status?.toLowerCase()) {
+        case 'present': stats.present++; break;
+        case 'wfh': stats.wfh++; break;
+        case 'half_day': stats.halfDay++; break;
+        case 'on_leave':
+        case 'leave': stats.onLeave++; break;
+        case 'absent': stats.absent++; break;
+    }
+
+    if (!WORKED_STATUSES.includes(record.status)) return;
+
+    if (record.work_hours_start && record.work_hours_start.substring(0, 5) > lateAfter) {
+        stats.lateArrivals++;
+    }
+
+    const hours = calculateHours(record.work_hours_start, record.work_hours_end);
+    if (hours > 0) {
+        stats.totalHours += hours;
+        stats.daysWithHours++;
+    }
+}
+
+function mergeStats(target, source) {
+    Object.keys(source).forEach(key => {
+        target[key] += source[key];
+    });
+}
+
+// Section heading used across sheets
+function addSectionHeading(worksheet, rowNumber, text, width) {
+    worksheet.mergeCells(rowNumber, 1, rowNumber, width);
+    const cell = worksheet.getCell(rowNumber, 1);
+    cell.value = text;
+    cell.font = { bold: true, size: 12 };
+    cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFE0E0E0' }
+    };
+}
+
+// Writes a header + rows table, returns the next free row
+function addTable(worksheet, startRow, headers, rows) {
+    const headerRow = worksheet.getRow(startRow);
+    headers.forEach((header, index) => {
+        headerRow.getCell(index + 1).value = header;
+    });
+    styleHeaderRow(headerRow, headers.length);
+
+    let currentRow = startRow + 1;
+    rows.forEach(values => {
+        const row = worksheet.getRow(currentRow);
+        row.height = 20;
+        values.forEach((value, index) => {
+            row.getCell(index + 1).value = value;
+            row.getCell(index + 1).alignment = { vertical: 'middle', horizontal: 'center' };
+        });
+        currentRow++;
+    });
+
+    applyBorders(worksheet, startRow, 1, currentRow - 1, headers.length);
+    return currentRow;
+}
+
+// options.userIds limits the report to those employees (a manager's team)
+export async function generateStatisticsReport(pool, dateRange, options = {}) {
+    const lateAfter = options.lateAfter || DEFAULT_LATE_AFTER;
+    const workbook = createWorkbook();
+
+    const employeesResult = await pool.query(
+        `SELECT id, full_name, employee_id, department
+         FROM users
+         WHERE role IN ('employee', 'manager') AND is_active = true
+           AND ($1::int[] IS NULL OR id = ANY($1))
+         ORDER BY department NULLS LAST, full_name ASC`,
+        [options.userIds || null]
+    );
+
+    const employees = employeesResult.rows;
+
+    if (employees.length === 0) {
+        throw new Error('No employees found');
+    }
+
+    const attendanceResult = await pool.query(
+        `SELECT a.user_id, a.status, a.work_hours_start, a.work_hours_end
+         FROM attendance a
+         JOIN users u ON a.user_id = u.id
+         WHERE u.role IN ('employee', 'manager') AND u.is_active = true
+           AND a.date BETWEEN $1 AND $2
+           AND ($3::int[] IS NULL OR a.user_id = ANY($3))`,
+        [dateRange.startDate, dateRange.endDate, options.userIds || null]
+    );
+
+    // Aggregate per employee
+    const employeeStats = new Map(employees.map(emp => [emp.id, emptyStats()]));
+    attendanceResult.rows.forEach(record => {
+        const stats = employeeStats.get(record.user_id);
+        if (stats) addRecord(stats, record, lateAfter);
+    });
+
+    // Roll up per department
+    const departmentStats = new Map();
+    const departmentHeadcount = new Map();
+    const overall = emptyStats();
+
+    employees.forEach(emp => {
+        const dept = emp.department || 'Unassigned';
+        if (!departmentStats.has(dept)) {
+            departmentStats.set(dept, emptyStats());
+            departmentHeadcount.set(dept, 0);
+        }
+        mergeStats(departmentStats.get(dept), employeeStats.get(emp.id));
+        departmentHeadcount.set(dept, departmentHeadcount.get(dept) + 1);
+        mergeStats(overall, employeeStats.get(emp.id));
+    });
+
+    const subtitle = `${dateRange.startDate} to ${dateRange.endDate}`;
+
+    // ==================== OVERVIEW SHEET ====================
+    const overviewSheet = workbook.addWorksheet('Overview');
+    addCompanyHeader(overviewSheet, 'ATTENDANCE STATISTICS REPORT', subtitle);
+    let row = 5;
+
+    addSectionHeading(overviewSheet, row, 'SUMMARY STATISTICS', 4);
+    row++;
+
+    const summary = [
+        ['Active Employees:', employees.length],
+        ['Departments:', departmentStats.size],
+        ['Working Days in Range:', calculateWorkingDays(dateRange.startDate, dateRange.endDate)],
+        ['Overall Attendance Rate (%):', attendanceRate(overall)],
+        ['Average Hours per Day:', averageHours(overall)],
+        [`Late Arrivals (after ${lateAfter}):`, overall.lateArrivals]
+    ];
+
+    summary.forEach(([label, value]) => {
+        overviewSheet.getCell(row, 1).value = label;
+        overviewSheet.getCell(row, 1).font = { bold: true };
+        overviewSheet.getCell(row, 2).value = value;
+        row++;
+    });
+
+    row++;
+    addSectionHeading(overviewSheet, row, 'STATUS BREAKDOWN', 4);
+    row++;
+
+    row = addTable(overviewSheet, row, ['Status', 'Days', 'Share (%)'], [
+        ['Present', overall.present],
+        ['WFH', overall.wfh],
+        ['Half Day', overall.halfDay],
+        ['Leave', overall.onLeave],
+        ['Absent', overall.absent]
+    ].map(([label, days]) => [
+        label,
+        days,
+        overall.markedDays ? parseFloat((100 * days / overall.markedDays).toFixed(2)) : 0
+    ]));
+
+    row++;
+    overviewSheet.getCell(row, 1).value = 'Attendance rate counts WFH as attended and half days as 0.5 of marked days.';
+    overviewSheet.getCell(row, 1).font = { italic: true, size: 9, color: { argb: 'FF666666' } };
+
+    overviewSheet.columns = [
+        { key: 'label', width: 32 },
+        { key: 'value', width: 14 },
+        { key: 'share', width: 14 },
+        { key: 'spare', width: 14 }
+    ];
+
+    addFooter(overviewSheet, row + 2);
+
+    // ==================== BY EMPLOYEE SHEET ====================
+    const employeeSheet = workbook.addWorksheet('By Employee');
+    addCompanyHeader(employeeSheet, 'ATTENDANCE BY EMPLOYEE', subtitle);
+
+    const employeeHeaders = [
+        'Employee ID', 'Name', 'Department', 'Present', 'WFH', 'Half Day', 'Leave',
+        'Absent', 'Marked Days', 'Attendance Rate (%)', 'Late Arrivals', 'Avg Hours'
+    ];
+
+    const employeeRows = employees.map(emp => {
+        const stats = employeeStats.get(emp.id);
+        return [
+            emp.employee_id,
+            emp.full_name,
+            emp.department || 'N/A',
+            stats.present,
+            stats.wfh,
+            stats.halfDay,
+            stats.onLeave,
+            stats.absent,
+            stats.markedDays,
+            attendanceRate(stats),
+            stats.lateArrivals,
+            averageHours(stats)
+        ];
+    });
+
+    row = addTable(employeeSheet, 5, employeeHeaders, employeeRows);
+
+    employeeSheet.columns = [
+        { key: 'emp_id', width: 15 },
+        { key: 'name', width: 25 },
+        { key: 'dept', width: 18 },
+        ...employeeHeaders.slice(3).map(() => ({ width: 13 }))
+    ];
+
+    addFooter(employeeSheet, row + 1);
+
+    // ==================== BY DEPARTMENT SHEET ====================
+    const departmentSheet = workbook.addWorksheet('By Department');
+    addCompanyHeader(departmentSheet, 'ATTENDANCE BY DEPARTMENT', subtitle);
+
+    const departmentHeaders = [
+        'Department', 'Employees', 'Present', 'WFH', 'Half Day', 'Leave',
+        'Absent', 'Attendance Rate (%)', 'Late Arrivals', 'Avg Hours'
+    ];
+
+    const departmentRows = [...departmentStats.entries()].map(([dept, stats]) => [
+        dept,
+        departmentHeadcount.get(dept),
+        stats.present,
+        stats.wfh,
+        stats.halfDay,
+        stats.onLeave,
+        stats.absent,
+        attendanceRate(stats),
+        stats.lateArrivals,
+        averageHours(stats)
+    ]);
+
+    row = addTable(departmentSheet, 5, departmentHeaders, departmentRows);
+
+    departmentSheet.columns = [
+        { key: 'dept', width: 22 },
+        ...departmentHeaders.slice(1).map(() => ({ width: 14 }))
+    ];
+
+    addFooter(departmentSheet, row + 1);
+
+    // ==================== CHART DATA SHEET ====================
+    // Plain tables starting at A1 so they can be selected directly for charts
+    const chartSheet = workbook.addWorksheet('Chart Data');
+
+    let chartRow = addTable(chartSheet, 1, ['Department', 'Attendance Rate (%)'],
+        departmentRows.map(r => [r[0], r[7]]));
+
+    chartRow++;
+    chartRow = addTable(chartSheet, chartRow, ['Department', 'Present', 'WFH', 'Half Day', 'Leave', 'Absent'],
+        departmentRows.map(r => [r[0], r[2], r[3], r[4], r[5], r[6]]));
+
+    chartRow++;
+    addTable(chartSheet, chartRow, ['Employee', 'Attendance Rate (%)', 'Avg Hours', 'Late Arrivals'],
+        employeeRows.map(r => [r[1], r[9], r[11], r[10]]));
+
+    chartSheet.columns = [
+        { width: 25 },
+        { width: 18 },
+        { width: 12 },
+        { width: 14 },
+        { width: 10 },
+        { width: 10 }
+    ];
+
+    const buffer = await workbookToBuffer(workbook);
+    const filename = generateFilename(
+        'Statistics_Report',
+        '',
+        `${dateRange.startDate}_to_${dateRange.endDate}`
+    );
+
+    return { buffer, filename };
+}
@@ -0,0 +1,261 @@
+// File Storage
+// One place to keep uploaded files: task attachments, emailed attachments
+// and expense receipts. Files live on local disk (default) or in an
+// S3-compatible bucket, chosen by STORAGE_DRIVER. Every upload goes through
+// the same size/type limits and virus-scan hooks before it is stored.
+
+import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import multer from 'multer';
+
+const STORAGE_DRIVER = process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local';
+
+const LOCAL_DIR = path.resolve(process.env.ATTACHMENT_STORAGE_DIR || './uploads');
+
+export const MAX_UPLOAD_BYTES = (parseInt(process.env.ATTACHMENT_MAX_MB) || 10) * 1024 * 1024;
+
+// PDFs, images, office documents, text/CSV and zip archives
+const DEFAULT_ALLOWED_TYPES = [
+    'application/pdf',
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/heic',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain', 'text/csv',
+    'application/zip'
+];
+
+const ALLOWED_TYPES = process.env.ATTACHMENT_ALLOWED_TYPES
+    ? process.env.ATTACHMENT_ALLOWED_TYPES.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_ALLOWED_TYPES;
+
+/**
+ * Rejected upload (bad type, too big, failed scan); carries an HTTP status
+ */
+export class UploadError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.status = status;
+    }
+}
+
+// ============================================================
+// DRIVERS
+// ============================================================
+
+function localPath(key) {
+    const resolved = path.resolve(LOCAL_DIR, key);
+    if (!resolved.startsWith(LOCAL_DIR + path.sep)) {
+        throw new Error(`Storage key escapes the storage directory: ${key}`);
+    }
+    return resolved;
+}
+
+const localDriver = {
+    async put(key, buffer) {
+        const filePath = localPath(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, buffer);
+    },
+
+    async getStream(key) {
+        const filePath = localPath(key);
+        await fs.access(filePath);
+        return createReadStream(filePath);
+    },
+
+    async remove(key) {
+        await fs.rm(localPath(key), { force: true });
+    }
+};
+
+// The AWS SDK is only loaded when the S3 driver is selected
+let s3State = null;
+
+async function s3() {
+    if (!s3State) {
+        const sdk = await import('@aws-sdk/client-s3');
+        s3State = {
+            sdk,
+            bucket: process.env.S3_BUCKET,
+            client: new sdk.S3Client({
+                region: process.env.S3_REGION || 'us-east-1',
+                endpoint: process.env.S3_ENDPOINT || undefined,
+                forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+                credentials: process.env.S3_ACCESS_KEY_ID
+                    ? {
+                        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+                    }
+                    : undefined
+            })
+        };
+    }
+    return s3State;
+}
+
+const s3Driver = {
+    async put(key, buffer, contentType) {
+        const { sdk, client, bucket } = await s3();
+        await client.send(new sdk.PutObjectCommand({
+            Bucket: bucket,
+            Key: key,
+            Body: buffer,
+            ContentType: contentType
+        }));
+    },
+
+    async getStream(key) {
+        const { sdk, client, bucket } = await s3();
+        const result = await client.send(new sdk.GetObjectCommand({ Bucket: bucket, Key: key }));
+        return result.Body;
+    },
+
+    async remove(key) {
+        const { sdk, client, bucket } = await s3();
+        await client.send(new sdk.DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    }
+};
+
+const driver = STORAGE_DRIVER === 's3' ? s3Driver : localDriver;
+
+// ============================================================
+// VIRUS SCAN HOOKS
+// ============================================================
+
+const scanHooks = [];
+
+/**
+ * Add a check every upload must pass. The hook gets
+ * (buffer, { fileName, contentType }) and returns nothing when clean or a
+ * reason string to reject the file; throwing also rejects it.
+ */
+export function registerScanHook(hook) {
+    scanHooks.push(hook);
+}
+
+// ATTACHMENT_SCAN_COMMAND (e.g. "clamdscan --no-summary -") reads the file on
+// stdin; exit code 0 is clean, 1 is infected, anything else is a scan failure
+if (process.env.ATTACHMENT_SCAN_COMMAND) {
+    const [command, ...args] = process.env.ATTACHMENT_SCAN_COMMAND.split(/\s+/);
+
+    registerScanHook((buffer) => new Promise((resolve, reject) => {
+        const scanner = spawn(command, args, { stdio: ['pipe', 'pipe', 'ignore'] });
+        let output = '';
+
+        scanner.stdout.on('data', chunk => { output += chunk; });
+        scanner.on('error', reject);
+        scanner.on('close', code => {
+            if (code === 0) resolve();
+            else if (code === 1) resolve(output.trim() || 'Virus detected');
+            else reject(new Error(`Virus scanner exited with code ${code}`));
+        });
+
+        scanner.stdin.on('error', () => {});
+        scanner.stdin.end(buffer);
+    }));
+}
+
+async function runScanHooks(buffer, meta) {
+    for (const hook of scanHooks) {
+        let reason;
+        try {
+            reason = await hook(buffer, meta);
+        } catch (error) {
+            console.error('❌ Upload scan failed:', error);
+            throw new UploadError('File could not be scanned; try again later', 503);
+        }
+        if (reason) {
+            console.log(`🦠 Rejected upload ${meta.fileName}: ${reason}`);
+            throw new UploadError('File rejected by virus scan');
+        }
+    }
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+function safeFileName(name) {
+    return (name || 'file').replace(/[^\w.-]+/g, '_').substring(0, 120);
+}
+
+export function isAllowedType(contentType) {
+    return ALLOWED_TYPES.includes((contentType || '').toLowerCase());
+}
+
+/**
+ * Check, scan and store a file under `prefix` (e.g. "tasks/12").
+ * Returns { storageKey, fileName, contentType, size }; throws UploadError
+ * when the file is refused.
+ */
+export async function storeFile({ buffer, fileName, contentType, prefix }) {
+    const type = (contentType || 'application/octet-stream').toLowerCase();
+
+    if (!isAllowedType(type)) {
+        throw new UploadError(`File type ${type} is not allowed`, 415);
+    }
+
+    if (buffer.length > MAX_UPLOAD_BYTES) {
+        throw new UploadError(`File is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`, 413);
+    }
+
+    await runScanHooks(buffer, { fileName, contentType: type });
+
+    const storageKey = path.posix.join(prefix, `${randomBytes(6).toString('hex')}-${safeFileName(fileName)}`);
+    await driver.put(storageKey, buffer, type);
+
+    return { storageKey, fileName: fileName || 'file', contentType: type, size: buffer.length };
+}
+
+export async function deleteFile(storageKey) {
+    await driver.remove(storageKey);
+}
+
+/**
+ * Stream a stored file to the response. Images and PDFs open in the browser
+ * when `inline` is set; everything else downloads.
+ */
+export async function sendStoredFile(res, { storageKey, fileName, contentType, inline = false }) {
+    const stream = await driver.getStream(storageKey);
+    const viewable = inline && /^(image\/|application\/pdf$)/.test(contentType || '');
+
+    res.setHeader('Content-Type', contentType || 'application/octet-stream');
+    res.setHeader(
+        'Content-Disposition',
+        `${viewable ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(fileName)}`
+    );
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+
+    stream.on('error', (error) => {
+        console.error('❌ Error streaming stored file:', error);
+        res.destroy(error);
+    });
+    stream.pipe(res);
+}
+
+/**
+ * Multer middleware for a single file field kept in memory (storeFile does
+ * the rest). Turns multer errors into JSON responses.
+ */
+export function uploadSingle(field) {
+    const middleware = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 }
+    }).single(field);
+
+    return (req, res, next) => {
+        middleware(req, res, (error) => {
+            if (!error) return next();
+
+            if (error.code === 'LIMIT_FILE_SIZE') {
+                return res.status(413).json({ error: `File is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` });
+            }
+            res.status(400).json({ error: error.message });
+        });
+    };
+}
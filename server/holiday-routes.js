@@ -0,0 +1,435 @@
+// ==================== HOLIDAY CALENDARS ====================
+// Named holiday calendars assigned per department or office location,
+// recurring holiday expansion and ICS import. Every employee observes the
+// default calendar plus any calendar assigned to their department/location.
+
+import { canViewUser } from './team-scope.js';
+import { toDateString } from './date-utils.js';
+
+/**
+ * Holiday dates per user for a date range, from each user's own calendars.
+ * Returns Map<userId, Map<'YYYY-MM-DD', holidayName>>.
+ */
+export async function getHolidaysByUser(db, userIds, startDate, endDate) {
+    const result = await db.query(
+        `SELECT u.id as user_id, h.holiday_date, h.holiday_name
+         FROM users u
+         CROSS JOIN LATERAL user_holidays(u.id, $2::date, $3::date) h
+         WHERE u.id = ANY($1)`,
+        [userIds, startDate, endDate]
+    );
+
+    const byUser = new Map(userIds.map(id => [id, new Map()]));
+    result.rows.forEach(row => {
+        byUser.get(row.user_id)?.set(toDateString(new Date(row.holiday_date)), row.holiday_name);
+    });
+
+    return byUser;
+}
+
+function unescapeIcsText(value) {
+    return value
+        .replace(/\\n/gi, ' ')
+        .replace(/\\([,;\\])/g, '$1')
+        .trim();
+}
+
+function parseIcsDate(value) {
+    const match = value.match(/(\d{4})(\d{2})(\d{2})/);
+    return match ? new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])) : null;
+}
+
+/**
+ * Parse VEVENTs from an ICS file into holidays.
+ * Multi-day events become one holiday per day; FREQ=YEARLY marks them recurring.
+ */
+export function parseIcsHolidays(text) {
+    // Unfold continuation lines (RFC 5545 3.1)
+    const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+    const holidays = [];
+    let event = null;
+
+    for (const line of lines) {
+        if (line === 'BEGIN:VEVENT') {
+            event = {};
+            continue;
+        }
+
+        if (line === 'END:VEVENT') {
+            if (event?.start && event.summary) {
+                const end = event.end && event.end > event.start ? event.end : null;
+                const day = new Date(event.start);
+
+                do {
+                    holidays.push({
+                        holidayName: event.summary.substring(0, 100),
+                        holidayDate: toDateString(day),
+                        description: event.description || null,
+                        isRecurring: Boolean(event.recurring)
+                    });
+                    day.setDate(day.getDate() + 1);
+                } while (end && day < end && holidays.length < 1000);
+            }
+            event = null;
+            continue;
+        }
+
+        if (!event) continue;
+
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const name = line.substring(0, separator).split(';')[0].toUpperCase();
+        const value = line.substring(separator + 1);
+
+        if (name === 'DTSTART') event.start = parseIcsDate(value);
+        else if (name === 'DTEND') event.end = parseIcsDate(value);
+        else if (name === 'SUMMARY') event.summary = unescapeIcsText(value);
+        else if (name === 'DESCRIPTION') event.description = unescapeIcsText(value);
+        else if (name === 'RRULE') event.recurring = /FREQ=YEARLY/i.test(value);
+    }
+
+    return holidays;
+}
+
+async function getDefaultCalendarId(db) {
+    const result = await db.query('SELECT id FROM holiday_calendars WHERE is_default = true');
+    return result.rows[0]?.id;
+}
+
+/**
+ * Get holidays for a year with recurring holidays expanded.
+ * Admins may pass calendarId to list one calendar; admins and managers may
+ * pass userId to see a team member's holidays. Otherwise the caller's own.
+ * GET /api/holidays?year=&userId=&calendarId=
+ */
+export const getHolidays = async (req, res, pool) => {
+    try {
+        const year = parseInt(req.query.year) || new Date().getFullYear();
+        const startDate = `${year}-01-01`;
+        const endDate = `${year}-12-31`;
+        const isAdmin = req.user.role === 'admin';
+
+        let result;
+
+        if (req.query.calendarId && isAdmin) {
+            result = await pool.query(
+                `SELECT e.holiday_id as id, e.calendar_id, e.holiday_name, e.holiday_date, e.description, e.is_recurring
+                 FROM expand_holidays($1::date, $2::date) e
+                 WHERE e.calendar_id = $3
+                 ORDER BY e.holiday_date`,
+                [startDate, endDate, parseInt(req.query.calendarId)]
+            );
+        } else {
+            const requestedId = parseInt(req.query.userId);
+            const userId = requestedId && await canViewUser(pool, req.user, requestedId) ? requestedId : req.user.id;
+
+            result = await pool.query(
+                `SELECT h.holiday_id as id, h.calendar_id, c.name as calendar_name,
+                        h.holiday_name, h.holiday_date, h.description, h.is_recurring
+                 FROM user_holidays($1, $2::date, $3::date) h
+                 JOIN holiday_calendars c ON c.id = h.calendar_id
+                 ORDER BY h.holiday_date`,
+                [userId, startDate, endDate]
+            );
+        }
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error fetching holidays:', error);
+        res.status(500).json({ error: 'Failed to fetch holidays' });
+    }
+};
+
+/**
+ * Add a holiday to a calendar (defaults to the company calendar)
+ * POST /api/admin/holidays
+ */
+export const addHoliday = async (req, res, pool) => {
+    try {
+        const { holidayName, holidayDate, description, isRecurring } = req.body;
+
+        if (!holidayName || !holidayDate) {
+            return res.status(400).json({ error: 'Holiday name and date are required' });
+        }
+
+        const calendarId = req.body.calendarId ? parseInt(req.body.calendarId) : await getDefaultCalendarId(pool);
+
+        const result = await pool.query(
+            `INSERT INTO holidays (holiday_name, holiday_date, description, is_recurring, calendar_id, created_by)
+             VALUES ($1, $2, $3, $4, $5, $6)
+             RETURNING *`,
+            [holidayName, holidayDate, description, Boolean(isRecurring), calendarId, req.user.id]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'add_holiday', `Added holiday: ${holidayName}`]
+        );
+
+        res.json(result.rows[0]);
+    } catch (error) {
+        console.error('❌ Error adding holiday:', error);
+        res.status(500).json({ error: 'Failed to add holiday' });
+    }
+};
+
+/**
+ * Delete a holiday
+ * DELETE /api/admin/holidays/:id
+ */
+export const deleteHoliday = async (req, res, pool) => {
+    try {
+        await pool.query('DELETE FROM holidays WHERE id = $1', [req.params.id]);
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'delete_holiday', `Deleted holiday ID: ${req.params.id}`]
+        );
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('❌ Error deleting holiday:', error);
+        res.status(500).json({ error: 'Failed to delete holiday' });
+    }
+};
+
+/**
+ * List holiday calendars with their department/location assignments
+ * GET /api/admin/holiday-calendars
+ */
+export const getHolidayCalendars = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT c.id, c.name, c.description, c.is_default,
+                    (SELECT COUNT(*)::int FROM holidays h WHERE h.calendar_id = c.id) as holiday_count,
+                    COALESCE(array_agg(a.department) FILTER (WHERE a.department IS NOT NULL), '{}') as departments,
+                    COALESCE(array_agg(a.office_location) FILTER (WHERE a.office_location IS NOT NULL), '{}') as office_locations
+             FROM holiday_calendars c
+             LEFT JOIN holiday_calendar_assignments a ON a.calendar_id = c.id
+             GROUP BY c.id
+             ORDER BY c.is_default DESC, c.name ASC`
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error fetching holiday calendars:', error);
+        res.status(500).json({ error: 'Failed to fetch holiday calendars' });
+    }
+};
+
+// Replace a calendar's department/location assignments
+async function saveAssignments(client, calendarId, departments = [], officeLocations = []) {
+    await client.query('DELETE FROM holiday_calendar_assignments WHERE calendar_id = $1', [calendarId]);
+
+    for (const department of new Set(departments.map(d => d.trim()).filter(Boolean))) {
+        await client.query(
+            'INSERT INTO holiday_calendar_assignments (calendar_id, department) VALUES ($1, $2)',
+            [calendarId, department]
+        );
+    }
+
+    for (const location of new Set(officeLocations.map(l => l.trim()).filter(Boolean))) {
+        await client.query(
+            'INSERT INTO holiday_calendar_assignments (calendar_id, office_location) VALUES ($1, $2)',
+            [calendarId, location]
+        );
+    }
+}
+
+/**
+ * Create a holiday calendar
+ * POST /api/admin/holiday-calendars { name, description, departments, officeLocations }
+ */
+export const createHolidayCalendar = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const { name, description, departments, officeLocations } = req.body;
+
+        if (!name?.trim()) {
+            return res.status(400).json({ error: 'Calendar name is required' });
+        }
+
+        await client.query('BEGIN');
+
+        const result = await client.query(
+            `INSERT INTO holiday_calendars (name, description, created_by)
+             VALUES ($1, $2, $3)
+             RETURNING *`,
+            [name.trim(), description || null, req.user.id]
+        );
+
+        await saveAssignments(client, result.rows[0].id, departments, officeLocations);
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'create_holiday_calendar', `Created holiday calendar: ${name.trim()}`]
+        );
+
+        await client.query('COMMIT');
+
+        res.json(result.rows[0]);
+    } catch (error) {
+        await client.query('ROLLBACK');
+        if (error.code === '23505') {
+            return res.status(409).json({ error: 'A calendar with this name already exists' });
+        }
+        console.error('❌ Error creating holiday calendar:', error);
+        res.status(500).json({ error: 'Failed to create holiday calendar' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Rename a calendar or change who it applies to
+ * PUT /api/admin/holiday-calendars/:id { name, description, departments, officeLocations }
+ */
+export const updateHolidayCalendar = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const calendarId = parseInt(req.params.id);
+        const { name, description, departments, officeLocations } = req.body;
+
+        if (!name?.trim()) {
+            return res.status(400).json({ error: 'Calendar name is required' });
+        }
+
+        await client.query('BEGIN');
+
+        const result = await client.query(
+            `UPDATE holiday_calendars
+             SET name = $1, description = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $3
+             RETURNING *`,
+            [name.trim(), description || null, calendarId]
+        );
+
+        if (result.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Holiday calendar not found' });
+        }
+
+        // The default calendar applies to everyone, so it takes no assignments
+        if (!result.rows[0].is_default) {
+            await saveAssignments(client, calendarId, departments, officeLocations);
+        }
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_holiday_calendar', `Updated holiday calendar: ${name.trim()}`]
+        );
+
+        await client.query('COMMIT');
+
+        res.json(result.rows[0]);
+    } catch (error) {
+        await client.query('ROLLBACK');
+        if (error.code === '23505') {
+            return res.status(409).json({ error: 'A calendar with this name already exists' });
+        }
+        console.error('❌ Error updating holiday calendar:', error);
+        res.status(500).json({ error: 'Failed to update holiday calendar' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Delete a calendar and its holidays (the default calendar is kept)
+ * DELETE /api/admin/holiday-calendars/:id
+ */
+export const deleteHolidayCalendar = async (req, res, pool) => {
+    try {
+        const calendarId = parseInt(req.params.id);
+
+        const calendar = await pool.query('SELECT name, is_default FROM holiday_calendars WHERE id = $1', [calendarId]);
+
+        if (calendar.rows.length === 0) {
+            return res.status(404).json({ error: 'Holiday calendar not found' });
+        }
+
+        if (calendar.rows[0].is_default) {
+            return res.status(400).json({ error: 'The company calendar cannot be deleted' });
+        }
+
+        await pool.query('DELETE FROM holiday_calendars WHERE id = $1', [calendarId]);
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'delete_holiday_calendar', `Deleted holiday calendar: ${calendar.rows[0].name}`]
+        );
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('❌ Error deleting holiday calendar:', error);
+        res.status(500).json({ error: 'Failed to delete holiday calendar' });
+    }
+};
+
+/**
+ * Import holidays from an ICS file into a calendar, skipping ones already there
+ * POST /api/admin/holiday-calendars/:id/import (body: text/calendar)
+ */
+export const importHolidayCalendar = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const calendarId = parseInt(req.params.id);
+
+        if (typeof req.body !== 'string' || !req.body.includes('BEGIN:VCALENDAR')) {
+            return res.status(400).json({ error: 'Upload a valid .ics calendar file' });
+        }
+
+        const holidays = parseIcsHolidays(req.body);
+
+        if (holidays.length === 0) {
+            return res.status(400).json({ error: 'No events found in the calendar file' });
+        }
+
+        const calendar = await client.query('SELECT name FROM holiday_calendars WHERE id = $1', [calendarId]);
+
+        if (calendar.rows.length === 0) {
+            return res.status(404).json({ error: 'Holiday calendar not found' });
+        }
+
+        await client.query('BEGIN');
+
+        let imported = 0;
+
+        for (const holiday of holidays) {
+            const result = await client.query(
+                `INSERT INTO holidays (holiday_name, holiday_date, description, is_recurring, calendar_id, created_by)
+                 SELECT $1, $2::date, $3, $4, $5, $6
+                 WHERE NOT EXISTS (
+                     SELECT 1 FROM holidays
+                     WHERE calendar_id = $5 AND holiday_date = $2::date AND holiday_name = $1
+                 )`,
+                [holiday.holidayName, holiday.holidayDate, holiday.description, holiday.isRecurring, calendarId, req.user.id]
+            );
+            imported += result.rowCount;
+        }
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'import_holidays', `Imported ${imported} holidays into ${calendar.rows[0].name}`]
+        );
+
+        await client.query('COMMIT');
+
+        res.json({
+            message: `Imported ${imported} holiday(s), skipped ${holidays.length - imported} already present`,
+            imported,
+            skipped: holidays.length - imported
+        });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error importing holidays:', error);
+        res.status(500).json({ error: 'Failed to import holidays' });
+    } finally {
+        client.release();
+    }
+};
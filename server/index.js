@@ -7,13 +7,15 @@ import jwt from 'jsonwebtoken';
 import session from 'express-session';
 import rateLimit from 'express-rate-limit';
 import passport from './auth.js';
-import { generateToken, initializePassport } from './auth.js';
+import { initializePassport } from './auth.js';
 import {
     canMarkAttendance,
     getAttendance,
     markAttendance,
     deleteAttendance,
-    getAttendanceSummary
+    getAttendanceSummary,
+    processAttendanceClose,
+    runAttendanceClose
 } from './attendance.js';
 import {
     isApproved,
@@ -30,7 +32,11 @@ import {
     exportMonthlySummary,
     exportStatisticsReport,
     exportPayrollReport,
-    exportCustomReport
+    exportCustomReport,
+    getCustomReportSources,
+    getSavedReports,
+    saveCustomReport,
+    deleteSavedReport
 } from './exports/export-routes.js';
 import {
     isCalibrationDept,
@@ -40,6 +46,10 @@ import {
     addExpense,
     updateExpense,
     deleteExpense,
+    uploadExpenseReceipt,
+    deleteExpenseReceipt,
+    getExpenseReceipt,
+    scanExpenseReceipt,
     submitForApproval,
     getAutocompleteSuggestions,
     getPendingApprovals,
@@ -48,6 +58,152 @@ import {
     rejectExpense
 } from './calibration-routes.js';
 import { setupTaskRoutes, processTaskReminders } from './task-routes.js';
+import { processEmailQueue, enqueueDueSoonEmails } from './email-queue.js';
+import { processInboundEmail, isInboundEmailEnabled, getInboundEmails, runInboundEmail } from './email-ingest.js';
+import { uploadSingle } from './file-storage.js';
+import {
+    createLeaveRequest,
+    getMyLeaveRequests,
+    cancelLeaveRequest,
+    getPendingLeaveRequests,
+    approveLeaveRequest,
+    rejectLeaveRequest,
+    getLeavePolicies,
+    updateLeavePolicies,
+    getUserLeaveQuotas,
+    updateUserLeaveQuotas,
+    runLeaveQuotaReset,
+    processYearlyLeaveReset
+} from './leave-routes.js';
+import {
+    getNotifications,
+    getUnreadCount,
+    markNotificationRead,
+    markAllNotificationsRead
+} from './notification-routes.js';
+import {
+    getEmailTemplates,
+    createEmailTemplate,
+    updateEmailTemplate,
+    deleteEmailTemplate,
+    previewEmailTemplate,
+    getEmailTemplateVersions,
+    rollbackEmailTemplate
+} from './email-template-routes.js';
+import {
+    getMyCompOffs,
+    redeemMyCompOff,
+    getCompOffLedger,
+    expireCompOffs
+} from './comp-off-routes.js';
+import {
+    getMonthlyBalance,
+    getTeamMonthlyBalance,
+    recomputeMonthlyBalance,
+    processMonthlyBalances
+} from './monthly-balance-routes.js';
+import {
+    getHolidays,
+    addHoliday,
+    deleteHoliday,
+    getHolidayCalendars,
+    createHolidayCalendar,
+    updateHolidayCalendar,
+    deleteHolidayCalendar,
+    importHolidayCalendar
+} from './holiday-routes.js';
+import { isAdminOrManager, getTeamUserIds, canViewUser } from './team-scope.js';
+import {
+    createLoginCode,
+    getSessionUser,
+    revokeUserSessions,
+    cleanupExpiredSessions,
+    refreshSession,
+    exchangeLoginCode,
+    endSession,
+    getMySessions,
+    revokeMySession,
+    revokeAllMySessions,
+    getUserSessions,
+    revokeAllUserSessions
+} from './session-routes.js';
+import {
+    getAuthMethods,
+    loginWithPassword,
+    registerWithPassword,
+    requestPasswordReset,
+    confirmPasswordReset,
+    requestMagicLink,
+    verifyMagicLink,
+    verifyEmail,
+    getAuthMethodSettings,
+    updateAuthMethod
+} from './local-auth-routes.js';
+import {
+    getInvites,
+    createInvite,
+    resendInvite,
+    revokeInvite,
+    getInviteByToken,
+    acceptInviteWithPassword
+} from './invite-routes.js';
+import {
+    getCheckinStatus,
+    checkinWithLocation,
+    checkinWithQr,
+    getOfficeScreenCode,
+    getGeofences,
+    createGeofence,
+    updateGeofence,
+    rotateGeofenceKey,
+    deleteGeofence,
+    getUnverifiedCheckins
+} from './checkin-routes.js';
+import {
+    createAttendanceCorrection,
+    getMyCorrections,
+    cancelCorrection,
+    getPendingCorrections,
+    approveCorrection,
+    rejectCorrection
+} from './correction-routes.js';
+import {
+    getMyShift,
+    getShifts,
+    createShift,
+    updateShift,
+    deleteShift,
+    setUserShift
+} from './shift-routes.js';
+import {
+    getActiveExpensePolicies,
+    getExpensePolicies,
+    createExpensePolicy,
+    updateExpensePolicy,
+    updatePerDiemRates,
+    updateCityTiers
+} from './expense-policy-routes.js';
+import {
+    getMyOvertime,
+    justifyOvertime,
+    getPendingOvertime,
+    approveOvertime,
+    rejectOvertime
+} from './overtime-routes.js';
+import {
+    getCustomers,
+    getCustomer,
+    createCustomer,
+    updateCustomer,
+    deleteCustomer,
+    getDuplicateCustomers,
+    mergeCustomers,
+    getCompanies,
+    createCompany,
+    updateCompany,
+    deleteCompany,
+    mergeCompanies
+} from './customer-routes.js';
 
 dotenv.config();
 
@@ -165,16 +321,13 @@ if (process.env.TELEGRAM_ENABLED === 'true') {
     });
     console.log('✅ Scheduled daily report at 7:00 PM IST');
 
-    // Schedule checkout reminder at 6:30 PM
-    const reminderTime = process.env.TELEGRAM_CHECKOUT_REMINDER_TIME || '18:30';
-    const [reminderHour, reminderMinute] = reminderTime.split(':').map(Number);
-    cron.schedule(`${reminderMinute} ${reminderHour} * * 1-5`, async () => {
-        console.log('⏰ Sending checkout reminders...');
+    // Checkout reminders follow each user's shift end, so check every 15 minutes
+    cron.schedule('*/15 * * * *', async () => {
         await sendCheckoutReminders();
     }, {
         timezone: 'Asia/Kolkata'
     });
-    console.log(`✅ Scheduled checkout reminders at ${reminderTime} IST (weekdays)`);
+    console.log('✅ Scheduled checkout reminders after each shift end');
 
     // Schedule work anniversary notifications at 9:00 AM daily
     cron.schedule('0 9 * * *', async () => {
@@ -202,6 +355,78 @@ if (process.env.TELEGRAM_ENABLED === 'true') {
     console.log('✅ Scheduled task reminders every 15 minutes');
 }
 
+// Drain the outbound email queue every minute
+cron.schedule('* * * * *', async () => {
+    await processEmailQueue(pool);
+}, {
+    timezone: 'Asia/Kolkata'
+});
+console.log('✅ Scheduled email queue processing every minute');
+
+// Queue due-soon task emails at 9:00 AM daily
+cron.schedule('0 9 * * *', async () => {
+    console.log('⏰ Queueing due-soon task emails...');
+    await enqueueDueSoonEmails(pool);
+}, {
+    timezone: 'Asia/Kolkata'
+});
+console.log('✅ Scheduled due-soon task emails at 9:00 AM IST');
+
+// File emails from the task mailbox as tasks or task comments
+if (isInboundEmailEnabled()) {
+    cron.schedule('*/5 * * * *', async () => {
+        await processInboundEmail(pool);
+    }, {
+        timezone: 'Asia/Kolkata'
+    });
+    console.log('✅ Scheduled inbound email check every 5 minutes');
+}
+
+// Mark missing days absent and close open check-ins for yesterday
+cron.schedule('10 0 * * *', async () => {
+    console.log('⏰ Closing yesterday\'s attendance...');
+    await processAttendanceClose(pool);
+}, {
+    timezone: 'Asia/Kolkata'
+});
+console.log('✅ Scheduled nightly attendance close at 12:10 AM IST');
+
+// Expire unused comp-offs shortly after midnight
+cron.schedule('5 0 * * *', async () => {
+    console.log('⏰ Expiring stale comp-offs...');
+    await expireCompOffs(pool);
+}, {
+    timezone: 'Asia/Kolkata'
+});
+console.log('✅ Scheduled comp-off expiry at 12:05 AM IST');
+
+// Refresh monthly hour balances nightly
+cron.schedule('30 0 * * *', async () => {
+    console.log('⏰ Computing monthly hour balances...');
+    await processMonthlyBalances(pool);
+}, {
+    timezone: 'Asia/Kolkata'
+});
+console.log('✅ Scheduled monthly balance computation at 12:30 AM IST');
+
+// Open the new leave quota year with carry-forward on January 1st
+cron.schedule('15 0 1 1 *', async () => {
+    console.log('⏰ Resetting yearly leave quotas...');
+    await processYearlyLeaveReset(pool);
+}, {
+    timezone: 'Asia/Kolkata'
+});
+console.log('✅ Scheduled yearly leave quota reset at 12:15 AM IST on Jan 1');
+
+// Purge old login sessions daily at 3:30 AM IST
+cron.schedule('30 3 * * *', async () => {
+    console.log('⏰ Cleaning up login sessions...');
+    await cleanupExpiredSessions(pool);
+}, {
+    timezone: 'Asia/Kolkata'
+});
+console.log('✅ Scheduled login session cleanup at 3:30 AM IST');
+
 // Rate limiters
 const authLimiter = rateLimit({
     windowMs: 15 * 60 * 1000,
@@ -209,6 +434,13 @@ const authLimiter = rateLimit({
     message: { error: 'Too many authentication attempts, please try again later' }
 });
 
+// Every open tab refreshes about every 15 minutes, and an office shares one IP
+const refreshLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 1000,
+    message: { error: 'Too many session refreshes, please try again later' }
+});
+
 const apiLimiter = rateLimit({
     windowMs: 15 * 60 * 1000,
     max: 500, // Increased from 100 to support task management operations
@@ -217,8 +449,9 @@ const apiLimiter = rateLimit({
 
 app.use('/api', apiLimiter);
 
-// JWT authentication middleware
-const authenticateToken = (req, res, next) => {
+// JWT authentication middleware - the token must belong to a live session,
+// so logging out, deactivation and role changes apply on the next request
+const authenticateToken = async (req, res, next) => {
     const authHeader = req.headers['authorization'];
     const token = authHeader && authHeader.split(' ')[1];
 
@@ -226,13 +459,30 @@ const authenticateToken = (req, res, next) => {
         return res.status(401).json({ error: 'Access token required' });
     }
 
-    jwt.verify(token, JWT_SECRET, (err, user) => {
-        if (err) {
-            return res.status(403).json({ error: 'Invalid or expired token' });
+    let payload;
+    try {
+        payload = jwt.verify(token, JWT_SECRET);
+    } catch (err) {
+        // The client refreshes on TOKEN_EXPIRED and retries
+        if (err.name === 'TokenExpiredError') {
+            return res.status(401).json({ error: 'Access token expired', code: 'TOKEN_EXPIRED' });
+        }
+        return res.status(403).json({ error: 'Invalid or expired token' });
+    }
+
+    try {
+        const user = await getSessionUser(pool, payload, req);
+
+        if (!user) {
+            return res.status(401).json({ error: 'Session has ended. Please log in again.', code: 'SESSION_REVOKED' });
         }
+
         req.user = user;
         next();
-    });
+    } catch (error) {
+        console.error('❌ Error verifying session:', error);
+        res.status(500).json({ error: 'Failed to verify session' });
+    }
 };
 
 // Admin check middleware
@@ -245,43 +495,70 @@ const isAdmin = (req, res, next) => {
 
 // ==================== GOOGLE OAUTH ROUTES ====================
 
-// Initiate Google OAuth login
+// Initiate Google OAuth login (?invite=<token> accepts an invite)
 app.get('/api/auth/google',
     authLimiter,
-    passport.authenticate('google', { scope: ['profile', 'email'] })
+    (req, res, next) => passport.authenticate('google', {
+        scope: ['profile', 'email'],
+        ...(req.query.invite && { state: String(req.query.invite) })
+    })(req, res, next)
 );
 
 // Google OAuth callback
 app.get('/api/auth/google/callback',
     authLimiter,
-    passport.authenticate('google', { failureRedirect: '/login?error=auth_failed' }),
-    (req, res) => {
-        // Generate JWT token
-        const token = generateToken(req.user);
-
-        // Redirect to frontend with token
+    (req, res, next) => passport.authenticate('google', {
+        failureRedirect: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/login?error=${req.query.state ? 'invite_invalid' : 'auth_failed'}`
+    })(req, res, next),
+    async (req, res) => {
         const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-        res.redirect(`${frontendUrl}/auth/callback?token=${token}`);
+
+        try {
+            // Tokens stay out of the URL; the frontend exchanges this code for them
+            const code = await createLoginCode(pool, req.user, req);
+
+            res.redirect(`${frontendUrl}/auth/callback?code=${code}`);
+        } catch (error) {
+            console.error('❌ Error starting session:', error);
+            res.redirect(`${frontendUrl}/login?error=auth_failed`);
+        }
     }
 );
 
-// Logout
-app.post('/api/auth/logout', (req, res) => {
-    req.logout((err) => {
-        if (err) {
-            return res.status(500).json({ error: 'Logout failed' });
-        }
-        req.session.destroy();
-        res.json({ success: true, message: 'Logged out successfully' });
-    });
-});
+// Email/password and login-link sign-in (see local-auth-routes.js)
+app.get('/api/auth/methods', (req, res) => getAuthMethods(req, res, pool));
+app.post('/api/auth/login', authLimiter, (req, res) => loginWithPassword(req, res, pool));
+app.post('/api/auth/register', authLimiter, (req, res) => registerWithPassword(req, res, pool));
+app.post('/api/auth/password-reset/request', authLimiter, (req, res) => requestPasswordReset(req, res, pool));
+app.post('/api/auth/password-reset/confirm', authLimiter, (req, res) => confirmPasswordReset(req, res, pool));
+app.post('/api/auth/magic-link/request', authLimiter, (req, res) => requestMagicLink(req, res, pool));
+app.post('/api/auth/magic-link/verify', authLimiter, (req, res) => verifyMagicLink(req, res, pool));
+app.post('/api/auth/verify-email', authLimiter, (req, res) => verifyEmail(req, res, pool));
+
+// Invite links (see invite-routes.js)
+app.get('/api/auth/invites/:token', authLimiter, (req, res) => getInviteByToken(req, res, pool));
+app.post('/api/auth/invites/:token/accept', authLimiter, (req, res) => acceptInviteWithPassword(req, res, pool));
+
+// Exchange the one-time code from the Google redirect for tokens
+app.post('/api/auth/oauth/exchange', authLimiter, (req, res) => exchangeLoginCode(req, res, pool));
+
+// Exchange a refresh token for new tokens
+app.post('/api/auth/refresh', refreshLimiter, (req, res) => refreshSession(req, res, pool));
+
+// Logout (ends the session the refresh token belongs to)
+app.post('/api/auth/logout', (req, res) => endSession(req, res, pool));
+
+// Own sessions: list, log out one device, log out everywhere
+app.get('/api/auth/sessions', authenticateToken, (req, res) => getMySessions(req, res, pool));
+app.post('/api/auth/sessions/revoke-all', authenticateToken, (req, res) => revokeAllMySessions(req, res, pool));
+app.delete('/api/auth/sessions/:id', authenticateToken, (req, res) => revokeMySession(req, res, pool));
 
 // Get current user info
 app.get('/api/auth/me', authenticateToken, async (req, res) => {
     try {
         const result = await pool.query(
             `SELECT id, username, email, full_name, role, employee_id, department, avatar_url,
-              created_at, last_login 
+              is_approved, created_at, last_login 
        FROM users WHERE id = $1`,
             [req.user.id]
         );
@@ -300,6 +577,7 @@ app.get('/api/auth/me', authenticateToken, async (req, res) => {
             employeeId: user.employee_id,
             department: user.department,
             avatarUrl: user.avatar_url,
+            isApproved: user.is_approved,
             createdAt: user.created_at,
             lastLogin: user.last_login
         });
@@ -311,15 +589,19 @@ app.get('/api/auth/me', authenticateToken, async (req, res) => {
 
 // ==================== EMPLOYEE ROUTES ====================
 
-// Get all employees (admin only)
-app.get('/api/admin/employees', authenticateToken, isAdmin, async (req, res) => {
+// Get all employees (admin), or a manager's team
+app.get('/api/admin/employees', authenticateToken, isAdminOrManager, async (req, res) => {
     try {
+        const teamIds = await getTeamUserIds(pool, req.user);
+
         const result = await pool.query(
             `SELECT id, username, email, full_name, role, employee_id, department, 
-              is_active, created_at, last_login, avatar_url
+              is_active, created_at, last_login, avatar_url, manager_id
        FROM users 
-       WHERE role = 'employee' 
-       ORDER BY full_name`
+       WHERE role IN ('employee', 'manager')
+         AND ($1::int[] IS NULL OR id = ANY($1))
+       ORDER BY full_name`,
+            [teamIds]
         );
 
         res.json(result.rows);
@@ -331,13 +613,16 @@ app.get('/api/admin/employees', authenticateToken, isAdmin, async (req, res) =>
 
 // ==================== USER MANAGEMENT ROUTES (ADMIN ONLY) ====================
 
+const USER_ROLES = ['admin', 'manager', 'employee'];
+
 // Get all users (admin only)
 app.get('/api/admin/users', authenticateToken, isAdmin, async (req, res) => {
     try {
         const result = await pool.query(
-            `SELECT id, username, email, full_name, role, employee_id, department, 
-              is_active, created_at, last_login, avatar_url, google_id, joining_date, telegram_chat_id
+            `SELECT id, username, email, full_name, role, employee_id, department, office_location, manager_id,
+              is_active, created_at, last_login, avatar_url, google_id, joining_date, telegram_chat_id, shift_id
        FROM users 
+       WHERE invited_by IS NULL OR invite_accepted_at IS NOT NULL
        ORDER BY created_at DESC`
         );
 
@@ -349,13 +634,16 @@ app.get('/api/admin/users', authenticateToken, isAdmin, async (req, res) => {
             role: user.role,
             employeeId: user.employee_id,
             department: user.department,
+            officeLocation: user.office_location,
+            managerId: user.manager_id,
             isActive: user.is_active,
             createdAt: user.created_at,
             lastLogin: user.last_login,
             avatarUrl: user.avatar_url,
             authMethod: user.google_id ? 'google' : 'password',
             joiningDate: user.joining_date,
-            telegramId: user.telegram_chat_id
+            telegramId: user.telegram_chat_id,
+            shiftId: user.shift_id
         }));
 
         res.json(users);
@@ -365,14 +653,18 @@ app.get('/api/admin/users', authenticateToken, isAdmin, async (req, res) => {
     }
 });
 
-// Get all users for exports (simplified response, admin only)
-app.get('/api/admin/all-users', authenticateToken, isAdmin, async (req, res) => {
+// Get all users for exports (simplified response; managers get their team)
+app.get('/api/admin/all-users', authenticateToken, isAdminOrManager, async (req, res) => {
     try {
+        const teamIds = await getTeamUserIds(pool, req.user);
+
         const result = await pool.query(
             `SELECT id, full_name, employee_id, department, email, role, is_active
              FROM users
              WHERE is_approved = true AND role IS NOT NULL
-             ORDER BY full_name ASC`
+               AND ($1::int[] IS NULL OR id = ANY($1))
+             ORDER BY full_name ASC`,
+            [teamIds]
         );
         res.json(result.rows);
     } catch (error) {
@@ -397,6 +689,10 @@ app.post('/api/admin/users', authenticateToken, isAdmin, async (req, res) => {
             return res.status(400).json({ error: 'Password must be at least 6 characters' });
         }
 
+        if (role && !USER_ROLES.includes(role)) {
+            return res.status(400).json({ error: `Role must be one of: ${USER_ROLES.join(', ')}` });
+        }
+
         // Check if username or email already exists
         const existingUser = await pool.query(
             'SELECT id FROM users WHERE username = $1 OR email = $2',
@@ -413,8 +709,8 @@ app.post('/api/admin/users', authenticateToken, isAdmin, async (req, res) => {
         // Create user
         const result = await pool.query(
             `INSERT INTO users (
-        username, password_hash, email, full_name, role, employee_id, department, is_active
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, true)
+        username, password_hash, password_changed_at, email, full_name, role, employee_id, department, is_active, is_approved
+      ) VALUES ($1, $2, CURRENT_TIMESTAMP, $3, $4, $5, $6, $7, true, true)
       RETURNING id, username, email, full_name, role, employee_id, department, is_active, created_at`,
             [username, passwordHash, email, fullName, role || 'employee', employeeId, department || null]
         );
@@ -465,8 +761,9 @@ app.put('/api/admin/users/:id/deactivate', authenticateToken, isAdmin, async (re
 
         const user = userResult.rows[0];
 
-        // Deactivate user
+        // Deactivate user and end their sessions
         await pool.query('UPDATE users SET is_active = false WHERE id = $1', [userId]);
+        await revokeUserSessions(pool, userId, 'deactivated');
 
         // Log activity
         await pool.query(
@@ -597,6 +894,148 @@ app.put('/api/admin/users/:id/department', authenticateToken, isAdmin, async (re
     }
 });
 
+// Update user's office location (admin only) - selects regional holiday calendars
+app.put('/api/admin/users/:id/office-location', authenticateToken, isAdmin, async (req, res) => {
+    try {
+        const userId = req.params.id;
+        const { officeLocation } = req.body;
+
+        const userResult = await pool.query('SELECT full_name, office_location as old_location FROM users WHERE id = $1', [userId]);
+
+        if (userResult.rows.length === 0) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        const user = userResult.rows[0];
+
+        await pool.query(
+            'UPDATE users SET office_location = $1 WHERE id = $2',
+            [officeLocation?.trim() || null, userId]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_office_location', `Updated ${user.full_name}'s office location from "${user.old_location || 'none'}" to "${officeLocation?.trim() || 'none'}"`]
+        );
+
+        res.json({ success: true, message: 'Office location updated successfully' });
+    } catch (error) {
+        console.error('❌ Error updating office location:', error);
+        res.status(500).json({ error: 'Failed to update office location' });
+    }
+});
+
+// Change user's role (admin only) - applies from the user's next request
+app.put('/api/admin/users/:id/role', authenticateToken, isAdmin, async (req, res) => {
+    try {
+        const userId = req.params.id;
+        const { role } = req.body;
+
+        if (!USER_ROLES.includes(role)) {
+            return res.status(400).json({ error: `Role must be one of: ${USER_ROLES.join(', ')}` });
+        }
+
+        // Prevent locking yourself out of the admin panel
+        if (parseInt(userId) === req.user.id) {
+            return res.status(400).json({ error: 'Cannot change your own role' });
+        }
+
+        const userResult = await pool.query('SELECT full_name, role as old_role FROM users WHERE id = $1', [userId]);
+
+        if (userResult.rows.length === 0) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        const user = userResult.rows[0];
+
+        await pool.query('UPDATE users SET role = $1 WHERE id = $2', [role, userId]);
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_role', `Changed ${user.full_name}'s role from ${user.old_role || 'none'} to ${role}`]
+        );
+
+        console.log(`✅ Admin ${req.user.username} changed role for ${user.full_name}: ${user.old_role || 'none'} → ${role}`);
+
+        res.json({ success: true, message: 'Role updated successfully' });
+    } catch (error) {
+        console.error('❌ Error updating role:', error);
+        res.status(500).json({ error: 'Failed to update role' });
+    }
+});
+
+// Set user's reporting manager (admin only)
+app.put('/api/admin/users/:id/manager', authenticateToken, isAdmin, async (req, res) => {
+    try {
+        const userId = parseInt(req.params.id);
+        const managerId = req.body.managerId ? parseInt(req.body.managerId) : null;
+
+        if (managerId === userId) {
+            return res.status(400).json({ error: 'A user cannot report to themselves' });
+        }
+
+        const userResult = await pool.query('SELECT full_name FROM users WHERE id = $1', [userId]);
+
+        if (userResult.rows.length === 0) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        let managerName = 'none';
+
+        if (managerId) {
+            const managerResult = await pool.query(
+                `SELECT full_name, role,
+                        id IN (SELECT managed_user_ids($2)) as creates_cycle
+                 FROM users WHERE id = $1`,
+                [managerId, userId]
+            );
+
+            if (managerResult.rows.length === 0) {
+                return res.status(404).json({ error: 'Manager not found' });
+            }
+
+            const manager = managerResult.rows[0];
+
+            if (manager.role !== 'manager') {
+                return res.status(400).json({ error: `${manager.full_name} does not have the manager role` });
+            }
+
+            // The new manager must not already report to this user
+            if (manager.creates_cycle) {
+                return res.status(400).json({ error: `${manager.full_name} already reports to this user` });
+            }
+
+            managerName = manager.full_name;
+        }
+
+        await pool.query('UPDATE users SET manager_id = $1 WHERE id = $2', [managerId, userId]);
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_manager', `Set ${userResult.rows[0].full_name}'s reporting manager to ${managerName}`]
+        );
+
+        res.json({ success: true, message: 'Reporting manager updated successfully' });
+    } catch (error) {
+        console.error('❌ Error updating reporting manager:', error);
+        res.status(500).json({ error: 'Failed to update reporting manager' });
+    }
+});
+
+// Employee invites (admin only)
+app.get('/api/admin/invites', authenticateToken, isAdmin, (req, res) => getInvites(req, res, pool));
+app.post('/api/admin/invites', authenticateToken, isAdmin, (req, res) => createInvite(req, res, pool));
+app.post('/api/admin/invites/:id/resend', authenticateToken, isAdmin, (req, res) => resendInvite(req, res, pool));
+app.delete('/api/admin/invites/:id', authenticateToken, isAdmin, (req, res) => revokeInvite(req, res, pool));
+
+// Switch password and login-link sign-in on or off (admin only)
+app.get('/api/admin/auth-methods', authenticateToken, isAdmin, (req, res) => getAuthMethodSettings(req, res, pool));
+app.put('/api/admin/auth-methods/:method', authenticateToken, isAdmin, (req, res) => updateAuthMethod(req, res, pool));
+
+// Login sessions of a user, and "log out everywhere" (admin only)
+app.get('/api/admin/users/:id/sessions', authenticateToken, isAdmin, (req, res) => getUserSessions(req, res, pool));
+app.post('/api/admin/users/:id/sessions/revoke-all', authenticateToken, isAdmin, (req, res) => revokeAllUserSessions(req, res, pool));
+
 // ==================== ATTENDANCE ROUTES ====================
 
 // Get attendance records
@@ -611,6 +1050,121 @@ app.delete('/api/attendance/:id', authenticateToken, isAdmin, (req, res) => dele
 // Get attendance summary
 app.get('/api/attendance/summary', authenticateToken, (req, res) => getAttendanceSummary(req, res, pool));
 
+// Re-run the nightly close for a past day
+app.post('/api/admin/attendance/close-day', authenticateToken, isAdmin, (req, res) => runAttendanceClose(req, res, pool));
+
+// ==================== SHIFT ROUTES ====================
+
+app.get('/api/shifts/mine', authenticateToken, (req, res) => getMyShift(req, res, pool));
+
+// Shift definitions and assignments (admin only)
+app.get('/api/admin/shifts', authenticateToken, isAdmin, (req, res) => getShifts(req, res, pool));
+app.post('/api/admin/shifts', authenticateToken, isAdmin, (req, res) => createShift(req, res, pool));
+app.put('/api/admin/shifts/:id', authenticateToken, isAdmin, (req, res) => updateShift(req, res, pool));
+app.delete('/api/admin/shifts/:id', authenticateToken, isAdmin, (req, res) => deleteShift(req, res, pool));
+app.put('/api/admin/users/:id/shift', authenticateToken, isAdmin, (req, res) => setUserShift(req, res, pool));
+
+// ==================== VERIFIED CHECK-IN ====================
+
+// Check in from the office with browser geolocation or the office-screen QR code
+app.get('/api/checkin/status', authenticateToken, (req, res) => getCheckinStatus(req, res, pool));
+app.post('/api/checkin/location', authenticateToken, (req, res) => checkinWithLocation(req, res, pool));
+app.post('/api/checkin/qr', authenticateToken, (req, res) => checkinWithQr(req, res, pool));
+
+// Office screen (no login - the screen key in its URL is checked instead)
+app.get('/api/checkin/screen/:id', (req, res) => getOfficeScreenCode(req, res, pool));
+
+// Office geofences (admin only)
+app.get('/api/admin/geofences', authenticateToken, isAdmin, (req, res) => getGeofences(req, res, pool));
+app.post('/api/admin/geofences', authenticateToken, isAdmin, (req, res) => createGeofence(req, res, pool));
+app.put('/api/admin/geofences/:id', authenticateToken, isAdmin, (req, res) => updateGeofence(req, res, pool));
+app.post('/api/admin/geofences/:id/rotate-key', authenticateToken, isAdmin, (req, res) => rotateGeofenceKey(req, res, pool));
+app.delete('/api/admin/geofences/:id', authenticateToken, isAdmin, (req, res) => deleteGeofence(req, res, pool));
+
+// Check-ins without location or QR proof
+app.get('/api/admin/checkins/unverified', authenticateToken, isAdminOrManager, (req, res) => getUnverifiedCheckins(req, res, pool));
+
+// ==================== ATTENDANCE CORRECTION ROUTES ====================
+
+// Employee routes
+app.post('/api/attendance/corrections', authenticateToken, (req, res) => createAttendanceCorrection(req, res, pool));
+app.get('/api/attendance/corrections', authenticateToken, (req, res) => getMyCorrections(req, res, pool));
+app.put('/api/attendance/corrections/:id/cancel', authenticateToken, (req, res) => cancelCorrection(req, res, pool));
+
+// Admin and manager routes (managers only act on their team)
+app.get('/api/admin/attendance-corrections/pending', authenticateToken, isAdminOrManager, (req, res) => getPendingCorrections(req, res, pool));
+app.put('/api/admin/attendance-corrections/:id/approve', authenticateToken, isAdminOrManager, (req, res) => approveCorrection(req, res, pool));
+app.put('/api/admin/attendance-corrections/:id/reject', authenticateToken, isAdminOrManager, (req, res) => rejectCorrection(req, res, pool));
+
+// ==================== OVERTIME ROUTES ====================
+
+// Employee routes
+app.get('/api/overtime', authenticateToken, (req, res) => getMyOvertime(req, res, pool));
+app.put('/api/overtime/:id/justify', authenticateToken, (req, res) => justifyOvertime(req, res, pool));
+
+// Admin and manager routes (managers only act on their team)
+app.get('/api/admin/overtime/pending', authenticateToken, isAdminOrManager, (req, res) => getPendingOvertime(req, res, pool));
+app.put('/api/admin/overtime/:id/approve', authenticateToken, isAdminOrManager, (req, res) => approveOvertime(req, res, pool));
+app.put('/api/admin/overtime/:id/reject', authenticateToken, isAdminOrManager, (req, res) => rejectOvertime(req, res, pool));
+
+// ==================== LEAVE REQUEST ROUTES ====================
+
+// Employee routes
+app.post('/api/leave', authenticateToken, (req, res) => createLeaveRequest(req, res, pool));
+app.get('/api/leave', authenticateToken, (req, res) => getMyLeaveRequests(req, res, pool));
+app.put('/api/leave/:id/cancel', authenticateToken, (req, res) => cancelLeaveRequest(req, res, pool));
+
+// Admin and manager routes (managers only act on their team)
+app.get('/api/admin/leave/pending', authenticateToken, isAdminOrManager, (req, res) => getPendingLeaveRequests(req, res, pool));
+app.put('/api/admin/leave/:id/approve', authenticateToken, isAdminOrManager, (req, res) => approveLeaveRequest(req, res, pool));
+app.put('/api/admin/leave/:id/reject', authenticateToken, isAdminOrManager, (req, res) => rejectLeaveRequest(req, res, pool));
+
+// Admin quota routes (policies before :userId)
+app.get('/api/admin/leave-quotas/policies', authenticateToken, isAdmin, (req, res) => getLeavePolicies(req, res, pool));
+app.put('/api/admin/leave-quotas/policies', authenticateToken, isAdmin, (req, res) => updateLeavePolicies(req, res, pool));
+app.post('/api/admin/leave-quotas/reset', authenticateToken, isAdmin, (req, res) => runLeaveQuotaReset(req, res, pool));
+app.get('/api/admin/leave-quotas/:userId', authenticateToken, isAdmin, (req, res) => getUserLeaveQuotas(req, res, pool));
+app.put('/api/admin/leave-quotas/:userId', authenticateToken, isAdmin, (req, res) => updateUserLeaveQuotas(req, res, pool));
+
+// ==================== MONTHLY BALANCE ROUTES ====================
+
+app.get('/api/monthly-balance/:year/:month', authenticateToken, (req, res) => getMonthlyBalance(req, res, pool));
+
+// Admin routes
+app.get('/api/admin/monthly-balance/:year/:month', authenticateToken, isAdminOrManager, (req, res) => getTeamMonthlyBalance(req, res, pool));
+app.post('/api/admin/monthly-balance/recompute', authenticateToken, isAdmin, (req, res) => recomputeMonthlyBalance(req, res, pool));
+
+// ==================== COMP-OFF ROUTES ====================
+
+// Employee routes
+app.get('/api/comp-offs', authenticateToken, (req, res) => getMyCompOffs(req, res, pool));
+app.post('/api/comp-offs/redeem', authenticateToken, (req, res) => redeemMyCompOff(req, res, pool));
+
+// Admin ledger
+app.get('/api/admin/comp-offs', authenticateToken, isAdmin, (req, res) => getCompOffLedger(req, res, pool));
+
+// ==================== NOTIFICATION ROUTES ====================
+
+app.get('/api/notifications', authenticateToken, (req, res) => getNotifications(req, res, pool));
+app.get('/api/notifications/unread-count', authenticateToken, (req, res) => getUnreadCount(req, res, pool));
+app.put('/api/notifications/read-all', authenticateToken, (req, res) => markAllNotificationsRead(req, res, pool));
+app.put('/api/notifications/:id/read', authenticateToken, (req, res) => markNotificationRead(req, res, pool));
+
+// ==================== EMAIL TEMPLATE ROUTES (ADMIN ONLY) ====================
+
+app.get('/api/admin/email-templates', authenticateToken, isAdmin, (req, res) => getEmailTemplates(req, res, pool));
+app.post('/api/admin/email-templates', authenticateToken, isAdmin, (req, res) => createEmailTemplate(req, res, pool));
+app.post('/api/admin/email-templates/preview', authenticateToken, isAdmin, (req, res) => previewEmailTemplate(req, res));
+app.put('/api/admin/email-templates/:id', authenticateToken, isAdmin, (req, res) => updateEmailTemplate(req, res, pool));
+app.delete('/api/admin/email-templates/:id', authenticateToken, isAdmin, (req, res) => deleteEmailTemplate(req, res, pool));
+app.get('/api/admin/email-templates/:id/versions', authenticateToken, isAdmin, (req, res) => getEmailTemplateVersions(req, res, pool));
+app.post('/api/admin/email-templates/:id/versions/:versionId/rollback', authenticateToken, isAdmin, (req, res) => rollbackEmailTemplate(req, res, pool));
+
+// ==================== INBOUND EMAIL ROUTES (ADMIN ONLY) ====================
+
+app.get('/api/admin/inbound-email', authenticateToken, isAdmin, (req, res) => getInboundEmails(req, res, pool));
+app.post('/api/admin/inbound-email/run', authenticateToken, isAdmin, (req, res) => runInboundEmail(req, res, pool));
+
 // ==================== USER APPROVAL ROUTES (ADMIN ONLY) ====================
 
 // Get pending users
@@ -630,25 +1184,29 @@ app.post('/api/admin/telegram-report', authenticateToken, isAdmin, (req, res) =>
 // Get report preview without sending
 app.get('/api/admin/telegram-report/preview', authenticateToken, isAdmin, (req, res) => getAttendanceReportPreview(req, res, pool));
 
-// ==================== EXCEL EXPORT ROUTES (ADMIN ONLY) ====================
+// ==================== EXCEL EXPORT ROUTES (ADMINS AND MANAGERS) ====================
 
 // Individual employee report
-app.post('/api/admin/export/individual', authenticateToken, isAdmin, (req, res) => exportIndividualReport(req, res, pool));
+app.post('/api/admin/export/individual', authenticateToken, isAdminOrManager, (req, res) => exportIndividualReport(req, res, pool));
 
 // Bulk employee report
-app.post('/api/admin/export/bulk', authenticateToken, isAdmin, (req, res) => exportBulkReport(req, res, pool));
+app.post('/api/admin/export/bulk', authenticateToken, isAdminOrManager, (req, res) => exportBulkReport(req, res, pool));
 
 // Monthly summary report
-app.post('/api/admin/export/monthly-summary', authenticateToken, isAdmin, (req, res) => exportMonthlySummary(req, res, pool));
+app.post('/api/admin/export/monthly-summary', authenticateToken, isAdminOrManager, (req, res) => exportMonthlySummary(req, res, pool));
 
 // Statistics report
-app.post('/api/admin/export/statistics', authenticateToken, isAdmin, (req, res) => exportStatisticsReport(req, res, pool));
+app.post('/api/admin/export/statistics', authenticateToken, isAdminOrManager, (req, res) => exportStatisticsReport(req, res, pool));
 
-// Payroll report
+// Payroll report (admin only - contains salary data)
 app.post('/api/admin/export/payroll', authenticateToken, isAdmin, (req, res) => exportPayrollReport(req, res, pool));
 
-// Custom date range report
-app.post('/api/admin/export/custom', authenticateToken, isAdmin, (req, res) => exportCustomReport(req, res, pool));
+// Custom report builder (inline definition or saved report)
+app.post('/api/admin/export/custom', authenticateToken, isAdminOrManager, (req, res) => exportCustomReport(req, res, pool));
+app.get('/api/admin/export/custom/sources', authenticateToken, isAdminOrManager, (req, res) => getCustomReportSources(req, res));
+app.get('/api/admin/export/custom/reports', authenticateToken, isAdminOrManager, (req, res) => getSavedReports(req, res, pool));
+app.post('/api/admin/export/custom/reports', authenticateToken, isAdminOrManager, (req, res) => saveCustomReport(req, res, pool));
+app.delete('/api/admin/export/custom/reports/:id', authenticateToken, isAdminOrManager, (req, res) => deleteSavedReport(req, res, pool));
 
 // ==================== CALIBRATION EXPENSE ROUTES ====================
 
@@ -659,14 +1217,27 @@ app.put('/api/calibration/site-visit/:id', authenticateToken, isCalibrationDept,
 app.post('/api/calibration/site-visit/:id/expenses', authenticateToken, isCalibrationDept, (req, res) => addExpense(req, res, pool));
 app.put('/api/calibration/expenses/:id', authenticateToken, isCalibrationDept, (req, res) => updateExpense(req, res, pool));
 app.delete('/api/calibration/expenses/:id', authenticateToken, isCalibrationDept, (req, res) => deleteExpense(req, res, pool));
+app.post('/api/calibration/expenses/:id/receipt', authenticateToken, isCalibrationDept, uploadSingle('receipt'), (req, res) => uploadExpenseReceipt(req, res, pool));
+app.get('/api/calibration/expenses/:id/receipt', authenticateToken, isCalibrationDept, (req, res) => getExpenseReceipt(req, res, pool));
+app.delete('/api/calibration/expenses/:id/receipt', authenticateToken, isCalibrationDept, (req, res) => deleteExpenseReceipt(req, res, pool));
+app.post('/api/calibration/receipts/scan', authenticateToken, isCalibrationDept, uploadSingle('receipt'), (req, res) => scanExpenseReceipt(req, res));
 app.post('/api/calibration/site-visit/:id/submit', authenticateToken, isCalibrationDept, (req, res) => submitForApproval(req, res, pool));
 app.get('/api/calibration/autocomplete', authenticateToken, isCalibrationDept, (req, res) => getAutocompleteSuggestions(req, res, pool));
-
-// Admin routes
-app.get('/api/admin/calibration/pending', authenticateToken, isAdmin, (req, res) => getPendingApprovals(req, res, pool));
-app.get('/api/admin/calibration/history', authenticateToken, isAdmin, (req, res) => getExpenseHistory(req, res, pool));
-app.put('/api/admin/calibration/approve/:id', authenticateToken, isAdmin, (req, res) => approveExpense(req, res, pool));
-app.put('/api/admin/calibration/reject/:id', authenticateToken, isAdmin, (req, res) => rejectExpense(req, res, pool));
+app.get('/api/calibration/expense-policies', authenticateToken, isCalibrationDept, (req, res) => getActiveExpensePolicies(req, res, pool));
+
+// Admin and manager routes (managers only act on their team)
+app.get('/api/admin/calibration/pending', authenticateToken, isAdminOrManager, (req, res) => getPendingApprovals(req, res, pool));
+app.get('/api/admin/calibration/history', authenticateToken, isAdminOrManager, (req, res) => getExpenseHistory(req, res, pool));
+app.put('/api/admin/calibration/approve/:id', authenticateToken, isAdminOrManager, (req, res) => approveExpense(req, res, pool));
+app.put('/api/admin/calibration/reject/:id', authenticateToken, isAdminOrManager, (req, res) => rejectExpense(req, res, pool));
+app.get('/api/admin/calibration/expenses/:id/receipt', authenticateToken, isAdminOrManager, (req, res) => getExpenseReceipt(req, res, pool));
+
+// Expense policies (Admin only)
+app.get('/api/admin/expense-policies', authenticateToken, isAdmin, (req, res) => getExpensePolicies(req, res, pool));
+app.post('/api/admin/expense-policies', authenticateToken, isAdmin, (req, res) => createExpensePolicy(req, res, pool));
+app.put('/api/admin/expense-policies/:type', authenticateToken, isAdmin, (req, res) => updateExpensePolicy(req, res, pool));
+app.put('/api/admin/expense-per-diem', authenticateToken, isAdmin, (req, res) => updatePerDiemRates(req, res, pool));
+app.put('/api/admin/expense-cities', authenticateToken, isAdmin, (req, res) => updateCityTiers(req, res, pool));
 
 // ==================== SALARY & PAYMENT TRACKING ROUTES ====================
 
@@ -679,6 +1250,23 @@ app.use('/api/salary', authenticateToken, salaryRouter);
 // Initialize task routes with pool, middleware, and telegram bot
 setupTaskRoutes(app, pool, authenticateToken, isAdmin, bot);
 
+// ==================== CUSTOMER DIRECTORY ROUTES ====================
+
+app.get('/api/customers', authenticateToken, (req, res) => getCustomers(req, res, pool));
+app.get('/api/customers/:id', authenticateToken, (req, res) => getCustomer(req, res, pool));
+app.post('/api/customers', authenticateToken, (req, res) => createCustomer(req, res, pool));
+app.put('/api/customers/:id', authenticateToken, (req, res) => updateCustomer(req, res, pool));
+app.get('/api/companies', authenticateToken, (req, res) => getCompanies(req, res, pool));
+app.post('/api/companies', authenticateToken, (req, res) => createCompany(req, res, pool));
+app.put('/api/companies/:id', authenticateToken, (req, res) => updateCompany(req, res, pool));
+
+// Admin-only cleanup
+app.delete('/api/admin/customers/:id', authenticateToken, isAdmin, (req, res) => deleteCustomer(req, res, pool));
+app.get('/api/admin/customers/duplicates', authenticateToken, isAdmin, (req, res) => getDuplicateCustomers(req, res, pool));
+app.post('/api/admin/customers/:id/merge', authenticateToken, isAdmin, (req, res) => mergeCustomers(req, res, pool));
+app.delete('/api/admin/companies/:id', authenticateToken, isAdmin, (req, res) => deleteCompany(req, res, pool));
+app.post('/api/admin/companies/:id/merge', authenticateToken, isAdmin, (req, res) => mergeCompanies(req, res, pool));
+
 
 // ==================== JOURNAL/WORK LOGS ROUTES ====================
 
@@ -687,8 +1275,8 @@ app.get('/api/entries', authenticateToken, async (req, res) => {
     try {
         const userId = req.query.userId || req.user.id;
 
-        // Only admins can view other users' entries
-        if (userId != req.user.id && req.user.role !== 'admin') {
+        // Only admins and the user's managers can view other users' entries
+        if (!(await canViewUser(pool, req.user, userId))) {
             return res.status(403).json({ error: 'Access denied' });
         }
 
@@ -800,71 +1388,16 @@ app.delete('/api/entries/:year/:month/:day', authenticateToken, async (req, res)
 
 // ==================== HOLIDAYS ROUTES ====================
 
-// Get holidays
-app.get('/api/holidays', authenticateToken, async (req, res) => {
-    try {
-        const { year } = req.query;
-
-        let query = 'SELECT * FROM holidays';
-        let params = [];
-
-        if (year) {
-            query += ' WHERE EXTRACT(YEAR FROM holiday_date) = $1';
-            params.push(year);
-        }
-
-        query += ' ORDER BY holiday_date';
-
-        const result = await pool.query(query, params);
-        res.json(result.rows);
-    } catch (error) {
-        console.error('❌ Error fetching holidays:', error);
-        res.status(500).json({ error: 'Failed to fetch holidays' });
-    }
-});
-
-// Add holiday (admin only)
-app.post('/api/admin/holidays', authenticateToken, isAdmin, async (req, res) => {
-    try {
-        const { holidayName, holidayDate, description, isRecurring } = req.body;
-
-        const result = await pool.query(
-            `INSERT INTO holidays (holiday_name, holiday_date, description, is_recurring, created_by)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING *`,
-            [holidayName, holidayDate, description, isRecurring, req.user.id]
-        );
-
-        // Log activity
-        await pool.query(
-            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
-            [req.user.id, 'add_holiday', `Added holiday: ${holidayName}`]
-        );
+app.get('/api/holidays', authenticateToken, (req, res) => getHolidays(req, res, pool));
+app.post('/api/admin/holidays', authenticateToken, isAdmin, (req, res) => addHoliday(req, res, pool));
+app.delete('/api/admin/holidays/:id', authenticateToken, isAdmin, (req, res) => deleteHoliday(req, res, pool));
 
-        res.json(result.rows[0]);
-    } catch (error) {
-        console.error('❌ Error adding holiday:', error);
-        res.status(500).json({ error: 'Failed to add holiday' });
-    }
-});
-
-// Delete holiday (admin only)
-app.delete('/api/admin/holidays/:id', authenticateToken, isAdmin, async (req, res) => {
-    try {
-        await pool.query('DELETE FROM holidays WHERE id = $1', [req.params.id]);
-
-        // Log activity
-        await pool.query(
-            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
-            [req.user.id, 'delete_holiday', `Deleted holiday ID: ${req.params.id}`]
-        );
-
-        res.json({ success: true });
-    } catch (error) {
-        console.error('❌ Error deleting holiday:', error);
-        res.status(500).json({ error: 'Failed to delete holiday' });
-    }
-});
+// Holiday calendars (by department / office location)
+app.get('/api/admin/holiday-calendars', authenticateToken, isAdmin, (req, res) => getHolidayCalendars(req, res, pool));
+app.post('/api/admin/holiday-calendars', authenticateToken, isAdmin, (req, res) => createHolidayCalendar(req, res, pool));
+app.put('/api/admin/holiday-calendars/:id', authenticateToken, isAdmin, (req, res) => updateHolidayCalendar(req, res, pool));
+app.delete('/api/admin/holiday-calendars/:id', authenticateToken, isAdmin, (req, res) => deleteHolidayCalendar(req, res, pool));
+app.post('/api/admin/holiday-calendars/:id/import', authenticateToken, isAdmin, express.text({ type: 'text/calendar', limit: '2mb' }), (req, res) => importHolidayCalendar(req, res, pool));
 
 // ==================== ADMIN DASHBOARD ====================
 
@@ -913,8 +1446,8 @@ app.get('/api/monthly-summary/:year/:month', authenticateToken, async (req, res)
         const { year, month } = req.params;
         const userId = req.query.userId || req.user.id;
 
-        // Only admins can view other users' summaries
-        if (userId != req.user.id && req.user.role !== 'admin') {
+        // Only admins and the user's managers can view other users' summaries
+        if (!(await canViewUser(pool, req.user, userId))) {
             return res.status(403).json({ error: 'Access denied' });
         }
 
@@ -0,0 +1,424 @@
+// ==================== EMPLOYEE INVITES ====================
+// An invite is a pre-created users row (inactive, not yet approved) holding
+// the preset role, department, joining date and manager. Accepting it with
+// Google or a password activates that row, so it never enters the approval
+// queue. Only the hash of the invite token is stored.
+
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { sendInviteEmail, isEmailServiceAvailable } from './email-service.js';
+import { sendInviteNotification } from './telegram-scheduled-jobs.js';
+import { completeLogin, isAuthMethodEnabled, uniqueUsername, MIN_PASSWORD_LENGTH } from './local-auth-routes.js';
+
+const INVITE_ROLES = ['admin', 'manager', 'employee'];
+const INVITE_CHANNELS = ['email', 'telegram', 'link'];
+const DEFAULT_INVITE_DAYS = 7;
+
+function hashToken(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function inviteLink(token) {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    return `${frontendUrl}/invite?token=${token}`;
+}
+
+function inviteStatus(invite) {
+    if (invite.invite_accepted_at) return 'accepted';
+    if (invite.invite_revoked_at) return 'revoked';
+    if (new Date(invite.invite_expires_at) < new Date()) return 'expired';
+    return 'pending';
+}
+
+function formatInvite(invite) {
+    return {
+        id: invite.id,
+        fullName: invite.full_name,
+        email: invite.email,
+        role: invite.role,
+        department: invite.department,
+        joiningDate: invite.joining_date,
+        managerId: invite.manager_id,
+        telegramChatId: invite.telegram_chat_id,
+        invitedByName: invite.invited_by_name,
+        sentVia: invite.invite_sent_via,
+        sentAt: invite.invite_sent_at,
+        expiresAt: invite.invite_expires_at,
+        revokedAt: invite.invite_revoked_at,
+        createdAt: invite.created_at,
+        status: inviteStatus(invite)
+    };
+}
+
+// Deliver an invite link; returns the channel it actually went out on
+async function deliverInvite(invite, token, sendVia, inviterName) {
+    const link = inviteLink(token);
+
+    if (sendVia === 'email') {
+        const sent = await sendInviteEmail(invite.email, link, invite.full_name, inviterName, invite.invite_expires_at);
+        return sent ? 'email' : 'link';
+    }
+
+    if (sendVia === 'telegram' && invite.telegram_chat_id) {
+        const sent = await sendInviteNotification(invite.telegram_chat_id, invite.full_name, link, invite.invite_expires_at);
+        return sent ? 'telegram' : 'link';
+    }
+
+    return 'link';
+}
+
+// Open invite for a raw token (or, without one, for an email), or null
+async function findOpenInvite(db, { token, email }) {
+    const result = await db.query(
+        `SELECT u.*, inviter.full_name as invited_by_name
+         FROM users u
+         LEFT JOIN users inviter ON inviter.id = u.invited_by
+         WHERE ${token ? 'u.invite_token = $1' : 'LOWER(u.email) = LOWER($1)'}
+           AND u.invited_by IS NOT NULL
+           AND u.invite_accepted_at IS NULL AND u.invite_revoked_at IS NULL
+           AND u.invite_expires_at > NOW()`,
+        [token ? hashToken(token) : email]
+    );
+
+    return result.rows[0] || null;
+}
+
+/**
+ * Activate an invited record for a Google login (called from the Google
+ * strategy). Without a token, an open invite for the Google email is used,
+ * since Google has verified that address. Returns the activated user, or
+ * null when there is no open invite or the Google account already belongs
+ * to someone else.
+ */
+export async function acceptInviteWithGoogle(db, token, profile) {
+    const invite = await findOpenInvite(db, { token, email: profile.emails[0].value });
+
+    if (!invite) {
+        return null;
+    }
+
+    const existing = await db.query('SELECT id FROM users WHERE google_id = $1', [profile.id]);
+    if (existing.rows.length > 0) {
+        console.warn(`⚠️ Invite for ${invite.email} not accepted: Google account already linked to another user`);
+        return null;
+    }
+
+    const result = await db.query(
+        `UPDATE users
+         SET google_id = $1, google_email = $2, avatar_url = $3,
+             is_active = true, is_approved = true,
+             invite_accepted_at = CURRENT_TIMESTAMP, invite_token = NULL,
+             last_login = CURRENT_TIMESTAMP
+         WHERE id = $4
+         RETURNING *`,
+        [profile.id, profile.emails[0].value, profile.photos[0]?.value, invite.id]
+    );
+
+    await db.query(
+        'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+        [invite.id, 'invite_accepted', `${invite.full_name} accepted their invite with Google`]
+    );
+
+    console.log(`✅ Invite accepted with Google: ${invite.email} (${invite.employee_id})`);
+
+    return result.rows[0];
+}
+
+/**
+ * Invites that have not been accepted yet (admin)
+ * GET /api/admin/invites
+ */
+export const getInvites = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT u.*, inviter.full_name as invited_by_name
+             FROM users u
+             LEFT JOIN users inviter ON inviter.id = u.invited_by
+             WHERE u.invited_by IS NOT NULL AND u.invite_accepted_at IS NULL
+             ORDER BY u.created_at DESC`
+        );
+
+        res.json({
+            invites: result.rows.map(formatInvite),
+            emailConfigured: isEmailServiceAvailable()
+        });
+    } catch (error) {
+        console.error('❌ Error fetching invites:', error);
+        res.status(500).json({ error: 'Failed to fetch invites' });
+    }
+};
+
+/**
+ * Pre-create an employee and send them an invite (admin)
+ * POST /api/admin/invites
+ * { fullName, email, role, department, joiningDate, managerId, telegramChatId, sendVia, expiresInDays }
+ */
+export const createInvite = async (req, res, pool) => {
+    try {
+        const {
+            fullName, email, role = 'employee', department, joiningDate,
+            managerId, telegramChatId, sendVia = 'email', expiresInDays = DEFAULT_INVITE_DAYS
+        } = req.body;
+
+        if (!fullName?.trim() || !email?.trim()) {
+            return res.status(400).json({ error: 'Full name and email are required' });
+        }
+
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+            return res.status(400).json({ error: 'Please enter a valid email address' });
+        }
+
+        if (!INVITE_ROLES.includes(role)) {
+            return res.status(400).json({ error: `Role must be one of: ${INVITE_ROLES.join(', ')}` });
+        }
+
+        if (!INVITE_CHANNELS.includes(sendVia)) {
+            return res.status(400).json({ error: `Send via must be one of: ${INVITE_CHANNELS.join(', ')}` });
+        }
+
+        if (sendVia === 'telegram' && !telegramChatId) {
+            return res.status(400).json({ error: 'A Telegram chat ID is needed to send the invite by Telegram' });
+        }
+
+        const days = parseInt(expiresInDays);
+        if (!days || days < 1 || days > 30) {
+            return res.status(400).json({ error: 'Invites can last between 1 and 30 days' });
+        }
+
+        if (managerId) {
+            const manager = await pool.query('SELECT role FROM users WHERE id = $1 AND is_active = true', [managerId]);
+            if (manager.rows.length === 0 || manager.rows[0].role !== 'manager') {
+                return res.status(400).json({ error: 'Reporting manager must be an active user with the manager role' });
+            }
+        }
+
+        const existing = await pool.query('SELECT id, invited_by, invite_accepted_at FROM users WHERE LOWER(email) = LOWER($1)', [email.trim()]);
+        if (existing.rows.length > 0) {
+            const isOpenInvite = existing.rows[0].invited_by && !existing.rows[0].invite_accepted_at;
+            return res.status(409).json({
+                error: isOpenInvite
+                    ? 'This email already has an invite. Resend it from the invite list instead.'
+                    : 'A user with this email already exists'
+            });
+        }
+
+        const token = crypto.randomBytes(32).toString('base64url');
+        const username = await uniqueUsername(pool, email);
+
+        // employee_id is assigned by the database trigger
+        const result = await pool.query(
+            `INSERT INTO users (
+                username, email, full_name, role, department, joining_date, manager_id, telegram_chat_id,
+                is_active, is_approved, invited_by, invite_token, invite_expires_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, false, false, $9, $10, NOW() + ($11 || ' days')::interval)
+            RETURNING *`,
+            [
+                username, email.trim(), fullName.trim(), role, department || null, joiningDate || null,
+                managerId || null, telegramChatId || null, req.user.id, hashToken(token), days
+            ]
+        );
+        const invite = result.rows[0];
+
+        const sentVia = await deliverInvite(invite, token, sendVia, req.user.fullName || req.user.username);
+
+        const updated = await pool.query(
+            `UPDATE users SET invite_sent_via = $1, invite_sent_at = CURRENT_TIMESTAMP
+             WHERE id = $2
+             RETURNING *`,
+            [sentVia, invite.id]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'create_invite', `Invited ${invite.full_name} (${invite.email}) as ${role}`]
+        );
+
+        console.log(`✅ Admin ${req.user.username} invited ${invite.email} (${invite.employee_id}) via ${sentVia}`);
+
+        res.status(201).json({
+            invite: formatInvite(updated.rows[0]),
+            link: inviteLink(token),
+            delivered: sentVia === sendVia
+        });
+    } catch (error) {
+        console.error('❌ Error creating invite:', error);
+        res.status(500).json({ error: 'Failed to create invite' });
+    }
+};
+
+/**
+ * Issue a fresh link for an invite (also reopens expired or revoked ones)
+ * POST /api/admin/invites/:id/resend { sendVia, expiresInDays }
+ */
+export const resendInvite = async (req, res, pool) => {
+    try {
+        const { sendVia = 'email', expiresInDays = DEFAULT_INVITE_DAYS } = req.body;
+
+        if (!INVITE_CHANNELS.includes(sendVia)) {
+            return res.status(400).json({ error: `Send via must be one of: ${INVITE_CHANNELS.join(', ')}` });
+        }
+
+        const days = parseInt(expiresInDays);
+        if (!days || days < 1 || days > 30) {
+            return res.status(400).json({ error: 'Invites can last between 1 and 30 days' });
+        }
+
+        const existing = await pool.query(
+            `SELECT telegram_chat_id FROM users
+             WHERE id = $1 AND invited_by IS NOT NULL AND invite_accepted_at IS NULL`,
+            [req.params.id]
+        );
+
+        if (existing.rows.length === 0) {
+            return res.status(404).json({ error: 'Invite not found or already accepted' });
+        }
+
+        if (sendVia === 'telegram' && !existing.rows[0].telegram_chat_id) {
+            return res.status(400).json({ error: 'This invite has no Telegram chat ID' });
+        }
+
+        const token = crypto.randomBytes(32).toString('base64url');
+
+        const result = await pool.query(
+            `UPDATE users
+             SET invite_token = $1, invite_expires_at = NOW() + ($2 || ' days')::interval,
+                 invite_revoked_at = NULL
+             WHERE id = $3
+             RETURNING *`,
+            [hashToken(token), days, req.params.id]
+        );
+        const invite = result.rows[0];
+
+        const sentVia = await deliverInvite(invite, token, sendVia, req.user.fullName || req.user.username);
+
+        const updated = await pool.query(
+            `UPDATE users SET invite_sent_via = $1, invite_sent_at = CURRENT_TIMESTAMP
+             WHERE id = $2
+             RETURNING *`,
+            [sentVia, invite.id]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'resend_invite', `Resent invite to ${invite.full_name} (${invite.email})`]
+        );
+
+        res.json({
+            invite: formatInvite(updated.rows[0]),
+            link: inviteLink(token),
+            delivered: sentVia === sendVia
+        });
+    } catch (error) {
+        console.error('❌ Error resending invite:', error);
+        res.status(500).json({ error: 'Failed to resend invite' });
+    }
+};
+
+/**
+ * Cancel an invite; the record stays so it shows as revoked
+ * DELETE /api/admin/invites/:id
+ */
+export const revokeInvite = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `UPDATE users
+             SET invite_token = NULL, invite_revoked_at = CURRENT_TIMESTAMP
+             WHERE id = $1 AND invited_by IS NOT NULL
+               AND invite_accepted_at IS NULL AND invite_revoked_at IS NULL
+             RETURNING full_name, email`,
+            [req.params.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Open invite not found' });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'revoke_invite', `Revoked invite for ${result.rows[0].full_name} (${result.rows[0].email})`]
+        );
+
+        res.json({ success: true, message: 'Invite revoked' });
+    } catch (error) {
+        console.error('❌ Error revoking invite:', error);
+        res.status(500).json({ error: 'Failed to revoke invite' });
+    }
+};
+
+/**
+ * Invite details for the accept page (public)
+ * GET /api/auth/invites/:token
+ */
+export const getInviteByToken = async (req, res, pool) => {
+    try {
+        const invite = await findOpenInvite(pool, { token: req.params.token });
+
+        if (!invite) {
+            return res.status(404).json({ error: 'This invite is invalid, has expired or was cancelled. Please ask your admin for a new one.' });
+        }
+
+        res.json({
+            fullName: invite.full_name,
+            email: invite.email,
+            role: invite.role,
+            department: invite.department,
+            invitedByName: invite.invited_by_name,
+            expiresAt: invite.invite_expires_at,
+            passwordEnabled: await isAuthMethodEnabled(pool, 'password')
+        });
+    } catch (error) {
+        console.error('❌ Error fetching invite:', error);
+        res.status(500).json({ error: 'Failed to load invite' });
+    }
+};
+
+/**
+ * Accept an invite by choosing a password, and log in
+ * POST /api/auth/invites/:token/accept { password }
+ */
+export const acceptInviteWithPassword = async (req, res, pool) => {
+    try {
+        const { password } = req.body;
+
+        if (!password || password.length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+        }
+
+        if (!(await isAuthMethodEnabled(pool, 'password'))) {
+            return res.status(403).json({ error: 'Password login is disabled. Please accept with Google.' });
+        }
+
+        const passwordHash = await bcrypt.hash(password, 10);
+
+        // Single statement so a link cannot be accepted twice
+        const result = await pool.query(
+            `UPDATE users
+             SET password_hash = $1, password_changed_at = CURRENT_TIMESTAMP,
+                 is_active = true, is_approved = true,
+                 invite_accepted_at = CURRENT_TIMESTAMP, invite_token = NULL
+             WHERE invite_token = $2
+               AND invite_accepted_at IS NULL AND invite_revoked_at IS NULL
+               AND invite_expires_at > NOW()
+             RETURNING *`,
+            [passwordHash, hashToken(req.params.token)]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'This invite is invalid, has expired or was cancelled. Please ask your admin for a new one.' });
+        }
+
+        const user = result.rows[0];
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [user.id, 'invite_accepted', `${user.full_name} accepted their invite with a password`]
+        );
+
+        console.log(`✅ Invite accepted with password: ${user.email} (${user.employee_id})`);
+
+        await completeLogin(pool, user, 'after accepting invite', req, res);
+    } catch (error) {
+        console.error('❌ Error accepting invite:', error);
+        res.status(500).json({ error: 'Failed to accept invite' });
+    }
+};
@@ -0,0 +1,740 @@
+// ==================== LEAVE REQUEST MANAGEMENT ====================
+// Routes for employee leave requests and admin approval workflow
+
+import { sendLeaveStatusNotification } from './telegram-scheduled-jobs.js';
+import { getTeamUserIds, isInTeam } from './team-scope.js';
+
+const LEAVE_TYPES = ['casual', 'sick', 'vacation', 'personal'];
+
+// Inclusive day count, matching the sync_leave_quota trigger
+function countLeaveDays(startDate, endDate) {
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    return Math.round((end - start) / (1000 * 60 * 60 * 24)) + 1;
+}
+
+/**
+ * Check a request against the leave-type quota for the start date's year.
+ * Returns { remaining } when it fits, or { error } with a user-facing message.
+ */
+export async function checkLeaveQuota(db, userId, leaveType, startDate, endDate) {
+    const year = new Date(startDate).getFullYear();
+    const days = countLeaveDays(startDate, endDate);
+
+    await db.query('SELECT ensure_leave_quotas($1, $2)', [userId, year]);
+
+    const result = await db.query(
+        `SELECT quota + carried_forward - taken - pending as remaining
+         FROM leave_quotas
+         WHERE user_id = $1 AND year = $2 AND leave_type = $3`,
+        [userId, year, leaveType]
+    );
+
+    const remaining = result.rows[0]?.remaining ?? 0;
+
+    if (days > remaining) {
+        return {
+            error: `Insufficient ${leaveType} leave balance. Requested ${days} day(s), ${remaining} remaining in ${year}.`
+        };
+    }
+
+    return { remaining };
+}
+
+// Current balance per leave type for one user-year
+async function getLeaveQuotas(db, userId, year) {
+    await db.query('SELECT ensure_leave_quotas($1, $2)', [userId, year]);
+
+    const result = await db.query(
+        `SELECT leave_type, quota, carried_forward, taken, pending,
+                quota + carried_forward - taken - pending as remaining
+         FROM leave_quotas
+         WHERE user_id = $1 AND year = $2
+         ORDER BY leave_type ASC`,
+        [userId, year]
+    );
+
+    return result.rows;
+}
+
+/**
+ * Create a leave request for the logged-in user
+ * POST /api/leave
+ */
+export const createLeaveRequest = async (req, res, pool) => {
+    try {
+        const { startDate, endDate, leaveType = 'casual', reason } = req.body;
+        const userId = req.user.id;
+
+        // Validation
+        if (!startDate || !endDate) {
+            return res.status(400).json({ error: 'Start date and end date are required' });
+        }
+
+        if (!LEAVE_TYPES.includes(leaveType)) {
+            return res.status(400).json({ error: `Leave type must be one of: ${LEAVE_TYPES.join(', ')}` });
+        }
+
+        const start = new Date(startDate);
+        const end = new Date(endDate);
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+
+        if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+            return res.status(400).json({ error: 'Invalid date format. Use YYYY-MM-DD.' });
+        }
+
+        if (start < today) {
+            return res.status(400).json({ error: 'Start date cannot be in the past' });
+        }
+
+        if (end < start) {
+            return res.status(400).json({ error: 'End date must be after start date' });
+        }
+
+        // Reject overlaps with an existing pending/approved request
+        const overlap = await pool.query(
+            `SELECT id FROM leave_requests
+             WHERE user_id = $1 AND status IN ('pending', 'approved')
+               AND start_date <= $3 AND end_date >= $2`,
+            [userId, startDate, endDate]
+        );
+
+        if (overlap.rows.length > 0) {
+            return res.status(400).json({ error: 'You already have a leave request covering these dates' });
+        }
+
+        const days = countLeaveDays(startDate, endDate);
+
+        // Check the leave-type quota before the leave_quotas CHECK constraint does
+        const quotaCheck = await checkLeaveQuota(pool, userId, leaveType, startDate, endDate);
+        if (quotaCheck.error) {
+            return res.status(400).json({ error: quotaCheck.error });
+        }
+
+        const result = await pool.query(
+            `INSERT INTO leave_requests (user_id, start_date, end_date, leave_type, reason, status)
+             VALUES ($1, $2, $3, $4, $5, 'pending')
+             RETURNING *`,
+            [userId, startDate, endDate, leaveType, reason?.trim() || null]
+        );
+
+        // Notify admins and the reporting manager
+        const admins = await pool.query(
+            `SELECT id FROM users
+             WHERE is_active = true
+               AND (role = $1 OR id = (SELECT manager_id FROM users WHERE id = $2))`,
+            ['admin', userId]
+        );
+
+        for (const admin of admins.rows) {
+            await pool.query(
+                `INSERT INTO notifications (user_id, type, title, message, link)
+                 VALUES ($1, $2, $3, $4, $5)`,
+                [
+                    admin.id,
+                    'leave_request',
+                    'New Leave Request',
+                    `${req.user.username} requested ${days} day(s) ${leaveType} leave${reason ? `: ${reason.trim()}` : ''}`,
+                    '/admin?panel=leave'
+                ]
+            );
+        }
+
+        // Log activity
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [userId, 'leave_request', `Requested ${days} day(s) ${leaveType} leave from ${startDate} to ${endDate}`]
+        );
+
+        console.log(`🌴 ${req.user.username} requested leave: ${startDate} to ${endDate}`);
+
+        res.status(201).json(result.rows[0]);
+    } catch (error) {
+        if (error.code === '23514') {
+            return res.status(400).json({ error: 'Leave quota exceeded' });
+        }
+        console.error('❌ Error creating leave request:', error);
+        res.status(500).json({ error: 'Failed to create leave request' });
+    }
+};
+
+/**
+ * Get leave requests and balance for the logged-in user
+ * GET /api/leave
+ */
+export const getMyLeaveRequests = async (req, res, pool) => {
+    try {
+        const { status } = req.query;
+
+        let query = `
+            SELECT lr.*, approver.full_name as approved_by_name
+            FROM leave_requests lr
+            LEFT JOIN users approver ON lr.approved_by = approver.id
+            WHERE lr.user_id = $1
+        `;
+        const params = [req.user.id];
+
+        if (status) {
+            query += ' AND lr.status = $2';
+            params.push(status);
+        }
+
+        query += ' ORDER BY lr.start_date DESC';
+
+        const [requests, settings, quotas] = await Promise.all([
+            pool.query(query, params),
+            pool.query(
+                'SELECT annual_leave_quota, leaves_taken, leaves_pending FROM user_settings WHERE user_id = $1',
+                [req.user.id]
+            ),
+            getLeaveQuotas(pool, req.user.id, new Date().getFullYear())
+        ]);
+
+        const balance = settings.rows[0] || { annual_leave_quota: 0, leaves_taken: 0, leaves_pending: 0 };
+
+        res.json({
+            requests: requests.rows,
+            balance: {
+                quota: balance.annual_leave_quota,
+                taken: balance.leaves_taken,
+                pending: balance.leaves_pending,
+                remaining: balance.annual_leave_quota - balance.leaves_taken - balance.leaves_pending
+            },
+            quotas
+        });
+    } catch (error) {
+        console.error('❌ Error fetching leave requests:', error);
+        res.status(500).json({ error: 'Failed to fetch leave requests' });
+    }
+};
+
+/**
+ * Cancel a pending leave, or an approved leave that has not started yet
+ * PUT /api/leave/:id/cancel
+ */
+export const cancelLeaveRequest = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const { id } = req.params;
+        const userId = req.user.id;
+
+        await client.query('BEGIN');
+
+        const leaveCheck = await client.query(
+            'SELECT * FROM leave_requests WHERE id = $1 AND user_id = $2 FOR UPDATE',
+            [id, userId]
+        );
+
+        if (leaveCheck.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Leave request not found' });
+        }
+
+        const leave = leaveCheck.rows[0];
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+
+        const cancellable = leave.status === 'pending' ||
+            (leave.status === 'approved' && new Date(leave.start_date) > today);
+
+        if (!cancellable) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({
+                error: `Cannot cancel. Current status: ${leave.status}`
+            });
+        }
+
+        // sync_leave_quota trigger releases the pending/taken days
+        await client.query(
+            `UPDATE leave_requests
+             SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1`,
+            [id]
+        );
+
+        // Remove attendance rows written on approval
+        if (leave.status === 'approved') {
+            await client.query(
+                `DELETE FROM attendance
+                 WHERE user_id = $1 AND date BETWEEN $2 AND $3 AND status = 'on_leave'`,
+                [userId, leave.start_date, leave.end_date]
+            );
+        }
+
+        await client.query('COMMIT');
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [userId, 'leave_cancelled', `Cancelled ${leave.status} leave request #${id}`]
+        );
+
+        res.json({
+            success: true,
+            message: 'Leave request cancelled'
+        });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error cancelling leave request:', error);
+        res.status(500).json({ error: 'Failed to cancel leave request' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Get pending leave requests (Admin, or a manager's team)
+ * GET /api/admin/leave/pending
+ */
+export const getPendingLeaveRequests = async (req, res, pool) => {
+    try {
+        const teamIds = await getTeamUserIds(pool, req.user);
+
+        const result = await pool.query(
+            `SELECT lr.*, u.full_name, u.employee_id, u.department,
+                    (lr.end_date - lr.start_date + 1) as days,
+                    us.annual_leave_quota, us.leaves_taken, us.leaves_pending
+             FROM leave_requests lr
+             JOIN users u ON lr.user_id = u.id
+             LEFT JOIN user_settings us ON us.user_id = lr.user_id
+             WHERE lr.status = 'pending'
+               AND ($1::int[] IS NULL OR lr.user_id = ANY($1))
+             ORDER BY lr.start_date ASC, lr.created_at ASC`,
+            [teamIds]
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error fetching pending leave requests:', error);
+        res.status(500).json({ error: 'Failed to fetch pending leave requests' });
+    }
+};
+
+/**
+ * Approve leave request and mark the range as on_leave (Admin or manager)
+ * PUT /api/admin/leave/:id/approve
+ */
+export const approveLeaveRequest = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const { id } = req.params;
+        const adminId = req.user.id;
+
+        await client.query('BEGIN');
+
+        const leaveCheck = await client.query(
+            `SELECT lr.*, u.full_name
+             FROM leave_requests lr
+             JOIN users u ON lr.user_id = u.id
+             WHERE lr.id = $1
+             FOR UPDATE OF lr`,
+            [id]
+        );
+
+        if (leaveCheck.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Leave request not found' });
+        }
+
+        const leave = leaveCheck.rows[0];
+
+        if (!(await isInTeam(client, req.user, leave.user_id))) {
+            await client.query('ROLLBACK');
+            return res.status(403).json({ error: 'Leave request is not from your team' });
+        }
+
+        if (leave.status !== 'pending') {
+            await client.query('ROLLBACK');
+            return res.status(400).json({
+                error: `Cannot approve. Current status: ${leave.status}`
+            });
+        }
+
+        // Trigger moves the days from leaves_pending to leaves_taken
+        await client.query(
+            `UPDATE leave_requests
+             SET status = 'approved', approved_by = $1, approved_at = CURRENT_TIMESTAMP,
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $2`,
+            [adminId, id]
+        );
+
+        // Write on_leave attendance for working days, without overwriting days already worked
+        const attendanceResult = await client.query(
+            `INSERT INTO attendance (user_id, date, status, notes, marked_at)
+             SELECT $1, d::date, 'on_leave', $4, NOW()
+             FROM generate_series($2::date, $3::date, INTERVAL '1 day') d
+             WHERE EXTRACT(DOW FROM d) NOT IN (0, 6)
+               AND d::date NOT IN (SELECT holiday_date FROM user_holidays($1, $2::date, $3::date))
+             ON CONFLICT (user_id, date) DO UPDATE
+             SET status = 'on_leave', notes = EXCLUDED.notes
+             WHERE attendance.status = 'absent'`,
+            [leave.user_id, leave.start_date, leave.end_date, `Approved ${leave.leave_type} leave #${id}`]
+        );
+
+        // Notify employee
+        await client.query(
+            `INSERT INTO notifications (user_id, type, title, message, link)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [
+                leave.user_id,
+                'leave_approved',
+                'Leave Approved',
+                `Your ${leave.leave_type} leave request has been approved.`,
+                '/calendar?panel=leave'
+            ]
+        );
+
+        await client.query('COMMIT');
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [adminId, 'leave_approved', `Approved ${leave.full_name}'s ${leave.leave_type} leave #${id} (${attendanceResult.rowCount} attendance day(s) marked)`]
+        );
+
+        // Telegram notification (no-op if bot not configured)
+        await sendLeaveStatusNotification(leave.user_id, 'approved', leave.start_date, leave.end_date);
+
+        console.log(`✅ ${req.user.role === 'admin' ? 'Admin' : 'Manager'} ${req.user.username} approved leave #${id} for ${leave.full_name}`);
+
+        res.json({
+            success: true,
+            message: 'Leave request approved',
+            attendanceDaysMarked: attendanceResult.rowCount
+        });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error approving leave request:', error);
+        res.status(500).json({ error: 'Failed to approve leave request' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Reject leave request with reason (Admin or manager)
+ * PUT /api/admin/leave/:id/reject
+ */
+export const rejectLeaveRequest = async (req, res, pool) => {
+    try {
+        const { id } = req.params;
+        const { reason } = req.body;
+        const adminId = req.user.id;
+
+        if (!reason || !reason.trim()) {
+            return res.status(400).json({ error: 'Rejection reason is required' });
+        }
+
+        const teamIds = await getTeamUserIds(pool, req.user);
+
+        const result = await pool.query(
+            `UPDATE leave_requests
+             SET status = 'rejected', approved_by = $1, approved_at = CURRENT_TIMESTAMP,
+                 rejection_reason = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $3 AND status = 'pending'
+               AND ($4::int[] IS NULL OR user_id = ANY($4))
+             RETURNING *`,
+            [adminId, reason.trim(), id, teamIds]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Pending leave request not found' });
+        }
+
+        const leave = result.rows[0];
+
+        // Notify employee
+        await pool.query(
+            `INSERT INTO notifications (user_id, type, title, message, link)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [
+                leave.user_id,
+                'leave_rejected',
+                'Leave Request Rejected',
+                `Your ${leave.leave_type} leave request was rejected. Reason: ${reason.trim()}`,
+                '/calendar?panel=leave'
+            ]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [adminId, 'leave_rejected', `Rejected leave #${id}: ${reason.trim()}`]
+        );
+
+        await sendLeaveStatusNotification(leave.user_id, 'rejected', leave.start_date, leave.end_date, reason.trim());
+
+        console.log(`❌ ${req.user.role === 'admin' ? 'Admin' : 'Manager'} ${req.user.username} rejected leave #${id}`);
+
+        res.json({
+            success: true,
+            message: 'Leave request rejected'
+        });
+    } catch (error) {
+        console.error('❌ Error rejecting leave request:', error);
+        res.status(500).json({ error: 'Failed to reject leave request' });
+    }
+};
+
+// ==================== LEAVE QUOTA MANAGEMENT (ADMIN) ====================
+
+/**
+ * Open a quota year for all active employees. Each leave type keeps the
+ * employee's previous quota (or the policy default) and carries forward
+ * unused days up to the policy's carry_forward_max. Safe to re-run.
+ * Returns the number of employees reset.
+ */
+export async function resetLeaveQuotas(pool, year) {
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const result = await client.query(
+            `INSERT INTO leave_quotas (user_id, year, leave_type, quota, carried_forward)
+             SELECT u.id, $1, p.leave_type,
+                    COALESCE(prev.quota, p.default_quota),
+                    LEAST(
+                        GREATEST(COALESCE(prev.quota + prev.carried_forward - prev.taken - prev.pending, 0), 0),
+                        p.carry_forward_max
+                    )
+             FROM users u
+             CROSS JOIN leave_type_policies p
+             LEFT JOIN leave_quotas prev
+               ON prev.user_id = u.id AND prev.year = $1 - 1 AND prev.leave_type = p.leave_type
+             WHERE u.role IS NOT NULL AND u.is_active = true
+             ON CONFLICT (user_id, year, leave_type) DO UPDATE
+             SET carried_forward = GREATEST(
+                     EXCLUDED.carried_forward,
+                     leave_quotas.taken + leave_quotas.pending - leave_quotas.quota
+                 ),
+                 updated_at = CURRENT_TIMESTAMP
+             RETURNING user_id`,
+            [year]
+        );
+
+        const userIds = [...new Set(result.rows.map(row => row.user_id))];
+
+        for (const userId of userIds) {
+            await client.query('SELECT refresh_user_leave_settings($1)', [userId]);
+        }
+
+        await client.query('COMMIT');
+
+        console.log(`🌴 Leave quotas reset for ${year}: ${userIds.length} employees`);
+
+        return userIds.length;
+    } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Yearly job: open the new quota year on January 1st
+ */
+export async function processYearlyLeaveReset(pool) {
+    try {
+        await resetLeaveQuotas(pool, new Date().getFullYear());
+    } catch (error) {
+        console.error('❌ Error resetting leave quotas:', error);
+    }
+}
+
+/**
+ * Get default quota and carry-forward rule per leave type
+ * GET /api/admin/leave-quotas/policies
+ */
+export const getLeavePolicies = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT leave_type, default_quota, carry_forward_max, updated_at
+             FROM leave_type_policies
+             ORDER BY leave_type ASC`
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error fetching leave policies:', error);
+        res.status(500).json({ error: 'Failed to fetch leave policies' });
+    }
+};
+
+/**
+ * Update leave type policies
+ * PUT /api/admin/leave-quotas/policies { policies: [{ leave_type, default_quota, carry_forward_max }] }
+ */
+export const updateLeavePolicies = async (req, res, pool) => {
+    try {
+        const { policies } = req.body;
+
+        if (!Array.isArray(policies) || policies.length === 0) {
+            return res.status(400).json({ error: 'Policies are required' });
+        }
+
+        for (const policy of policies) {
+            if (!LEAVE_TYPES.includes(policy.leave_type)) {
+                return res.status(400).json({ error: `Leave type must be one of: ${LEAVE_TYPES.join(', ')}` });
+            }
+            if (!Number.isInteger(policy.default_quota) || policy.default_quota < 0 || policy.default_quota > 365) {
+                return res.status(400).json({ error: 'Default quota must be a whole number between 0 and 365' });
+            }
+            if (!Number.isInteger(policy.carry_forward_max) || policy.carry_forward_max < 0 || policy.carry_forward_max > 365) {
+                return res.status(400).json({ error: 'Carry-forward limit must be a whole number between 0 and 365' });
+            }
+        }
+
+        for (const policy of policies) {
+            await pool.query(
+                `UPDATE leave_type_policies
+                 SET default_quota = $1, carry_forward_max = $2, updated_by = $3, updated_at = CURRENT_TIMESTAMP
+                 WHERE leave_type = $4`,
+                [policy.default_quota, policy.carry_forward_max, req.user.id, policy.leave_type]
+            );
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_leave_policies', `Updated leave policies: ${policies.map(p => `${p.leave_type} ${p.default_quota}/${p.carry_forward_max}`).join(', ')}`]
+        );
+
+        const result = await pool.query(
+            'SELECT leave_type, default_quota, carry_forward_max, updated_at FROM leave_type_policies ORDER BY leave_type ASC'
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error updating leave policies:', error);
+        res.status(500).json({ error: 'Failed to update leave policies' });
+    }
+};
+
+/**
+ * Get an employee's quotas for a year
+ * GET /api/admin/leave-quotas/:userId?year=
+ */
+export const getUserLeaveQuotas = async (req, res, pool) => {
+    try {
+        const userId = parseInt(req.params.userId);
+        const year = parseInt(req.query.year) || new Date().getFullYear();
+
+        const user = await pool.query('SELECT id FROM users WHERE id = $1', [userId]);
+        if (user.rows.length === 0) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        res.json({ year, quotas: await getLeaveQuotas(pool, userId, year) });
+    } catch (error) {
+        console.error('❌ Error fetching leave quotas:', error);
+        res.status(500).json({ error: 'Failed to fetch leave quotas' });
+    }
+};
+
+/**
+ * Set an employee's quota per leave type for a year
+ * PUT /api/admin/leave-quotas/:userId { year, quotas: { casual: 5, ... } }
+ */
+export const updateUserLeaveQuotas = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const userId = parseInt(req.params.userId);
+        const { quotas } = req.body;
+        const year = parseInt(req.body.year) || new Date().getFullYear();
+
+        if (!quotas || typeof quotas !== 'object') {
+            return res.status(400).json({ error: 'Quotas are required' });
+        }
+
+        const entries = Object.entries(quotas);
+
+        for (const [leaveType, quota] of entries) {
+            if (!LEAVE_TYPES.includes(leaveType)) {
+                return res.status(400).json({ error: `Leave type must be one of: ${LEAVE_TYPES.join(', ')}` });
+            }
+            if (!Number.isInteger(quota) || quota < 0 || quota > 365) {
+                return res.status(400).json({ error: 'Quota must be a whole number between 0 and 365' });
+            }
+        }
+
+        await client.query('BEGIN');
+
+        const user = await client.query('SELECT full_name FROM users WHERE id = $1', [userId]);
+        if (user.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        await client.query('SELECT ensure_leave_quotas($1, $2)', [userId, year]);
+
+        for (const [leaveType, quota] of entries) {
+            const current = await client.query(
+                `SELECT carried_forward, taken, pending FROM leave_quotas
+                 WHERE user_id = $1 AND year = $2 AND leave_type = $3
+                 FOR UPDATE`,
+                [userId, year, leaveType]
+            );
+
+            const { carried_forward, taken, pending } = current.rows[0];
+
+            if (quota + carried_forward < taken + pending) {
+                await client.query('ROLLBACK');
+                return res.status(400).json({
+                    error: `${leaveType} quota cannot be lower than the ${taken + pending - carried_forward} day(s) already used or pending`
+                });
+            }
+
+            await client.query(
+                `UPDATE leave_quotas SET quota = $1, updated_at = CURRENT_TIMESTAMP
+                 WHERE user_id = $2 AND year = $3 AND leave_type = $4`,
+                [quota, userId, year, leaveType]
+            );
+        }
+
+        await client.query('SELECT refresh_user_leave_settings($1)', [userId]);
+
+        await client.query('COMMIT');
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_leave_quotas', `Updated ${year} leave quotas for ${user.rows[0].full_name}: ${entries.map(([type, quota]) => `${type} ${quota}`).join(', ')}`]
+        );
+
+        res.json({ year, quotas: await getLeaveQuotas(pool, userId, year) });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error updating leave quotas:', error);
+        res.status(500).json({ error: 'Failed to update leave quotas' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Run the yearly reset with carry-forward on demand
+ * POST /api/admin/leave-quotas/reset { year }
+ */
+export const runLeaveQuotaReset = async (req, res, pool) => {
+    try {
+        const year = parseInt(req.body.year);
+
+        if (!year || year < 2000 || year > 2100) {
+            return res.status(400).json({ error: 'Valid year is required' });
+        }
+
+        const count = await resetLeaveQuotas(pool, year);
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'reset_leave_quotas', `Ran ${year} leave quota reset for ${count} employees`]
+        );
+
+        res.json({ message: `Leave quotas for ${year} set for ${count} employee(s)`, count });
+    } catch (error) {
+        console.error('❌ Error resetting leave quotas:', error);
+        res.status(500).json({ error: 'Failed to reset leave quotas' });
+    }
+};
@@ -0,0 +1,568 @@
+// ==================== LOCAL LOGIN ====================
+// Email/password login (with a reset flow) and emailed one-time login links,
+// for staff without Google accounts. New accounts confirm their email, then
+// go through the same admin approval as Google sign-ups.
+
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { createSession, revokeUserSessions } from './session-routes.js';
+import {
+    sendPasswordResetEmail,
+    sendMagicLinkEmail,
+    sendEmailVerificationEmail,
+    isEmailServiceAvailable
+} from './email-service.js';
+
+export const AUTH_METHODS = ['password', 'magic_link'];
+
+export const MIN_PASSWORD_LENGTH = 8;
+const PASSWORD_RESET_MINUTES = 60;
+const MAGIC_LINK_MINUTES = 15;
+const EMAIL_VERIFY_MINUTES = 24 * 60;
+
+// Compared against when the account does not exist, so response time does
+// not reveal which emails are registered
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('not-a-real-password', 10);
+
+function hashToken(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function frontendUrl() {
+    return process.env.FRONTEND_URL || 'http://localhost:3000';
+}
+
+function formatAuthUser(user) {
+    return {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        fullName: user.full_name,
+        role: user.role,
+        employeeId: user.employee_id,
+        department: user.department,
+        avatarUrl: user.avatar_url
+    };
+}
+
+// Same shape as the isApproved middleware, so the frontend shows PendingApproval
+function pendingResponse(res, user, status = 403) {
+    return res.status(status).json({
+        error: 'Your account is pending admin approval',
+        pending: true,
+        user: {
+            full_name: user.full_name,
+            email: user.email,
+            employee_id: user.employee_id,
+            avatar_url: user.avatar_url
+        }
+    });
+}
+
+/**
+ * Whether an admin has left a login method switched on
+ */
+export async function isAuthMethodEnabled(db, method) {
+    const result = await db.query('SELECT is_enabled FROM auth_methods WHERE method = $1', [method]);
+    return result.rows.length > 0 && result.rows[0].is_enabled;
+}
+
+async function createAuthToken(db, userId, purpose, minutes, req) {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    // Only the newest link of each kind stays usable
+    await db.query(
+        `UPDATE auth_tokens SET used_at = NOW()
+         WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL`,
+        [userId, purpose]
+    );
+
+    await db.query(
+        `INSERT INTO auth_tokens (user_id, purpose, token_hash, requested_ip, expires_at)
+         VALUES ($1, $2, $3, $4, NOW() + ($5 || ' minutes')::interval)`,
+        [userId, purpose, hashToken(token), req.ip, minutes]
+    );
+
+    return token;
+}
+
+// Marks the token used and returns its user id, or null when invalid
+async function consumeAuthToken(db, token, purpose) {
+    const result = await db.query(
+        `UPDATE auth_tokens SET used_at = NOW()
+         WHERE token_hash = $1 AND purpose = $2
+           AND used_at IS NULL AND expires_at > NOW()
+         RETURNING user_id`,
+        [hashToken(token), purpose]
+    );
+
+    return result.rows.length > 0 ? result.rows[0].user_id : null;
+}
+
+async function findUserByEmail(db, email) {
+    const result = await db.query('SELECT * FROM users WHERE LOWER(email) = LOWER($1)', [email.trim()]);
+    return result.rows[0] || null;
+}
+
+/**
+ * Username from the email prefix, with a number added when it is taken
+ */
+export async function uniqueUsername(db, email) {
+    const baseUsername = email.trim().split('@')[0].toLowerCase().slice(0, 40);
+    const taken = await db.query(
+        'SELECT username FROM users WHERE username = $1 OR username LIKE $2',
+        [baseUsername, `${baseUsername}.%`]
+    );
+    const takenNames = new Set(taken.rows.map(row => row.username));
+
+    let username = baseUsername;
+    for (let i = 2; takenNames.has(username); i++) {
+        username = `${baseUsername}.${i}`;
+    }
+    return username;
+}
+
+/**
+ * Start a session for an approved, active user, record the login and
+ * send both tokens with the user
+ */
+export async function completeLogin(db, user, via, req, res) {
+    const { token, refreshToken } = await createSession(db, user, req);
+
+    await db.query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1', [user.id]);
+    await db.query(
+        'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+        [user.id, 'login', `User ${user.full_name} logged in ${via}`]
+    );
+
+    console.log(`✅ User logged in ${via}: ${user.email}`);
+
+    res.json({ token, refreshToken, user: formatAuthUser(user) });
+}
+
+/**
+ * Which login methods the login page should offer
+ * GET /api/auth/methods
+ */
+export const getAuthMethods = async (req, res, pool) => {
+    try {
+        const result = await pool.query('SELECT method, is_enabled FROM auth_methods');
+        const enabled = Object.fromEntries(result.rows.map(row => [row.method, row.is_enabled]));
+
+        res.json({
+            google: true,
+            password: enabled.password ?? false,
+            magicLink: (enabled.magic_link ?? false) && isEmailServiceAvailable(),
+            passwordReset: isEmailServiceAvailable()
+        });
+    } catch (error) {
+        console.error('❌ Error fetching login methods:', error);
+        res.status(500).json({ error: 'Failed to fetch login methods' });
+    }
+};
+
+/**
+ * Log in with email (or username) and password
+ * POST /api/auth/login { username, password }
+ */
+export const loginWithPassword = async (req, res, pool) => {
+    try {
+        const { username, password } = req.body;
+
+        if (!username || !password) {
+            return res.status(400).json({ error: 'Email and password are required' });
+        }
+
+        if (!(await isAuthMethodEnabled(pool, 'password'))) {
+            return res.status(403).json({ error: 'Password login is disabled. Please use another sign-in method.' });
+        }
+
+        const result = await pool.query(
+            'SELECT * FROM users WHERE LOWER(email) = LOWER($1) OR username = $1',
+            [username.trim()]
+        );
+        const user = result.rows[0];
+
+        const passwordMatches = await bcrypt.compare(password, user?.password_hash || DUMMY_PASSWORD_HASH);
+
+        if (!user || !user.password_hash || !passwordMatches) {
+            return res.status(401).json({ error: 'Invalid email or password' });
+        }
+
+        if (!user.is_active) {
+            return res.status(403).json({ error: 'This account has been deactivated' });
+        }
+
+        if (!user.email_verified_at) {
+            return res.status(403).json({ error: 'Please confirm your email first. Sign up again to get a new link.' });
+        }
+
+        if (!user.is_approved) {
+            return pendingResponse(res, user);
+        }
+
+        await completeLogin(pool, user, 'with password', req, res);
+    } catch (error) {
+        console.error('❌ Error logging in:', error);
+        res.status(500).json({ error: 'Login failed' });
+    }
+};
+
+/**
+ * Create an account with email and password. It only reaches the approval
+ * queue once the emailed link is clicked (the very first account, the
+ * admin, is let straight in).
+ * POST /api/auth/register { fullName, email, password }
+ */
+export const registerWithPassword = async (req, res, pool) => {
+    try {
+        const { fullName, email, password } = req.body;
+
+        if (!fullName?.trim() || !email?.trim() || !password) {
+            return res.status(400).json({ error: 'Full name, email and password are required' });
+        }
+
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+            return res.status(400).json({ error: 'Please enter a valid email address' });
+        }
+
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+        }
+
+        if (!(await isAuthMethodEnabled(pool, 'password'))) {
+            return res.status(403).json({ error: 'Password sign-up is disabled. Please use another sign-in method.' });
+        }
+
+        const existing = await findUserByEmail(pool, email);
+
+        if (existing?.email_verified_at) {
+            return res.status(409).json({ error: 'An account with this email already exists. Try logging in or resetting your password.' });
+        }
+
+        // Same rule as Google sign-up: the very first account is the admin
+        const userCount = await pool.query('SELECT COUNT(*) FROM users');
+        const isFirstUser = parseInt(userCount.rows[0].count) === 0;
+
+        if (!isFirstUser && !isEmailServiceAvailable()) {
+            return res.status(503).json({ error: 'Email is not configured, so new accounts cannot be confirmed. Please ask an admin for an invite.' });
+        }
+
+        const passwordHash = await bcrypt.hash(password, 10);
+        let user;
+
+        if (existing) {
+            // Signing up again for an unconfirmed email starts over with a fresh link
+            const result = await pool.query(
+                `UPDATE users
+                 SET password_hash = $1, password_changed_at = CURRENT_TIMESTAMP, full_name = $2
+                 WHERE id = $3 AND email_verified_at IS NULL
+                 RETURNING *`,
+                [passwordHash, fullName.trim(), existing.id]
+            );
+            user = result.rows[0];
+        } else {
+            const username = await uniqueUsername(pool, email);
+
+            const result = await pool.query(
+                `INSERT INTO users (
+                    username, password_hash, password_changed_at, email, full_name, role, is_active, is_approved,
+                    email_verified_at
+                ) VALUES ($1, $2, CURRENT_TIMESTAMP, $3, $4, $5, true, $6, $7)
+                RETURNING *`,
+                [
+                    username, passwordHash, email.trim(), fullName.trim(), isFirstUser ? 'admin' : null, isFirstUser,
+                    isFirstUser ? new Date() : null
+                ]
+            );
+            user = result.rows[0];
+
+            await pool.query(
+                'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+                [user.id, 'signup', `User ${user.full_name} signed up with email and password`]
+            );
+
+            console.log(`✅ New user created: ${user.email} (${user.employee_id}) - ${isFirstUser ? 'Admin' : 'Awaiting email confirmation'}`);
+        }
+
+        if (isFirstUser) {
+            return completeLogin(pool, user, 'with password', req, res);
+        }
+
+        const token = await createAuthToken(pool, user.id, 'email_verify', EMAIL_VERIFY_MINUTES, req);
+        await sendEmailVerificationEmail(user.email, `${frontendUrl()}/auth/verify-email?token=${token}`, user.full_name);
+
+        res.status(201).json({
+            success: true,
+            message: `We sent a confirmation link to ${user.email}. Click it to finish signing up.`
+        });
+    } catch (error) {
+        console.error('❌ Error registering user:', error);
+        res.status(500).json({ error: 'Failed to create account' });
+    }
+};
+
+/**
+ * Email a password reset link. Always answers the same way so the
+ * response does not reveal whether the email is registered.
+ * POST /api/auth/password-reset/request { email }
+ */
+export const requestPasswordReset = async (req, res, pool) => {
+    try {
+        const { email } = req.body;
+
+        if (!email?.trim()) {
+            return res.status(400).json({ error: 'Email is required' });
+        }
+
+        if (!isEmailServiceAvailable()) {
+            return res.status(503).json({ error: 'Email is not configured. Please ask an admin to reset your password.' });
+        }
+
+        const user = await findUserByEmail(pool, email);
+
+        if (user && user.is_active) {
+            const token = await createAuthToken(pool, user.id, 'password_reset', PASSWORD_RESET_MINUTES, req);
+            await sendPasswordResetEmail(user.email, `${frontendUrl()}/reset-password?token=${token}`, user.full_name);
+        }
+
+        res.json({ success: true, message: 'If that email has an account, a reset link is on its way.' });
+    } catch (error) {
+        console.error('❌ Error requesting password reset:', error);
+        res.status(500).json({ error: 'Failed to request password reset' });
+    }
+};
+
+/**
+ * Set a new password with a reset token; logs out every device
+ * POST /api/auth/password-reset/confirm { token, password }
+ */
+export const confirmPasswordReset = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const { token, password } = req.body;
+
+        if (!token || !password) {
+            return res.status(400).json({ error: 'Token and new password are required' });
+        }
+
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+        }
+
+        await client.query('BEGIN');
+
+        const userId = await consumeAuthToken(client, token, 'password_reset');
+
+        if (!userId) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+        }
+
+        const passwordHash = await bcrypt.hash(password, 10);
+
+        const result = await client.query(
+            `UPDATE users SET password_hash = $1, password_changed_at = CURRENT_TIMESTAMP,
+                    email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+             WHERE id = $2
+             RETURNING full_name`,
+            [passwordHash, userId]
+        );
+
+        await revokeUserSessions(client, userId, 'password_reset');
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [userId, 'password_reset', `User ${result.rows[0].full_name} reset their password`]
+        );
+
+        await client.query('COMMIT');
+
+        res.json({ success: true, message: 'Password updated. Please log in with your new password.' });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error resetting password:', error);
+        res.status(500).json({ error: 'Failed to reset password' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Email a one-time login link
+ * POST /api/auth/magic-link/request { email }
+ */
+export const requestMagicLink = async (req, res, pool) => {
+    try {
+        const { email } = req.body;
+
+        if (!email?.trim()) {
+            return res.status(400).json({ error: 'Email is required' });
+        }
+
+        if (!(await isAuthMethodEnabled(pool, 'magic_link'))) {
+            return res.status(403).json({ error: 'Login links are disabled. Please use another sign-in method.' });
+        }
+
+        if (!isEmailServiceAvailable()) {
+            return res.status(503).json({ error: 'Email is not configured, so login links cannot be sent' });
+        }
+
+        const user = await findUserByEmail(pool, email);
+
+        if (user && user.is_active && user.email_verified_at) {
+            const token = await createAuthToken(pool, user.id, 'magic_link', MAGIC_LINK_MINUTES, req);
+            await sendMagicLinkEmail(user.email, `${frontendUrl()}/auth/magic?token=${token}`, user.full_name);
+        }
+
+        res.json({ success: true, message: 'If that email has an account, a login link is on its way.' });
+    } catch (error) {
+        console.error('❌ Error requesting login link:', error);
+        res.status(500).json({ error: 'Failed to send login link' });
+    }
+};
+
+/**
+ * Log in with a one-time link
+ * POST /api/auth/magic-link/verify { token }
+ */
+export const verifyMagicLink = async (req, res, pool) => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            return res.status(400).json({ error: 'Token is required' });
+        }
+
+        if (!(await isAuthMethodEnabled(pool, 'magic_link'))) {
+            return res.status(403).json({ error: 'Login links are disabled. Please use another sign-in method.' });
+        }
+
+        const userId = await consumeAuthToken(pool, token, 'magic_link');
+
+        if (!userId) {
+            return res.status(400).json({ error: 'This login link is invalid or has expired' });
+        }
+
+        const result = await pool.query('SELECT * FROM users WHERE id = $1', [userId]);
+        const user = result.rows[0];
+
+        if (!user || !user.is_active) {
+            return res.status(403).json({ error: 'This account has been deactivated' });
+        }
+
+        if (!user.is_approved) {
+            return pendingResponse(res, user);
+        }
+
+        await completeLogin(pool, user, 'via login link', req, res);
+    } catch (error) {
+        console.error('❌ Error verifying login link:', error);
+        res.status(500).json({ error: 'Login failed' });
+    }
+};
+
+/**
+ * Confirm a self-registered email with the emailed link
+ * POST /api/auth/verify-email { token }
+ */
+export const verifyEmail = async (req, res, pool) => {
+    try {
+        const { token } = req.body;
+
+        if (!token) {
+            return res.status(400).json({ error: 'Token is required' });
+        }
+
+        const userId = await consumeAuthToken(pool, token, 'email_verify');
+
+        if (!userId) {
+            return res.status(400).json({ error: 'This confirmation link is invalid or has expired' });
+        }
+
+        const result = await pool.query(
+            `UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+             WHERE id = $1
+             RETURNING *`,
+            [userId]
+        );
+        const user = result.rows[0];
+
+        if (!user || !user.is_active) {
+            return res.status(403).json({ error: 'This account has been deactivated' });
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [user.id, 'email_verified', `User ${user.full_name} confirmed ${user.email}`]
+        );
+
+        if (!user.is_approved) {
+            return pendingResponse(res, user);
+        }
+
+        await completeLogin(pool, user, 'after confirming email', req, res);
+    } catch (error) {
+        console.error('❌ Error verifying email:', error);
+        res.status(500).json({ error: 'Failed to confirm email' });
+    }
+};
+
+/**
+ * Login methods with their switch state (admin)
+ * GET /api/admin/auth-methods
+ */
+export const getAuthMethodSettings = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT am.method, am.is_enabled, am.updated_at, u.full_name as updated_by_name
+             FROM auth_methods am
+             LEFT JOIN users u ON u.id = am.updated_by
+             ORDER BY am.method`
+        );
+
+        res.json({
+            methods: result.rows,
+            emailConfigured: isEmailServiceAvailable()
+        });
+    } catch (error) {
+        console.error('❌ Error fetching login method settings:', error);
+        res.status(500).json({ error: 'Failed to fetch login methods' });
+    }
+};
+
+/**
+ * Switch a login method on or off (admin)
+ * PUT /api/admin/auth-methods/:method { enabled }
+ */
+export const updateAuthMethod = async (req, res, pool) => {
+    try {
+        const { method } = req.params;
+        const { enabled } = req.body;
+
+        if (!AUTH_METHODS.includes(method)) {
+            return res.status(400).json({ error: `Method must be one of: ${AUTH_METHODS.join(', ')}` });
+        }
+
+        if (typeof enabled !== 'boolean') {
+            return res.status(400).json({ error: 'enabled must be true or false' });
+        }
+
+        await pool.query(
+            `UPDATE auth_methods SET is_enabled = $1, updated_by = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE method = $3`,
+            [enabled, req.user.id, method]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_auth_method', `${enabled ? 'Enabled' : 'Disabled'} ${method.replace('_', ' ')} login`]
+        );
+
+        res.json({ success: true, method, enabled });
+    } catch (error) {
+        console.error('❌ Error updating login method:', error);
+        res.status(500).json({ error: 'Failed to update login method' });
+    }
+};
@@ -0,0 +1,32 @@
+-- ============================================================
+-- Custom Report Builder
+-- Migration: 012_custom_reports.sql
+-- Description: Saved report definitions for the export center
+-- ============================================================
+
+-- ============================================================
+-- SAVED REPORTS - Named, re-runnable custom report definitions
+-- ============================================================
+CREATE TABLE IF NOT EXISTS saved_reports (
+  id SERIAL PRIMARY KEY,
+
+  -- Identification
+  name VARCHAR(100) UNIQUE NOT NULL,
+  description TEXT,
+
+  -- Report definition: { source, columns, filters, groupBy }
+  definition JSONB NOT NULL,
+
+  -- Ownership and usage
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  last_run_at TIMESTAMP,
+
+  -- Timestamps
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_reports_name ON saved_reports(name);
+
+COMMENT ON TABLE saved_reports IS 'Custom report definitions saved from the export center';
+COMMENT ON COLUMN saved_reports.definition IS 'Data source, selected columns, filters and group-by as JSON';
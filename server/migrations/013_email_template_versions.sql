@@ -0,0 +1,37 @@
+-- ============================================================
+-- Email Template Versioning
+-- Migration: 013_email_template_versions.sql
+-- Description: Version history for admin-edited email templates
+-- ============================================================
+
+ALTER TABLE email_templates ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+ALTER TABLE email_templates ADD COLUMN IF NOT EXISTS updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN email_templates.version IS 'Current version number, incremented on every edit or rollback';
+
+-- ============================================================
+-- EMAIL TEMPLATE VERSIONS - Snapshot taken before each change
+-- ============================================================
+CREATE TABLE IF NOT EXISTS email_template_versions (
+  id SERIAL PRIMARY KEY,
+  template_id INTEGER NOT NULL REFERENCES email_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+
+  -- Snapshot of template content
+  template_name VARCHAR(255) NOT NULL,
+  subject_template VARCHAR(500) NOT NULL,
+  body_html_template TEXT NOT NULL,
+  body_text_template TEXT,
+  description TEXT,
+  is_active BOOLEAN,
+
+  -- Who made the version being replaced
+  edited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(template_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_template_versions_template ON email_template_versions(template_id, version DESC);
+
+COMMENT ON TABLE email_template_versions IS 'Previous versions of email templates for rollback';
@@ -0,0 +1,17 @@
+-- ============================================================
+-- Compensatory Off Lifecycle
+-- Migration: 014_comp_off_lifecycle.sql
+-- Description: Guard against duplicate comp-off credits and speed up
+--              the nightly expiry job
+-- ============================================================
+
+-- One live credit per worked Sunday/holiday (re-marking attendance must not double-award)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_comp_off_user_earned_for
+ON compensatory_offs(user_id, earned_for_date)
+WHERE status <> 'cancelled';
+
+-- Nightly expiry scans available credits by expiry date
+CREATE INDEX IF NOT EXISTS idx_comp_off_available_expiry
+ON compensatory_offs(expires_at)
+WHERE status = 'available';
+
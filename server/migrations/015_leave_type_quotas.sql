@@ -0,0 +1,177 @@
+-- ============================================================
+-- Per-Leave-Type Quotas
+-- Migration: 015_leave_type_quotas.sql
+-- Description: Yearly quotas per leave type with carry-forward.
+--   user_settings.annual_leave_quota / leaves_taken / leaves_pending
+--   become current-year totals mirrored from leave_quotas.
+-- ============================================================
+
+-- ============================================================
+-- 1. LEAVE TYPE POLICIES - Defaults used for new quota years
+-- ============================================================
+CREATE TABLE IF NOT EXISTS leave_type_policies (
+  leave_type VARCHAR(50) PRIMARY KEY CHECK (leave_type IN ('casual', 'sick', 'vacation', 'personal')),
+  default_quota INTEGER NOT NULL DEFAULT 0 CHECK (default_quota >= 0),
+  carry_forward_max INTEGER NOT NULL DEFAULT 0 CHECK (carry_forward_max >= 0),
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Adds up to the previous flat quota of 12 days
+INSERT INTO leave_type_policies (leave_type, default_quota, carry_forward_max) VALUES
+  ('casual', 5, 0),
+  ('sick', 4, 0),
+  ('vacation', 2, 5),
+  ('personal', 1, 0)
+ON CONFLICT (leave_type) DO NOTHING;
+
+COMMENT ON TABLE leave_type_policies IS 'Default yearly quota and carry-forward cap per leave type';
+COMMENT ON COLUMN leave_type_policies.carry_forward_max IS 'Most unused days that move into the next year (0 = lapse)';
+
+-- ============================================================
+-- 2. LEAVE QUOTAS - One row per user, year and leave type
+-- ============================================================
+CREATE TABLE IF NOT EXISTS leave_quotas (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL,
+  leave_type VARCHAR(50) NOT NULL REFERENCES leave_type_policies(leave_type),
+
+  quota INTEGER NOT NULL DEFAULT 0 CHECK (quota >= 0),
+  carried_forward INTEGER NOT NULL DEFAULT 0 CHECK (carried_forward >= 0),
+  taken INTEGER NOT NULL DEFAULT 0 CHECK (taken >= 0),
+  pending INTEGER NOT NULL DEFAULT 0 CHECK (pending >= 0),
+
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE(user_id, year, leave_type),
+  CHECK (taken + pending <= quota + carried_forward)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_quotas_user_year ON leave_quotas(user_id, year);
+
+COMMENT ON TABLE leave_quotas IS 'Yearly leave quota and usage per leave type';
+COMMENT ON COLUMN leave_quotas.carried_forward IS 'Unused days brought forward from the previous year';
+
+-- ============================================================
+-- 3. FUNCTIONS
+-- ============================================================
+
+-- Create any missing quota rows for a user-year from the policy defaults
+CREATE OR REPLACE FUNCTION ensure_leave_quotas(p_user_id INTEGER, p_year INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO leave_quotas (user_id, year, leave_type, quota)
+  SELECT p_user_id, p_year, leave_type, default_quota
+  FROM leave_type_policies
+  ON CONFLICT (user_id, year, leave_type) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Mirror current-year totals into user_settings
+CREATE OR REPLACE FUNCTION refresh_user_leave_settings(p_user_id INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE user_settings us
+  SET
+    annual_leave_quota = t.total_quota,
+    leaves_taken = t.total_taken,
+    leaves_pending = t.total_pending,
+    updated_at = CURRENT_TIMESTAMP
+  FROM (
+    SELECT
+      COALESCE(SUM(quota + carried_forward), 0) as total_quota,
+      COALESCE(SUM(taken), 0) as total_taken,
+      COALESCE(SUM(pending), 0) as total_pending
+    FROM leave_quotas
+    WHERE user_id = p_user_id AND year = EXTRACT(YEAR FROM CURRENT_DATE)
+  ) t
+  WHERE us.user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Track pending/taken days per leave type on every status change,
+-- including cancellations (replaces update_leave_balance and
+-- increment_pending_leaves)
+CREATE OR REPLACE FUNCTION sync_leave_quota()
+RETURNS TRIGGER AS $$
+DECLARE
+  days_count INTEGER;
+  quota_year INTEGER;
+  pending_delta INTEGER := 0;
+  taken_delta INTEGER := 0;
+BEGIN
+  days_count := (NEW.end_date - NEW.start_date) + 1;
+  quota_year := EXTRACT(YEAR FROM NEW.start_date);
+
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.status = 'pending' THEN
+      pending_delta := pending_delta - days_count;
+    ELSIF OLD.status = 'approved' THEN
+      taken_delta := taken_delta - days_count;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'pending' THEN
+    pending_delta := pending_delta + days_count;
+  ELSIF NEW.status = 'approved' THEN
+    taken_delta := taken_delta + days_count;
+  END IF;
+
+  IF pending_delta <> 0 OR taken_delta <> 0 THEN
+    PERFORM ensure_leave_quotas(NEW.user_id, quota_year);
+
+    UPDATE leave_quotas
+    SET
+      pending = GREATEST(pending + pending_delta, 0),
+      taken = GREATEST(taken + taken_delta, 0),
+      updated_at = CURRENT_TIMESTAMP
+    WHERE user_id = NEW.user_id AND year = quota_year AND leave_type = NEW.leave_type;
+
+    PERFORM refresh_user_leave_settings(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_leave_balance ON leave_requests;
+DROP TRIGGER IF EXISTS trigger_increment_pending_leaves ON leave_requests;
+DROP TRIGGER IF EXISTS trigger_sync_leave_quota_insert ON leave_requests;
+DROP TRIGGER IF EXISTS trigger_sync_leave_quota_update ON leave_requests;
+
+CREATE TRIGGER trigger_sync_leave_quota_insert
+AFTER INSERT ON leave_requests
+FOR EACH ROW
+EXECUTE FUNCTION sync_leave_quota();
+
+CREATE TRIGGER trigger_sync_leave_quota_update
+AFTER UPDATE ON leave_requests
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION sync_leave_quota();
+
+COMMENT ON FUNCTION sync_leave_quota IS 'Keeps leave_quotas and user_settings in step with leave request status';
+
+-- ============================================================
+-- 4. BACKFILL CURRENT YEAR FROM EXISTING REQUESTS
+-- ============================================================
+INSERT INTO leave_quotas (user_id, year, leave_type, quota, taken, pending)
+SELECT
+  u.id,
+  EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER,
+  p.leave_type,
+  GREATEST(p.default_quota, COALESCE(SUM(lr.end_date - lr.start_date + 1) FILTER (WHERE lr.status IN ('pending', 'approved')), 0)),
+  COALESCE(SUM(lr.end_date - lr.start_date + 1) FILTER (WHERE lr.status = 'approved'), 0),
+  COALESCE(SUM(lr.end_date - lr.start_date + 1) FILTER (WHERE lr.status = 'pending'), 0)
+FROM users u
+CROSS JOIN leave_type_policies p
+LEFT JOIN leave_requests lr
+  ON lr.user_id = u.id
+  AND lr.leave_type = p.leave_type
+  AND EXTRACT(YEAR FROM lr.start_date) = EXTRACT(YEAR FROM CURRENT_DATE)
+GROUP BY u.id, p.leave_type, p.default_quota
+ON CONFLICT (user_id, year, leave_type) DO NOTHING;
+
+SELECT refresh_user_leave_settings(id) FROM users;
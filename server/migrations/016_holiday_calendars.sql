@@ -0,0 +1,133 @@
+-- ============================================================
+-- Holiday Calendars
+-- Migration: 016_holiday_calendars.sql
+-- Description: Named holiday calendars assigned per department or
+--   office location, and server-side expansion of recurring holidays.
+--   Every employee gets the default calendar plus any calendar assigned
+--   to their department or office location.
+-- ============================================================
+
+-- ============================================================
+-- 1. HOLIDAY CALENDARS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS holiday_calendars (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  description TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Only one company-wide calendar
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holiday_calendars_default
+ON holiday_calendars(is_default)
+WHERE is_default = true;
+
+INSERT INTO holiday_calendars (name, description, is_default)
+VALUES ('Company', 'Holidays observed by every employee', true)
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON TABLE holiday_calendars IS 'Named holiday lists; the default one applies to everyone';
+
+-- ============================================================
+-- 2. CALENDAR ASSIGNMENTS - by department or office location
+-- ============================================================
+CREATE TABLE IF NOT EXISTS holiday_calendar_assignments (
+  id SERIAL PRIMARY KEY,
+  calendar_id INTEGER NOT NULL REFERENCES holiday_calendars(id) ON DELETE CASCADE,
+  department VARCHAR(100),
+  office_location VARCHAR(100),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CHECK ((department IS NULL) <> (office_location IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holiday_assignment_department
+ON holiday_calendar_assignments(calendar_id, department)
+WHERE department IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holiday_assignment_location
+ON holiday_calendar_assignments(calendar_id, office_location)
+WHERE office_location IS NOT NULL;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS office_location VARCHAR(100);
+
+COMMENT ON COLUMN users.office_location IS 'Office the employee works from; selects regional holiday calendars';
+
+-- ============================================================
+-- 3. HOLIDAYS BELONG TO A CALENDAR
+-- ============================================================
+ALTER TABLE holidays
+ADD COLUMN IF NOT EXISTS calendar_id INTEGER REFERENCES holiday_calendars(id) ON DELETE CASCADE;
+
+UPDATE holidays
+SET calendar_id = (SELECT id FROM holiday_calendars WHERE is_default = true)
+WHERE calendar_id IS NULL;
+
+ALTER TABLE holidays
+ALTER COLUMN calendar_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_holidays_calendar ON holidays(calendar_id);
+
+-- ============================================================
+-- 4. FUNCTIONS
+-- ============================================================
+
+-- Holidays falling in a date range, with recurring holidays repeated
+-- every year from the year they were added (Feb 29 falls back to Feb 28)
+CREATE OR REPLACE FUNCTION expand_holidays(p_start DATE, p_end DATE)
+RETURNS TABLE (
+  holiday_id INTEGER,
+  calendar_id INTEGER,
+  holiday_name VARCHAR,
+  holiday_date DATE,
+  description TEXT,
+  is_recurring BOOLEAN
+) AS $$
+  SELECT h.id, h.calendar_id, h.holiday_name, h.holiday_date, h.description, h.is_recurring
+  FROM holidays h
+  WHERE h.is_recurring = false
+    AND h.holiday_date BETWEEN p_start AND p_end
+  UNION ALL
+  SELECT h.id, h.calendar_id, h.holiday_name, occurrence.day, h.description, h.is_recurring
+  FROM holidays h
+  CROSS JOIN generate_series(EXTRACT(YEAR FROM p_start)::INTEGER, EXTRACT(YEAR FROM p_end)::INTEGER) AS y
+  CROSS JOIN LATERAL (
+    SELECT (h.holiday_date + make_interval(years => y - EXTRACT(YEAR FROM h.holiday_date)::INTEGER))::date AS day
+  ) occurrence
+  WHERE h.is_recurring = true
+    AND y >= EXTRACT(YEAR FROM h.holiday_date)
+    AND occurrence.day BETWEEN p_start AND p_end
+$$ LANGUAGE sql STABLE;
+
+-- Calendars that apply to a user: the default one plus department/location matches
+CREATE OR REPLACE FUNCTION user_holiday_calendar_ids(p_user_id INTEGER)
+RETURNS SETOF INTEGER AS $$
+  SELECT id FROM holiday_calendars WHERE is_default = true
+  UNION
+  SELECT a.calendar_id
+  FROM holiday_calendar_assignments a
+  JOIN users u ON u.id = p_user_id
+  WHERE a.department = u.department
+     OR a.office_location = u.office_location
+$$ LANGUAGE sql STABLE;
+
+-- A user's holidays in a date range
+CREATE OR REPLACE FUNCTION user_holidays(p_user_id INTEGER, p_start DATE, p_end DATE)
+RETURNS TABLE (
+  holiday_id INTEGER,
+  calendar_id INTEGER,
+  holiday_name VARCHAR,
+  holiday_date DATE,
+  description TEXT,
+  is_recurring BOOLEAN
+) AS $$
+  SELECT e.*
+  FROM expand_holidays(p_start, p_end) e
+  WHERE e.calendar_id IN (SELECT user_holiday_calendar_ids(p_user_id))
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION user_holidays IS 'Expanded holidays from every calendar that applies to the user';
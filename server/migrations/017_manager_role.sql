@@ -0,0 +1,60 @@
+-- ============================================================
+-- Manager Role and Reporting Lines
+-- Migration: 017_manager_role.sql
+-- Description: Adds the 'manager' role and users.manager_id. Managers
+--   see and approve work for everyone reporting to them, directly or
+--   through another manager.
+-- ============================================================
+
+-- ============================================================
+-- 1. ROLE
+-- ============================================================
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+
+ALTER TABLE users
+ADD CONSTRAINT users_role_check CHECK (role IN ('admin', 'manager', 'employee'));
+
+-- ============================================================
+-- 2. REPORTING MANAGER
+-- ============================================================
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS manager_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_manager_not_self;
+
+ALTER TABLE users
+ADD CONSTRAINT users_manager_not_self CHECK (manager_id IS NULL OR manager_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_users_manager ON users(manager_id);
+
+COMMENT ON COLUMN users.manager_id IS 'Reporting manager; grants that user team-scoped access';
+
+-- Everyone below a manager in the reporting tree (not the manager)
+CREATE OR REPLACE FUNCTION managed_user_ids(p_manager_id INTEGER)
+RETURNS SETOF INTEGER AS $$
+  WITH RECURSIVE team AS (
+    SELECT id FROM users WHERE manager_id = p_manager_id
+    UNION
+    SELECT u.id FROM users u JOIN team t ON u.manager_id = t.id
+  )
+  SELECT id FROM team WHERE id <> p_manager_id
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================
+-- 3. COUNT MANAGERS AS EMPLOYEES ON THE DASHBOARD
+-- ============================================================
+DROP VIEW IF EXISTS admin_dashboard_stats;
+
+CREATE OR REPLACE VIEW admin_dashboard_stats AS
+SELECT
+    (SELECT COUNT(*) FROM users WHERE is_active = true AND role IN ('employee', 'manager')) as total_employees,
+    (SELECT COUNT(*) FROM attendance WHERE date = CURRENT_DATE AND status = 'present') as present_today,
+    (SELECT COUNT(*) FROM leave_requests WHERE status = 'pending') as pending_leave_requests,
+    (SELECT COUNT(*) FROM holidays WHERE holiday_date > CURRENT_DATE AND holiday_date < CURRENT_DATE + INTERVAL '30 days') as upcoming_holidays,
+    (SELECT COUNT(*) FROM pending_site_visit_costs) as pending_site_visit_approvals,
+    (SELECT COALESCE(SUM(site_visit_cost), 0) FROM pending_site_visit_costs) as pending_reimbursement_amount,
+    (SELECT COUNT(DISTINCT user_id) FROM compensatory_offs WHERE status = 'available') as employees_with_comp_offs,
+    (SELECT COUNT(*) FROM pending_calibration_approvals) as pending_calibration_expenses,
+    (SELECT COALESCE(SUM(total_expenses), 0) FROM pending_calibration_approvals) as pending_calibration_amount;
+
+COMMENT ON VIEW admin_dashboard_stats IS 'Real-time stats for admin dashboard including calibration expenses';
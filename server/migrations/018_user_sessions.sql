@@ -0,0 +1,29 @@
+-- ============================================================
+-- User Sessions and Refresh Tokens
+-- Migration: 018_user_sessions.sql
+-- Description: Server-side login sessions. Access tokens are short-lived
+--   JWTs bound to a session; refresh tokens rotate on every use and only
+--   their SHA-256 hash is stored. Revoking a session logs that device out.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+  -- Hash of the token this one replaced; presenting it again means it leaked
+  previous_token_hash VARCHAR(64),
+  rotated_at TIMESTAMP,
+  user_agent TEXT,
+  ip_address VARCHAR(64),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  revoked_reason VARCHAR(100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_previous ON user_sessions(previous_token_hash);
+
+COMMENT ON TABLE user_sessions IS 'Login sessions with rotating refresh tokens; one row per device';
+COMMENT ON COLUMN user_sessions.refresh_token_hash IS 'SHA-256 of the current refresh token (the token itself is never stored)';
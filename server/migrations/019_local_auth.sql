@@ -0,0 +1,51 @@
+-- ============================================================
+-- Local Login and Magic Links
+-- Migration: 019_local_auth.sql
+-- Description: Email/password login with a reset flow and emailed
+--   one-time login links, alongside Google OAuth. Admins can switch
+--   either method off. New accounts still wait for admin approval.
+-- ============================================================
+
+-- ============================================================
+-- 1. LOGIN METHODS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS auth_methods (
+  method VARCHAR(20) PRIMARY KEY CHECK (method IN ('password', 'magic_link')),
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO auth_methods (method, is_enabled) VALUES
+  ('password', true),
+  ('magic_link', true)
+ON CONFLICT (method) DO NOTHING;
+
+COMMENT ON TABLE auth_methods IS 'Login methods admins can switch on or off (Google OAuth is always on)';
+
+-- ============================================================
+-- 2. ONE-TIME TOKENS (password reset, magic link)
+-- ============================================================
+CREATE TABLE IF NOT EXISTS auth_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('password_reset', 'magic_link')),
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  requested_ip VARCHAR(64),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user ON auth_tokens(user_id, purpose);
+
+COMMENT ON TABLE auth_tokens IS 'Single-use emailed tokens; only the SHA-256 hash is stored';
+
+-- ============================================================
+-- 3. PASSWORD METADATA
+-- ============================================================
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP;
+
+-- Login is by email, so compare case-insensitively
+CREATE INDEX IF NOT EXISTS idx_users_email_lower ON users(LOWER(email));
@@ -0,0 +1,25 @@
+-- ============================================================
+-- Employee Invites
+-- Migration: 020_user_invites.sql
+-- Description: Admins pre-create an employee record (role, department,
+--   joining date, manager) and send an invite link by email or
+--   Telegram. Accepting binds a Google or password login to that
+--   record and skips the approval queue.
+-- ============================================================
+
+-- Columns from the original schema, in case an older database lacks them
+ALTER TABLE users ADD COLUMN IF NOT EXISTS invited_by INTEGER REFERENCES users(id);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS invite_token VARCHAR(255) UNIQUE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS invite_accepted_at TIMESTAMP;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS invite_expires_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS invite_revoked_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS invite_sent_via VARCHAR(20)
+  CHECK (invite_sent_via IN ('email', 'telegram', 'link'));
+ALTER TABLE users ADD COLUMN IF NOT EXISTS invite_sent_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_users_invited_by ON users(invited_by);
+
+COMMENT ON COLUMN users.invite_token IS 'SHA-256 of the open invite link token; cleared once accepted or revoked';
+COMMENT ON COLUMN users.invite_expires_at IS 'Invite link stops working after this time';
+COMMENT ON COLUMN users.invite_revoked_at IS 'Set when an admin cancels the invite';
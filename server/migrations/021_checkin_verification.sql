@@ -0,0 +1,52 @@
+-- ============================================================
+-- Verified Check-in
+-- Migration: 021_checkin_verification.sql
+-- Description: Optional office geofences. When one covers an employee,
+--   check-in needs a shared Telegram location, browser geolocation
+--   inside the radius, or a scan of the rotating QR code shown on the
+--   office screen. Each attendance row records how it was checked in.
+-- ============================================================
+
+-- ============================================================
+-- 1. OFFICE GEOFENCES
+-- ============================================================
+CREATE TABLE IF NOT EXISTS office_geofences (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  office_location VARCHAR(100),
+  latitude DECIMAL(9,6) NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DECIMAL(9,6) NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  radius_m INTEGER NOT NULL DEFAULT 150 CHECK (radius_m BETWEEN 10 AND 5000),
+  qr_secret VARCHAR(64) NOT NULL,
+  screen_key VARCHAR(64) NOT NULL UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_office_geofences_location ON office_geofences(office_location) WHERE is_active = true;
+
+COMMENT ON TABLE office_geofences IS 'Office areas check-in must happen inside';
+COMMENT ON COLUMN office_geofences.office_location IS 'Matches users.office_location; NULL covers every employee';
+COMMENT ON COLUMN office_geofences.qr_secret IS 'HMAC key for the rotating office-screen QR codes';
+COMMENT ON COLUMN office_geofences.screen_key IS 'Lets the unattended office screen fetch QR codes without logging in';
+
+-- ============================================================
+-- 2. HOW EACH ATTENDANCE ROW WAS CHECKED IN
+-- ============================================================
+ALTER TABLE attendance
+ADD COLUMN IF NOT EXISTS checkin_method VARCHAR(20)
+  CHECK (checkin_method IN ('web', 'telegram', 'telegram_location', 'browser_location', 'qr', 'admin')),
+ADD COLUMN IF NOT EXISTS checkin_latitude DECIMAL(9,6),
+ADD COLUMN IF NOT EXISTS checkin_longitude DECIMAL(9,6),
+ADD COLUMN IF NOT EXISTS checkin_accuracy_m INTEGER,
+ADD COLUMN IF NOT EXISTS checkin_distance_m INTEGER,
+ADD COLUMN IF NOT EXISTS checkin_geofence_id INTEGER REFERENCES office_geofences(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS checkin_verified BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_unverified ON attendance(date DESC) WHERE checkin_verified = false;
+
+COMMENT ON COLUMN attendance.checkin_method IS 'web, telegram, telegram_location, browser_location, qr or admin';
+COMMENT ON COLUMN attendance.checkin_distance_m IS 'Distance from the geofence centre when the location was captured';
+COMMENT ON COLUMN attendance.checkin_verified IS 'NULL when no geofence applied; false when one applied but check-in had no proof';
@@ -0,0 +1,48 @@
+-- ============================================================
+-- Attendance Correction Requests
+-- Migration: 022_attendance_corrections.sql
+-- Description: Employees propose a new status and times for a past
+--   day with a reason; an admin or their manager approves or rejects.
+--   Approval rewrites the attendance row and keeps what it replaced.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS attendance_corrections (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  attendance_date DATE NOT NULL,
+
+  -- What the employee asks for
+  proposed_status VARCHAR(20) NOT NULL
+    CHECK (proposed_status IN ('present', 'absent', 'half_day', 'wfh', 'on_leave')),
+  proposed_start TIME,
+  proposed_end TIME,
+  reason TEXT NOT NULL,
+  source VARCHAR(20) NOT NULL DEFAULT 'web' CHECK (source IN ('web', 'telegram')),
+
+  -- Review
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  rejection_reason TEXT,
+
+  -- The attendance row as it was when the correction was applied
+  previous_status VARCHAR(20),
+  previous_start TIME,
+  previous_end TIME,
+
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CHECK (proposed_end IS NULL OR proposed_start IS NULL OR proposed_end > proposed_start)
+);
+
+-- One open request per day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attendance_corrections_pending
+ON attendance_corrections(user_id, attendance_date)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_attendance_corrections_status ON attendance_corrections(status, created_at);
+
+COMMENT ON TABLE attendance_corrections IS 'Employee requests to change attendance for a past day';
+COMMENT ON COLUMN attendance_corrections.previous_status IS 'Attendance status replaced on approval (NULL if the day was never marked)';
@@ -0,0 +1,18 @@
+-- ============================================================
+-- Nightly Attendance Close
+-- Migration: 023_attendance_auto_close.sql
+-- Description: A nightly job marks working days with no attendance as
+--   absent (marked_at stays NULL) and closes check-ins that never
+--   checked out, either capped at shift end or flagged for review.
+-- ============================================================
+
+ALTER TABLE attendance
+ADD COLUMN IF NOT EXISTS auto_closed_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS needs_review BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_needs_review
+ON attendance(date)
+WHERE needs_review = true;
+
+COMMENT ON COLUMN attendance.auto_closed_at IS 'When the nightly job closed an open check-in (NULL if checked out normally)';
+COMMENT ON COLUMN attendance.needs_review IS 'Open check-in left without a check-out time; cleared when the day is edited';
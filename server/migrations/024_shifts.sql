@@ -0,0 +1,86 @@
+-- ============================================================
+-- Shifts
+-- Migration: 024_shifts.sql
+-- Description: Named shifts with start/end, grace period, break and
+--   working weekdays. A user's own shift wins over their department's,
+--   which wins over the default shift. Attendance rows keep the late,
+--   early-leave and overtime minutes measured against that shift.
+-- ============================================================
+
+-- ============================================================
+-- 1. SHIFTS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS shifts (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL UNIQUE,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  grace_minutes INTEGER NOT NULL DEFAULT 10 CHECK (grace_minutes BETWEEN 0 AND 240),
+  break_minutes INTEGER NOT NULL DEFAULT 60 CHECK (break_minutes BETWEEN 0 AND 480),
+  -- Days of the week as in JavaScript getDay(): 0 = Sunday ... 6 = Saturday
+  working_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  -- Overnight shifts are not supported
+  CHECK (end_time > start_time)
+);
+
+-- Only one fallback shift
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shifts_default
+ON shifts(is_default)
+WHERE is_default = true;
+
+-- Matches the hours that used to be implied (09:30 start, 18:30 checkout reminder)
+INSERT INTO shifts (name, start_time, end_time, grace_minutes, break_minutes, working_days, is_default)
+VALUES ('General', '09:30', '18:00', 10, 60, '{1,2,3,4,5}', true)
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON TABLE shifts IS 'Working hours; the default shift applies to anyone without another';
+
+-- ============================================================
+-- 2. ASSIGNMENTS - per department, or per user
+-- ============================================================
+CREATE TABLE IF NOT EXISTS shift_assignments (
+  id SERIAL PRIMARY KEY,
+  shift_id INTEGER NOT NULL REFERENCES shifts(id) ON DELETE CASCADE,
+  department VARCHAR(100) NOT NULL UNIQUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS shift_id INTEGER REFERENCES shifts(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN users.shift_id IS 'Personal shift; overrides the department shift when set';
+
+-- ============================================================
+-- 3. ATTENDANCE FIGURES
+-- ============================================================
+ALTER TABLE attendance
+ADD COLUMN IF NOT EXISTS shift_id INTEGER REFERENCES shifts(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS late_minutes INTEGER,
+ADD COLUMN IF NOT EXISTS early_leave_minutes INTEGER,
+ADD COLUMN IF NOT EXISTS overtime_minutes INTEGER,
+ADD COLUMN IF NOT EXISTS checkout_reminder_sent_at TIMESTAMP;
+
+COMMENT ON COLUMN attendance.late_minutes IS 'Minutes after shift start, once past the grace period (0 when on time)';
+COMMENT ON COLUMN attendance.early_leave_minutes IS 'Minutes before shift end (NULL until checked out)';
+COMMENT ON COLUMN attendance.overtime_minutes IS 'Minutes worked beyond the shift; all work on non-working days (NULL until checked out)';
+
+-- ============================================================
+-- 4. FUNCTIONS
+-- ============================================================
+
+-- The shift that applies to a user: their own, their department's, or the default
+CREATE OR REPLACE FUNCTION user_shift_id(p_user_id INTEGER)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(
+    u.shift_id,
+    (SELECT a.shift_id FROM shift_assignments a WHERE a.department = u.department),
+    (SELECT s.id FROM shifts s WHERE s.is_default = true)
+  )
+  FROM users u
+  WHERE u.id = p_user_id
+$$ LANGUAGE sql STABLE;
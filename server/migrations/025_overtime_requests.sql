@@ -0,0 +1,47 @@
+-- ============================================================
+-- Overtime Approval
+-- Migration: 025_overtime_requests.sql
+-- Description: Overtime beyond the assigned shift opens a request the
+--   employee justifies and an admin or manager approves. Approved minutes
+--   are either paid through the payroll export or banked towards
+--   comp-off credits, following OVERTIME_POLICY.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS overtime_requests (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  attendance_id INTEGER NOT NULL UNIQUE REFERENCES attendance(id) ON DELETE CASCADE,
+  attendance_date DATE NOT NULL,
+
+  -- Measured against the shift; kept in step with attendance.overtime_minutes until decided
+  overtime_minutes INTEGER NOT NULL CHECK (overtime_minutes > 0),
+
+  justification TEXT,
+  justified_at TIMESTAMP,
+
+  status VARCHAR(30) NOT NULL DEFAULT 'awaiting_justification'
+    CHECK (status IN ('awaiting_justification', 'pending', 'approved', 'rejected')),
+
+  -- Decision
+  approved_minutes INTEGER CHECK (approved_minutes > 0),
+  compensation VARCHAR(20) CHECK (compensation IN ('payable', 'comp_off')),
+  comp_off_id INTEGER REFERENCES compensatory_offs(id) ON DELETE SET NULL,
+  reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  rejection_reason TEXT,
+
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_overtime_requests_user ON overtime_requests(user_id, attendance_date DESC);
+CREATE INDEX IF NOT EXISTS idx_overtime_requests_status ON overtime_requests(status);
+
+-- Payroll sums approved payable minutes per pay period
+CREATE INDEX IF NOT EXISTS idx_overtime_requests_payable
+ON overtime_requests(attendance_date)
+WHERE status = 'approved' AND compensation = 'payable';
+
+COMMENT ON TABLE overtime_requests IS 'Overtime awaiting justification and approval, and how approved overtime was compensated';
+COMMENT ON COLUMN overtime_requests.approved_minutes IS 'Minutes signed off; may be less than the overtime recorded';
+COMMENT ON COLUMN overtime_requests.comp_off_id IS 'Comp-off credit earned when this approval filled the overtime bank';
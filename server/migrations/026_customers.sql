@@ -0,0 +1,141 @@
+-- ============================================================
+-- Customer & Company Directory
+-- Migration: 026_customers.sql
+-- Description: Customers and companies become their own records instead
+--   of text copied onto every task. Tasks and site visits point at them;
+--   the task's customer_* columns stay as a copy of the linked customer
+--   for emails and Telegram messages. Existing tasks are backfilled.
+-- ============================================================
+
+-- ============================================================
+-- 1. COMPANIES
+-- ============================================================
+CREATE TABLE IF NOT EXISTS companies (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  address TEXT,
+  notes TEXT,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- "Acme Ltd" and "acme ltd " are the same company
+CREATE UNIQUE INDEX IF NOT EXISTS idx_companies_name ON companies(LOWER(TRIM(name)));
+
+COMMENT ON TABLE companies IS 'Customer companies; site visits and customers link here';
+
+-- ============================================================
+-- 2. CUSTOMERS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS customers (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  company_id INTEGER REFERENCES companies(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CHECK (name IS NOT NULL OR email IS NOT NULL)
+);
+
+-- One customer per email address
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_email
+ON customers(LOWER(TRIM(email)))
+WHERE email IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_company ON customers(company_id);
+CREATE INDEX IF NOT EXISTS idx_customers_name ON customers(LOWER(name));
+
+COMMENT ON TABLE customers IS 'External contacts tasks are raised for';
+
+-- ============================================================
+-- 3. LINKS
+-- ============================================================
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS customer_id INTEGER REFERENCES customers(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS company_id INTEGER REFERENCES companies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_customer_id ON tasks(customer_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_company_id ON tasks(company_id);
+
+ALTER TABLE site_visit_details
+ADD COLUMN IF NOT EXISTS company_id INTEGER REFERENCES companies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_site_visit_details_company ON site_visit_details(company_id);
+
+COMMENT ON COLUMN tasks.customer_id IS 'Linked customer; customer_name/email/phone/company_name mirror it';
+
+-- ============================================================
+-- 4. BACKFILL
+-- ============================================================
+
+-- Companies named on tasks or site visits, first spelling wins
+INSERT INTO companies (name, created_at)
+SELECT DISTINCT ON (LOWER(TRIM(name))) TRIM(name), first_seen
+FROM (
+  SELECT company_name as name, created_at as first_seen FROM tasks
+  UNION ALL
+  SELECT company_name, created_at FROM site_visit_details
+) named
+WHERE name IS NOT NULL AND TRIM(name) <> ''
+ORDER BY LOWER(TRIM(name)), first_seen ASC
+ON CONFLICT DO NOTHING;
+
+-- Customers with an email: the most recent task has the freshest name and phone
+INSERT INTO customers (name, email, phone, company_id, created_at)
+SELECT DISTINCT ON (LOWER(TRIM(t.customer_email)))
+  NULLIF(TRIM(t.customer_name), ''),
+  TRIM(t.customer_email),
+  NULLIF(TRIM(t.customer_phone), ''),
+  c.id,
+  t.created_at
+FROM tasks t
+LEFT JOIN companies c ON LOWER(TRIM(c.name)) = LOWER(TRIM(t.company_name))
+WHERE t.customer_email IS NOT NULL AND TRIM(t.customer_email) <> ''
+ORDER BY LOWER(TRIM(t.customer_email)), t.created_at DESC
+ON CONFLICT DO NOTHING;
+
+-- Customers known only by name, one per name and company
+INSERT INTO customers (name, phone, company_id, created_at)
+SELECT DISTINCT ON (LOWER(TRIM(t.customer_name)), c.id)
+  TRIM(t.customer_name),
+  NULLIF(TRIM(t.customer_phone), ''),
+  c.id,
+  t.created_at
+FROM tasks t
+LEFT JOIN companies c ON LOWER(TRIM(c.name)) = LOWER(TRIM(t.company_name))
+WHERE (t.customer_email IS NULL OR TRIM(t.customer_email) = '')
+  AND t.customer_name IS NOT NULL AND TRIM(t.customer_name) <> ''
+ORDER BY LOWER(TRIM(t.customer_name)), c.id, t.created_at DESC;
+
+UPDATE tasks t
+SET company_id = c.id
+FROM companies c
+WHERE t.company_id IS NULL
+  AND LOWER(TRIM(c.name)) = LOWER(TRIM(t.company_name));
+
+UPDATE tasks t
+SET customer_id = cu.id
+FROM customers cu
+WHERE t.customer_id IS NULL
+  AND cu.email IS NOT NULL
+  AND LOWER(TRIM(cu.email)) = LOWER(TRIM(t.customer_email));
+
+UPDATE tasks t
+SET customer_id = cu.id
+FROM customers cu
+WHERE t.customer_id IS NULL
+  AND cu.email IS NULL
+  AND (t.customer_email IS NULL OR TRIM(t.customer_email) = '')
+  AND LOWER(TRIM(cu.name)) = LOWER(TRIM(t.customer_name))
+  AND cu.company_id IS NOT DISTINCT FROM t.company_id;
+
+UPDATE site_visit_details s
+SET company_id = c.id
+FROM companies c
+WHERE s.company_id IS NULL
+  AND LOWER(TRIM(c.name)) = LOWER(TRIM(s.company_name));
@@ -0,0 +1,63 @@
+-- ============================================================
+-- Inbound Email to Tasks
+-- Migration: 027_inbound_email.sql
+-- Description: Every email read from the task mailbox (IMAP or a folder
+--   of .eml files) is logged with what it became: a new task, a comment
+--   threaded onto an existing task, or nothing. Outgoing queue emails keep
+--   their Message-ID so customer replies find their task.
+-- ============================================================
+
+-- ============================================================
+-- 1. INBOUND EMAIL LOG
+-- ============================================================
+CREATE TABLE IF NOT EXISTS inbound_emails (
+  id SERIAL PRIMARY KEY,
+
+  -- Headers used for de-duplication and threading
+  message_id VARCHAR(500) NOT NULL UNIQUE,
+  in_reply_to VARCHAR(500),
+  thread_references TEXT[],
+
+  from_email VARCHAR(255),
+  from_name VARCHAR(255),
+  subject VARCHAR(500),
+  body_text TEXT,
+  attachment_count INTEGER DEFAULT 0,
+  received_at TIMESTAMP,
+
+  source VARCHAR(20) NOT NULL CHECK (source IN ('imap', 'directory')),
+
+  -- Outcome
+  action VARCHAR(20) NOT NULL CHECK (action IN ('created', 'threaded', 'ignored')),
+  task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL,
+  comment_id INTEGER REFERENCES task_comments(id) ON DELETE SET NULL,
+  customer_id INTEGER REFERENCES customers(id) ON DELETE SET NULL,
+  note TEXT,
+
+  processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_task ON inbound_emails(task_id);
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_processed ON inbound_emails(processed_at DESC);
+
+COMMENT ON TABLE inbound_emails IS 'Emails read from the task mailbox and the task or comment each one produced';
+COMMENT ON COLUMN inbound_emails.action IS 'created: new task, threaded: comment on an existing task, ignored: see note';
+
+-- ============================================================
+-- 2. THREADING
+-- ============================================================
+ALTER TABLE email_queue
+ADD COLUMN IF NOT EXISTS message_id VARCHAR(500);
+
+CREATE INDEX IF NOT EXISTS idx_email_queue_message_id ON email_queue(message_id) WHERE message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_source_email_id ON tasks(source_email_id) WHERE source_email_id IS NOT NULL;
+
+COMMENT ON COLUMN email_queue.message_id IS 'Message-ID given by the SMTP server, matched against In-Reply-To of replies';
+
+-- ============================================================
+-- 3. EMAIL ATTACHMENTS
+-- ============================================================
+ALTER TABLE task_attachments
+ADD COLUMN IF NOT EXISTS storage_key TEXT;
+
+COMMENT ON COLUMN task_attachments.storage_key IS 'Path of a stored file, relative to the attachment directory';
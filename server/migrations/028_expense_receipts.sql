@@ -0,0 +1,54 @@
+-- ============================================================
+-- Expense Receipts
+-- Migration: 028_expense_receipts.sql
+-- Description: Each site visit expense can carry one receipt (photo or
+--   PDF) kept in file storage, plus the vendor it was paid to. When local
+--   OCR is enabled the text read from the receipt is kept for reference.
+-- ============================================================
+
+-- ============================================================
+-- 1. RECEIPT COLUMNS
+-- ============================================================
+ALTER TABLE site_visit_expenses
+ADD COLUMN IF NOT EXISTS vendor VARCHAR(255),
+ADD COLUMN IF NOT EXISTS receipt_storage_key TEXT,
+ADD COLUMN IF NOT EXISTS receipt_file_name VARCHAR(255),
+ADD COLUMN IF NOT EXISTS receipt_file_type VARCHAR(100),
+ADD COLUMN IF NOT EXISTS receipt_file_size INTEGER,
+ADD COLUMN IF NOT EXISTS receipt_uploaded_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS receipt_ocr_text TEXT;
+
+COMMENT ON COLUMN site_visit_expenses.vendor IS 'Shop, fuel station or service the expense was paid to';
+COMMENT ON COLUMN site_visit_expenses.receipt_storage_key IS 'Path of the stored receipt file, relative to the attachment storage';
+COMMENT ON COLUMN site_visit_expenses.receipt_ocr_text IS 'Text read from the receipt by OCR (only when RECEIPT_OCR_ENABLED)';
+
+-- ============================================================
+-- 2. PENDING APPROVALS VIEW
+-- ============================================================
+-- Same view as before, plus how many expenses are missing a receipt
+CREATE OR REPLACE VIEW pending_calibration_approvals AS
+SELECT
+    svd.id,
+    svd.user_id,
+    u.full_name,
+    u.employee_id,
+    svd.visit_date,
+    svd.location,
+    svd.company_name,
+    svd.num_gauges,
+    svd.visit_summary,
+    svd.conclusion,
+    svd.submitted_at,
+    COALESCE(SUM(sve.amount), 0) as total_expenses,
+    COUNT(sve.id) as expense_count,
+    COUNT(sve.id) FILTER (WHERE sve.receipt_storage_key IS NULL) as missing_receipt_count
+FROM site_visit_details svd
+JOIN users u ON svd.user_id = u.id
+LEFT JOIN site_visit_expenses sve ON svd.id = sve.site_visit_id
+WHERE svd.status = 'submitted'
+GROUP BY svd.id, svd.user_id, u.full_name, u.employee_id, svd.visit_date,
+         svd.location, svd.company_name, svd.num_gauges, svd.visit_summary,
+         svd.conclusion, svd.submitted_at
+ORDER BY svd.submitted_at ASC;
+
+COMMENT ON VIEW pending_calibration_approvals IS 'Pending site visit expense approvals with total costs and missing receipts';
@@ -0,0 +1,130 @@
+-- ============================================================
+-- Expense Policies
+-- Migration: 029_expense_policies.sql
+-- Description: Finance-managed rules for Calibration site visit
+--   expenses: which expense types are allowed, a daily cap per type,
+--   food per-diem by city tier, a per-km rate for own-vehicle mileage
+--   and the amount above which a receipt is mandatory. Expenses breaking
+--   a rule are still saved but flagged to the approver.
+-- ============================================================
+
+-- ============================================================
+-- 1. EXPENSE TYPE POLICIES
+-- ============================================================
+CREATE TABLE IF NOT EXISTS expense_policies (
+  expense_type VARCHAR(100) PRIMARY KEY CHECK (expense_type = LOWER(expense_type)),
+  label VARCHAR(100) NOT NULL,
+
+  -- Other words employees use for this type ("petrol" for fuel)
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+
+  -- amount: as entered, capped by daily_cap
+  -- per_diem: capped by the city tier's daily allowance
+  -- mileage: distance_km x rate_per_km
+  calculation VARCHAR(20) NOT NULL DEFAULT 'amount' CHECK (calculation IN ('amount', 'per_diem', 'mileage')),
+  daily_cap DECIMAL(10, 2) CHECK (daily_cap IS NULL OR daily_cap > 0),
+  rate_per_km DECIMAL(8, 2) CHECK (rate_per_km IS NULL OR rate_per_km > 0),
+  receipt_required_above DECIMAL(10, 2) CHECK (receipt_required_above IS NULL OR receipt_required_above >= 0),
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+  CHECK (calculation != 'mileage' OR rate_per_km IS NOT NULL)
+);
+
+INSERT INTO expense_policies (expense_type, label, aliases, calculation, daily_cap, rate_per_km, receipt_required_above) VALUES
+  ('cab', 'Cab', '{taxi,auto,uber,ola,rickshaw}', 'amount', 1500, NULL, NULL),
+  ('fuel', 'Fuel', '{petrol,diesel,cng}', 'amount', 1000, NULL, NULL),
+  ('food', 'Food', '{lunch,dinner,breakfast,meal,meals,snacks,tea}', 'per_diem', NULL, NULL, NULL),
+  ('travel', 'Train / Bus', '{train,bus,metro,flight,ticket}', 'amount', NULL, NULL, 0),
+  ('lodging', 'Lodging', '{hotel,stay,accommodation}', 'amount', 3000, NULL, 0),
+  ('materials', 'Materials', '{material,parts,consumables,tools}', 'amount', NULL, NULL, NULL),
+  ('toll', 'Toll / Parking', '{parking,tolls}', 'amount', 500, NULL, NULL),
+  ('mileage', 'Own Vehicle', '{bike,car,own vehicle,km}', 'mileage', NULL, 4.50, NULL)
+ON CONFLICT (expense_type) DO NOTHING;
+
+COMMENT ON TABLE expense_policies IS 'Allowed site visit expense types and the limits that apply to each';
+COMMENT ON COLUMN expense_policies.daily_cap IS 'Most that can be claimed for this type in one day (NULL = no cap)';
+COMMENT ON COLUMN expense_policies.receipt_required_above IS 'Receipt needed above this amount (NULL = RECEIPT_REQUIRED_ABOVE setting)';
+
+-- ============================================================
+-- 2. PER-DIEM RATES AND CITY TIERS
+-- ============================================================
+CREATE TABLE IF NOT EXISTS expense_per_diem_rates (
+  city_tier VARCHAR(10) PRIMARY KEY CHECK (city_tier IN ('tier1', 'tier2', 'tier3')),
+  daily_allowance DECIMAL(10, 2) NOT NULL CHECK (daily_allowance > 0),
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO expense_per_diem_rates (city_tier, daily_allowance) VALUES
+  ('tier1', 800),
+  ('tier2', 600),
+  ('tier3', 400)
+ON CONFLICT (city_tier) DO NOTHING;
+
+-- Cities are matched against the site visit location; unknown places use
+-- EXPENSE_DEFAULT_CITY_TIER
+CREATE TABLE IF NOT EXISTS expense_city_tiers (
+  city VARCHAR(100) PRIMARY KEY CHECK (city = LOWER(city)),
+  city_tier VARCHAR(10) NOT NULL REFERENCES expense_per_diem_rates(city_tier)
+);
+
+INSERT INTO expense_city_tiers (city, city_tier) VALUES
+  ('mumbai', 'tier1'), ('delhi', 'tier1'), ('new delhi', 'tier1'), ('bengaluru', 'tier1'),
+  ('bangalore', 'tier1'), ('chennai', 'tier1'), ('kolkata', 'tier1'), ('hyderabad', 'tier1'),
+  ('pune', 'tier1'), ('ahmedabad', 'tier1'),
+  ('jaipur', 'tier2'), ('lucknow', 'tier2'), ('nagpur', 'tier2'), ('indore', 'tier2'),
+  ('surat', 'tier2'), ('vadodara', 'tier2'), ('nashik', 'tier2'), ('coimbatore', 'tier2'),
+  ('kochi', 'tier2'), ('chandigarh', 'tier2'), ('bhopal', 'tier2'), ('aurangabad', 'tier2')
+ON CONFLICT (city) DO NOTHING;
+
+COMMENT ON TABLE expense_per_diem_rates IS 'Daily food allowance per city tier';
+COMMENT ON TABLE expense_city_tiers IS 'City names looked up in site visit locations to pick the per-diem tier';
+
+-- ============================================================
+-- 3. MILEAGE DISTANCE
+-- ============================================================
+ALTER TABLE site_visit_expenses
+ADD COLUMN IF NOT EXISTS distance_km DECIMAL(8, 2) CHECK (distance_km IS NULL OR distance_km > 0);
+
+COMMENT ON COLUMN site_visit_expenses.distance_km IS 'Kilometres driven, for mileage expenses';
+
+-- ============================================================
+-- 4. AUTOCOMPLETE
+-- ============================================================
+-- Expense type suggestions now come from the allowed types
+CREATE OR REPLACE VIEW expense_autocomplete_data AS
+SELECT
+    'location' as type,
+    location as value,
+    COUNT(*) as usage_count
+FROM site_visit_details
+WHERE location IS NOT NULL AND location != ''
+GROUP BY location
+
+UNION ALL
+
+SELECT
+    'company' as type,
+    company_name as value,
+    COUNT(*) as usage_count
+FROM site_visit_details
+WHERE company_name IS NOT NULL AND company_name != ''
+GROUP BY company_name
+
+UNION ALL
+
+SELECT
+    'expense_type' as type,
+    ep.expense_type as value,
+    COUNT(sve.id) as usage_count
+FROM expense_policies ep
+LEFT JOIN site_visit_expenses sve ON sve.expense_type = ep.expense_type
+WHERE ep.is_active = true
+GROUP BY ep.expense_type
+
+ORDER BY type, usage_count DESC;
+
+COMMENT ON VIEW expense_autocomplete_data IS 'Autocomplete suggestions for locations, companies, and allowed expense types';
@@ -0,0 +1,13 @@
+-- ============================================================
+-- OAuth Login Codes
+-- Migration: 030_oauth_login_codes.sql
+-- Description: The Google sign-in redirect carries a one-time code instead
+--   of the tokens. The frontend swaps it for the tokens with a POST, so the
+--   refresh token never appears in browser history, proxy logs or Referer
+--   headers. Until then the session only lives for a couple of minutes.
+-- ============================================================
+
+ALTER TABLE user_sessions
+ADD COLUMN IF NOT EXISTS login_code_hash VARCHAR(64) UNIQUE;
+
+COMMENT ON COLUMN user_sessions.login_code_hash IS 'SHA-256 of the one-time code from the OAuth redirect; cleared once exchanged';
@@ -0,0 +1,30 @@
+-- ============================================================
+-- Email Verification
+-- Migration: 031_email_verification.sql
+-- Description: Self-registered accounts must confirm their email with an
+--   emailed link before they reach the approval queue or can log in, so
+--   nobody can claim an address they do not own. Google sign-in attaches
+--   to an existing account with the same email instead of creating one.
+-- ============================================================
+
+-- ============================================================
+-- 1. VERIFIED FLAG
+-- ============================================================
+-- Accounts created by admins, invites and Google count as verified, so the
+-- column defaults to the creation time; only self-registration leaves it NULL
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing self-registered accounts still waiting for approval must confirm
+UPDATE users SET email_verified_at = NULL
+WHERE is_approved = false AND invited_by IS NULL AND google_id IS NULL
+  AND password_hash IS NOT NULL AND last_login IS NULL;
+
+COMMENT ON COLUMN users.email_verified_at IS 'When the email was confirmed; NULL while a self-registered account awaits its verification link';
+
+-- ============================================================
+-- 2. VERIFICATION TOKENS
+-- ============================================================
+ALTER TABLE auth_tokens DROP CONSTRAINT IF EXISTS auth_tokens_purpose_check;
+ALTER TABLE auth_tokens ADD CONSTRAINT auth_tokens_purpose_check
+  CHECK (purpose IN ('password_reset', 'magic_link', 'email_verify'));
@@ -0,0 +1,285 @@
+// ==================== MONTHLY HOUR BALANCE ====================
+// Populates monthly_balance from attendance, holidays and approved leave,
+// and serves per-employee balances plus the admin team view
+
+import { getHolidaysByUser } from './holiday-routes.js';
+import { shiftDayMinutes } from './shift-routes.js';
+import { canViewUser, getTeamUserIds } from './team-scope.js';
+import { toDateString } from './date-utils.js';
+
+// Used for employees without any shift (no default shift configured)
+const HOURS_PER_DAY = parseFloat(process.env.WORK_HOURS_PER_DAY) || 8.5;
+const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+function parsePeriod(year, month) {
+    const y = parseInt(year);
+    const m = parseInt(month);
+
+    if (!y || y < 2000 || y > 2100 || !m || m < 1 || m > 12) {
+        return null;
+    }
+
+    return { year: y, month: m };
+}
+
+// Days of the month, before each user's shift days and holidays are
+// applied. The current month only counts up to today, so the balance is not
+// a deficit for days that have not happened yet.
+function getMonthDates(year, month) {
+    const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
+    const endDate = toDateString(new Date(year, month, 0));
+    const lastDate = [endDate, toDateString(new Date())].sort()[0];
+
+    const dates = [];
+    const current = new Date(year, month - 1, 1);
+
+    while (current.getMonth() === month - 1 && toDateString(current) <= lastDate) {
+        dates.push({ date: toDateString(current), dayOfWeek: current.getDay() });
+        current.setDate(current.getDate() + 1);
+    }
+
+    return { dates, startDate, endDate };
+}
+
+/**
+ * Recompute monthly_balance rows for one month (month is 1-12).
+ * Pass userId to limit the run to a single employee.
+ * Returns the number of rows written.
+ */
+export async function recalculateMonthlyBalances(pool, year, month, userId = null) {
+    const { dates: monthDates, startDate, endDate } = getMonthDates(year, month);
+
+    const usersResult = await pool.query(
+        `SELECT id FROM users
+         WHERE role IS NOT NULL AND is_active = true
+           AND ($1::int IS NULL OR id = $1)`,
+        [userId]
+    );
+
+    if (usersResult.rows.length === 0) {
+        return 0;
+    }
+
+    const userIds = usersResult.rows.map(u => u.id);
+
+    const [shiftsResult, attendanceResult, leaveResult, holidaysByUser] = await Promise.all([
+        pool.query(
+            `SELECT u.id as user_id, s.start_time, s.end_time, s.working_days
+             FROM users u
+             JOIN shifts s ON s.id = user_shift_id(u.id)
+             WHERE u.id = ANY($1)`,
+            [userIds]
+        ),
+        pool.query(
+            `SELECT user_id,
+                    COALESCE(SUM(
+                        CASE WHEN work_hours_start IS NOT NULL AND work_hours_end > work_hours_start
+                             THEN EXTRACT(EPOCH FROM (work_hours_end - work_hours_start)) / 3600
+                             ELSE 0
+                        END
+                    ), 0) as total_hours,
+                    COUNT(*) FILTER (WHERE status = 'present') as days_present,
+                    COUNT(*) FILTER (WHERE status = 'wfh') as days_wfh,
+                    COUNT(*) FILTER (WHERE status = 'half_day') as days_half_day,
+                    COUNT(*) FILTER (WHERE status IN ('on_leave', 'leave')) as days_on_leave
+             FROM attendance
+             WHERE user_id = ANY($1) AND date BETWEEN $2 AND $3
+             GROUP BY user_id`,
+            [userIds, startDate, endDate]
+        ),
+        pool.query(
+            `SELECT user_id, start_date, end_date FROM leave_requests
+             WHERE user_id = ANY($1) AND status = 'approved'
+               AND start_date <= $3 AND end_date >= $2`,
+            [userIds, startDate, endDate]
+        ),
+        getHolidaysByUser(pool, userIds, startDate, endDate)
+    ]);
+
+    const shiftByUser = new Map(shiftsResult.rows.map(row => [row.user_id, row]));
+
+    // Working days follow each employee's shift and holiday calendars
+    const workingDatesByUser = new Map(userIds.map(id => {
+        const holidays = holidaysByUser.get(id);
+        const shiftDays = shiftByUser.get(id)?.working_days || DEFAULT_WORKING_DAYS;
+        return [id, monthDates
+            .filter(({ date, dayOfWeek }) => shiftDays.includes(dayOfWeek) && !holidays.has(date))
+            .map(({ date }) => date)];
+    }));
+
+    const attendanceByUser = new Map(attendanceResult.rows.map(row => [row.user_id, row]));
+
+    // Approved leave only reduces expected hours on working days
+    const leaveDatesByUser = new Map();
+    leaveResult.rows.forEach(leave => {
+        const from = toDateString(new Date(leave.start_date));
+        const to = toDateString(new Date(leave.end_date));
+        const dates = leaveDatesByUser.get(leave.user_id) || new Set();
+        workingDatesByUser.get(leave.user_id).filter(date => date >= from && date <= to).forEach(date => dates.add(date));
+        leaveDatesByUser.set(leave.user_id, dates);
+    });
+
+    for (const id of userIds) {
+        const stats = attendanceByUser.get(id);
+        const workingDates = workingDatesByUser.get(id);
+        const leaveDays = leaveDatesByUser.get(id)?.size || 0;
+        const shift = shiftByUser.get(id);
+        const hoursPerDay = shift ? shiftDayMinutes(shift) / 60 : HOURS_PER_DAY;
+        const expectedHours = parseFloat(((workingDates.length - leaveDays) * hoursPerDay).toFixed(2));
+
+        // balance_hours is derived by the calculate_monthly_balance trigger
+        await pool.query(
+            `INSERT INTO monthly_balance (
+                user_id, year, month, total_hours_worked, expected_hours, working_days,
+                days_present, days_wfh, days_half_day, days_on_leave
+             ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+             ON CONFLICT (user_id, year, month) DO UPDATE SET
+                total_hours_worked = EXCLUDED.total_hours_worked,
+                expected_hours = EXCLUDED.expected_hours,
+                working_days = EXCLUDED.working_days,
+                days_present = EXCLUDED.days_present,
+                days_wfh = EXCLUDED.days_wfh,
+                days_half_day = EXCLUDED.days_half_day,
+                days_on_leave = EXCLUDED.days_on_leave`,
+            [
+                id, year, month,
+                parseFloat(parseFloat(stats?.total_hours || 0).toFixed(2)),
+                expectedHours,
+                workingDates.length,
+                parseInt(stats?.days_present || 0),
+                parseInt(stats?.days_wfh || 0),
+                parseInt(stats?.days_half_day || 0),
+                parseInt(stats?.days_on_leave || 0)
+            ]
+        );
+    }
+
+    return userIds.length;
+}
+
+/**
+ * Nightly job: refresh the current month, and the previous month on the 1st
+ * so late edits to the last day are picked up
+ */
+export async function processMonthlyBalances(pool) {
+    try {
+        const today = new Date();
+        const periods = [{ year: today.getFullYear(), month: today.getMonth() + 1 }];
+
+        if (today.getDate() === 1) {
+            const previous = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+            periods.push({ year: previous.getFullYear(), month: previous.getMonth() + 1 });
+        }
+
+        for (const { year, month } of periods) {
+            const count = await recalculateMonthlyBalances(pool, year, month);
+            console.log(`📊 Monthly balance updated for ${count} employees (${year}-${String(month).padStart(2, '0')})`);
+        }
+    } catch (error) {
+        console.error('❌ Error computing monthly balances:', error);
+    }
+}
+
+/**
+ * Get hour balance for one employee-month (month is 1-12).
+ * The current month is recomputed on read so the badge stays fresh.
+ * GET /api/monthly-balance/:year/:month?userId=
+ */
+export const getMonthlyBalance = async (req, res, pool) => {
+    try {
+        const period = parsePeriod(req.params.year, req.params.month);
+        if (!period) {
+            return res.status(400).json({ error: 'Invalid year or month' });
+        }
+
+        const userId = parseInt(req.query.userId) || req.user.id;
+
+        if (!(await canViewUser(pool, req.user, userId))) {
+            return res.status(403).json({ error: 'Access denied' });
+        }
+
+        const today = new Date();
+        const isCurrentMonth = period.year === today.getFullYear() && period.month === today.getMonth() + 1;
+
+        let result = await pool.query(
+            'SELECT * FROM monthly_balance WHERE user_id = $1 AND year = $2 AND month = $3',
+            [userId, period.year, period.month]
+        );
+
+        if (result.rows.length === 0 || isCurrentMonth) {
+            await recalculateMonthlyBalances(pool, period.year, period.month, userId);
+            result = await pool.query(
+                'SELECT * FROM monthly_balance WHERE user_id = $1 AND year = $2 AND month = $3',
+                [userId, period.year, period.month]
+            );
+        }
+
+        res.json({
+            balance: result.rows[0] || null,
+            hoursPerDay: HOURS_PER_DAY
+        });
+    } catch (error) {
+        console.error('❌ Error fetching monthly balance:', error);
+        res.status(500).json({ error: 'Failed to fetch monthly balance' });
+    }
+};
+
+/**
+ * Team hour balances for a month (managers only see their reports)
+ * GET /api/admin/monthly-balance/:year/:month
+ */
+export const getTeamMonthlyBalance = async (req, res, pool) => {
+    try {
+        const period = parsePeriod(req.params.year, req.params.month);
+        if (!period) {
+            return res.status(400).json({ error: 'Invalid year or month' });
+        }
+
+        const teamIds = await getTeamUserIds(pool, req.user);
+
+        const result = await pool.query(
+            `SELECT mb.*, u.full_name, u.employee_id, u.department
+             FROM monthly_balance mb
+             JOIN users u ON mb.user_id = u.id
+             WHERE mb.year = $1 AND mb.month = $2 AND u.is_active = true
+               AND ($3::int[] IS NULL OR mb.user_id = ANY($3))
+             ORDER BY mb.balance_hours ASC, u.full_name ASC`,
+            [period.year, period.month, teamIds]
+        );
+
+        res.json({
+            balances: result.rows,
+            hoursPerDay: HOURS_PER_DAY
+        });
+    } catch (error) {
+        console.error('❌ Error fetching team monthly balance:', error);
+        res.status(500).json({ error: 'Failed to fetch team monthly balance' });
+    }
+};
+
+/**
+ * Recompute balances on demand
+ * POST /api/admin/monthly-balance/recompute { year, month, userId? }
+ */
+export const recomputeMonthlyBalance = async (req, res, pool) => {
+    try {
+        const { year, month, userId } = req.body;
+
+        const period = parsePeriod(year, month);
+        if (!period) {
+            return res.status(400).json({ error: 'Invalid year or month' });
+        }
+
+        const count = await recalculateMonthlyBalances(pool, period.year, period.month, userId ? parseInt(userId) : null);
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'recompute_monthly_balance', `Recomputed monthly balance for ${period.year}-${String(period.month).padStart(2, '0')} (${count} employees)`]
+        );
+
+        res.json({ message: `Recomputed ${count} employee balance(s)`, count });
+    } catch (error) {
+        console.error('❌ Error recomputing monthly balance:', error);
+        res.status(500).json({ error: 'Failed to recompute monthly balance' });
+    }
+};
@@ -0,0 +1,109 @@
+// ==================== IN-APP NOTIFICATIONS ====================
+// Routes for the notification center (bell dropdown) backed by the notifications table
+
+/**
+ * Get notifications for the logged-in user
+ * GET /api/notifications?unreadOnly=true&limit=20
+ */
+export const getNotifications = async (req, res, pool) => {
+    try {
+        const { unreadOnly } = req.query;
+        const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+
+        let query = `
+            SELECT id, type, title, message, link, is_read, read_at, created_at
+            FROM notifications
+            WHERE user_id = $1
+        `;
+
+        if (unreadOnly === 'true') {
+            query += ' AND is_read = false';
+        }
+
+        query += ' ORDER BY created_at DESC LIMIT $2';
+
+        const [notifications, unread] = await Promise.all([
+            pool.query(query, [req.user.id, limit]),
+            pool.query(
+                'SELECT COUNT(*) as count FROM notifications WHERE user_id = $1 AND is_read = false',
+                [req.user.id]
+            )
+        ]);
+
+        res.json({
+            notifications: notifications.rows,
+            unreadCount: parseInt(unread.rows[0].count)
+        });
+    } catch (error) {
+        console.error('❌ Error fetching notifications:', error);
+        res.status(500).json({ error: 'Failed to fetch notifications' });
+    }
+};
+
+/**
+ * Get unread notification count for the logged-in user
+ * GET /api/notifications/unread-count
+ */
+export const getUnreadCount = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            'SELECT COUNT(*) as count FROM notifications WHERE user_id = $1 AND is_read = false',
+            [req.user.id]
+        );
+
+        res.json({ count: parseInt(result.rows[0].count) });
+    } catch (error) {
+        console.error('❌ Error fetching unread count:', error);
+        res.status(500).json({ error: 'Failed to fetch unread count' });
+    }
+};
+
+/**
+ * Mark a single notification as read
+ * PUT /api/notifications/:id/read
+ */
+export const markNotificationRead = async (req, res, pool) => {
+    try {
+        const { id } = req.params;
+
+        const result = await pool.query(
+            `UPDATE notifications
+             SET is_read = true, read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+             WHERE id = $1 AND user_id = $2
+             RETURNING id, is_read, read_at`,
+            [id, req.user.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Notification not found' });
+        }
+
+        res.json(result.rows[0]);
+    } catch (error) {
+        console.error('❌ Error marking notification read:', error);
+        res.status(500).json({ error: 'Failed to mark notification as read' });
+    }
+};
+
+/**
+ * Mark all notifications as read for the logged-in user
+ * PUT /api/notifications/read-all
+ */
+export const markAllNotificationsRead = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `UPDATE notifications
+             SET is_read = true, read_at = CURRENT_TIMESTAMP
+             WHERE user_id = $1 AND is_read = false`,
+            [req.user.id]
+        );
+
+        res.json({
+            success: true,
+            updated: result.rowCount
+        });
+    } catch (error) {
+        console.error('❌ Error marking all notifications read:', error);
+        res.status(500).json({ error: 'Failed to mark notifications as read' });
+    }
+};
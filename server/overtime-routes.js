@@ -0,0 +1,388 @@
+// ==================== OVERTIME ====================
+// Overtime beyond the assigned shift opens a request. The employee explains
+// it, an admin or their manager signs it off, and approved minutes are either
+// paid in the payroll export or banked towards comp-off credits, following
+// OVERTIME_POLICY.
+
+import { creditCompOff } from './comp-off-routes.js';
+import { getTeamUserIds, isInTeam } from './team-scope.js';
+import { toDateString } from './date-utils.js';
+
+// payable: paid as extra hours in payroll; comp_off: banked into comp-off credits
+export const OVERTIME_POLICY = process.env.OVERTIME_POLICY === 'comp_off' ? 'comp_off' : 'payable';
+
+// Shorter overtime is not worth a request
+const OVERTIME_MIN_MINUTES = parseInt(process.env.OVERTIME_MIN_MINUTES) || 30;
+
+// Banked overtime that earns one comp-off credit
+const OVERTIME_COMP_OFF_MINUTES = parseInt(process.env.OVERTIME_COMP_OFF_MINUTES) || 480;
+
+// Requests that still follow the attendance row
+const OPEN_STATUSES = ['awaiting_justification', 'pending'];
+
+export function formatOvertime(minutes) {
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${String(minutes % 60).padStart(2, '0')}m` : `${minutes}m`;
+}
+
+/**
+ * Open, update or withdraw the overtime request of one attendance row.
+ * Decided requests are left alone. Sunday/holiday work that already earns a
+ * comp-off does not also count as overtime.
+ */
+export async function syncOvertimeRequest(db, attendance, earnsCompOff) {
+    const minutes = attendance.overtime_minutes || 0;
+
+    if (minutes < OVERTIME_MIN_MINUTES || earnsCompOff) {
+        await db.query(
+            'DELETE FROM overtime_requests WHERE attendance_id = $1 AND status = ANY($2)',
+            [attendance.id, OPEN_STATUSES]
+        );
+        return null;
+    }
+
+    const existing = await db.query(
+        'SELECT id, status FROM overtime_requests WHERE attendance_id = $1',
+        [attendance.id]
+    );
+
+    if (existing.rows.length > 0) {
+        if (!OPEN_STATUSES.includes(existing.rows[0].status)) return null;
+
+        const updated = await db.query(
+            `UPDATE overtime_requests
+             SET overtime_minutes = $1, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $2
+             RETURNING *`,
+            [minutes, existing.rows[0].id]
+        );
+        return updated.rows[0];
+    }
+
+    const date = toDateString(new Date(attendance.date));
+
+    const result = await db.query(
+        `INSERT INTO overtime_requests (user_id, attendance_id, attendance_date, overtime_minutes)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [attendance.user_id, attendance.id, date, minutes]
+    );
+
+    await db.query(
+        `INSERT INTO notifications (user_id, type, title, message, link)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [
+            attendance.user_id,
+            'overtime_recorded',
+            'Overtime Recorded',
+            `You worked ${formatOvertime(minutes)} overtime on ${date}. Add a reason to send it for approval.`,
+            '/calendar'
+        ]
+    );
+
+    return result.rows[0];
+}
+
+// Add approved comp-off overtime to the bank and pay out one credit once it is full
+async function bankOvertime(client, request, approvedMinutes) {
+    const bank = await client.query(
+        `SELECT COALESCE(SUM(approved_minutes), 0) as banked,
+                COUNT(comp_off_id) as credited
+         FROM overtime_requests
+         WHERE user_id = $1 AND status = 'approved' AND compensation = 'comp_off'`,
+        [request.user_id]
+    );
+
+    const banked = parseInt(bank.rows[0].banked) + approvedMinutes;
+    const credited = parseInt(bank.rows[0].credited);
+
+    if (banked - credited * OVERTIME_COMP_OFF_MINUTES < OVERTIME_COMP_OFF_MINUTES) {
+        return null;
+    }
+
+    const date = toDateString(new Date(request.attendance_date));
+    return creditCompOff(client, request.user_id, date, `Overtime (${formatOvertime(OVERTIME_COMP_OFF_MINUTES)} banked)`);
+}
+
+/**
+ * Your overtime requests, newest first
+ * GET /api/overtime
+ */
+export const getMyOvertime = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT o.*, reviewer.full_name as reviewed_by_name
+             FROM overtime_requests o
+             LEFT JOIN users reviewer ON o.reviewed_by = reviewer.id
+             WHERE o.user_id = $1
+             ORDER BY o.attendance_date DESC
+             LIMIT 50`,
+            [req.user.id]
+        );
+
+        res.json({ policy: OVERTIME_POLICY, requests: result.rows });
+    } catch (error) {
+        console.error('❌ Error fetching overtime:', error);
+        res.status(500).json({ error: 'Failed to fetch overtime' });
+    }
+};
+
+/**
+ * Explain your overtime and send it for approval
+ * PUT /api/overtime/:id/justify { justification }
+ */
+export const justifyOvertime = async (req, res, pool) => {
+    try {
+        const { justification } = req.body;
+
+        if (!justification?.trim()) {
+            return res.status(400).json({ error: 'Please explain the overtime' });
+        }
+
+        const result = await pool.query(
+            `UPDATE overtime_requests
+             SET justification = $1, justified_at = CURRENT_TIMESTAMP, status = 'pending',
+                 updated_at = CURRENT_TIMESTAMP
+             WHERE id = $2 AND user_id = $3 AND status = ANY($4)
+             RETURNING *`,
+            [justification.trim(), req.params.id, req.user.id, OPEN_STATUSES]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Open overtime request not found' });
+        }
+
+        const request = result.rows[0];
+        const date = toDateString(new Date(request.attendance_date));
+        const employeeName = req.user.fullName || req.user.username;
+
+        // Notify admins and the reporting manager
+        const reviewers = await pool.query(
+            `SELECT id FROM users
+             WHERE is_active = true
+               AND (role = $1 OR id = (SELECT manager_id FROM users WHERE id = $2))`,
+            ['admin', req.user.id]
+        );
+
+        for (const reviewer of reviewers.rows) {
+            await pool.query(
+                `INSERT INTO notifications (user_id, type, title, message, link)
+                 VALUES ($1, $2, $3, $4, $5)`,
+                [
+                    reviewer.id,
+                    'overtime_request',
+                    'Overtime Approval',
+                    `${employeeName} worked ${formatOvertime(request.overtime_minutes)} overtime on ${date}: ${justification.trim()}`,
+                    '/admin?panel=overtime'
+                ]
+            );
+        }
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'overtime_justified', `Sent ${formatOvertime(request.overtime_minutes)} overtime on ${date} for approval: ${justification.trim()}`]
+        );
+
+        console.log(`⏰ ${employeeName} sent overtime for ${date} for approval`);
+
+        res.json(request);
+    } catch (error) {
+        console.error('❌ Error justifying overtime:', error);
+        res.status(500).json({ error: 'Failed to send overtime for approval' });
+    }
+};
+
+/**
+ * Justified overtime waiting for sign-off (Admin, or a manager's team)
+ * GET /api/admin/overtime/pending
+ */
+export const getPendingOvertime = async (req, res, pool) => {
+    try {
+        const teamIds = await getTeamUserIds(pool, req.user);
+
+        const result = await pool.query(
+            `SELECT o.*, u.full_name, u.employee_id, u.department,
+                    a.work_hours_start, a.work_hours_end,
+                    s.name as shift_name, s.start_time as shift_start, s.end_time as shift_end
+             FROM overtime_requests o
+             JOIN users u ON o.user_id = u.id
+             JOIN attendance a ON a.id = o.attendance_id
+             LEFT JOIN shifts s ON s.id = a.shift_id
+             WHERE o.status = 'pending'
+               AND ($1::int[] IS NULL OR o.user_id = ANY($1))
+             ORDER BY o.attendance_date ASC, o.justified_at ASC`,
+            [teamIds]
+        );
+
+        res.json({ policy: OVERTIME_POLICY, requests: result.rows });
+    } catch (error) {
+        console.error('❌ Error fetching pending overtime:', error);
+        res.status(500).json({ error: 'Failed to fetch pending overtime' });
+    }
+};
+
+/**
+ * Approve overtime, optionally fewer minutes than recorded (Admin or manager)
+ * PUT /api/admin/overtime/:id/approve { approvedMinutes }
+ */
+export const approveOvertime = async (req, res, pool) => {
+    const client = await pool.connect();
+
+    try {
+        const { id } = req.params;
+
+        await client.query('BEGIN');
+
+        const requestCheck = await client.query(
+            `SELECT o.*, u.full_name
+             FROM overtime_requests o
+             JOIN users u ON o.user_id = u.id
+             WHERE o.id = $1
+             FOR UPDATE OF o`,
+            [id]
+        );
+
+        if (requestCheck.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Overtime request not found' });
+        }
+
+        const request = requestCheck.rows[0];
+
+        if (!(await isInTeam(client, req.user, request.user_id))) {
+            await client.query('ROLLBACK');
+            return res.status(403).json({ error: 'Overtime request is not from your team' });
+        }
+
+        if (request.status !== 'pending') {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ error: `Cannot approve. Current status: ${request.status}` });
+        }
+
+        const approvedMinutes = req.body.approvedMinutes == null || req.body.approvedMinutes === ''
+            ? request.overtime_minutes
+            : parseInt(req.body.approvedMinutes);
+
+        if (isNaN(approvedMinutes) || approvedMinutes <= 0 || approvedMinutes > request.overtime_minutes) {
+            await client.query('ROLLBACK');
+            return res.status(400).json({ error: `Approved minutes must be between 1 and ${request.overtime_minutes}` });
+        }
+
+        const compOff = OVERTIME_POLICY === 'comp_off'
+            ? await bankOvertime(client, request, approvedMinutes)
+            : null;
+
+        await client.query(
+            `UPDATE overtime_requests
+             SET status = 'approved', approved_minutes = $1, compensation = $2, comp_off_id = $3,
+                 reviewed_by = $4, reviewed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $5`,
+            [approvedMinutes, OVERTIME_POLICY, compOff?.id || null, req.user.id, id]
+        );
+
+        const date = toDateString(new Date(request.attendance_date));
+        const approvedText = formatOvertime(approvedMinutes);
+        const outcome = OVERTIME_POLICY === 'payable'
+            ? 'It will be paid with your salary.'
+            : compOff ? 'It completed a comp-off credit.' : 'It was added to your comp-off bank.';
+
+        // Notify employee
+        await client.query(
+            `INSERT INTO notifications (user_id, type, title, message, link)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [
+                request.user_id,
+                'overtime_approved',
+                'Overtime Approved',
+                `${approvedText} overtime on ${date} was approved. ${outcome}`,
+                '/calendar'
+            ]
+        );
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [
+                req.user.id,
+                'overtime_approved',
+                `Approved ${approvedText} of ${formatOvertime(request.overtime_minutes)} overtime for ${request.full_name} on ${date} as ${OVERTIME_POLICY === 'payable' ? 'payable hours' : 'comp-off'}`
+            ]
+        );
+
+        await client.query('COMMIT');
+
+        console.log(`✅ ${req.user.role === 'admin' ? 'Admin' : 'Manager'} ${req.user.username} approved overtime #${id} for ${request.full_name}`);
+
+        res.json({
+            success: true,
+            message: 'Overtime approved',
+            approvedMinutes,
+            compensation: OVERTIME_POLICY,
+            compOffEarned: !!compOff
+        });
+    } catch (error) {
+        await client.query('ROLLBACK');
+        console.error('❌ Error approving overtime:', error);
+        res.status(500).json({ error: 'Failed to approve overtime' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Reject overtime with a reason (Admin or manager)
+ * PUT /api/admin/overtime/:id/reject { reason }
+ */
+export const rejectOvertime = async (req, res, pool) => {
+    try {
+        const { id } = req.params;
+        const { reason } = req.body;
+
+        if (!reason || !reason.trim()) {
+            return res.status(400).json({ error: 'Rejection reason is required' });
+        }
+
+        const teamIds = await getTeamUserIds(pool, req.user);
+
+        const result = await pool.query(
+            `UPDATE overtime_requests
+             SET status = 'rejected', reviewed_by = $1, reviewed_at = CURRENT_TIMESTAMP,
+                 rejection_reason = $2, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $3 AND status = 'pending'
+               AND ($4::int[] IS NULL OR user_id = ANY($4))
+             RETURNING *`,
+            [req.user.id, reason.trim(), id, teamIds]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Pending overtime request not found' });
+        }
+
+        const request = result.rows[0];
+        const date = toDateString(new Date(request.attendance_date));
+
+        // Notify employee
+        await pool.query(
+            `INSERT INTO notifications (user_id, type, title, message, link)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [
+                request.user_id,
+                'overtime_rejected',
+                'Overtime Rejected',
+                `Your overtime on ${date} was not approved. Reason: ${reason.trim()}`,
+                '/calendar'
+            ]
+        );
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'overtime_rejected', `Rejected overtime #${id} for ${date}: ${reason.trim()}`]
+        );
+
+        console.log(`❌ ${req.user.role === 'admin' ? 'Admin' : 'Manager'} ${req.user.username} rejected overtime #${id}`);
+
+        res.json({ success: true, message: 'Overtime rejected' });
+    } catch (error) {
+        console.error('❌ Error rejecting overtime:', error);
+        res.status(500).json({ error: 'Failed to reject overtime' });
+    }
+};
@@ -0,0 +1,113 @@
+// Receipt OCR
+// Optional local OCR for expense receipts. When RECEIPT_OCR_ENABLED=true
+// the image is piped through RECEIPT_OCR_COMMAND (tesseract by default) and
+// the amount and vendor are guessed from the text. The guesses only pre-fill
+// the expense form; nothing is saved without the employee confirming it.
+
+import { spawn } from 'child_process';
+
+const OCR_ENABLED = process.env.RECEIPT_OCR_ENABLED === 'true';
+const OCR_COMMAND = process.env.RECEIPT_OCR_COMMAND || 'tesseract stdin stdout';
+const OCR_TIMEOUT_MS = 30000;
+
+// PDFs and other documents are stored as receipts but not read
+const OCR_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export function isReceiptOcrEnabled() {
+    return OCR_ENABLED;
+}
+
+function runOcrCommand(buffer) {
+    const [command, ...args] = OCR_COMMAND.split(/\s+/);
+
+    return new Promise((resolve, reject) => {
+        const ocr = spawn(command, args, { stdio: ['pipe', 'pipe', 'ignore'] });
+        let output = '';
+
+        const timer = setTimeout(() => {
+            ocr.kill();
+            reject(new Error(`OCR timed out after ${OCR_TIMEOUT_MS / 1000}s`));
+        }, OCR_TIMEOUT_MS);
+
+        ocr.stdout.on('data', chunk => { output += chunk; });
+        ocr.on('error', (error) => {
+            clearTimeout(timer);
+            reject(error);
+        });
+        ocr.on('close', code => {
+            clearTimeout(timer);
+            if (code === 0) resolve(output);
+            else reject(new Error(`OCR command exited with code ${code}`));
+        });
+
+        ocr.stdin.on('error', () => {});
+        ocr.stdin.end(buffer);
+    });
+}
+
+function parseAmount(value) {
+    const amount = parseFloat(value.replace(/,/g, ''));
+    return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+const AMOUNT_PATTERN = /(\d{1,3}(?:,\d{2,3})+(?:\.\d{1,2})?|\d+\.\d{1,2}|\d+)/g;
+
+/**
+ * Guess { amount, vendor } from receipt text. The amount comes from a
+ * "total"/"amount" line when there is one, otherwise the largest decimal
+ * figure; the vendor is the first line that reads like a name.
+ */
+export function extractReceiptFields(text) {
+    const lines = (text || '')
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(Boolean);
+
+    let amount = null;
+
+    // Bottom-up, so "Grand Total" wins over "Sub Total"
+    for (const line of [...lines].reverse()) {
+        if (!/(grand\s*total|total|amount|net\s*payable|amt)/i.test(line)) continue;
+        if (/(sub\s*total|tax|gst|discount|change|tendered)/i.test(line)) continue;
+
+        const figures = line.match(AMOUNT_PATTERN);
+        if (figures) {
+            amount = parseAmount(figures[figures.length - 1]);
+            if (amount) break;
+        }
+    }
+
+    if (!amount) {
+        const decimals = (text || '').match(/\d{1,3}(?:,\d{2,3})*\.\d{2}\b/g) || [];
+        const values = decimals.map(parseAmount).filter(Boolean);
+        amount = values.length > 0 ? Math.max(...values) : null;
+    }
+
+    const vendorLine = lines.slice(0, 5).find(line =>
+        /[a-z]{3,}/i.test(line) &&
+        !/(invoice|receipt|bill|tax|gst|date|time|tel|phone|www\.|@)/i.test(line)
+    );
+
+    return {
+        amount,
+        vendor: vendorLine ? vendorLine.replace(/[^\w&.,'()\- ]+/g, '').trim().substring(0, 255) || null : null
+    };
+}
+
+/**
+ * Read a receipt image. Returns { text, amount, vendor }, or null when OCR
+ * is disabled, the file is not an image, or the OCR command fails.
+ */
+export async function scanReceipt(buffer, contentType) {
+    if (!OCR_ENABLED || !OCR_TYPES.includes((contentType || '').toLowerCase())) {
+        return null;
+    }
+
+    try {
+        const text = await runOcrCommand(buffer);
+        return { text, ...extractReceiptFields(text) };
+    } catch (error) {
+        console.error('❌ Receipt OCR failed:', error.message);
+        return null;
+    }
+}
@@ -0,0 +1,433 @@
+// ==================== LOGIN SESSIONS ====================
+// Every login creates a user_sessions row. Access tokens are short-lived JWTs
+// carrying the session id; refresh tokens rotate on each use and only their
+// hash is stored. Revoking a session logs that device out on its next request.
+
+import crypto from 'crypto';
+import { generateToken } from './auth.js';
+
+const REFRESH_TOKEN_DAYS = parseInt(process.env.REFRESH_TOKEN_DAYS) || 30;
+
+// Time the frontend has to exchange an OAuth redirect code
+const LOGIN_CODE_SECONDS = 120;
+
+// A second tab may refresh with the token another tab just rotated; only
+// treat an old token as stolen once this grace period has passed
+const REUSE_GRACE_SECONDS = 30;
+
+function hashToken(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newRefreshToken() {
+    return crypto.randomBytes(48).toString('base64url');
+}
+
+// "Chrome on Windows" style label from a user-agent string
+function describeDevice(userAgent) {
+    if (!userAgent) return 'Unknown device';
+
+    const browser =
+        /Edg\//.test(userAgent) ? 'Edge' :
+        /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+        /Chrome\//.test(userAgent) ? 'Chrome' :
+        /Firefox\//.test(userAgent) ? 'Firefox' :
+        /Safari\//.test(userAgent) ? 'Safari' :
+        'Browser';
+
+    const os =
+        /Windows/.test(userAgent) ? 'Windows' :
+        /Android/.test(userAgent) ? 'Android' :
+        /iPhone|iPad/.test(userAgent) ? 'iOS' :
+        /Mac OS X/.test(userAgent) ? 'macOS' :
+        /Linux/.test(userAgent) ? 'Linux' :
+        'Unknown OS';
+
+    return `${browser} on ${os}`;
+}
+
+function formatSession(session, currentSessionId) {
+    return {
+        id: session.id,
+        device: describeDevice(session.user_agent),
+        userAgent: session.user_agent,
+        ipAddress: session.ip_address,
+        createdAt: session.created_at,
+        lastSeenAt: session.last_seen_at,
+        current: session.id === currentSessionId
+    };
+}
+
+/**
+ * Start a session for a freshly authenticated user.
+ * Returns the access token and the refresh token to hand to the client.
+ */
+export async function createSession(db, user, req) {
+    const refreshToken = newRefreshToken();
+
+    const result = await db.query(
+        `INSERT INTO user_sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+         VALUES ($1, $2, $3, $4, NOW() + ($5 || ' days')::interval)
+         RETURNING id`,
+        [user.id, hashToken(refreshToken), req.headers['user-agent'] || null, req.ip, REFRESH_TOKEN_DAYS]
+    );
+
+    return {
+        token: generateToken(user, result.rows[0].id),
+        refreshToken
+    };
+}
+
+/**
+ * Start a session that waits for its OAuth redirect code to be exchanged.
+ * Returns the one-time code to put in the redirect.
+ */
+export async function createLoginCode(db, user, req) {
+    const code = newRefreshToken();
+
+    // The refresh token is only issued at exchange; this placeholder is never handed out
+    await db.query(
+        `INSERT INTO user_sessions (user_id, refresh_token_hash, login_code_hash, user_agent, ip_address, expires_at)
+         VALUES ($1, $2, $3, $4, $5, NOW() + ($6 || ' seconds')::interval)`,
+        [user.id, hashToken(newRefreshToken()), hashToken(code), req.headers['user-agent'] || null, req.ip, LOGIN_CODE_SECONDS]
+    );
+
+    return code;
+}
+
+/**
+ * User behind a verified access token, or null when the session was revoked,
+ * has expired or the user was deactivated. Role and department come from the
+ * database so admin changes apply on the very next request.
+ */
+export async function getSessionUser(db, payload, req) {
+    if (!payload.sid) {
+        return null;
+    }
+
+    const result = await db.query(
+        `SELECT u.id, u.username, u.email, u.full_name, u.role, u.department,
+                s.last_seen_at < NOW() - INTERVAL '1 minute' as seen_stale
+         FROM user_sessions s
+         JOIN users u ON u.id = s.user_id
+         WHERE s.id = $1 AND s.user_id = $2
+           AND s.revoked_at IS NULL AND s.expires_at > NOW()
+           AND u.is_active = true`,
+        [payload.sid, payload.id]
+    );
+
+    if (result.rows.length === 0) {
+        return null;
+    }
+
+    const user = result.rows[0];
+
+    // Throttled so a busy page does not write on every request
+    if (user.seen_stale) {
+        await db.query(
+            'UPDATE user_sessions SET last_seen_at = NOW(), ip_address = $2 WHERE id = $1',
+            [payload.sid, req.ip]
+        );
+    }
+
+    return {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        fullName: user.full_name,
+        role: user.role,
+        department: user.department,
+        sid: payload.sid
+    };
+}
+
+/**
+ * Revoke every live session of a user. Returns how many were revoked.
+ */
+export async function revokeUserSessions(db, userId, reason) {
+    const result = await db.query(
+        `UPDATE user_sessions
+         SET revoked_at = NOW(), revoked_reason = $2
+         WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+        [userId, reason]
+    );
+
+    return result.rowCount;
+}
+
+/**
+ * Delete sessions that expired or were revoked more than a month ago
+ */
+export async function cleanupExpiredSessions(pool) {
+    try {
+        const result = await pool.query(
+            `DELETE FROM user_sessions
+             WHERE expires_at < NOW() - INTERVAL '30 days'
+                OR revoked_at < NOW() - INTERVAL '30 days'`
+        );
+
+        console.log(`🧹 Removed ${result.rowCount} old login sessions`);
+    } catch (error) {
+        console.error('❌ Error cleaning up login sessions:', error);
+    }
+}
+
+/**
+ * Swap a refresh token for a new access token and a new refresh token
+ * POST /api/auth/refresh { refreshToken }
+ */
+export const refreshSession = async (req, res, pool) => {
+    try {
+        const { refreshToken } = req.body;
+
+        if (!refreshToken) {
+            return res.status(400).json({ error: 'Refresh token is required' });
+        }
+
+        const tokenHash = hashToken(refreshToken);
+        const nextToken = newRefreshToken();
+
+        const rotated = await pool.query(
+            `UPDATE user_sessions s
+             SET refresh_token_hash = $2, previous_token_hash = $1, rotated_at = NOW(),
+                 last_seen_at = NOW(), ip_address = $3,
+                 expires_at = NOW() + ($4 || ' days')::interval
+             FROM users u
+             WHERE s.refresh_token_hash = $1 AND u.id = s.user_id
+               AND s.revoked_at IS NULL AND s.expires_at > NOW()
+               AND u.is_active = true
+             RETURNING s.id, u.id as user_id, u.username, u.email, u.role`,
+            [tokenHash, hashToken(nextToken), req.ip, REFRESH_TOKEN_DAYS]
+        );
+
+        if (rotated.rows.length === 0) {
+            // A rotated-out token coming back means it was copied: end that session
+            const reused = await pool.query(
+                `UPDATE user_sessions
+                 SET revoked_at = NOW(), revoked_reason = 'refresh_token_reused'
+                 WHERE previous_token_hash = $1 AND revoked_at IS NULL
+                   AND rotated_at < NOW() - ($2 || ' seconds')::interval
+                 RETURNING id, user_id`,
+                [tokenHash, REUSE_GRACE_SECONDS]
+            );
+
+            if (reused.rows.length > 0) {
+                console.warn(`⚠️ Refresh token reuse detected - revoked session ${reused.rows[0].id} of user ${reused.rows[0].user_id}`);
+            } else {
+                // Rotated moments ago by another tab: not fatal, that tab has the new tokens
+                const justRotated = await pool.query(
+                    `SELECT 1 FROM user_sessions
+                     WHERE previous_token_hash = $1 AND revoked_at IS NULL
+                       AND rotated_at >= NOW() - ($2 || ' seconds')::interval`,
+                    [tokenHash, REUSE_GRACE_SECONDS]
+                );
+
+                if (justRotated.rows.length > 0) {
+                    return res.status(409).json({ error: 'Session was just refreshed in another tab', code: 'TOKEN_ROTATED' });
+                }
+            }
+
+            return res.status(401).json({ error: 'Session has ended. Please log in again.', code: 'SESSION_REVOKED' });
+        }
+
+        const session = rotated.rows[0];
+        const user = { id: session.user_id, username: session.username, email: session.email, role: session.role };
+
+        res.json({
+            token: generateToken(user, session.id),
+            refreshToken: nextToken
+        });
+    } catch (error) {
+        console.error('❌ Error refreshing session:', error);
+        res.status(500).json({ error: 'Failed to refresh session' });
+    }
+};
+
+/**
+ * Swap the one-time code from the OAuth redirect for the session tokens
+ * POST /api/auth/oauth/exchange { code }
+ */
+export const exchangeLoginCode = async (req, res, pool) => {
+    try {
+        const { code } = req.body;
+
+        if (!code) {
+            return res.status(400).json({ error: 'Login code is required' });
+        }
+
+        const refreshToken = newRefreshToken();
+
+        const exchanged = await pool.query(
+            `UPDATE user_sessions s
+             SET login_code_hash = NULL, refresh_token_hash = $2, last_seen_at = NOW(),
+                 expires_at = NOW() + ($3 || ' days')::interval
+             FROM users u
+             WHERE s.login_code_hash = $1 AND u.id = s.user_id
+               AND s.revoked_at IS NULL AND s.expires_at > NOW()
+               AND u.is_active = true
+             RETURNING s.id, u.id as user_id, u.username, u.email, u.role`,
+            [hashToken(code), hashToken(refreshToken), REFRESH_TOKEN_DAYS]
+        );
+
+        if (exchanged.rows.length === 0) {
+            return res.status(400).json({ error: 'This sign-in link has expired. Please sign in again.' });
+        }
+
+        const session = exchanged.rows[0];
+        const user = { id: session.user_id, username: session.username, email: session.email, role: session.role };
+
+        res.json({
+            token: generateToken(user, session.id),
+            refreshToken
+        });
+    } catch (error) {
+        console.error('❌ Error exchanging login code:', error);
+        res.status(500).json({ error: 'Failed to sign in' });
+    }
+};
+
+/**
+ * End the session a refresh token belongs to
+ * POST /api/auth/logout { refreshToken }
+ */
+export const endSession = async (req, res, pool) => {
+    try {
+        const { refreshToken } = req.body || {};
+
+        if (refreshToken) {
+            await pool.query(
+                `UPDATE user_sessions
+                 SET revoked_at = NOW(), revoked_reason = 'logout'
+                 WHERE refresh_token_hash = $1 AND revoked_at IS NULL`,
+                [hashToken(refreshToken)]
+            );
+        }
+
+        // Also drop the passport session left over from the OAuth redirect
+        req.logout((err) => {
+            if (err) {
+                return res.status(500).json({ error: 'Logout failed' });
+            }
+            req.session.destroy();
+            res.json({ success: true, message: 'Logged out successfully' });
+        });
+    } catch (error) {
+        console.error('❌ Error logging out:', error);
+        res.status(500).json({ error: 'Logout failed' });
+    }
+};
+
+/**
+ * Active sessions of the logged-in user
+ * GET /api/auth/sessions
+ */
+export const getMySessions = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT * FROM user_sessions
+             WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+               AND login_code_hash IS NULL
+             ORDER BY last_seen_at DESC`,
+            [req.user.id]
+        );
+
+        res.json(result.rows.map(session => formatSession(session, req.user.sid)));
+    } catch (error) {
+        console.error('❌ Error fetching sessions:', error);
+        res.status(500).json({ error: 'Failed to fetch sessions' });
+    }
+};
+
+/**
+ * Log out one of your own devices
+ * DELETE /api/auth/sessions/:id
+ */
+export const revokeMySession = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `UPDATE user_sessions
+             SET revoked_at = NOW(), revoked_reason = 'revoked_by_user'
+             WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+             RETURNING id`,
+            [req.params.id, req.user.id]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+
+        res.json({ success: true, message: 'Session logged out' });
+    } catch (error) {
+        console.error('❌ Error revoking session:', error);
+        res.status(500).json({ error: 'Failed to log out session' });
+    }
+};
+
+/**
+ * Log out everywhere, including this device
+ * POST /api/auth/sessions/revoke-all
+ */
+export const revokeAllMySessions = async (req, res, pool) => {
+    try {
+        const count = await revokeUserSessions(pool, req.user.id, 'logout_everywhere');
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'logout_everywhere', `Logged out of ${count} session(s)`]
+        );
+
+        res.json({ success: true, revoked: count });
+    } catch (error) {
+        console.error('❌ Error logging out everywhere:', error);
+        res.status(500).json({ error: 'Failed to log out everywhere' });
+    }
+};
+
+/**
+ * Active sessions of any user
+ * GET /api/admin/users/:id/sessions
+ */
+export const getUserSessions = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT * FROM user_sessions
+             WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+               AND login_code_hash IS NULL
+             ORDER BY last_seen_at DESC`,
+            [req.params.id]
+        );
+
+        res.json(result.rows.map(session => formatSession(session, req.user.sid)));
+    } catch (error) {
+        console.error('❌ Error fetching user sessions:', error);
+        res.status(500).json({ error: 'Failed to fetch sessions' });
+    }
+};
+
+/**
+ * Log a user out of every device
+ * POST /api/admin/users/:id/sessions/revoke-all
+ */
+export const revokeAllUserSessions = async (req, res, pool) => {
+    try {
+        const userResult = await pool.query('SELECT full_name FROM users WHERE id = $1', [req.params.id]);
+
+        if (userResult.rows.length === 0) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        const count = await revokeUserSessions(pool, req.params.id, 'revoked_by_admin');
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'revoke_sessions', `Logged ${userResult.rows[0].full_name} out of ${count} session(s)`]
+        );
+
+        console.log(`🔒 Admin ${req.user.username} logged ${userResult.rows[0].full_name} out everywhere (${count} sessions)`);
+
+        res.json({ success: true, revoked: count });
+    } catch (error) {
+        console.error('❌ Error revoking user sessions:', error);
+        res.status(500).json({ error: 'Failed to log user out' });
+    }
+};
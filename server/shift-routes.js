@@ -0,0 +1,389 @@
+// ==================== SHIFTS ====================
+// Named working hours, assigned per department or per user. Late arrival,
+// early leave and overtime are measured against the shift whenever a day's
+// check-in or check-out time is written.
+
+import { getHolidaysByUser } from './holiday-routes.js';
+import { syncOvertimeRequest } from './overtime-routes.js';
+import { toDateString } from './date-utils.js';
+
+// Statuses measured against the shift
+const TIMED_STATUSES = ['present', 'half_day', 'wfh'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function toMinutes(time) {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+/**
+ * The shift that applies to a user: their own, their department's, or the default
+ */
+export async function getUserShift(db, userId) {
+    const result = await db.query(
+        'SELECT * FROM shifts WHERE id = user_shift_id($1)',
+        [userId]
+    );
+
+    return result.rows[0] || null;
+}
+
+/**
+ * Minutes from shift start to end on a working day. Breaks are not taken
+ * out, matching how attendance hours are totalled.
+ */
+export function shiftDayMinutes(shift) {
+    return toMinutes(shift.end_time) - toMinutes(shift.start_time);
+}
+
+/**
+ * Late, early-leave and overtime minutes for one day.
+ * Late counts from shift start once the grace period is used up. Half days
+ * are not judged on leaving time. On non-working days every minute worked
+ * beyond the break is overtime. Figures that need a check-out stay null
+ * until there is one.
+ */
+export function computeShiftMinutes(shift, { status, start, end, workingDay }) {
+    if (!shift || !TIMED_STATUSES.includes(status) || !start) {
+        return { lateMinutes: null, earlyLeaveMinutes: null, overtimeMinutes: null };
+    }
+
+    const startMinutes = toMinutes(start);
+    const endMinutes = end ? toMinutes(end) : null;
+    const shiftStart = toMinutes(shift.start_time);
+    const shiftEnd = toMinutes(shift.end_time);
+
+    if (!workingDay) {
+        return {
+            lateMinutes: 0,
+            earlyLeaveMinutes: endMinutes === null ? null : 0,
+            overtimeMinutes: endMinutes === null ? null : Math.max(endMinutes - startMinutes - shift.break_minutes, 0)
+        };
+    }
+
+    const lateMinutes = startMinutes > shiftStart + shift.grace_minutes ? startMinutes - shiftStart : 0;
+
+    if (endMinutes === null) {
+        return { lateMinutes, earlyLeaveMinutes: null, overtimeMinutes: null };
+    }
+
+    if (status === 'half_day') {
+        return { lateMinutes, earlyLeaveMinutes: 0, overtimeMinutes: 0 };
+    }
+
+    return {
+        lateMinutes,
+        earlyLeaveMinutes: Math.max(shiftEnd - endMinutes, 0),
+        overtimeMinutes: Math.max((endMinutes - startMinutes) - shiftDayMinutes(shift), 0)
+    };
+}
+
+/**
+ * Recompute the shift figures of one attendance row and keep its overtime
+ * request in step. Returns the updated row, or null if it no longer exists.
+ */
+export async function updateShiftMinutes(db, attendanceId) {
+    const attendance = await db.query(
+        'SELECT id, user_id, date, status, work_hours_start, work_hours_end FROM attendance WHERE id = $1',
+        [attendanceId]
+    );
+
+    if (attendance.rows.length === 0) return null;
+
+    const row = attendance.rows[0];
+    const shift = await getUserShift(db, row.user_id);
+    const date = toDateString(new Date(row.date));
+
+    const holidays = (await getHolidaysByUser(db, [row.user_id], date, date)).get(row.user_id);
+    const workingDay = !!shift && shift.working_days.includes(new Date(row.date).getDay()) && !holidays.has(date);
+
+    const figures = computeShiftMinutes(shift, {
+        status: row.status,
+        start: row.work_hours_start,
+        end: row.work_hours_end,
+        workingDay
+    });
+
+    const result = await db.query(
+        `UPDATE attendance
+         SET shift_id = $1, late_minutes = $2, early_leave_minutes = $3, overtime_minutes = $4
+         WHERE id = $5
+         RETURNING *`,
+        [shift?.id || null, figures.lateMinutes, figures.earlyLeaveMinutes, figures.overtimeMinutes, row.id]
+    );
+
+    // Present on a Sunday or holiday earns a comp-off instead
+    const earnsCompOff = row.status === 'present' && (new Date(row.date).getDay() === 0 || holidays.has(date));
+    await syncOvertimeRequest(db, result.rows[0], earnsCompOff);
+
+    return result.rows[0];
+}
+
+// Validate a shift form; returns { error } or the cleaned values
+function parseShift(body) {
+    const { name, startTime, endTime, graceMinutes, breakMinutes, workingDays } = body;
+
+    if (!name?.trim()) {
+        return { error: 'Shift name is required' };
+    }
+
+    if (!TIME_PATTERN.test(startTime || '') || !TIME_PATTERN.test(endTime || '')) {
+        return { error: 'Start and end times must be in HH:MM format' };
+    }
+
+    if (endTime <= startTime) {
+        return { error: 'Shift must end after it starts (overnight shifts are not supported)' };
+    }
+
+    const grace = parseInt(graceMinutes ?? 0);
+    const breakLength = parseInt(breakMinutes ?? 0);
+
+    if (isNaN(grace) || grace < 0 || grace > 240) {
+        return { error: 'Grace period must be between 0 and 240 minutes' };
+    }
+
+    if (isNaN(breakLength) || breakLength < 0 || breakLength > 480) {
+        return { error: 'Break must be between 0 and 480 minutes' };
+    }
+
+    if (breakLength >= toMinutes(endTime) - toMinutes(startTime)) {
+        return { error: 'Break must be shorter than the shift' };
+    }
+
+    const days = [...new Set((workingDays || []).map(Number))].filter(d => d >= 0 && d <= 6).sort();
+
+    if (days.length === 0) {
+        return { error: 'Pick at least one working day' };
+    }
+
+    return {
+        name: name.trim(),
+        startTime,
+        endTime,
+        graceMinutes: grace,
+        breakMinutes: breakLength,
+        workingDays: days
+    };
+}
+
+// Point departments at a shift, moving them off any other shift
+async function saveAssignments(client, shiftId, departments = []) {
+    await client.query('DELETE FROM shift_assignments WHERE shift_id = $1', [shiftId]);
+
+    for (const department of new Set(departments.map(d => d.trim()).filter(Boolean))) {
+        await client.query(
+            `INSERT INTO shift_assignments (shift_id, department) VALUES ($1, $2)
+             ON CONFLICT (department) DO UPDATE SET shift_id = EXCLUDED.shift_id`,
+            [shiftId, department]
+        );
+    }
+}
+
+/**
+ * Your shift
+ * GET /api/shifts/mine
+ */
+export const getMyShift = async (req, res, pool) => {
+    try {
+        res.json(await getUserShift(pool, req.user.id));
+    } catch (error) {
+        console.error('❌ Error fetching shift:', error);
+        res.status(500).json({ error: 'Failed to fetch shift' });
+    }
+};
+
+/**
+ * List shifts with their departments and the users who have them personally
+ * GET /api/admin/shifts
+ */
+export const getShifts = async (req, res, pool) => {
+    try {
+        const result = await pool.query(
+            `SELECT s.*,
+                    COALESCE((SELECT array_agg(a.department ORDER BY a.department)
+                              FROM shift_assignments a WHERE a.shift_id = s.id), '{}') as departments,
+                    COALESCE((SELECT json_agg(json_build_object('id', u.id, 'full_name', u.full_name) ORDER BY u.full_name)
+                              FROM users u WHERE u.shift_id = s.id AND u.is_active = true), '[]') as users
+             FROM shifts s
+             ORDER BY s.is_default DESC, s.start_time ASC, s.name ASC`
+        );
+
+        res.json(result.rows);
+    } catch (error) {
+        console.error('❌ Error fetching shifts:', error);
+        res.status(500).json({ error: 'Failed to fetch shifts' });
+    }
+};
+
+/**
+ * Create a shift
+ * POST /api/admin/shifts { name, startTime, endTime, graceMinutes, breakMinutes, workingDays, departments }
+ */
+export const createShift = async (req, res, pool) => {
+    const shift = parseShift(req.body);
+
+    if (shift.error) {
+        return res.status(400).json({ error: shift.error });
+    }
+
+    const client = await pool.connect();
+
+    try {
+        await client.query('BEGIN');
+
+        const result = await client.query(
+            `INSERT INTO shifts (name, start_time, end_time, grace_minutes, break_minutes, working_days, created_by)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             RETURNING *`,
+            [shift.name, shift.startTime, shift.endTime, shift.graceMinutes, shift.breakMinutes, shift.workingDays, req.user.id]
+        );
+
+        await saveAssignments(client, result.rows[0].id, req.body.departments);
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'create_shift', `Created shift ${shift.name} (${shift.startTime}-${shift.endTime})`]
+        );
+
+        await client.query('COMMIT');
+
+        res.json(result.rows[0]);
+    } catch (error) {
+        await client.query('ROLLBACK');
+        if (error.code === '23505') {
+            return res.status(409).json({ error: 'A shift with this name already exists' });
+        }
+        console.error('❌ Error creating shift:', error);
+        res.status(500).json({ error: 'Failed to create shift' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Change a shift's hours or departments. Past attendance keeps its figures.
+ * PUT /api/admin/shifts/:id { name, startTime, endTime, graceMinutes, breakMinutes, workingDays, departments }
+ */
+export const updateShift = async (req, res, pool) => {
+    const shift = parseShift(req.body);
+
+    if (shift.error) {
+        return res.status(400).json({ error: shift.error });
+    }
+
+    const client = await pool.connect();
+
+    try {
+        const shiftId = parseInt(req.params.id);
+
+        await client.query('BEGIN');
+
+        const result = await client.query(
+            `UPDATE shifts
+             SET name = $1, start_time = $2, end_time = $3, grace_minutes = $4,
+                 break_minutes = $5, working_days = $6, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $7
+             RETURNING *`,
+            [shift.name, shift.startTime, shift.endTime, shift.graceMinutes, shift.breakMinutes, shift.workingDays, shiftId]
+        );
+
+        if (result.rows.length === 0) {
+            await client.query('ROLLBACK');
+            return res.status(404).json({ error: 'Shift not found' });
+        }
+
+        // The default shift covers everyone left over, so it takes no assignments
+        if (!result.rows[0].is_default) {
+            await saveAssignments(client, shiftId, req.body.departments);
+        }
+
+        await client.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'update_shift', `Updated shift ${shift.name} (${shift.startTime}-${shift.endTime})`]
+        );
+
+        await client.query('COMMIT');
+
+        res.json(result.rows[0]);
+    } catch (error) {
+        await client.query('ROLLBACK');
+        if (error.code === '23505') {
+            return res.status(409).json({ error: 'A shift with this name already exists' });
+        }
+        console.error('❌ Error updating shift:', error);
+        res.status(500).json({ error: 'Failed to update shift' });
+    } finally {
+        client.release();
+    }
+};
+
+/**
+ * Delete a shift; its departments and users fall back to the default shift
+ * DELETE /api/admin/shifts/:id
+ */
+export const deleteShift = async (req, res, pool) => {
+    try {
+        const shiftId = parseInt(req.params.id);
+
+        const shift = await pool.query('SELECT name, is_default FROM shifts WHERE id = $1', [shiftId]);
+
+        if (shift.rows.length === 0) {
+            return res.status(404).json({ error: 'Shift not found' });
+        }
+
+        if (shift.rows[0].is_default) {
+            return res.status(400).json({ error: 'The default shift cannot be deleted' });
+        }
+
+        await pool.query('DELETE FROM shifts WHERE id = $1', [shiftId]);
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'delete_shift', `Deleted shift ${shift.rows[0].name}`]
+        );
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('❌ Error deleting shift:', error);
+        res.status(500).json({ error: 'Failed to delete shift' });
+    }
+};
+
+/**
+ * Give a user a personal shift, or clear it with shiftId null
+ * PUT /api/admin/users/:id/shift { shiftId }
+ */
+export const setUserShift = async (req, res, pool) => {
+    try {
+        const userId = parseInt(req.params.id);
+        const shiftId = req.body.shiftId ? parseInt(req.body.shiftId) : null;
+
+        const result = await pool.query(
+            `UPDATE users SET shift_id = $1 WHERE id = $2
+             RETURNING full_name, (SELECT name FROM shifts WHERE id = $1) as shift_name`,
+            [shiftId, userId]
+        );
+
+        if (result.rows.length === 0) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        const { full_name, shift_name } = result.rows[0];
+
+        await pool.query(
+            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+            [req.user.id, 'assign_shift', shiftId
+                ? `Assigned ${full_name} to shift ${shift_name}`
+                : `Cleared personal shift of ${full_name}`]
+        );
+
+        res.json({ success: true });
+    } catch (error) {
+        if (error.code === '23503') {
+            return res.status(400).json({ error: 'Shift not found' });
+        }
+        console.error('❌ Error assigning shift:', error);
+        res.status(500).json({ error: 'Failed to assign shift' });
+    }
+};
@@ -1,7 +1,10 @@
 // Task Management Routes
-// Handles CRUD operations for tasks with customer grouping, email verification, and Telegram integration
+// Handles CRUD operations for tasks linked to directory customers, email verification, and Telegram integration
 
 import { randomBytes } from 'crypto';
+import { enqueueTaskAssignmentEmail, enqueueTaskCompletionEmail } from './email-queue.js';
+import { resolveTaskCustomer } from './customer-routes.js';
+import { storeFile, deleteFile, sendStoredFile, uploadSingle, UploadError } from './file-storage.js';
 
 // Email verification codes storage (in-memory, cleared on restart)
 const emailVerificationCodes = new Map();
@@ -125,6 +128,25 @@ async function sendTaskCompletionNotification(bot, pool, task, completedBy) {
     }
 }
 
+// ============================================================
+// ACCESS HELPERS
+// ============================================================
+
+// Admins see every task, everyone else only tasks assigned to them
+async function getAccessibleTask(pool, taskId, user) {
+    const result = await pool.query('SELECT id, assigned_to FROM tasks WHERE id = $1', [taskId]);
+
+    if (result.rows.length === 0) {
+        return { status: 404, error: 'Task not found' };
+    }
+
+    if (user.role !== 'admin' && result.rows[0].assigned_to !== user.id) {
+        return { status: 403, error: 'Access denied' };
+    }
+
+    return result.rows[0];
+}
+
 // ============================================================
 // ROUTE SETUP
 // ============================================================
@@ -474,19 +496,30 @@ export function setupTaskRoutes(app, pool, authenticateToken, isAdmin, telegramB
                 });
             }
 
+            // Link the task to a directory customer, creating one if needed
+            const customer = await resolveTaskCustomer(pool, req.body, req.user.id);
+            if (customer?.error) {
+                return res.status(400).json({ error: customer.error });
+            }
+
             const result = await pool.query(`
                 INSERT INTO tasks (
                     title, description, assigned_to, created_by,
                     customer_name, customer_email, customer_phone, company_name,
                     priority, category, due_date, due_time,
-                    reminder_date, reminder_time, send_completion_email
-                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+                    reminder_date, reminder_time, send_completion_email,
+                    customer_id, company_id
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
                 RETURNING *
             `, [
                 title, description, assigned_to, req.user.id,
-                customer_name, customer_email, customer_phone, company_name,
+                customer ? customer.customer_name : customer_name,
+                customer ? customer.customer_email : customer_email,
+                customer ? customer.customer_phone : customer_phone,
+                customer ? customer.company_name : company_name,
                 priority || 'medium', category, due_date, due_time,
-                reminder_date, reminder_time, send_completion_email !== false
+                reminder_date, reminder_time, send_completion_email !== false,
+                customer?.customerId || null, customer?.companyId || null
             ]);
 
             const newTask = result.rows[0];
@@ -507,6 +540,20 @@ export function setupTaskRoutes(app, pool, authenticateToken, isAdmin, telegramB
                 }
             }
 
+            // In-app notification for assigned employee
+            if (assigned_to && parseInt(assigned_to) !== req.user.id) {
+                await pool.query(`
+                    INSERT INTO notifications (user_id, type, title, message, link)
+                    VALUES ($1, 'task_assigned', 'New Task Assigned', $2, '/calendar?panel=tasks')
+                `, [assigned_to, `${req.user.username} assigned you: ${title}`]);
+            }
+
+            // Queue assignment email
+            if (assigned_to && parseInt(assigned_to) !== req.user.id) {
+                await enqueueTaskAssignmentEmail(pool, newTask)
+                    .catch(error => console.error('❌ Error queueing assignment email:', error));
+            }
+
             // Send Telegram notification to assigned employee
             if (assigned_to && telegramBot) {
                 const assigneeResult = await pool.query(
@@ -557,9 +604,17 @@ export function setupTaskRoutes(app, pool, authenticateToken, isAdmin, telegramB
                 title, description, assigned_to, customer_name, customer_email,
                 customer_phone, company_name, priority, status, category,
                 due_date, due_time, reminder_date, reminder_time,
-                resolution_notes, send_completion_email
+                resolution_notes, send_completion_email, customer_id
             } = req.body;
 
+            // Only re-link the customer when the form touched it
+            const customer = (customer_id || customer_name || customer_email || customer_phone || company_name)
+                ? await resolveTaskCustomer(pool, req.body, userId)
+                : null;
+            if (customer?.error) {
+                return res.status(400).json({ error: customer.error });
+            }
+
             const result = await pool.query(`
                 UPDATE tasks SET
                     title = COALESCE($1, title),
@@ -577,16 +632,41 @@ export function setupTaskRoutes(app, pool, authenticateToken, isAdmin, telegramB
                     reminder_date = COALESCE($13, reminder_date),
                     reminder_time = COALESCE($14, reminder_time),
                     resolution_notes = COALESCE($15, resolution_notes),
-                    send_completion_email = COALESCE($16, send_completion_email)
-                WHERE id = $17
+                    send_completion_email = COALESCE($16, send_completion_email),
+                    customer_id = COALESCE($17, customer_id),
+                    company_id = COALESCE($18, company_id)
+                WHERE id = $19
                 RETURNING *
             `, [
-                title, description, assigned_to, customer_name, customer_email,
-                customer_phone, company_name, priority, status, category,
+                title, description, assigned_to,
+                customer ? customer.customer_name : customer_name,
+                customer ? customer.customer_email : customer_email,
+                customer ? customer.customer_phone : customer_phone,
+                customer ? customer.company_name : company_name,
+                priority, status, category,
                 due_date, due_time, reminder_date, reminder_time,
-                resolution_notes, send_completion_email, id
+                resolution_notes, send_completion_email,
+                customer?.customerId || null, customer?.companyId || null, id
             ]);
 
+            // Notify the new assignee when a task is reassigned
+            const previousAssignee = existingTask.rows[0].assigned_to;
+            if (assigned_to && parseInt(assigned_to) !== previousAssignee && parseInt(assigned_to) !== userId) {
+                await pool.query(`
+                    INSERT INTO notifications (user_id, type, title, message, link)
+                    VALUES ($1, 'task_assigned', 'Task Assigned to You', $2, '/calendar?panel=tasks')
+                `, [assigned_to, `${req.user.username} assigned you: ${result.rows[0].title}`]);
+
+                await enqueueTaskAssignmentEmail(pool, result.rows[0])
+                    .catch(error => console.error('❌ Error queueing assignment email:', error));
+            }
+
+            // Queue customer email when the task was just completed
+            if (status === 'completed' && existingTask.rows[0].status !== 'completed') {
+                await enqueueTaskCompletionEmail(pool, result.rows[0])
+                    .catch(error => console.error('❌ Error queueing completion email:', error));
+            }
+
             res.json(result.rows[0]);
         } catch (error) {
             console.error('❌ Error updating task:', error);
@@ -638,6 +718,12 @@ export function setupTaskRoutes(app, pool, authenticateToken, isAdmin, telegramB
 
             const updatedTask = result.rows[0];
 
+            // Queue customer completion email
+            if (status === 'completed' && task.status !== 'completed') {
+                await enqueueTaskCompletionEmail(pool, updatedTask)
+                    .catch(error => console.error('❌ Error queueing completion email:', error));
+            }
+
             // Send completion notification to Telegram
             if (status === 'completed' && telegramBot) {
                 await sendTaskCompletionNotification(telegramBot, pool, updatedTask, req.user);
@@ -679,14 +765,40 @@ export function setupTaskRoutes(app, pool, authenticateToken, isAdmin, telegramB
     // ========================================
     // POST /api/tasks/:id/attachments - Add attachment
     // ========================================
-    app.post('/api/tasks/:id/attachments', authenticateToken, async (req, res) => {
+    app.post('/api/tasks/:id/attachments', authenticateToken, uploadSingle('file'), async (req, res) => {
         try {
             const { id } = req.params;
             const { file_name, file_type, file_url, drive_link } = req.body;
             const userId = req.user.id;
 
+            const task = await getAccessibleTask(pool, id, req.user);
+            if (task.error) {
+                return res.status(task.status).json({ error: task.error });
+            }
+
+            // Uploaded file (multipart/form-data field "file")
+            if (req.file) {
+                // Multer decodes the multipart filename as latin1
+                const originalName = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
+
+                const stored = await storeFile({
+                    buffer: req.file.buffer,
+                    fileName: originalName,
+                    contentType: req.file.mimetype,
+                    prefix: `tasks/${id}`
+                });
+
+                const result = await pool.query(`
+                    INSERT INTO task_attachments (task_id, file_name, file_type, file_size, storage_key, uploaded_by)
+                    VALUES ($1, $2, $3, $4, $5, $6)
+                    RETURNING *, (SELECT full_name FROM users WHERE id = $6) as uploaded_by_name
+                `, [id, stored.fileName, stored.contentType, stored.size, stored.storageKey, userId]);
+
+                return res.status(201).json(result.rows[0]);
+            }
+
             if (!file_name && !drive_link) {
-                return res.status(400).json({ error: 'File name or drive link required' });
+                return res.status(400).json({ error: 'File, file name or drive link required' });
             }
 
             const result = await pool.query(`
@@ -697,11 +809,92 @@ export function setupTaskRoutes(app, pool, authenticateToken, isAdmin, telegramB
 
             res.status(201).json(result.rows[0]);
         } catch (error) {
+            if (error instanceof UploadError) {
+                return res.status(error.status).json({ error: error.message });
+            }
             console.error('❌ Error adding attachment:', error);
             res.status(500).json({ error: 'Failed to add attachment' });
         }
     });
 
+    // ========================================
+    // GET /api/tasks/:id/attachments/:attachmentId/download - Stored file (?inline=1 to view)
+    // ========================================
+    app.get('/api/tasks/:id/attachments/:attachmentId/download', authenticateToken, async (req, res) => {
+        try {
+            const { id, attachmentId } = req.params;
+
+            const task = await getAccessibleTask(pool, id, req.user);
+            if (task.error) {
+                return res.status(task.status).json({ error: task.error });
+            }
+
+            const result = await pool.query(
+                'SELECT * FROM task_attachments WHERE id = $1 AND task_id = $2',
+                [attachmentId, id]
+            );
+
+            const attachment = result.rows[0];
+            if (!attachment || !attachment.storage_key) {
+                return res.status(404).json({ error: 'Attachment not found' });
+            }
+
+            await sendStoredFile(res, {
+                storageKey: attachment.storage_key,
+                fileName: attachment.file_name,
+                contentType: attachment.file_type,
+                inline: req.query.inline === '1'
+            });
+        } catch (error) {
+            console.error('❌ Error downloading attachment:', error);
+            if (!res.headersSent) {
+                res.status(error.code === 'ENOENT' || error.name === 'NoSuchKey' ? 404 : 500)
+                    .json({ error: 'Failed to download attachment' });
+            }
+        }
+    });
+
+    // ========================================
+    // DELETE /api/tasks/:id/attachments/:attachmentId - Remove attachment
+    // ========================================
+    app.delete('/api/tasks/:id/attachments/:attachmentId', authenticateToken, async (req, res) => {
+        try {
+            const { id, attachmentId } = req.params;
+
+            const task = await getAccessibleTask(pool, id, req.user);
+            if (task.error) {
+                return res.status(task.status).json({ error: task.error });
+            }
+
+            const existing = await pool.query(
+                'SELECT * FROM task_attachments WHERE id = $1 AND task_id = $2',
+                [attachmentId, id]
+            );
+
+            const attachment = existing.rows[0];
+            if (!attachment) {
+                return res.status(404).json({ error: 'Attachment not found' });
+            }
+
+            // Assignees may remove their own uploads; admins anything
+            if (req.user.role !== 'admin' && attachment.uploaded_by !== req.user.id) {
+                return res.status(403).json({ error: 'Only the uploader or an admin can remove this attachment' });
+            }
+
+            await pool.query('DELETE FROM task_attachments WHERE id = $1', [attachmentId]);
+
+            if (attachment.storage_key) {
+                await deleteFile(attachment.storage_key)
+                    .catch(error => console.error('❌ Error deleting stored file:', error));
+            }
+
+            res.json({ success: true, message: 'Attachment removed' });
+        } catch (error) {
+            console.error('❌ Error deleting attachment:', error);
+            res.status(500).json({ error: 'Failed to delete attachment' });
+        }
+    });
+
     // ========================================
     // DELETE /api/tasks/:id - Delete task
     // ========================================
@@ -709,12 +902,23 @@ export function setupTaskRoutes(app, pool, authenticateToken, isAdmin, telegramB
         try {
             const { id } = req.params;
 
+            const storedFiles = await pool.query(
+                'SELECT storage_key FROM task_attachments WHERE task_id = $1 AND storage_key IS NOT NULL',
+                [id]
+            );
+
             const result = await pool.query('DELETE FROM tasks WHERE id = $1 RETURNING *', [id]);
 
             if (result.rows.length === 0) {
                 return res.status(404).json({ error: 'Task not found' });
             }
 
+            // Attachment rows went with the task; remove their files too
+            for (const { storage_key } of storedFiles.rows) {
+                await deleteFile(storage_key)
+                    .catch(error => console.error('❌ Error deleting stored file:', error));
+            }
+
             res.json({ success: true, message: 'Task deleted' });
         } catch (error) {
             console.error('❌ Error deleting task:', error);
@@ -723,16 +927,16 @@ export function setupTaskRoutes(app, pool, authenticateToken, isAdmin, telegramB
     });
 
     // ========================================
-    // GET /api/tasks/customers/list - Get unique customers
+    // GET /api/tasks/customers/list - Customers from the directory
     // ========================================
     app.get('/api/tasks/customers/list', authenticateToken, async (req, res) => {
         try {
             const result = await pool.query(`
-                SELECT DISTINCT ON (customer_email) 
-                    customer_name, customer_email, customer_phone, company_name
-                FROM tasks
-                WHERE customer_email IS NOT NULL
-                ORDER BY customer_email, created_at DESC
+                SELECT cu.id, cu.name as customer_name, cu.email as customer_email,
+                       cu.phone as customer_phone, cu.company_id, co.name as company_name
+                FROM customers cu
+                LEFT JOIN companies co ON co.id = cu.company_id
+                ORDER BY LOWER(COALESCE(cu.name, cu.email)) ASC
             `);
 
             res.json(result.rows);
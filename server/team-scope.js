@@ -0,0 +1,48 @@
+// ==================== TEAM SCOPE ====================
+// Admins see everyone; managers see the users reporting to them (directly or
+// through another manager); everyone else only sees themselves
+
+/**
+ * Middleware: admin or manager only
+ */
+export const isAdminOrManager = (req, res, next) => {
+    if (req.user.role !== 'admin' && req.user.role !== 'manager') {
+        return res.status(403).json({ error: 'Admin or manager access required' });
+    }
+    next();
+};
+
+/**
+ * User ids the caller may manage: null means no restriction (admin)
+ */
+export async function getTeamUserIds(db, user) {
+    if (user.role === 'admin') {
+        return null;
+    }
+
+    if (user.role !== 'manager') {
+        return [];
+    }
+
+    const result = await db.query('SELECT managed_user_ids($1) as id', [user.id]);
+    return result.rows.map(row => row.id);
+}
+
+/**
+ * Whether the caller manages the target user. A manager is never in their
+ * own team, so they cannot approve their own requests.
+ */
+export async function isInTeam(db, user, targetUserId) {
+    const teamIds = await getTeamUserIds(db, user);
+    return teamIds === null || teamIds.includes(parseInt(targetUserId));
+}
+
+/**
+ * Whether the caller may view the target user's attendance and reports
+ */
+export async function canViewUser(db, user, targetUserId) {
+    if (parseInt(targetUserId) === user.id) {
+        return true;
+    }
+    return isInTeam(db, user, targetUserId);
+}
@@ -16,13 +16,17 @@ import {
     handleVerifyCommand,
     handleCodeCommand,
     handleCheckinCommand,
+    handleLocationMessage,
     handleCheckoutCommand,
     handleMyStatusCommand,
+    handleCorrectCommand,
     handleExpenseCommand,
+    handleReceiptPhoto,
     handleExpensesCommand,
     handleSubmitCommand,
     handleLeaveCommand,
     handleMyLeavesCommand,
+    handleCompOffCommand,
     handleUserHelpCommand
 } from './telegram-user-commands.js';
 
@@ -66,15 +70,18 @@ export function setupCommandHandlers(botInstance) {
 /checkin - Mark entry time
 /checkout - Mark exit time
 /mystatus - View today's status
+/correct - Fix a past day
 
 <b>💰 Expenses (Calibration):</b>
 /expense Type - Amount - Add expense
 /expenses - View today's expenses
+📸 Receipt photo - Attach to latest expense
 /submit - Submit for approval
 
 <b>🌴 Leave:</b>
-/leave START END Reason - Request leave
+/leave [TYPE] START END Reason - Request leave
 /myleaves - Check leave status
+/compoff - View or use comp-offs
 
 <b>📊 Reports:</b>
 /summary - Today's attendance
@@ -101,15 +108,24 @@ export function setupCommandHandlers(botInstance) {
     botInstance.onText(/\/checkin/, (msg) => handleCheckinCommand(msg, botInstance));
     botInstance.onText(/\/checkout/, (msg) => handleCheckoutCommand(msg, botInstance));
     botInstance.onText(/\/mystatus/, (msg) => handleMyStatusCommand(msg, botInstance));
+    botInstance.onText(/\/correct/, (msg) => handleCorrectCommand(msg, botInstance));
+
+    // Shared live location completes /checkin at geofenced offices
+    botInstance.on('location', (msg) => handleLocationMessage(msg, botInstance));
 
     // Expense commands (Calibration only)
     botInstance.onText(/\/expense(?!s)/, (msg) => handleExpenseCommand(msg, botInstance));
     botInstance.onText(/\/expenses/, (msg) => handleExpensesCommand(msg, botInstance));
     botInstance.onText(/\/submit/, (msg) => handleSubmitCommand(msg, botInstance));
 
+    // Receipt photos (optionally captioned "/expense Type - Amount")
+    botInstance.on('photo', (msg) => handleReceiptPhoto(msg, botInstance));
+    botInstance.on('document', (msg) => handleReceiptPhoto(msg, botInstance));
+
     // Leave request commands
     botInstance.onText(/\/leave/, (msg) => handleLeaveCommand(msg, botInstance));
     botInstance.onText(/\/myleaves/, (msg) => handleMyLeavesCommand(msg, botInstance));
+    botInstance.onText(/\/compoff/, (msg) => handleCompOffCommand(msg, botInstance));
 
     // /summary or /today command
     botInstance.onText(/\/(summary|today)/, async (msg) => {
@@ -2,6 +2,8 @@
 import { generateIndividualReport } from './exports/individual-report.js';
 import { generateBulkReport } from './exports/bulk-report.js';
 import { generateMonthlySummary } from './exports/monthly-summary.js';
+import { generateStatisticsReport } from './exports/statistics-report.js';
+import { getTeamUserIds } from './team-scope.js';
 
 let dbPool = null;
 
@@ -26,20 +28,21 @@ export {
 async function showExportMenu(chatId, botInstance, userId) {
     console.log(`📥 Export menu requested by user ${userId} in chat ${chatId}`);
 
-    const adminStatus = await isAdmin(userId);
-    if (!adminStatus) {
-        console.log(`❌ User ${userId} is not an admin - denying export access`);
-        botInstance.sendMessage(chatId, '❌ This command is only available for admins');
+    const scope = await getExportScope(userId);
+    if (!scope) {
+        console.log(`❌ User ${userId} is not an admin or manager - denying export access`);
+        botInstance.sendMessage(chatId, '❌ This command is only available for admins and managers');
         return;
     }
 
-    console.log(`✅ User ${userId} is admin - showing export menu`);
+    console.log(`✅ User ${userId} can export - showing export menu`);
 
     const keyboard = {
         inline_keyboard: [
             [{ text: '\ud83d\udc64 Individual Report', callback_data: 'export_individual' }],
-            [{ text: '\ud83d\udc65 Bulk Report (All Employees)', callback_data: 'export_bulk' }],
+            [{ text: `\ud83d\udc65 Bulk Report (${scope.userIds ? 'Team' : 'All Employees'})`, callback_data: 'export_bulk' }],
             [{ text: '\ud83d\udcc5 Monthly Summary', callback_data: 'export_monthly' }],
+            [{ text: '\ud83d\udcc8 Statistics Report', callback_data: 'export_statistics' }],
             [{ text: '\u274c Cancel', callback_data: 'export_cancel' }]
         ]
     };
@@ -62,6 +65,14 @@ async function handleCallbackQuery(query, botInstance) {
     // Answer callback to remove loading state
     botInstance.answerCallbackQuery(query.id);
 
+    // Buttons can be replayed from old messages, so check access on every click
+    const scope = await getExportScope(userId);
+    if (!scope) {
+        userStates.delete(userId);
+        botInstance.sendMessage(chatId, '❌ This command is only available for admins and managers');
+        return;
+    }
+
     if (data === 'export_cancel') {
         botInstance.editMessageText('\u274c Export cancelled', {
             chat_id: chatId,
@@ -73,16 +84,23 @@ async function handleCallbackQuery(query, botInstance) {
 
     if (data === 'export_individual') {
         userStates.set(userId, { type: 'individual', step: 'select_employee' });
-        await showEmployeeList(chatId, botInstance, query.message.message_id);
+        await showEmployeeList(chatId, botInstance, query.message.message_id, scope.userIds);
     } else if (data === 'export_bulk') {
         userStates.set(userId, { type: 'bulk', step: 'select_range' });
         await showDateRangeOptions(chatId, botInstance, query.message.message_id, 'bulk');
+    } else if (data === 'export_statistics') {
+        userStates.set(userId, { type: 'statistics', step: 'select_range' });
+        await showDateRangeOptions(chatId, botInstance, query.message.message_id, 'statistics');
     } else if (data === 'export_monthly') {
         userStates.set(userId, { type: 'monthly', step: 'select_month' });
         await showMonthOptions(chatId, botInstance, query.message.message_id);
     } else if (data.startsWith('employee_')) {
         const employeeId = parseInt(data.split('_')[1]);
         const state = userStates.get(userId);
+        if (scope.userIds && !scope.userIds.includes(employeeId)) {
+            botInstance.sendMessage(chatId, '❌ That employee is not in your team');
+            return;
+        }
         if (state) {
             state.employeeId = employeeId;
             state.step = 'select_range';
@@ -90,21 +108,23 @@ async function handleCallbackQuery(query, botInstance) {
             await showDateRangeOptions(chatId, botInstance, query.message.message_id, 'individual');
         }
     } else if (data.startsWith('range_')) {
-        await handleDateRangeSelection(chatId, botInstance, userId, data, query.message.message_id);
+        await handleDateRangeSelection(chatId, botInstance, userId, data, query.message.message_id, scope.userIds);
     } else if (data.startsWith('month_')) {
-        await handleMonthSelection(chatId, botInstance, userId, data, query.message.message_id);
+        await handleMonthSelection(chatId, botInstance, userId, data, query.message.message_id, scope.userIds);
     }
 }
 
-// Show employee list for selection
-async function showEmployeeList(chatId, botInstance, messageId) {
+// Show employee list for selection (teamIds limits it to a manager's team)
+async function showEmployeeList(chatId, botInstance, messageId, teamIds = null) {
     try {
         const result = await dbPool.query(
             `SELECT id, full_name, employee_id, department
              FROM users
-             WHERE role = 'employee' AND is_active = true
+             WHERE role IN ('employee', 'manager') AND is_active = true
+               AND ($1::int[] IS NULL OR id = ANY($1))
              ORDER BY full_name
-             LIMIT 20`
+             LIMIT 20`,
+            [teamIds]
         );
 
         if (result.rows.length === 0) {
@@ -185,7 +205,7 @@ async function showMonthOptions(chatId, botInstance, messageId) {
 }
 
 // Handle date range selection and generate report
-async function handleDateRangeSelection(chatId, botInstance, userId, data, messageId) {
+async function handleDateRangeSelection(chatId, botInstance, userId, data, messageId, teamIds = null) {
     const state = userStates.get(userId);
     if (!state) return;
 
@@ -240,7 +260,9 @@ async function handleDateRangeSelection(chatId, botInstance, userId, data, messa
         if (state.type === 'individual') {
             await generateAndSendIndividualReport(chatId, botInstance, state.employeeId, startDate, endDate);
         } else if (state.type === 'bulk') {
-            await generateAndSendBulkReport(chatId, botInstance, startDate, endDate);
+            await generateAndSendBulkReport(chatId, botInstance, startDate, endDate, teamIds);
+        } else if (state.type === 'statistics') {
+            await generateAndSendStatisticsReport(chatId, botInstance, startDate, endDate, teamIds);
         }
         userStates.delete(userId);
     } catch (error) {
@@ -250,7 +272,7 @@ async function handleDateRangeSelection(chatId, botInstance, userId, data, messa
 }
 
 // Handle month selection and generate monthly summary
-async function handleMonthSelection(chatId, botInstance, userId, data, messageId) {
+async function handleMonthSelection(chatId, botInstance, userId, data, messageId, teamIds = null) {
     const parts = data.split('_');
     const year = parseInt(parts[1]);
     const month = parseInt(parts[2]);
@@ -262,7 +284,7 @@ async function handleMonthSelection(chatId, botInstance, userId, data, messageId
     });
 
     try {
-        await generateAndSendMonthlySummary(chatId, botInstance, year, month);
+        await generateAndSendMonthlySummary(chatId, botInstance, year, month, teamIds);
         userStates.delete(userId);
     } catch (error) {
         console.error('Error generating monthly summary:', error);
@@ -285,7 +307,9 @@ async function generateAndSendIndividualReport(chatId, botInstance, employeeId,
     const employee = employeeResult.rows[0];
 
     const attendanceResult = await dbPool.query(
-        `SELECT date, status, work_hours_start, work_hours_end, notes
+        `SELECT date, status, work_hours_start, work_hours_end, notes,
+                checkin_method, checkin_verified, checkin_distance_m,
+                late_minutes, early_leave_minutes, overtime_minutes
          FROM attendance
          WHERE user_id = $1 AND date BETWEEN $2 AND $3
          ORDER BY date ASC`,
@@ -304,7 +328,13 @@ async function generateAndSendIndividualReport(chatId, botInstance, employeeId,
             status: record?.status || null,
             work_hours_start: record?.work_hours_start || null,
             work_hours_end: record?.work_hours_end || null,
-            notes: record?.notes || null
+            notes: record?.notes || null,
+            checkin_method: record?.checkin_method || null,
+            checkin_verified: record?.checkin_verified ?? null,
+            checkin_distance_m: record?.checkin_distance_m ?? null,
+            late_minutes: record?.late_minutes ?? null,
+            early_leave_minutes: record?.early_leave_minutes ?? null,
+            overtime_minutes: record?.overtime_minutes ?? null
         });
         current.setDate(current.getDate() + 1);
     }
@@ -323,8 +353,8 @@ async function generateAndSendIndividualReport(chatId, botInstance, employeeId,
 }
 
 // Generate and send bulk report
-async function generateAndSendBulkReport(chatId, botInstance, startDate, endDate) {
-    const { buffer, filename } = await generateBulkReport(dbPool, { startDate, endDate });
+async function generateAndSendBulkReport(chatId, botInstance, startDate, endDate, teamIds = null) {
+    const { buffer, filename } = await generateBulkReport(dbPool, { startDate, endDate }, { userIds: teamIds });
 
     // Convert buffer to Stream for Telegram
     const { Readable } = await import('stream');
@@ -332,14 +362,29 @@ async function generateAndSendBulkReport(chatId, botInstance, startDate, endDate
     stream.path = filename;
 
     await botInstance.sendDocument(chatId, stream, {
-        caption: `📊 *Bulk Report - All Employees*\n📅 ${startDate} to ${endDate}`,
+        caption: `📊 *Bulk Report - ${teamIds ? 'Team' : 'All Employees'}*\n📅 ${startDate} to ${endDate}`,
+        parse_mode: 'Markdown'
+    });
+}
+
+// Generate and send statistics report
+async function generateAndSendStatisticsReport(chatId, botInstance, startDate, endDate, teamIds = null) {
+    const { buffer, filename } = await generateStatisticsReport(dbPool, { startDate, endDate }, { userIds: teamIds });
+
+    // Convert buffer to Stream for Telegram
+    const { Readable } = await import('stream');
+    const stream = Readable.from(buffer);
+    stream.path = filename;
+
+    await botInstance.sendDocument(chatId, stream, {
+        caption: `📈 *Statistics Report*\n📅 ${startDate} to ${endDate}`,
         parse_mode: 'Markdown'
     });
 }
 
 // Generate and send monthly summary
-async function generateAndSendMonthlySummary(chatId, botInstance, year, month) {
-    const { buffer, filename } = await generateMonthlySummary(dbPool, year, month);
+async function generateAndSendMonthlySummary(chatId, botInstance, year, month, teamIds = null) {
+    const { buffer, filename } = await generateMonthlySummary(dbPool, year, month, { userIds: teamIds });
 
     const monthName = new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
 
@@ -358,10 +403,10 @@ async function generateAndSendMonthlySummary(chatId, botInstance, year, month) {
 async function exportToday(chatId, botInstance, userId) {
     console.log(`📥 /export_today called by user ${userId}`);
 
-    const adminStatus = await isAdmin(userId);
-    if (!adminStatus) {
-        console.log(`❌ User ${userId} is not an admin`);
-        botInstance.sendMessage(chatId, '❌ This command is only available for admins');
+    const scope = await getExportScope(userId);
+    if (!scope) {
+        console.log(`❌ User ${userId} is not an admin or manager`);
+        botInstance.sendMessage(chatId, '❌ This command is only available for admins and managers');
         return;
     }
 
@@ -369,7 +414,7 @@ async function exportToday(chatId, botInstance, userId) {
 
     try {
         const today = new Date().toISOString().split('T')[0];
-        await generateAndSendBulkReport(chatId, botInstance, today, today);
+        await generateAndSendBulkReport(chatId, botInstance, today, today, scope.userIds);
     } catch (error) {
         console.error('Error in export_today:', error);
         botInstance.sendMessage(chatId, '\u274c Failed to generate report');
@@ -377,8 +422,9 @@ async function exportToday(chatId, botInstance, userId) {
 }
 
 async function exportWeek(chatId, botInstance, userId) {
-    if (!await isAdmin(userId)) {
-        botInstance.sendMessage(chatId, '\u274c This command is only available for admins');
+    const scope = await getExportScope(userId);
+    if (!scope) {
+        botInstance.sendMessage(chatId, '\u274c This command is only available for admins and managers');
         return;
     }
 
@@ -391,7 +437,7 @@ async function exportWeek(chatId, botInstance, userId) {
         const startDate = start.toISOString().split('T')[0];
         const endDate = now.toISOString().split('T')[0];
 
-        await generateAndSendBulkReport(chatId, botInstance, startDate, endDate);
+        await generateAndSendBulkReport(chatId, botInstance, startDate, endDate, scope.userIds);
     } catch (error) {
         console.error('Error in export_week:', error);
         botInstance.sendMessage(chatId, '\u274c Failed to generate report');
@@ -399,8 +445,9 @@ async function exportWeek(chatId, botInstance, userId) {
 }
 
 async function exportMonth(chatId, botInstance, userId) {
-    if (!await isAdmin(userId)) {
-        botInstance.sendMessage(chatId, '\u274c This command is only available for admins');
+    const scope = await getExportScope(userId);
+    if (!scope) {
+        botInstance.sendMessage(chatId, '\u274c This command is only available for admins and managers');
         return;
     }
 
@@ -408,35 +455,38 @@ async function exportMonth(chatId, botInstance, userId) {
 
     try {
         const now = new Date();
-        await generateAndSendMonthlySummary(chatId, botInstance, now.getFullYear(), now.getMonth() + 1);
+        await generateAndSendMonthlySummary(chatId, botInstance, now.getFullYear(), now.getMonth() + 1, scope.userIds);
     } catch (error) {
         console.error('Error in export_month:', error);
         botInstance.sendMessage(chatId, '\u274c Failed to generate report');
     }
 }
 
-// Check if user is admin by Telegram ID
-async function isAdmin(telegramUserId) {
+// Export scope for a Telegram user: null when they cannot export, otherwise
+// { userIds } with userIds null for admins and the team's ids for managers
+async function getExportScope(telegramUserId) {
     if (!dbPool) {
-        console.error('❌ isAdmin check failed: dbPool not initialized');
-        return false;
+        console.error('❌ Export scope check failed: dbPool not initialized');
+        return null;
     }
 
     try {
-        console.log(`🔍 Checking admin status for Telegram ID: ${telegramUserId}`);
+        console.log(`🔍 Checking export access for Telegram ID: ${telegramUserId}`);
         const result = await dbPool.query(
-            'SELECT role FROM users WHERE telegram_id = $1',
+            'SELECT id, role FROM users WHERE telegram_id = $1',
             [telegramUserId]
         );
 
-        console.log(`📊 Query result for Telegram ID ${telegramUserId}:`, result.rows);
-
-        const isAdminUser = result.rows.length > 0 && result.rows[0].role === 'admin';
-        console.log(`${isAdminUser ? '✅' : '❌'} Admin check result: ${isAdminUser}`);
+        const user = result.rows[0];
+        if (!user || (user.role !== 'admin' && user.role !== 'manager')) {
+            console.log(`❌ Export access denied for Telegram ID ${telegramUserId}`);
+            return null;
+        }
 
-        return isAdminUser;
+        console.log(`✅ Export access granted (${user.role}) for Telegram ID ${telegramUserId}`);
+        return { userIds: await getTeamUserIds(dbPool, user) };
     } catch (error) {
-        console.error('Error checking admin status:', error);
-        return false;
+        console.error('Error checking export access:', error);
+        return null;
     }
 }
@@ -13,7 +13,7 @@ export function initializeScheduledJobs(pool, bot) {
 
 /**
  * Send checkout reminder to users who haven't checked out
- * Called by cron job at configured time (default 6:30 PM)
+ * Called every 15 minutes; each user is reminded once, a while after their shift end
  */
 export async function sendCheckoutReminders() {
     if (!dbPool || !botInstance) {
@@ -22,25 +22,28 @@ export async function sendCheckoutReminders() {
     }
 
     try {
-        const today = new Date().toISOString().split('T')[0];
+        const now = new Date();
+        const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+        const minutesNow = now.getHours() * 60 + now.getMinutes();
+        const delay = parseInt(process.env.TELEGRAM_CHECKOUT_REMINDER_DELAY_MINUTES) || 30;
 
-        // Find users who have checked in but not checked out
+        // Users still checked in once their shift ended, reminded once per day
         const result = await dbPool.query(
-            `SELECT u.id, u.full_name, u.telegram_chat_id, a.work_hours_start
+            `SELECT u.id, u.full_name, u.telegram_chat_id, a.id as attendance_id, a.work_hours_start
              FROM users u
              JOIN attendance a ON u.id = a.user_id
+             JOIN shifts s ON s.id = user_shift_id(u.id)
              WHERE a.date = $1 
                AND a.work_hours_start IS NOT NULL 
                AND a.work_hours_end IS NULL
+               AND a.checkout_reminder_sent_at IS NULL
+               AND EXTRACT(EPOCH FROM s.end_time) / 60 + $3 <= $2
                AND u.telegram_chat_id IS NOT NULL
                AND u.is_active = true`,
-            [today]
+            [today, minutesNow, delay]
         );
 
-        if (result.rows.length === 0) {
-            console.log('✅ No pending checkouts - all users checked out');
-            return;
-        }
+        if (result.rows.length === 0) return;
 
         console.log(`📱 Sending checkout reminders to ${result.rows.length} users...`);
 
@@ -62,6 +65,11 @@ export async function sendCheckoutReminders() {
                     { parse_mode: 'HTML' }
                 );
 
+                await dbPool.query(
+                    'UPDATE attendance SET checkout_reminder_sent_at = NOW() WHERE id = $1',
+                    [user.attendance_id]
+                );
+
                 console.log(`📤 Sent reminder to ${user.full_name}`);
 
                 // Small delay to avoid rate limiting
@@ -126,6 +134,40 @@ export async function sendLeaveStatusNotification(userId, status, startDate, end
     }
 }
 
+/**
+ * Send attendance correction approval/rejection notification to user
+ * detail is the new attendance for approvals and the reason for rejections
+ */
+export async function sendCorrectionStatusNotification(userId, status, date, detail) {
+    if (!dbPool || !botInstance) return;
+
+    try {
+        const userResult = await dbPool.query(
+            'SELECT full_name, telegram_chat_id FROM users WHERE id = $1 AND telegram_chat_id IS NOT NULL',
+            [userId]
+        );
+
+        if (userResult.rows.length === 0) return;
+
+        const user = userResult.rows[0];
+        const day = new Date(date).toLocaleDateString('en-US', {
+            weekday: 'short',
+            month: 'short',
+            day: 'numeric'
+        });
+
+        const message = status === 'approved'
+            ? `✅ <b>Attendance Corrected</b>\n\n📅 ${day}\n\nNow recorded as: ${detail}`
+            : `❌ <b>Correction Rejected</b>\n\n📅 ${day}\n\nReason: ${detail}`;
+
+        await botInstance.sendMessage(user.telegram_chat_id, message, { parse_mode: 'HTML' });
+        console.log(`📤 Correction ${status} notification sent to ${user.full_name}`);
+
+    } catch (error) {
+        console.error('❌ Error sending correction notification:', error);
+    }
+}
+
 /**
  * Send expense approval notification to user
  */
@@ -166,6 +208,30 @@ export async function sendExpenseApprovalNotification(userId, location, amount,
     }
 }
 
+/**
+ * Send an employee invite link to a Telegram chat.
+ * Returns whether the message was delivered.
+ */
+export async function sendInviteNotification(chatId, fullName, link, expiresAt) {
+    if (!botInstance) return false;
+
+    const expires = new Date(expiresAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+    try {
+        const message = `🎮 <b>You're invited to Life In Pixels!</b>\n\n` +
+            `Hi ${fullName}, your account is ready.\n\n` +
+            `👉 <a href="${link}">Accept your invite</a>\n\n` +
+            `⏰ Expires ${expires}`;
+
+        await botInstance.sendMessage(chatId, message, { parse_mode: 'HTML' });
+        console.log(`📤 Invite sent to ${fullName} via Telegram`);
+        return true;
+    } catch (error) {
+        console.error('❌ Error sending invite via Telegram:', error.message);
+        return false;
+    }
+}
+
 /**
  * Send work anniversary notifications
  * Called by cron job at 9:00 AM daily to celebrate anniversaries
@@ -268,7 +334,9 @@ export default {
     initializeScheduledJobs,
     sendCheckoutReminders,
     sendLeaveStatusNotification,
+    sendCorrectionStatusNotification,
     sendExpenseApprovalNotification,
+    sendInviteNotification,
     sendAnniversaryNotifications,
     cleanupExpiredCodes
 };
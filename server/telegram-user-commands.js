@@ -3,6 +3,15 @@
 // Includes: Email verification, Check-in/out, Expenses, Leave requests
 
 import { sendVerificationCodeEmail, isEmailServiceAvailable } from './email-service.js';
+import { syncCompOffForAttendance, redeemCompOff } from './comp-off-routes.js';
+import { checkLeaveQuota } from './leave-routes.js';
+import { getUserGeofences, recordCheckin, checkinAtLocation } from './checkin-routes.js';
+import { createCorrectionRequest, describeAttendance, CORRECTION_STATUSES } from './correction-routes.js';
+import { updateShiftMinutes } from './shift-routes.js';
+import { saveExpenseReceipt } from './calibration-routes.js';
+import { loadExpensePolicies, normalizeExpense, getExpenseWarnings } from './expense-policy-routes.js';
+import { UploadError } from './file-storage.js';
+import { scanReceipt } from './receipt-ocr.js';
 
 let dbPool = null;
 
@@ -35,6 +44,13 @@ function formatDate(date) {
     });
 }
 
+// Format a minute count as "1h 05m" or "25m"
+function formatMinutes(minutes) {
+    return minutes >= 60
+        ? `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`
+        : `${minutes}m`;
+}
+
 // Get user by telegram_id
 async function getUserByTelegramId(telegramId) {
     if (!dbPool) return null;
@@ -78,7 +94,7 @@ export async function handleVerifyCommand(msg, botInstance) {
         // Check if this telegram_id is already linked
         const existingUser = await getUserByTelegramId(telegramId);
         if (existingUser) {
-            const roleEmoji = existingUser.role === 'admin' ? '👑 ADMIN' : '👔 Employee';
+            const roleEmoji = existingUser.role === 'admin' ? '👑 ADMIN' : existingUser.role === 'manager' ? '🧭 MANAGER' : '👔 Employee';
             return botInstance.sendMessage(chatId,
                 `✅ <b>Already Verified!</b>\n\n` +
                 `👤 ${existingUser.full_name}\n` +
@@ -278,11 +294,12 @@ export async function handleCodeCommand(msg, botInstance) {
 
         // Build role-specific welcome message
         const isAdmin = user.role === 'admin';
-        const roleEmoji = isAdmin ? '👑 ADMIN' : '👔 Employee';
+        const roleEmoji = isAdmin ? '👑 ADMIN' : user.role === 'manager' ? '🧭 MANAGER' : '👔 Employee';
 
         let commandsList = `/checkin - Mark entry time\n` +
             `/checkout - Mark exit time\n` +
-            `/mystatus - View today's status\n`;
+            `/mystatus - View today's status\n` +
+            `/correct - Fix a past day\n`;
 
         if (user.department === 'Calibration') {
             commandsList += `/expense - Add expense item\n`;
@@ -296,6 +313,9 @@ export async function handleCodeCommand(msg, botInstance) {
                 `/present - Present employees\n` +
                 `/export - Generate Excel reports\n` +
                 `/stats - Quick statistics`;
+        } else if (user.role === 'manager') {
+            commandsList += `\n<b>Manager Commands:</b>\n` +
+                `/export - Team Excel reports`;
         }
 
         commandsList += `\n/help - Show all commands`;
@@ -323,6 +343,45 @@ export async function handleCodeCommand(msg, botInstance) {
 
 // ==================== ATTENDANCE COMMANDS ====================
 
+// Confirm a check-in, or show the earlier entry time if there already was one
+async function sendCheckinResult(botInstance, chatId, user, result, via, extraLine = '') {
+    const options = { parse_mode: 'HTML', reply_markup: { remove_keyboard: true } };
+
+    if (result.error) {
+        return botInstance.sendMessage(chatId, `📍 <b>Check-in Not Allowed</b>\n\n${result.error}`, options);
+    }
+
+    if (result.alreadyCheckedIn) {
+        return botInstance.sendMessage(chatId,
+            `⏰ <b>Already Checked In</b>\n\n` +
+            `You checked in at ${formatTime(new Date(`2000-01-01T${result.time}`))}\n\n` +
+            `Use /checkout to mark exit time.`,
+            options
+        );
+    }
+
+    const now = new Date();
+
+    // Log activity
+    await dbPool.query(
+        'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
+        [user.id, 'telegram_checkin', `Checked in via ${via} at ${result.time}`]
+    );
+
+    console.log(`✅ ${user.full_name} checked in at ${result.time}`);
+
+    await botInstance.sendMessage(chatId,
+        `✅ <b>Checked In!</b>\n\n` +
+        `👤 ${user.full_name}\n` +
+        `📅 ${formatDate(now)}\n` +
+        `⏰ Entry: <b>${formatTime(now)}</b>\n` +
+        extraLine +
+        (result.lateMinutes > 0 ? `⚠️ Late by ${formatMinutes(result.lateMinutes)}\n` : '') +
+        `\n<i>Don't forget to /checkout when leaving!</i>`,
+        options
+    );
+}
+
 /**
  * Handle /checkin command - Mark entry time
  */
@@ -350,61 +409,84 @@ export async function handleCheckinCommand(msg, botInstance) {
             return botInstance.sendMessage(chatId, '❌ Your account is not active or pending approval.');
         }
 
-        const today = new Date().toISOString().split('T')[0];
-        const now = new Date();
-        const currentTime = now.toTimeString().split(' ')[0].substring(0, 5); // HH:MM
-
         // Check if already checked in today
+        const today = new Date().toISOString().split('T')[0];
         const existingAttendance = await dbPool.query(
-            'SELECT id, status, work_hours_start FROM attendance WHERE user_id = $1 AND date = $2',
+            'SELECT work_hours_start FROM attendance WHERE user_id = $1 AND date = $2',
             [user.id, today]
         );
 
-        if (existingAttendance.rows.length > 0 && existingAttendance.rows[0].work_hours_start) {
-            const existingTime = existingAttendance.rows[0].work_hours_start;
+        if (existingAttendance.rows[0]?.work_hours_start) {
+            return sendCheckinResult(botInstance, chatId, user,
+                { alreadyCheckedIn: true, time: existingAttendance.rows[0].work_hours_start }, 'Telegram');
+        }
+
+        // Offices with a geofence need the employee's location first
+        const geofences = await getUserGeofences(dbPool, user.id);
+
+        if (geofences.length > 0) {
             return botInstance.sendMessage(chatId,
-                `⏰ <b>Already Checked In</b>\n\n` +
-                `You checked in at ${formatTime(new Date(`2000-01-01T${existingTime}`))}\n\n` +
-                `Use /checkout to mark exit time.`,
+                `📍 <b>Share Your Live Location</b>\n\n` +
+                `Check-in at ${geofences.map(g => g.name).join(' / ')} needs your live location.\n` +
+                `Tap 📎 → Location → <b>Share My Live Location</b> (15 minutes is enough), ` +
+                `or scan the QR code on the office screen.`,
                 { parse_mode: 'HTML' }
             );
         }
 
-        // Create or update attendance record
-        if (existingAttendance.rows.length > 0) {
-            // Update existing record
-            await dbPool.query(
-                `UPDATE attendance SET work_hours_start = $1, marked_at = NOW() WHERE id = $2`,
-                [currentTime, existingAttendance.rows[0].id]
-            );
-        } else {
-            // Create new attendance record
-            await dbPool.query(
-                `INSERT INTO attendance (user_id, date, status, work_hours_start, marked_at)
-                 VALUES ($1, $2, 'present', $3, NOW())`,
-                [user.id, today, currentTime]
+        const result = await recordCheckin(dbPool, user.id, { method: 'telegram' });
+        await sendCheckinResult(botInstance, chatId, user, result, 'Telegram');
+
+    } catch (error) {
+        console.error('❌ Error in checkin command:', error);
+        botInstance.sendMessage(chatId, '❌ An error occurred. Please try again.');
+    }
+}
+
+/**
+ * Handle a shared live location - completes /checkin for geofenced offices
+ */
+export async function handleLocationMessage(msg, botInstance) {
+    const chatId = msg.chat.id;
+    const telegramId = msg.from.id;
+
+    if (!dbPool) {
+        return botInstance.sendMessage(chatId, '❌ Database not available.');
+    }
+
+    try {
+        const user = await getUserByTelegramId(telegramId);
+        if (!user || !user.is_approved || !user.is_active) {
+            return;
+        }
+
+        // A forwarded or static pin can be dropped anywhere on the map; only a
+        // live location is reported by the sender's device
+        if (msg.forward_date || msg.forward_origin || !msg.location.live_period) {
+            return botInstance.sendMessage(chatId,
+                '❌ Only a live location can be used for check-in. Tap 📎 → Location → "Share My Live Location".'
             );
         }
 
-        // Log activity
-        await dbPool.query(
-            'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
-            [user.id, 'telegram_checkin', `Checked in via Telegram at ${currentTime}`]
-        );
+        const { latitude, longitude, horizontal_accuracy } = msg.location;
+        const result = await checkinAtLocation(dbPool, user.id, 'telegram_location', {
+            latitude,
+            longitude,
+            accuracy: horizontal_accuracy ?? null
+        });
 
-        console.log(`✅ ${user.full_name} checked in at ${currentTime}`);
+        if (result.error) {
+            return botInstance.sendMessage(chatId,
+                `📍 <b>Check-in Not Allowed</b>\n\n${result.error}`,
+                { parse_mode: 'HTML', reply_markup: { remove_keyboard: true } }
+            );
+        }
 
-        await botInstance.sendMessage(chatId,
-            `✅ <b>Checked In!</b>\n\n` +
-            `👤 ${user.full_name}\n` +
-            `📅 ${formatDate(now)}\n` +
-            `⏰ Entry: <b>${formatTime(now)}</b>\n\n` +
-            `<i>Don't forget to /checkout when leaving!</i>`,
-            { parse_mode: 'HTML' }
-        );
+        await sendCheckinResult(botInstance, chatId, user, result, `Telegram location (${result.distance} m)`,
+            `📍 ${result.geofence.name} • ${result.distance} m away\n`);
 
     } catch (error) {
-        console.error('❌ Error in checkin command:', error);
+        console.error('❌ Error handling location:', error);
         botInstance.sendMessage(chatId, '❌ An error occurred. Please try again.');
     }
 }
@@ -461,11 +543,20 @@ export async function handleCheckoutCommand(msg, botInstance) {
             );
         }
 
-        // Update checkout time
+        // Update checkout time, then measure it against the shift
         await dbPool.query(
             `UPDATE attendance SET work_hours_end = $1 WHERE id = $2`,
             [currentTime, attendance.id]
         );
+        const updated = await updateShiftMinutes(dbPool, attendance.id);
+
+        let shiftLine = '';
+        if (updated?.overtime_minutes > 0) {
+            shiftLine += `➕ Overtime: ${formatMinutes(updated.overtime_minutes)}\n`;
+        }
+        if (updated?.early_leave_minutes > 0) {
+            shiftLine += `⚠️ Left ${formatMinutes(updated.early_leave_minutes)} before shift end\n`;
+        }
 
         // Calculate hours worked
         const [startHours, startMins] = attendance.work_hours_start.split(':').map(Number);
@@ -489,8 +580,9 @@ export async function handleCheckoutCommand(msg, botInstance) {
             `⏰ Entry: ${formatTime(new Date(`2000-01-01T${attendance.work_hours_start}`))}\n` +
             `⏰ Exit: <b>${formatTime(now)}</b>\n` +
             `━━━━━━━━━━━━━━━━━━\n` +
-            `📊 Total: <b>${hoursWorked}h ${minsWorked}m</b>\n\n` +
-            `<i>Have a great evening! 👋</i>`,
+            `📊 Total: <b>${hoursWorked}h ${minsWorked}m</b>\n` +
+            shiftLine +
+            `\n<i>Have a great evening! 👋</i>`,
             { parse_mode: 'HTML' }
         );
 
@@ -589,8 +681,168 @@ export async function handleMyStatusCommand(msg, botInstance) {
     }
 }
 
+/**
+ * Handle /correct command - Ask for a past day's attendance to be changed
+ * Usage: /correct 2026-02-03 present 09:30-18:00 Forgot to check in
+ */
+export async function handleCorrectCommand(msg, botInstance) {
+    const chatId = msg.chat.id;
+    const telegramId = msg.from.id;
+    const text = msg.text || '';
+
+    if (!dbPool) {
+        return botInstance.sendMessage(chatId, '❌ Database not available.');
+    }
+
+    try {
+        const user = await getUserByTelegramId(telegramId);
+        if (!user) {
+            return botInstance.sendMessage(chatId,
+                `🔐 <b>Verification Required</b>\n\n` +
+                `Please verify first: <code>/verify your.email@company.com</code>`,
+                { parse_mode: 'HTML' }
+            );
+        }
+
+        const correctionText = text.replace(/^\/correct\s*/i, '').trim();
+
+        if (!correctionText) {
+            return botInstance.sendMessage(chatId,
+                `✏️ <b>Correct Attendance</b>\n\n` +
+                `Format: <code>/correct DATE STATUS [START-END] REASON</code>\n` +
+                `Statuses: ${CORRECTION_STATUSES.join(', ')}\n\n` +
+                `Examples:\n` +
+                `• <code>/correct 2026-02-03 present 09:30-18:00 Forgot to check in</code>\n` +
+                `• <code>/correct 2026-02-04 wfh Worked from home, marked absent by mistake</code>\n\n` +
+                `An admin or your manager will review it.`,
+                { parse_mode: 'HTML' }
+            );
+        }
+
+        // Parse: "YYYY-MM-DD status [HH:MM-HH:MM] Reason"
+        const match = correctionText.match(/^(\d{4}-\d{2}-\d{2})\s+(present|absent|half_day|wfh|on_leave)\s+(?:(\d{2}:\d{2})-(\d{2}:\d{2})\s+)?(.+)$/i);
+
+        if (!match) {
+            return botInstance.sendMessage(chatId,
+                `❌ <b>Invalid Format</b>\n\n` +
+                `Use: <code>/correct YYYY-MM-DD STATUS [HH:MM-HH:MM] Reason</code>\n` +
+                `Example: <code>/correct 2026-02-03 present 09:30-18:00 Forgot to check in</code>`,
+                { parse_mode: 'HTML' }
+            );
+        }
+
+        const [, date, statusText, checkIn, checkOut, reason] = match;
+        const status = statusText.toLowerCase();
+
+        const result = await createCorrectionRequest(
+            dbPool, user.id, user.full_name,
+            { date, status, checkIn, checkOut, reason },
+            'telegram'
+        );
+
+        if (result.error) {
+            return botInstance.sendMessage(chatId, `❌ ${result.error}`);
+        }
+
+        const { correction } = result;
+
+        await botInstance.sendMessage(chatId,
+            `✅ <b>Correction Requested!</b>\n\n` +
+            `📅 ${formatDate(new Date(date))}\n` +
+            `✏️ ${describeAttendance(correction.proposed_status, correction.proposed_start, correction.proposed_end)}\n` +
+            `📝 Reason: ${correction.reason}\n\n` +
+            `Your request is pending approval. 🔔`,
+            { parse_mode: 'HTML' }
+        );
+
+    } catch (error) {
+        console.error('❌ Error in correct command:', error);
+        botInstance.sendMessage(chatId, '❌ An error occurred. Please try again.');
+    }
+}
+
 // ==================== EXPENSE COMMANDS (CALIBRATION ONLY) ====================
 
+/**
+ * Today's site visit for the user, creating the attendance record and a
+ * draft site visit when they don't exist yet. Returns the site visit id.
+ */
+async function getTodaySiteVisitId(user, today) {
+    const attendanceResult = await dbPool.query(
+        'SELECT id FROM attendance WHERE user_id = $1 AND date = $2',
+        [user.id, today]
+    );
+
+    let attendanceId;
+    if (attendanceResult.rows.length === 0) {
+        // Create attendance record
+        const newAtt = await dbPool.query(
+            `INSERT INTO attendance (user_id, date, status, is_site_visit) 
+             VALUES ($1, $2, 'present', true) RETURNING id`,
+            [user.id, today]
+        );
+        attendanceId = newAtt.rows[0].id;
+
+        await syncCompOffForAttendance(dbPool, user.id, today, 'present')
+            .catch(error => console.error('❌ Error syncing comp-off:', error));
+    } else {
+        attendanceId = attendanceResult.rows[0].id;
+        await dbPool.query(
+            'UPDATE attendance SET is_site_visit = true WHERE id = $1',
+            [attendanceId]
+        );
+    }
+
+    // Get or create site visit details
+    const siteVisitResult = await dbPool.query(
+        'SELECT id FROM site_visit_details WHERE attendance_id = $1',
+        [attendanceId]
+    );
+
+    let siteVisitId;
+    if (siteVisitResult.rows.length === 0) {
+        // Create site visit with placeholder location
+        const newSV = await dbPool.query(
+            `INSERT INTO site_visit_details (attendance_id, user_id, visit_date, location, status)
+             VALUES ($1, $2, $3, 'Via Telegram', 'draft') RETURNING id`,
+            [attendanceId, user.id, today]
+        );
+        siteVisitId = newSV.rows[0].id;
+    } else {
+        siteVisitId = siteVisitResult.rows[0].id;
+    }
+
+    return siteVisitId;
+}
+
+/**
+ * Parse "Type - Amount [Description]", or "Type - 42 km [Description]" for
+ * own-vehicle mileage. Returns null when the text doesn't fit.
+ */
+function parseExpenseText(expenseText) {
+    const match = expenseText.match(/^(.+?)\s*-\s*(\d+(?:\.\d{1,2})?)\s*(.*)$/);
+    if (!match) return null;
+
+    const [, type, number, rest] = match;
+    const km = rest.match(/^km\b\s*(.*)$/i);
+
+    return {
+        type: type.trim(),
+        amount: km ? null : parseFloat(number),
+        distanceKm: km ? parseFloat(number) : null,
+        description: (km ? km[1] : rest).trim()
+    };
+}
+
+// Policy warnings as reply lines
+function formatPolicyWarnings(warnings) {
+    return warnings.map(warning =>
+        warning.code === 'receipt'
+            ? `📸 Receipt needed - send a photo of it to attach\n`
+            : `⚠️ ${warning.message}\n`
+    ).join('');
+}
+
 /**
  * Handle /expense command - Add expense item (Calibration department only)
  * Usage: /expense Petrol - 170 or /expense Food - 80 for lunch
@@ -635,7 +887,8 @@ export async function handleExpenseCommand(msg, botInstance) {
                 `Examples:\n` +
                 `• <code>/expense Petrol - 170</code>\n` +
                 `• <code>/expense Food - 80 for lunch</code>\n` +
-                `• <code>/expense Cab - 250 to site</code>\n\n` +
+                `• <code>/expense Cab - 250 to site</code>\n` +
+                `• <code>/expense Bike - 42 km</code>\n\n` +
                 `Commands:\n` +
                 `/expenses - View today's expenses\n` +
                 `/submit - Submit for approval`,
@@ -644,9 +897,9 @@ export async function handleExpenseCommand(msg, botInstance) {
         }
 
         // Parse format: "Type - Amount [Description]"
-        const match = expenseText.match(/^(.+?)\s*-\s*(\d+(?:\.\d{1,2})?)\s*(.*)$/);
+        const parsed = parseExpenseText(expenseText);
 
-        if (!match) {
+        if (!parsed) {
             return botInstance.sendMessage(chatId,
                 `❌ <b>Invalid Format</b>\n\n` +
                 `Use: <code>/expense Type - Amount</code>\n` +
@@ -655,8 +908,17 @@ export async function handleExpenseCommand(msg, botInstance) {
             );
         }
 
-        const [, expenseType, amountStr, description] = match;
-        const amount = parseFloat(amountStr);
+        const { description } = parsed;
+
+        // Only allowed types; mileage is priced from the km
+        const { policies } = await loadExpensePolicies(dbPool);
+        const expense = normalizeExpense(policies, parsed);
+
+        if (expense.error) {
+            return botInstance.sendMessage(chatId, `❌ ${expense.error}`);
+        }
+
+        const { amount } = expense;
 
         if (amount <= 0 || amount > 100000) {
             return botInstance.sendMessage(chatId, '❌ Invalid amount. Must be between 1 and 100000.');
@@ -665,54 +927,18 @@ export async function handleExpenseCommand(msg, botInstance) {
         const today = new Date().toISOString().split('T')[0];
 
         // Get or create today's attendance and site visit
-        let attendanceResult = await dbPool.query(
-            'SELECT id FROM attendance WHERE user_id = $1 AND date = $2',
-            [user.id, today]
-        );
-
-        let attendanceId;
-        if (attendanceResult.rows.length === 0) {
-            // Create attendance record
-            const newAtt = await dbPool.query(
-                `INSERT INTO attendance (user_id, date, status, is_site_visit) 
-                 VALUES ($1, $2, 'present', true) RETURNING id`,
-                [user.id, today]
-            );
-            attendanceId = newAtt.rows[0].id;
-        } else {
-            attendanceId = attendanceResult.rows[0].id;
-            await dbPool.query(
-                'UPDATE attendance SET is_site_visit = true WHERE id = $1',
-                [attendanceId]
-            );
-        }
-
-        // Get or create site visit details
-        let siteVisitResult = await dbPool.query(
-            'SELECT id FROM site_visit_details WHERE attendance_id = $1',
-            [attendanceId]
-        );
-
-        let siteVisitId;
-        if (siteVisitResult.rows.length === 0) {
-            // Create site visit with placeholder location
-            const newSV = await dbPool.query(
-                `INSERT INTO site_visit_details (attendance_id, user_id, visit_date, location, status)
-                 VALUES ($1, $2, $3, 'Via Telegram', 'draft') RETURNING id`,
-                [attendanceId, user.id, today]
-            );
-            siteVisitId = newSV.rows[0].id;
-        } else {
-            siteVisitId = siteVisitResult.rows[0].id;
-        }
+        const siteVisitId = await getTodaySiteVisitId(user, today);
 
         // Insert expense
-        await dbPool.query(
-            `INSERT INTO site_visit_expenses (site_visit_id, expense_type, amount, description)
-             VALUES ($1, $2, $3, $4)`,
-            [siteVisitId, expenseType.trim(), amount, description.trim() || null]
+        const inserted = await dbPool.query(
+            `INSERT INTO site_visit_expenses (site_visit_id, expense_type, amount, description, distance_km)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING id`,
+            [siteVisitId, expense.expenseType, amount, description || null, expense.distanceKm]
         );
 
+        const warnings = await getExpenseWarnings(dbPool, siteVisitId, inserted.rows[0].id);
+
         // Get total expenses for today
         const totalResult = await dbPool.query(
             `SELECT COALESCE(SUM(amount), 0) as total, COUNT(*) as count 
@@ -722,13 +948,15 @@ export async function handleExpenseCommand(msg, botInstance) {
 
         const { total, count } = totalResult.rows[0];
 
-        console.log(`💰 ${user.full_name} added expense: ${expenseType} - ₹${amount}`);
+        console.log(`💰 ${user.full_name} added expense: ${expense.label} - ₹${amount}`);
 
         await botInstance.sendMessage(chatId,
             `✅ <b>Expense Added!</b>\n\n` +
-            `📝 ${expenseType.trim()} - ₹${amount}${description ? ` (${description.trim()})` : ''}\n\n` +
+            `📝 ${expense.label} - ₹${amount}` +
+            `${expense.distanceKm ? ` (${expense.distanceKm} km)` : ''}${description ? ` (${description})` : ''}\n\n` +
             `━━━━━━━━━━━━━━━━━━\n` +
             `📊 Today's Total: <b>₹${parseFloat(total).toFixed(2)}</b> (${count} items)\n\n` +
+            formatPolicyWarnings(warnings) +
             `<i>Use /submit when ready for approval</i>`,
             { parse_mode: 'HTML' }
         );
@@ -739,6 +967,177 @@ export async function handleExpenseCommand(msg, botInstance) {
     }
 }
 
+// Collect a Telegram file into a buffer
+async function downloadTelegramFile(botInstance, fileId) {
+    const chunks = [];
+    for await (const chunk of botInstance.getFileStream(fileId)) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Handle a receipt photo (or image/PDF document) - Calibration only.
+ * With a caption "/expense Type - Amount" it adds the expense with the
+ * receipt; the amount may be left out when OCR can read it. Without a
+ * caption it attaches to today's latest expense that has no receipt.
+ */
+export async function handleReceiptPhoto(msg, botInstance) {
+    const chatId = msg.chat.id;
+    const telegramId = msg.from.id;
+    const caption = (msg.caption || '').trim();
+
+    // Documents only count as receipts when they are images or PDFs
+    if (msg.document && !/^(image\/|application\/pdf$)/.test(msg.document.mime_type || '')) {
+        return;
+    }
+
+    // A photo captioned with anything else isn't a receipt
+    if (caption && !/^\/expense(?!s)/i.test(caption)) {
+        return;
+    }
+
+    if (!dbPool) {
+        return botInstance.sendMessage(chatId, '❌ Database not available.');
+    }
+
+    try {
+        const user = await getUserByTelegramId(telegramId);
+        if (!user || user.department !== 'Calibration') {
+            // Photos are common chat traffic; only answer when it was meant as an expense
+            if (caption) {
+                return botInstance.sendMessage(chatId, '⚠️ Receipts are for Calibration department only. Verify first with /verify.');
+            }
+            return;
+        }
+
+        const file = msg.document
+            ? { id: msg.document.file_id, name: msg.document.file_name || 'receipt', type: msg.document.mime_type }
+            : { id: msg.photo[msg.photo.length - 1].file_id, name: `receipt-${Date.now()}.jpg`, type: 'image/jpeg' };
+
+        const buffer = await downloadTelegramFile(botInstance, file.id);
+        const today = new Date().toISOString().split('T')[0];
+
+        let expense;
+        let ocrResult;
+
+        if (caption) {
+            // "/expense Type - Amount Description", or "/expense Type" to let OCR read the amount
+            const expenseText = caption.replace(/^\/expense\s*/i, '').trim();
+            const parsed = parseExpenseText(expenseText) || {
+                type: expenseText.replace(/\s*-\s*$/, ''),
+                amount: null,
+                distanceKm: null,
+                description: ''
+            };
+            let vendor = null;
+
+            if (!parsed.type) {
+                return botInstance.sendMessage(chatId,
+                    `❌ <b>Invalid Caption</b>\n\n` +
+                    `Use: <code>/expense Type - Amount</code>\n` +
+                    `or <code>/expense Type</code> to read the amount from the receipt`,
+                    { parse_mode: 'HTML' }
+                );
+            }
+
+            ocrResult = await scanReceipt(buffer, file.type);
+            if (ocrResult) {
+                vendor = ocrResult.vendor;
+                if (!parsed.amount && !parsed.distanceKm) parsed.amount = ocrResult.amount;
+            }
+
+            const { policies } = await loadExpensePolicies(dbPool);
+            const checked = normalizeExpense(policies, parsed);
+
+            // Plain text: both replies repeat the caption as typed
+            if (checked.error) {
+                return botInstance.sendMessage(chatId,
+                    parsed.amount || parsed.distanceKm
+                        ? `❌ ${checked.error}`
+                        : `❌ Couldn't read the amount from the receipt.\n\n` +
+                          `Send it again with: /expense ${parsed.type} - Amount`
+                );
+            }
+
+            if (checked.amount > 100000) {
+                return botInstance.sendMessage(chatId, '❌ Invalid amount. Must be between 1 and 100000.');
+            }
+
+            const siteVisitId = await getTodaySiteVisitId(user, today);
+
+            const inserted = await dbPool.query(
+                `INSERT INTO site_visit_expenses (site_visit_id, expense_type, amount, description, vendor, distance_km)
+                 SELECT $1, $2, $3, $4, $5, $6
+                 WHERE EXISTS (SELECT 1 FROM site_visit_details WHERE id = $1 AND status = 'draft')
+                 RETURNING id, site_visit_id, receipt_storage_key, expense_type, amount`,
+                [siteVisitId, checked.expenseType, checked.amount, parsed.description || null, vendor, checked.distanceKm]
+            );
+
+            if (inserted.rows.length === 0) {
+                return botInstance.sendMessage(chatId, `⚠️ Today's expenses are already submitted.`);
+            }
+
+            expense = inserted.rows[0];
+        } else {
+            const latest = await dbPool.query(
+                `SELECT sve.id, sve.site_visit_id, sve.receipt_storage_key, sve.expense_type, sve.amount
+                 FROM site_visit_expenses sve
+                 JOIN site_visit_details svd ON sve.site_visit_id = svd.id
+                 WHERE svd.user_id = $1 AND svd.visit_date = $2 AND svd.status = 'draft'
+                   AND sve.receipt_storage_key IS NULL
+                 ORDER BY sve.created_at DESC
+                 LIMIT 1`,
+                [user.id, today]
+            );
+
+            if (latest.rows.length === 0) {
+                return botInstance.sendMessage(chatId,
+                    `🧾 <b>No expense to attach this receipt to</b>\n\n` +
+                    `Send the photo with a caption to add it as a new expense:\n` +
+                    `<code>/expense Petrol - 170</code>`,
+                    { parse_mode: 'HTML' }
+                );
+            }
+
+            expense = latest.rows[0];
+        }
+
+        const { ocr } = await saveExpenseReceipt(dbPool, expense, {
+            buffer,
+            fileName: file.name,
+            contentType: file.type,
+            ocrResult
+        });
+
+        console.log(`🧾 ${user.full_name} attached a receipt to ${expense.expense_type} - ₹${expense.amount}`);
+
+        let message = caption ? `✅ <b>Expense Added with Receipt!</b>\n\n` : `🧾 <b>Receipt Attached!</b>\n\n`;
+        message += `📝 ${expense.expense_type} - ₹${expense.amount}\n`;
+
+        // Point out when the receipt disagrees with what was typed
+        if (ocr && ocr.amount && Math.abs(ocr.amount - parseFloat(expense.amount)) >= 1) {
+            message += `\n⚠️ The receipt looks like ₹${ocr.amount}. Please check the amount.\n`;
+        }
+
+        const warnings = await getExpenseWarnings(dbPool, expense.site_visit_id, expense.id);
+        if (warnings.length > 0) {
+            message += `\n${formatPolicyWarnings(warnings)}`;
+        }
+
+        message += `\n<i>Use /expenses to review, /submit when ready</i>`;
+
+        await botInstance.sendMessage(chatId, message, { parse_mode: 'HTML' });
+
+    } catch (error) {
+        if (error instanceof UploadError) {
+            return botInstance.sendMessage(chatId, `❌ Receipt not saved: ${error.message}`);
+        }
+        console.error('❌ Error handling receipt photo:', error);
+        botInstance.sendMessage(chatId, '❌ An error occurred. Please try again.');
+    }
+}
+
 /**
  * Handle /expenses command - View today's expenses
  */
@@ -768,7 +1167,8 @@ export async function handleExpensesCommand(msg, botInstance) {
 
         // Get today's expenses
         const result = await dbPool.query(
-            `SELECT sve.expense_type, sve.amount, sve.description, svd.status
+            `SELECT sve.expense_type, sve.amount, sve.description, svd.status,
+                    sve.receipt_storage_key IS NOT NULL as has_receipt
              FROM site_visit_expenses sve
              JOIN site_visit_details svd ON sve.site_visit_id = svd.id
              WHERE svd.user_id = $1 AND svd.visit_date = $2
@@ -792,6 +1192,7 @@ export async function handleExpensesCommand(msg, botInstance) {
         result.rows.forEach((exp, i) => {
             message += `${i + 1}. ${exp.expense_type} - ₹${exp.amount}`;
             if (exp.description) message += ` <i>(${exp.description})</i>`;
+            if (exp.has_receipt) message += ' 🧾';
             message += '\n';
             total += parseFloat(exp.amount);
         });
@@ -875,10 +1276,12 @@ export async function handleSubmitCommand(msg, botInstance) {
             [siteVisit.id]
         );
 
-        // Create notification for admins
+        // Create notification for admins and the reporting manager
         const admins = await dbPool.query(
-            'SELECT id FROM users WHERE role = $1 AND is_active = true',
-            ['admin']
+            `SELECT id FROM users
+             WHERE is_active = true
+               AND (role = $1 OR id = (SELECT manager_id FROM users WHERE id = $2))`,
+            ['admin', user.id]
         );
 
         for (const admin of admins.rows) {
@@ -890,7 +1293,7 @@ export async function handleSubmitCommand(msg, botInstance) {
                     'calibration_expense_submitted',
                     'New Site Visit Expense',
                     `${user.full_name} submitted expenses via Telegram - Total: ₹${siteVisit.total}`,
-                    '/admin/calibration'
+                    '/admin?panel=calibration'
                 ]
             );
         }
@@ -922,7 +1325,7 @@ export async function handleSubmitCommand(msg, botInstance) {
 
 /**
  * Handle /leave command - Request leave
- * Usage: /leave 2026-02-01 2026-02-03 Family function
+ * Usage: /leave [casual|sick|vacation|personal] 2026-02-01 2026-02-03 Family function
  */
 export async function handleLeaveCommand(msg, botInstance) {
     const chatId = msg.chat.id;
@@ -948,28 +1351,30 @@ export async function handleLeaveCommand(msg, botInstance) {
         if (!leaveText) {
             return botInstance.sendMessage(chatId,
                 `🌴 <b>Request Leave</b>\n\n` +
-                `Format: <code>/leave START END REASON</code>\n\n` +
+                `Format: <code>/leave [TYPE] START END REASON</code>\n` +
+                `Types: casual (default), sick, vacation, personal\n\n` +
                 `Examples:\n` +
                 `• <code>/leave 2026-02-01 2026-02-03 Family function</code>\n` +
-                `• <code>/leave 2026-02-05 2026-02-05 Doctor appointment</code>\n\n` +
+                `• <code>/leave sick 2026-02-05 2026-02-05 Doctor appointment</code>\n\n` +
                 `Use /myleaves to check your requests.`,
                 { parse_mode: 'HTML' }
             );
         }
 
-        // Parse: "YYYY-MM-DD YYYY-MM-DD Reason"
-        const match = leaveText.match(/^(\d{4}-\d{2}-\d{2})\s+(\d{4}-\d{2}-\d{2})\s+(.+)$/);
+        // Parse: "[type] YYYY-MM-DD YYYY-MM-DD Reason"
+        const match = leaveText.match(/^(?:(casual|sick|vacation|personal)\s+)?(\d{4}-\d{2}-\d{2})\s+(\d{4}-\d{2}-\d{2})\s+(.+)$/i);
 
         if (!match) {
             return botInstance.sendMessage(chatId,
                 `❌ <b>Invalid Format</b>\n\n` +
-                `Use: <code>/leave YYYY-MM-DD YYYY-MM-DD Reason</code>\n` +
-                `Example: <code>/leave 2026-02-01 2026-02-03 Family function</code>`,
+                `Use: <code>/leave [TYPE] YYYY-MM-DD YYYY-MM-DD Reason</code>\n` +
+                `Example: <code>/leave vacation 2026-02-01 2026-02-03 Family function</code>`,
                 { parse_mode: 'HTML' }
             );
         }
 
-        const [, startDate, endDate, reason] = match;
+        const [, typeText, startDate, endDate, reason] = match;
+        const leaveType = (typeText || 'casual').toLowerCase();
 
         // Validate dates
         const start = new Date(startDate);
@@ -992,18 +1397,24 @@ export async function handleLeaveCommand(msg, botInstance) {
         // Calculate days
         const days = Math.ceil((end - start) / (1000 * 60 * 60 * 24)) + 1;
 
+        const quotaCheck = await checkLeaveQuota(dbPool, user.id, leaveType, startDate, endDate);
+        if (quotaCheck.error) {
+            return botInstance.sendMessage(chatId, `❌ ${quotaCheck.error}`);
+        }
+
         // Create leave request
-        const result = await dbPool.query(
+        await dbPool.query(
             `INSERT INTO leave_requests (user_id, start_date, end_date, leave_type, reason, status)
-             VALUES ($1, $2, $3, 'casual', $4, 'pending')
-             RETURNING id`,
-            [user.id, startDate, endDate, reason.trim()]
+             VALUES ($1, $2, $3, $4, $5, 'pending')`,
+            [user.id, startDate, endDate, leaveType, reason.trim()]
         );
 
-        // Notify admins
+        // Notify admins and the reporting manager
         const admins = await dbPool.query(
-            'SELECT id FROM users WHERE role = $1 AND is_active = true',
-            ['admin']
+            `SELECT id FROM users
+             WHERE is_active = true
+               AND (role = $1 OR id = (SELECT manager_id FROM users WHERE id = $2))`,
+            ['admin', user.id]
         );
 
         for (const admin of admins.rows) {
@@ -1014,8 +1425,8 @@ export async function handleLeaveCommand(msg, botInstance) {
                     admin.id,
                     'leave_request',
                     'New Leave Request',
-                    `${user.full_name} requested ${days} day(s) leave: ${reason.trim()}`,
-                    '/admin'
+                    `${user.full_name} requested ${days} day(s) ${leaveType} leave: ${reason.trim()}`,
+                    '/admin?panel=leave'
                 ]
             );
         }
@@ -1023,7 +1434,7 @@ export async function handleLeaveCommand(msg, botInstance) {
         // Log activity
         await dbPool.query(
             'INSERT INTO activity_log (user_id, action_type, action_details) VALUES ($1, $2, $3)',
-            [user.id, 'telegram_leave_request', `Requested ${days} days leave via Telegram: ${reason}`]
+            [user.id, 'telegram_leave_request', `Requested ${days} days ${leaveType} leave via Telegram: ${reason}`]
         );
 
         console.log(`🌴 ${user.full_name} requested leave: ${startDate} to ${endDate}`);
@@ -1033,6 +1444,8 @@ export async function handleLeaveCommand(msg, botInstance) {
             `📅 From: ${formatDate(start)}\n` +
             `📅 To: ${formatDate(end)}\n` +
             `📊 Days: ${days}\n` +
+            `🏷️ Type: ${leaveType}\n` +
+            `💼 Balance left: ${quotaCheck.remaining - days} day(s)\n` +
             `📝 Reason: ${reason.trim()}\n\n` +
             `Your request is pending approval. 🔔`,
             { parse_mode: 'HTML' }
@@ -1079,7 +1492,7 @@ export async function handleMyLeavesCommand(msg, botInstance) {
             return botInstance.sendMessage(chatId,
                 `🌴 <b>Your Leave Requests</b>\n\n` +
                 `No leave requests found.\n\n` +
-                `Request with: <code>/leave YYYY-MM-DD YYYY-MM-DD Reason</code>`,
+                `Request with: <code>/leave [TYPE] YYYY-MM-DD YYYY-MM-DD Reason</code>`,
                 { parse_mode: 'HTML' }
             );
         }
@@ -1111,6 +1524,83 @@ export async function handleMyLeavesCommand(msg, botInstance) {
     }
 }
 
+/**
+ * Handle /compoff command - List comp-off credits, or use one with /compoff YYYY-MM-DD
+ */
+export async function handleCompOffCommand(msg, botInstance) {
+    const chatId = msg.chat.id;
+    const telegramId = msg.from.id;
+
+    if (!dbPool) {
+        return botInstance.sendMessage(chatId, '❌ Database not available.');
+    }
+
+    try {
+        const user = await getUserByTelegramId(telegramId);
+        if (!user) {
+            return botInstance.sendMessage(chatId,
+                `🔐 <b>Verification Required</b>\n\n` +
+                `Please verify first: <code>/verify your.email@company.com</code>`,
+                { parse_mode: 'HTML' }
+            );
+        }
+
+        const date = msg.text.split(/\s+/)[1];
+
+        if (date) {
+            const { error, compOff } = await redeemCompOff(dbPool, user.id, date);
+
+            if (error) {
+                return botInstance.sendMessage(chatId, `❌ ${error}`);
+            }
+
+            console.log(`🎟️ ${user.full_name} used a comp-off for ${date} via Telegram`);
+
+            return botInstance.sendMessage(chatId,
+                `✅ <b>Comp-off Applied!</b>\n\n` +
+                `📅 Day off: ${formatDate(new Date(date))}\n` +
+                `🎁 ${compOff.earned_reason} (${formatDate(new Date(compOff.earned_for_date))})\n\n` +
+                `<i>Your attendance for that day is marked as leave.</i>`,
+                { parse_mode: 'HTML' }
+            );
+        }
+
+        const result = await dbPool.query(
+            `SELECT earned_reason, earned_for_date, expires_at
+             FROM compensatory_offs
+             WHERE user_id = $1 AND status = 'available'
+               AND (expires_at IS NULL OR expires_at >= CURRENT_DATE)
+             ORDER BY expires_at ASC NULLS LAST`,
+            [user.id]
+        );
+
+        if (result.rows.length === 0) {
+            return botInstance.sendMessage(chatId,
+                `🎁 <b>Your Comp-offs</b>\n\n` +
+                `No comp-offs available.\n\n` +
+                `<i>Working on a Sunday or holiday earns one.</i>`,
+                { parse_mode: 'HTML' }
+            );
+        }
+
+        let message = `🎁 <b>Your Comp-offs (${result.rows.length})</b>\n\n`;
+
+        result.rows.forEach((compOff, i) => {
+            message += `${i + 1}. ${compOff.earned_reason}\n`;
+            message += `   📅 ${formatDate(new Date(compOff.earned_for_date))}`;
+            message += compOff.expires_at ? ` | ⌛ Use by ${formatDate(new Date(compOff.expires_at))}\n\n` : '\n\n';
+        });
+
+        message += `Use one with: <code>/compoff YYYY-MM-DD</code>`;
+
+        await botInstance.sendMessage(chatId, message, { parse_mode: 'HTML' });
+
+    } catch (error) {
+        console.error('❌ Error in compoff command:', error);
+        botInstance.sendMessage(chatId, '❌ An error occurred. Please try again.');
+    }
+}
+
 // ==================== HELP COMMAND ====================
 
 /**
@@ -1131,7 +1621,7 @@ export async function handleUserHelpCommand(msg, botInstance) {
             message += `<i>Example: /verify your.email@company.com</i>`;
         } else {
             const isAdmin = user.role === 'admin';
-            const roleEmoji = isAdmin ? '👑 ADMIN' : '👔 Employee';
+            const roleEmoji = isAdmin ? '👑 ADMIN' : user.role === 'manager' ? '🧭 MANAGER' : '👔 Employee';
 
             message += `👤 ${user.full_name} | ${user.employee_id}\n`;
             message += `${roleEmoji}\n`;
@@ -1140,18 +1630,21 @@ export async function handleUserHelpCommand(msg, botInstance) {
             message += `<b>⏰ Attendance:</b>\n`;
             message += `/checkin - Mark entry time\n`;
             message += `/checkout - Mark exit time\n`;
-            message += `/mystatus - View today's status\n\n`;
+            message += `/mystatus - View today's status\n`;
+            message += `/correct DATE STATUS [HH:MM-HH:MM] Reason\n\n`;
 
             if (user.department === 'Calibration') {
                 message += `<b>💰 Expenses (Calibration):</b>\n`;
                 message += `/expense Type - Amount - Add expense\n`;
                 message += `/expenses - View today's expenses\n`;
+                message += `📸 Photo - Attach receipt to latest expense\n`;
                 message += `/submit - Submit for approval\n\n`;
             }
 
             message += `<b>🌴 Leave:</b>\n`;
             message += `/leave YYYY-MM-DD YYYY-MM-DD Reason\n`;
-            message += `/myleaves - Check leave status\n\n`;
+            message += `/myleaves - Check leave status\n`;
+            message += `/compoff [YYYY-MM-DD] - View or use comp-offs\n\n`;
 
             if (isAdmin) {
                 message += `<b>📊 Admin Reports:</b>\n`;
@@ -1160,6 +1653,9 @@ export async function handleUserHelpCommand(msg, botInstance) {
                 message += `/wfh - WFH employees\n`;
                 message += `/stats - Quick statistics\n`;
                 message += `/export - Generate Excel reports`;
+            } else if (user.role === 'manager') {
+                message += `<b>📊 Team Reports:</b>\n`;
+                message += `/export - Generate Excel reports for your team`;
             } else {
                 message += `<i>📊 Reports are available for admins only.</i>`;
             }
@@ -1179,12 +1675,16 @@ export default {
     handleVerifyCommand,
     handleCodeCommand,
     handleCheckinCommand,
+    handleLocationMessage,
     handleCheckoutCommand,
     handleMyStatusCommand,
+    handleCorrectCommand,
     handleExpenseCommand,
+    handleReceiptPhoto,
     handleExpensesCommand,
     handleSubmitCommand,
     handleLeaveCommand,
     handleMyLeavesCommand,
+    handleCompOffCommand,
     handleUserHelpCommand
 };
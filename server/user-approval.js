@@ -17,13 +17,16 @@ export function isApproved(req, res, next) {
     next();
 }
 
-// Get pending users (admin only)
+// Get pending users (admin only). Invited users are not listed: accepting
+// their invite approves them. Neither are sign-ups that never confirmed
+// their email.
 export async function getPendingUsers(req, res, pool) {
     try {
         const result = await pool.query(
             `SELECT id, full_name, username, email, google_email, employee_id, avatar_url, created_at 
              FROM users 
-             WHERE is_approved = false 
+             WHERE is_approved = false AND invited_by IS NULL
+               AND email_verified_at IS NOT NULL
              ORDER BY created_at DESC`
         );
         res.json(result.rows);
@@ -42,8 +45,8 @@ export async function approveUser(req, res, pool) {
             return res.status(400).json({ error: 'User ID and role are required' });
         }
 
-        if (role !== 'admin' && role !== 'employee') {
-            return res.status(400).json({ error: 'Role must be either admin or employee' });
+        if (!['admin', 'manager', 'employee'].includes(role)) {
+            return res.status(400).json({ error: 'Role must be admin, manager or employee' });
         }
 
         const result = await pool.query(
@@ -4,7 +4,15 @@ import LoginPage from './pages/LoginPage';
 import CalendarPage from './pages/CalendarPage';
 import AdminPage from './pages/AdminPage';
 import OAuthCallbackPage from './pages/OAuthCallbackPage';
+import MagicLinkPage from './pages/MagicLinkPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import PendingApprovalPage from './pages/PendingApprovalPage';
+import InvitePage from './pages/InvitePage';
+import CheckInPage from './pages/CheckInPage';
+import OfficeScreenPage from './pages/OfficeScreenPage';
+import CustomerPage from './pages/CustomerPage';
 import ProtectedRoute from './components/ProtectedRoute';
+import { clearStoredSession, SESSION_REFRESHED_EVENT, SESSION_EXPIRED_EVENT } from './session';
 
 // Import all CSS files for global styling
 import './App.css';
@@ -18,11 +26,13 @@ import './user-approval-styles.css';
 import './calendar-page-styles.css';
 import './login-page-styles.css';
 
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
 interface User {
   id: number;
   username: string;
   fullName: string;
-  role: 'admin' | 'employee';
+  role: 'admin' | 'manager' | 'employee';
   employeeId: string;
 }
 
@@ -42,10 +52,44 @@ const App: React.FC = () => {
       setToken(savedToken);
       setUser(JSON.parse(savedUser));
       setIsAuthenticated(true);
+
+      // Pick up role changes made since the user was stored
+      fetch(`${API_URL}/auth/me`, {
+        headers: { 'Authorization': `Bearer ${savedToken}` }
+      })
+        .then(res => (res.ok ? res.json() : null))
+        .then(freshUser => {
+          if (freshUser) {
+            localStorage.setItem('user', JSON.stringify(freshUser));
+            setUser(freshUser);
+          }
+        })
+        .catch(err => console.error('Failed to refresh user:', err));
     }
     setIsLoading(false);
   }, []);
 
+  useEffect(() => {
+    const handleRefreshed = (event: Event) => {
+      setToken((event as CustomEvent<string>).detail);
+    };
+
+    // Logged out elsewhere, deactivated, or the refresh token ran out
+    const handleExpired = () => {
+      setToken(null);
+      setUser(null);
+      setIsAuthenticated(false);
+      navigate('/login');
+    };
+
+    window.addEventListener(SESSION_REFRESHED_EVENT, handleRefreshed);
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    return () => {
+      window.removeEventListener(SESSION_REFRESHED_EVENT, handleRefreshed);
+      window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired);
+    };
+  }, [navigate]);
+
   const handleLogin = (newToken: string, newUser: any) => {
     setToken(newToken);
     setUser(newUser);
@@ -53,8 +97,15 @@ const App: React.FC = () => {
   };
 
   const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+    // End the session on the server; the local logout does not wait for it
+    fetch(`${API_URL}/auth/logout`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken: localStorage.getItem('refreshToken') })
+    }).catch(err => console.error('Failed to end session:', err));
+
+    clearStoredSession();
     setToken(null);
     setUser(null);
     setIsAuthenticated(false);
@@ -95,6 +146,27 @@ const App: React.FC = () => {
         element={<OAuthCallbackPage onLogin={handleLogin} />}
       />
 
+      <Route
+        path="/auth/magic"
+        element={<MagicLinkPage onLogin={handleLogin} />}
+      />
+
+      <Route
+        path="/auth/verify-email"
+        element={<MagicLinkPage onLogin={handleLogin} verifyEmail />}
+      />
+
+      <Route path="/reset-password" element={<ResetPasswordPage />} />
+
+      <Route path="/pending" element={<PendingApprovalPage />} />
+
+      <Route
+        path="/invite"
+        element={<InvitePage onLogin={handleLogin} />}
+      />
+
+      <Route path="/office-screen" element={<OfficeScreenPage />} />
+
       {/* Protected Routes */}
       <Route
         path="/calendar"
@@ -109,12 +181,30 @@ const App: React.FC = () => {
         }
       />
 
+      <Route
+        path="/checkin"
+        element={
+          <ProtectedRoute isAuthenticated={isAuthenticated}>
+            <CheckInPage token={token!} />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/customers/:id"
+        element={
+          <ProtectedRoute isAuthenticated={isAuthenticated}>
+            <CustomerPage token={token!} />
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/admin"
         element={
           <ProtectedRoute
             isAuthenticated={isAuthenticated}
-            requiredRole="admin"
+            requiredRole={['admin', 'manager']}
             userRole={user?.role}
           >
             <AdminPage
@@ -20,11 +20,14 @@ interface DashboardStats {
 interface AdminDashboardProps {
   onViewEmployee: (employeeId: number) => void;
   onManageHolidays: () => void;
+  // Managers only get their team list; stats and activity are company-wide
+  isManager?: boolean;
 }
 
 const AdminDashboard: React.FC<AdminDashboardProps> = ({ 
   onViewEmployee,
-  onManageHolidays 
+  onManageHolidays,
+  isManager = false
 }) => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [stats, setStats] = useState<DashboardStats | null>(null);
@@ -52,6 +55,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
       const employeesData = await employeesRes.json();
       setEmployees(employeesData);
 
+      if (isManager) return;
+
       // Load stats
       const statsRes = await fetch(`${API_URL}/admin/dashboard`, { headers });
       const statsData = await statsRes.json();
@@ -89,13 +94,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     <div className="admin-dashboard">
       <div className="admin-header">
         <h1 className="admin-title">
-          <span className="admin-icon">👑</span>
-          ADMIN DASHBOARD
+          <span className="admin-icon">{isManager ? '🧭' : '👑'}</span>
+          {isManager ? 'TEAM DASHBOARD' : 'ADMIN DASHBOARD'}
         </h1>
-        <button className="btn-manage-holidays" onClick={onManageHolidays}>
-          <span className="btn-emoji">📅</span>
-          MANAGE HOLIDAYS
-        </button>
+        {!isManager && (
+          <button className="btn-manage-holidays" onClick={onManageHolidays}>
+            <span className="btn-emoji">📅</span>
+            MANAGE HOLIDAYS
+          </button>
+        )}
       </div>
 
       {/* Stats Cards */}
@@ -165,18 +172,20 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
       </div>
 
       {/* Activity Log */}
-      <div className="admin-section">
-        <h2 className="section-title">RECENT ACTIVITY</h2>
-        <div className="activity-log">
-          {activityLog.map((log, index) => (
-            <div key={index} className="activity-item">
-              <div className="activity-user">{log.full_name}</div>
-              <div className="activity-action">{log.action_details}</div>
-              <div className="activity-time">{formatDate(log.created_at)}</div>
-            </div>
-          ))}
+      {!isManager && (
+        <div className="admin-section">
+          <h2 className="section-title">RECENT ACTIVITY</h2>
+          <div className="activity-log">
+            {activityLog.map((log, index) => (
+              <div key={index} className="activity-item">
+                <div className="activity-user">{log.full_name}</div>
+                <div className="activity-action">{log.action_details}</div>
+                <div className="activity-time">{formatDate(log.created_at)}</div>
+              </div>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
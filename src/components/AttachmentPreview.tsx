@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import '../task-styles.css';
+
+interface AttachmentPreviewProps {
+    token: string;
+    // Authenticated download endpoint of the stored file
+    url: string;
+    fileName: string;
+    fileType: string | null;
+    onDelete?: () => void;
+}
+
+const isImage = (fileType: string | null) => !!fileType && fileType.startsWith('image/');
+
+// Stored files need the auth header, so they are fetched as blobs rather than linked directly
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ token, url, fileName, fileType, onDelete }) => {
+    const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isImage(fileType)) return;
+
+        let objectUrl: string | null = null;
+        let cancelled = false;
+
+        fetch(`${url}?inline=1`, { headers: { 'Authorization': `Bearer ${token}` } })
+            .then(res => (res.ok ? res.blob() : null))
+            .then(blob => {
+                if (!blob || cancelled) return;
+                objectUrl = URL.createObjectURL(blob);
+                setThumbnailUrl(objectUrl);
+            })
+            .catch(err => console.error('Error loading preview:', err));
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [url, token, fileType]);
+
+    const openFile = async () => {
+        try {
+            const response = await fetch(`${url}?inline=1`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to open file');
+            }
+
+            const blob = await response.blob();
+            const objectUrl = URL.createObjectURL(blob);
+
+            // Images and PDFs open in a tab; anything else downloads under its own name
+            if (isImage(fileType) || fileType === 'application/pdf') {
+                window.open(objectUrl, '_blank', 'noopener');
+            } else {
+                const link = document.createElement('a');
+                link.href = objectUrl;
+                link.download = fileName;
+                link.click();
+            }
+
+            setTimeout(() => URL.revokeObjectURL(objectUrl), 60000);
+        } catch (error) {
+            console.error('Error opening attachment:', error);
+        }
+    };
+
+    return (
+        <div className="attachment-preview">
+            <button type="button" className="attachment-preview-open" onClick={openFile} title={fileName}>
+                {thumbnailUrl ? (
+                    <img src={thumbnailUrl} alt={fileName} />
+                ) : (
+                    <span className="attachment-preview-icon">{fileType === 'application/pdf' ? '📄' : '📎'}</span>
+                )}
+                <span className="attachment-preview-name">{fileName}</span>
+            </button>
+            {onDelete && (
+                <button type="button" className="attachment-preview-delete" onClick={onDelete} title="Remove">
+                    ×
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default AttachmentPreview;
@@ -6,7 +6,7 @@ interface AttendanceModalProps {
     onClose: () => void;
     date: { year: number; month: number; day: number } | null;
     token: string;
-    userRole: 'admin' | 'employee';
+    userRole: 'admin' | 'manager' | 'employee';
     userId?: number;
     userDepartment?: string;
 }
@@ -21,6 +21,38 @@ interface AttendanceData {
     total_hours: number | null;
     notes: string;
     marked_by_admin: boolean;
+    late_minutes?: number | null;
+    early_leave_minutes?: number | null;
+    overtime_minutes?: number | null;
+}
+
+interface Shift {
+    name: string;
+    start_time: string;
+    end_time: string;
+    grace_minutes: number;
+}
+
+interface AttendanceCorrection {
+    id: number;
+    attendance_date: string;
+    proposed_status: AttendanceStatus;
+    proposed_start: string | null;
+    proposed_end: string | null;
+    reason: string;
+    status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+    rejection_reason: string | null;
+}
+
+interface OvertimeRequest {
+    id: number;
+    attendance_date: string;
+    overtime_minutes: number;
+    justification: string | null;
+    status: 'awaiting_justification' | 'pending' | 'approved' | 'rejected';
+    approved_minutes: number | null;
+    compensation: 'payable' | 'comp_off' | null;
+    rejection_reason: string | null;
 }
 
 const AttendanceModal: React.FC<AttendanceModalProps> = ({
@@ -47,12 +79,25 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
     const [isSiteVisit, setIsSiteVisit] = useState(false);
     const [showExpenseModal, setShowExpenseModal] = useState(false);
     const [attendanceId, setAttendanceId] = useState<number | null>(null);
+    const [compOffsAvailable, setCompOffsAvailable] = useState(0);
+    const [isRedeeming, setIsRedeeming] = useState(false);
+    const [isCorrecting, setIsCorrecting] = useState(false);
+    const [correctionReason, setCorrectionReason] = useState('');
+    const [correction, setCorrection] = useState<AttendanceCorrection | null>(null);
+    const [shift, setShift] = useState<Shift | null>(null);
+    const [overtime, setOvertime] = useState<OvertimeRequest | null>(null);
+    const [overtimeReason, setOvertimeReason] = useState('');
+    const [isJustifying, setIsJustifying] = useState(false);
 
     const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
     useEffect(() => {
         if (isOpen && date) {
             loadExistingAttendance();
+            loadCompOffs();
+            loadCorrection();
+            loadShift();
+            loadOvertime();
         }
     }, [isOpen, date]);
 
@@ -94,6 +139,115 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
         }
     };
 
+    // Comp-off credits belong to the logged-in user, so skip when viewing someone else
+    const loadCompOffs = async () => {
+        if (userId) {
+            setCompOffsAvailable(0);
+            return;
+        }
+
+        try {
+            const response = await fetch(`${API_URL}/comp-offs`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (!response.ok) return;
+            const data = await response.json();
+            setCompOffsAvailable(data.available || 0);
+        } catch (err) {
+            console.error('Error loading comp-offs:', err);
+        }
+    };
+
+    // Latest correction request for this day (own calendar only)
+    const loadCorrection = async () => {
+        if (!date || userId || userRole === 'admin') return;
+
+        try {
+            const response = await fetch(`${API_URL}/attendance/corrections`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (!response.ok) return;
+            const data: AttendanceCorrection[] = await response.json();
+
+            const dateStr = `${date.year}-${String(date.month + 1).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+            setCorrection(data.find(c => c.attendance_date.startsWith(dateStr) && c.status !== 'cancelled') || null);
+            setIsCorrecting(false);
+            setCorrectionReason('');
+        } catch (err) {
+            console.error('Error loading corrections:', err);
+        }
+    };
+
+    // Shift of the logged-in user; other people's figures come with their attendance
+    const loadShift = async () => {
+        if (userId) return;
+
+        try {
+            const response = await fetch(`${API_URL}/shifts/mine`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (!response.ok) return;
+            setShift(await response.json());
+        } catch (err) {
+            console.error('Error loading shift:', err);
+        }
+    };
+
+    // Overtime request for this day (own calendar only)
+    const loadOvertime = async () => {
+        if (!date || userId) return;
+
+        try {
+            const response = await fetch(`${API_URL}/overtime`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (!response.ok) return;
+            const data: { requests: OvertimeRequest[] } = await response.json();
+
+            const dateStr = `${date.year}-${String(date.month + 1).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+            const request = data.requests.find(o => o.attendance_date.startsWith(dateStr)) || null;
+            setOvertime(request);
+            setOvertimeReason(request?.justification || '');
+        } catch (err) {
+            console.error('Error loading overtime:', err);
+        }
+    };
+
+    const handleJustifyOvertime = async () => {
+        if (!overtime) return;
+
+        if (!overtimeReason.trim()) {
+            setError('Please explain the overtime');
+            return;
+        }
+
+        setIsJustifying(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/overtime/${overtime.id}/justify`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ justification: overtimeReason })
+            });
+
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || 'Failed to send overtime for approval');
+
+            setOvertime(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to send overtime for approval');
+        } finally {
+            setIsJustifying(false);
+        }
+    };
+
+    const formatMinutes = (minutes: number) =>
+        minutes >= 60 ? `${Math.floor(minutes / 60)}H ${String(minutes % 60).padStart(2, '0')}M` : `${minutes}M`;
+
     const getCurrentTime = () => {
         const now = new Date();
         return `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
@@ -113,10 +267,131 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
         return isToday(); // Employees can only mark today
     };
 
+    // Employees fix past or already-marked days through a correction request
+    const canRequestCorrection = () => {
+        if (!date || userId || userRole === 'admin' || canEdit()) return false;
+        if (correction?.status === 'pending') return false;
+
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        return new Date(date.year, date.month, date.day) <= today;
+    };
+
+    const handleCancelCorrection = async () => {
+        if (!correction) return;
+
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/attendance/corrections/${correction.id}/cancel`, {
+                method: 'PUT',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Failed to cancel correction');
+            }
+
+            setCorrection(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to cancel correction');
+        }
+    };
+
+    const submitCorrection = async () => {
+        if (!date) return;
+
+        if (!correctionReason.trim()) {
+            setError('Please explain why this day needs correcting');
+            return;
+        }
+
+        setIsLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/attendance/corrections`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({
+                    date: `${date.year}-${String(date.month + 1).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`,
+                    status: attendance.status,
+                    checkIn: attendance.check_in_time || null,
+                    checkOut: attendance.check_out_time || null,
+                    reason: correctionReason
+                })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to submit correction');
+
+            setCorrection(data);
+            setIsCorrecting(false);
+            setCorrectionReason('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to submit correction');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Comp-offs can be used on today or a future weekday not already worked
+    const canUseCompOff = () => {
+        if (!date || userId || compOffsAvailable === 0) return false;
+        if (existingAttendance && existingAttendance.status !== 'absent') return false;
+
+        const day = new Date(date.year, date.month, date.day);
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        return day >= today && day.getDay() !== 0 && day.getDay() !== 6;
+    };
+
+    const handleUseCompOff = async () => {
+        if (!date) return;
+
+        setIsRedeeming(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/comp-offs/redeem`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({
+                    date: `${date.year}-${String(date.month + 1).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`
+                })
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Failed to use comp-off');
+            }
+
+            onClose();
+            window.location.reload(); // Refresh to show updated calendar
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to use comp-off');
+        } finally {
+            setIsRedeeming(false);
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!date) return;
 
+        if (isCorrecting) {
+            await submitCorrection();
+            return;
+        }
+
         setIsLoading(true);
         setError('');
 
@@ -172,6 +447,8 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
 
     if (!isOpen || !date) return null;
 
+    const isEditable = canEdit() || isCorrecting;
+
     const dateStr = `${date.year}-${String(date.month + 1).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
     const dateDisplay = new Date(date.year, date.month, date.day).toLocaleDateString('en-US', {
         weekday: 'long',
@@ -186,13 +463,34 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
                 <div className="modal-header">
                     <h2>{existingAttendance ? '✏️ EDIT ATTENDANCE' : '✓ MARK ATTENDANCE'}</h2>
                     <p className="modal-date">{dateDisplay}</p>
-                    {!canEdit() && (
+                    {!canEdit() && !isCorrecting && (
                         <div className="permission-notice">
-                            {userRole === 'employee' && existingAttendance ?
-                                '🔒 Already marked - Contact admin to edit' :
+                            {userRole !== 'admin' && existingAttendance ?
+                                '🔒 Already marked - Request a correction to change it' :
                                 '🔒 Employees can only mark today\'s attendance'}
                         </div>
                     )}
+                    {isCorrecting && (
+                        <div className="correction-notice">
+                            ✏️ Propose the right values - an admin or your manager will review them
+                        </div>
+                    )}
+                    {(shift || existingAttendance?.late_minutes != null) && (
+                        <div className="shift-summary">
+                            {shift && !userId && (
+                                <span>🕘 {shift.name.toUpperCase()} {shift.start_time.substring(0, 5)}–{shift.end_time.substring(0, 5)}</span>
+                            )}
+                            {existingAttendance?.late_minutes ? (
+                                <span className="shift-late">⚠️ LATE {formatMinutes(existingAttendance.late_minutes)}</span>
+                            ) : null}
+                            {existingAttendance?.early_leave_minutes ? (
+                                <span className="shift-late">🏃 LEFT {formatMinutes(existingAttendance.early_leave_minutes)} EARLY</span>
+                            ) : null}
+                            {existingAttendance?.overtime_minutes ? (
+                                <span className="shift-overtime">➕ OVERTIME {formatMinutes(existingAttendance.overtime_minutes)}</span>
+                            ) : null}
+                        </div>
+                    )}
                     {attendance.marked_by_admin && (
                         <div className="admin-badge">👑 Edited by Admin</div>
                     )}
@@ -212,7 +510,7 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
                                     type="button"
                                     className={`status-btn ${attendance.status === status ? 'active' : ''}`}
                                     onClick={() => setAttendance({ ...attendance, status })}
-                                    disabled={!canEdit()}
+                                    disabled={!isEditable}
                                 >
                                     {status === 'present' && '✅ PRESENT'}
                                     {status === 'absent' && '❌ ABSENT'}
@@ -235,13 +533,13 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
                                             value={attendance.check_in_time}
                                             onChange={(e) => setAttendance({ ...attendance, check_in_time: e.target.value })}
                                             className="time-input"
-                                            disabled={!canEdit()}
+                                            disabled={!isEditable}
                                         />
                                         <button
                                             type="button"
                                             onClick={() => handleAutoCapture('in')}
                                             className="btn-auto-capture"
-                                            disabled={!canEdit()}
+                                            disabled={!isEditable}
                                         >
                                             NOW
                                         </button>
@@ -256,13 +554,13 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
                                             value={attendance.check_out_time}
                                             onChange={(e) => setAttendance({ ...attendance, check_out_time: e.target.value })}
                                             className="time-input"
-                                            disabled={!canEdit()}
+                                            disabled={!isEditable}
                                         />
                                         <button
                                             type="button"
                                             onClick={() => handleAutoCapture('out')}
                                             className="btn-auto-capture"
-                                            disabled={!canEdit()}
+                                            disabled={!isEditable}
                                         >
                                             NOW
                                         </button>
@@ -278,20 +576,34 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
                         </>
                     )}
 
-                    <div className="form-group">
-                        <label>NOTES (OPTIONAL)</label>
-                        <textarea
-                            value={attendance.notes}
-                            onChange={(e) => setAttendance({ ...attendance, notes: e.target.value })}
-                            placeholder="Reason for late arrival, work summary, etc..."
-                            rows={3}
-                            className="notes-textarea"
-                            disabled={!canEdit()}
-                        />
-                    </div>
+                    {isCorrecting ? (
+                        <div className="form-group">
+                            <label>REASON FOR CORRECTION</label>
+                            <textarea
+                                value={correctionReason}
+                                onChange={(e) => setCorrectionReason(e.target.value)}
+                                placeholder="Forgot to check in, marked the wrong status, etc..."
+                                rows={3}
+                                className="notes-textarea"
+                                required
+                            />
+                        </div>
+                    ) : (
+                        <div className="form-group">
+                            <label>NOTES (OPTIONAL)</label>
+                            <textarea
+                                value={attendance.notes}
+                                onChange={(e) => setAttendance({ ...attendance, notes: e.target.value })}
+                                placeholder="Reason for late arrival, work summary, etc..."
+                                rows={3}
+                                className="notes-textarea"
+                                disabled={!isEditable}
+                            />
+                        </div>
+                    )}
 
                     {/* Site Visit Option for Calibration Department */}
-                    {userDepartment === 'Calibration' && (attendance.status === 'present' || attendance.status === 'wfh') && (
+                    {userDepartment === 'Calibration' && !isCorrecting && (attendance.status === 'present' || attendance.status === 'wfh') && (
                         <div className="form-group" style={{
                             background: 'var(--day-today)',
                             border: '3px solid var(--border)',
@@ -302,7 +614,7 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
                                 display: 'flex',
                                 alignItems: 'center',
                                 gap: '12px',
-                                cursor: canEdit() ? 'pointer' : 'not-allowed',
+                                cursor: isEditable ? 'pointer' : 'not-allowed',
                                 fontSize: '0.6rem',
                                 letterSpacing: '1px'
                             }}>
@@ -310,8 +622,8 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
                                     type="checkbox"
                                     checked={isSiteVisit}
                                     onChange={(e) => setIsSiteVisit(e.target.checked)}
-                                    disabled={!canEdit()}
-                                    style={{ width: '20px', height: '20px', cursor: canEdit() ? 'pointer' : 'not-allowed' }}
+                                    disabled={!isEditable}
+                                    style={{ width: '20px', height: '20px', cursor: isEditable ? 'pointer' : 'not-allowed' }}
                                 />
                                 <span>🔧 SITE VISIT (Add expenses after marking)</span>
                             </label>
@@ -329,21 +641,111 @@ const AttendanceModal: React.FC<AttendanceModalProps> = ({
                         </div>
                     )}
 
+                    {canUseCompOff() && (
+                        <div className="comp-off-section">
+                            <span>🎁 {compOffsAvailable} COMP-OFF{compOffsAvailable > 1 ? 'S' : ''} AVAILABLE</span>
+                            <button
+                                type="button"
+                                onClick={handleUseCompOff}
+                                className="btn-comp-off"
+                                disabled={isRedeeming}
+                            >
+                                {isRedeeming ? 'APPLYING...' : 'TAKE THIS DAY OFF'}
+                            </button>
+                        </div>
+                    )}
+
+                    {correction && !isCorrecting && (
+                        <div className={`correction-section ${correction.status}`}>
+                            <span>
+                                {correction.status === 'pending' && '⏳ CORRECTION PENDING'}
+                                {correction.status === 'approved' && '✅ CORRECTION APPROVED'}
+                                {correction.status === 'rejected' && '❌ CORRECTION REJECTED'}
+                                <br />
+                                <small>
+                                    {correction.proposed_status.replace('_', ' ').toUpperCase()}
+                                    {correction.proposed_start && ` ${correction.proposed_start.substring(0, 5)}`}
+                                    {correction.proposed_end && `-${correction.proposed_end.substring(0, 5)}`}
+                                    {correction.rejection_reason && ` • ${correction.rejection_reason}`}
+                                </small>
+                            </span>
+                            {correction.status === 'pending' && (
+                                <button
+                                    type="button"
+                                    onClick={handleCancelCorrection}
+                                    className="btn-comp-off"
+                                >
+                                    WITHDRAW
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {overtime && !isCorrecting && (
+                        <div className={`overtime-section ${overtime.status}`}>
+                            <span>
+                                {overtime.status === 'awaiting_justification' && `⏰ ${formatMinutes(overtime.overtime_minutes)} OVERTIME - ADD A REASON`}
+                                {overtime.status === 'pending' && `⏳ ${formatMinutes(overtime.overtime_minutes)} OVERTIME PENDING`}
+                                {overtime.status === 'approved' && `✅ ${formatMinutes(overtime.approved_minutes || 0)} OVERTIME APPROVED`}
+                                {overtime.status === 'rejected' && '❌ OVERTIME REJECTED'}
+                                {(overtime.status === 'approved' || overtime.status === 'rejected') && (
+                                    <>
+                                        <br />
+                                        <small>
+                                            {overtime.compensation === 'payable' && 'Paid with salary'}
+                                            {overtime.compensation === 'comp_off' && 'Banked for comp-off'}
+                                            {overtime.rejection_reason}
+                                        </small>
+                                    </>
+                                )}
+                            </span>
+                            {(overtime.status === 'awaiting_justification' || overtime.status === 'pending') && (
+                                <>
+                                    <textarea
+                                        value={overtimeReason}
+                                        onChange={(e) => setOvertimeReason(e.target.value)}
+                                        placeholder="Why did you stay late? e.g. urgent calibration job..."
+                                        rows={2}
+                                        className="notes-textarea"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={handleJustifyOvertime}
+                                        className="btn-comp-off"
+                                        disabled={isJustifying}
+                                    >
+                                        {isJustifying ? 'SENDING...' : overtime.status === 'pending' ? 'UPDATE REASON' : 'SEND FOR APPROVAL'}
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    )}
+
                     <div className="modal-actions">
                         <button
                             type="button"
-                            onClick={onClose}
+                            onClick={isCorrecting ? () => setIsCorrecting(false) : onClose}
                             className="btn-cancel"
                         >
                             CANCEL
                         </button>
-                        <button
-                            type="submit"
-                            className="btn-submit"
-                            disabled={isLoading || !canEdit()}
-                        >
-                            {isLoading ? 'SAVING...' : (existingAttendance ? 'UPDATE' : 'MARK PRESENT')}
-                        </button>
+                        {canRequestCorrection() && !isCorrecting ? (
+                            <button
+                                type="button"
+                                onClick={() => setIsCorrecting(true)}
+                                className="btn-submit"
+                            >
+                                ✏️ REQUEST CORRECTION
+                            </button>
+                        ) : (
+                            <button
+                                type="submit"
+                                className="btn-submit"
+                                disabled={isLoading || !isEditable}
+                            >
+                                {isLoading ? 'SAVING...' : isCorrecting ? 'SEND REQUEST' : (existingAttendance ? 'UPDATE' : 'MARK PRESENT')}
+                            </button>
+                        )}
                     </div>
                 </form>
             </div>
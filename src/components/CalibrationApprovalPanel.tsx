@@ -1,6 +1,25 @@
 import React, { useState, useEffect } from 'react';
+import AttachmentPreview from './AttachmentPreview';
 import '../calibration-styles.css';
 
+interface PolicyViolation {
+    code: 'type' | 'daily_cap' | 'mileage' | 'receipt';
+    message: string;
+}
+
+interface ExpenseItem {
+    id: number;
+    expense_type: string;
+    amount: string;
+    description: string | null;
+    vendor: string | null;
+    distance_km: string | null;
+    has_receipt: boolean;
+    receipt_file_name: string | null;
+    receipt_file_type: string | null;
+    violations: PolicyViolation[];
+}
+
 interface PendingApproval {
     id: number;
     user_id: number;
@@ -15,6 +34,9 @@ interface PendingApproval {
     submitted_at: string;
     total_expenses: number;
     expense_count: number;
+    expenses: ExpenseItem[];
+    policy_violation_count: number;
+    missing_required_receipts: number;
 }
 
 const CalibrationApprovalPanel: React.FC = () => {
@@ -51,17 +73,32 @@ const CalibrationApprovalPanel: React.FC = () => {
         }
     };
 
-    const handleApprove = async (id: number, fullName: string, amount: number) => {
-        if (!window.confirm(`Approve expense of ₹${amount.toFixed(2)} for ${fullName}?`)) {
+    const handleApprove = async (approval: PendingApproval, acknowledgeViolations = false) => {
+        const amount = parseFloat(approval.total_expenses.toString());
+        const outsidePolicy = approval.policy_violation_count
+            ? `\n\n⚠️ ${approval.policy_violation_count} expense(s) break the expense policy:\n` +
+                approval.expenses
+                    .filter(expense => expense.violations.length > 0)
+                    .map(expense => `• ${expense.expense_type} ₹${expense.amount}: ${expense.violations.map(v => v.message).join('; ')}`)
+                    .join('\n')
+            : '';
+
+        if (!acknowledgeViolations &&
+            !window.confirm(`Approve expense of ₹${amount.toFixed(2)} for ${approval.full_name}?${outsidePolicy}`)) {
             return;
         }
 
         const token = localStorage.getItem('token');
 
         try {
-            const res = await fetch(`/api/admin/calibration/approve/${id}`, {
+            const res = await fetch(`/api/admin/calibration/approve/${approval.id}`, {
                 method: 'PUT',
-                headers: { 'Authorization': `Bearer ${token}` }
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                // Confirming the dialog above already covers the breaches it listed
+                body: JSON.stringify({ acknowledgeViolations: acknowledgeViolations || !!outsidePolicy })
             });
 
             if (res.ok) {
@@ -69,6 +106,18 @@ const CalibrationApprovalPanel: React.FC = () => {
                 loadPendingApprovals();
             } else {
                 const data = await res.json();
+
+                // The claim or the policy changed since the list was loaded
+                if (res.status === 409 && data.requiresConfirmation) {
+                    const items = (data.violations as { expense_type: string; amount: string; messages: string[] }[])
+                        .map(item => `• ${item.expense_type} ₹${item.amount}: ${item.messages.join('; ')}`)
+                        .join('\n');
+                    if (window.confirm(`${data.error}:\n${items}\n\nApprove anyway?`)) {
+                        handleApprove(approval, true);
+                    }
+                    return;
+                }
+
                 alert(`Failed to approve: ${data.error}`);
             }
         } catch (err) {
@@ -157,6 +206,12 @@ const CalibrationApprovalPanel: React.FC = () => {
                                     <p className="approval-gauges">
                                         ⚙️ {approval.num_gauges} gauges • {approval.expense_count} expense items
                                     </p>
+                                    {approval.policy_violation_count > 0 && (
+                                        <p className="approval-receipt-warning">
+                                            ⚠️ {approval.policy_violation_count} expense(s) outside policy
+                                            {approval.missing_required_receipts > 0 && ` • ${approval.missing_required_receipts} missing receipt(s)`}
+                                        </p>
+                                    )}
                                 </div>
                                 <div className="approval-amount">
                                     <div className="amount-label">Total</div>
@@ -169,6 +224,46 @@ const CalibrationApprovalPanel: React.FC = () => {
 
                             {selectedApproval === approval.id && (
                                 <div className="approval-details">
+                                    <div className="detail-section">
+                                        <h4>Expenses</h4>
+                                        <div className="approval-expense-list">
+                                            {approval.expenses.map(expense => (
+                                                <div
+                                                    key={expense.id}
+                                                    className={`approval-expense-item ${expense.violations.length > 0 ? 'policy-violation' : ''}`}
+                                                >
+                                                    <div className="approval-expense-info">
+                                                        <strong>{expense.expense_type} - ₹{parseFloat(expense.amount).toFixed(2)}</strong>
+                                                        {(expense.vendor || expense.description || expense.distance_km) && (
+                                                            <span>
+                                                                {[
+                                                                    expense.distance_km && `${parseFloat(expense.distance_km)} km`,
+                                                                    expense.vendor,
+                                                                    expense.description
+                                                                ].filter(Boolean).join(' • ')}
+                                                            </span>
+                                                        )}
+                                                        {expense.violations.map(violation => (
+                                                            <span key={violation.code} className="approval-policy-warning">
+                                                                ⚠️ {violation.message}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                    {expense.has_receipt && expense.receipt_file_name ? (
+                                                        <AttachmentPreview
+                                                            token={localStorage.getItem('token') || ''}
+                                                            url={`/api/admin/calibration/expenses/${expense.id}/receipt`}
+                                                            fileName={expense.receipt_file_name}
+                                                            fileType={expense.receipt_file_type}
+                                                        />
+                                                    ) : (
+                                                        <span className="approval-no-receipt">No receipt</span>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+
                                     <div className="detail-section">
                                         <h4>Visit Summary</h4>
                                         <p>{approval.visit_summary || 'No summary provided'}</p>
@@ -188,11 +283,7 @@ const CalibrationApprovalPanel: React.FC = () => {
                                     <div className="approval-actions">
                                         <button
                                             className="btn-approve"
-                                            onClick={() => handleApprove(
-                                                approval.id,
-                                                approval.full_name,
-                                                parseFloat(approval.total_expenses.toString())
-                                            )}
+                                            onClick={() => handleApprove(approval)}
                                         >
                                             ✓ Approve
                                         </button>
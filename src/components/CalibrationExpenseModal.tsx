@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import AttachmentPreview from './AttachmentPreview';
 import '../calibration-styles.css';
 
 interface CalibrationExpenseModalProps {
@@ -15,6 +16,24 @@ interface Expense {
     amount: string;
     description: string;
     notes: string;
+    vendor: string;
+    // Kilometres for own-vehicle mileage
+    distanceKm: string;
+    // Receipt already stored on the server
+    receiptFileName?: string | null;
+    receiptFileType?: string | null;
+    // Receipt picked for an expense that isn't saved yet
+    receiptFile?: File | null;
+}
+
+interface ExpensePolicy {
+    expense_type: string;
+    label: string;
+    aliases: string[];
+    calculation: 'amount' | 'per_diem' | 'mileage';
+    daily_cap: string | null;
+    rate_per_km: string | null;
+    receipt_required_above: number;
 }
 
 interface SiteVisitData {
@@ -39,22 +58,24 @@ const CalibrationExpenseModal: React.FC<CalibrationExpenseModalProps> = ({
         numGauges: '0',
         visitSummary: '',
         conclusion: '',
-        expenses: [{ type: '', amount: '', description: '', notes: '' }]
+        expenses: [{ type: '', amount: '', description: '', notes: '', vendor: '', distanceKm: '' }]
     });
 
     const [autocomplete, setAutocomplete] = useState<{
         locations: string[];
         companies: string[];
-        expenseTypes: string[];
     }>({
         locations: [],
-        companies: [],
-        expenseTypes: []
+        companies: []
     });
 
+    // Allowed expense types and their limits
+    const [policies, setPolicies] = useState<ExpensePolicy[]>([]);
+
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [scanningIndex, setScanningIndex] = useState<number | null>(null);
 
     useEffect(() => {
         if (isOpen) {
@@ -67,25 +88,29 @@ const CalibrationExpenseModal: React.FC<CalibrationExpenseModalProps> = ({
         const token = localStorage.getItem('token');
 
         try {
-            const [locationsRes, companiesRes, typesRes] = await Promise.all([
+            const [locationsRes, companiesRes, policiesRes] = await Promise.all([
                 fetch('/api/calibration/autocomplete?type=location', {
                     headers: { 'Authorization': `Bearer ${token}` }
                 }),
                 fetch('/api/calibration/autocomplete?type=company', {
                     headers: { 'Authorization': `Bearer ${token}` }
                 }),
-                fetch('/api/calibration/autocomplete?type=expense_type', {
+                fetch('/api/calibration/expense-policies', {
                     headers: { 'Authorization': `Bearer ${token}` }
                 })
             ]);
 
-            if (locationsRes.ok && companiesRes.ok && typesRes.ok) {
+            if (locationsRes.ok && companiesRes.ok) {
                 setAutocomplete({
                     locations: await locationsRes.json(),
-                    companies: await companiesRes.json(),
-                    expenseTypes: await typesRes.json()
+                    companies: await companiesRes.json()
                 });
             }
+
+            if (policiesRes.ok) {
+                const data = await policiesRes.json();
+                setPolicies(data.policies);
+            }
         } catch (err) {
             console.error('Failed to load autocomplete data:', err);
         }
@@ -112,8 +137,12 @@ const CalibrationExpenseModal: React.FC<CalibrationExpenseModalProps> = ({
                         type: exp.type,
                         amount: exp.amount.toString(),
                         description: exp.description || '',
-                        notes: exp.notes || ''
-                    })) || [{ type: '', amount: '', description: '', notes: '' }]
+                        notes: exp.notes || '',
+                        vendor: exp.vendor || '',
+                        distanceKm: exp.distance_km ? parseFloat(exp.distance_km).toString() : '',
+                        receiptFileName: exp.has_receipt ? exp.receipt_file_name : null,
+                        receiptFileType: exp.has_receipt ? exp.receipt_file_type : null
+                    })) || [{ type: '', amount: '', description: '', notes: '', vendor: '', distanceKm: '' }]
                 });
             }
         } catch (err) {
@@ -134,10 +163,140 @@ const CalibrationExpenseModal: React.FC<CalibrationExpenseModalProps> = ({
         }));
     };
 
+    // Same matching as the server: type key, label or alias, ignoring case
+    const findPolicy = (type: string) => {
+        const text = type.trim().toLowerCase();
+        return policies.find(p =>
+            p.expense_type === text || p.label.toLowerCase() === text || p.aliases.includes(text)
+        );
+    };
+
+    // Mileage is priced from the distance
+    const handleDistanceChange = (index: number, value: string) => {
+        setFormData(prev => ({
+            ...prev,
+            expenses: prev.expenses.map((exp, i) => {
+                if (i !== index) return exp;
+                const rate = parseFloat(findPolicy(exp.type)?.rate_per_km || '0');
+                const km = parseFloat(value);
+                return {
+                    ...exp,
+                    distanceKm: value,
+                    amount: km > 0 && rate > 0 ? (Math.round(km * rate * 100) / 100).toString() : exp.amount
+                };
+            })
+        }));
+    };
+
+    const policyHint = (policy: ExpensePolicy): string => {
+        const hints = [];
+        if (policy.calculation === 'per_diem') hints.push('Daily per-diem by city');
+        if (policy.calculation === 'mileage') hints.push(`₹${policy.rate_per_km}/km`);
+        if (policy.daily_cap) hints.push(`Max ₹${parseFloat(policy.daily_cap)}/day`);
+        hints.push(policy.receipt_required_above > 0
+            ? `Receipt above ₹${policy.receipt_required_above}`
+            : 'Receipt required');
+        return hints.join(' • ');
+    };
+
+    const uploadReceipt = async (expenseId: number, file: File) => {
+        const token = localStorage.getItem('token');
+        const body = new FormData();
+        body.append('receipt', file);
+
+        const res = await fetch(`/api/calibration/expenses/${expenseId}/receipt`, {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${token}` },
+            body
+        });
+
+        const data = await res.json();
+        if (!res.ok) {
+            throw new Error(data.error || 'Failed to upload receipt');
+        }
+        return data;
+    };
+
+    // Saved expenses get the receipt right away; new ones keep it until the
+    // site visit is saved. Either way OCR (when enabled) fills blank fields.
+    const handleReceiptSelect = async (index: number, file: File) => {
+        const expense = formData.expenses[index];
+        const token = localStorage.getItem('token');
+        setScanningIndex(index);
+        setError('');
+
+        try {
+            let ocr: { amount: number | null; vendor: string | null } | null = null;
+
+            if (expense.id) {
+                const data = await uploadReceipt(expense.id, file);
+                ocr = data.ocr;
+            } else {
+                const body = new FormData();
+                body.append('receipt', file);
+
+                const res = await fetch('/api/calibration/receipts/scan', {
+                    method: 'POST',
+                    headers: { 'Authorization': `Bearer ${token}` },
+                    body
+                });
+
+                if (res.ok) {
+                    const data = await res.json();
+                    if (data.available) ocr = data;
+                }
+            }
+
+            setFormData(prev => ({
+                ...prev,
+                expenses: prev.expenses.map((exp, i) => {
+                    if (i !== index) return exp;
+                    return {
+                        ...exp,
+                        amount: exp.amount || (ocr?.amount ? ocr.amount.toString() : ''),
+                        vendor: exp.vendor || ocr?.vendor || '',
+                        ...(exp.id
+                            ? { receiptFileName: file.name, receiptFileType: file.type }
+                            : { receiptFile: file })
+                    };
+                })
+            }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to read receipt');
+        } finally {
+            setScanningIndex(null);
+        }
+    };
+
+    const removeReceipt = async (index: number) => {
+        const expense = formData.expenses[index];
+
+        if (expense.id && expense.receiptFileName) {
+            const token = localStorage.getItem('token');
+            const res = await fetch(`/api/calibration/expenses/${expense.id}/receipt`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Failed to remove receipt');
+                return;
+            }
+        }
+
+        setFormData(prev => ({
+            ...prev,
+            expenses: prev.expenses.map((exp, i) =>
+                i === index ? { ...exp, receiptFile: null, receiptFileName: null, receiptFileType: null } : exp
+            )
+        }));
+    };
+
     const addExpenseRow = () => {
         setFormData(prev => ({
             ...prev,
-            expenses: [...prev.expenses, { type: '', amount: '', description: '', notes: '' }]
+            expenses: [...prev.expenses, { type: '', amount: '', description: '', notes: '', vendor: '', distanceKm: '' }]
         }));
     };
 
@@ -177,6 +336,22 @@ const CalibrationExpenseModal: React.FC<CalibrationExpenseModalProps> = ({
             return false;
         }
 
+        if (policies.length > 0) {
+            const notAllowed = validExpenses.find(exp => !findPolicy(exp.type));
+            if (notAllowed) {
+                setError(`"${notAllowed.type}" is not an allowed expense type`);
+                return false;
+            }
+
+            const noDistance = validExpenses.find(exp =>
+                findPolicy(exp.type)?.calculation === 'mileage' && !(parseFloat(exp.distanceKm) > 0)
+            );
+            if (noDistance) {
+                setError(`Enter the distance in km for ${noDistance.type}`);
+                return false;
+            }
+        }
+
         setError('');
         return true;
     };
@@ -210,12 +385,30 @@ const CalibrationExpenseModal: React.FC<CalibrationExpenseModalProps> = ({
                         type: exp.type,
                         amount: parseFloat(exp.amount),
                         description: exp.description,
-                        notes: exp.notes
+                        notes: exp.notes,
+                        vendor: exp.vendor,
+                        distanceKm: parseFloat(exp.distanceKm) || null
                     }))
                 })
             });
 
             if (res.ok) {
+                const data = await res.json();
+
+                // Receipts follow once the expenses have ids (same order as sent)
+                const pending = validExpenses
+                    .map((exp, i) => ({ file: exp.receiptFile, expenseId: data.expenseIds?.[i] }))
+                    .filter((item): item is { file: File; expenseId: number } => !!item.file && !!item.expenseId);
+
+                const results = await Promise.allSettled(
+                    pending.map(item => uploadReceipt(item.expenseId, item.file))
+                );
+
+                const failed = results.filter(result => result.status === 'rejected').length;
+                if (failed > 0) {
+                    alert(`Site visit saved, but ${failed} receipt(s) failed to upload. Open the day again to retry.`);
+                }
+
                 onSuccess();
                 onClose();
             } else {
@@ -364,8 +557,8 @@ const CalibrationExpenseModal: React.FC<CalibrationExpenseModalProps> = ({
                                             placeholder="cab, food, materials"
                                         />
                                         <datalist id="expense-types-list">
-                                            {autocomplete.expenseTypes.map((type, i) => (
-                                                <option key={i} value={type} />
+                                            {policies.map(policy => (
+                                                <option key={policy.expense_type} value={policy.label} />
                                             ))}
                                         </datalist>
                                     </div>
@@ -399,6 +592,15 @@ const CalibrationExpenseModal: React.FC<CalibrationExpenseModalProps> = ({
                                         />
                                     </div>
 
+                                    <div className="expense-field expense-vendor">
+                                        <input
+                                            type="text"
+                                            value={expense.vendor}
+                                            onChange={(e) => handleExpenseChange(index, 'vendor', e.target.value)}
+                                            placeholder="Vendor"
+                                        />
+                                    </div>
+
                                     <button
                                         type="button"
                                         className="remove-expense-btn"
@@ -407,6 +609,67 @@ const CalibrationExpenseModal: React.FC<CalibrationExpenseModalProps> = ({
                                     >
                                         ✕
                                     </button>
+
+                                    {expense.type.trim() && policies.length > 0 && (() => {
+                                        const policy = findPolicy(expense.type);
+
+                                        if (!policy) {
+                                            return (
+                                                <div className="expense-policy-hint not-allowed">
+                                                    ⚠️ Not an allowed expense type
+                                                </div>
+                                            );
+                                        }
+
+                                        return (
+                                            <div className="expense-policy-hint">
+                                                {policy.calculation === 'mileage' && (
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        step="0.1"
+                                                        value={expense.distanceKm}
+                                                        onChange={(e) => handleDistanceChange(index, e.target.value)}
+                                                        placeholder="km"
+                                                    />
+                                                )}
+                                                <span>{policyHint(policy)}</span>
+                                            </div>
+                                        );
+                                    })()}
+
+                                    <div className="expense-receipt">
+                                        {expense.id && expense.receiptFileName ? (
+                                            <AttachmentPreview
+                                                token={localStorage.getItem('token') || ''}
+                                                url={`/api/calibration/expenses/${expense.id}/receipt`}
+                                                fileName={expense.receiptFileName}
+                                                fileType={expense.receiptFileType || null}
+                                                onDelete={() => removeReceipt(index)}
+                                            />
+                                        ) : expense.receiptFile ? (
+                                            <span className="receipt-status">
+                                                🧾 {expense.receiptFile.name}
+                                                <button type="button" className="receipt-remove-btn" onClick={() => removeReceipt(index)}>
+                                                    ✕
+                                                </button>
+                                            </span>
+                                        ) : (
+                                            <label className="receipt-upload-btn">
+                                                {scanningIndex === index ? 'Reading receipt...' : '🧾 Attach receipt'}
+                                                <input
+                                                    type="file"
+                                                    accept="image/*,application/pdf"
+                                                    disabled={scanningIndex !== null}
+                                                    onChange={(e) => {
+                                                        const file = e.target.files?.[0];
+                                                        e.target.value = '';
+                                                        if (file) handleReceiptSelect(index, file);
+                                                    }}
+                                                />
+                                            </label>
+                                        )}
+                                    </div>
                                 </div>
                             ))}
                         </div>
@@ -429,7 +692,7 @@ const CalibrationExpenseModal: React.FC<CalibrationExpenseModalProps> = ({
                     <button
                         className="btn-secondary"
                         onClick={handleSaveDraft}
-                        disabled={loading || isSubmitting}
+                        disabled={loading || isSubmitting || scanningIndex !== null}
                     >
                         {loading ? 'Saving...' : 'Save Draft'}
                     </button>
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import '../leave-styles.css';
+import '../checkin-styles.css';
+
+interface CheckinStatus {
+    required: boolean;
+    geofences: { id: number; name: string; radiusM: number }[];
+    today: {
+        time: string;
+        method: string | null;
+        verified: boolean | null;
+        distanceM: number | null;
+        geofenceName: string | null;
+    } | null;
+}
+
+interface CheckInPanelProps {
+    token: string;
+    onCheckedIn: () => void;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+    web: 'the attendance form',
+    telegram: 'Telegram',
+    telegram_location: 'Telegram location',
+    browser_location: 'browser location',
+    qr: 'the office QR code',
+    admin: 'an admin'
+};
+
+const CheckInPanel: React.FC<CheckInPanelProps> = ({ token, onCheckedIn }) => {
+    const [status, setStatus] = useState<CheckinStatus | null>(null);
+    const [locating, setLocating] = useState(false);
+    const [error, setError] = useState('');
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const loadStatus = async () => {
+        try {
+            const response = await fetch(`${API_URL}/checkin/status`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) throw new Error('Failed to load check-in status');
+
+            setStatus(await response.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        }
+    };
+
+    useEffect(() => {
+        loadStatus();
+    }, []);
+
+    const sendLocation = async (position: GeolocationPosition) => {
+        try {
+            const response = await fetch(`${API_URL}/checkin/location`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({
+                    latitude: position.coords.latitude,
+                    longitude: position.coords.longitude,
+                    accuracy: position.coords.accuracy
+                })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Check-in failed');
+
+            await loadStatus();
+            onCheckedIn();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Check-in failed');
+        } finally {
+            setLocating(false);
+        }
+    };
+
+    const handleCheckIn = () => {
+        if (!navigator.geolocation) {
+            setError('This browser cannot share its location. Scan the QR code on the office screen instead.');
+            return;
+        }
+
+        setLocating(true);
+        setError('');
+
+        navigator.geolocation.getCurrentPosition(
+            sendLocation,
+            (geoError) => {
+                setLocating(false);
+                setError(geoError.code === geoError.PERMISSION_DENIED
+                    ? 'Location permission was denied. Allow it for this site, or scan the office QR code.'
+                    : 'Could not read your location. Try again near a window.');
+            },
+            { enableHighAccuracy: true, timeout: 20000, maximumAge: 0 }
+        );
+    };
+
+    if (!status) {
+        return error
+            ? <div className="error-message">⚠️ {error}</div>
+            : <div className="approval-loading">⏳ Loading check-in...</div>;
+    }
+
+    const today = status.today;
+
+    return (
+        <div className="leave-approval-container">
+            <div className="approval-header">
+                <h2>📍 CHECK IN</h2>
+                <p className="approval-subtitle">
+                    {status.required
+                        ? `Check-in at ${status.geofences.map(g => g.name).join(' / ')} needs your location or the office QR code`
+                        : 'Your office does not require location check-in'}
+                </p>
+            </div>
+
+            {error && <div className="error-message">⚠️ {error}</div>}
+
+            <div className="checkin-panel">
+                {today ? (
+                    <div className={`checkin-state ${today.verified === false ? 'unverified' : 'done'}`}>
+                        ✅ Checked in at {today.time.substring(0, 5)}
+                        {today.method && <> via {METHOD_LABELS[today.method] || today.method}</>}
+                        {today.geofenceName && <><br />📍 {today.geofenceName}{today.distanceM != null && ` • ${today.distanceM} m`}</>}
+                        {today.verified === false && <><br />⚠️ Not verified - your admin will see this entry flagged</>}
+                    </div>
+                ) : status.required ? (
+                    <>
+                        <button className="checkin-btn-location" onClick={handleCheckIn} disabled={locating}>
+                            {locating ? 'LOCATING...' : '📍 CHECK IN WITH MY LOCATION'}
+                        </button>
+                        <div className="checkin-hint">
+                            Or scan the QR code on the office screen with your phone.
+                            <br />
+                            On Telegram, send /checkin and share your live location.
+                        </div>
+                    </>
+                ) : (
+                    <div className="checkin-state">
+                        Not checked in yet. Mark today on the calendar or send /checkin on Telegram.
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CheckInPanel;
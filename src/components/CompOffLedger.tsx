@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import '../leave-styles.css';
+
+type CompOffStatus = 'available' | 'used' | 'expired' | 'cancelled';
+
+interface CompOff {
+    id: number;
+    user_id: number;
+    full_name: string;
+    employee_id: string;
+    department: string | null;
+    earned_reason: string;
+    earned_for_date: string;
+    used_on: string | null;
+    status: CompOffStatus;
+    expires_at: string | null;
+    notes: string | null;
+}
+
+interface CompOffLedgerProps {
+    token: string;
+}
+
+const STATUSES: CompOffStatus[] = ['available', 'used', 'expired', 'cancelled'];
+
+const CompOffLedger: React.FC<CompOffLedgerProps> = ({ token }) => {
+    const [compOffs, setCompOffs] = useState<CompOff[]>([]);
+    const [summary, setSummary] = useState<Record<CompOffStatus, number>>({
+        available: 0,
+        used: 0,
+        expired: 0,
+        cancelled: 0
+    });
+    const [statusFilter, setStatusFilter] = useState('');
+    const [employeeFilter, setEmployeeFilter] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const loadLedger = async () => {
+        setLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/comp-offs`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to load comp-off ledger');
+            }
+
+            const data = await response.json();
+            setCompOffs(data.compOffs);
+            setSummary(data.summary);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadLedger();
+    }, []);
+
+    const formatDate = (dateStr: string) =>
+        new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+    const employees = Array.from(
+        new Map(compOffs.map(c => [c.user_id, `${c.full_name} (${c.employee_id})`])).entries()
+    ).sort((a, b) => a[1].localeCompare(b[1]));
+
+    const visible = compOffs.filter(c =>
+        (!statusFilter || c.status === statusFilter) &&
+        (!employeeFilter || c.user_id === parseInt(employeeFilter))
+    );
+
+    if (loading) {
+        return <div className="approval-loading">⏳ Loading comp-offs...</div>;
+    }
+
+    return (
+        <div className="leave-approval-container">
+            <div className="approval-header">
+                <h2>🎁 COMP-OFF LEDGER</h2>
+                <p className="approval-subtitle">Credits earned for Sunday and holiday work</p>
+            </div>
+
+            {error && <div className="error-message">⚠️ {error}</div>}
+
+            <div className="leave-balance">
+                {STATUSES.map(status => (
+                    <div key={status} className={`leave-balance-item ${status === 'available' ? 'remaining' : ''}`}>
+                        <span className="leave-balance-value">{summary[status] || 0}</span>
+                        <span className="leave-balance-label">{status.toUpperCase()}</span>
+                    </div>
+                ))}
+            </div>
+
+            <div className="comp-off-filters">
+                <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)}>
+                    <option value="">ALL STATUSES</option>
+                    {STATUSES.map(status => (
+                        <option key={status} value={status}>{status.toUpperCase()}</option>
+                    ))}
+                </select>
+                <select value={employeeFilter} onChange={(e) => setEmployeeFilter(e.target.value)}>
+                    <option value="">ALL EMPLOYEES</option>
+                    {employees.map(([id, label]) => (
+                        <option key={id} value={id}>{label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {visible.length === 0 ? (
+                <div className="leave-empty">No comp-offs found</div>
+            ) : (
+                <div className="leave-list">
+                    {visible.map(compOff => (
+                        <div key={compOff.id} className="leave-item">
+                            <div className="leave-item-content">
+                                <div className="leave-item-title">
+                                    {compOff.full_name} <span className="leave-item-meta">({compOff.employee_id})</span>
+                                </div>
+                                <div className="leave-item-meta">
+                                    🎁 {compOff.earned_reason} • {formatDate(compOff.earned_for_date)}
+                                </div>
+                                <div className="leave-item-meta">
+                                    {compOff.used_on
+                                        ? `🌴 Used on ${formatDate(compOff.used_on)}`
+                                        : compOff.expires_at && `⌛ Expires ${formatDate(compOff.expires_at)}`}
+                                </div>
+                                {compOff.notes && (
+                                    <div className="leave-item-meta">📝 {compOff.notes}</div>
+                                )}
+                            </div>
+                            <span className={`leave-status-badge ${compOff.status}`}>
+                                {compOff.status.toUpperCase()}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CompOffLedger;
@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import '../leave-styles.css';
+
+interface PendingCorrection {
+    id: number;
+    user_id: number;
+    full_name: string;
+    employee_id: string;
+    department: string | null;
+    attendance_date: string;
+    proposed_status: string;
+    proposed_start: string | null;
+    proposed_end: string | null;
+    reason: string;
+    source: 'web' | 'telegram';
+    created_at: string;
+    current_status: string | null;
+    current_start: string | null;
+    current_end: string | null;
+}
+
+interface CorrectionApprovalProps {
+    token: string;
+}
+
+// "PRESENT 09:30-18:00", matching the server's activity log wording
+const describe = (status: string | null, start: string | null, end: string | null) => {
+    if (!status) return 'NOT MARKED';
+
+    const label = status.replace('_', ' ').toUpperCase();
+    if (!start && !end) return label;
+
+    return `${label} ${start ? start.substring(0, 5) : '?'}-${end ? end.substring(0, 5) : '?'}`;
+};
+
+const CorrectionApproval: React.FC<CorrectionApprovalProps> = ({ token }) => {
+    const [pendingCorrections, setPendingCorrections] = useState<PendingCorrection[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+    const [rejectionReason, setRejectionReason] = useState('');
+    const [showRejectDialog, setShowRejectDialog] = useState<number | null>(null);
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    useEffect(() => {
+        loadPendingCorrections();
+    }, []);
+
+    const loadPendingCorrections = async () => {
+        setLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/attendance-corrections/pending`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to load pending corrections');
+            }
+
+            const data = await response.json();
+            setPendingCorrections(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleApprove = async (correction: PendingCorrection) => {
+        const after = describe(correction.proposed_status, correction.proposed_start, correction.proposed_end);
+        if (!window.confirm(`Change ${correction.full_name}'s attendance on ${formatDate(correction.attendance_date)} to ${after}?`)) {
+            return;
+        }
+
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/attendance-corrections/${correction.id}/approve`, {
+                method: 'PUT',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to approve correction');
+            }
+
+            setSuccessMessage(`✓ ${correction.full_name}: ${data.before} → ${data.after}`);
+            setPendingCorrections(prev => prev.filter(c => c.id !== correction.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to approve correction');
+        }
+    };
+
+    const handleReject = async (correction: PendingCorrection) => {
+        if (!rejectionReason.trim()) {
+            setError('Please provide a reason for rejection');
+            return;
+        }
+
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/attendance-corrections/${correction.id}/reject`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ reason: rejectionReason })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to reject correction');
+            }
+
+            setSuccessMessage(`✓ Correction rejected for ${correction.full_name}`);
+            setPendingCorrections(prev => prev.filter(c => c.id !== correction.id));
+            setShowRejectDialog(null);
+            setRejectionReason('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to reject correction');
+        }
+    };
+
+    const formatDate = (dateStr: string) =>
+        new Date(dateStr).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+    if (loading) {
+        return <div className="approval-loading">⏳ Loading corrections...</div>;
+    }
+
+    return (
+        <div className="leave-approval-container">
+            <div className="approval-header">
+                <h2>✏️ ATTENDANCE CORRECTIONS</h2>
+                <p className="approval-subtitle">
+                    {pendingCorrections.length} correction{pendingCorrections.length !== 1 ? 's' : ''} waiting for approval
+                </p>
+            </div>
+
+            {error && <div className="error-message">⚠️ {error}</div>}
+            {successMessage && <div className="success-message">{successMessage}</div>}
+
+            {pendingCorrections.length === 0 ? (
+                <div className="leave-empty">✅ No pending corrections</div>
+            ) : (
+                <div className="leave-list">
+                    {pendingCorrections.map(correction => (
+                        <div key={correction.id} className="leave-approval-card">
+                            <div className="leave-item">
+                                <div className="leave-item-content">
+                                    <div className="leave-item-title">
+                                        {correction.full_name} <span className="leave-item-meta">({correction.employee_id})</span>
+                                    </div>
+                                    <div className="leave-item-meta">
+                                        📅 {formatDate(correction.attendance_date)}
+                                        {correction.source === 'telegram' && ' • via Telegram'}
+                                    </div>
+                                    <div className="leave-item-meta">
+                                        {describe(correction.current_status, correction.current_start, correction.current_end)}
+                                        {' → '}
+                                        <strong>{describe(correction.proposed_status, correction.proposed_start, correction.proposed_end)}</strong>
+                                    </div>
+                                    <div className="leave-item-meta">📝 {correction.reason}</div>
+                                    <div className="leave-item-meta">🏢 {correction.department || 'No department'}</div>
+                                </div>
+                                <div className="leave-approval-actions">
+                                    <button className="btn-approve" onClick={() => handleApprove(correction)}>
+                                        ✓ APPROVE
+                                    </button>
+                                    <button
+                                        className="btn-reject"
+                                        onClick={() => {
+                                            setShowRejectDialog(correction.id);
+                                            setRejectionReason('');
+                                        }}
+                                    >
+                                        ✕ REJECT
+                                    </button>
+                                </div>
+                            </div>
+
+                            {showRejectDialog === correction.id && (
+                                <div className="leave-reject-dialog">
+                                    <textarea
+                                        value={rejectionReason}
+                                        onChange={(e) => setRejectionReason(e.target.value)}
+                                        placeholder="Enter reason for rejecting this correction..."
+                                        rows={3}
+                                    />
+                                    <div className="leave-approval-actions">
+                                        <button className="btn-reject" onClick={() => handleReject(correction)}>
+                                            SUBMIT REJECTION
+                                        </button>
+                                        <button
+                                            className="leave-btn-cancel"
+                                            onClick={() => {
+                                                setShowRejectDialog(null);
+                                                setRejectionReason('');
+                                            }}
+                                        >
+                                            CANCEL
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CorrectionApproval;
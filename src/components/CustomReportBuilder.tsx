@@ -0,0 +1,403 @@
+// Custom Report Builder - pick a data source, columns, filters and group-by,
+// then export or save the definition to re-run by name
+
+import React, { useState, useEffect } from 'react';
+
+interface Employee {
+    id: number;
+    full_name: string;
+    employee_id: string;
+    department: string;
+}
+
+interface ReportColumn {
+    key: string;
+    label: string;
+}
+
+interface ReportSource {
+    key: string;
+    label: string;
+    statuses: string[];
+    columns: ReportColumn[];
+}
+
+interface ReportDefinition {
+    source: string;
+    columns: string[];
+    filters: {
+        department?: string;
+        employeeId?: number;
+        status?: string;
+        startDate?: string;
+        endDate?: string;
+    };
+    groupBy: string | null;
+}
+
+interface SavedReport {
+    id: number;
+    name: string;
+    description: string | null;
+    definition: ReportDefinition;
+    last_run_at: string | null;
+}
+
+interface CustomReportBuilderProps {
+    token: string;
+    employees: Employee[];
+    loading: boolean;
+    onExport: (body: object, fallbackFilename: string, successMessage: string) => Promise<void>;
+    onMessage: (message: string) => void;
+}
+
+const CustomReportBuilder: React.FC<CustomReportBuilderProps> = ({ token, employees, loading, onExport, onMessage }) => {
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const [sources, setSources] = useState<ReportSource[]>([]);
+    const [sourcesLoading, setSourcesLoading] = useState(true);
+    const [savedReports, setSavedReports] = useState<SavedReport[]>([]);
+    const [selectedReportId, setSelectedReportId] = useState<number>(0);
+
+    const [source, setSource] = useState<string>('attendance');
+    const [columns, setColumns] = useState<string[]>([]);
+    const [department, setDepartment] = useState<string>('');
+    const [employeeId, setEmployeeId] = useState<number>(0);
+    const [status, setStatus] = useState<string>('');
+    const [startDate, setStartDate] = useState<string>('');
+    const [endDate, setEndDate] = useState<string>('');
+    const [groupBy, setGroupBy] = useState<string>('');
+    const [reportName, setReportName] = useState<string>('');
+
+    const departments = [...new Set(employees.map(emp => emp.department).filter(Boolean))].sort();
+    const currentSource = sources.find(s => s.key === source);
+
+    const fetchSources = async () => {
+        try {
+            const response = await fetch(`${API_URL}/admin/export/custom/sources`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (response.ok) {
+                const data = await response.json();
+                setSources(data.sources);
+                const initial = data.sources.find((s: ReportSource) => s.key === 'attendance') || data.sources[0];
+                if (initial) {
+                    setColumns(initial.columns.map((c: ReportColumn) => c.key));
+                }
+            }
+        } catch (error) {
+            console.error('Error fetching report sources:', error);
+        } finally {
+            setSourcesLoading(false);
+        }
+    };
+
+    const fetchSavedReports = async () => {
+        try {
+            const response = await fetch(`${API_URL}/admin/export/custom/reports`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (response.ok) {
+                const data = await response.json();
+                setSavedReports(data.reports);
+            }
+        } catch (error) {
+            console.error('Error fetching saved reports:', error);
+        }
+    };
+
+    useEffect(() => {
+        fetchSources();
+        fetchSavedReports();
+    }, []);
+
+    const handleSourceChange = (key: string) => {
+        const next = sources.find(s => s.key === key);
+        setSource(key);
+        setColumns(next ? next.columns.map(c => c.key) : []);
+        setStatus('');
+        setGroupBy('');
+    };
+
+    const toggleColumn = (key: string) => {
+        setColumns(prev => prev.includes(key) ? prev.filter(c => c !== key) : [...prev, key]);
+    };
+
+    const buildDefinition = (): ReportDefinition => ({
+        source,
+        // Keep the source's column order regardless of click order
+        columns: (currentSource?.columns || []).map(c => c.key).filter(key => columns.includes(key)),
+        filters: {
+            ...(department && { department }),
+            ...(employeeId && { employeeId }),
+            ...(status && { status }),
+            ...(startDate && { startDate }),
+            ...(endDate && { endDate })
+        },
+        groupBy: groupBy || null
+    });
+
+    const loadDefinition = (report: SavedReport) => {
+        const { definition } = report;
+        setSource(definition.source);
+        setColumns(definition.columns);
+        setDepartment(definition.filters.department || '');
+        setEmployeeId(definition.filters.employeeId || 0);
+        setStatus(definition.filters.status || '');
+        setStartDate(definition.filters.startDate || '');
+        setEndDate(definition.filters.endDate || '');
+        setGroupBy(definition.groupBy || '');
+        setReportName(report.name);
+    };
+
+    const handleSelectSaved = (id: number) => {
+        setSelectedReportId(id);
+        const report = savedReports.find(r => r.id === id);
+        if (report) loadDefinition(report);
+    };
+
+    const handleExport = async () => {
+        if (columns.length === 0) {
+            onMessage('❌ Select at least one column');
+            return;
+        }
+
+        await onExport(
+            { definition: buildDefinition() },
+            'custom_report.xlsx',
+            '✅ Custom report downloaded successfully!'
+        );
+    };
+
+    const handleRunSaved = async () => {
+        if (!selectedReportId) return;
+
+        await onExport(
+            { reportId: selectedReportId },
+            'custom_report.xlsx',
+            '✅ Saved report downloaded successfully!'
+        );
+        fetchSavedReports();
+    };
+
+    const handleSave = async () => {
+        if (!reportName.trim()) {
+            onMessage('❌ Enter a name to save this report');
+            return;
+        }
+
+        try {
+            const response = await fetch(`${API_URL}/admin/export/custom/reports`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ name: reportName.trim(), definition: buildDefinition() })
+            });
+
+            const data = await response.json();
+            if (response.ok) {
+                onMessage(`✅ Saved "${data.report.name}"`);
+                setSelectedReportId(data.report.id);
+                fetchSavedReports();
+            } else {
+                onMessage(`❌ Error: ${data.error}`);
+            }
+        } catch (error) {
+            onMessage(`❌ Error: ${error instanceof Error ? error.message : 'Network error'}`);
+        }
+    };
+
+    const handleDeleteSaved = async () => {
+        const report = savedReports.find(r => r.id === selectedReportId);
+        if (!report || !window.confirm(`Delete saved report "${report.name}"?`)) return;
+
+        try {
+            const response = await fetch(`${API_URL}/admin/export/custom/reports/${report.id}`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (response.ok) {
+                onMessage(`✅ Deleted "${report.name}"`);
+                setSelectedReportId(0);
+                fetchSavedReports();
+            } else {
+                const data = await response.json();
+                onMessage(`❌ Error: ${data.error}`);
+            }
+        } catch (error) {
+            onMessage(`❌ Error: ${error instanceof Error ? error.message : 'Network error'}`);
+        }
+    };
+
+    if (sourcesLoading) {
+        return <div className="form-group"><label>⏳ Loading data sources...</label></div>;
+    }
+
+    return (
+        <>
+            {savedReports.length > 0 && (
+                <div className="form-group">
+                    <label>💾 Saved Reports:</label>
+                    <div className="saved-report-row">
+                        <select
+                            value={selectedReportId}
+                            onChange={(e) => handleSelectSaved(parseInt(e.target.value))}
+                            className="export-select"
+                        >
+                            <option value={0}>-- New report --</option>
+                            {savedReports.map(report => (
+                                <option key={report.id} value={report.id}>{report.name}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={handleRunSaved}
+                            disabled={loading || !selectedReportId}
+                            className="btn-export-secondary"
+                        >
+                            ▶ RUN
+                        </button>
+                        <button
+                            onClick={handleDeleteSaved}
+                            disabled={!selectedReportId}
+                            className="btn-export-secondary"
+                        >
+                            🗑
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="form-group">
+                <label>🗂 Data Source:</label>
+                <select
+                    value={source}
+                    onChange={(e) => handleSourceChange(e.target.value)}
+                    className="export-select"
+                >
+                    {sources.map(s => (
+                        <option key={s.key} value={s.key}>{s.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {currentSource && (
+                <div className="form-group">
+                    <label>📋 Columns:</label>
+                    <div className="custom-columns">
+                        {currentSource.columns.map(column => (
+                            <label key={column.key} className="custom-column-option">
+                                <input
+                                    type="checkbox"
+                                    checked={columns.includes(column.key)}
+                                    onChange={() => toggleColumn(column.key)}
+                                />
+                                {column.label}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="form-group">
+                <label>🔍 Filters:</label>
+                <div className="date-range">
+                    <select
+                        value={department}
+                        onChange={(e) => setDepartment(e.target.value)}
+                        className="export-select"
+                    >
+                        <option value="">All departments</option>
+                        {departments.map(dept => (
+                            <option key={dept} value={dept}>{dept}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={employeeId}
+                        onChange={(e) => setEmployeeId(parseInt(e.target.value))}
+                        className="export-select"
+                    >
+                        <option value={0}>All employees</option>
+                        {employees.map(emp => (
+                            <option key={emp.id} value={emp.id}>{emp.full_name}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={status}
+                        onChange={(e) => setStatus(e.target.value)}
+                        className="export-select"
+                    >
+                        <option value="">Any status</option>
+                        {currentSource?.statuses.map(s => (
+                            <option key={s} value={s}>{s.replace('_', ' ')}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="form-group">
+                <label>📅 Date Range (optional):</label>
+                <div className="date-range">
+                    <input
+                        type="date"
+                        value={startDate}
+                        onChange={(e) => setStartDate(e.target.value)}
+                        className="export-input"
+                    />
+                    <span>to</span>
+                    <input
+                        type="date"
+                        value={endDate}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        className="export-input"
+                    />
+                </div>
+            </div>
+
+            <div className="form-group">
+                <label>🧮 Group By:</label>
+                <select
+                    value={groupBy}
+                    onChange={(e) => setGroupBy(e.target.value)}
+                    className="export-select"
+                >
+                    <option value="">No grouping</option>
+                    {currentSource?.columns.map(column => (
+                        <option key={column.key} value={column.key}>{column.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="form-group">
+                <label>💾 Save As:</label>
+                <div className="saved-report-row">
+                    <input
+                        type="text"
+                        value={reportName}
+                        onChange={(e) => setReportName(e.target.value)}
+                        placeholder="Report name"
+                        maxLength={100}
+                        className="export-input"
+                    />
+                    <button onClick={handleSave} className="btn-export-secondary">
+                        SAVE
+                    </button>
+                </div>
+            </div>
+
+            <div className="export-actions">
+                <button
+                    onClick={handleExport}
+                    disabled={loading}
+                    className="btn-export"
+                >
+                    {loading ? '⏳ Generating...' : '📥 EXPORT CUSTOM REPORT'}
+                </button>
+            </div>
+        </>
+    );
+};
+
+export default CustomReportBuilder;
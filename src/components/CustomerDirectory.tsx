@@ -0,0 +1,523 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import '../task-styles.css';
+
+interface CustomerDirectoryProps {
+    token: string;
+    isAdmin: boolean;
+}
+
+interface DirectoryCustomer {
+    id: number;
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    notes: string | null;
+    company_id: number | null;
+    company_name: string | null;
+    task_count: number;
+    last_task_at: string | null;
+}
+
+interface DirectoryCompany {
+    id: number;
+    name: string;
+    address: string | null;
+    notes: string | null;
+    customer_count: number;
+    task_count: number;
+    site_visit_count: number;
+}
+
+interface DuplicateGroup {
+    reason: 'name' | 'phone';
+    match: string;
+    customers: Array<{ id: number; name: string | null; email: string | null; phone: string | null; task_count: number }>;
+}
+
+type Tab = 'customers' | 'companies';
+
+const emptyCustomerForm = { name: '', email: '', phone: '', companyName: '', notes: '' };
+const emptyCompanyForm = { name: '', address: '', notes: '' };
+
+// Customer and company directory shown inside the task dashboard
+const CustomerDirectory: React.FC<CustomerDirectoryProps> = ({ token, isAdmin }) => {
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+    const navigate = useNavigate();
+
+    const [tab, setTab] = useState<Tab>('customers');
+    const [customers, setCustomers] = useState<DirectoryCustomer[]>([]);
+    const [companies, setCompanies] = useState<DirectoryCompany[]>([]);
+    const [duplicates, setDuplicates] = useState<DuplicateGroup[] | null>(null);
+    const [search, setSearch] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    // null = form closed, 0 = adding, otherwise the id being edited
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [customerForm, setCustomerForm] = useState(emptyCustomerForm);
+    const [companyForm, setCompanyForm] = useState(emptyCompanyForm);
+
+    // Admin merge: the records picked and the one to keep
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    const [keepId, setKeepId] = useState<number | null>(null);
+
+    useEffect(() => {
+        loadDirectory();
+    }, []);
+
+    const loadDirectory = async () => {
+        setLoading(true);
+
+        try {
+            const headers = { 'Authorization': `Bearer ${token}` };
+            const [customersResponse, companiesResponse] = await Promise.all([
+                fetch(`${API_URL}/customers`, { headers }),
+                fetch(`${API_URL}/companies`, { headers })
+            ]);
+
+            if (!customersResponse.ok || !companiesResponse.ok) {
+                throw new Error('Failed to load directory');
+            }
+
+            setCustomers(await customersResponse.json());
+            setCompanies(await companiesResponse.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const loadDuplicates = async () => {
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/customers/duplicates`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to find duplicates');
+            }
+
+            setDuplicates(await response.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to find duplicates');
+        }
+    };
+
+    const switchTab = (next: Tab) => {
+        setTab(next);
+        setEditingId(null);
+        setSelectedIds([]);
+        setKeepId(null);
+        setDuplicates(null);
+        setError('');
+        setSuccess('');
+    };
+
+    const startAdd = () => {
+        setCustomerForm(emptyCustomerForm);
+        setCompanyForm(emptyCompanyForm);
+        setEditingId(0);
+    };
+
+    const startEditCustomer = (customer: DirectoryCustomer) => {
+        setCustomerForm({
+            name: customer.name || '',
+            email: customer.email || '',
+            phone: customer.phone || '',
+            companyName: customer.company_name || '',
+            notes: customer.notes || ''
+        });
+        setEditingId(customer.id);
+    };
+
+    const startEditCompany = (company: DirectoryCompany) => {
+        setCompanyForm({
+            name: company.name,
+            address: company.address || '',
+            notes: company.notes || ''
+        });
+        setEditingId(company.id);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSuccess('');
+
+        const base = tab === 'customers' ? 'customers' : 'companies';
+        const url = editingId ? `${API_URL}/${base}/${editingId}` : `${API_URL}/${base}`;
+
+        try {
+            const response = await fetch(url, {
+                method: editingId ? 'PUT' : 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify(tab === 'customers' ? customerForm : companyForm)
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to save');
+            }
+
+            setSuccess(editingId ? '✓ Saved' : '✓ Added');
+            setEditingId(null);
+            loadDirectory();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save');
+        }
+    };
+
+    const handleDelete = async (id: number, label: string) => {
+        const warning = tab === 'customers'
+            ? `Delete ${label}? Their tasks keep the customer details.`
+            : `Delete ${label}? Customers, tasks and site visits are unlinked from it.`;
+        if (!window.confirm(warning)) return;
+
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/${tab}/${id}`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to delete');
+            }
+
+            setSuccess(`✓ ${label} deleted`);
+            loadDirectory();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete');
+        }
+    };
+
+    const toggleSelected = (id: number) => {
+        const next = selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id];
+        setSelectedIds(next);
+        setKeepId(next.includes(keepId ?? -1) ? keepId : next[0] ?? null);
+    };
+
+    const selectGroup = (group: DuplicateGroup) => {
+        const ids = group.customers.map(c => c.id);
+        setSelectedIds(ids);
+        setKeepId(ids[0]);
+    };
+
+    const handleMerge = async () => {
+        if (!keepId || selectedIds.length < 2) return;
+
+        const sourceIds = selectedIds.filter(id => id !== keepId);
+        if (!window.confirm(`Merge ${sourceIds.length} record(s) into the one you chose to keep? This cannot be undone.`)) return;
+
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/${tab}/${keepId}/merge`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ sourceIds })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to merge');
+            }
+
+            setSuccess(tab === 'customers' ? `✓ Merged (${data.tasksMoved} tasks moved)` : `✓ ${data.message}`);
+            setSelectedIds([]);
+            setKeepId(null);
+            if (duplicates) loadDuplicates();
+            loadDirectory();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to merge');
+        }
+    };
+
+    const query = search.trim().toLowerCase();
+    const matches = (...values: Array<string | null>) =>
+        !query || values.some(value => value?.toLowerCase().includes(query));
+
+    const visibleCustomers = customers.filter(c => matches(c.name, c.email, c.phone, c.company_name));
+    const visibleCompanies = companies.filter(c => matches(c.name, c.address));
+
+    const labelFor = (id: number) => {
+        if (tab === 'companies') return companies.find(c => c.id === id)?.name || `#${id}`;
+        const customer = customers.find(c => c.id === id);
+        return customer?.name || customer?.email || `#${id}`;
+    };
+
+    return (
+        <div className="task-list-container">
+            <div className="task-list-header">
+                <div style={{ display: 'flex', gap: '10px' }}>
+                    <button
+                        className={`task-btn-secondary ${tab === 'customers' ? 'active' : ''}`}
+                        onClick={() => switchTab('customers')}
+                        style={{ padding: '5px 12px' }}
+                    >
+                        CUSTOMERS ({customers.length})
+                    </button>
+                    <button
+                        className={`task-btn-secondary ${tab === 'companies' ? 'active' : ''}`}
+                        onClick={() => switchTab('companies')}
+                        style={{ padding: '5px 12px' }}
+                    >
+                        COMPANIES ({companies.length})
+                    </button>
+                </div>
+                <div className="task-filters">
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search..."
+                    />
+                    {isAdmin && tab === 'customers' && (
+                        <button className="task-btn-secondary" onClick={duplicates ? () => setDuplicates(null) : loadDuplicates}>
+                            {duplicates ? 'HIDE DUPLICATES' : 'FIND DUPLICATES'}
+                        </button>
+                    )}
+                    <button className="btn-new-task" onClick={startAdd}>
+                        + ADD
+                    </button>
+                </div>
+            </div>
+
+            {error && <div className="task-error">⚠️ {error}</div>}
+            {success && <div className="task-success">{success}</div>}
+
+            {editingId !== null && (
+                <form className="task-form-section" onSubmit={handleSave}>
+                    <h3>{editingId ? 'EDIT' : 'NEW'} {tab === 'customers' ? 'CUSTOMER' : 'COMPANY'}</h3>
+                    {tab === 'customers' ? (
+                        <>
+                            <div className="task-field-row">
+                                <div className="task-field">
+                                    <label>Name</label>
+                                    <input
+                                        type="text"
+                                        value={customerForm.name}
+                                        onChange={(e) => setCustomerForm(prev => ({ ...prev, name: e.target.value }))}
+                                    />
+                                </div>
+                                <div className="task-field">
+                                    <label>Email</label>
+                                    <input
+                                        type="email"
+                                        value={customerForm.email}
+                                        onChange={(e) => setCustomerForm(prev => ({ ...prev, email: e.target.value }))}
+                                    />
+                                </div>
+                            </div>
+                            <div className="task-field-row">
+                                <div className="task-field">
+                                    <label>Phone</label>
+                                    <input
+                                        type="tel"
+                                        value={customerForm.phone}
+                                        onChange={(e) => setCustomerForm(prev => ({ ...prev, phone: e.target.value }))}
+                                    />
+                                </div>
+                                <div className="task-field">
+                                    <label>Company</label>
+                                    <input
+                                        type="text"
+                                        list="directory-companies"
+                                        value={customerForm.companyName}
+                                        onChange={(e) => setCustomerForm(prev => ({ ...prev, companyName: e.target.value }))}
+                                    />
+                                    <datalist id="directory-companies">
+                                        {companies.map(c => <option key={c.id} value={c.name} />)}
+                                    </datalist>
+                                </div>
+                            </div>
+                            <div className="task-field">
+                                <label>Notes</label>
+                                <textarea
+                                    rows={2}
+                                    value={customerForm.notes}
+                                    onChange={(e) => setCustomerForm(prev => ({ ...prev, notes: e.target.value }))}
+                                />
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <div className="task-field">
+                                <label>Name</label>
+                                <input
+                                    type="text"
+                                    value={companyForm.name}
+                                    onChange={(e) => setCompanyForm(prev => ({ ...prev, name: e.target.value }))}
+                                    required
+                                />
+                            </div>
+                            <div className="task-field">
+                                <label>Address</label>
+                                <textarea
+                                    rows={2}
+                                    value={companyForm.address}
+                                    onChange={(e) => setCompanyForm(prev => ({ ...prev, address: e.target.value }))}
+                                />
+                            </div>
+                            <div className="task-field">
+                                <label>Notes</label>
+                                <textarea
+                                    rows={2}
+                                    value={companyForm.notes}
+                                    onChange={(e) => setCompanyForm(prev => ({ ...prev, notes: e.target.value }))}
+                                />
+                            </div>
+                        </>
+                    )}
+                    <div className="task-modal-actions">
+                        <button type="button" className="task-btn-cancel" onClick={() => setEditingId(null)}>
+                            CANCEL
+                        </button>
+                        <button type="submit" className="task-btn-save">
+                            SAVE
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {isAdmin && selectedIds.length > 1 && (
+                <div className="task-form-section directory-merge-bar">
+                    <label>
+                        Keep{' '}
+                        <select value={keepId ?? ''} onChange={(e) => setKeepId(parseInt(e.target.value))}>
+                            {selectedIds.map(id => <option key={id} value={id}>{labelFor(id)}</option>)}
+                        </select>
+                    </label>
+                    <button className="task-btn-complete" onClick={handleMerge}>
+                        MERGE {selectedIds.length} SELECTED
+                    </button>
+                    <button className="task-btn-cancel" onClick={() => { setSelectedIds([]); setKeepId(null); }}>
+                        CLEAR
+                    </button>
+                </div>
+            )}
+
+            {duplicates && (
+                <div className="task-form-section">
+                    <h3>POSSIBLE DUPLICATES ({duplicates.length})</h3>
+                    {duplicates.length === 0 ? (
+                        <div className="task-item-meta">No duplicates found</div>
+                    ) : (
+                        duplicates.map(group => (
+                            <div key={`${group.reason}-${group.match}`} className="task-item" onClick={() => selectGroup(group)}>
+                                <div className="task-item-content">
+                                    <div className="task-item-title">
+                                        Same {group.reason}: {group.match}
+                                    </div>
+                                    <div className="task-item-meta">
+                                        {group.customers.map(c => `${c.name || c.email || '#' + c.id} (${c.task_count} tasks)`).join(' • ')}
+                                    </div>
+                                </div>
+                                <span className="task-status-badge open">SELECT</span>
+                            </div>
+                        ))
+                    )}
+                </div>
+            )}
+
+            <div className="task-list" style={{ maxHeight: '500px' }}>
+                {loading ? (
+                    <div style={{ padding: '20px', textAlign: 'center', color: '#555', fontSize: '8px' }}>
+                        Loading...
+                    </div>
+                ) : tab === 'customers' ? (
+                    visibleCustomers.length === 0 ? (
+                        <div style={{ padding: '20px', textAlign: 'center', color: '#555', fontSize: '8px' }}>
+                            No customers found
+                        </div>
+                    ) : (
+                        visibleCustomers.map(customer => (
+                            <div key={customer.id} className="task-item" onClick={() => navigate(`/customers/${customer.id}`)}>
+                                {isAdmin && (
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedIds.includes(customer.id)}
+                                        onClick={(e) => e.stopPropagation()}
+                                        onChange={() => toggleSelected(customer.id)}
+                                    />
+                                )}
+                                <div className="task-item-content">
+                                    <div className="task-item-title">{customer.name || customer.email}</div>
+                                    <div className="task-item-meta">
+                                        {[customer.company_name, customer.email, customer.phone].filter(Boolean).join(' • ') || 'No details'}
+                                    </div>
+                                </div>
+                                <div className="task-item-due">{customer.task_count} task{customer.task_count !== 1 ? 's' : ''}</div>
+                                <button
+                                    className="task-btn-secondary"
+                                    onClick={(e) => { e.stopPropagation(); startEditCustomer(customer); }}
+                                >
+                                    EDIT
+                                </button>
+                                {isAdmin && (
+                                    <button
+                                        className="task-btn-cancel"
+                                        onClick={(e) => { e.stopPropagation(); handleDelete(customer.id, customer.name || customer.email || 'customer'); }}
+                                    >
+                                        ✕
+                                    </button>
+                                )}
+                            </div>
+                        ))
+                    )
+                ) : visibleCompanies.length === 0 ? (
+                    <div style={{ padding: '20px', textAlign: 'center', color: '#555', fontSize: '8px' }}>
+                        No companies found
+                    </div>
+                ) : (
+                    visibleCompanies.map(company => (
+                        <div key={company.id} className="task-item" onClick={() => startEditCompany(company)}>
+                            {isAdmin && (
+                                <input
+                                    type="checkbox"
+                                    checked={selectedIds.includes(company.id)}
+                                    onClick={(e) => e.stopPropagation()}
+                                    onChange={() => toggleSelected(company.id)}
+                                />
+                            )}
+                            <div className="task-item-content">
+                                <div className="task-item-title">{company.name}</div>
+                                <div className="task-item-meta">
+                                    {company.customer_count} customers • {company.task_count} tasks • {company.site_visit_count} site visits
+                                </div>
+                            </div>
+                            {isAdmin && (
+                                <button
+                                    className="task-btn-cancel"
+                                    onClick={(e) => { e.stopPropagation(); handleDelete(company.id, company.name); }}
+                                >
+                                    ✕
+                                </button>
+                            )}
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CustomerDirectory;
@@ -0,0 +1,445 @@
+import React, { useState, useEffect } from 'react';
+import '../email-template-styles.css';
+
+interface EmailTemplate {
+    id: number;
+    template_key: string;
+    template_name: string;
+    subject_template: string;
+    body_html_template: string;
+    body_text_template: string | null;
+    description: string | null;
+    is_active: boolean;
+    version: number | null;
+    updated_at: string;
+    updated_by_name: string | null;
+    variables: string[];
+    requiredVariables: string[];
+}
+
+interface TemplateVersion {
+    id: number;
+    version: number;
+    template_name: string;
+    subject_template: string;
+    edited_by_name: string | null;
+    created_at: string;
+}
+
+interface TemplatePreview {
+    subject: string;
+    html: string;
+    text: string;
+    validationError: string | null;
+}
+
+interface EmailTemplateEditorProps {
+    token: string;
+    onClose: () => void;
+}
+
+const emptyForm = {
+    template_key: '',
+    template_name: '',
+    description: '',
+    subject_template: '',
+    body_html_template: '',
+    body_text_template: '',
+    is_active: true
+};
+
+const EmailTemplateEditor: React.FC<EmailTemplateEditorProps> = ({ token, onClose }) => {
+    const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+    const [selected, setSelected] = useState<EmailTemplate | null>(null);
+    const [isNew, setIsNew] = useState(false);
+    const [formData, setFormData] = useState(emptyForm);
+    const [versions, setVersions] = useState<TemplateVersion[]>([]);
+    const [preview, setPreview] = useState<TemplatePreview | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    // Variables are the same for every template; required ones depend on the key
+    const variables = templates[0]?.variables || [];
+    const requiredVariables = selected?.requiredVariables || [];
+
+    const fetchTemplates = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const response = await fetch(`${API_URL}/admin/email-templates`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to fetch templates');
+            }
+            setTemplates(data.templates);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to fetch templates');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const fetchVersions = async (templateId: number) => {
+        try {
+            const response = await fetch(`${API_URL}/admin/email-templates/${templateId}/versions`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (response.ok) {
+                const data = await response.json();
+                setVersions(data.versions);
+            }
+        } catch (err) {
+            console.error('Error fetching template versions:', err);
+        }
+    };
+
+    useEffect(() => {
+        fetchTemplates();
+    }, []);
+
+    const selectTemplate = (template: EmailTemplate) => {
+        setSelected(template);
+        setIsNew(false);
+        setPreview(null);
+        setError('');
+        setSuccess('');
+        setFormData({
+            template_key: template.template_key,
+            template_name: template.template_name,
+            description: template.description || '',
+            subject_template: template.subject_template,
+            body_html_template: template.body_html_template,
+            body_text_template: template.body_text_template || '',
+            is_active: template.is_active
+        });
+        fetchVersions(template.id);
+    };
+
+    const startNewTemplate = () => {
+        setSelected(null);
+        setIsNew(true);
+        setVersions([]);
+        setPreview(null);
+        setError('');
+        setSuccess('');
+        setFormData(emptyForm);
+    };
+
+    const handleChange = (field: keyof typeof emptyForm, value: string | boolean) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+    };
+
+    const copyVariable = async (name: string) => {
+        try {
+            await navigator.clipboard.writeText(`{{${name}}}`);
+            setSuccess(`Copied {{${name}}}`);
+        } catch {
+            setError('Clipboard not available');
+        }
+    };
+
+    const handlePreview = async () => {
+        setError('');
+        try {
+            const response = await fetch(`${API_URL}/admin/email-templates/preview`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify(formData)
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to render preview');
+            }
+            setPreview(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to render preview');
+        }
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(
+                isNew ? `${API_URL}/admin/email-templates` : `${API_URL}/admin/email-templates/${selected?.id}`,
+                {
+                    method: isNew ? 'POST' : 'PUT',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'Authorization': `Bearer ${token}`
+                    },
+                    body: JSON.stringify(formData)
+                }
+            );
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to save template');
+            }
+
+            setSuccess(isNew ? 'Template created' : `Saved as version ${data.version}`);
+            await fetchTemplates();
+            selectTemplate(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save template');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selected || !window.confirm(`Delete template "${selected.template_name}"?`)) return;
+
+        try {
+            const response = await fetch(`${API_URL}/admin/email-templates/${selected.id}`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to delete template');
+            }
+
+            setSuccess('Template deleted');
+            setSelected(null);
+            setVersions([]);
+            setFormData(emptyForm);
+            fetchTemplates();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete template');
+        }
+    };
+
+    const handleRollback = async (version: TemplateVersion) => {
+        if (!selected || !window.confirm(`Restore version ${version.version}? The current content will be kept in history.`)) return;
+
+        setError('');
+        try {
+            const response = await fetch(
+                `${API_URL}/admin/email-templates/${selected.id}/versions/${version.id}/rollback`,
+                {
+                    method: 'POST',
+                    headers: { 'Authorization': `Bearer ${token}` }
+                }
+            );
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to roll back template');
+            }
+
+            await fetchTemplates();
+            selectTemplate(data);
+            setSuccess(`Restored version ${version.version}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to roll back template');
+        }
+    };
+
+    const formatDate = (dateStr: string) =>
+        new Date(dateStr).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+    return (
+        <div className="template-overlay" onClick={onClose}>
+            <div className="template-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="template-header">
+                    <h2>📧 EMAIL TEMPLATES</h2>
+                    <button onClick={onClose} className="template-close">✕</button>
+                </div>
+
+                {error && <div className="template-error">⚠️ {error}</div>}
+                {success && <div className="template-success">✅ {success}</div>}
+
+                <div className="template-content">
+                    <div className="template-sidebar">
+                        <button className="template-btn-new" onClick={startNewTemplate}>
+                            + NEW TEMPLATE
+                        </button>
+
+                        {isLoading ? (
+                            <div className="template-empty">Loading...</div>
+                        ) : (
+                            templates.map(template => (
+                                <div
+                                    key={template.id}
+                                    className={`template-list-item ${selected?.id === template.id ? 'active' : ''}`}
+                                    onClick={() => selectTemplate(template)}
+                                >
+                                    <div className="template-list-name">{template.template_name}</div>
+                                    <div className="template-list-meta">
+                                        <span>{template.template_key}</span>
+                                        <span>v{template.version || 1}</span>
+                                        {!template.is_active && <span className="template-inactive">OFF</span>}
+                                    </div>
+                                </div>
+                            ))
+                        )}
+                    </div>
+
+                    <div className="template-main">
+                        {!selected && !isNew ? (
+                            <div className="template-empty">Select a template to edit</div>
+                        ) : (
+                            <>
+                                <div className="template-form">
+                                    <div className="template-field-row">
+                                        <div className="template-field">
+                                            <label>KEY</label>
+                                            <input
+                                                type="text"
+                                                value={formData.template_key}
+                                                onChange={(e) => handleChange('template_key', e.target.value)}
+                                                disabled={!isNew}
+                                                placeholder="e.g. task_follow_up"
+                                            />
+                                        </div>
+                                        <div className="template-field">
+                                            <label>NAME</label>
+                                            <input
+                                                type="text"
+                                                value={formData.template_name}
+                                                onChange={(e) => handleChange('template_name', e.target.value)}
+                                            />
+                                        </div>
+                                    </div>
+
+                                    <div className="template-field">
+                                        <label>DESCRIPTION</label>
+                                        <input
+                                            type="text"
+                                            value={formData.description}
+                                            onChange={(e) => handleChange('description', e.target.value)}
+                                        />
+                                    </div>
+
+                                    <div className="template-field">
+                                        <label>VARIABLES (click to copy, * = required)</label>
+                                        <div className="template-variables">
+                                            {variables.map(name => (
+                                                <button
+                                                    key={name}
+                                                    type="button"
+                                                    className={`template-variable ${requiredVariables.includes(name) ? 'required' : ''}`}
+                                                    onClick={() => copyVariable(name)}
+                                                >
+                                                    {`{{${name}}}`}{requiredVariables.includes(name) && ' *'}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    <div className="template-field">
+                                        <label>SUBJECT</label>
+                                        <input
+                                            type="text"
+                                            value={formData.subject_template}
+                                            onChange={(e) => handleChange('subject_template', e.target.value)}
+                                            maxLength={500}
+                                        />
+                                    </div>
+
+                                    <div className="template-field">
+                                        <label>HTML BODY</label>
+                                        <textarea
+                                            rows={10}
+                                            value={formData.body_html_template}
+                                            onChange={(e) => handleChange('body_html_template', e.target.value)}
+                                        />
+                                    </div>
+
+                                    <div className="template-field">
+                                        <label>PLAIN TEXT BODY</label>
+                                        <textarea
+                                            rows={6}
+                                            value={formData.body_text_template}
+                                            onChange={(e) => handleChange('body_text_template', e.target.value)}
+                                        />
+                                    </div>
+
+                                    <label className="template-checkbox">
+                                        <input
+                                            type="checkbox"
+                                            checked={formData.is_active}
+                                            onChange={(e) => handleChange('is_active', e.target.checked)}
+                                        />
+                                        ACTIVE
+                                    </label>
+
+                                    <div className="template-actions">
+                                        <button className="template-btn" onClick={handlePreview}>
+                                            👁 PREVIEW
+                                        </button>
+                                        <button className="template-btn primary" onClick={handleSave} disabled={isSaving}>
+                                            {isSaving ? 'SAVING...' : '💾 SAVE'}
+                                        </button>
+                                        {selected && requiredVariables.length === 0 && (
+                                            <button className="template-btn danger" onClick={handleDelete}>
+                                                🗑 DELETE
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {preview && (
+                                    <div className="template-preview">
+                                        <h3>PREVIEW (SAMPLE TASK)</h3>
+                                        {preview.validationError && (
+                                            <div className="template-error">⚠️ {preview.validationError}</div>
+                                        )}
+                                        <div className="template-preview-subject">
+                                            <strong>Subject:</strong> {preview.subject}
+                                        </div>
+                                        <iframe
+                                            className="template-preview-html"
+                                            title="Email preview"
+                                            sandbox=""
+                                            srcDoc={preview.html}
+                                        />
+                                        {preview.text && (
+                                            <pre className="template-preview-text">{preview.text}</pre>
+                                        )}
+                                    </div>
+                                )}
+
+                                {selected && (
+                                    <div className="template-versions">
+                                        <h3>VERSION HISTORY (current: v{selected.version || 1})</h3>
+                                        {versions.length === 0 ? (
+                                            <div className="template-empty">No previous versions</div>
+                                        ) : (
+                                            versions.map(version => (
+                                                <div key={version.id} className="template-version-item">
+                                                    <div>
+                                                        <div className="template-list-name">v{version.version} - {version.subject_template}</div>
+                                                        <div className="template-list-meta">
+                                                            {formatDate(version.created_at)}
+                                                            {version.edited_by_name && ` · ${version.edited_by_name}`}
+                                                        </div>
+                                                    </div>
+                                                    <button className="template-btn" onClick={() => handleRollback(version)}>
+                                                        ↩ RESTORE
+                                                    </button>
+                                                </div>
+                                            ))
+                                        )}
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EmailTemplateEditor;
@@ -0,0 +1,417 @@
+import React, { useState, useEffect } from 'react';
+import '../leave-styles.css';
+import '../checkin-styles.css';
+
+type Calculation = 'amount' | 'per_diem' | 'mileage';
+
+interface ExpensePolicy {
+    expense_type: string;
+    label: string;
+    aliases: string[];
+    calculation: Calculation;
+    daily_cap: string | null;
+    rate_per_km: string | null;
+    receipt_required_above: string | null;
+    is_active: boolean;
+}
+
+interface CityTier {
+    city: string;
+    city_tier: string;
+}
+
+interface ExpensePolicyManagerProps {
+    token: string;
+}
+
+const CITY_TIERS = ['tier1', 'tier2', 'tier3'];
+
+const CALCULATION_LABELS: Record<Calculation, string> = {
+    amount: 'Amount as entered',
+    per_diem: 'Per-diem by city tier',
+    mileage: 'Mileage (km x rate)'
+};
+
+const emptyForm = {
+    expenseType: '',
+    label: '',
+    aliases: '',
+    calculation: 'amount' as Calculation,
+    dailyCap: '',
+    ratePerKm: '',
+    receiptRequiredAbove: ''
+};
+
+const ExpensePolicyManager: React.FC<ExpensePolicyManagerProps> = ({ token }) => {
+    const [policies, setPolicies] = useState<ExpensePolicy[]>([]);
+    const [perDiemRates, setPerDiemRates] = useState<Record<string, string>>({});
+    const [cities, setCities] = useState<CityTier[]>([]);
+    const [defaultCityTier, setDefaultCityTier] = useState('tier3');
+    const [defaultReceiptThreshold, setDefaultReceiptThreshold] = useState(0);
+    const [formData, setFormData] = useState(emptyForm);
+    const [editingType, setEditingType] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const loadData = async () => {
+        setLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/expense-policies`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (!response.ok) throw new Error('Failed to load expense policies');
+
+            const data = await response.json();
+            setPolicies(data.policies);
+            setPerDiemRates(Object.fromEntries(
+                Object.entries(data.perDiemRates).map(([tier, amount]) => [tier, String(amount)])
+            ));
+            setCities(data.cities);
+            setDefaultCityTier(data.defaultCityTier);
+            setDefaultReceiptThreshold(data.defaultReceiptThreshold);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    const send = async (url: string, method: string, body: object, successMessage: string) => {
+        setSaving(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify(body)
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to save expense policy');
+
+            setSuccess(successMessage);
+            loadData();
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save expense policy');
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const body = {
+            ...formData,
+            aliases: formData.aliases.split(',').map(a => a.trim()).filter(Boolean)
+        };
+
+        const saved = editingType
+            ? await send(`${API_URL}/admin/expense-policies/${encodeURIComponent(editingType)}`, 'PUT', body, `${formData.label} updated`)
+            : await send(`${API_URL}/admin/expense-policies`, 'POST', body, `${formData.label} added`);
+
+        if (saved) {
+            setFormData(emptyForm);
+            setEditingType(null);
+        }
+    };
+
+    const handleEdit = (policy: ExpensePolicy) => {
+        setEditingType(policy.expense_type);
+        setFormData({
+            expenseType: policy.expense_type,
+            label: policy.label,
+            aliases: policy.aliases.join(', '),
+            calculation: policy.calculation,
+            dailyCap: policy.daily_cap ? String(parseFloat(policy.daily_cap)) : '',
+            ratePerKm: policy.rate_per_km ? String(parseFloat(policy.rate_per_km)) : '',
+            receiptRequiredAbove: policy.receipt_required_above !== null ? String(parseFloat(policy.receipt_required_above)) : ''
+        });
+    };
+
+    const handleToggleActive = (policy: ExpensePolicy) =>
+        send(`${API_URL}/admin/expense-policies/${encodeURIComponent(policy.expense_type)}`, 'PUT', {
+            label: policy.label,
+            aliases: policy.aliases,
+            calculation: policy.calculation,
+            dailyCap: policy.daily_cap,
+            ratePerKm: policy.rate_per_km,
+            receiptRequiredAbove: policy.receipt_required_above,
+            isActive: !policy.is_active
+        }, `${policy.label} ${policy.is_active ? 'deactivated' : 'activated'}`);
+
+    const handleSaveRates = () =>
+        send(`${API_URL}/admin/expense-per-diem`, 'PUT', { rates: perDiemRates }, 'Per-diem rates updated');
+
+    const handleSaveCities = () =>
+        send(`${API_URL}/admin/expense-cities`, 'PUT', {
+            cities: cities.filter(c => c.city.trim())
+        }, 'City tiers updated');
+
+    const updateCity = (index: number, field: keyof CityTier, value: string) => {
+        setCities(prev => prev.map((c, i) => (i === index ? { ...c, [field]: value } : c)));
+    };
+
+    const describeLimits = (policy: ExpensePolicy) => {
+        const limits = [CALCULATION_LABELS[policy.calculation]];
+        if (policy.daily_cap) limits.push(`max ₹${parseFloat(policy.daily_cap)}/day`);
+        if (policy.rate_per_km) limits.push(`₹${parseFloat(policy.rate_per_km)}/km`);
+
+        const threshold = policy.receipt_required_above !== null
+            ? parseFloat(policy.receipt_required_above)
+            : defaultReceiptThreshold;
+        limits.push(threshold > 0 ? `receipt above ₹${threshold}` : 'receipt always required');
+
+        return limits.join(' • ');
+    };
+
+    if (loading) {
+        return <div className="approval-loading">⏳ Loading expense policies...</div>;
+    }
+
+    return (
+        <div className="leave-approval-container">
+            <div className="approval-header">
+                <h2>💼 EXPENSE POLICY</h2>
+                <p className="approval-subtitle">
+                    Allowed site visit expense types and their limits. Expenses outside policy are flagged to the approver.
+                </p>
+            </div>
+
+            {error && <div className="error-message">⚠️ {error}</div>}
+            {success && <div className="success-message">✅ {success}</div>}
+
+            <form onSubmit={handleSubmit} className="create-user-form">
+                <h3>{editingType ? 'EDIT EXPENSE TYPE' : 'ADD EXPENSE TYPE'}</h3>
+
+                <div className="form-row">
+                    <div className="form-group">
+                        <label className="form-label">KEY *</label>
+                        <input
+                            type="text"
+                            className="form-input"
+                            value={formData.expenseType}
+                            onChange={(e) => setFormData({ ...formData, expenseType: e.target.value })}
+                            placeholder="courier"
+                            disabled={editingType !== null}
+                            required
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">LABEL *</label>
+                        <input
+                            type="text"
+                            className="form-input"
+                            value={formData.label}
+                            onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                            placeholder="Courier"
+                            required
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">ALIASES (COMMA SEPARATED)</label>
+                        <input
+                            type="text"
+                            className="form-input"
+                            value={formData.aliases}
+                            onChange={(e) => setFormData({ ...formData, aliases: e.target.value })}
+                            placeholder="post, parcel"
+                        />
+                    </div>
+                </div>
+
+                <div className="form-row">
+                    <div className="form-group">
+                        <label className="form-label">CALCULATION</label>
+                        <select
+                            className="form-input"
+                            value={formData.calculation}
+                            onChange={(e) => setFormData({ ...formData, calculation: e.target.value as Calculation })}
+                        >
+                            {(Object.keys(CALCULATION_LABELS) as Calculation[]).map(calculation => (
+                                <option key={calculation} value={calculation}>{CALCULATION_LABELS[calculation]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {formData.calculation === 'amount' && (
+                        <div className="form-group">
+                            <label className="form-label">DAILY CAP (₹)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                className="form-input"
+                                value={formData.dailyCap}
+                                onChange={(e) => setFormData({ ...formData, dailyCap: e.target.value })}
+                                placeholder="No cap"
+                            />
+                        </div>
+                    )}
+                    {formData.calculation === 'mileage' && (
+                        <div className="form-group">
+                            <label className="form-label">RATE PER KM (₹) *</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                className="form-input"
+                                value={formData.ratePerKm}
+                                onChange={(e) => setFormData({ ...formData, ratePerKm: e.target.value })}
+                                required
+                            />
+                        </div>
+                    )}
+                    <div className="form-group">
+                        <label className="form-label">RECEIPT REQUIRED ABOVE (₹)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            className="form-input"
+                            value={formData.receiptRequiredAbove}
+                            onChange={(e) => setFormData({ ...formData, receiptRequiredAbove: e.target.value })}
+                            placeholder={`Default ₹${defaultReceiptThreshold}`}
+                        />
+                    </div>
+                </div>
+
+                <div className="form-actions">
+                    {editingType && (
+                        <button
+                            type="button"
+                            className="btn-cancel"
+                            onClick={() => { setEditingType(null); setFormData(emptyForm); }}
+                        >
+                            CANCEL
+                        </button>
+                    )}
+                    <button type="submit" className="btn-submit" disabled={saving}>
+                        {saving ? 'SAVING...' : editingType ? 'SAVE TYPE' : 'ADD TYPE'}
+                    </button>
+                </div>
+            </form>
+
+            <h3>EXPENSE TYPES ({policies.filter(p => p.is_active).length} ACTIVE)</h3>
+            <div className="leave-list">
+                {policies.map(policy => (
+                    <div key={policy.expense_type} className="leave-item">
+                        <div className="leave-item-content">
+                            <div className="leave-item-title">
+                                {policy.label}
+                                {!policy.is_active && <span className="leave-status-badge rejected">INACTIVE</span>}
+                            </div>
+                            <div className="leave-item-meta">{describeLimits(policy)}</div>
+                            {policy.aliases.length > 0 && (
+                                <div className="leave-item-meta">Also: {policy.aliases.join(', ')}</div>
+                            )}
+                        </div>
+                        <div className="geofence-actions">
+                            <button className="btn-activate" onClick={() => handleEdit(policy)}>EDIT</button>
+                            <button
+                                className={policy.is_active ? 'btn-deactivate' : 'btn-activate'}
+                                onClick={() => handleToggleActive(policy)}
+                                disabled={saving}
+                            >
+                                {policy.is_active ? 'DEACTIVATE' : 'ACTIVATE'}
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="create-user-form">
+                <h3>FOOD PER-DIEM (₹/DAY)</h3>
+                <div className="form-row">
+                    {CITY_TIERS.map(tier => (
+                        <div key={tier} className="form-group">
+                            <label className="form-label">{tier.toUpperCase()}</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                className="form-input"
+                                value={perDiemRates[tier] || ''}
+                                onChange={(e) => setPerDiemRates({ ...perDiemRates, [tier]: e.target.value })}
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="form-actions">
+                    <button type="button" className="btn-submit" onClick={handleSaveRates} disabled={saving}>
+                        SAVE RATES
+                    </button>
+                </div>
+            </div>
+
+            <div className="create-user-form">
+                <h3>CITY TIERS</h3>
+                <p className="approval-subtitle">
+                    Matched against the site visit location. Other places use {defaultCityTier.toUpperCase()}.
+                </p>
+                {cities.map((entry, index) => (
+                    <div key={index} className="form-row">
+                        <div className="form-group">
+                            <input
+                                type="text"
+                                className="form-input"
+                                value={entry.city}
+                                onChange={(e) => updateCity(index, 'city', e.target.value)}
+                                placeholder="City"
+                            />
+                        </div>
+                        <div className="form-group">
+                            <select
+                                className="form-input"
+                                value={entry.city_tier}
+                                onChange={(e) => updateCity(index, 'city_tier', e.target.value)}
+                            >
+                                {CITY_TIERS.map(tier => (
+                                    <option key={tier} value={tier}>{tier.toUpperCase()}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <button
+                            type="button"
+                            className="btn-deactivate"
+                            onClick={() => setCities(prev => prev.filter((_, i) => i !== index))}
+                        >
+                            REMOVE
+                        </button>
+                    </div>
+                ))}
+                <div className="form-actions">
+                    <button
+                        type="button"
+                        className="btn-cancel"
+                        onClick={() => setCities(prev => [...prev, { city: '', city_tier: defaultCityTier }])}
+                    >
+                        + ADD CITY
+                    </button>
+                    <button type="button" className="btn-submit" onClick={handleSaveCities} disabled={saving}>
+                        SAVE CITIES
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExpensePolicyManager;
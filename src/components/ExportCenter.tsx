@@ -2,10 +2,13 @@
 // Simple UI for testing Excel exports
 
 import React, { useState, useEffect } from 'react';
+import CustomReportBuilder from './CustomReportBuilder';
 
 interface ExportCenterProps {
     token: string;
     onClose: () => void;
+    // Payroll contains salary data, so managers do not get it
+    canExportPayroll?: boolean;
 }
 
 interface Employee {
@@ -15,7 +18,7 @@ interface Employee {
     department: string;
 }
 
-const ExportCenter: React.FC<ExportCenterProps> = ({ token, onClose }) => {
+const ExportCenter: React.FC<ExportCenterProps> = ({ token, onClose, canExportPayroll = true }) => {
     const [reportType, setReportType] = useState<string>('individual');
     const [employees, setEmployees] = useState<Employee[]>([]);
     const [selectedEmployee, setSelectedEmployee] = useState<number>(0);
@@ -23,6 +26,7 @@ const ExportCenter: React.FC<ExportCenterProps> = ({ token, onClose }) => {
     const [endDate, setEndDate] = useState<string>('');
     const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
     const [selectedMonth, setSelectedMonth] = useState<number>(new Date().getMonth() + 1);
+    const [lateAfter, setLateAfter] = useState<string>('09:30');
     const [loading, setLoading] = useState(false);
     const [message, setMessage] = useState('');
 
@@ -187,6 +191,66 @@ const ExportCenter: React.FC<ExportCenterProps> = ({ token, onClose }) => {
         }
     };
 
+    // POST to an export endpoint and save the returned workbook
+    const downloadExport = async (endpoint: string, body: object, fallbackFilename: string, successMessage: string) => {
+        setLoading(true);
+        setMessage('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/export/${endpoint}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify(body)
+            });
+
+            if (response.ok) {
+                const blob = await response.blob();
+                const url = window.URL.createObjectURL(blob);
+                const a = document.createElement('a');
+                a.href = url;
+                a.download = response.headers.get('Content-Disposition')?.split('filename=')[1]?.replace(/"/g, '') || fallbackFilename;
+                document.body.appendChild(a);
+                a.click();
+                a.remove();
+                window.URL.revokeObjectURL(url);
+                setMessage(successMessage);
+            } else {
+                const error = await response.json();
+                setMessage(`❌ Error: ${error.error}`);
+            }
+        } catch (error) {
+            setMessage(`❌ Error: ${error instanceof Error ? error.message : 'Network error'}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleExportStatistics = async () => {
+        if (!startDate || !endDate) {
+            setMessage('❌ Please fill all fields');
+            return;
+        }
+
+        await downloadExport(
+            'statistics',
+            { startDate, endDate, lateAfter },
+            'statistics_report.xlsx',
+            '✅ Statistics report downloaded successfully!'
+        );
+    };
+
+    const handleExportPayroll = async () => {
+        await downloadExport(
+            'payroll',
+            { year: selectedYear, month: selectedMonth },
+            'payroll_report.xlsx',
+            '✅ Payroll report downloaded successfully!'
+        );
+    };
+
     return (
         <div className="modal-overlay" onClick={onClose}>
             <div className="modal-content export-center-modal" onClick={(e) => e.stopPropagation()}>
@@ -217,6 +281,26 @@ const ExportCenter: React.FC<ExportCenterProps> = ({ token, onClose }) => {
                             >
                                 Monthly Summary
                             </button>
+                            <button
+                                className={`report-type-btn ${reportType === 'statistics' ? 'active' : ''}`}
+                                onClick={() => setReportType('statistics')}
+                            >
+                                Statistics
+                            </button>
+                            {canExportPayroll && (
+                                <button
+                                    className={`report-type-btn ${reportType === 'payroll' ? 'active' : ''}`}
+                                    onClick={() => setReportType('payroll')}
+                                >
+                                    Payroll
+                                </button>
+                            )}
+                            <button
+                                className={`report-type-btn ${reportType === 'custom' ? 'active' : ''}`}
+                                onClick={() => setReportType('custom')}
+                            >
+                                Custom
+                            </button>
                         </div>
                     </div>
 
@@ -359,6 +443,121 @@ const ExportCenter: React.FC<ExportCenterProps> = ({ token, onClose }) => {
                         </div>
                     )}
 
+                    {reportType === 'statistics' && (
+                        <div className="export-form">
+                            <div className="form-group">
+                                <label>📅 Date Range:</label>
+                                <div className="date-range">
+                                    <input
+                                        type="date"
+                                        value={startDate}
+                                        onChange={(e) => setStartDate(e.target.value)}
+                                        className="export-input"
+                                    />
+                                    <span>to</span>
+                                    <input
+                                        type="date"
+                                        value={endDate}
+                                        onChange={(e) => setEndDate(e.target.value)}
+                                        className="export-input"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="form-group">
+                                <label>⏰ Late After:</label>
+                                <input
+                                    type="time"
+                                    value={lateAfter}
+                                    onChange={(e) => setLateAfter(e.target.value)}
+                                    className="export-input"
+                                />
+                            </div>
+
+                            <div className="export-actions">
+                                <button
+                                    onClick={handleExportStatistics}
+                                    disabled={loading}
+                                    className="btn-export"
+                                >
+                                    {loading ? '⏳ Generating...' : '📥 EXPORT STATISTICS'}
+                                </button>
+                            </div>
+
+                            {message && (
+                                <div className={`export-message ${message.includes('✅') ? 'success' : 'error'}`}>
+                                    {message}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {reportType === 'payroll' && (
+                        <div className="export-form">
+                            <div className="form-group">
+                                <label>📅 Pay Period:</label>
+                                <div className="date-range">
+                                    <select
+                                        value={selectedMonth}
+                                        onChange={(e) => setSelectedMonth(parseInt(e.target.value))}
+                                        className="export-select"
+                                    >
+                                        {Array.from({ length: 12 }, (_, i) => i + 1).map(month => (
+                                            <option key={month} value={month}>
+                                                {new Date(2024, month - 1, 1).toLocaleDateString('en-US', { month: 'long' })}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <select
+                                        value={selectedYear}
+                                        onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+                                        className="export-select"
+                                    >
+                                        {Array.from({ length: 10 }, (_, i) => new Date().getFullYear() - 5 + i).map(year => (
+                                            <option key={year} value={year}>{year}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="export-actions">
+                                <button
+                                    onClick={handleExportPayroll}
+                                    disabled={loading}
+                                    className="btn-export"
+                                >
+                                    {loading ? '⏳ Generating...' : '📥 EXPORT PAYROLL'}
+                                </button>
+                            </div>
+
+                            {message && (
+                                <div className={`export-message ${message.includes('✅') ? 'success' : 'error'}`}>
+                                    {message}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {reportType === 'custom' && (
+                        <div className="export-form">
+                            <CustomReportBuilder
+                                token={token}
+                                employees={employees}
+                                loading={loading}
+                                onExport={(body, fallbackFilename, successMessage) =>
+                                    downloadExport('custom', body, fallbackFilename, successMessage)
+                                }
+                                onMessage={setMessage}
+                            />
+
+                            {message && (
+                                <div className={`export-message ${message.includes('✅') ? 'success' : 'error'}`}>
+                                    {message}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     <div className="export-info">
                         {reportType === 'individual' && (
                             <>
@@ -395,6 +594,41 @@ const ExportCenter: React.FC<ExportCenterProps> = ({ token, onClose }) => {
                                 </ul>
                             </>
                         )}
+                        {reportType === 'statistics' && (
+                            <>
+                                <h4>📊 Statistics Report Includes:</h4>
+                                <ul>
+                                    <li>✅ Attendance rate per employee</li>
+                                    <li>✅ Attendance rate per department</li>
+                                    <li>✅ Late arrivals & average hours</li>
+                                    <li>✅ WFH / half-day breakdown</li>
+                                    <li>✅ Chart-ready data sheet</li>
+                                </ul>
+                            </>
+                        )}
+                        {reportType === 'payroll' && (
+                            <>
+                                <h4>📊 Payroll Report Includes:</h4>
+                                <ul>
+                                    <li>✅ Attendance & hours per employee</li>
+                                    <li>✅ Salary, bonus & advance payments</li>
+                                    <li>✅ Approved site visit reimbursements</li>
+                                    <li>✅ Loss-of-pay days & deduction</li>
+                                    <li>✅ Net payable per employee</li>
+                                </ul>
+                            </>
+                        )}
+                        {reportType === 'custom' && (
+                            <>
+                                <h4>📊 Custom Report Builder:</h4>
+                                <ul>
+                                    <li>✅ Attendance, work logs, tasks, site visits or salary</li>
+                                    <li>✅ Choose columns & filters</li>
+                                    <li>✅ Group-by with summary sheet</li>
+                                    <li>✅ Save definitions & re-run by name</li>
+                                </ul>
+                            </>
+                        )}
                     </div>
                 </div>
             </div>
@@ -0,0 +1,369 @@
+import React, { useState, useEffect } from 'react';
+import '../leave-styles.css';
+import '../checkin-styles.css';
+
+interface Geofence {
+    id: number;
+    name: string;
+    officeLocation: string | null;
+    latitude: number;
+    longitude: number;
+    radiusM: number;
+    isActive: boolean;
+    screenUrl: string;
+}
+
+interface UnverifiedCheckin {
+    id: number;
+    date: string;
+    status: string;
+    work_hours_start: string | null;
+    checkin_method: string | null;
+    user_id: number;
+    full_name: string;
+    employee_id: string;
+    office_location: string | null;
+}
+
+interface GeofenceManagerProps {
+    token: string;
+    // Managers only review their team's unverified check-ins
+    canManage?: boolean;
+}
+
+const emptyForm = {
+    name: '',
+    officeLocation: '',
+    latitude: '',
+    longitude: '',
+    radiusM: '150'
+};
+
+const GeofenceManager: React.FC<GeofenceManagerProps> = ({ token, canManage = true }) => {
+    const [geofences, setGeofences] = useState<Geofence[]>([]);
+    const [unverified, setUnverified] = useState<UnverifiedCheckin[]>([]);
+    const [formData, setFormData] = useState(emptyForm);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const loadData = async () => {
+        setLoading(true);
+        setError('');
+
+        try {
+            const headers = { 'Authorization': `Bearer ${token}` };
+
+            const unverifiedRes = await fetch(`${API_URL}/admin/checkins/unverified?days=14`, { headers });
+            if (!unverifiedRes.ok) throw new Error('Failed to load unverified check-ins');
+            setUnverified(await unverifiedRes.json());
+
+            if (canManage) {
+                const geofencesRes = await fetch(`${API_URL}/admin/geofences`, { headers });
+                if (!geofencesRes.ok) throw new Error('Failed to load geofences');
+                setGeofences(await geofencesRes.json());
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    const saveGeofence = async (url: string, method: string, body: object, successMessage: string) => {
+        setSaving(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify(body)
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to save geofence');
+
+            setSuccess(successMessage);
+            loadData();
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save geofence');
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const saved = editingId
+            ? await saveGeofence(`${API_URL}/admin/geofences/${editingId}`, 'PUT',
+                { ...formData, isActive: geofences.find(g => g.id === editingId)?.isActive ?? true },
+                `${formData.name} updated`)
+            : await saveGeofence(`${API_URL}/admin/geofences`, 'POST', formData, `${formData.name} added`);
+
+        if (saved) {
+            setFormData(emptyForm);
+            setEditingId(null);
+        }
+    };
+
+    const handleEdit = (geofence: Geofence) => {
+        setEditingId(geofence.id);
+        setFormData({
+            name: geofence.name,
+            officeLocation: geofence.officeLocation || '',
+            latitude: String(geofence.latitude),
+            longitude: String(geofence.longitude),
+            radiusM: String(geofence.radiusM)
+        });
+    };
+
+    const handleToggleActive = (geofence: Geofence) =>
+        saveGeofence(`${API_URL}/admin/geofences/${geofence.id}`, 'PUT',
+            { ...geofence, isActive: !geofence.isActive },
+            `${geofence.name} ${geofence.isActive ? 'disabled' : 'enabled'}`);
+
+    const handleRotateKey = async (geofence: Geofence) => {
+        if (!confirm(`Reset the office screen link for ${geofence.name}? Screens using the old link stop working.`)) return;
+        await saveGeofence(`${API_URL}/admin/geofences/${geofence.id}/rotate-key`, 'POST', {},
+            `New screen link for ${geofence.name} - update the office screen`);
+    };
+
+    const handleDelete = async (geofence: Geofence) => {
+        if (!confirm(`Delete ${geofence.name}? Employees there will no longer need to prove their location.`)) return;
+
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/geofences/${geofence.id}`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to delete geofence');
+
+            setSuccess(`${geofence.name} deleted`);
+            loadData();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete geofence');
+        }
+    };
+
+    // Fill the centre from where the admin is standing
+    const handleUseMyLocation = () => {
+        if (!navigator.geolocation) {
+            setError('This browser cannot share its location');
+            return;
+        }
+
+        navigator.geolocation.getCurrentPosition(
+            (position) => setFormData(prev => ({
+                ...prev,
+                latitude: position.coords.latitude.toFixed(6),
+                longitude: position.coords.longitude.toFixed(6)
+            })),
+            () => setError('Could not read your location'),
+            { enableHighAccuracy: true, timeout: 15000 }
+        );
+    };
+
+    const formatDate = (dateStr: string) =>
+        new Date(dateStr).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+    if (loading) {
+        return <div className="approval-loading">⏳ Loading check-in settings...</div>;
+    }
+
+    return (
+        <div className="leave-approval-container">
+            <div className="approval-header">
+                <h2>📍 CHECK-IN VERIFICATION</h2>
+                <p className="approval-subtitle">
+                    {canManage
+                        ? 'Office geofences, office screen QR codes and check-ins made without proof'
+                        : 'Check-ins made without location or QR proof'}
+                </p>
+            </div>
+
+            {error && <div className="error-message">⚠️ {error}</div>}
+            {success && <div className="success-message">✅ {success}</div>}
+
+            {canManage && (
+                <>
+                    <form onSubmit={handleSubmit} className="create-user-form">
+                        <h3>{editingId ? 'EDIT GEOFENCE' : 'ADD GEOFENCE'}</h3>
+
+                        <div className="form-row">
+                            <div className="form-group">
+                                <label className="form-label">NAME *</label>
+                                <input
+                                    type="text"
+                                    className="form-input"
+                                    value={formData.name}
+                                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                    placeholder="Pune HQ"
+                                    required
+                                />
+                            </div>
+                            <div className="form-group">
+                                <label className="form-label">OFFICE LOCATION</label>
+                                <input
+                                    type="text"
+                                    className="form-input"
+                                    value={formData.officeLocation}
+                                    onChange={(e) => setFormData({ ...formData, officeLocation: e.target.value })}
+                                    placeholder="Blank = every employee"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="form-row">
+                            <div className="form-group">
+                                <label className="form-label">LATITUDE *</label>
+                                <input
+                                    type="number"
+                                    step="0.000001"
+                                    className="form-input"
+                                    value={formData.latitude}
+                                    onChange={(e) => setFormData({ ...formData, latitude: e.target.value })}
+                                    required
+                                />
+                            </div>
+                            <div className="form-group">
+                                <label className="form-label">LONGITUDE *</label>
+                                <input
+                                    type="number"
+                                    step="0.000001"
+                                    className="form-input"
+                                    value={formData.longitude}
+                                    onChange={(e) => setFormData({ ...formData, longitude: e.target.value })}
+                                    required
+                                />
+                            </div>
+                            <div className="form-group">
+                                <label className="form-label">RADIUS (M) *</label>
+                                <input
+                                    type="number"
+                                    min="10"
+                                    max="5000"
+                                    className="form-input"
+                                    value={formData.radiusM}
+                                    onChange={(e) => setFormData({ ...formData, radiusM: e.target.value })}
+                                    required
+                                />
+                            </div>
+                        </div>
+
+                        <div className="form-actions">
+                            <button type="button" className="btn-cancel" onClick={handleUseMyLocation}>
+                                📍 USE MY LOCATION
+                            </button>
+                            {editingId && (
+                                <button
+                                    type="button"
+                                    className="btn-cancel"
+                                    onClick={() => { setEditingId(null); setFormData(emptyForm); }}
+                                >
+                                    CANCEL
+                                </button>
+                            )}
+                            <button type="submit" className="btn-submit" disabled={saving}>
+                                {saving ? 'SAVING...' : editingId ? 'SAVE GEOFENCE' : 'ADD GEOFENCE'}
+                            </button>
+                        </div>
+                    </form>
+
+                    <h3>GEOFENCES ({geofences.length})</h3>
+                    {geofences.length === 0 ? (
+                        <div className="leave-empty">No geofences - check-in is not location-checked</div>
+                    ) : (
+                        <div className="leave-list">
+                            {geofences.map(geofence => (
+                                <div key={geofence.id} className="leave-item">
+                                    <div className="leave-item-content">
+                                        <div className="leave-item-title">
+                                            🏢 {geofence.name}
+                                            {!geofence.isActive && <span className="leave-status-badge cancelled">DISABLED</span>}
+                                        </div>
+                                        <div className="leave-item-meta">
+                                            {geofence.officeLocation || 'Every office'} • {geofence.latitude}, {geofence.longitude} • {geofence.radiusM} m
+                                        </div>
+                                        <div className="geofence-screen-link">
+                                            <input
+                                                type="text"
+                                                className="form-input"
+                                                value={geofence.screenUrl}
+                                                readOnly
+                                                onFocus={(e) => e.target.select()}
+                                            />
+                                            <button
+                                                className="btn-submit"
+                                                onClick={() => navigator.clipboard.writeText(geofence.screenUrl)}
+                                            >
+                                                📋 COPY SCREEN LINK
+                                            </button>
+                                        </div>
+                                    </div>
+                                    <div className="geofence-actions">
+                                        <button className="btn-activate" onClick={() => handleEdit(geofence)}>EDIT</button>
+                                        <button className="btn-activate" onClick={() => handleToggleActive(geofence)} disabled={saving}>
+                                            {geofence.isActive ? 'DISABLE' : 'ENABLE'}
+                                        </button>
+                                        <button className="btn-activate" onClick={() => handleRotateKey(geofence)} disabled={saving}>
+                                            NEW LINK
+                                        </button>
+                                        <button className="btn-deactivate" onClick={() => handleDelete(geofence)}>DELETE</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+
+            <h3>UNVERIFIED CHECK-INS - LAST 14 DAYS ({unverified.length})</h3>
+            {unverified.length === 0 ? (
+                <div className="leave-empty">Every check-in at a geofenced office was verified</div>
+            ) : (
+                <div className="leave-list">
+                    {unverified.map(checkin => (
+                        <div key={checkin.id} className="leave-item">
+                            <div className="leave-item-content">
+                                <div className="leave-item-title">⚠️ {checkin.full_name}</div>
+                                <div className="leave-item-meta">
+                                    {checkin.employee_id} • {formatDate(checkin.date)} • {checkin.status.toUpperCase()}
+                                    {checkin.work_hours_start && ` at ${checkin.work_hours_start.substring(0, 5)}`}
+                                </div>
+                                <div className="leave-item-meta">
+                                    Entered via {checkin.checkin_method === 'web' ? 'the attendance form' : checkin.checkin_method} • {checkin.office_location || 'No office set'}
+                                </div>
+                            </div>
+                            <span className="leave-status-badge unverified">UNVERIFIED</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GeofenceManager;
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import '../holiday-styles.css';
 
 interface Holiday {
   id: number;
@@ -8,6 +9,20 @@ interface Holiday {
   is_recurring: boolean;
 }
 
+interface HolidayCalendar {
+  id: number;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  holiday_count: number;
+  departments: string[];
+  office_locations: string[];
+}
+
+const EMPTY_CALENDAR_FORM = { name: '', description: '', departments: '', officeLocations: '' };
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
 interface HolidayManagementProps {
   isOpen: boolean;
   onClose: () => void;
@@ -17,7 +32,14 @@ interface HolidayManagementProps {
 
 const HolidayManagement: React.FC<HolidayManagementProps> = ({ isOpen, onClose, token: propToken, onHolidayAdd }) => {
   const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [calendarId, setCalendarId] = useState<number | null>(null);
+  const [year, setYear] = useState(new Date().getFullYear());
   const [showAddForm, setShowAddForm] = useState(false);
+  const [calendarForm, setCalendarForm] = useState<typeof EMPTY_CALENDAR_FORM | null>(null);
+  const [editingCalendarId, setEditingCalendarId] = useState<number | null>(null);
+  const [message, setMessage] = useState('');
+  const [importing, setImporting] = useState(false);
   const [formData, setFormData] = useState({
     holidayName: '',
     holidayDate: '',
@@ -28,15 +50,24 @@ const HolidayManagement: React.FC<HolidayManagementProps> = ({ isOpen, onClose,
   const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
   const token = propToken || localStorage.getItem('token');
 
-  useEffect(() => {
-    if (isOpen) {
-      loadHolidays();
+  const loadCalendars = async () => {
+    try {
+      const response = await fetch(`${API_URL}/admin/holiday-calendars`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      const data: HolidayCalendar[] = await response.json();
+      setCalendars(data);
+      setCalendarId(current => current && data.some(c => c.id === current) ? current : data[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading holiday calendars:', error);
     }
-  }, [isOpen]);
+  };
 
   const loadHolidays = async () => {
+    if (!calendarId) return;
+
     try {
-      const response = await fetch(`${API_URL}/holidays?year=${new Date().getFullYear()}`, {
+      const response = await fetch(`${API_URL}/holidays?year=${year}&calendarId=${calendarId}`, {
         headers: { 'Authorization': `Bearer ${token}` }
       });
       const data = await response.json();
@@ -46,6 +77,20 @@ const HolidayManagement: React.FC<HolidayManagementProps> = ({ isOpen, onClose,
     }
   };
 
+  useEffect(() => {
+    if (isOpen) {
+      loadCalendars();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadHolidays();
+    }
+  }, [isOpen, calendarId, year]);
+
+  const selectedCalendar = calendars.find(c => c.id === calendarId);
+
   const handleAddHoliday = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -56,11 +101,12 @@ const HolidayManagement: React.FC<HolidayManagementProps> = ({ isOpen, onClose,
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify(formData)
+        body: JSON.stringify({ ...formData, calendarId })
       });
 
       if (response.ok) {
         await loadHolidays();
+        await loadCalendars();
         setShowAddForm(false);
         setFormData({
           holidayName: '',
@@ -83,11 +129,111 @@ const HolidayManagement: React.FC<HolidayManagementProps> = ({ isOpen, onClose,
         headers: { 'Authorization': `Bearer ${token}` }
       });
       await loadHolidays();
+      await loadCalendars();
     } catch (error) {
       console.error('Error deleting holiday:', error);
     }
   };
 
+  const openCalendarForm = (calendar?: HolidayCalendar) => {
+    setEditingCalendarId(calendar?.id ?? null);
+    setCalendarForm(calendar ? {
+      name: calendar.name,
+      description: calendar.description || '',
+      departments: calendar.departments.join(', '),
+      officeLocations: calendar.office_locations.join(', ')
+    } : EMPTY_CALENDAR_FORM);
+  };
+
+  const handleSaveCalendar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!calendarForm) return;
+
+    try {
+      const response = await fetch(
+        editingCalendarId ? `${API_URL}/admin/holiday-calendars/${editingCalendarId}` : `${API_URL}/admin/holiday-calendars`,
+        {
+          method: editingCalendarId ? 'PUT' : 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            name: calendarForm.name,
+            description: calendarForm.description,
+            departments: splitList(calendarForm.departments),
+            officeLocations: splitList(calendarForm.officeLocations)
+          })
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(`❌ ${data.error || 'Failed to save calendar'}`);
+        return;
+      }
+
+      setCalendarForm(null);
+      setCalendarId(data.id);
+      setMessage(`✅ Calendar "${data.name}" saved`);
+      await loadCalendars();
+    } catch (error) {
+      console.error('Error saving holiday calendar:', error);
+    }
+  };
+
+  const handleDeleteCalendar = async () => {
+    if (!selectedCalendar || !confirm(`Delete the "${selectedCalendar.name}" calendar and all its holidays?`)) return;
+
+    try {
+      const response = await fetch(`${API_URL}/admin/holiday-calendars/${selectedCalendar.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+
+      if (response.ok) {
+        setCalendarId(null);
+        await loadCalendars();
+      }
+    } catch (error) {
+      console.error('Error deleting holiday calendar:', error);
+    }
+  };
+
+  const handleImportIcs = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !calendarId) return;
+
+    setImporting(true);
+    setMessage('');
+
+    try {
+      const response = await fetch(`${API_URL}/admin/holiday-calendars/${calendarId}/import`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'text/calendar'
+        },
+        body: await file.text()
+      });
+
+      const data = await response.json();
+      setMessage(response.ok ? `✅ ${data.message}` : `❌ ${data.error || 'Import failed'}`);
+
+      if (response.ok) {
+        await loadHolidays();
+        await loadCalendars();
+      }
+    } catch (error) {
+      console.error('Error importing holidays:', error);
+      setMessage('❌ Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -102,14 +248,115 @@ const HolidayManagement: React.FC<HolidayManagementProps> = ({ isOpen, onClose,
         </div>
 
         <div className="modal-body">
+          {message && <div className="holiday-message">{message}</div>}
+
+          <div className="holiday-toolbar">
+            <select
+              className="form-input"
+              value={calendarId ?? ''}
+              onChange={(e) => setCalendarId(parseInt(e.target.value))}
+            >
+              {calendars.map(calendar => (
+                <option key={calendar.id} value={calendar.id}>
+                  {calendar.name}{calendar.is_default ? ' (everyone)' : ''} • {calendar.holiday_count}
+                </option>
+              ))}
+            </select>
+            <select className="form-input" value={year} onChange={(e) => setYear(parseInt(e.target.value))}>
+              {[year - 1, year, year + 1].map(y => (
+                <option key={y} value={y}>{y}</option>
+              ))}
+            </select>
+            <button className="btn-cancel" onClick={() => openCalendarForm()}>+ CALENDAR</button>
+            {selectedCalendar && (
+              <button className="btn-cancel" onClick={() => openCalendarForm(selectedCalendar)}>EDIT</button>
+            )}
+            {selectedCalendar && !selectedCalendar.is_default && (
+              <button className="btn-delete-small" onClick={handleDeleteCalendar}>DELETE</button>
+            )}
+          </div>
+
+          {selectedCalendar && !selectedCalendar.is_default && (
+            <div className="holiday-assignments">
+              Applies to: {[
+                ...selectedCalendar.departments.map(d => `${d} dept`),
+                ...selectedCalendar.office_locations.map(l => `${l} office`)
+              ].join(', ') || 'nobody yet'}
+            </div>
+          )}
+
+          {calendarForm && (
+            <form onSubmit={handleSaveCalendar} className="holiday-form holiday-calendar-form">
+              <div className="form-group">
+                <label className="form-label">CALENDAR NAME</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={calendarForm.name}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, name: e.target.value })}
+                  placeholder="Karnataka"
+                  required
+                />
+              </div>
+              <div className="form-group">
+                <label className="form-label">DESCRIPTION</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={calendarForm.description}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, description: e.target.value })}
+                />
+              </div>
+              {!calendars.find(c => c.id === editingCalendarId)?.is_default && (
+                <>
+                  <div className="form-group">
+                    <label className="form-label">DEPARTMENTS (COMMA SEPARATED)</label>
+                    <input
+                      type="text"
+                      className="form-input"
+                      value={calendarForm.departments}
+                      onChange={(e) => setCalendarForm({ ...calendarForm, departments: e.target.value })}
+                      placeholder="Calibration"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label className="form-label">OFFICE LOCATIONS (COMMA SEPARATED)</label>
+                    <input
+                      type="text"
+                      className="form-input"
+                      value={calendarForm.officeLocations}
+                      onChange={(e) => setCalendarForm({ ...calendarForm, officeLocations: e.target.value })}
+                      placeholder="Bengaluru, Mysuru"
+                    />
+                  </div>
+                </>
+              )}
+              <div className="form-actions">
+                <button type="button" className="btn-cancel" onClick={() => setCalendarForm(null)}>
+                  CANCEL
+                </button>
+                <button type="submit" className="btn-submit">
+                  SAVE CALENDAR
+                </button>
+              </div>
+            </form>
+          )}
+
           {!showAddForm ? (
             <>
-              <button
-                className="btn-add-holiday"
-                onClick={() => setShowAddForm(true)}
-              >
-                + ADD NEW HOLIDAY
-              </button>
+              <div className="holiday-toolbar">
+                <button
+                  className="btn-add-holiday"
+                  onClick={() => setShowAddForm(true)}
+                  disabled={!calendarId}
+                >
+                  + ADD NEW HOLIDAY
+                </button>
+                <label className={`btn-add-holiday btn-import-ics ${importing ? 'disabled' : ''}`}>
+                  {importing ? 'IMPORTING...' : '📥 IMPORT .ICS'}
+                  <input type="file" accept=".ics,text/calendar" onChange={handleImportIcs} disabled={importing || !calendarId} hidden />
+                </label>
+              </div>
 
               <div className="holidays-list">
                 {holidays.map(holiday => (
@@ -138,6 +385,9 @@ const HolidayManagement: React.FC<HolidayManagementProps> = ({ isOpen, onClose,
                     </button>
                   </div>
                 ))}
+                {holidays.length === 0 && (
+                  <div className="holiday-desc">No holidays in {year} for this calendar</div>
+                )}
               </div>
             </>
           ) : (
@@ -0,0 +1,379 @@
+import React, { useState, useEffect } from 'react';
+
+type InviteStatus = 'pending' | 'expired' | 'revoked';
+type SendVia = 'email' | 'telegram' | 'link';
+
+interface Invite {
+    id: number;
+    fullName: string;
+    email: string;
+    role: string;
+    department: string | null;
+    joiningDate: string | null;
+    telegramChatId: number | null;
+    invitedByName: string | null;
+    sentVia: SendVia | null;
+    sentAt: string | null;
+    expiresAt: string;
+    status: InviteStatus;
+}
+
+interface InviteManagerProps {
+    token: string;
+    managers: { id: number; fullName: string }[];
+}
+
+const emptyForm = {
+    fullName: '',
+    email: '',
+    role: 'employee',
+    department: '',
+    joiningDate: '',
+    managerId: '',
+    telegramChatId: '',
+    sendVia: 'email' as SendVia,
+    expiresInDays: '7'
+};
+
+const InviteManager: React.FC<InviteManagerProps> = ({ token, managers }) => {
+    const [invites, setInvites] = useState<Invite[]>([]);
+    const [emailConfigured, setEmailConfigured] = useState(true);
+    const [formData, setFormData] = useState(emptyForm);
+    const [inviteLink, setInviteLink] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const fetchInvites = async () => {
+        try {
+            const response = await fetch(`${API_URL}/admin/invites`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) throw new Error('Failed to fetch invites');
+
+            const data = await response.json();
+            setInvites(data.invites);
+            setEmailConfigured(data.emailConfigured);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        }
+    };
+
+    useEffect(() => {
+        fetchInvites();
+    }, []);
+
+    // The link is always returned, so the admin can share it by hand if sending failed
+    const showResult = (data: { invite: Invite; link: string; delivered: boolean }, requested: SendVia) => {
+        setInviteLink(data.link);
+
+        if (requested === 'link') {
+            setSuccess(`Invite created for ${data.invite.fullName}. Share the link below.`);
+        } else if (data.delivered) {
+            setSuccess(`Invite sent to ${data.invite.fullName} by ${requested}`);
+        } else {
+            setError(`Could not send the invite by ${requested}. Share the link below instead.`);
+        }
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError('');
+        setSuccess('');
+        setInviteLink('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/invites`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({
+                    ...formData,
+                    managerId: formData.managerId ? parseInt(formData.managerId) : null,
+                    telegramChatId: formData.telegramChatId ? parseInt(formData.telegramChatId) : null,
+                    expiresInDays: parseInt(formData.expiresInDays)
+                })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to create invite');
+
+            showResult(data, formData.sendVia);
+            setFormData(emptyForm);
+            fetchInvites();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create invite');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleResend = async (invite: Invite) => {
+        const sendVia: SendVia = invite.telegramChatId && invite.sentVia === 'telegram' ? 'telegram' : emailConfigured ? 'email' : 'link';
+
+        setSaving(true);
+        setError('');
+        setSuccess('');
+        setInviteLink('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/invites/${invite.id}/resend`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ sendVia })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to resend invite');
+
+            showResult(data, sendVia);
+            fetchInvites();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to resend invite');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleRevoke = async (invite: Invite) => {
+        if (!confirm(`Revoke the invite for ${invite.fullName}? The link will stop working.`)) return;
+
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/invites/${invite.id}`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to revoke invite');
+
+            setSuccess(`Invite for ${invite.fullName} revoked`);
+            fetchInvites();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to revoke invite');
+        }
+    };
+
+    const formatDate = (dateStr: string) =>
+        new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+    return (
+        <div className="leave-quota-manager">
+            {error && <div className="error-message">⚠️ {error}</div>}
+            {success && <div className="success-message">✅ {success}</div>}
+
+            {inviteLink && (
+                <div className="invite-link-box">
+                    <input type="text" className="form-input" value={inviteLink} readOnly onFocus={(e) => e.target.select()} />
+                    <button type="button" className="btn-submit" onClick={() => navigator.clipboard.writeText(inviteLink)}>
+                        📋 COPY
+                    </button>
+                </div>
+            )}
+
+            <form onSubmit={handleCreate} className="create-user-form">
+                <h3>INVITE EMPLOYEE</h3>
+
+                <div className="form-row">
+                    <div className="form-group">
+                        <label className="form-label">FULL NAME *</label>
+                        <input
+                            type="text"
+                            className="form-input"
+                            value={formData.fullName}
+                            onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+                            required
+                            placeholder="John Doe"
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">EMAIL *</label>
+                        <input
+                            type="email"
+                            className="form-input"
+                            value={formData.email}
+                            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                            required
+                            placeholder="john@company.com"
+                        />
+                    </div>
+                </div>
+
+                <div className="form-row">
+                    <div className="form-group">
+                        <label className="form-label">ROLE</label>
+                        <select
+                            className="form-input"
+                            value={formData.role}
+                            onChange={(e) => setFormData({ ...formData, role: e.target.value })}
+                        >
+                            <option value="employee">Employee</option>
+                            <option value="manager">Manager</option>
+                            <option value="admin">Admin</option>
+                        </select>
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">DEPARTMENT</label>
+                        <input
+                            type="text"
+                            className="form-input"
+                            value={formData.department}
+                            onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                            placeholder="Engineering"
+                        />
+                    </div>
+                </div>
+
+                <div className="form-row">
+                    <div className="form-group">
+                        <label className="form-label">JOINING DATE</label>
+                        <input
+                            type="date"
+                            className="form-input"
+                            value={formData.joiningDate}
+                            onChange={(e) => setFormData({ ...formData, joiningDate: e.target.value })}
+                        />
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">REPORTS TO</label>
+                        <select
+                            className="form-input"
+                            value={formData.managerId}
+                            onChange={(e) => setFormData({ ...formData, managerId: e.target.value })}
+                        >
+                            <option value="">-</option>
+                            {managers.map(m => (
+                                <option key={m.id} value={m.id}>{m.fullName}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                <div className="form-row">
+                    <div className="form-group">
+                        <label className="form-label">SEND BY</label>
+                        <select
+                            className="form-input"
+                            value={formData.sendVia}
+                            onChange={(e) => setFormData({ ...formData, sendVia: e.target.value as SendVia })}
+                        >
+                            <option value="email" disabled={!emailConfigured}>Email{emailConfigured ? '' : ' (not configured)'}</option>
+                            <option value="telegram">Telegram</option>
+                            <option value="link">Copy link only</option>
+                        </select>
+                    </div>
+
+                    <div className="form-group">
+                        <label className="form-label">TELEGRAM CHAT ID{formData.sendVia === 'telegram' ? ' *' : ''}</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            value={formData.telegramChatId}
+                            onChange={(e) => setFormData({ ...formData, telegramChatId: e.target.value })}
+                            required={formData.sendVia === 'telegram'}
+                            placeholder="123456789"
+                        />
+                    </div>
+                </div>
+
+                <div className="form-group">
+                    <label className="form-label">EXPIRES AFTER (DAYS)</label>
+                    <input
+                        type="number"
+                        className="form-input"
+                        min={1}
+                        max={30}
+                        value={formData.expiresInDays}
+                        onChange={(e) => setFormData({ ...formData, expiresInDays: e.target.value })}
+                    />
+                </div>
+
+                <div className="form-actions">
+                    <button type="submit" className="btn-submit" disabled={saving}>
+                        {saving ? 'SENDING...' : '✉️ SEND INVITE'}
+                    </button>
+                </div>
+            </form>
+
+            <h3>OPEN INVITES ({invites.length})</h3>
+            {invites.length === 0 ? (
+                <p>No open, expired or revoked invites.</p>
+            ) : (
+                <table className="leave-quota-table">
+                    <thead>
+                        <tr>
+                            <th>NAME</th>
+                            <th>ROLE</th>
+                            <th>SENT</th>
+                            <th>EXPIRES</th>
+                            <th>STATUS</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {invites.map(invite => (
+                            <tr key={invite.id}>
+                                <td>
+                                    {invite.fullName}
+                                    <br />
+                                    <small>{invite.email}</small>
+                                </td>
+                                <td>
+                                    {invite.role.toUpperCase()}
+                                    {invite.department && <><br /><small>{invite.department}</small></>}
+                                </td>
+                                <td>
+                                    {invite.sentAt ? `${formatDate(invite.sentAt)} (${invite.sentVia})` : '-'}
+                                    {invite.invitedByName && <><br /><small>by {invite.invitedByName}</small></>}
+                                </td>
+                                <td>{formatDate(invite.expiresAt)}</td>
+                                <td>
+                                    <span className={`status-badge invite-${invite.status}`}>
+                                        {invite.status.toUpperCase()}
+                                    </span>
+                                </td>
+                                <td>
+                                    <button
+                                        className="btn-activate"
+                                        onClick={() => handleResend(invite)}
+                                        disabled={saving}
+                                    >
+                                        {invite.status === 'pending' ? 'RESEND' : 'REOPEN'}
+                                    </button>
+                                    {invite.status === 'pending' && (
+                                        <button
+                                            className="btn-deactivate"
+                                            onClick={() => handleRevoke(invite)}
+                                        >
+                                            REVOKE
+                                        </button>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default InviteManager;
@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import '../leave-styles.css';
+
+interface PendingLeave {
+    id: number;
+    user_id: number;
+    full_name: string;
+    employee_id: string;
+    department: string | null;
+    start_date: string;
+    end_date: string;
+    days: number;
+    leave_type: string;
+    reason: string | null;
+    created_at: string;
+    annual_leave_quota: number | null;
+    leaves_taken: number | null;
+    leaves_pending: number | null;
+}
+
+interface LeaveApprovalProps {
+    token: string;
+}
+
+const LeaveApproval: React.FC<LeaveApprovalProps> = ({ token }) => {
+    const [pendingLeaves, setPendingLeaves] = useState<PendingLeave[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+    const [rejectionReason, setRejectionReason] = useState('');
+    const [showRejectDialog, setShowRejectDialog] = useState<number | null>(null);
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    useEffect(() => {
+        loadPendingLeaves();
+    }, []);
+
+    const loadPendingLeaves = async () => {
+        setLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/leave/pending`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to load pending leave requests');
+            }
+
+            const data = await response.json();
+            setPendingLeaves(data);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleApprove = async (leave: PendingLeave) => {
+        if (!window.confirm(`Approve ${leave.days} day(s) ${leave.leave_type} leave for ${leave.full_name}?`)) {
+            return;
+        }
+
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/leave/${leave.id}/approve`, {
+                method: 'PUT',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to approve leave');
+            }
+
+            setSuccessMessage(`✓ Leave approved for ${leave.full_name}`);
+            setPendingLeaves(prev => prev.filter(l => l.id !== leave.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to approve leave');
+        }
+    };
+
+    const handleReject = async (leave: PendingLeave) => {
+        if (!rejectionReason.trim()) {
+            setError('Please provide a reason for rejection');
+            return;
+        }
+
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/leave/${leave.id}/reject`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ reason: rejectionReason })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to reject leave');
+            }
+
+            setSuccessMessage(`✓ Leave rejected for ${leave.full_name}`);
+            setPendingLeaves(prev => prev.filter(l => l.id !== leave.id));
+            setShowRejectDialog(null);
+            setRejectionReason('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to reject leave');
+        }
+    };
+
+    const formatDate = (dateStr: string) =>
+        new Date(dateStr).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+    if (loading) {
+        return <div className="approval-loading">⏳ Loading leave requests...</div>;
+    }
+
+    return (
+        <div className="leave-approval-container">
+            <div className="approval-header">
+                <h2>🌴 LEAVE REQUESTS</h2>
+                <p className="approval-subtitle">
+                    {pendingLeaves.length} request{pendingLeaves.length !== 1 ? 's' : ''} waiting for approval
+                </p>
+            </div>
+
+            {error && <div className="error-message">⚠️ {error}</div>}
+            {successMessage && <div className="success-message">{successMessage}</div>}
+
+            {pendingLeaves.length === 0 ? (
+                <div className="leave-empty">✅ No pending leave requests</div>
+            ) : (
+                <div className="leave-list">
+                    {pendingLeaves.map(leave => {
+                        const remaining = leave.annual_leave_quota !== null
+                            ? leave.annual_leave_quota - (leave.leaves_taken || 0) - (leave.leaves_pending || 0)
+                            : null;
+
+                        return (
+                            <div key={leave.id} className="leave-approval-card">
+                                <div className="leave-item">
+                                    <div className="leave-item-content">
+                                        <div className="leave-item-title">
+                                            {leave.full_name} <span className="leave-item-meta">({leave.employee_id})</span>
+                                        </div>
+                                        <div className="leave-item-meta">
+                                            📅 {formatDate(leave.start_date)} – {formatDate(leave.end_date)} • {leave.days} day{leave.days !== 1 ? 's' : ''} • {leave.leave_type.toUpperCase()}
+                                        </div>
+                                        {leave.reason && (
+                                            <div className="leave-item-meta">📝 {leave.reason}</div>
+                                        )}
+                                        <div className="leave-item-meta">
+                                            🏢 {leave.department || 'No department'}
+                                            {remaining !== null && ` • ${leave.leaves_taken} taken, ${remaining} left after pending`}
+                                        </div>
+                                    </div>
+                                    <div className="leave-approval-actions">
+                                        <button className="btn-approve" onClick={() => handleApprove(leave)}>
+                                            ✓ APPROVE
+                                        </button>
+                                        <button
+                                            className="btn-reject"
+                                            onClick={() => {
+                                                setShowRejectDialog(leave.id);
+                                                setRejectionReason('');
+                                            }}
+                                        >
+                                            ✕ REJECT
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {showRejectDialog === leave.id && (
+                                    <div className="leave-reject-dialog">
+                                        <textarea
+                                            value={rejectionReason}
+                                            onChange={(e) => setRejectionReason(e.target.value)}
+                                            placeholder="Enter reason for rejecting this leave request..."
+                                            rows={3}
+                                        />
+                                        <div className="leave-approval-actions">
+                                            <button className="btn-reject" onClick={() => handleReject(leave)}>
+                                                SUBMIT REJECTION
+                                            </button>
+                                            <button
+                                                className="leave-btn-cancel"
+                                                onClick={() => {
+                                                    setShowRejectDialog(null);
+                                                    setRejectionReason('');
+                                                }}
+                                            >
+                                                CANCEL
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LeaveApproval;
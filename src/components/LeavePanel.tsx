@@ -0,0 +1,322 @@
+import React, { useState, useEffect } from 'react';
+import '../leave-styles.css';
+
+interface LeavePanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    token: string;
+    onLeaveChanged?: () => void;
+}
+
+interface LeaveRequest {
+    id: number;
+    start_date: string;
+    end_date: string;
+    leave_type: string;
+    reason: string | null;
+    status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+    rejection_reason: string | null;
+    approved_by_name: string | null;
+    created_at: string;
+}
+
+interface LeaveBalance {
+    quota: number;
+    taken: number;
+    pending: number;
+    remaining: number;
+}
+
+interface LeaveTypeQuota {
+    leave_type: string;
+    quota: number;
+    carried_forward: number;
+    taken: number;
+    pending: number;
+    remaining: number;
+}
+
+const LEAVE_TYPES = ['casual', 'sick', 'vacation', 'personal'];
+
+const LeavePanel: React.FC<LeavePanelProps> = ({ isOpen, onClose, token, onLeaveChanged }) => {
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const [requests, setRequests] = useState<LeaveRequest[]>([]);
+    const [balance, setBalance] = useState<LeaveBalance | null>(null);
+    const [quotas, setQuotas] = useState<LeaveTypeQuota[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+    const [form, setForm] = useState({
+        startDate: '',
+        endDate: '',
+        leaveType: 'casual',
+        reason: ''
+    });
+
+    useEffect(() => {
+        if (isOpen) {
+            loadLeaveRequests();
+        }
+    }, [isOpen]);
+
+    const loadLeaveRequests = async () => {
+        try {
+            setLoading(true);
+            const response = await fetch(`${API_URL}/leave`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (response.ok) {
+                const data = await response.json();
+                setRequests(data.requests);
+                setBalance(data.balance);
+                setQuotas(data.quotas || []);
+            }
+        } catch (err) {
+            console.error('Error loading leave requests:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const getRequestedDays = () => {
+        if (!form.startDate || !form.endDate) return 0;
+        const start = new Date(form.startDate);
+        const end = new Date(form.endDate);
+        const days = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+        return days > 0 ? days : 0;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSuccessMessage('');
+
+        if (!form.startDate || !form.endDate) {
+            setError('Please select start and end dates');
+            return;
+        }
+
+        setSubmitting(true);
+
+        try {
+            const response = await fetch(`${API_URL}/leave`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify(form)
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to submit leave request');
+            }
+
+            setSuccessMessage('✓ Leave request submitted for approval');
+            setForm({ startDate: '', endDate: '', leaveType: 'casual', reason: '' });
+            loadLeaveRequests();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to submit leave request');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleCancel = async (id: number) => {
+        if (!window.confirm('Cancel this leave request?')) {
+            return;
+        }
+
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const response = await fetch(`${API_URL}/leave/${id}/cancel`, {
+                method: 'PUT',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to cancel leave request');
+            }
+
+            setSuccessMessage('✓ Leave request cancelled');
+            loadLeaveRequests();
+            onLeaveChanged?.();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to cancel leave request');
+        }
+    };
+
+    const formatDate = (dateStr: string) =>
+        new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+    const isCancellable = (request: LeaveRequest) => {
+        if (request.status === 'pending') return true;
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        return request.status === 'approved' && new Date(request.start_date) > today;
+    };
+
+    if (!isOpen) return null;
+
+    const requestedDays = getRequestedDays();
+    const selectedQuota = quotas.find(q => q.leave_type === form.leaveType);
+
+    return (
+        <div className="task-modal-overlay" onClick={onClose}>
+            <div className="task-modal leave-panel" onClick={e => e.stopPropagation()}>
+                <div className="task-modal-header">
+                    <h2>🌴 MY LEAVE</h2>
+                    <button className="task-modal-close" onClick={onClose}>✕</button>
+                </div>
+
+                {error && <div className="task-error">⚠️ {error}</div>}
+                {successMessage && <div className="task-success">{successMessage}</div>}
+
+                {balance && (
+                    <div className="leave-balance">
+                        <div className="leave-balance-item">
+                            <span className="leave-balance-value">{balance.quota}</span>
+                            <span className="leave-balance-label">QUOTA</span>
+                        </div>
+                        <div className="leave-balance-item">
+                            <span className="leave-balance-value">{balance.taken}</span>
+                            <span className="leave-balance-label">TAKEN</span>
+                        </div>
+                        <div className="leave-balance-item">
+                            <span className="leave-balance-value">{balance.pending}</span>
+                            <span className="leave-balance-label">PENDING</span>
+                        </div>
+                        <div className="leave-balance-item remaining">
+                            <span className="leave-balance-value">{balance.remaining}</span>
+                            <span className="leave-balance-label">REMAINING</span>
+                        </div>
+                    </div>
+                )}
+
+                {quotas.length > 0 && (
+                    <div className="leave-type-quotas">
+                        {quotas.map(q => (
+                            <div key={q.leave_type} className="leave-type-quota">
+                                <span className="leave-type-quota-name">{q.leave_type.toUpperCase()}</span>
+                                <span className="leave-type-quota-value">{q.remaining}/{q.quota + q.carried_forward}</span>
+                                {q.carried_forward > 0 && (
+                                    <span className="leave-type-quota-carry">+{q.carried_forward} carried</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <form className="task-form" onSubmit={handleSubmit}>
+                    <div className="task-form-section">
+                        <h3>REQUEST LEAVE</h3>
+                        <div className="task-field-row">
+                            <div className="task-field">
+                                <label>FROM</label>
+                                <input
+                                    type="date"
+                                    value={form.startDate}
+                                    onChange={e => setForm({ ...form, startDate: e.target.value })}
+                                />
+                            </div>
+                            <div className="task-field">
+                                <label>TO</label>
+                                <input
+                                    type="date"
+                                    value={form.endDate}
+                                    min={form.startDate}
+                                    onChange={e => setForm({ ...form, endDate: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                        <div className="task-field">
+                            <label>TYPE</label>
+                            <select
+                                value={form.leaveType}
+                                onChange={e => setForm({ ...form, leaveType: e.target.value })}
+                            >
+                                {LEAVE_TYPES.map(type => {
+                                    const quota = quotas.find(q => q.leave_type === type);
+                                    return (
+                                        <option key={type} value={type}>
+                                            {type.toUpperCase()}{quota ? ` (${quota.remaining} LEFT)` : ''}
+                                        </option>
+                                    );
+                                })}
+                            </select>
+                        </div>
+                        <div className="task-field">
+                            <label>REASON</label>
+                            <textarea
+                                value={form.reason}
+                                onChange={e => setForm({ ...form, reason: e.target.value })}
+                                placeholder="Family function, doctor appointment..."
+                            />
+                        </div>
+                        {requestedDays > 0 && selectedQuota && (
+                            <p className={`leave-days-hint ${requestedDays > selectedQuota.remaining ? 'over' : ''}`}>
+                                {requestedDays} day{requestedDays !== 1 ? 's' : ''} requested • {selectedQuota.remaining} {form.leaveType} remaining
+                            </p>
+                        )}
+                        <div className="task-modal-actions">
+                            <button type="submit" className="task-btn-save" disabled={submitting}>
+                                {submitting ? 'SUBMITTING...' : 'SUBMIT REQUEST'}
+                            </button>
+                        </div>
+                    </div>
+                </form>
+
+                <div className="leave-history">
+                    <h3>MY REQUESTS</h3>
+                    {loading ? (
+                        <div className="leave-empty">Loading...</div>
+                    ) : requests.length === 0 ? (
+                        <div className="leave-empty">No leave requests yet</div>
+                    ) : (
+                        <div className="leave-list">
+                            {requests.map(request => (
+                                <div key={request.id} className="leave-item">
+                                    <div className="leave-item-content">
+                                        <div className="leave-item-title">
+                                            {formatDate(request.start_date)} – {formatDate(request.end_date)}
+                                        </div>
+                                        <div className="leave-item-meta">
+                                            {request.leave_type.toUpperCase()}
+                                            {request.reason && ` • ${request.reason}`}
+                                        </div>
+                                        {request.status === 'rejected' && request.rejection_reason && (
+                                            <div className="leave-item-rejection">
+                                                Reason: {request.rejection_reason}
+                                            </div>
+                                        )}
+                                    </div>
+                                    <span className={`leave-status-badge ${request.status}`}>
+                                        {request.status.toUpperCase()}
+                                    </span>
+                                    {isCancellable(request) && (
+                                        <button
+                                            className="leave-btn-cancel"
+                                            onClick={() => handleCancel(request.id)}
+                                        >
+                                            CANCEL
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LeavePanel;
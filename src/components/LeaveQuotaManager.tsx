@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+
+interface QuotaUser {
+    id: number;
+    fullName: string;
+    employeeId: string;
+    isActive: boolean;
+}
+
+interface LeavePolicy {
+    leave_type: string;
+    default_quota: number;
+    carry_forward_max: number;
+}
+
+interface LeaveTypeQuota {
+    leave_type: string;
+    quota: number;
+    carried_forward: number;
+    taken: number;
+    pending: number;
+    remaining: number;
+}
+
+interface LeaveQuotaManagerProps {
+    token: string;
+    users: QuotaUser[];
+}
+
+const LeaveQuotaManager: React.FC<LeaveQuotaManagerProps> = ({ token, users }) => {
+    const currentYear = new Date().getFullYear();
+    const [policies, setPolicies] = useState<LeavePolicy[]>([]);
+    const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+    const [year, setYear] = useState(currentYear);
+    const [quotas, setQuotas] = useState<LeaveTypeQuota[]>([]);
+    const [quotaInputs, setQuotaInputs] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const activeUsers = users.filter(u => u.isActive);
+
+    const fetchPolicies = async () => {
+        try {
+            const response = await fetch(`${API_URL}/admin/leave-quotas/policies`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) throw new Error('Failed to fetch leave policies');
+
+            setPolicies(await response.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        }
+    };
+
+    const applyQuotas = (rows: LeaveTypeQuota[]) => {
+        setQuotas(rows);
+        setQuotaInputs(Object.fromEntries(rows.map(q => [q.leave_type, String(q.quota)])));
+    };
+
+    const fetchUserQuotas = async (userId: number, quotaYear: number) => {
+        try {
+            const response = await fetch(`${API_URL}/admin/leave-quotas/${userId}?year=${quotaYear}`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) throw new Error('Failed to fetch leave quotas');
+
+            const data = await response.json();
+            applyQuotas(data.quotas);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        }
+    };
+
+    useEffect(() => {
+        fetchPolicies();
+    }, []);
+
+    useEffect(() => {
+        if (selectedUserId) {
+            fetchUserQuotas(selectedUserId, year);
+        }
+    }, [selectedUserId, year]);
+
+    const updatePolicy = (leaveType: string, field: 'default_quota' | 'carry_forward_max', value: string) => {
+        setPolicies(policies.map(p =>
+            p.leave_type === leaveType ? { ...p, [field]: parseInt(value) || 0 } : p
+        ));
+    };
+
+    const handleSavePolicies = async () => {
+        setSaving(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/leave-quotas/policies`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ policies })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to save leave policies');
+
+            setPolicies(data);
+            setSuccess('Leave policies saved. They apply to new quota years.');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save leave policies');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSaveQuotas = async () => {
+        if (!selectedUserId) return;
+
+        setSaving(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/leave-quotas/${selectedUserId}`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({
+                    year,
+                    quotas: Object.fromEntries(
+                        Object.entries(quotaInputs).map(([type, value]) => [type, parseInt(value) || 0])
+                    )
+                })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to save leave quotas');
+
+            applyQuotas(data.quotas);
+            setSuccess(`Leave quotas for ${year} saved`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save leave quotas');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleReset = async () => {
+        if (!window.confirm(`Open ${year} leave quotas for all active employees? Unused days carry forward up to each type's limit.`)) {
+            return;
+        }
+
+        setSaving(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/leave-quotas/reset`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ year })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to reset leave quotas');
+
+            setSuccess(data.message);
+            if (selectedUserId) {
+                await fetchUserQuotas(selectedUserId, year);
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to reset leave quotas');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="leave-quota-manager">
+            {error && <div className="error-message">⚠️ {error}</div>}
+            {success && <div className="success-message">✅ {success}</div>}
+
+            <h3>LEAVE POLICIES</h3>
+            <table className="leave-quota-table">
+                <thead>
+                    <tr>
+                        <th>TYPE</th>
+                        <th>DEFAULT DAYS / YEAR</th>
+                        <th>MAX CARRY-FORWARD</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {policies.map(policy => (
+                        <tr key={policy.leave_type}>
+                            <td>{policy.leave_type.toUpperCase()}</td>
+                            <td>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={365}
+                                    value={policy.default_quota}
+                                    onChange={(e) => updatePolicy(policy.leave_type, 'default_quota', e.target.value)}
+                                />
+                            </td>
+                            <td>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={365}
+                                    value={policy.carry_forward_max}
+                                    onChange={(e) => updatePolicy(policy.leave_type, 'carry_forward_max', e.target.value)}
+                                />
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div className="leave-quota-actions">
+                <button className="btn-submit" onClick={handleSavePolicies} disabled={saving}>
+                    SAVE POLICIES
+                </button>
+            </div>
+
+            <h3>EMPLOYEE QUOTAS</h3>
+            <div className="leave-quota-actions">
+                <select
+                    value={selectedUserId ?? ''}
+                    onChange={(e) => setSelectedUserId(e.target.value ? parseInt(e.target.value) : null)}
+                >
+                    <option value="">Select employee...</option>
+                    {activeUsers.map(u => (
+                        <option key={u.id} value={u.id}>{u.fullName} ({u.employeeId})</option>
+                    ))}
+                </select>
+                <select value={year} onChange={(e) => setYear(parseInt(e.target.value))}>
+                    {[currentYear - 1, currentYear, currentYear + 1].map(y => (
+                        <option key={y} value={y}>{y}</option>
+                    ))}
+                </select>
+                <button className="btn-form-cancel" onClick={handleReset} disabled={saving}>
+                    🔄 YEARLY RESET {year}
+                </button>
+            </div>
+
+            {selectedUserId && quotas.length > 0 && (
+                <>
+                    <table className="leave-quota-table">
+                        <thead>
+                            <tr>
+                                <th>TYPE</th>
+                                <th>QUOTA</th>
+                                <th>CARRIED</th>
+                                <th>TAKEN</th>
+                                <th>PENDING</th>
+                                <th>LEFT</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {quotas.map(q => (
+                                <tr key={q.leave_type}>
+                                    <td>{q.leave_type.toUpperCase()}</td>
+                                    <td>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={365}
+                                            value={quotaInputs[q.leave_type] ?? ''}
+                                            onChange={(e) => setQuotaInputs({ ...quotaInputs, [q.leave_type]: e.target.value })}
+                                        />
+                                    </td>
+                                    <td>{q.carried_forward}</td>
+                                    <td>{q.taken}</td>
+                                    <td>{q.pending}</td>
+                                    <td>{q.remaining}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="leave-quota-actions">
+                        <button className="btn-submit" onClick={handleSaveQuotas} disabled={saving}>
+                            {saving ? 'SAVING...' : 'SAVE QUOTAS'}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default LeaveQuotaManager;
@@ -33,17 +33,22 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
 
             const data = await response.json();
 
+            if (data.pending) {
+                throw new Error('Your account is pending admin approval');
+            }
+
             if (!response.ok) {
                 throw new Error(data.error || 'Login failed');
             }
 
-            // Store token and user info
+            // Store tokens and user info
             localStorage.setItem('token', data.token);
+            localStorage.setItem('refreshToken', data.refreshToken);
             localStorage.setItem('user', JSON.stringify(data.user));
 
             onLogin(data.token, data.user);
-        } catch (err: any) {
-            setError(err.message || 'Login failed. Please try again.');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Login failed. Please try again.');
         } finally {
             setIsLoading(false);
         }
@@ -88,13 +93,13 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
                     )}
 
                     <div className="form-group">
-                        <label className="form-label">USERNAME</label>
+                        <label className="form-label">EMAIL OR USERNAME</label>
                         <input
                             type="text"
                             className="form-input"
                             value={username}
                             onChange={(e) => setUsername(e.target.value)}
-                            placeholder="Enter username"
+                            placeholder="Enter email or username"
                             required
                         />
                     </div>
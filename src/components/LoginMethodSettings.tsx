@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+
+interface AuthMethod {
+    method: 'password' | 'magic_link';
+    is_enabled: boolean;
+    updated_at: string | null;
+    updated_by_name: string | null;
+}
+
+interface LoginMethodSettingsProps {
+    token: string;
+}
+
+const METHOD_LABELS: Record<AuthMethod['method'], string> = {
+    password: '🔑 EMAIL & PASSWORD',
+    magic_link: '✨ EMAILED LOGIN LINK'
+};
+
+const LoginMethodSettings: React.FC<LoginMethodSettingsProps> = ({ token }) => {
+    const [methods, setMethods] = useState<AuthMethod[]>([]);
+    const [emailConfigured, setEmailConfigured] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const fetchMethods = async () => {
+        try {
+            const response = await fetch(`${API_URL}/admin/auth-methods`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) throw new Error('Failed to fetch login methods');
+
+            const data = await response.json();
+            setMethods(data.methods);
+            setEmailConfigured(data.emailConfigured);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        }
+    };
+
+    useEffect(() => {
+        fetchMethods();
+    }, []);
+
+    const handleToggle = async (method: AuthMethod) => {
+        setSaving(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/auth-methods/${method.method}`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ enabled: !method.is_enabled })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to update login method');
+
+            setSuccess(`${METHOD_LABELS[method.method]} ${data.enabled ? 'enabled' : 'disabled'}`);
+            await fetchMethods();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update login method');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="leave-quota-manager">
+            {error && <div className="error-message">⚠️ {error}</div>}
+            {success && <div className="success-message">✅ {success}</div>}
+
+            <h3>LOGIN METHODS</h3>
+            <table className="leave-quota-table">
+                <thead>
+                    <tr>
+                        <th>METHOD</th>
+                        <th>STATUS</th>
+                        <th>LAST CHANGED</th>
+                        <th></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    <tr>
+                        <td>🌐 GOOGLE</td>
+                        <td>
+                            <span className="status-badge active">✅ ALWAYS ON</span>
+                        </td>
+                        <td>-</td>
+                        <td></td>
+                    </tr>
+                    {methods.map(method => (
+                        <tr key={method.method}>
+                            <td>{METHOD_LABELS[method.method]}</td>
+                            <td>
+                                <span className={`status-badge ${method.is_enabled ? 'active' : 'inactive'}`}>
+                                    {method.is_enabled ? '✅ ENABLED' : '❌ DISABLED'}
+                                </span>
+                            </td>
+                            <td>
+                                {method.updated_by_name
+                                    ? `${method.updated_by_name}, ${new Date(method.updated_at!).toLocaleDateString()}`
+                                    : '-'}
+                            </td>
+                            <td>
+                                <button
+                                    className={method.is_enabled ? 'btn-deactivate' : 'btn-activate'}
+                                    onClick={() => handleToggle(method)}
+                                    disabled={saving}
+                                >
+                                    {method.is_enabled ? 'DISABLE' : 'ENABLE'}
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {!emailConfigured && (
+                <div className="error-message">
+                    ⚠️ Email (SMTP) is not configured, so login links and password resets cannot be sent.
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LoginMethodSettings;
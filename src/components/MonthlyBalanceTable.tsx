@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import '../balance-styles.css';
+
+interface TeamBalance {
+    user_id: number;
+    full_name: string;
+    employee_id: string;
+    department: string | null;
+    total_hours_worked: string;
+    expected_hours: string;
+    balance_hours: string;
+    working_days: number;
+    days_present: number;
+    days_wfh: number;
+    days_half_day: number;
+    days_on_leave: number;
+    updated_at: string;
+}
+
+interface AttendanceDay {
+    date: string;
+    status: string;
+    work_hours_start: string | null;
+    work_hours_end: string | null;
+    checkin_verified: boolean | null;
+    auto_closed_at: string | null;
+    needs_review: boolean;
+}
+
+interface MonthlyBalanceTableProps {
+    token: string;
+    onViewEmployee: (userId: number) => void;
+    canRecompute?: boolean;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const MonthlyBalanceTable: React.FC<MonthlyBalanceTableProps> = ({ token, onViewEmployee, canRecompute = true }) => {
+    const today = new Date();
+    const [year, setYear] = useState(today.getFullYear());
+    const [month, setMonth] = useState(today.getMonth() + 1);
+    const [balances, setBalances] = useState<TeamBalance[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [recomputing, setRecomputing] = useState(false);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+    const [expandedUserId, setExpandedUserId] = useState<number | null>(null);
+    const [days, setDays] = useState<AttendanceDay[]>([]);
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const loadBalances = async () => {
+        setLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/monthly-balance/${year}/${month}`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to load monthly balances');
+            }
+
+            const data = await response.json();
+            setBalances(data.balances);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        setExpandedUserId(null);
+        loadBalances();
+    }, [year, month]);
+
+    const handleRecompute = async () => {
+        setRecomputing(true);
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/monthly-balance/recompute`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ year, month })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to recompute balances');
+            }
+
+            setSuccessMessage(`✓ ${data.message}`);
+            await loadBalances();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to recompute balances');
+        } finally {
+            setRecomputing(false);
+        }
+    };
+
+    const handleToggleRow = async (userId: number) => {
+        if (expandedUserId === userId) {
+            setExpandedUserId(null);
+            return;
+        }
+
+        setExpandedUserId(userId);
+        setDays([]);
+
+        try {
+            const response = await fetch(
+                `${API_URL}/attendance?userId=${userId}&month=${year}-${String(month).padStart(2, '0')}`,
+                { headers: { 'Authorization': `Bearer ${token}` } }
+            );
+
+            if (response.ok) {
+                const data: AttendanceDay[] = await response.json();
+                setDays([...data].reverse());
+            }
+        } catch (err) {
+            console.error('Error loading attendance:', err);
+        }
+    };
+
+    const formatHours = (value: string) => `${parseFloat(value).toFixed(1)}h`;
+
+    const formatDay = (day: AttendanceDay) => {
+        const date = new Date(day.date).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' });
+        const hours = day.work_hours_start && day.work_hours_end
+            ? ` ${day.work_hours_start.substring(0, 5)}–${day.work_hours_end.substring(0, 5)}`
+            : '';
+        const unverified = day.checkin_verified === false ? ' ⚠️ UNVERIFIED' : '';
+        const closed = day.needs_review ? ' ⚠️ NO CHECK-OUT' : day.auto_closed_at ? ' (AUTO-CLOSED)' : '';
+        return `${date}: ${day.status.toUpperCase()}${hours}${unverified}${closed}`;
+    };
+
+    return (
+        <div className="balance-team-container">
+            <div className="approval-header">
+                <h2>⏱️ MONTHLY HOUR BALANCE</h2>
+                <p className="approval-subtitle">Hours worked against expected hours for each employee</p>
+            </div>
+
+            {error && <div className="error-message">⚠️ {error}</div>}
+            {successMessage && <div className="success-message">{successMessage}</div>}
+
+            <div className="balance-toolbar">
+                <select value={month} onChange={(e) => setMonth(parseInt(e.target.value))}>
+                    {MONTHS.map((name, i) => (
+                        <option key={name} value={i + 1}>{name.toUpperCase()}</option>
+                    ))}
+                </select>
+                <select value={year} onChange={(e) => setYear(parseInt(e.target.value))}>
+                    {[today.getFullYear() - 1, today.getFullYear()].map(y => (
+                        <option key={y} value={y}>{y}</option>
+                    ))}
+                </select>
+                {canRecompute && (
+                    <button className="balance-btn" onClick={handleRecompute} disabled={recomputing}>
+                        {recomputing ? 'RECOMPUTING...' : '🔄 RECOMPUTE'}
+                    </button>
+                )}
+            </div>
+
+            {loading ? (
+                <div className="approval-loading">⏳ Loading balances...</div>
+            ) : balances.length === 0 ? (
+                <div className="balance-empty">
+                    No balances for this month yet.{canRecompute && ' Use RECOMPUTE to calculate them.'}
+                </div>
+            ) : (
+                <table className="balance-table">
+                    <thead>
+                        <tr>
+                            <th>EMPLOYEE</th>
+                            <th>WORKED</th>
+                            <th>EXPECTED</th>
+                            <th>BALANCE</th>
+                            <th>PRESENT</th>
+                            <th>WFH</th>
+                            <th>HALF</th>
+                            <th>LEAVE</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {balances.map(balance => (
+                            <React.Fragment key={balance.user_id}>
+                                <tr className="balance-row" onClick={() => handleToggleRow(balance.user_id)}>
+                                    <td>
+                                        {expandedUserId === balance.user_id ? '▼' : '▶'} {balance.full_name}
+                                        <div className="leave-item-meta">{balance.employee_id} • {balance.department || 'No department'}</div>
+                                    </td>
+                                    <td>{formatHours(balance.total_hours_worked)}</td>
+                                    <td>{formatHours(balance.expected_hours)}</td>
+                                    <td className={parseFloat(balance.balance_hours) >= 0 ? 'balance-positive' : 'balance-negative'}>
+                                        {parseFloat(balance.balance_hours) >= 0 ? '+' : ''}{formatHours(balance.balance_hours)}
+                                    </td>
+                                    <td>{balance.days_present}</td>
+                                    <td>{balance.days_wfh}</td>
+                                    <td>{balance.days_half_day}</td>
+                                    <td>{balance.days_on_leave}</td>
+                                </tr>
+                                {expandedUserId === balance.user_id && (
+                                    <tr className="balance-detail">
+                                        <td colSpan={8}>
+                                            {days.length === 0 ? (
+                                                <div className="balance-empty">No attendance marked this month</div>
+                                            ) : (
+                                                <div className="balance-detail-list">
+                                                    {days.map(day => (
+                                                        <span key={day.date}>{formatDay(day)}</span>
+                                                    ))}
+                                                </div>
+                                            )}
+                                            <div className="balance-toolbar">
+                                                <button className="balance-btn" onClick={() => onViewEmployee(balance.user_id)}>
+                                                    📅 OPEN CALENDAR
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default MonthlyBalanceTable;
@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import '../notification-styles.css';
+
+interface NotificationBellProps {
+    token: string;
+}
+
+interface Notification {
+    id: number;
+    type: string;
+    title: string;
+    message: string | null;
+    link: string | null;
+    is_read: boolean;
+    created_at: string;
+}
+
+const POLL_INTERVAL_MS = 60000;
+
+const NotificationBell: React.FC<NotificationBellProps> = ({ token }) => {
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [notifications, setNotifications] = useState<Notification[]>([]);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const dropdownRef = useRef<HTMLDivElement>(null);
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        loadUnreadCount();
+        const interval = setInterval(loadUnreadCount, POLL_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [token]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        loadNotifications();
+
+        const handleClickOutside = (e: MouseEvent) => {
+            if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    const loadUnreadCount = async () => {
+        try {
+            const response = await fetch(`${API_URL}/notifications/unread-count`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (response.ok) {
+                const data = await response.json();
+                setUnreadCount(data.count);
+            }
+        } catch (error) {
+            console.error('Error loading unread count:', error);
+        }
+    };
+
+    const loadNotifications = async () => {
+        try {
+            setLoading(true);
+            const response = await fetch(`${API_URL}/notifications?limit=20`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (response.ok) {
+                const data = await response.json();
+                setNotifications(data.notifications);
+                setUnreadCount(data.unreadCount);
+            }
+        } catch (error) {
+            console.error('Error loading notifications:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const markRead = async (id: number) => {
+        try {
+            await fetch(`${API_URL}/notifications/${id}/read`, {
+                method: 'PUT',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            setNotifications(prev => prev.map(n => n.id === id ? { ...n, is_read: true } : n));
+            setUnreadCount(prev => Math.max(prev - 1, 0));
+        } catch (error) {
+            console.error('Error marking notification read:', error);
+        }
+    };
+
+    const handleMarkAllRead = async () => {
+        try {
+            const response = await fetch(`${API_URL}/notifications/read-all`, {
+                method: 'PUT',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (response.ok) {
+                setNotifications(prev => prev.map(n => ({ ...n, is_read: true })));
+                setUnreadCount(0);
+            }
+        } catch (error) {
+            console.error('Error marking all notifications read:', error);
+        }
+    };
+
+    const handleNotificationClick = async (notification: Notification) => {
+        if (!notification.is_read) {
+            await markRead(notification.id);
+        }
+        if (notification.link) {
+            setIsOpen(false);
+            navigate(notification.link);
+        }
+    };
+
+    const formatTimeAgo = (dateStr: string) => {
+        const diffMinutes = Math.floor((Date.now() - new Date(dateStr).getTime()) / 60000);
+        if (diffMinutes < 1) return 'just now';
+        if (diffMinutes < 60) return `${diffMinutes}m ago`;
+        const diffHours = Math.floor(diffMinutes / 60);
+        if (diffHours < 24) return `${diffHours}h ago`;
+        const diffDays = Math.floor(diffHours / 24);
+        if (diffDays < 7) return `${diffDays}d ago`;
+        return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    };
+
+    return (
+        <div className="notification-bell" ref={dropdownRef}>
+            <button
+                className="btn-notification-bell"
+                onClick={() => setIsOpen(!isOpen)}
+                title="Notifications"
+            >
+                🔔
+                {unreadCount > 0 && (
+                    <span className="notification-badge">{unreadCount > 99 ? '99+' : unreadCount}</span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="notification-dropdown">
+                    <div className="notification-dropdown-header">
+                        <span>NOTIFICATIONS</span>
+                        {unreadCount > 0 && (
+                            <button className="notification-mark-all" onClick={handleMarkAllRead}>
+                                MARK ALL READ
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="notification-list">
+                        {loading && notifications.length === 0 ? (
+                            <div className="notification-empty">Loading...</div>
+                        ) : notifications.length === 0 ? (
+                            <div className="notification-empty">No notifications yet</div>
+                        ) : (
+                            notifications.map(notification => (
+                                <div
+                                    key={notification.id}
+                                    className={`notification-item ${notification.is_read ? '' : 'unread'} ${notification.link ? 'clickable' : ''}`}
+                                    onClick={() => handleNotificationClick(notification)}
+                                >
+                                    <div className="notification-title">{notification.title}</div>
+                                    {notification.message && (
+                                        <div className="notification-message">{notification.message}</div>
+                                    )}
+                                    <div className="notification-time">{formatTimeAgo(notification.created_at)}</div>
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default NotificationBell;
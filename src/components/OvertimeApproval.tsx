@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import '../leave-styles.css';
+
+interface PendingOvertime {
+    id: number;
+    user_id: number;
+    full_name: string;
+    employee_id: string;
+    department: string | null;
+    attendance_date: string;
+    overtime_minutes: number;
+    justification: string;
+    work_hours_start: string | null;
+    work_hours_end: string | null;
+    shift_name: string | null;
+    shift_start: string | null;
+    shift_end: string | null;
+}
+
+interface OvertimeApprovalProps {
+    token: string;
+}
+
+const formatMinutes = (minutes: number) =>
+    minutes >= 60 ? `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m` : `${minutes}m`;
+
+const OvertimeApproval: React.FC<OvertimeApprovalProps> = ({ token }) => {
+    const [pendingOvertime, setPendingOvertime] = useState<PendingOvertime[]>([]);
+    const [policy, setPolicy] = useState<'payable' | 'comp_off'>('payable');
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [successMessage, setSuccessMessage] = useState('');
+    const [approvedMinutes, setApprovedMinutes] = useState<Record<number, string>>({});
+    const [rejectionReason, setRejectionReason] = useState('');
+    const [showRejectDialog, setShowRejectDialog] = useState<number | null>(null);
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    useEffect(() => {
+        loadPendingOvertime();
+    }, []);
+
+    const loadPendingOvertime = async () => {
+        setLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/overtime/pending`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to load pending overtime');
+            }
+
+            const data = await response.json();
+            setPendingOvertime(data.requests);
+            setPolicy(data.policy);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleApprove = async (overtime: PendingOvertime) => {
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/overtime/${overtime.id}/approve`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ approvedMinutes: approvedMinutes[overtime.id] || null })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to approve overtime');
+            }
+
+            const outcome = data.compensation === 'payable'
+                ? 'payable hours'
+                : data.compOffEarned ? 'comp-off credit earned' : 'banked for comp-off';
+
+            setSuccessMessage(`✓ ${overtime.full_name}: ${formatMinutes(data.approvedMinutes)} approved (${outcome})`);
+            setPendingOvertime(prev => prev.filter(o => o.id !== overtime.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to approve overtime');
+        }
+    };
+
+    const handleReject = async (overtime: PendingOvertime) => {
+        if (!rejectionReason.trim()) {
+            setError('Please provide a reason for rejection');
+            return;
+        }
+
+        setError('');
+        setSuccessMessage('');
+
+        try {
+            const response = await fetch(`${API_URL}/admin/overtime/${overtime.id}/reject`, {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ reason: rejectionReason })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to reject overtime');
+            }
+
+            setSuccessMessage(`✓ Overtime rejected for ${overtime.full_name}`);
+            setPendingOvertime(prev => prev.filter(o => o.id !== overtime.id));
+            setShowRejectDialog(null);
+            setRejectionReason('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to reject overtime');
+        }
+    };
+
+    const formatDate = (dateStr: string) =>
+        new Date(dateStr).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+    if (loading) {
+        return <div className="approval-loading">⏳ Loading overtime...</div>;
+    }
+
+    return (
+        <div className="leave-approval-container">
+            <div className="approval-header">
+                <h2>⏰ OVERTIME</h2>
+                <p className="approval-subtitle">
+                    {pendingOvertime.length} request{pendingOvertime.length !== 1 ? 's' : ''} waiting for approval
+                    {' • '}
+                    {policy === 'payable' ? 'Approved overtime is paid in payroll' : 'Approved overtime is banked for comp-offs'}
+                </p>
+            </div>
+
+            {error && <div className="error-message">⚠️ {error}</div>}
+            {successMessage && <div className="success-message">{successMessage}</div>}
+
+            {pendingOvertime.length === 0 ? (
+                <div className="leave-empty">✅ No pending overtime</div>
+            ) : (
+                <div className="leave-list">
+                    {pendingOvertime.map(overtime => (
+                        <div key={overtime.id} className="leave-approval-card">
+                            <div className="leave-item">
+                                <div className="leave-item-content">
+                                    <div className="leave-item-title">
+                                        {overtime.full_name} <span className="leave-item-meta">({overtime.employee_id})</span>
+                                    </div>
+                                    <div className="leave-item-meta">
+                                        📅 {formatDate(overtime.attendance_date)} • <strong>{formatMinutes(overtime.overtime_minutes)}</strong> overtime
+                                    </div>
+                                    <div className="leave-item-meta">
+                                        🕘 Worked {overtime.work_hours_start?.substring(0, 5) || '?'}-{overtime.work_hours_end?.substring(0, 5) || '?'}
+                                        {overtime.shift_name && ` • ${overtime.shift_name} ${overtime.shift_start?.substring(0, 5)}-${overtime.shift_end?.substring(0, 5)}`}
+                                    </div>
+                                    <div className="leave-item-meta">📝 {overtime.justification}</div>
+                                    <div className="leave-item-meta">🏢 {overtime.department || 'No department'}</div>
+                                </div>
+                                <div className="leave-approval-actions">
+                                    <input
+                                        type="number"
+                                        className="form-input"
+                                        min="1"
+                                        max={overtime.overtime_minutes}
+                                        placeholder={`${overtime.overtime_minutes} min`}
+                                        value={approvedMinutes[overtime.id] || ''}
+                                        onChange={(e) => setApprovedMinutes(prev => ({ ...prev, [overtime.id]: e.target.value }))}
+                                        title="Minutes to approve (leave empty for all)"
+                                    />
+                                    <button className="btn-approve" onClick={() => handleApprove(overtime)}>
+                                        ✓ APPROVE
+                                    </button>
+                                    <button
+                                        className="btn-reject"
+                                        onClick={() => {
+                                            setShowRejectDialog(overtime.id);
+                                            setRejectionReason('');
+                                        }}
+                                    >
+                                        ✕ REJECT
+                                    </button>
+                                </div>
+                            </div>
+
+                            {showRejectDialog === overtime.id && (
+                                <div className="leave-reject-dialog">
+                                    <textarea
+                                        value={rejectionReason}
+                                        onChange={(e) => setRejectionReason(e.target.value)}
+                                        placeholder="Enter reason for rejecting this overtime..."
+                                        rows={3}
+                                    />
+                                    <div className="leave-approval-actions">
+                                        <button className="btn-reject" onClick={() => handleReject(overtime)}>
+                                            SUBMIT REJECTION
+                                        </button>
+                                        <button
+                                            className="leave-btn-cancel"
+                                            onClick={() => {
+                                                setShowRejectDialog(null);
+                                                setRejectionReason('');
+                                            }}
+                                        >
+                                            CANCEL
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OvertimeApproval;
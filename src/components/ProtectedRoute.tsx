@@ -4,7 +4,8 @@ import { Navigate } from 'react-router-dom';
 interface ProtectedRouteProps {
     children: React.ReactNode;
     isAuthenticated: boolean;
-    requiredRole?: 'admin' | 'employee';
+    // Any of the listed roles may enter
+    requiredRole?: 'admin' | 'manager' | 'employee' | Array<'admin' | 'manager' | 'employee'>;
     userRole?: string;
 }
 
@@ -18,7 +19,9 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
         return <Navigate to="/login" replace />;
     }
 
-    if (requiredRole && userRole !== requiredRole) {
+    const allowedRoles: string[] = Array.isArray(requiredRole) ? requiredRole : requiredRole ? [requiredRole] : [];
+
+    if (allowedRoles.length > 0 && (!userRole || !allowedRoles.includes(userRole))) {
         return <Navigate to="/calendar" replace />;
     }
 
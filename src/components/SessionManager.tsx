@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import '../leave-styles.css';
+import '../session-styles.css';
+
+interface Session {
+    id: number;
+    device: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: string;
+    lastSeenAt: string;
+    current: boolean;
+}
+
+interface SessionManagerProps {
+    token: string;
+    onLoggedOut: () => void;
+}
+
+const SessionManager: React.FC<SessionManagerProps> = ({ token, onLoggedOut }) => {
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [revoking, setRevoking] = useState(false);
+    const [error, setError] = useState('');
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const loadSessions = async () => {
+        setLoading(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/auth/sessions`, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to load sessions');
+            }
+
+            setSessions(await response.json());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadSessions();
+    }, []);
+
+    const handleRevoke = async (session: Session) => {
+        if (session.current) {
+            onLoggedOut();
+            return;
+        }
+
+        try {
+            const response = await fetch(`${API_URL}/auth/sessions/${session.id}`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Failed to log out session');
+            }
+
+            setSessions(prev => prev.filter(s => s.id !== session.id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        }
+    };
+
+    const handleRevokeAll = async () => {
+        if (!confirm('Log out of every device, including this one?')) return;
+
+        setRevoking(true);
+        setError('');
+
+        try {
+            const response = await fetch(`${API_URL}/auth/sessions/revoke-all`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            if (!response.ok) {
+                const data = await response.json();
+                throw new Error(data.error || 'Failed to log out everywhere');
+            }
+
+            onLoggedOut();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+            setRevoking(false);
+        }
+    };
+
+    const formatDateTime = (dateStr: string) =>
+        new Date(dateStr).toLocaleString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit'
+        });
+
+    if (loading) {
+        return <div className="approval-loading">⏳ Loading sessions...</div>;
+    }
+
+    return (
+        <div className="leave-approval-container">
+            <div className="approval-header">
+                <h2>🔐 ACTIVE SESSIONS</h2>
+                <p className="approval-subtitle">Devices currently logged in to your account</p>
+            </div>
+
+            {error && <div className="error-message">⚠️ {error}</div>}
+
+            <div className="session-actions">
+                <button
+                    className="session-btn-revoke-all"
+                    onClick={handleRevokeAll}
+                    disabled={revoking}
+                >
+                    {revoking ? 'LOGGING OUT...' : '🚪 LOG OUT EVERYWHERE'}
+                </button>
+            </div>
+
+            {sessions.length === 0 ? (
+                <div className="leave-empty">No active sessions</div>
+            ) : (
+                <div className="leave-list">
+                    {sessions.map(session => (
+                        <div key={session.id} className="leave-item">
+                            <div className="leave-item-content">
+                                <div className="leave-item-title">💻 {session.device}</div>
+                                <div className="leave-item-meta">
+                                    🌐 {session.ipAddress || 'Unknown IP'} • Last seen {formatDateTime(session.lastSeenAt)}
+                                </div>
+                                <div className="leave-item-meta">
+                                    🔑 Signed in {formatDateTime(session.createdAt)}
+                                </div>
+                            </div>
+                            {session.current && (
+                                <span className="leave-status-badge current">THIS DEVICE</span>
+                            )}
+                            <button className="leave-btn-cancel" onClick={() => handleRevoke(session)}>
+                                LOG OUT
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SessionManager;
@@ -0,0 +1,350 @@
+import React, { useState, useEffect } from 'react';
+import '../leave-styles.css';
+import '../checkin-styles.css';
+
+interface Shift {
+    id: number;
+    name: string;
+    start_time: string;
+    end_time: string;
+    grace_minutes: number;
+    break_minutes: number;
+    working_days: number[];
+    is_default: boolean;
+    departments: string[];
+    users: { id: number; full_name: string }[];
+}
+
+interface Employee {
+    id: number;
+    fullName: string;
+    employeeId: string;
+    department: string | null;
+    isActive: boolean;
+    shiftId: number | null;
+}
+
+interface ShiftManagerProps {
+    token: string;
+}
+
+const WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const emptyForm = {
+    name: '',
+    startTime: '09:30',
+    endTime: '18:00',
+    graceMinutes: '10',
+    breakMinutes: '60',
+    workingDays: [1, 2, 3, 4, 5],
+    departments: ''
+};
+
+const ShiftManager: React.FC<ShiftManagerProps> = ({ token }) => {
+    const [shifts, setShifts] = useState<Shift[]>([]);
+    const [employees, setEmployees] = useState<Employee[]>([]);
+    const [formData, setFormData] = useState(emptyForm);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const loadData = async () => {
+        setLoading(true);
+        setError('');
+
+        try {
+            const headers = { 'Authorization': `Bearer ${token}` };
+
+            const shiftsRes = await fetch(`${API_URL}/admin/shifts`, { headers });
+            if (!shiftsRes.ok) throw new Error('Failed to load shifts');
+            setShifts(await shiftsRes.json());
+
+            const usersRes = await fetch(`${API_URL}/admin/users`, { headers });
+            if (!usersRes.ok) throw new Error('Failed to load employees');
+            const users: Employee[] = await usersRes.json();
+            setEmployees(users.filter(u => u.isActive));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Network error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    const send = async (url: string, method: string, body: object | null, successMessage: string) => {
+        setSaving(true);
+        setError('');
+        setSuccess('');
+
+        try {
+            const response = await fetch(url, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: body ? JSON.stringify(body) : undefined
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) throw new Error(data.error || 'Failed to save shift');
+
+            setSuccess(successMessage);
+            loadData();
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save shift');
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const body = {
+            ...formData,
+            departments: formData.departments.split(',').map(d => d.trim()).filter(Boolean)
+        };
+
+        const saved = editingId
+            ? await send(`${API_URL}/admin/shifts/${editingId}`, 'PUT', body, `${formData.name} updated`)
+            : await send(`${API_URL}/admin/shifts`, 'POST', body, `${formData.name} added`);
+
+        if (saved) {
+            setFormData(emptyForm);
+            setEditingId(null);
+        }
+    };
+
+    const handleEdit = (shift: Shift) => {
+        setEditingId(shift.id);
+        setFormData({
+            name: shift.name,
+            startTime: shift.start_time.substring(0, 5),
+            endTime: shift.end_time.substring(0, 5),
+            graceMinutes: String(shift.grace_minutes),
+            breakMinutes: String(shift.break_minutes),
+            workingDays: shift.working_days,
+            departments: shift.departments.join(', ')
+        });
+    };
+
+    const handleDelete = async (shift: Shift) => {
+        if (!confirm(`Delete ${shift.name}? Its departments and employees move to the default shift.`)) return;
+        await send(`${API_URL}/admin/shifts/${shift.id}`, 'DELETE', null, `${shift.name} deleted`);
+    };
+
+    const handleAssign = (employee: Employee, shiftId: string) =>
+        send(`${API_URL}/admin/users/${employee.id}/shift`, 'PUT', { shiftId: shiftId ? parseInt(shiftId) : null },
+            `Shift updated for ${employee.fullName}`);
+
+    const toggleDay = (day: number) => {
+        setFormData(prev => ({
+            ...prev,
+            workingDays: prev.workingDays.includes(day)
+                ? prev.workingDays.filter(d => d !== day)
+                : [...prev.workingDays, day].sort()
+        }));
+    };
+
+    // What an employee gets without a personal shift
+    const inheritedShift = (employee: Employee) =>
+        shifts.find(s => employee.department && s.departments.includes(employee.department))
+        || shifts.find(s => s.is_default);
+
+    if (loading) {
+        return <div className="approval-loading">⏳ Loading shifts...</div>;
+    }
+
+    const editingDefault = shifts.find(s => s.id === editingId)?.is_default;
+
+    return (
+        <div className="leave-approval-container">
+            <div className="approval-header">
+                <h2>🕘 SHIFTS</h2>
+                <p className="approval-subtitle">
+                    Working hours used for late arrival, early leave and overtime
+                </p>
+            </div>
+
+            {error && <div className="error-message">⚠️ {error}</div>}
+            {success && <div className="success-message">✅ {success}</div>}
+
+            <form onSubmit={handleSubmit} className="create-user-form">
+                <h3>{editingId ? 'EDIT SHIFT' : 'ADD SHIFT'}</h3>
+
+                <div className="form-row">
+                    <div className="form-group">
+                        <label className="form-label">NAME *</label>
+                        <input
+                            type="text"
+                            className="form-input"
+                            value={formData.name}
+                            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                            placeholder="Morning"
+                            required
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">START *</label>
+                        <input
+                            type="time"
+                            className="form-input"
+                            value={formData.startTime}
+                            onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                            required
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">END *</label>
+                        <input
+                            type="time"
+                            className="form-input"
+                            value={formData.endTime}
+                            onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+                            required
+                        />
+                    </div>
+                </div>
+
+                <div className="form-row">
+                    <div className="form-group">
+                        <label className="form-label">GRACE (MIN)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            max="240"
+                            className="form-input"
+                            value={formData.graceMinutes}
+                            onChange={(e) => setFormData({ ...formData, graceMinutes: e.target.value })}
+                        />
+                    </div>
+                    <div className="form-group">
+                        <label className="form-label">BREAK (MIN)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            max="480"
+                            className="form-input"
+                            value={formData.breakMinutes}
+                            onChange={(e) => setFormData({ ...formData, breakMinutes: e.target.value })}
+                        />
+                    </div>
+                    {!editingDefault && (
+                        <div className="form-group">
+                            <label className="form-label">DEPARTMENTS (COMMA SEPARATED)</label>
+                            <input
+                                type="text"
+                                className="form-input"
+                                value={formData.departments}
+                                onChange={(e) => setFormData({ ...formData, departments: e.target.value })}
+                                placeholder="Calibration, Support"
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div className="form-group">
+                    <label className="form-label">WORKING DAYS</label>
+                    <div className="form-actions" style={{ justifyContent: 'flex-start' }}>
+                        {WEEKDAYS.map((label, day) => (
+                            <button
+                                key={label}
+                                type="button"
+                                className={formData.workingDays.includes(day) ? 'btn-activate' : 'btn-cancel'}
+                                onClick={() => toggleDay(day)}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="form-actions">
+                    {editingId && (
+                        <button
+                            type="button"
+                            className="btn-cancel"
+                            onClick={() => { setEditingId(null); setFormData(emptyForm); }}
+                        >
+                            CANCEL
+                        </button>
+                    )}
+                    <button type="submit" className="btn-submit" disabled={saving}>
+                        {saving ? 'SAVING...' : editingId ? 'SAVE SHIFT' : 'ADD SHIFT'}
+                    </button>
+                </div>
+            </form>
+
+            <h3>SHIFTS ({shifts.length})</h3>
+            <div className="leave-list">
+                {shifts.map(shift => (
+                    <div key={shift.id} className="leave-item">
+                        <div className="leave-item-content">
+                            <div className="leave-item-title">
+                                🕘 {shift.name}
+                                {shift.is_default && <span className="leave-status-badge approved">DEFAULT</span>}
+                            </div>
+                            <div className="leave-item-meta">
+                                {shift.start_time.substring(0, 5)}–{shift.end_time.substring(0, 5)} • {shift.grace_minutes} min grace • {shift.break_minutes} min break
+                            </div>
+                            <div className="leave-item-meta">
+                                {shift.working_days.map(d => WEEKDAYS[d]).join(' ')}
+                            </div>
+                            <div className="leave-item-meta">
+                                {shift.is_default
+                                    ? 'Everyone without another shift'
+                                    : shift.departments.length > 0 ? `🏢 ${shift.departments.join(', ')}` : 'No departments'}
+                                {shift.users.length > 0 && ` • 👤 ${shift.users.map(u => u.full_name).join(', ')}`}
+                            </div>
+                        </div>
+                        <div className="geofence-actions">
+                            <button className="btn-activate" onClick={() => handleEdit(shift)}>EDIT</button>
+                            {!shift.is_default && (
+                                <button className="btn-deactivate" onClick={() => handleDelete(shift)}>DELETE</button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <h3>EMPLOYEE SHIFTS</h3>
+            <div className="leave-list">
+                {employees.map(employee => (
+                    <div key={employee.id} className="leave-item">
+                        <div className="leave-item-content">
+                            <div className="leave-item-title">{employee.fullName}</div>
+                            <div className="leave-item-meta">
+                                {employee.employeeId} • {employee.department || 'No department'}
+                            </div>
+                        </div>
+                        <select
+                            className="form-input"
+                            style={{ maxWidth: '220px' }}
+                            value={employee.shiftId || ''}
+                            onChange={(e) => handleAssign(employee, e.target.value)}
+                            disabled={saving}
+                        >
+                            <option value="">{`Inherit (${inheritedShift(employee)?.name || 'none'})`}</option>
+                            {shifts.map(shift => (
+                                <option key={shift.id} value={shift.id}>{shift.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ShiftManager;
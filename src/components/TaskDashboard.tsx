@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import CustomerDirectory from './CustomerDirectory';
 import '../task-styles.css';
 
 interface TaskDashboardProps {
@@ -7,6 +8,7 @@ interface TaskDashboardProps {
     token: string;
     onTaskClick: (taskId: number) => void;
     onNewTask: () => void;
+    isAdmin?: boolean;
 }
 
 interface DashboardStats {
@@ -35,7 +37,8 @@ const TaskDashboard: React.FC<TaskDashboardProps> = ({
     onClose,
     token,
     onTaskClick,
-    onNewTask
+    onNewTask,
+    isAdmin = false
 }) => {
     const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -45,7 +48,7 @@ const TaskDashboard: React.FC<TaskDashboardProps> = ({
     const [allTasks, setAllTasks] = useState<Task[]>([]);
     const [loading, setLoading] = useState(true);
     const [filter, setFilter] = useState({ status: 'all', priority: 'all' });
-    const [view, setView] = useState<'dashboard' | 'list'>('dashboard');
+    const [view, setView] = useState<'dashboard' | 'list' | 'customers'>('dashboard');
 
     useEffect(() => {
         if (isOpen) {
@@ -135,6 +138,13 @@ const TaskDashboard: React.FC<TaskDashboardProps> = ({
                         >
                             ALL TASKS
                         </button>
+                        <button
+                            className={`task-btn-secondary ${view === 'customers' ? 'active' : ''}`}
+                            onClick={() => setView('customers')}
+                            style={{ padding: '5px 12px' }}
+                        >
+                            CUSTOMERS
+                        </button>
                         <button className="btn-new-task" onClick={onNewTask}>
                             + NEW TASK
                         </button>
@@ -249,6 +259,8 @@ const TaskDashboard: React.FC<TaskDashboardProps> = ({
                                 </div>
                             </div>
                         </>
+                    ) : view === 'customers' ? (
+                        <CustomerDirectory token={token} isAdmin={isAdmin} />
                     ) : (
                         /* All Tasks List View */
                         <div className="task-list-container">
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import AttachmentPreview from './AttachmentPreview';
 import '../task-styles.css';
 
 interface TaskModalProps {
@@ -12,16 +13,18 @@ interface TaskModalProps {
 }
 
 interface Customer {
-    customer_name: string;
-    customer_email: string;
-    customer_phone: string;
-    company_name: string;
+    id: number;
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    company_name: string | null;
 }
 
 interface TaskFormData {
     title: string;
     description: string;
     assigned_to: string;
+    customer_id: string;
     customer_name: string;
     customer_email: string;
     customer_phone: string;
@@ -52,6 +55,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
         title: '',
         description: '',
         assigned_to: '',
+        customer_id: '',
         customer_name: '',
         customer_email: '',
         customer_phone: '',
@@ -75,10 +79,13 @@ const TaskModal: React.FC<TaskModalProps> = ({
     const [success, setSuccess] = useState('');
     const [customers, setCustomers] = useState<Customer[]>([]);
     const [showCustomerDropdown, setShowCustomerDropdown] = useState(false);
+    const [customerSearch, setCustomerSearch] = useState('');
     const [comments, setComments] = useState<any[]>([]);
     const [newComment, setNewComment] = useState('');
     const [driveLink, setDriveLink] = useState('');
     const [attachments, setAttachments] = useState<any[]>([]);
+    const [uploading, setUploading] = useState(false);
+    const [sourceEmailSubject, setSourceEmailSubject] = useState<string | null>(null);
 
     // Email verification state
     const [verificationSent, setVerificationSent] = useState(false);
@@ -99,6 +106,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
                 });
                 setComments([]);
                 setAttachments([]);
+                setSourceEmailSubject(null);
             }
             loadCustomers();
         }
@@ -116,6 +124,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
                     title: data.title || '',
                     description: data.description || '',
                     assigned_to: data.assigned_to?.toString() || '',
+                    customer_id: data.customer_id?.toString() || '',
                     customer_name: data.customer_name || '',
                     customer_email: data.customer_email || '',
                     customer_phone: data.customer_phone || '',
@@ -132,6 +141,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
                 });
                 setComments(data.comments || []);
                 setAttachments(data.attachments || []);
+                setSourceEmailSubject(data.source_email_id ? (data.source_email_subject || '(no subject)') : null);
                 if (data.customer_email) setEmailVerified(true);
             }
         } catch (error) {
@@ -144,7 +154,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
 
     const loadCustomers = async () => {
         try {
-            const response = await fetch(`${API_URL}/tasks/customers/list`, {
+            const response = await fetch(`${API_URL}/customers`, {
                 headers: { 'Authorization': `Bearer ${token}` }
             });
             if (response.ok) {
@@ -172,15 +182,30 @@ const TaskModal: React.FC<TaskModalProps> = ({
     const selectCustomer = (customer: Customer) => {
         setFormData(prev => ({
             ...prev,
-            customer_name: customer.customer_name || '',
-            customer_email: customer.customer_email || '',
-            customer_phone: customer.customer_phone || '',
+            customer_id: customer.id.toString(),
+            customer_name: customer.name || '',
+            customer_email: customer.email || '',
+            customer_phone: customer.phone || '',
             company_name: customer.company_name || ''
         }));
         setShowCustomerDropdown(false);
-        if (customer.customer_email) setEmailVerified(true);
+        setCustomerSearch('');
+        if (customer.email) setEmailVerified(true);
+    };
+
+    // Unlink the directory customer so the details can be edited or replaced
+    const clearCustomer = () => {
+        setFormData(prev => ({ ...prev, customer_id: '' }));
     };
 
+    const search = customerSearch.trim().toLowerCase();
+    const filteredCustomers = search
+        ? customers.filter(c =>
+            [c.name, c.email, c.phone, c.company_name].some(value => value?.toLowerCase().includes(search)))
+        : customers;
+
+    const customerLinked = formData.customer_id !== '';
+
     const sendVerificationCode = async () => {
         if (!formData.customer_email) {
             setError('Please enter customer email first');
@@ -271,6 +296,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
                 body: JSON.stringify({
                     ...formData,
                     assigned_to: formData.assigned_to ? parseInt(formData.assigned_to) : null,
+                    customer_id: formData.customer_id ? parseInt(formData.customer_id) : null,
                     attachments: driveLink ? [{ file_name: 'Drive Link', drive_link: driveLink }] : []
                 })
             });
@@ -368,6 +394,59 @@ const TaskModal: React.FC<TaskModalProps> = ({
         }
     };
 
+    const uploadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!taskId || !file) return;
+
+        setError('');
+        setUploading(true);
+
+        try {
+            const body = new FormData();
+            body.append('file', file);
+
+            const response = await fetch(`${API_URL}/tasks/${taskId}/attachments`, {
+                method: 'POST',
+                headers: { 'Authorization': `Bearer ${token}` },
+                body
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to upload file');
+            }
+
+            setAttachments(prev => [data, ...prev]);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to upload file');
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const deleteAttachment = async (attachmentId: number) => {
+        if (!taskId || !window.confirm('Remove this attachment?')) return;
+
+        try {
+            const response = await fetch(`${API_URL}/tasks/${taskId}/attachments/${attachmentId}`, {
+                method: 'DELETE',
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to remove attachment');
+            }
+
+            setAttachments(prev => prev.filter(att => att.id !== attachmentId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to remove attachment');
+        }
+    };
+
     if (!isOpen) return null;
 
     return (
@@ -380,6 +459,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
 
                 {error && <div className="task-error">{error}</div>}
                 {success && <div className="task-success">{success}</div>}
+                {sourceEmailSubject && <div className="task-source-email">📧 Created from email: {sourceEmailSubject}</div>}
 
                 <form onSubmit={handleSubmit} className="task-form">
                     <div className="task-form-grid">
@@ -499,26 +579,48 @@ const TaskModal: React.FC<TaskModalProps> = ({
 
                                 <div className="task-field customer-search">
                                     <label>Select Existing Customer</label>
-                                    <button
-                                        type="button"
-                                        className="task-btn-secondary"
-                                        onClick={() => setShowCustomerDropdown(!showCustomerDropdown)}
-                                    >
-                                        {showCustomerDropdown ? 'Hide Customers' : 'Choose Existing'}
-                                    </button>
-                                    {showCustomerDropdown && customers.length > 0 && (
+                                    {customerLinked ? (
+                                        <div className="customer-linked-row">
+                                            <a href={`/customers/${formData.customer_id}`} target="_blank" rel="noreferrer">
+                                                View customer history →
+                                            </a>
+                                            <button type="button" className="task-btn-secondary" onClick={clearCustomer}>
+                                                CHANGE
+                                            </button>
+                                        </div>
+                                    ) : (
+                                        <button
+                                            type="button"
+                                            className="task-btn-secondary"
+                                            onClick={() => setShowCustomerDropdown(!showCustomerDropdown)}
+                                        >
+                                            {showCustomerDropdown ? 'Hide Customers' : 'Choose Existing'}
+                                        </button>
+                                    )}
+                                    {showCustomerDropdown && !customerLinked && (
                                         <div className="customer-dropdown">
-                                            {customers.map((c, i) => (
+                                            <input
+                                                type="text"
+                                                className="customer-dropdown-search"
+                                                value={customerSearch}
+                                                onChange={(e) => setCustomerSearch(e.target.value)}
+                                                placeholder="Search name, email, phone or company..."
+                                                autoFocus
+                                            />
+                                            {filteredCustomers.map(c => (
                                                 <div
-                                                    key={i}
+                                                    key={c.id}
                                                     className="customer-option"
                                                     onClick={() => selectCustomer(c)}
                                                 >
-                                                    <strong>{c.customer_name || 'Unknown'}</strong>
+                                                    <strong>{c.name || 'Unknown'}</strong>
                                                     <span>{c.company_name}</span>
-                                                    <span className="customer-email">{c.customer_email}</span>
+                                                    <span className="customer-email">{c.email}</span>
                                                 </div>
                                             ))}
+                                            {filteredCustomers.length === 0 && (
+                                                <div className="customer-option">No matching customers</div>
+                                            )}
                                         </div>
                                     )}
                                 </div>
@@ -530,6 +632,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
                                         name="customer_name"
                                         value={formData.customer_name}
                                         onChange={handleChange}
+                                        readOnly={customerLinked}
                                         placeholder="Customer name..."
                                     />
                                 </div>
@@ -541,6 +644,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
                                         name="company_name"
                                         value={formData.company_name}
                                         onChange={handleChange}
+                                        readOnly={customerLinked}
                                         placeholder="Company name..."
                                     />
                                 </div>
@@ -556,6 +660,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
                                             name="customer_email"
                                             value={formData.customer_email}
                                             onChange={handleChange}
+                                            readOnly={customerLinked}
                                             placeholder="customer@email.com"
                                         />
                                         {!emailVerified && (
@@ -598,6 +703,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
                                         name="customer_phone"
                                         value={formData.customer_phone}
                                         onChange={handleChange}
+                                        readOnly={customerLinked}
                                         placeholder="+91 12345 67890"
                                     />
                                 </div>
@@ -640,9 +746,26 @@ const TaskModal: React.FC<TaskModalProps> = ({
                                     </div>
                                 </div>
 
+                                {taskId && (
+                                    <div className="task-field">
+                                        <label>Upload File (PDF, images, documents)</label>
+                                        <input type="file" onChange={uploadFile} disabled={uploading} />
+                                        {uploading && <span className="task-upload-status">Uploading...</span>}
+                                    </div>
+                                )}
+
                                 {attachments.length > 0 && (
                                     <div className="attachments-list">
-                                        {attachments.map((att) => (
+                                        {attachments.map((att) => att.storage_key ? (
+                                            <AttachmentPreview
+                                                key={att.id}
+                                                token={token}
+                                                url={`${API_URL}/tasks/${taskId}/attachments/${att.id}/download`}
+                                                fileName={att.file_name}
+                                                fileType={att.file_type}
+                                                onDelete={() => deleteAttachment(att.id)}
+                                            />
+                                        ) : (
                                             <a
                                                 key={att.id}
                                                 href={att.drive_link || att.file_url}
@@ -684,7 +807,7 @@ const TaskModal: React.FC<TaskModalProps> = ({
                                     comments.map((c) => (
                                         <div key={c.id} className={`comment ${c.is_system_message ? 'system' : ''}`}>
                                             <div className="comment-header">
-                                                <span className="comment-author">{c.user_name || 'System'}</span>
+                                                <span className="comment-author">{c.user_name || (c.is_system_message ? 'System' : 'Email')}</span>
                                                 <span className="comment-time">
                                                     {new Date(c.created_at).toLocaleString()}
                                                 </span>
@@ -21,7 +21,7 @@ const UserApproval: React.FC<UserApprovalProps> = ({ token }) => {
     const [error, setError] = useState('');
     const [successMessage, setSuccessMessage] = useState('');
     const [approvingUserId, setApprovingUserId] = useState<number | null>(null);
-    const [selectedRole, setSelectedRole] = useState<'admin' | 'employee'>('employee');
+    const [selectedRole, setSelectedRole] = useState<'admin' | 'manager' | 'employee'>('employee');
     const [selectedDepartment, setSelectedDepartment] = useState('');
     const [newDepartment, setNewDepartment] = useState('');
     const [showDepartmentInput, setShowDepartmentInput] = useState(false);
@@ -196,6 +196,12 @@ const UserApproval: React.FC<UserApprovalProps> = ({ token }) => {
                                             >
                                                 👤 EMPLOYEE
                                             </button>
+                                            <button
+                                                className={`role-option ${selectedRole === 'manager' ? 'active' : ''}`}
+                                                onClick={() => setSelectedRole('manager')}
+                                            >
+                                                🧭 MANAGER
+                                            </button>
                                             <button
                                                 className={`role-option ${selectedRole === 'admin' ? 'active' : ''}`}
                                                 onClick={() => setSelectedRole('admin')}
@@ -1,4 +1,7 @@
 import React, { useState, useEffect } from 'react';
+import LeaveQuotaManager from './LeaveQuotaManager';
+import LoginMethodSettings from './LoginMethodSettings';
+import InviteManager from './InviteManager';
 
 interface User {
     id: number;
@@ -8,6 +11,8 @@ interface User {
     role: string;
     employeeId: string;
     department: string;
+    officeLocation?: string | null;
+    managerId?: number | null;
     isActive: boolean;
     telegramId?: number | null;
     joiningDate?: string | null;
@@ -24,10 +29,15 @@ const UserManagement: React.FC<UserManagementProps> = ({ token, onClose }) => {
     const [error, setError] = useState('');
     const [success, setSuccess] = useState('');
     const [showCreateForm, setShowCreateForm] = useState(false);
+    const [showLeaveQuotas, setShowLeaveQuotas] = useState(false);
+    const [showLoginMethods, setShowLoginMethods] = useState(false);
+    const [showInvites, setShowInvites] = useState(false);
     const [editingTelegramId, setEditingTelegramId] = useState<number | null>(null);
     const [telegramIdInput, setTelegramIdInput] = useState('');
     const [editingDepartment, setEditingDepartment] = useState<number | null>(null);
     const [departmentInput, setDepartmentInput] = useState('');
+    const [editingLocation, setEditingLocation] = useState<number | null>(null);
+    const [locationInput, setLocationInput] = useState('');
     const [editingJoiningDate, setEditingJoiningDate] = useState<number | null>(null);
     const [joiningDateInput, setJoiningDateInput] = useState('');
 
@@ -126,6 +136,29 @@ const UserManagement: React.FC<UserManagementProps> = ({ token, onClose }) => {
         }
     };
 
+    const handleRevokeSessions = async (userId: number) => {
+        if (!confirm('Log this user out of every device?')) return;
+
+        try {
+            const response = await fetch(`${API_URL}/admin/users/${userId}/sessions/revoke-all`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${token}`
+                }
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to log user out');
+            }
+
+            setSuccess(`User logged out of ${data.revoked} session(s)`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to log user out');
+        }
+    };
+
     const handleUpdateTelegramId = async (userId: number) => {
         const telegramId = telegramIdInput ? parseInt(telegramIdInput) : null;
 
@@ -185,6 +218,80 @@ const UserManagement: React.FC<UserManagementProps> = ({ token, onClose }) => {
         }
     };
 
+    const handleUpdateLocation = async (userId: number) => {
+        try {
+            const response = await fetch(`${API_URL}/admin/users/${userId}/office-location`, {
+                method: 'PUT',
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ officeLocation: locationInput || null })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to update office location');
+            }
+
+            setSuccess('Office location updated successfully');
+            setEditingLocation(null);
+            setLocationInput('');
+            fetchUsers();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleUpdateRole = async (userId: number, role: string) => {
+        try {
+            const response = await fetch(`${API_URL}/admin/users/${userId}/role`, {
+                method: 'PUT',
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ role })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to update role');
+            }
+
+            setSuccess('Role updated successfully');
+            fetchUsers();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update role');
+        }
+    };
+
+    const handleUpdateManager = async (userId: number, managerId: string) => {
+        try {
+            const response = await fetch(`${API_URL}/admin/users/${userId}/manager`, {
+                method: 'PUT',
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ managerId: managerId ? parseInt(managerId) : null })
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to update reporting manager');
+            }
+
+            setSuccess('Reporting manager updated successfully');
+            fetchUsers();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update reporting manager');
+        }
+    };
+
     const handleUpdateJoiningDate = async (userId: number) => {
         try {
             const response = await fetch(`${API_URL}/salary/joining-date/${userId}`, {
@@ -216,6 +323,8 @@ const UserManagement: React.FC<UserManagementProps> = ({ token, onClose }) => {
         return new Date(dateString).toLocaleDateString('en-IN');
     };
 
+    const managers = users.filter(u => u.role === 'manager' && u.isActive);
+
     return (
         <div className="modal-overlay" onClick={onClose}>
             <div className="modal-content user-management-modal" onClick={(e) => e.stopPropagation()}>
@@ -235,8 +344,32 @@ const UserManagement: React.FC<UserManagementProps> = ({ token, onClose }) => {
                         >
                             {showCreateForm ? '❌ CANCEL' : '➕ CREATE NEW USER'}
                         </button>
+                        <button
+                            onClick={() => setShowInvites(!showInvites)}
+                            className="btn-create-user"
+                        >
+                            {showInvites ? '❌ CLOSE INVITES' : '✉️ INVITES'}
+                        </button>
+                        <button
+                            onClick={() => setShowLeaveQuotas(!showLeaveQuotas)}
+                            className="btn-create-user"
+                        >
+                            {showLeaveQuotas ? '❌ CLOSE QUOTAS' : '🌴 LEAVE QUOTAS'}
+                        </button>
+                        <button
+                            onClick={() => setShowLoginMethods(!showLoginMethods)}
+                            className="btn-create-user"
+                        >
+                            {showLoginMethods ? '❌ CLOSE LOGIN METHODS' : '🔐 LOGIN METHODS'}
+                        </button>
                     </div>
 
+                    {showInvites && <InviteManager token={token} managers={managers} />}
+
+                    {showLeaveQuotas && <LeaveQuotaManager token={token} users={users} />}
+
+                    {showLoginMethods && <LoginMethodSettings token={token} />}
+
                     {showCreateForm && (
                         <form onSubmit={handleSubmit} className="create-user-form">
                             <h3>CREATE NEW EMPLOYEE</h3>
@@ -327,6 +460,7 @@ const UserManagement: React.FC<UserManagementProps> = ({ token, onClose }) => {
                                     onChange={(e) => setFormData({ ...formData, role: e.target.value })}
                                 >
                                     <option value="employee">Employee</option>
+                                    <option value="manager">Manager</option>
                                     <option value="admin">Admin</option>
                                 </select>
                             </div>
@@ -350,9 +484,11 @@ const UserManagement: React.FC<UserManagementProps> = ({ token, onClose }) => {
                                         <th>Username</th>
                                         <th>Email</th>
                                         <th>Department</th>
+                                        <th>Office</th>
                                         <th>Joining Date</th>
                                         <th>Telegram ID</th>
                                         <th>Role</th>
+                                        <th>Reports To</th>
                                         <th>Status</th>
                                         <th>Actions</th>
                                     </tr>
@@ -445,6 +581,83 @@ const UserManagement: React.FC<UserManagementProps> = ({ token, onClose }) => {
                                                     </div>
                                                 )}
                                             </td>
+                                            <td>
+                                                {editingLocation === user.id ? (
+                                                    <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                                                        <input
+                                                            type="text"
+                                                            value={locationInput}
+                                                            onChange={(e) => setLocationInput(e.target.value)}
+                                                            placeholder="Bengaluru"
+                                                            style={{
+                                                                width: '120px',
+                                                                padding: '6px',
+                                                                fontSize: '11px',
+                                                                fontFamily: 'Courier New, monospace',
+                                                                background: 'var(--bg-primary)',
+                                                                border: '2px solid var(--border)',
+                                                                color: 'var(--text-primary)'
+                                                            }}
+                                                        />
+                                                        <button
+                                                            onClick={() => handleUpdateLocation(user.id)}
+                                                            style={{
+                                                                padding: '6px 10px',
+                                                                fontSize: '11px',
+                                                                background: 'var(--success-green)',
+                                                                color: 'white',
+                                                                border: '2px solid var(--border)',
+                                                                cursor: 'pointer',
+                                                                fontFamily: 'Press Start 2P, monospace',
+                                                                boxShadow: '0 2px 0 var(--border)'
+                                                            }}
+                                                        >
+                                                            ✔
+                                                        </button>
+                                                        <button
+                                                            onClick={() => { setEditingLocation(null); setLocationInput(''); }}
+                                                            style={{
+                                                                padding: '6px 10px',
+                                                                fontSize: '11px',
+                                                                background: '#ff6b6b',
+                                                                color: 'white',
+                                                                border: '2px solid var(--border)',
+                                                                cursor: 'pointer',
+                                                                fontFamily: 'Press Start 2P, monospace',
+                                                                boxShadow: '0 2px 0 var(--border)'
+                                                            }}
+                                                        >
+                                                            ✖
+                                                        </button>
+                                                    </div>
+                                                ) : (
+                                                    <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                                                        <span style={{
+                                                            fontFamily: 'Courier New, monospace',
+                                                            fontSize: '12px',
+                                                            color: user.officeLocation ? 'var(--text-primary)' : 'var(--text-muted)'
+                                                        }}>
+                                                            {user.officeLocation || '-'}
+                                                        </span>
+                                                        <button
+                                                            onClick={() => { setEditingLocation(user.id); setLocationInput(user.officeLocation || ''); }}
+                                                            style={{
+                                                                padding: '4px 8px',
+                                                                fontSize: '10px',
+                                                                background: '#FF9800',
+                                                                color: 'white',
+                                                                border: '2px solid var(--border)',
+                                                                cursor: 'pointer',
+                                                                fontFamily: 'Press Start 2P, monospace',
+                                                                boxShadow: '0 2px 0 var(--border)'
+                                                            }}
+                                                            title="Edit Office Location"
+                                                        >
+                                                            ✏️
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </td>
                                             <td>
                                                 {editingJoiningDate === user.id ? (
                                                     <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
@@ -558,9 +771,41 @@ const UserManagement: React.FC<UserManagementProps> = ({ token, onClose }) => {
                                                 )}
                                             </td>
                                             <td>
-                                                <span className={`role-badge role-${user.role}`}>
-                                                    {user.role.toUpperCase()}
-                                                </span>
+                                                <select
+                                                    className={`role-badge role-${user.role}`}
+                                                    value={user.role}
+                                                    onChange={(e) => handleUpdateRole(user.id, e.target.value)}
+                                                    style={{
+                                                        fontFamily: 'Press Start 2P, monospace',
+                                                        fontSize: '9px',
+                                                        border: '2px solid var(--border)',
+                                                        cursor: 'pointer'
+                                                    }}
+                                                >
+                                                    <option value="employee">EMPLOYEE</option>
+                                                    <option value="manager">MANAGER</option>
+                                                    <option value="admin">ADMIN</option>
+                                                </select>
+                                            </td>
+                                            <td>
+                                                <select
+                                                    value={user.managerId || ''}
+                                                    onChange={(e) => handleUpdateManager(user.id, e.target.value)}
+                                                    style={{
+                                                        width: '150px',
+                                                        padding: '6px',
+                                                        fontSize: '11px',
+                                                        fontFamily: 'Courier New, monospace',
+                                                        background: 'var(--bg-primary)',
+                                                        border: '2px solid var(--border)',
+                                                        color: user.managerId ? 'var(--text-primary)' : 'var(--text-muted)'
+                                                    }}
+                                                >
+                                                    <option value="">-</option>
+                                                    {managers.filter(m => m.id !== user.id).map(m => (
+                                                        <option key={m.id} value={m.id}>{m.fullName}</option>
+                                                    ))}
+                                                </select>
                                             </td>
                                             <td>
                                                 <span className={`status-badge ${user.isActive ? 'active' : 'inactive'}`}>
@@ -569,12 +814,20 @@ const UserManagement: React.FC<UserManagementProps> = ({ token, onClose }) => {
                                             </td>
                                             <td>
                                                 {user.isActive && (
-                                                    <button
-                                                        onClick={() => handleDeactivate(user.id)}
-                                                        className="btn-deactivate"
-                                                    >
-                                                        DEACTIVATE
-                                                    </button>
+                                                    <>
+                                                        <button
+                                                            onClick={() => handleRevokeSessions(user.id)}
+                                                            className="btn-revoke-sessions"
+                                                        >
+                                                            LOG OUT
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleDeactivate(user.id)}
+                                                            className="btn-deactivate"
+                                                        >
+                                                            DEACTIVATE
+                                                        </button>
+                                                    </>
                                                 )}
                                             </td>
                                         </tr>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import AdminDashboard from '../components/AdminDashboard';
 import UserManagement from '../components/UserManagement';
 import HolidayManagement from '../components/HolidayManagement';
@@ -7,6 +7,17 @@ import UserApproval from '../components/UserApproval';
 import ExportCenter from '../components/ExportCenter';
 import CalibrationApprovalPanel from '../components/CalibrationApprovalPanel';
 import SalaryManagement from '../components/SalaryManagement';
+import LeaveApproval from '../components/LeaveApproval';
+import CorrectionApproval from '../components/CorrectionApproval';
+import OvertimeApproval from '../components/OvertimeApproval';
+import NotificationBell from '../components/NotificationBell';
+import EmailTemplateEditor from '../components/EmailTemplateEditor';
+import CompOffLedger from '../components/CompOffLedger';
+import MonthlyBalanceTable from '../components/MonthlyBalanceTable';
+import SessionManager from '../components/SessionManager';
+import GeofenceManager from '../components/GeofenceManager';
+import ShiftManager from '../components/ShiftManager';
+import ExpensePolicyManager from '../components/ExpensePolicyManager';
 
 interface AdminPageProps {
     token: string;
@@ -21,10 +32,44 @@ const AdminPage: React.FC<AdminPageProps> = ({ token, user, onLogout }) => {
     const [showExportCenter, setShowExportCenter] = useState(false);
     const [showCalibrationApproval, setShowCalibrationApproval] = useState(false);
     const [showSalaryManagement, setShowSalaryManagement] = useState(false);
+    const [showLeaveApproval, setShowLeaveApproval] = useState(false);
+    const [showCorrectionApproval, setShowCorrectionApproval] = useState(false);
+    const [showOvertimeApproval, setShowOvertimeApproval] = useState(false);
+    const [showEmailTemplates, setShowEmailTemplates] = useState(false);
+    const [showCompOffLedger, setShowCompOffLedger] = useState(false);
+    const [showMonthlyBalance, setShowMonthlyBalance] = useState(false);
+    const [showSessions, setShowSessions] = useState(false);
+    const [showCheckinVerification, setShowCheckinVerification] = useState(false);
+    const [showShiftManager, setShowShiftManager] = useState(false);
+    const [showExpensePolicy, setShowExpensePolicy] = useState(false);
     const [viewingUserId, setViewingUserId] = useState<number | null>(null);
     const [sendingTelegram, setSendingTelegram] = useState(false);
     const [telegramMessage, setTelegramMessage] = useState('');
     const navigate = useNavigate();
+    const [searchParams, setSearchParams] = useSearchParams();
+
+    // Managers get the team-scoped panels only; the server enforces the same split
+    const isAdmin = user.role === 'admin';
+
+    // Open panels requested by notification links, e.g. /admin?panel=leave
+    useEffect(() => {
+        const panel = searchParams.get('panel');
+        if (!panel) return;
+
+        if (panel === 'leave') {
+            setShowLeaveApproval(true);
+        } else if (panel === 'corrections') {
+            setShowCorrectionApproval(true);
+        } else if (panel === 'overtime') {
+            setShowOvertimeApproval(true);
+        } else if (panel === 'calibration') {
+            setShowCalibrationApproval(true);
+        } else if (panel === 'approvals' && isAdmin) {
+            setShowUserApproval(true);
+        }
+
+        setSearchParams({}, { replace: true });
+    }, [searchParams]);
 
     const handleViewEmployee = (userId: number) => {
         navigate(`/calendar?userId=${userId}`);
@@ -65,7 +110,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ token, user, onLogout }) => {
             <div className="app-header">
                 <div className="user-info">
                     <div className="user-name">{user.fullName}</div>
-                    <div className="user-role">👑 ADMIN</div>
+                    <div className="user-role">{isAdmin ? '👑 ADMIN' : '🧭 MANAGER'}</div>
                 </div>
 
                 <div className="header-actions">
@@ -75,35 +120,101 @@ const AdminPage: React.FC<AdminPageProps> = ({ token, user, onLogout }) => {
                     >
                         📅 CALENDAR
                     </button>
+                    {isAdmin && (
+                        <>
+                            <button
+                                className="btn-admin-dashboard"
+                                onClick={() => setShowUserManagement(true)}
+                            >
+                                <span className="btn-emoji">👥</span>
+                                USER MANAGEMENT
+                            </button>
+                            <button
+                                className="btn-admin-dashboard"
+                                onClick={() => setShowUserApproval(true)}
+                            >
+                                <span className="btn-emoji">⏳</span>
+                                PENDING APPROVALS
+                            </button>
+                        </>
+                    )}
                     <button
                         className="btn-admin-dashboard"
-                        onClick={() => setShowUserManagement(true)}
+                        onClick={() => setShowLeaveApproval(true)}
                     >
-                        <span className="btn-emoji">👥</span>
-                        USER MANAGEMENT
+                        <span className="btn-emoji">🌴</span>
+                        LEAVE REQUESTS
                     </button>
                     <button
                         className="btn-admin-dashboard"
-                        onClick={() => setShowUserApproval(true)}
+                        onClick={() => setShowCorrectionApproval(true)}
                     >
-                        <span className="btn-emoji">⏳</span>
-                        PENDING APPROVALS
+                        <span className="btn-emoji">✏️</span>
+                        CORRECTIONS
                     </button>
                     <button
                         className="btn-admin-dashboard"
-                        onClick={() => setShowHolidayManagement(true)}
+                        onClick={() => setShowOvertimeApproval(true)}
                     >
-                        <span className="btn-emoji">🎉</span>
-                        HOLIDAYS
+                        <span className="btn-emoji">⏰</span>
+                        OVERTIME
                     </button>
+                    {isAdmin && (
+                        <button
+                            className="btn-admin-dashboard"
+                            onClick={() => setShowCompOffLedger(true)}
+                        >
+                            <span className="btn-emoji">🎁</span>
+                            COMP-OFFS
+                        </button>
+                    )}
                     <button
-                        className="btn-admin-dashboard telegram-btn"
-                        onClick={handleSendTelegramReport}
-                        disabled={sendingTelegram}
+                        className="btn-admin-dashboard"
+                        onClick={() => setShowMonthlyBalance(true)}
                     >
-                        <span className="btn-emoji">📱</span>
-                        {sendingTelegram ? 'SENDING...' : 'TELEGRAM REPORT'}
+                        <span className="btn-emoji">⏱️</span>
+                        HOUR BALANCE
                     </button>
+                    <button
+                        className="btn-admin-dashboard"
+                        onClick={() => setShowCheckinVerification(true)}
+                    >
+                        <span className="btn-emoji">📍</span>
+                        CHECK-IN
+                    </button>
+                    {isAdmin && (
+                        <>
+                            <button
+                                className="btn-admin-dashboard"
+                                onClick={() => setShowShiftManager(true)}
+                            >
+                                <span className="btn-emoji">🕘</span>
+                                SHIFTS
+                            </button>
+                            <button
+                                className="btn-admin-dashboard"
+                                onClick={() => setShowExpensePolicy(true)}
+                            >
+                                <span className="btn-emoji">💼</span>
+                                EXPENSE POLICY
+                            </button>
+                            <button
+                                className="btn-admin-dashboard"
+                                onClick={() => setShowHolidayManagement(true)}
+                            >
+                                <span className="btn-emoji">🎉</span>
+                                HOLIDAYS
+                            </button>
+                            <button
+                                className="btn-admin-dashboard telegram-btn"
+                                onClick={handleSendTelegramReport}
+                                disabled={sendingTelegram}
+                            >
+                                <span className="btn-emoji">📱</span>
+                                {sendingTelegram ? 'SENDING...' : 'TELEGRAM REPORT'}
+                            </button>
+                        </>
+                    )}
                     <button
                         className="btn-admin-dashboard"
                         onClick={() => setShowExportCenter(true)}
@@ -118,13 +229,32 @@ const AdminPage: React.FC<AdminPageProps> = ({ token, user, onLogout }) => {
                         <span className="btn-emoji">🔧</span>
                         CALIBRATION EXPENSES
                     </button>
+                    {isAdmin && (
+                        <>
+                            <button
+                                className="btn-admin-dashboard"
+                                onClick={() => setShowSalaryManagement(true)}
+                            >
+                                <span className="btn-emoji">💰</span>
+                                SALARY MANAGEMENT
+                            </button>
+                            <button
+                                className="btn-admin-dashboard"
+                                onClick={() => setShowEmailTemplates(true)}
+                            >
+                                <span className="btn-emoji">📧</span>
+                                EMAIL TEMPLATES
+                            </button>
+                        </>
+                    )}
                     <button
                         className="btn-admin-dashboard"
-                        onClick={() => setShowSalaryManagement(true)}
+                        onClick={() => setShowSessions(true)}
                     >
-                        <span className="btn-emoji">💰</span>
-                        SALARY MANAGEMENT
+                        <span className="btn-emoji">🔐</span>
+                        SESSIONS
                     </button>
+                    <NotificationBell token={token} />
                     <button className="btn-logout" onClick={onLogout}>
                         LOGOUT
                     </button>
@@ -141,6 +271,7 @@ const AdminPage: React.FC<AdminPageProps> = ({ token, user, onLogout }) => {
                 <AdminDashboard
                     onViewEmployee={handleViewEmployee}
                     onManageHolidays={() => setShowHolidayManagement(true)}
+                    isManager={!isAdmin}
                 />
             </div>
 
@@ -168,10 +299,83 @@ const AdminPage: React.FC<AdminPageProps> = ({ token, user, onLogout }) => {
                 </div>
             )}
 
+            {showLeaveApproval && (
+                <div className="modal-overlay" onClick={() => setShowLeaveApproval(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setShowLeaveApproval(false)}>✕</button>
+                        <LeaveApproval token={token} />
+                    </div>
+                </div>
+            )}
+
+            {showCorrectionApproval && (
+                <div className="modal-overlay" onClick={() => setShowCorrectionApproval(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setShowCorrectionApproval(false)}>✕</button>
+                        <CorrectionApproval token={token} />
+                    </div>
+                </div>
+            )}
+
+            {showOvertimeApproval && (
+                <div className="modal-overlay" onClick={() => setShowOvertimeApproval(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setShowOvertimeApproval(false)}>✕</button>
+                        <OvertimeApproval token={token} />
+                    </div>
+                </div>
+            )}
+
+            {showCompOffLedger && (
+                <div className="modal-overlay" onClick={() => setShowCompOffLedger(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setShowCompOffLedger(false)}>✕</button>
+                        <CompOffLedger token={token} />
+                    </div>
+                </div>
+            )}
+
+            {showMonthlyBalance && (
+                <div className="modal-overlay" onClick={() => setShowMonthlyBalance(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setShowMonthlyBalance(false)}>✕</button>
+                        <MonthlyBalanceTable token={token} onViewEmployee={handleViewEmployee} canRecompute={isAdmin} />
+                    </div>
+                </div>
+            )}
+
+            {showCheckinVerification && (
+                <div className="modal-overlay" onClick={() => setShowCheckinVerification(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setShowCheckinVerification(false)}>✕</button>
+                        <GeofenceManager token={token} canManage={isAdmin} />
+                    </div>
+                </div>
+            )}
+
+            {showShiftManager && (
+                <div className="modal-overlay" onClick={() => setShowShiftManager(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setShowShiftManager(false)}>✕</button>
+                        <ShiftManager token={token} />
+                    </div>
+                </div>
+            )}
+
+            {showExpensePolicy && (
+                <div className="modal-overlay" onClick={() => setShowExpensePolicy(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setShowExpensePolicy(false)}>✕</button>
+                        <ExpensePolicyManager token={token} />
+                    </div>
+                </div>
+            )}
+
             {showExportCenter && (
                 <ExportCenter
                     token={token}
                     onClose={() => setShowExportCenter(false)}
+                    canExportPayroll={isAdmin}
                 />
             )}
 
@@ -190,6 +394,22 @@ const AdminPage: React.FC<AdminPageProps> = ({ token, user, onLogout }) => {
                     onClose={() => setShowSalaryManagement(false)}
                 />
             )}
+
+            {showSessions && (
+                <div className="modal-overlay" onClick={() => setShowSessions(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setShowSessions(false)}>✕</button>
+                        <SessionManager token={token} onLoggedOut={onLogout} />
+                    </div>
+                </div>
+            )}
+
+            {showEmailTemplates && (
+                <EmailTemplateEditor
+                    token={token}
+                    onClose={() => setShowEmailTemplates(false)}
+                />
+            )}
         </div>
     );
 };
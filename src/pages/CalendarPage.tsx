@@ -7,7 +7,12 @@ import MonthlySummaryModal from '../components/MonthlySummaryModal';
 import JournalPageView from '../components/JournalPageView';
 import TaskModal from '../components/TaskModal';
 import TaskDashboard from '../components/TaskDashboard';
+import LeavePanel from '../components/LeavePanel';
+import NotificationBell from '../components/NotificationBell';
+import SessionManager from '../components/SessionManager';
+import CheckInPanel from '../components/CheckInPanel';
 import '../task-styles.css';
+import '../balance-styles.css';
 
 interface CalendarPageProps {
     token: string;
@@ -30,6 +35,13 @@ interface JournalEntry {
     studyNotes: string;
 }
 
+interface MonthlyBalance {
+    total_hours_worked: string;
+    expected_hours: string;
+    balance_hours: string;
+    working_days: number;
+}
+
 const emptyEntry: JournalEntry = {
     oneSentence: '',
     mood: '',
@@ -46,6 +58,7 @@ const emptyEntry: JournalEntry = {
 };
 
 const CalendarPage: React.FC<CalendarPageProps> = ({ token, user, onLogout }) => {
+    const isAdminOrManager = user.role === 'admin' || user.role === 'manager';
     const [currentDate, setCurrentDate] = useState(new Date());
     const [entries, setEntries] = useState<Record<string, JournalEntry>>({});
     const [holidays, setHolidays] = useState<Record<string, string>>({});
@@ -61,8 +74,12 @@ const CalendarPage: React.FC<CalendarPageProps> = ({ token, user, onLogout }) =>
     const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
     const [taskDate, setTaskDate] = useState<{ year: number; month: number; day: number } | null>(null);
     const [employees, setEmployees] = useState<any[]>([]);
+    const [isLeavePanelOpen, setIsLeavePanelOpen] = useState(false);
+    const [monthlyBalance, setMonthlyBalance] = useState<MonthlyBalance | null>(null);
+    const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+    const [isCheckInOpen, setIsCheckInOpen] = useState(false);
     const navigate = useNavigate();
-    const [searchParams] = useSearchParams();
+    const [searchParams, setSearchParams] = useSearchParams();
 
     const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
@@ -73,6 +90,22 @@ const CalendarPage: React.FC<CalendarPageProps> = ({ token, user, onLogout }) =>
         }
     }, [searchParams]);
 
+    // Open panels requested by notification links, e.g. /calendar?panel=leave
+    useEffect(() => {
+        const panel = searchParams.get('panel');
+        if (!panel) return;
+
+        if (panel === 'leave') {
+            setIsLeavePanelOpen(true);
+        } else if (panel === 'tasks') {
+            setIsTaskDashboardOpen(true);
+        }
+
+        const nextParams = new URLSearchParams(searchParams);
+        nextParams.delete('panel');
+        setSearchParams(nextParams, { replace: true });
+    }, [searchParams]);
+
     useEffect(() => {
         const updateTime = () => {
             setCurrentDate(new Date());
@@ -133,7 +166,12 @@ const CalendarPage: React.FC<CalendarPageProps> = ({ token, user, onLogout }) =>
     const loadHolidays = async () => {
         try {
             const year = new Date().getFullYear();
-            const response = await fetch(`${API_URL}/holidays?year=${year}`, {
+            let url = `${API_URL}/holidays?year=${year}`;
+            if (viewingUserId) {
+                url += `&userId=${viewingUserId}`;
+            }
+
+            const response = await fetch(url, {
                 headers: { 'Authorization': `Bearer ${token}` }
             });
             const data = await response.json();
@@ -204,6 +242,33 @@ const CalendarPage: React.FC<CalendarPageProps> = ({ token, user, onLogout }) =>
         }
     };
 
+    const viewYear = currentDate.getFullYear();
+    const viewMonth = currentDate.getMonth();
+
+    const loadMonthlyBalance = async () => {
+        try {
+            let url = `${API_URL}/monthly-balance/${viewYear}/${viewMonth + 1}`;
+            if (viewingUserId) {
+                url += `?userId=${viewingUserId}`;
+            }
+
+            const response = await fetch(url, {
+                headers: { 'Authorization': `Bearer ${token}` }
+            });
+            if (response.ok) {
+                const data = await response.json();
+                setMonthlyBalance(data.balance);
+            }
+        } catch (error) {
+            console.error('Error loading monthly balance:', error);
+        }
+    };
+
+    // Keyed on the month rather than currentDate, which ticks every second
+    useEffect(() => {
+        loadMonthlyBalance();
+    }, [viewingUserId, viewYear, viewMonth]);
+
     const loadEmployees = async () => {
         try {
             const response = await fetch(`${API_URL}/admin/employees`, {
@@ -334,21 +399,32 @@ const CalendarPage: React.FC<CalendarPageProps> = ({ token, user, onLogout }) =>
             <div className="app-header">
                 <div className="user-info">
                     <div className="user-name">{viewingUserId ? `Viewing Employee ${viewingUserId}` : user.fullName}</div>
-                    <div className="user-role">{user.role === 'admin' ? '👑 ADMIN' : '👤 EMPLOYEE'}</div>
+                    <div className="user-role">{user.role === 'admin' ? '👑 ADMIN' : user.role === 'manager' ? '🧭 MANAGER' : '👤 EMPLOYEE'}</div>
                 </div>
 
                 <div className="header-actions">
-                    {viewingUserId && user.role === 'admin' && (
+                    {viewingUserId && isAdminOrManager && (
                         <button className="btn-back-admin" onClick={() => navigate('/admin')}>
                             ← BACK TO DASHBOARD
                         </button>
                     )}
-                    {user.role === 'admin' && !viewingUserId && (
+                    {isAdminOrManager && !viewingUserId && (
                         <button className="btn-admin-dashboard" onClick={() => navigate('/admin')}>
-                            <span className="btn-emoji">👑</span>
-                            ADMIN DASHBOARD
+                            <span className="btn-emoji">{user.role === 'manager' ? '🧭' : '👑'}</span>
+                            {user.role === 'manager' ? 'TEAM DASHBOARD' : 'ADMIN DASHBOARD'}
                         </button>
                     )}
+                    {!viewingUserId && (
+                        <button className="btn-admin-dashboard" onClick={() => setIsCheckInOpen(true)}>
+                            <span className="btn-emoji">📍</span>
+                            CHECK IN
+                        </button>
+                    )}
+                    <button className="btn-admin-dashboard" onClick={() => setIsSessionsOpen(true)}>
+                        <span className="btn-emoji">🔐</span>
+                        SESSIONS
+                    </button>
+                    <NotificationBell token={token} />
                     <button className="btn-logout" onClick={onLogout}>
                         LOGOUT
                     </button>
@@ -359,6 +435,20 @@ const CalendarPage: React.FC<CalendarPageProps> = ({ token, user, onLogout }) =>
                 <div className="left-section">
                     <TimeCounter currentDate={currentDate} />
 
+                    {monthlyBalance && (
+                        <div className={`balance-badge ${parseFloat(monthlyBalance.balance_hours) >= 0 ? 'surplus' : 'deficit'}`}>
+                            <span className="balance-badge-label">HOUR BALANCE</span>
+                            <span className="balance-badge-value">
+                                {parseFloat(monthlyBalance.balance_hours) >= 0 ? '+' : ''}
+                                {parseFloat(monthlyBalance.balance_hours).toFixed(1)}h
+                                {parseFloat(monthlyBalance.balance_hours) >= 0 ? ' SURPLUS' : ' DEFICIT'}
+                            </span>
+                            <span className="balance-badge-meta">
+                                {parseFloat(monthlyBalance.total_hours_worked).toFixed(1)}h worked / {parseFloat(monthlyBalance.expected_hours).toFixed(1)}h expected
+                            </span>
+                        </div>
+                    )}
+
                     <button
                         className="monthly-summary-btn"
                         onClick={() => setIsSummaryModalOpen(true)}
@@ -390,6 +480,16 @@ const CalendarPage: React.FC<CalendarPageProps> = ({ token, user, onLogout }) =>
                         <span className="btn-emoji">📋</span>
                         MY TASKS
                     </button>
+
+                    {!viewingUserId && (
+                        <button
+                            className="btn-leave"
+                            onClick={() => setIsLeavePanelOpen(true)}
+                        >
+                            <span className="btn-emoji">🌴</span>
+                            MY LEAVE
+                        </button>
+                    )}
                 </div>
 
                 <div className="right-section">
@@ -437,6 +537,14 @@ const CalendarPage: React.FC<CalendarPageProps> = ({ token, user, onLogout }) =>
                 token={token}
                 onTaskClick={handleTaskClick}
                 onNewTask={handleNewTask}
+                isAdmin={user.role === 'admin'}
+            />
+
+            <LeavePanel
+                isOpen={isLeavePanelOpen}
+                onClose={() => setIsLeavePanelOpen(false)}
+                token={token}
+                onLeaveChanged={loadAttendance}
             />
 
             {user.role === 'admin' && (
@@ -450,6 +558,24 @@ const CalendarPage: React.FC<CalendarPageProps> = ({ token, user, onLogout }) =>
                     employees={employees}
                 />
             )}
+
+            {isSessionsOpen && (
+                <div className="modal-overlay" onClick={() => setIsSessionsOpen(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setIsSessionsOpen(false)}>✕</button>
+                        <SessionManager token={token} onLoggedOut={onLogout} />
+                    </div>
+                </div>
+            )}
+
+            {isCheckInOpen && (
+                <div className="modal-overlay" onClick={() => setIsCheckInOpen(false)}>
+                    <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                        <button className="modal-close" onClick={() => setIsCheckInOpen(false)}>✕</button>
+                        <CheckInPanel token={token} onCheckedIn={loadAttendance} />
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+interface CheckInPageProps {
+    token: string;
+}
+
+// Landing page of the office-screen QR code
+const CheckInPage: React.FC<CheckInPageProps> = ({ token }) => {
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState('');
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    // StrictMode runs effects twice; the second call would report "already checked in"
+    const submitted = useRef(false);
+
+    const code = searchParams.get('code');
+
+    useEffect(() => {
+        if (!code || submitted.current) return;
+        submitted.current = true;
+
+        fetch(`${API_URL}/checkin/qr`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token}`
+            },
+            body: JSON.stringify({ code })
+        })
+            .then(async res => {
+                const data = await res.json();
+
+                if (!res.ok) throw new Error(data.error || 'Check-in failed');
+
+                setMessage(`Checked in at ${data.geofenceName} at ${data.time}`);
+            })
+            .catch(err => {
+                setError(err instanceof Error ? err.message : 'Check-in failed');
+            });
+    }, [code, token, API_URL]);
+
+    return (
+        <div className="login-container">
+            <div className="login-box">
+                <div className="login-header">
+                    <h1 className="login-title">CHECK IN</h1>
+                    <p className="login-subtitle">OFFICE QR CODE</p>
+                </div>
+
+                {!code ? (
+                    <div className="login-error">⚠️ This link is missing its QR code. Scan the office screen again.</div>
+                ) : error ? (
+                    <div className="login-error">⚠️ {error}</div>
+                ) : message ? (
+                    <div className="login-info">✅ {message}</div>
+                ) : (
+                    <div style={{ textAlign: 'center', padding: '2rem' }}>
+                        <div className="spinner"></div>
+                    </div>
+                )}
+
+                <div className="login-links">
+                    <button type="button" className="login-link-btn" onClick={() => navigate('/calendar')}>
+                        GO TO CALENDAR →
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CheckInPage;
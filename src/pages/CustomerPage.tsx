@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import '../task-styles.css';
+
+interface CustomerPageProps {
+    token: string;
+}
+
+interface CustomerDetail {
+    id: number;
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    notes: string | null;
+    company_name: string | null;
+    created_at: string;
+    tasks: Array<{
+        id: number;
+        title: string;
+        status: string;
+        priority: string;
+        due_date: string | null;
+        created_at: string;
+        completed_at: string | null;
+        assigned_to_name: string | null;
+    }>;
+    siteVisits: Array<{
+        id: number;
+        visit_date: string;
+        location: string;
+        company_name: string | null;
+        num_gauges: number;
+        visit_summary: string | null;
+        status: string;
+        full_name: string;
+    }>;
+    emails: Array<{
+        id: number;
+        task_id: number | null;
+        email_type: string;
+        subject: string;
+        status: string;
+        scheduled_for: string;
+        sent_at: string | null;
+    }>;
+}
+
+const formatDate = (dateStr: string) =>
+    new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// Everything done for one customer: tasks, site visits to their company and emails sent
+const CustomerPage: React.FC<CustomerPageProps> = ({ token }) => {
+    const { id } = useParams();
+    const navigate = useNavigate();
+    const [customer, setCustomer] = useState<CustomerDetail | null>(null);
+    const [error, setError] = useState('');
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    useEffect(() => {
+        fetch(`${API_URL}/customers/${id}`, {
+            headers: { 'Authorization': `Bearer ${token}` }
+        })
+            .then(async res => {
+                const data = await res.json();
+
+                if (!res.ok) throw new Error(data.error || 'Failed to load customer');
+
+                setCustomer(data);
+            })
+            .catch(err => {
+                setError(err instanceof Error ? err.message : 'Failed to load customer');
+            });
+    }, [id, token, API_URL]);
+
+    const emptyRow = (text: string) => (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#555', fontSize: '8px' }}>{text}</div>
+    );
+
+    return (
+        <div className="customer-page">
+            <div className="task-modal-header">
+                <h2>{customer ? (customer.name || customer.email) : 'CUSTOMER'}</h2>
+                <button className="task-btn-secondary" onClick={() => navigate('/calendar')}>
+                    ← BACK
+                </button>
+            </div>
+
+            {error ? (
+                <div className="task-error">⚠️ {error}</div>
+            ) : !customer ? (
+                emptyRow('Loading...')
+            ) : (
+                <>
+                    <div className="task-form-section">
+                        <h3>DETAILS</h3>
+                        <div className="task-item-meta">🏢 {customer.company_name || 'No company'}</div>
+                        <div className="task-item-meta">📧 {customer.email || 'No email'}</div>
+                        <div className="task-item-meta">📞 {customer.phone || 'No phone'}</div>
+                        {customer.notes && <div className="task-item-meta">📝 {customer.notes}</div>}
+                        <div className="task-item-meta">Customer since {formatDate(customer.created_at)}</div>
+                    </div>
+
+                    <div className="task-list-container">
+                        <div className="task-list-header">
+                            <h3>TASKS ({customer.tasks.length})</h3>
+                        </div>
+                        <div className="task-list">
+                            {customer.tasks.length === 0 ? emptyRow('No tasks') : customer.tasks.map(task => (
+                                <div key={task.id} className="task-item">
+                                    <div className={`task-priority-indicator ${task.priority}`}></div>
+                                    <div className="task-item-content">
+                                        <div className="task-item-title">{task.title}</div>
+                                        <div className="task-item-meta">
+                                            {formatDate(task.created_at)} • {task.assigned_to_name || 'Unassigned'}
+                                            {task.completed_at && ` • done ${formatDate(task.completed_at)}`}
+                                        </div>
+                                    </div>
+                                    <span className={`task-status-badge ${task.status}`}>
+                                        {task.status.replace('_', ' ').toUpperCase()}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="task-list-container">
+                        <div className="task-list-header">
+                            <h3>SITE VISITS ({customer.siteVisits.length})</h3>
+                        </div>
+                        <div className="task-list">
+                            {customer.siteVisits.length === 0 ? emptyRow('No site visits to this company') : customer.siteVisits.map(visit => (
+                                <div key={visit.id} className="task-item">
+                                    <div className="task-item-content">
+                                        <div className="task-item-title">{formatDate(visit.visit_date)} • {visit.location}</div>
+                                        <div className="task-item-meta">
+                                            {visit.full_name} • {visit.num_gauges} gauges
+                                            {visit.visit_summary && ` • ${visit.visit_summary}`}
+                                        </div>
+                                    </div>
+                                    <span className="task-status-badge">{visit.status.toUpperCase()}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="task-list-container">
+                        <div className="task-list-header">
+                            <h3>EMAILS ({customer.emails.length})</h3>
+                        </div>
+                        <div className="task-list">
+                            {customer.emails.length === 0 ? emptyRow('No emails sent') : customer.emails.map(email => (
+                                <div key={email.id} className="task-item">
+                                    <div className="task-item-content">
+                                        <div className="task-item-title">{email.subject}</div>
+                                        <div className="task-item-meta">
+                                            {email.email_type.replace('_', ' ')} • {formatDate(email.sent_at || email.scheduled_for)}
+                                            {email.task_id && ` • task #${email.task_id}`}
+                                        </div>
+                                    </div>
+                                    <span className="task-status-badge">{email.status.toUpperCase()}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CustomerPage;
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+interface InviteDetails {
+    fullName: string;
+    email: string;
+    role: string;
+    department: string | null;
+    invitedByName: string | null;
+    expiresAt: string;
+    passwordEnabled: boolean;
+}
+
+// The user returned by the login endpoints
+interface AuthUser {
+    id: number;
+    username: string;
+    email: string;
+    fullName: string;
+    role: 'admin' | 'manager' | 'employee';
+    employeeId: string;
+    department: string | null;
+    avatarUrl: string | null;
+}
+
+interface InvitePageProps {
+    onLogin: (token: string, user: AuthUser) => void;
+}
+
+const InvitePage: React.FC<InvitePageProps> = ({ onLogin }) => {
+    const [searchParams] = useSearchParams();
+    const [invite, setInvite] = useState<InviteDetails | null>(null);
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const navigate = useNavigate();
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+    const token = searchParams.get('token');
+
+    useEffect(() => {
+        if (!token) {
+            setError('This invite link is missing its token');
+            setIsLoading(false);
+            return;
+        }
+
+        fetch(`${API_URL}/auth/invites/${encodeURIComponent(token)}`)
+            .then(async res => {
+                const data = await res.json();
+                if (!res.ok) throw new Error(data.error || 'Failed to load invite');
+                setInvite(data);
+            })
+            .catch(err => setError(err instanceof Error ? err.message : 'Failed to load invite'))
+            .finally(() => setIsLoading(false));
+    }, [token, API_URL]);
+
+    const handleGoogle = () => {
+        window.location.href = `${API_URL}/auth/google?invite=${encodeURIComponent(token!)}`;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (password !== confirmPassword) {
+            setError('Passwords do not match');
+            return;
+        }
+
+        setIsLoading(true);
+
+        try {
+            const response = await fetch(`${API_URL}/auth/invites/${encodeURIComponent(token!)}/accept`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ password }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to accept invite');
+            }
+
+            localStorage.setItem('token', data.token);
+            localStorage.setItem('refreshToken', data.refreshToken);
+            localStorage.setItem('user', JSON.stringify(data.user));
+
+            onLogin(data.token, data.user);
+            navigate('/calendar');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to accept invite');
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="login-container">
+            <div className="login-box">
+                <div className="login-header">
+                    <h1 className="login-title">WELCOME!</h1>
+                    <p className="login-subtitle">ACCEPT YOUR INVITE</p>
+                </div>
+
+                {error && (
+                    <div className="login-error">
+                        ⚠️ {error}
+                    </div>
+                )}
+
+                {isLoading && !invite && (
+                    <div style={{ textAlign: 'center', padding: '2rem' }}>
+                        <div className="spinner"></div>
+                    </div>
+                )}
+
+                {invite && (
+                    <>
+                        <div className="invite-details">
+                            <div><strong>👤 {invite.fullName}</strong></div>
+                            <div>📧 {invite.email}</div>
+                            <div>🎖️ {invite.role.toUpperCase()}{invite.department ? ` • ${invite.department}` : ''}</div>
+                            {invite.invitedByName && <div>✉️ Invited by {invite.invitedByName}</div>}
+                            <div>⏰ Expires {new Date(invite.expiresAt).toLocaleDateString()}</div>
+                        </div>
+
+                        <button
+                            type="button"
+                            onClick={handleGoogle}
+                            className="google-login-btn"
+                            disabled={isLoading}
+                        >
+                            <svg width="18" height="18" viewBox="0 0 18 18" xmlns="http://www.w3.org/2000/svg">
+                                <g fill="none" fillRule="evenodd">
+                                    <path d="M17.6 9.2l-.1-1.8H9v3.4h4.8C13.6 12 13 13 12 13.6v2.2h3a8.8 8.8 0 0 0 2.6-6.6z" fill="#4285F4" />
+                                    <path d="M9 18c2.4 0 4.5-.8 6-2.2l-3-2.2a5.4 5.4 0 0 1-8-2.9H1V13a9 9 0 0 0 8 5z" fill="#34A853" />
+                                    <path d="M4 10.7a5.4 5.4 0 0 1 0-3.4V5H1a9 9 0 0 0 0 8l3-2.3z" fill="#FBBC05" />
+                                    <path d="M9 3.6c1.3 0 2.5.4 3.4 1.3L15 2.3A9 9 0 0 0 1 5l3 2.4a5.4 5.4 0 0 1 5-3.7z" fill="#EA4335" />
+                                </g>
+                            </svg>
+                            ACCEPT WITH GOOGLE
+                        </button>
+
+                        {invite.passwordEnabled && (
+                            <>
+                                <div className="login-divider">
+                                    <span>OR</span>
+                                </div>
+
+                                <form onSubmit={handleSubmit} className="login-form">
+                                    <div className="form-group">
+                                        <label className="form-label">CHOOSE A PASSWORD</label>
+                                        <input
+                                            type="password"
+                                            className="form-input"
+                                            value={password}
+                                            onChange={(e) => setPassword(e.target.value)}
+                                            placeholder="At least 8 characters"
+                                            autoComplete="new-password"
+                                            minLength={8}
+                                            required
+                                        />
+                                    </div>
+
+                                    <div className="form-group">
+                                        <label className="form-label">CONFIRM PASSWORD</label>
+                                        <input
+                                            type="password"
+                                            className="form-input"
+                                            value={confirmPassword}
+                                            onChange={(e) => setConfirmPassword(e.target.value)}
+                                            placeholder="Repeat the password"
+                                            autoComplete="new-password"
+                                            minLength={8}
+                                            required
+                                        />
+                                    </div>
+
+                                    <button type="submit" className="login-btn" disabled={isLoading}>
+                                        {isLoading ? 'SETTING UP...' : 'ACCEPT WITH PASSWORD'}
+                                    </button>
+                                </form>
+                            </>
+                        )}
+                    </>
+                )}
+
+                <div className="login-links">
+                    <button type="button" className="login-link-btn" onClick={() => navigate('/login')}>
+                        ← BACK TO LOGIN
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default InvitePage;
@@ -1,15 +1,37 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+const LOGIN_ERRORS: Record<string, string> = {
+    auth_failed: 'Google sign-in failed. Please try again.',
+    link_expired: 'That login link is invalid or has expired. Request a new one.',
+    verify_expired: 'That confirmation link is invalid or has expired. Sign up again to get a new one.',
+    invite_invalid: 'That invite is invalid, has expired, or your Google account is already linked to another user.'
+};
 
 interface LoginPageProps {
     onLogin: (token: string, user: any) => void;
 }
 
+type LoginMode = 'login' | 'register' | 'forgot' | 'magic';
+
+interface LoginMethods {
+    google: boolean;
+    password: boolean;
+    magicLink: boolean;
+    passwordReset: boolean;
+}
+
 const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
+    const [mode, setMode] = useState<LoginMode>('login');
+    const [methods, setMethods] = useState<LoginMethods>({ google: true, password: true, magicLink: false, passwordReset: false });
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
+    const [fullName, setFullName] = useState('');
+    const [email, setEmail] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState('');
+    const [searchParams] = useSearchParams();
+    const [error, setError] = useState(LOGIN_ERRORS[searchParams.get('error') || ''] || '');
+    const [info, setInfo] = useState('');
     const navigate = useNavigate();
 
     const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
@@ -23,40 +45,93 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
         }
     }, [navigate]);
 
+    // Only offer the sign-in methods the admin has left on
+    useEffect(() => {
+        fetch(`${API_URL}/auth/methods`)
+            .then(res => (res.ok ? res.json() : null))
+            .then(data => data && setMethods(data))
+            .catch(err => console.error('Failed to load login methods:', err));
+    }, [API_URL]);
+
+    const switchMode = (nextMode: LoginMode) => {
+        setMode(nextMode);
+        setError('');
+        setInfo('');
+    };
+
     const handleGoogleLogin = () => {
         window.location.href = `${API_URL}/auth/google`;
     };
 
+    const postAuth = async (path: string, body: object) => {
+        const response = await fetch(`${API_URL}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+
+        const data = await response.json();
+
+        // New and unapproved accounts wait on the approval screen
+        if (data.pending) {
+            navigate('/pending', { state: { user: data.user } });
+            return null;
+        }
+
+        if (!response.ok) {
+            throw new Error(data.error || 'Request failed');
+        }
+
+        return data;
+    };
+
+    const completeLogin = (data: { token: string; refreshToken: string; user: unknown }) => {
+        localStorage.setItem('token', data.token);
+        localStorage.setItem('refreshToken', data.refreshToken);
+        localStorage.setItem('user', JSON.stringify(data.user));
+
+        onLogin(data.token, data.user);
+        navigate('/calendar');
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsLoading(true);
         setError('');
+        setInfo('');
 
         try {
-            const response = await fetch(`${API_URL}/auth/login`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ username, password }),
-            });
-
-            const data = await response.json();
-
-            if (!response.ok) {
-                throw new Error(data.error || 'Login failed');
+            if (mode === 'login') {
+                const data = await postAuth('/auth/login', { username, password });
+                if (data) completeLogin(data);
+            } else if (mode === 'register') {
+                // Only the very first account logs straight in; others confirm their email
+                const data = await postAuth('/auth/register', { fullName, email, password });
+                if (data?.token) completeLogin(data);
+                else if (data) setInfo(data.message);
+            } else if (mode === 'forgot') {
+                const data = await postAuth('/auth/password-reset/request', { email });
+                if (data) setInfo(data.message);
+            } else {
+                const data = await postAuth('/auth/magic-link/request', { email });
+                if (data) setInfo(data.message);
             }
-
-            localStorage.setItem('token', data.token);
-            localStorage.setItem('user', JSON.stringify(data.user));
-
-            onLogin(data.token, data.user);
-            navigate('/calendar');
-        } catch (err: any) {
-            setError(err.message || 'Login failed. Please try again.');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Login failed. Please try again.');
         } finally {
             setIsLoading(false);
         }
     };
 
+    const submitLabel = {
+        login: isLoading ? 'LOGGING IN...' : 'LOGIN',
+        register: isLoading ? 'CREATING...' : 'CREATE ACCOUNT',
+        forgot: isLoading ? 'SENDING...' : 'SEND RESET LINK',
+        magic: isLoading ? 'SENDING...' : 'EMAIL ME A LOGIN LINK'
+    }[mode];
+
+    const showForm = methods.password || mode === 'magic';
+
     return (
         <div className="login-container">
             <div className="login-box">
@@ -82,49 +157,116 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
                     SIGN IN WITH GOOGLE
                 </button>
 
-                <div className="login-divider">
-                    <span>OR</span>
-                </div>
+                {(showForm || methods.magicLink) && (
+                    <div className="login-divider">
+                        <span>OR</span>
+                    </div>
+                )}
 
-                <form onSubmit={handleSubmit} className="login-form">
-                    {error && (
-                        <div className="login-error">
-                            ⚠️ {error}
-                        </div>
-                    )}
+                {showForm && (
+                    <form onSubmit={handleSubmit} className="login-form">
+                        {error && (
+                            <div className="login-error">
+                                ⚠️ {error}
+                            </div>
+                        )}
 
-                    <div className="form-group">
-                        <label className="form-label">USERNAME</label>
-                        <input
-                            type="text"
-                            className="form-input"
-                            value={username}
-                            onChange={(e) => setUsername(e.target.value)}
-                            placeholder="Enter username"
-                            required
-                        />
-                    </div>
+                        {info && (
+                            <div className="login-info">
+                                📧 {info}
+                            </div>
+                        )}
 
-                    <div className="form-group">
-                        <label className="form-label">PASSWORD</label>
-                        <input
-                            type="password"
-                            className="form-input"
-                            value={password}
-                            onChange={(e) => setPassword(e.target.value)}
-                            placeholder="Enter password"
-                            required
-                        />
-                    </div>
+                        {mode === 'register' && (
+                            <div className="form-group">
+                                <label className="form-label">FULL NAME</label>
+                                <input
+                                    type="text"
+                                    className="form-input"
+                                    value={fullName}
+                                    onChange={(e) => setFullName(e.target.value)}
+                                    placeholder="Enter your full name"
+                                    required
+                                />
+                            </div>
+                        )}
+
+                        {mode === 'login' ? (
+                            <div className="form-group">
+                                <label className="form-label">EMAIL OR USERNAME</label>
+                                <input
+                                    type="text"
+                                    className="form-input"
+                                    value={username}
+                                    onChange={(e) => setUsername(e.target.value)}
+                                    placeholder="Enter email or username"
+                                    autoComplete="username"
+                                    required
+                                />
+                            </div>
+                        ) : (
+                            <div className="form-group">
+                                <label className="form-label">EMAIL</label>
+                                <input
+                                    type="email"
+                                    className="form-input"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    placeholder="Enter email"
+                                    autoComplete="email"
+                                    required
+                                />
+                            </div>
+                        )}
+
+                        {(mode === 'login' || mode === 'register') && (
+                            <div className="form-group">
+                                <label className="form-label">PASSWORD</label>
+                                <input
+                                    type="password"
+                                    className="form-input"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    placeholder={mode === 'register' ? 'At least 8 characters' : 'Enter password'}
+                                    autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+                                    minLength={mode === 'register' ? 8 : undefined}
+                                    required
+                                />
+                            </div>
+                        )}
+
+                        <button
+                            type="submit"
+                            className="login-btn"
+                            disabled={isLoading}
+                        >
+                            {submitLabel}
+                        </button>
+                    </form>
+                )}
 
-                    <button
-                        type="submit"
-                        className="login-btn"
-                        disabled={isLoading}
-                    >
-                        {isLoading ? 'LOGGING IN...' : 'LOGIN'}
-                    </button>
-                </form>
+                <div className="login-links">
+                    {mode !== 'login' && methods.password && (
+                        <button type="button" className="login-link-btn" onClick={() => switchMode('login')}>
+                            ← BACK TO LOGIN
+                        </button>
+                    )}
+                    {mode === 'login' && methods.password && methods.passwordReset && (
+                        <button type="button" className="login-link-btn" onClick={() => switchMode('forgot')}>
+                            FORGOT PASSWORD?
+                        </button>
+                    )}
+                    {mode === 'login' && methods.password && (
+                        <button type="button" className="login-link-btn" onClick={() => switchMode('register')}>
+                            NO GOOGLE ACCOUNT? SIGN UP
+                        </button>
+                    )}
+                    {mode !== 'magic' && methods.magicLink && (
+                        <button type="button" className="login-link-btn" onClick={() => switchMode('magic')}>
+                            ✨ EMAIL ME A LOGIN LINK
+                        </button>
+                    )}
+                </div>
 
                 <div className="login-demo-info">
                     <div className="demo-title">💡 DEMO ACCOUNTS (Traditional Login):</div>
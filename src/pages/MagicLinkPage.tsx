@@ -0,0 +1,83 @@
+import React, { useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+// The user returned by the login endpoints
+interface AuthUser {
+    id: number;
+    username: string;
+    email: string;
+    fullName: string;
+    role: 'admin' | 'manager' | 'employee';
+    employeeId: string;
+    department: string | null;
+    avatarUrl: string | null;
+}
+
+interface MagicLinkPageProps {
+    onLogin: (token: string, user: AuthUser) => void;
+    // Email confirmation links log in the same way once confirmed
+    verifyEmail?: boolean;
+}
+
+const MagicLinkPage: React.FC<MagicLinkPageProps> = ({ onLogin, verifyEmail = false }) => {
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    // Links are single-use; StrictMode's double effect must not spend it twice
+    const verified = useRef(false);
+
+    useEffect(() => {
+        const token = searchParams.get('token');
+
+        if (!token) {
+            navigate('/login');
+            return;
+        }
+
+        if (verified.current) return;
+        verified.current = true;
+
+        fetch(`${API_URL}${verifyEmail ? '/auth/verify-email' : '/auth/magic-link/verify'}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ token })
+        })
+            .then(async res => {
+                const data = await res.json();
+
+                if (data.pending) {
+                    navigate('/pending', { state: { user: data.user } });
+                    return;
+                }
+
+                if (!res.ok) throw new Error(data.error || 'Login failed');
+
+                localStorage.setItem('token', data.token);
+                localStorage.setItem('refreshToken', data.refreshToken);
+                localStorage.setItem('user', JSON.stringify(data.user));
+                onLogin(data.token, data.user);
+                navigate('/calendar');
+            })
+            .catch(err => {
+                console.error('Login link failed:', err);
+                navigate(`/login?error=${verifyEmail ? 'verify_expired' : 'link_expired'}`);
+            });
+    }, [searchParams, navigate, onLogin, API_URL, verifyEmail]);
+
+    return (
+        <div className="login-container">
+            <div className="login-box">
+                <div className="login-header">
+                    <h1 className="login-title">{verifyEmail ? 'Confirming email...' : 'Logging in...'}</h1>
+                    <p className="login-subtitle">Please wait</p>
+                </div>
+                <div style={{ textAlign: 'center', padding: '2rem' }}>
+                    <div className="spinner"></div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MagicLinkPage;
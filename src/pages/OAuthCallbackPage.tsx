@@ -1,5 +1,6 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import { clearStoredSession } from '../session';
 
 interface OAuthCallbackPageProps {
     onLogin: (token: string, user: any) => void;
@@ -10,8 +11,11 @@ const OAuthCallbackPage: React.FC<OAuthCallbackPageProps> = ({ onLogin }) => {
     const navigate = useNavigate();
     const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
+    // Codes are single-use; StrictMode's double effect must not spend it twice
+    const exchanged = useRef(false);
+
     useEffect(() => {
-        const token = searchParams.get('token');
+        const code = searchParams.get('code');
         const error = searchParams.get('error');
 
         if (error) {
@@ -20,19 +24,60 @@ const OAuthCallbackPage: React.FC<OAuthCallbackPageProps> = ({ onLogin }) => {
             return;
         }
 
-        if (token) {
-            fetch(`${API_URL}/auth/me`, {
-                headers: { 'Authorization': `Bearer ${token}` }
+        if (code) {
+            if (exchanged.current) return;
+            exchanged.current = true;
+
+            let token = '';
+
+            fetch(`${API_URL}/auth/oauth/exchange`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ code })
             })
-                .then(res => res.json())
+                .then(res => {
+                    if (!res.ok) throw new Error('Failed to exchange login code');
+                    return res.json();
+                })
+                .then(data => {
+                    token = data.token;
+
+                    // Stored first so a stale token from an earlier login is not sent instead
+                    localStorage.setItem('token', data.token);
+                    localStorage.setItem('refreshToken', data.refreshToken);
+
+                    return fetch(`${API_URL}/auth/me`, {
+                        headers: { 'Authorization': `Bearer ${data.token}` }
+                    });
+                })
+                .then(res => {
+                    if (!res.ok) throw new Error('Failed to fetch user');
+                    return res.json();
+                })
                 .then(user => {
-                    localStorage.setItem('token', token);
+                    // Google sign-ups wait for an admin like every other account
+                    if (!user.isApproved) {
+                        clearStoredSession();
+                        navigate('/pending', {
+                            state: {
+                                user: {
+                                    full_name: user.fullName,
+                                    email: user.email,
+                                    employee_id: user.employeeId,
+                                    avatar_url: user.avatarUrl
+                                }
+                            }
+                        });
+                        return;
+                    }
+
                     localStorage.setItem('user', JSON.stringify(user));
                     onLogin(token, user);
                     navigate('/calendar');
                 })
                 .catch(err => {
-                    console.error('Failed to fetch user:', err);
+                    console.error('Google sign-in failed:', err);
+                    clearStoredSession();
                     navigate('/login?error=auth_failed');
                 });
         } else {
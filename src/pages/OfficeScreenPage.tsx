@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import '../checkin-styles.css';
+
+interface ScreenCode {
+    name: string;
+    url: string;
+    image: string;
+    expiresIn: number;
+}
+
+// Runs unattended on a screen at the office entrance, so it has no login:
+// the screen key in its URL lets it fetch the rotating check-in QR code.
+const OfficeScreenPage: React.FC = () => {
+    const [searchParams] = useSearchParams();
+    const [code, setCode] = useState<ScreenCode | null>(null);
+    const [secondsLeft, setSecondsLeft] = useState(0);
+    const [error, setError] = useState('');
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+    const fence = searchParams.get('fence');
+    const key = searchParams.get('key');
+
+    useEffect(() => {
+        if (!fence || !key) return;
+
+        let timer: ReturnType<typeof setTimeout>;
+
+        const loadCode = async () => {
+            try {
+                const response = await fetch(`${API_URL}/checkin/screen/${fence}?key=${encodeURIComponent(key)}`);
+                const data = await response.json();
+
+                if (!response.ok) throw new Error(data.error || 'Failed to load QR code');
+
+                setCode(data);
+                setSecondsLeft(data.expiresIn);
+                setError('');
+                timer = setTimeout(loadCode, Math.max(data.expiresIn, 1) * 1000);
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Network error');
+                // Keep retrying; the screen is meant to recover on its own
+                timer = setTimeout(loadCode, 10000);
+            }
+        };
+
+        loadCode();
+        return () => clearTimeout(timer);
+    }, [fence, key, API_URL]);
+
+    useEffect(() => {
+        const countdown = setInterval(() => setSecondsLeft(prev => Math.max(prev - 1, 0)), 1000);
+        return () => clearInterval(countdown);
+    }, []);
+
+    return (
+        <div className="office-screen">
+            {code && <h1 className="office-screen-title">📍 {code.name}</h1>}
+
+            {(!fence || !key) && (
+                <div className="login-error">⚠️ This screen link is incomplete. Copy it again from the admin dashboard.</div>
+            )}
+            {error && <div className="login-error">⚠️ {error}</div>}
+
+            {code && (
+                <>
+                    <img className="office-screen-qr" src={code.image} alt="Check-in QR code" />
+                    <div className="office-screen-meta">
+                        SCAN WITH YOUR PHONE TO CHECK IN
+                        <br />
+                        NEW CODE IN {secondsLeft}s
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default OfficeScreenPage;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import PendingApproval from '../components/PendingApproval';
+import { clearStoredSession } from '../session';
+
+const PendingApprovalPage: React.FC = () => {
+    const location = useLocation();
+    const navigate = useNavigate();
+    const user = location.state?.user;
+
+    if (!user) {
+        return <Navigate to="/login" replace />;
+    }
+
+    const handleLogout = () => {
+        clearStoredSession();
+        navigate('/login');
+    };
+
+    return <PendingApproval user={user} onLogout={handleLogout} />;
+};
+
+export default PendingApprovalPage;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+const ResetPasswordPage: React.FC = () => {
+    const [searchParams] = useSearchParams();
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [done, setDone] = useState(false);
+    const navigate = useNavigate();
+
+    const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+    const token = searchParams.get('token');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (password !== confirmPassword) {
+            setError('Passwords do not match');
+            return;
+        }
+
+        setIsLoading(true);
+
+        try {
+            const response = await fetch(`${API_URL}/auth/password-reset/confirm`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token, password }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to reset password');
+            }
+
+            setDone(true);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to reset password');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="login-container">
+            <div className="login-box">
+                <div className="login-header">
+                    <h1 className="login-title">NEW PASSWORD</h1>
+                    <p className="login-subtitle">CHOOSE A PASSWORD FOR YOUR ACCOUNT</p>
+                </div>
+
+                {!token ? (
+                    <div className="login-error">⚠️ This reset link is missing its token</div>
+                ) : done ? (
+                    <div className="login-info">✅ Password updated. You have been logged out on every device.</div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="login-form">
+                        {error && (
+                            <div className="login-error">
+                                ⚠️ {error}
+                            </div>
+                        )}
+
+                        <div className="form-group">
+                            <label className="form-label">NEW PASSWORD</label>
+                            <input
+                                type="password"
+                                className="form-input"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                placeholder="At least 8 characters"
+                                autoComplete="new-password"
+                                minLength={8}
+                                required
+                            />
+                        </div>
+
+                        <div className="form-group">
+                            <label className="form-label">CONFIRM PASSWORD</label>
+                            <input
+                                type="password"
+                                className="form-input"
+                                value={confirmPassword}
+                                onChange={(e) => setConfirmPassword(e.target.value)}
+                                placeholder="Repeat the password"
+                                autoComplete="new-password"
+                                minLength={8}
+                                required
+                            />
+                        </div>
+
+                        <button type="submit" className="login-btn" disabled={isLoading}>
+                            {isLoading ? 'SAVING...' : 'SET PASSWORD'}
+                        </button>
+                    </form>
+                )}
+
+                <div className="login-links">
+                    <button type="button" className="login-link-btn" onClick={() => navigate('/login')}>
+                        ← BACK TO LOGIN
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ResetPasswordPage;
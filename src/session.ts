@@ -0,0 +1,134 @@
+// Keeps the login alive: access tokens are short-lived, so API calls that come
+// back with TOKEN_EXPIRED are retried once after swapping the refresh token.
+// Components keep passing the token they were given; the wrapper always sends
+// the latest one from localStorage.
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+export const SESSION_REFRESHED_EVENT = 'session:refreshed';
+export const SESSION_EXPIRED_EVENT = 'session:expired';
+
+// token is null when the refresh failed; fatal means the session is gone,
+// otherwise (rate limit, server or network error) the session is kept
+type RefreshResult = { token: string } | { token: null; fatal: boolean };
+
+let refreshInFlight: Promise<RefreshResult> | null = null;
+
+export function clearStoredSession() {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+}
+
+// Another tab sharing localStorage may have rotated the refresh token while
+// ours was in flight; its new tokens are just as good as our own
+function tokenFromOtherTab(sentRefreshToken: string): string | null {
+  const token = localStorage.getItem('token');
+  const refreshToken = localStorage.getItem('refreshToken');
+  return token && refreshToken && refreshToken !== sentRefreshToken ? token : null;
+}
+
+// Only one refresh at a time; concurrent 401s wait for the same result
+function refreshAccessToken(originalFetch: typeof fetch): Promise<RefreshResult> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async (): Promise<RefreshResult> => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) return { token: null, fatal: true };
+
+      try {
+        const response = await originalFetch(`${API_URL}/auth/refresh`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken })
+        });
+
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+
+          // The other tab's response may land a moment after ours
+          if (data.code === 'TOKEN_ROTATED') {
+            await new Promise(resolve => setTimeout(resolve, 1000));
+          }
+
+          const token = tokenFromOtherTab(refreshToken);
+          if (token) return { token };
+
+          // Only a definite "this session is over" logs the user out
+          return { token: null, fatal: response.status === 400 || data.code === 'SESSION_REVOKED' };
+        }
+
+        const data = await response.json();
+        localStorage.setItem('token', data.token);
+        localStorage.setItem('refreshToken', data.refreshToken);
+        window.dispatchEvent(new CustomEvent(SESSION_REFRESHED_EVENT, { detail: data.token }));
+        return { token: data.token as string };
+      } catch (error) {
+        console.error('Failed to refresh session:', error);
+        const token = tokenFromOtherTab(refreshToken);
+        return token ? { token } : { token: null, fatal: false };
+      }
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+
+  return refreshInFlight;
+}
+
+function withToken(init: RequestInit | undefined, token: string): RequestInit | undefined {
+  if (!init?.headers) return init;
+
+  const headers = new Headers(init.headers);
+  if (!headers.get('Authorization')?.startsWith('Bearer ')) return init;
+
+  headers.set('Authorization', `Bearer ${token}`);
+  return { ...init, headers };
+}
+
+async function isExpiredResponse(response: Response): Promise<boolean> {
+  if (response.status !== 401) return false;
+
+  try {
+    const data = await response.clone().json();
+    return data.code === 'TOKEN_EXPIRED' || data.code === 'SESSION_REVOKED';
+  } catch {
+    return false;
+  }
+}
+
+export function installSessionHandling() {
+  const originalFetch = window.fetch.bind(window);
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+
+    if (!url.startsWith(API_URL) || url.startsWith(`${API_URL}/auth/refresh`)) {
+      return originalFetch(input, init);
+    }
+
+    const storedToken = localStorage.getItem('token');
+    const response = await originalFetch(input, storedToken ? withToken(init, storedToken) : init);
+
+    if (!(await isExpiredResponse(response))) {
+      return response;
+    }
+
+    const data = await response.clone().json();
+
+    // A revoked session cannot be refreshed
+    const result: RefreshResult = data.code === 'TOKEN_EXPIRED'
+      ? await refreshAccessToken(originalFetch)
+      : { token: null, fatal: true };
+
+    if (result.token === null) {
+      // Rate limits, server and network errors leave the login in place
+      if (result.fatal) {
+        clearStoredSession();
+        window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT));
+      }
+      return response;
+    }
+
+    return originalFetch(input, withToken(init, result.token));
+  };
+}